@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+
+/**
+ * GET /api/companies/:companyId/content-library/:entryId
+ *
+ * Returns one library entry with its content.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ companyId: string; entryId: string }> }
+) {
+    try {
+        const { companyId, entryId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: entry, error } = await (supabase.from('content_library') as any)
+            .select('*')
+            .eq('id', entryId)
+            .eq('company_id', companyId)
+            .single()
+
+        if (error || !entry) {
+            return NextResponse.json({ error: 'Library entry not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ entry })
+    } catch (error) {
+        console.error('Error fetching library entry:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * DELETE /api/companies/:companyId/content-library/:entryId
+ *
+ * Removes an entry so the writers stop reusing it.
+ */
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ companyId: string; entryId: string }> }
+) {
+    try {
+        const { companyId, entryId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase.from('content_library') as any)
+            .delete()
+            .eq('id', entryId)
+            .eq('company_id', companyId)
+            .select('id')
+
+        if (error) {
+            throw new Error(`Failed to delete library entry: ${error.message}`)
+        }
+
+        if (!data || data.length === 0) {
+            return NextResponse.json({ error: 'Library entry not found' }, { status: 404 })
+        }
+
+        logger.info('[API] Content library entry deleted', {
+            data: { companyId, entryId }
+        })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('Error deleting library entry:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete library entry', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
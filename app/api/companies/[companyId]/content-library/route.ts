@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { detectFileKind, extractDocumentText } from '@/lib/ingestion'
+import { addBoilerplate, loadContentLibrary } from '@/lib/content-library'
+import { ContentLibraryEntry } from '@/lib/database.types'
+
+/**
+ * GET /api/companies/:companyId/content-library
+ *
+ * Lists the company's library entries (approved sections and boilerplate)
+ * with where each came from. Content is omitted from the listing.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ companyId: string }> }
+) {
+    try {
+        const { companyId } = await params
+        const entries = await loadContentLibrary(companyId)
+
+        return NextResponse.json({
+            entries: entries.map(({ content, ...rest }: ContentLibraryEntry) => ({
+                ...rest,
+                content_length: content.length,
+            })),
+        })
+    } catch (error) {
+        console.error('Error listing content library:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/companies/:companyId/content-library
+ *
+ * Adds boilerplate to the company's library.
+ *
+ * Body:
+ * - JSON { title, content, tags? } (content as HTML or plain text), or
+ * - multipart/form-data with `file` (PDF, DOCX, XLSX or TXT) and optional `title`, `tags` (comma-separated)
+ */
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ companyId: string }> }
+) {
+    try {
+        const { companyId } = await params
+        const isMultipart = request.headers.get('content-type')?.includes('multipart/form-data')
+
+        let title: string
+        let content: string
+        let tags: string[]
+
+        if (isMultipart) {
+            const form = await request.formData()
+            const file = form.get('file')
+
+            if (!(file instanceof File)) {
+                return NextResponse.json({ error: 'Missing required field: file' }, { status: 400 })
+            }
+
+            const kind = detectFileKind(file.name, file.type)
+            if (!kind || kind === 'zip') {
+                return NextResponse.json({ error: `Unsupported file type: ${file.name}` }, { status: 400 })
+            }
+
+            content = await extractDocumentText({
+                fileName: file.name,
+                mimeType: file.type,
+                data: new Uint8Array(await file.arrayBuffer()),
+            })
+            title = String(form.get('title') || '').trim() || file.name.replace(/\.[^.]+$/, '')
+            tags = String(form.get('tags') || '').split(',').map(t => t.trim()).filter(Boolean)
+        } else {
+            const body = await request.json().catch(() => ({}))
+            title = typeof body.title === 'string' ? body.title.trim() : ''
+            content = typeof body.content === 'string' ? body.content : ''
+            tags = Array.isArray(body.tags) ? body.tags.filter((t: unknown) => typeof t === 'string') : []
+        }
+
+        if (!title) {
+            return NextResponse.json({ error: 'Missing required field: title' }, { status: 400 })
+        }
+
+        if (!content.trim()) {
+            return NextResponse.json({ error: 'No boilerplate content provided' }, { status: 400 })
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: company } = await (supabase.from('companies') as any)
+            .select('id')
+            .eq('id', companyId)
+            .single()
+
+        if (!company) {
+            return NextResponse.json({ error: 'Company not found' }, { status: 404 })
+        }
+
+        const entry = await addBoilerplate(companyId, { title, content, tags })
+
+        logger.info('[API] Boilerplate added to content library', {
+            data: { companyId, entryId: entry.id, title, length: entry.content.length }
+        })
+
+        return NextResponse.json({ success: true, entry })
+    } catch (error) {
+        console.error('Error adding boilerplate:', error)
+        return NextResponse.json(
+            { error: 'Failed to add boilerplate', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
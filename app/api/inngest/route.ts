@@ -8,6 +8,8 @@ import {
     finalAssemblyFunction,
     finalScoringFunction,
     handleVolumeIterationFunction,
+    handleAmendmentFunction,
+    handleQaImportFunction,
     monitorStalledJobsFunction
 } from '@/lib/inngest/functions/index'
 
@@ -28,6 +30,8 @@ export const { GET, POST, PUT } = serve({
         
         // Supporting functions
         handleVolumeIterationFunction,
+        handleAmendmentFunction,
+        handleQaImportFunction,
         monitorStalledJobsFunction,
     ],
 })
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { inngest } from '@/lib/inngest/client'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { RfpAmendment } from '@/lib/database.types'
+import { resolveVolumeStructure, volumeName } from '@/lib/volume-structure'
+
+/**
+ * POST /api/proposals/:jobId/amendments/:amendmentId/regenerate
+ *
+ * Regenerates only the volumes an amendment flagged (volume_status = needs_regeneration).
+ * Other volumes keep their content, scores and approvals.
+ */
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string; amendmentId: string }> }
+) {
+    try {
+        const { jobId, amendmentId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('rfp_amendments, volume_status, volume_structure')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        const amendment = (job.rfp_amendments || []).find((a: RfpAmendment) => a.id === amendmentId)
+        if (!amendment) {
+            return NextResponse.json({ error: 'Amendment not found' }, { status: 404 })
+        }
+
+        if (amendment.status !== 'complete') {
+            return NextResponse.json(
+                { error: `Amendment is not ready (status: ${amendment.status})` },
+                { status: 400 }
+            )
+        }
+
+        const volumeStatus: Record<string, string> = job.volume_status || {}
+        const volumes = (amendment.affected_volumes || [])
+            .filter((v: number) => volumeStatus[`volume${v}`] === 'needs_regeneration')
+
+        if (volumes.length === 0) {
+            return NextResponse.json({ success: true, volumes: [], message: 'No volumes need regeneration' })
+        }
+
+        const structure = resolveVolumeStructure(job.volume_structure)
+        await inngest.send(volumes.map((volume: number) => ({
+            name: 'proposal/volume.generate',
+            data: {
+                jobId,
+                volume,
+                volumeName: volumeName(structure, volume),
+                progressStart: 30,
+                progressEnd: 80,
+            },
+        })))
+
+        logger.info(`[API] Regenerating volumes for amendment ${amendmentId}`, { data: { jobId, volumes } })
+
+        return NextResponse.json({
+            success: true,
+            volumes,
+            message: `Regenerating Volume${volumes.length > 1 ? 's' : ''} ${volumes.join(', ')}`,
+        })
+    } catch (error) {
+        console.error('Error regenerating amended volumes:', error)
+        return NextResponse.json(
+            { error: 'Failed to regenerate volumes', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
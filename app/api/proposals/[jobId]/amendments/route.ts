@@ -0,0 +1,199 @@
+import { NextResponse } from 'next/server'
+import { inngest } from '@/lib/inngest/client'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { appendRfpDocument, detectFileKind, IngestionError, ingestRfpFiles, removeRfpFiles, rfpDocumentFromText } from '@/lib/ingestion'
+import { RfpAmendment, RfpDocument } from '@/lib/database.types'
+import { claimAmendment, updateAmendment } from '@/lib/inngest/db-helpers'
+
+/**
+ * GET /api/proposals/:jobId/amendments
+ *
+ * Lists the amendments attached to a job with their diff and affected content.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('rfp_amendments')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ amendments: job.rfp_amendments || [] })
+    } catch (error) {
+        console.error('Error listing amendments:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/proposals/:jobId/amendments
+ *
+ * Attaches an SF-30 amendment to an existing job without restarting it.
+ * The amendment files are appended to the job's RFP package and the RFP is
+ * re-parsed in the background (proposal/amendment.received).
+ *
+ * Body (multipart/form-data):
+ * - file: one or more amendment files (PDF, DOCX, TXT or ZIP)
+ */
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+        const form = await request.formData()
+        const files = form.getAll('file').filter((f): f is File => f instanceof File)
+
+        if (files.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required field: file' },
+                { status: 400 }
+            )
+        }
+
+        const unsupported = files.filter(f => !detectFileKind(f.name, f.type))
+        if (unsupported.length > 0) {
+            return NextResponse.json(
+                { error: `Unsupported file type: ${unsupported.map(f => f.name).join(', ')}` },
+                { status: 400 }
+            )
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error: fetchError } = await (supabase.from('proposal_jobs') as any)
+            .select('rfp_parsed_data')
+            .eq('job_id', jobId)
+            .single()
+
+        if (fetchError || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        if (!job.rfp_parsed_data) {
+            return NextResponse.json(
+                { error: 'RFP has not been parsed yet - attach the amendment once preparation has finished' },
+                { status: 409 }
+            )
+        }
+
+        // Claim the amendment ID before storing anything, so a refused upload leaves no files behind
+        const receivedAt = new Date().toISOString()
+        const amendmentId = await claimAmendment(jobId, {
+            file_names: files.map(f => f.name),
+            received_at: receivedAt,
+        })
+
+        // Both rewrite rfp_parsed_data - one amendment or Q&A import at a time
+        if (!amendmentId) {
+            return NextResponse.json(
+                { error: 'Another amendment or a Q&A import is still being processed' },
+                { status: 409 }
+            )
+        }
+
+        let amendmentDocument: RfpDocument | null = null
+        try {
+            amendmentDocument = await ingestRfpFiles(jobId, await Promise.all(files.map(async f => ({
+                fileName: f.name,
+                mimeType: f.type,
+                data: new Uint8Array(await f.arrayBuffer()),
+            }))), { role: 'amendment', folder: amendmentId })
+
+            // Read after the claim - an amendment finished in the meantime has added its documents
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const { data: current, error: documentError } = await (supabase.from('proposal_jobs') as any)
+                .select('rfp_text, rfp_document')
+                .eq('job_id', jobId)
+                .single()
+
+            if (documentError || !current) {
+                throw new Error(`Failed to load the RFP package: ${documentError?.message || 'job not found'}`)
+            }
+
+            const baseDocument = current.rfp_document || rfpDocumentFromText(current.rfp_text || '')
+            const rfpDocument = appendRfpDocument(baseDocument, amendmentDocument)
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const { error: updateError } = await (supabase.from('proposal_jobs') as any)
+                .update({
+                    rfp_text: rfpDocument.text,
+                    rfp_document: rfpDocument,
+                    rfp_manifest: rfpDocument.documents,
+                    updated_at: new Date().toISOString()
+                })
+                .eq('job_id', jobId)
+
+            if (updateError) {
+                throw new Error(`Failed to store amendment: ${updateError.message}`)
+            }
+        } catch (attachError) {
+            // A record left 'processing' would block every later amendment
+            await updateAmendment(jobId, amendmentId, {
+                status: 'failed',
+                processed_at: new Date().toISOString(),
+                error: attachError instanceof Error ? attachError.message : 'Could not attach the amendment',
+            })
+            // Files stored for an amendment that was never attached would be orphaned
+            const storedFiles = (amendmentDocument?.documents || [])
+                .map(d => d.file_url)
+                .filter((path): path is string => !!path)
+            await removeRfpFiles(storedFiles).catch(removeError => logger.warn(
+                `[API] Could not remove the files of ${amendmentId}: ${removeError instanceof Error ? removeError.message : 'Unknown error'}`,
+                { data: { jobId, files: storedFiles } }
+            ))
+            throw attachError
+        }
+
+        const amendment: RfpAmendment = {
+            id: amendmentId,
+            file_names: amendmentDocument.documents.map(d => d.file_name),
+            status: 'processing',
+            received_at: receivedAt,
+        }
+        await updateAmendment(jobId, amendmentId, { file_names: amendment.file_names })
+
+        try {
+            await inngest.send({
+                name: 'proposal/amendment.received',
+                data: { jobId, amendmentId },
+            })
+        } catch (sendError) {
+            // A record left 'processing' would block every later amendment
+            await updateAmendment(jobId, amendmentId, {
+                status: 'failed',
+                processed_at: new Date().toISOString(),
+                error: 'Could not queue the re-parse - attach the amendment again',
+            })
+            throw sendError
+        }
+
+        logger.info(`[API] Amendment ${amendmentId} attached`, {
+            data: { jobId, amendmentId, files: amendment.file_names, pages: amendmentDocument.page_count }
+        })
+
+        return NextResponse.json({
+            success: true,
+            amendment,
+            message: 'Amendment attached - the RFP is being re-parsed',
+        })
+    } catch (error) {
+        if (error instanceof IngestionError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+        console.error('Error attaching amendment:', error)
+        return NextResponse.json(
+            { error: 'Failed to attach amendment', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
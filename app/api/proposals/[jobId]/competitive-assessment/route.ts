@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { normalizeCompetitiveAssessment } from '@/lib/competition'
+import { analyzePriceToWin } from '@/lib/pricing'
+
+/**
+ * GET /api/proposals/:jobId/competitive-assessment
+ *
+ * Returns the job's competitive assessment and, once the Price volume has
+ * been priced, where its total evaluated price stands against price-to-win.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('competitive_assessment, price_model')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({
+            assessment: job.competitive_assessment,
+            price_to_win: job.price_model ? analyzePriceToWin(job.price_model.total.price, job.competitive_assessment) : null,
+        })
+    } catch (error) {
+        console.error('Error fetching competitive assessment:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * PUT /api/proposals/:jobId/competitive-assessment
+ *
+ * Replaces the job's competitive assessment. Competitor names stay on the job:
+ * the writers only see the strengths and weaknesses, with names removed.
+ *
+ * Body (JSON):
+ * - competitors: [{ id?, name, incumbent?, strengths?, weaknesses?, price_low?, price_high?, notes? }]
+ *   (strengths / weaknesses as arrays or one per line)
+ * - price_to_win: target total evaluated price (optional; the lowest competitor estimate is used without one)
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+        const body = await request.json().catch(() => null)
+
+        if (!body || typeof body !== 'object') {
+            return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+        }
+
+        const { assessment, errors } = normalizeCompetitiveAssessment(body)
+        if (errors.length > 0) {
+            return NextResponse.json({ error: 'Invalid competitive assessment', details: errors }, { status: 400 })
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error: fetchError } = await (supabase.from('proposal_jobs') as any)
+            .select('price_model')
+            .eq('job_id', jobId)
+            .single()
+
+        if (fetchError || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error: updateError } = await (supabase.from('proposal_jobs') as any)
+            .update({
+                competitive_assessment: assessment,
+                updated_at: new Date().toISOString()
+            })
+            .eq('job_id', jobId)
+
+        if (updateError) {
+            throw new Error(`Failed to store competitive assessment: ${updateError.message}`)
+        }
+
+        const priceToWin = job.price_model ? analyzePriceToWin(job.price_model.total.price, assessment) : null
+        logger.info('[API] Competitive assessment updated', {
+            data: {
+                jobId,
+                competitors: assessment.competitors.length,
+                incumbent: assessment.competitors.some(c => c.incumbent),
+                priceToWinDistance: priceToWin?.distance_percent ?? null,
+            }
+        })
+
+        return NextResponse.json({ success: true, assessment, price_to_win: priceToWin })
+    } catch (error) {
+        console.error('Error updating competitive assessment:', error)
+        return NextResponse.json(
+            { error: 'Failed to update competitive assessment', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
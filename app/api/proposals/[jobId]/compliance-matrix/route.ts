@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { XLSX_CONTENT_TYPE, buildComplianceMatrixWorkbook, documentFileName } from '@/lib/packaging'
+
+/**
+ * API Route: Download Compliance Matrix Workbook
+ *
+ * Builds the compliance matrix Excel workbook from the job's current data
+ * (requirement rows, Section L instructions, Section M factors), so it
+ * reflects amendments and re-planning since Agent 8 archived its copy.
+ * Before Agent 3 has traced requirements, rows come straight from Section C.
+ */
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('job_id, company_id, rfp_parsed_data, content_outlines, volume_structure')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            )
+        }
+
+        if (!job.rfp_parsed_data) {
+            return NextResponse.json(
+                { error: 'The RFP has not been parsed yet' },
+                { status: 404 }
+            )
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: company } = await (supabase.from('companies') as any)
+            .select('name')
+            .eq('id', job.company_id)
+            .single()
+
+        const workbook = buildComplianceMatrixWorkbook({
+            rfpParsedData: job.rfp_parsed_data,
+            contentOutlines: job.content_outlines,
+            volumeStructure: job.volume_structure,
+        })
+        const filename = documentFileName({
+            offeror: company?.name || 'Offeror',
+            solicitation: job.rfp_parsed_data.metadata?.solicitation_num || 'Proposal',
+        }, 'Compliance_Matrix', 'xlsx')
+
+        logger.info('[API] Compliance matrix downloaded', {
+            data: { jobId, sizeKB: Math.round(workbook.length / 1024), filename }
+        })
+
+        return new NextResponse(new Uint8Array(workbook), {
+            headers: {
+                'Content-Type': XLSX_CONTENT_TYPE,
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Content-Length': workbook.length.toString(),
+                'Cache-Control': 'no-cache, no-store, must-revalidate',
+            },
+        })
+
+    } catch (error) {
+        logger.error('[API] Failed to build compliance matrix workbook', {
+            data: {
+                error: error instanceof Error ? error.message : String(error)
+            }
+        })
+        return NextResponse.json(
+            { error: 'Failed to build compliance matrix workbook' },
+            { status: 500 }
+        )
+    }
+}
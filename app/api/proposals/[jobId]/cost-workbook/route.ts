@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { XLSX_CONTENT_TYPE, documentFileName } from '@/lib/packaging'
+import { buildPricedWorkbook } from '@/lib/pricing'
+
+/**
+ * API Route: Download Cost Workbook
+ *
+ * Builds the priced cost workbook from the job's current price model, so it
+ * reflects pricing changes since Agent 8 packaged its copy. When the
+ * solicitation shipped a pricing template, that template comes back filled
+ * in; otherwise the standard layout (rates by year, hours, CLIN extensions,
+ * indirect build-up) with live formulas.
+ */
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('job_id, company_id, rfp_parsed_data, price_model, documents:rfp_document->documents')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            )
+        }
+
+        if (!job.price_model) {
+            return NextResponse.json(
+                { error: 'The Price volume has not been priced yet' },
+                { status: 404 }
+            )
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: company } = await (supabase.from('companies') as any)
+            .select('name')
+            .eq('id', job.company_id)
+            .single()
+
+        const priced = await buildPricedWorkbook(job.price_model, job.documents || [])
+        const filename = documentFileName({
+            offeror: company?.name || 'Offeror',
+            solicitation: job.rfp_parsed_data?.metadata?.solicitation_num || 'Proposal',
+        }, priced.document, 'xlsx')
+
+        logger.info('[API] Cost workbook downloaded', {
+            data: { jobId, sizeKB: Math.round(priced.workbook.length / 1024), filename, template: priced.template }
+        })
+
+        return new NextResponse(new Uint8Array(priced.workbook), {
+            headers: {
+                'Content-Type': XLSX_CONTENT_TYPE,
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Content-Length': priced.workbook.length.toString(),
+                'Cache-Control': 'no-cache, no-store, must-revalidate',
+            },
+        })
+
+    } catch (error) {
+        logger.error('[API] Failed to build cost workbook', {
+            data: {
+                error: error instanceof Error ? error.message : String(error)
+            }
+        })
+        return NextResponse.json(
+            { error: 'Failed to build cost workbook' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { StoredPackageFile } from '@/lib/database.types'
+import { buildSubmissionZip, packageFileName } from '@/lib/packaging'
+
+/**
+ * API Route: Download Submission Package
+ *
+ * Returns every file Agent 8 stored for the proposal (volume PDFs, workbooks)
+ * as one ZIP named per the Section L file naming instructions. Each file is
+ * checked against its recorded SHA-256 before it goes into the package.
+ */
+
+export const maxDuration = 60
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('job_id, company_id, final_pdf_urls, rfp_parsed_data')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            )
+        }
+
+        // Volumes first (volume_1, volume_2, ...), then package-level documents
+        const files = (Object.entries(job.final_pdf_urls || {}) as Array<[string, StoredPackageFile]>)
+            .filter(([, file]) => file && typeof file === 'object' && file.sha256)
+            .sort(([a], [b]) =>
+                Number(b.startsWith('volume_')) - Number(a.startsWith('volume_')) ||
+                a.localeCompare(b, undefined, { numeric: true }))
+            .map(([, file]) => file)
+
+        if (files.length === 0) {
+            return NextResponse.json(
+                { error: 'No submission files have been generated for this proposal yet' },
+                { status: 404 }
+            )
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: company } = await (supabase.from('companies') as any)
+            .select('name')
+            .eq('id', job.company_id)
+            .single()
+
+        const filename = packageFileName(job.rfp_parsed_data?.section_l?.submission_naming, {
+            offeror: company?.name || 'Offeror',
+            solicitation: job.rfp_parsed_data?.metadata?.solicitation_num || 'Proposal',
+        })
+
+        const zip = await buildSubmissionZip(files)
+
+        logger.info('[API] Submission package downloaded', {
+            data: { jobId, files: files.length, sizeKB: Math.round(zip.length / 1024), filename }
+        })
+
+        return new NextResponse(new Uint8Array(zip), {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Content-Length': zip.length.toString(),
+                'Cache-Control': 'no-cache, no-store, must-revalidate',
+            },
+        })
+
+    } catch (error) {
+        logger.error('[API] Failed to build submission package', {
+            data: {
+                error: error instanceof Error ? error.message : String(error)
+            }
+        })
+        return NextResponse.json(
+            { error: 'Failed to build submission package' },
+            { status: 500 }
+        )
+    }
+}
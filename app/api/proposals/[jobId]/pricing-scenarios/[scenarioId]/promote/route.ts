@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import { inngest } from '@/lib/inngest/client'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { buildPriceModel } from '@/lib/pricing'
+import { PricingInputs, PricingScenario } from '@/lib/database.types'
+import { resolveVolumeStructure, volumeContentKey, writerVolume } from '@/lib/volume-structure'
+
+/**
+ * POST /api/proposals/:jobId/pricing-scenarios/:scenarioId/promote
+ *
+ * Makes a scenario's inputs the job's pricing inputs and regenerates the
+ * Price volume from them (Agent 4D reuses saved inputs instead of
+ * re-estimating hours). Other volumes keep their content.
+ */
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string; scenarioId: string }> }
+) {
+    try {
+        const { jobId, scenarioId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('pricing_scenarios, volume_structure, volume_status')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        const scenarios: PricingScenario[] = job.pricing_scenarios || []
+        const scenario = scenarios.find(s => s.id === scenarioId)
+        if (!scenario) {
+            return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+        }
+
+        const structure = resolveVolumeStructure(job.volume_structure)
+        if (!structure.some(v => v.writer === 'price')) {
+            return NextResponse.json({ error: 'This proposal has no Price volume' }, { status: 400 })
+        }
+
+        const volume = writerVolume(structure, 'price')
+        const volumeStatus: Record<string, string> = job.volume_status || {}
+        if (volumeStatus[volumeContentKey(volume.number)] === 'generating') {
+            return NextResponse.json(
+                { error: `Volume ${volume.number} is still being generated` },
+                { status: 409 }
+            )
+        }
+
+        const promotedAt = new Date().toISOString()
+        // Pinned, so the Price volume is regenerated from these inputs rather than a fresh estimate
+        const inputs: PricingInputs = { ...scenario.inputs, origin: 'scenario', superseded_by: undefined }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error: updateError } = await (supabase.from('proposal_jobs') as any)
+            .update({
+                pricing_inputs: inputs,
+                price_model: buildPriceModel(inputs),
+                pricing_scenarios: scenarios.map(s => (s.id === scenarioId ? { ...s, promoted_at: promotedAt } : s)),
+                updated_at: promotedAt
+            })
+            .eq('job_id', jobId)
+
+        if (updateError) {
+            throw new Error(`Failed to promote pricing scenario: ${updateError.message}`)
+        }
+
+        await inngest.send({
+            name: 'proposal/volume.generate',
+            data: {
+                jobId,
+                volume: volume.number,
+                volumeName: volume.name,
+                progressStart: 30,
+                progressEnd: 80,
+            },
+        })
+
+        logger.info(`[API] Pricing scenario ${scenarioId} promoted`, {
+            data: { jobId, scenarioId, volume: volume.number }
+        })
+
+        return NextResponse.json({
+            success: true,
+            volume: volume.number,
+            message: `Regenerating Volume ${volume.number} (${volume.name}) from ${scenario.name}`,
+        })
+    } catch (error) {
+        console.error('Error promoting pricing scenario:', error)
+        return NextResponse.json(
+            { error: 'Failed to promote pricing scenario', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { PricingScenario } from '@/lib/database.types'
+
+/**
+ * DELETE /api/proposals/:jobId/pricing-scenarios/:scenarioId
+ *
+ * Removes a scenario. A promoted scenario's inputs stay the job's pricing inputs.
+ */
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string; scenarioId: string }> }
+) {
+    try {
+        const { jobId, scenarioId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('pricing_scenarios')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        const scenarios: PricingScenario[] = job.pricing_scenarios || []
+        if (!scenarios.some(s => s.id === scenarioId)) {
+            return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error: updateError } = await (supabase.from('proposal_jobs') as any)
+            .update({
+                pricing_scenarios: scenarios.filter(s => s.id !== scenarioId),
+                updated_at: new Date().toISOString()
+            })
+            .eq('job_id', jobId)
+
+        if (updateError) {
+            throw new Error(`Failed to delete pricing scenario: ${updateError.message}`)
+        }
+
+        logger.info(`[API] Pricing scenario ${scenarioId} deleted`, { data: { jobId, scenarioId } })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('Error deleting pricing scenario:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
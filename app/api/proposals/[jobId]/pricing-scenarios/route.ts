@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { applyScenarioChanges, compareScenarios, parseScenarioChanges } from '@/lib/pricing'
+import { PricingInputs, PricingScenario } from '@/lib/database.types'
+
+/**
+ * GET /api/proposals/:jobId/pricing-scenarios
+ *
+ * Lists the pricing scenarios with a side-by-side comparison of their total
+ * evaluated price against the inputs the Price volume was priced from and the price-to-win
+ * target of the job's competitive assessment.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('price_model, pricing_scenarios, competitive_assessment')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        const scenarios: PricingScenario[] = job.pricing_scenarios || []
+        const current: PricingInputs | undefined = job.price_model?.inputs
+        return NextResponse.json({
+            scenarios,
+            comparison: current ? compareScenarios(current, scenarios, job.competitive_assessment) : null,
+        })
+    } catch (error) {
+        console.error('Error listing pricing scenarios:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/proposals/:jobId/pricing-scenarios
+ *
+ * Clones the pricing inputs (or another scenario's) and applies "what if"
+ * assumption changes. The current inputs are left untouched until the
+ * scenario is promoted.
+ *
+ * Body (JSON):
+ * - name: scenario name (optional)
+ * - based_on: scenario id to clone instead of the current inputs (optional)
+ * - changes: { fee, escalation_rate, labor_swaps: [{ from, to, share }], drop_periods }
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+        const body = await request.json().catch(() => null)
+
+        if (!body || typeof body !== 'object') {
+            return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error: fetchError } = await (supabase.from('proposal_jobs') as any)
+            .select('price_model, pricing_scenarios, competitive_assessment')
+            .eq('job_id', jobId)
+            .single()
+
+        if (fetchError || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        // The inputs the Price volume was priced from - pinned or estimated
+        const current: PricingInputs | undefined = job.price_model?.inputs
+        if (!current?.labor?.length) {
+            return NextResponse.json(
+                { error: 'The Price volume has not been priced yet - generate it before running scenarios' },
+                { status: 409 }
+            )
+        }
+
+        const scenarios: PricingScenario[] = job.pricing_scenarios || []
+        const basedOn = typeof body.based_on === 'string' && body.based_on ? body.based_on : null
+        const source = basedOn ? scenarios.find(s => s.id === basedOn) : null
+        if (basedOn && !source) {
+            return NextResponse.json({ error: `Scenario ${basedOn} not found` }, { status: 404 })
+        }
+
+        const sourceInputs = source ? source.inputs : current
+        const { changes, errors } = parseScenarioChanges(body.changes, sourceInputs)
+        if (errors.length > 0) {
+            return NextResponse.json({ error: 'Invalid scenario changes', details: errors }, { status: 400 })
+        }
+
+        const next = Math.max(0, ...scenarios.map(s => parseInt(s.id.replace(/^SCN-/, ''), 10) || 0)) + 1
+        const scenarioId = `SCN-${String(next).padStart(3, '0')}`
+
+        const scenario: PricingScenario = {
+            id: scenarioId,
+            name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : `Scenario ${next}`,
+            based_on: basedOn,
+            changes,
+            inputs: applyScenarioChanges(sourceInputs, changes),
+            created_at: new Date().toISOString(),
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error: updateError } = await (supabase.from('proposal_jobs') as any)
+            .update({
+                pricing_scenarios: [...scenarios, scenario],
+                updated_at: new Date().toISOString()
+            })
+            .eq('job_id', jobId)
+
+        if (updateError) {
+            throw new Error(`Failed to store pricing scenario: ${updateError.message}`)
+        }
+
+        const comparison = compareScenarios(current, [scenario], job.competitive_assessment)
+        logger.info(`[API] Pricing scenario ${scenarioId} created`, {
+            data: { jobId, scenarioId, basedOn, changes, delta: comparison.rows[1].delta }
+        })
+
+        return NextResponse.json({ success: true, scenario, comparison })
+    } catch (error) {
+        console.error('Error creating pricing scenario:', error)
+        return NextResponse.json(
+            { error: 'Failed to create pricing scenario', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
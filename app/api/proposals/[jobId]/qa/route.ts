@@ -0,0 +1,160 @@
+import { NextResponse } from 'next/server'
+import { inngest } from '@/lib/inngest/client'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { detectFileKind, extractDocumentText } from '@/lib/ingestion'
+import { RfpQaImport } from '@/lib/database.types'
+import { claimQaImport, updateQaImport } from '@/lib/inngest/db-helpers'
+
+/**
+ * GET /api/proposals/:jobId/qa
+ *
+ * Lists Q&A imports and the clarifications linked to requirements.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('rfp_qa_imports, rfp_parsed_data')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        // Omit the raw Q&A text from the listing
+        const imports = (job.rfp_qa_imports || []).map(({ text, ...rest }: RfpQaImport) => ({
+            ...rest,
+            text_length: text.length,
+        }))
+
+        return NextResponse.json({
+            imports,
+            clarifications: job.rfp_parsed_data?.clarifications || [],
+        })
+    } catch (error) {
+        console.error('Error listing Q&A imports:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/proposals/:jobId/qa
+ *
+ * Imports a government Q&A release. Agent 1 parses it into question/answer
+ * pairs in the background (proposal/qa.received) and annotates the affected
+ * requirements with the clarified interpretation.
+ *
+ * Body:
+ * - JSON { text, source? } for pasted Q&A, or
+ * - multipart/form-data with `file` (PDF, DOCX, XLSX or TXT)
+ */
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+        const isMultipart = request.headers.get('content-type')?.includes('multipart/form-data')
+
+        let text: string
+        let source: string
+
+        if (isMultipart) {
+            const form = await request.formData()
+            const file = form.get('file')
+
+            if (!(file instanceof File)) {
+                return NextResponse.json({ error: 'Missing required field: file' }, { status: 400 })
+            }
+
+            const kind = detectFileKind(file.name, file.type)
+            if (!kind || kind === 'zip') {
+                return NextResponse.json({ error: `Unsupported file type: ${file.name}` }, { status: 400 })
+            }
+
+            text = await extractDocumentText({
+                fileName: file.name,
+                mimeType: file.type,
+                data: new Uint8Array(await file.arrayBuffer()),
+            })
+            source = file.name
+        } else {
+            const body = await request.json().catch(() => ({}))
+            text = body.text || ''
+            source = body.source || 'pasted text'
+        }
+
+        if (!text.trim()) {
+            return NextResponse.json({ error: 'No Q&A text provided' }, { status: 400 })
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error: fetchError } = await (supabase.from('proposal_jobs') as any)
+            .select('rfp_parsed_data')
+            .eq('job_id', jobId)
+            .single()
+
+        if (fetchError || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        if (!job.rfp_parsed_data) {
+            return NextResponse.json(
+                { error: 'RFP has not been parsed yet - import Q&A once preparation has finished' },
+                { status: 409 }
+            )
+        }
+
+        const importId = await claimQaImport(jobId, {
+            source,
+            received_at: new Date().toISOString(),
+            text,
+        })
+
+        // Both rewrite rfp_parsed_data - let a running amendment finish first
+        if (!importId) {
+            return NextResponse.json(
+                { error: 'An amendment is still being processed - try again once it completes' },
+                { status: 409 }
+            )
+        }
+
+        try {
+            await inngest.send({
+                name: 'proposal/qa.received',
+                data: { jobId, importId },
+            })
+        } catch (sendError) {
+            // A record left 'processing' would block amendments
+            await updateQaImport(jobId, importId, {
+                status: 'failed',
+                processed_at: new Date().toISOString(),
+                error: 'Could not queue the Q&A import - import it again',
+            })
+            throw sendError
+        }
+
+        logger.info(`[API] Q&A import ${importId} queued`, {
+            data: { jobId, importId, source, length: text.length }
+        })
+
+        return NextResponse.json({
+            success: true,
+            import_id: importId,
+            message: 'Q&A imported - linking answers to requirements',
+        })
+    } catch (error) {
+        console.error('Error importing Q&A:', error)
+        return NextResponse.json(
+            { error: 'Failed to import Q&A', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
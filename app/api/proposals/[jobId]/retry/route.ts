@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server'
 import { inngest } from '@/lib/inngest/client'
 import { supabase } from '@/lib/supabase'
 import { logger } from '@/lib/logger'
+import { ProposalVolume } from '@/lib/database.types'
+import { resolveVolumeStructure, volumeContentKey, volumeOutlineKey } from '@/lib/volume-structure'
 
 /**
  * POST /api/proposals/:jobId/retry
@@ -66,7 +68,7 @@ export async function POST(
                     status: 'processing',
                     progress_percent: 0,
                     current_step: 'Initializing...',
-                    current_agent: 'agent_0',
+                    current_agent: 'agent_1',
                     agent_progress: {},
                     error_message: null,
                     updated_at: new Date().toISOString(),
@@ -175,12 +177,7 @@ export async function GET(
 
 interface CheckpointAnalysis {
     hasVolumes: boolean
-    volumesComplete: {
-        technical: boolean
-        management: boolean
-        pastPerformance: boolean
-        pricing: boolean
-    }
+    volumesComplete: Record<string, boolean> // "volume1" -> complete
     totalPagesGenerated: number
     completedAgents: string[]
     failedAgent: string | null
@@ -202,12 +199,11 @@ function analyzeCheckpoint(job: Record<string, unknown>): CheckpointAnalysis {
     }
 
     // Check which volumes are complete
-    const volumesComplete = {
-        technical: volumeProgress.volume_1?.status === 'complete',
-        management: volumeProgress.volume_2?.status === 'complete',
-        pastPerformance: volumeProgress.volume_3?.status === 'complete',
-        pricing: volumeProgress.volume_4?.status === 'complete',
-    }
+    const structure = resolveVolumeStructure(job.volume_structure as ProposalVolume[] | null)
+    const volumesComplete = Object.fromEntries(structure.map(v => [
+        volumeContentKey(v.number),
+        volumeProgress[volumeOutlineKey(v.number)]?.status === 'complete',
+    ]))
 
     const hasVolumes = Object.values(volumesComplete).some(v => v)
 
@@ -221,20 +217,20 @@ function analyzeCheckpoint(job: Record<string, unknown>): CheckpointAnalysis {
 
     // Also check if content exists in the job
     const hasContent = !!(job.technical_approach || job.management_approach || 
-                         job.past_performance_volume || job.pricing)
+                         job.past_performance_volume || job.pricing ||
+                         Object.keys((job.volumes || {}) as Record<string, string>).length > 0)
     
     // Determine what can be salvaged
-    const salvageableWork: string[] = []
-    if (volumesComplete.technical) salvageableWork.push('Volume 1: Technical Approach')
-    if (volumesComplete.management) salvageableWork.push('Volume 2: Management Approach')
-    if (volumesComplete.pastPerformance) salvageableWork.push('Volume 3: Past Performance')
-    if (volumesComplete.pricing) salvageableWork.push('Volume 4: Pricing')
+    const salvageableWork: string[] = structure
+        .filter(v => volumesComplete[volumeContentKey(v.number)])
+        .map(v => `Volume ${v.number}: ${v.name}`)
     if (hasContent && !hasVolumes) salvageableWork.push('Partial content generated')
 
     // Determine which agent to resume from
     const failedAgent = job.current_agent as string | null
-    let resumeAgent = 'agent_0'
+    let resumeAgent = 'agent_1'
     
+    // Agent 0 runs after Agent 1 - the volume structure comes from the parsed Section L
     if (completedAgents.includes('agent_4')) {
         // Volumes complete, resume from compliance
         resumeAgent = 'agent_5'
@@ -243,10 +239,10 @@ function analyzeCheckpoint(job: Record<string, unknown>): CheckpointAnalysis {
         resumeAgent = 'agent_4'
     } else if (completedAgents.includes('agent_2')) {
         resumeAgent = 'agent_3'
-    } else if (completedAgents.includes('agent_1')) {
-        resumeAgent = 'agent_2'
     } else if (completedAgents.includes('agent_0')) {
-        resumeAgent = 'agent_1'
+        resumeAgent = 'agent_2'
+    } else if (completedAgents.includes('agent_1')) {
+        resumeAgent = 'agent_0'
     }
 
     return {
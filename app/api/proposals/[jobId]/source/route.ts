@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { getRfpFileSignedUrl } from '@/lib/ingestion'
+import { RfpSourceDocument } from '@/lib/database.types'
+
+/**
+ * GET /api/proposals/[jobId]/source?page=N
+ *
+ * Redirects to the original RFP file, opened at the given page.
+ * Used by reviewers to jump from a requirement to where it was extracted.
+ * `page` is the page of the combined package (RfpSourceAnchor.page) and is
+ * mapped to the source document and its own page number.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+        const { searchParams } = new URL(request.url)
+        const page = parseInt(searchParams.get('page') || '1', 10)
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('rfp_file_url, rfp_manifest')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        // Find the package document containing the requested page
+        const manifest: RfpSourceDocument[] = job.rfp_manifest || []
+        const document = manifest.find(d => page >= d.start_page && page <= d.end_page)
+        const fileUrl = document?.file_url || job.rfp_file_url
+
+        if (!fileUrl) {
+            return NextResponse.json(
+                { error: 'No original RFP file stored for this job' },
+                { status: 404 }
+            )
+        }
+
+        const signedUrl = await getRfpFileSignedUrl(fileUrl)
+
+        // Only PDF viewers understand #page - other formats open at the top
+        const documentPage = document ? page - document.start_page + 1 : page
+        const isPdf = !document || document.mime_type === 'application/pdf'
+        const pageFragment = isPdf && Number.isFinite(documentPage) && documentPage > 0 ? `#page=${documentPage}` : ''
+
+        return NextResponse.redirect(`${signedUrl}${pageFragment}`)
+    } catch (error) {
+        console.error('Error opening RFP source:', error)
+        return NextResponse.json(
+            { error: 'Failed to open RFP source', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
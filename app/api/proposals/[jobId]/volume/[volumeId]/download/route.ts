@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { logger } from '@/lib/logger'
+import { resolveVolumeStructure, toRoman, volumeContentKey } from '@/lib/volume-structure'
+import { buildFormatProfile, formatProfileDocument } from '@/lib/format-profile'
+import { DOCX_CONTENT_TYPE, htmlToDocx } from '@/lib/packaging'
+import { stripProvenance } from '@/lib/provenance'
 
 /**
  * API Route: Download Volume Content
  * 
  * Returns the HTML content of a specific volume for download.
+ * format=docx returns an editable Word document styled per the Section L format profile.
  * Optionally converts to PDF if format=pdf query parameter is provided.
  */
 
@@ -20,9 +25,9 @@ export async function GET(
         
         // Validate volume ID
         const volumeNum = parseInt(volumeId)
-        if (isNaN(volumeNum) || volumeNum < 1 || volumeNum > 4) {
+        if (isNaN(volumeNum) || volumeNum < 1) {
             return NextResponse.json(
-                { error: 'Invalid volume ID (must be 1-4)' },
+                { error: 'Invalid volume ID' },
                 { status: 400 }
             )
         }
@@ -30,7 +35,7 @@ export async function GET(
         // Fetch job data
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const { data: job, error } = await (supabase.from('proposal_jobs') as any)
-            .select('volumes, volume_status, rfp_metadata, job_id')
+            .select('volumes, volume_status, volume_structure, rfp_metadata, rfp_parsed_data, company_id, job_id')
             .eq('job_id', jobId)
             .single()
 
@@ -41,11 +46,18 @@ export async function GET(
             )
         }
 
-        const volumeKey = `volume${volumeNum}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+        const volumeEntry = resolveVolumeStructure(job.volume_structure).find(v => v.number === volumeNum)
+        if (!volumeEntry) {
+            return NextResponse.json(
+                { error: `Invalid volume ID - this proposal has no Volume ${volumeNum}` },
+                { status: 400 }
+            )
+        }
+
+        const volumeKey = volumeContentKey(volumeNum)
         const volumeContent = job.volumes?.[volumeKey]
         const volumeStatus = job.volume_status?.[volumeKey]
-        const volumeNames = ['Technical', 'Management', 'Past Performance', 'Pricing']
-        const volumeName = volumeNames[volumeNum - 1]
+        const volumeName = volumeEntry.name.replace(/[^A-Za-z0-9]+/g, '_')
 
         // Check if volume exists and is ready
         if (!volumeContent) {
@@ -64,6 +76,9 @@ export async function GET(
             )
         }
 
+        // Exports never carry the review-only source tags
+        const exportContent = stripProvenance(volumeContent)
+
         logger.info('[API] Volume download requested', {
             data: { jobId, volume: volumeNum, format }
         })
@@ -71,8 +86,13 @@ export async function GET(
         // For HTML format, return the content with download headers
         if (format === 'html') {
             const filename = `Volume_${volumeNum}_${volumeName}_${jobId.substring(0, 8)}.html`
+            const html = formatProfileDocument(
+                exportContent,
+                buildFormatProfile(job.rfp_parsed_data?.section_l?.format),
+                `Volume ${toRoman(volumeNum)}: ${volumeEntry.name}`
+            )
             
-            return new NextResponse(volumeContent, {
+            return new NextResponse(html, {
                 headers: {
                     'Content-Type': 'text/html; charset=utf-8',
                     'Content-Disposition': `attachment; filename="${filename}"`,
@@ -81,6 +101,32 @@ export async function GET(
             })
         }
 
+        if (format === 'docx') {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const { data: company } = await (supabase.from('companies') as any)
+                .select('name')
+                .eq('id', job.company_id)
+                .single()
+
+            const title = `Volume ${toRoman(volumeNum)}: ${volumeEntry.name}`
+            const docx = htmlToDocx(exportContent, buildFormatProfile(job.rfp_parsed_data?.section_l?.format), {
+                title,
+                solicitationNum: job.rfp_parsed_data?.metadata?.solicitation_num || 'Proposal',
+                companyName: company?.name || 'Offeror',
+                volumeTitle: title,
+                volumeNumeral: toRoman(volumeNum),
+            })
+            const filename = `Volume_${volumeNum}_${volumeName}_${jobId.substring(0, 8)}.docx`
+
+            return new NextResponse(new Uint8Array(docx), {
+                headers: {
+                    'Content-Type': DOCX_CONTENT_TYPE,
+                    'Content-Disposition': `attachment; filename="${filename}"`,
+                    'Cache-Control': 'no-cache, no-store, must-revalidate',
+                },
+            })
+        }
+
         // For PDF format, return error for now (PDF conversion would require puppeteer or similar)
         // TODO: Implement PDF conversion using puppeteer or a PDF library
         if (format === 'pdf') {
@@ -91,7 +137,7 @@ export async function GET(
         }
 
         return NextResponse.json(
-            { error: 'Invalid format. Use format=html or format=pdf' },
+            { error: 'Invalid format. Use format=html, format=docx or format=pdf' },
             { status: 400 }
         )
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { inngest } from '@/lib/inngest/client'
 import { supabase } from '@/lib/supabase'
 import { logger } from '@/lib/logger'
+import { resolveVolumeStructure, volumeContentKey } from '@/lib/volume-structure'
 
 export async function POST(
     request: NextRequest,
@@ -11,10 +12,6 @@ export async function POST(
         const { jobId, volumeId } = await params
         const volume = parseInt(volumeId)
 
-        if (![1, 2, 3, 4].includes(volume)) {
-            return NextResponse.json({ error: 'Invalid volume ID' }, { status: 400 })
-        }
-
         // Get volume info
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const { data: job } = await (supabase.from('proposal_jobs') as any)
@@ -26,7 +23,12 @@ export async function POST(
             return NextResponse.json({ error: 'Job not found' }, { status: 404 })
         }
 
-        const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+        const volumeEntry = resolveVolumeStructure(job.volume_structure).find(v => v.number === volume)
+        if (!volumeEntry) {
+            return NextResponse.json({ error: 'Invalid volume ID' }, { status: 400 })
+        }
+
+        const volumeKey = volumeContentKey(volume)
         const status = job.volume_status?.[volumeKey]
 
         // Only allow scoring if volume is ready
@@ -37,7 +39,7 @@ export async function POST(
             }, { status: 400 })
         }
 
-        const volumeName = ['Technical', 'Management', 'Past Performance', 'Pricing'][volume - 1]
+        const volumeName = volumeEntry.name
 
         logger.info('[API] Triggering manual volume scoring', {
             data: { jobId, volume, volumeName }
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { logger } from '@/lib/logger'
+import { resolveVolumeStructure, toRoman, volumeContentKey } from '@/lib/volume-structure'
+import { buildFormatProfile, formatProfileDocument } from '@/lib/format-profile'
+import { annotateProvenance, PROVENANCE_CSS } from '@/lib/provenance'
 
 /**
  * API Route: View Volume Content
  * 
  * Returns the HTML content of a specific volume for viewing in a modal or separate page.
+ * Claims the writers tagged with their source records show that source on hover.
  */
 
 export async function GET(
@@ -17,9 +21,9 @@ export async function GET(
         
         // Validate volume ID
         const volumeNum = parseInt(volumeId)
-        if (isNaN(volumeNum) || volumeNum < 1 || volumeNum > 4) {
+        if (isNaN(volumeNum) || volumeNum < 1) {
             return NextResponse.json(
-                { error: 'Invalid volume ID (must be 1-4)' },
+                { error: 'Invalid volume ID' },
                 { status: 400 }
             )
         }
@@ -27,7 +31,7 @@ export async function GET(
         // Fetch job data
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const { data: job, error } = await (supabase.from('proposal_jobs') as any)
-            .select('volumes, volume_status, job_id')
+            .select('volumes, volume_status, volume_structure, rfp_parsed_data, company_data, job_id')
             .eq('job_id', jobId)
             .single()
 
@@ -38,7 +42,15 @@ export async function GET(
             )
         }
 
-        const volumeKey = `volume${volumeNum}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+        const volumeEntry = resolveVolumeStructure(job.volume_structure).find(v => v.number === volumeNum)
+        if (!volumeEntry) {
+            return NextResponse.json(
+                { error: `Invalid volume ID - this proposal has no Volume ${volumeNum}` },
+                { status: 400 }
+            )
+        }
+
+        const volumeKey = volumeContentKey(volumeNum)
         const volumeContent = job.volumes?.[volumeKey]
         const volumeStatus = job.volume_status?.[volumeKey]
 
@@ -63,8 +75,18 @@ export async function GET(
             data: { jobId, volume: volumeNum }
         })
 
-        // Return HTML content with proper headers
-        return new NextResponse(volumeContent, {
+        // Preview with the Section L typography the PDF uses
+        const annotated = annotateProvenance(volumeContent, {
+            companyData: job.company_data,
+            rfpParsedData: job.rfp_parsed_data,
+        })
+        const html = formatProfileDocument(
+            `<style>${PROVENANCE_CSS}</style>${annotated}`,
+            buildFormatProfile(job.rfp_parsed_data?.section_l?.format),
+            `Volume ${toRoman(volumeNum)}: ${volumeEntry.name}`
+        )
+
+        return new NextResponse(html, {
             headers: {
                 'Content-Type': 'text/html; charset=utf-8',
                 'Cache-Control': 'no-cache, no-store, must-revalidate',
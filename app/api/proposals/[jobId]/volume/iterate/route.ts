@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { inngest } from '@/lib/inngest/client'
+import { supabase } from '@/lib/supabase'
 import { logger } from '@/lib/logger'
+import { resolveVolumeStructure } from '@/lib/volume-structure'
 
 /**
  * API Route: Request Volume Iteration
@@ -20,9 +22,26 @@ export async function POST(
         const { volume, feedback, currentScore, iteration } = body
 
         // Validate inputs
-        if (!volume || typeof volume !== 'number' || volume < 1 || volume > 4) {
+        if (!volume || typeof volume !== 'number' || volume < 1) {
             return NextResponse.json(
-                { error: 'Invalid volume number (must be 1-4)' },
+                { error: 'Invalid volume number' },
+                { status: 400 }
+            )
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job } = await (supabase.from('proposal_jobs') as any)
+            .select('volume_structure')
+            .eq('job_id', jobId)
+            .single()
+
+        if (!job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        if (!resolveVolumeStructure(job.volume_structure).some(v => v.number === volume)) {
+            return NextResponse.json(
+                { error: `Invalid volume number - this proposal has no Volume ${volume}` },
                 { status: 400 }
             )
         }
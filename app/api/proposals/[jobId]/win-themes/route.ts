@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { logger } from '@/lib/logger'
+import { normalizeWinThemes, themeVolumes } from '@/lib/win-themes'
+import { companySourceOptions } from '@/lib/provenance'
+import { resolveVolumeStructure } from '@/lib/volume-structure'
+import { WinTheme } from '@/lib/database.types'
+
+// Editable content of a theme (JSONB does not keep key order, so compare fields explicitly)
+function themeFingerprint(theme: WinTheme): string {
+    return JSON.stringify([
+        theme.statement,
+        theme.discriminator,
+        theme.eval_factor,
+        theme.volumes,
+        theme.proof_points.map(p => [p.text, p.source]),
+    ])
+}
+
+/**
+ * GET /api/proposals/:jobId/win-themes
+ *
+ * Returns the job's win themes (with the volumes each one is routed to) and
+ * what the editor offers: Section M factors, the volume structure and the
+ * company records a proof point can be tied to.
+ */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+            .select('win_themes, rfp_parsed_data, volume_structure, company_data, volumes')
+            .eq('job_id', jobId)
+            .single()
+
+        if (error || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        const structure = resolveVolumeStructure(job.volume_structure)
+        const themes: WinTheme[] = job.win_themes || []
+
+        return NextResponse.json({
+            themes: themes.map(theme => ({ ...theme, target_volumes: themeVolumes(theme, structure).map(v => v.number) })),
+            options: {
+                eval_factors: job.rfp_parsed_data?.section_m?.factors || [],
+                volumes: structure.map(v => ({ number: v.number, name: v.name, eval_factors: v.eval_factors })),
+                sources: job.company_data ? companySourceOptions(job.company_data) : [],
+            },
+            writing_started: Object.keys(job.volumes || {}).length > 0,
+        })
+    } catch (error) {
+        console.error('Error fetching win themes:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * PUT /api/proposals/:jobId/win-themes
+ *
+ * Replaces the job's win themes. Volumes written afterwards weave in the new
+ * themes; volumes already written pick them up on their next iteration.
+ *
+ * Body (JSON):
+ * - themes: [{ id?, statement, discriminator?, eval_factor?, volumes?, proof_points?: [{ text, source? }] }]
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    try {
+        const { jobId } = await params
+        const body = await request.json().catch(() => null)
+
+        if (!body || typeof body !== 'object') {
+            return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: job, error: fetchError } = await (supabase.from('proposal_jobs') as any)
+            .select('win_themes, rfp_parsed_data, volume_structure, company_data')
+            .eq('job_id', jobId)
+            .single()
+
+        if (fetchError || !job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        const { themes, errors } = normalizeWinThemes(body.themes, {
+            factors: job.rfp_parsed_data?.section_m?.factors || [],
+            structure: resolveVolumeStructure(job.volume_structure),
+            companyData: job.company_data || null,
+        })
+
+        if (errors.length > 0) {
+            return NextResponse.json({ error: 'Invalid win themes', details: errors }, { status: 400 })
+        }
+
+        // Unchanged themes keep their timestamp
+        const previous: WinTheme[] = job.win_themes || []
+        const saved = themes.map(theme => {
+            const before = previous.find(p => p.id === theme.id)
+            return before && themeFingerprint(before) === themeFingerprint(theme) ? before : theme
+        })
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error: updateError } = await (supabase.from('proposal_jobs') as any)
+            .update({
+                win_themes: saved,
+                updated_at: new Date().toISOString()
+            })
+            .eq('job_id', jobId)
+
+        if (updateError) {
+            throw new Error(`Failed to store win themes: ${updateError.message}`)
+        }
+
+        logger.info('[API] Win themes updated', {
+            data: { jobId, themes: saved.length, discriminators: saved.filter(t => t.discriminator).length }
+        })
+
+        return NextResponse.json({ success: true, themes: saved })
+    } catch (error) {
+        console.error('Error updating win themes:', error)
+        return NextResponse.json(
+            { error: 'Failed to update win themes', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,26 +1,81 @@
 import { supabase } from '@/lib/supabase'
 import { inngest, estimateGenerationTime } from '@/lib/inngest/client'
+import { ingestRfpFiles, detectFileKind, IngestionError } from '@/lib/ingestion'
+import { RfpDocument } from '@/lib/database.types'
 import { NextRequest, NextResponse } from 'next/server'
 
+/**
+ * Create a proposal job
+ *
+ * Accepts either:
+ * - multipart/form-data with one or more `file` entries (PDF, DOCX, XLSX, TXT
+ *   or a ZIP solicitation package), `company_id`, `email`
+ * - JSON `{ rfp_text, company_id, email }` (pasted text, no page anchors)
+ */
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json()
-        const { rfp_text, company_id, email } = body
+        const isMultipart = request.headers.get('content-type')?.includes('multipart/form-data')
 
-        if (!rfp_text || !company_id) {
-            return NextResponse.json(
-                { error: 'Missing required fields: rfp_text and company_id' },
-                { status: 400 }
-            )
+        // Generate unique job ID (needed up front to store the uploaded file)
+        const job_id = crypto.randomUUID()
+
+        let rfp_text: string
+        let company_id: string
+        let email: string | undefined
+        let rfpDocument: RfpDocument | null = null
+
+        if (isMultipart) {
+            const form = await request.formData()
+            const files = form.getAll('file').filter((f): f is File => f instanceof File)
+            company_id = (form.get('company_id') as string) || ''
+            email = (form.get('email') as string) || undefined
+
+            if (files.length === 0 || !company_id) {
+                return NextResponse.json(
+                    { error: 'Missing required fields: file and company_id' },
+                    { status: 400 }
+                )
+            }
+
+            const unsupported = files.filter(f => !detectFileKind(f.name, f.type))
+            if (unsupported.length > 0) {
+                return NextResponse.json(
+                    { error: `Unsupported file type: ${unsupported.map(f => f.name).join(', ')}` },
+                    { status: 400 }
+                )
+            }
+
+            rfpDocument = await ingestRfpFiles(job_id, await Promise.all(files.map(async f => ({
+                fileName: f.name,
+                mimeType: f.type,
+                data: new Uint8Array(await f.arrayBuffer()),
+            }))))
+            rfp_text = rfpDocument.text
+
+            if (!rfp_text.trim()) {
+                return NextResponse.json(
+                    { error: 'No text could be extracted from the uploaded file' },
+                    { status: 400 }
+                )
+            }
+        } else {
+            const body = await request.json()
+            rfp_text = body.rfp_text
+            company_id = body.company_id
+            email = body.email
+
+            if (!rfp_text || !company_id) {
+                return NextResponse.json(
+                    { error: 'Missing required fields: rfp_text and company_id' },
+                    { status: 400 }
+                )
+            }
         }
 
         // Calculate RFP size and time estimates
         const rfpSizeBytes = new TextEncoder().encode(rfp_text).length
         const timeEstimate = estimateGenerationTime(rfpSizeBytes)
 
-        // Generate unique job ID
-        const job_id = crypto.randomUUID()
-
         // Create initial job record with time estimates
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const { error: insertError } = await (supabase
@@ -32,6 +87,10 @@ export async function POST(request: NextRequest) {
                 progress_percent: 0,
                 current_step: 'Queued...',
                 sections_completed: [],
+                rfp_text,
+                rfp_file_url: rfpDocument?.file_url || null,
+                rfp_document: rfpDocument,
+                rfp_manifest: rfpDocument?.documents || null,
                 rfp_metadata: {
                     rfpSizeBytes,
                     estimatedMinutes: timeEstimate.estimatedMinutes,
@@ -71,7 +130,7 @@ export async function POST(request: NextRequest) {
             },
         })
 
-        console.log(`[API] Job ${job_id} queued via Inngest (${timeEstimate.description})`)
+        console.log(`[API] Job ${job_id} queued via Inngest (${timeEstimate.description}${rfpDocument ? `, ${rfpDocument.documents.length} documents / ${rfpDocument.page_count} pages` : ''})`)
 
         // Return immediately with job ID and time estimates
         return NextResponse.json({
@@ -81,6 +140,9 @@ export async function POST(request: NextRequest) {
             size_description: timeEstimate.description,
         })
     } catch (error) {
+        if (error instanceof IngestionError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
         console.error('Error in create proposal endpoint:', error)
         return NextResponse.json(
             { error: 'Internal server error' },
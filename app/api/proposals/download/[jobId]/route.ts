@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase'
 import { generateProposalPdf } from '@/lib/pdf-generator'
+import { stripProvenance } from '@/lib/provenance'
+import { buildFormatProfile } from '@/lib/format-profile'
 import { NextRequest, NextResponse } from 'next/server'
 
 // Vercel serverless function config for Puppeteer
@@ -17,7 +19,7 @@ export async function GET(
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const { data: job, error } = await (supabase
             .from('proposal_jobs') as any)
-            .select('final_html, rfp_metadata, status')
+            .select('final_html, rfp_metadata, rfp_parsed_data, status')
             .eq('job_id', jobId)
             .single()
 
@@ -48,11 +50,12 @@ export async function GET(
 
         console.log(`[Download API] Generating PDF for job ${jobId}...`)
 
-        // Generate PDF
+        // Generate PDF laid out per Section L
         const pdfBuffer = await generateProposalPdf(
-            job.final_html,
+            stripProvenance(job.final_html),
             solicitationNum,
-            companyName
+            companyName,
+            buildFormatProfile(job.rfp_parsed_data?.section_l?.format)
         )
 
         console.log(`[Download API] PDF generated: ${pdfBuffer.length} bytes`)
@@ -2,12 +2,12 @@
 
 import React, { useState } from 'react'
 import { useRouter } from 'next/navigation'
-import UploadDropzone, { PdfData } from '@/components/UploadDropzone'
+import UploadDropzone, { RfpUploadData } from '@/components/UploadDropzone'
 import { Company } from '@/lib/database.types'
 
 export default function HomePage() {
     const router = useRouter()
-    const [pdfData, setPdfData] = useState<PdfData | null>(null)
+    const [rfpUpload, setRfpUpload] = useState<RfpUploadData | null>(null)
     const [companies, setCompanies] = useState<Company[]>([])
     const [selectedCompanyId, setSelectedCompanyId] = useState<string>('')
     const [email, setEmail] = useState<string>('')
@@ -37,18 +37,19 @@ export default function HomePage() {
     }, [])
 
     const handleSubmit = async () => {
-        if (!pdfData || !selectedCompanyId) return
+        if (!rfpUpload || !selectedCompanyId) return
 
         setIsSubmitting(true)
         try {
+            // Send the original files so the server can extract page-anchored text
+            const formData = new FormData()
+            rfpUpload.files.forEach(file => formData.append('file', file))
+            formData.append('company_id', selectedCompanyId)
+            if (email) formData.append('email', email)
+
             const response = await fetch('/api/proposals/create', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    rfp_text: pdfData.text,
-                    company_id: selectedCompanyId,
-                    email: email || undefined,
-                }),
+                body: formData,
             })
 
             if (!response.ok) throw new Error('Failed to create proposal job')
@@ -62,7 +63,7 @@ export default function HomePage() {
         }
     }
 
-    const canSubmit = pdfData && selectedCompanyId && !isSubmitting
+    const canSubmit = rfpUpload && selectedCompanyId && !isSubmitting
 
     return (
         <div style={{ display: 'flex', height: '100vh', backgroundColor: '#0a0a0a', color: 'white', fontFamily: 'Inter, system-ui, sans-serif' }}>
@@ -82,7 +83,7 @@ export default function HomePage() {
 
                 {/* Centered Dropzone */}
                 <div style={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', padding: 48 }}>
-                    <UploadDropzone onPdfExtracted={setPdfData} />
+                    <UploadDropzone onFilesSelected={setRfpUpload} />
                     
                     <div style={{ marginTop: 48, display: 'flex', alignItems: 'center', gap: 16, opacity: 0.5 }}>
                         <span style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 10, fontFamily: 'monospace', color: '#6b7280', textTransform: 'uppercase', letterSpacing: '0.1em' }}>
@@ -257,7 +258,7 @@ export default function HomePage() {
                     <div style={{ maxWidth: 520, margin: '0 auto', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
                         <button
                             onClick={() => {
-                                setPdfData(null)
+                                setRfpUpload(null)
                                 setSelectedCompanyId('')
                                 setEmail('')
                             }}
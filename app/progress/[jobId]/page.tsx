@@ -12,11 +12,17 @@ import {
     Loader2, 
     X, 
     Download,
+    Archive,
+    FileSpreadsheet,
     Eye,
     Calendar,
     Info,
-    Trophy
+    Trophy,
+    type LucideIcon
 } from 'lucide-react'
+import type { ClaimAuditReport, PriceRealismReport, PriceToWinReport, ProposalVolume, VolumeProgress, VolumeWriterKind, WinThemeReport } from '@/lib/database.types'
+import { resolveVolumeStructure, volumeOutlineKey } from '@/lib/volume-structure'
+import { formatCurrency } from '@/lib/pricing/presentation'
 
 // =============================================================================
 // TYPES
@@ -72,62 +78,31 @@ interface ProposalJob {
         feedback: string
         timestamp: string
     }>
-    volumes?: {
-        volume1?: string
-        volume2?: string
-        volume3?: string
-        volume4?: string
-    }
-    volume_section_progress?: {
-        volume1?: { sections: Array<{ name: string; status: string; progress: number; timeSeconds?: number }> }
-        volume2?: { sections: Array<{ name: string; status: string; progress: number; timeSeconds?: number }> }
-        volume3?: { sections: Array<{ name: string; status: string; progress: number; timeSeconds?: number }> }
-        volume4?: { sections: Array<{ name: string; status: string; progress: number; timeSeconds?: number }> }
-    }
-    volume_compliance_details?: {
-        volume1?: {
-            requirementScores?: Array<{ requirementId: string; requirementText: string; score: number; rationale: string; gaps: string[] }>
-            strengths?: string[]
-            criticalGaps?: string[]
-            overallScore: number
-        }
-        volume2?: {
-            requirementScores?: Array<{ requirementId: string; requirementText: string; score: number; rationale: string; gaps: string[] }>
-            strengths?: string[]
-            criticalGaps?: string[]
-            overallScore: number
-        }
-        volume3?: {
-            requirementScores?: Array<{ requirementId: string; requirementText: string; score: number; rationale: string; gaps: string[] }>
-            strengths?: string[]
-            criticalGaps?: string[]
-            overallScore: number
-        }
-        volume4?: {
-            requirementScores?: Array<{ requirementId: string; requirementText: string; score: number; rationale: string; gaps: string[] }>
-            strengths?: string[]
-            criticalGaps?: string[]
-            overallScore: number
-        }
-    }
+    // Section L volume list (older jobs have none - the classic four volumes apply)
+    volume_structure?: ProposalVolume[] | null
+    // Keyed "volume_1", "volume_2", ... - rendered page counts and per-section usage
+    volume_progress?: VolumeProgress | null
+    // Per-volume maps below are keyed "volume1", "volume2", ...
+    volumes?: Record<string, string | undefined>
+    volume_section_progress?: Record<string, { sections: Array<{ name: string; status: string; progress: number; timeSeconds?: number }> } | undefined>
+    volume_compliance_details?: Record<string, {
+        requirementScores?: Array<{ requirementId: string; requirementText: string; score: number; rationale: string; gaps: string[] }>
+        strengths?: string[]
+        criticalGaps?: string[]
+        priceRealism?: PriceRealismReport
+        priceToWin?: PriceToWinReport
+        claimAudit?: ClaimAuditReport
+        winThemes?: WinThemeReport
+        overallScore: number
+    } | undefined>
     // Modular function status fields
     preparation_phase_status?: 'pending' | 'running' | 'complete' | 'failed' | 'blocked'
-    volume_generation_status?: {
-        volume1?: 'pending' | 'generating' | 'complete' | 'failed'
-        volume2?: 'pending' | 'generating' | 'complete' | 'failed'
-        volume3?: 'pending' | 'generating' | 'complete' | 'failed'
-        volume4?: 'pending' | 'generating' | 'complete' | 'failed'
-    }
+    volume_generation_status?: Record<string, 'pending' | 'generating' | 'complete' | 'failed' | undefined>
     assembly_status?: 'pending' | 'running' | 'complete' | 'failed'
     final_scoring_status?: 'pending' | 'running' | 'complete' | 'failed'
     final_compliance_report?: {
         overallComplianceScore: number
-        volumeScores: {
-            volume1: number
-            volume2: number
-            volume3: number
-            volume4: number
-        }
+        volumeScores: Record<string, number>
         crossVolumeAnalysis: {
             duplicateContentCheck: { passed: boolean; details: string; duplicateCount: number }
             consistencyCheck: { passed: boolean; details: string; inconsistencies: string[] }
@@ -143,16 +118,17 @@ interface ProposalJob {
     quality_checks?: Array<{ check: string; passed: boolean; details?: string }>
 }
 
-const VOLUMES = [
-    { id: 1, name: 'Technical', icon: FileText },
-    { id: 2, name: 'Management', icon: Users },
-    { id: 3, name: 'Past Performance', icon: TrendingUp },
-    { id: 4, name: 'Pricing', icon: DollarSign },
-]
+const VOLUME_ICONS: Record<VolumeWriterKind, LucideIcon> = {
+    technical: FileText,
+    management: Users,
+    past_performance: TrendingUp,
+    price: DollarSign,
+    narrative: FileText,
+}
 
 const PREPARATION_STEPS = [
-    { id: 'agent_0', name: 'Volume Structure', desc: 'Proposal structure defined and validated' },
     { id: 'agent_1', name: 'RFP Parser', desc: 'RFP document analyzed and requirements extracted' },
+    { id: 'agent_0', name: 'Volume Structure', desc: 'Section L volumes defined with page limits' },
     { id: 'agent_2', name: 'Data Validation', desc: 'Source data verified and quality checked' },
     { id: 'agent_3', name: 'Content Mapper', desc: 'Content sources mapped to proposal sections' },
 ]
@@ -216,7 +192,7 @@ export default function ProposalProgressPage() {
     const handleApprove = async (volumeId: number) => {
         try {
             // Get the final score for this volume
-            const volumeKey = `volume${volumeId}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+            const volumeKey = `volume${volumeId}`
             const finalScore = job?.volume_scores?.[volumeKey] || 0
             
             const response = await fetch(`/api/proposals/${jobId}/volume/approve`, {
@@ -242,7 +218,7 @@ export default function ProposalProgressPage() {
     const handleIterate = async (volumeId: number) => {
         try {
             // Get current score and iteration for this volume
-            const volumeKey = `volume${volumeId}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+            const volumeKey = `volume${volumeId}`
             const currentScore = job?.volume_scores?.[volumeKey] || 0
             const iteration = job?.volume_iterations?.[volumeKey] || 1
             
@@ -288,7 +264,7 @@ export default function ProposalProgressPage() {
     }
 
     const handleAutoFixCompliance = (volumeId: number) => {
-        const volumeKey = `volume${volumeId}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+        const volumeKey = `volume${volumeId}`
         const complianceDetails = job?.volume_compliance_details?.[volumeKey]
         
         if (!complianceDetails) {
@@ -313,6 +289,36 @@ export default function ProposalProgressPage() {
             autoFeedback += "\n"
         }
         
+        // Add price realism findings (Price volume)
+        const priceFindings = complianceDetails.priceRealism?.findings.filter(f => f.severity !== 'low') || []
+        if (priceFindings.length > 0) {
+            autoFeedback += "💲 PRICE REALISM FINDINGS:\n"
+            priceFindings.forEach((finding, idx) => {
+                autoFeedback += `${idx + 1}. [${finding.severity}] ${finding.message}\n`
+            })
+            autoFeedback += "\n"
+        }
+        
+        // Add unsupported / contradicted factual claims
+        const claimFindings = complianceDetails.claimAudit?.findings.filter(f => f.severity !== 'low') || []
+        if (claimFindings.length > 0) {
+            autoFeedback += "🔎 UNSUPPORTED CLAIMS (fix against company data):\n"
+            claimFindings.forEach((finding, idx) => {
+                autoFeedback += `${idx + 1}. [${finding.severity}] ${finding.section}: ${finding.message}${finding.evidence ? ` (on file: ${finding.evidence})` : ''}\n`
+            })
+            autoFeedback += "\n"
+        }
+        
+        // Add win themes this volume should carry but does not
+        const missingThemes = complianceDetails.winThemes?.themes.filter(t => t.missing_volumes.includes(volumeId)) || []
+        if (missingThemes.length > 0) {
+            autoFeedback += "🏆 MISSING WIN THEMES (weave in and tag with data-win-theme):\n"
+            missingThemes.forEach((theme, idx) => {
+                autoFeedback += `${idx + 1}. ${theme.theme_id}${theme.eval_factor ? ` (${theme.eval_factor})` : ''}: ${theme.statement}\n`
+            })
+            autoFeedback += "\n"
+        }
+        
         // Add requirement-specific analysis (including scores, rationale, and gaps)
         if (complianceDetails.requirementScores && complianceDetails.requirementScores.length > 0) {
             // Include requirements with scores < 95% OR that have explicit gaps
@@ -380,13 +386,18 @@ export default function ProposalProgressPage() {
     
     const isComplete = job.status === 'completed'
     const isProcessing = job.status === 'processing' || job.status === 'validating' || job.status === 'review'
-    const allVolumesComplete = VOLUMES.every(v => {
+    const volumes = resolveVolumeStructure(job.volume_structure).map(v => ({
+        id: v.number,
+        name: v.name,
+        icon: VOLUME_ICONS[v.writer],
+    }))
+    const allVolumesComplete = volumes.every(v => {
         const volKey = `volume${v.id}`
         return job.volume_status?.[volKey] === 'approved' || job.volume_status?.[volKey] === 'complete'
     })
     
     // Calculate average score
-    const volumeScores = VOLUMES.map(v => job.volume_scores?.[`volume${v.id}`]).filter(s => s !== null && s !== undefined) as number[]
+    const volumeScores = volumes.map(v => job.volume_scores?.[`volume${v.id}`]).filter(s => s !== null && s !== undefined) as number[]
     const avgScore = volumeScores.length > 0 
         ? (volumeScores.reduce((a, b) => a + b, 0) / volumeScores.length).toFixed(2)
         : null
@@ -413,6 +424,25 @@ export default function ProposalProgressPage() {
                             <p style={{ fontSize: '14px', color: '#737373', margin: '4px 0 0 0' }}>Job ID: {jobId}</p>
                         </div>
                         <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+                            <button
+                                onClick={() => router.push(`/proposals/${jobId}/win-themes`)}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'transparent',
+                                    color: '#d4d4d4',
+                                    fontSize: '14px',
+                                    fontWeight: 500,
+                                    borderRadius: '8px',
+                                    border: '1px solid #404040',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '8px'
+                                }}
+                            >
+                                <Trophy style={{ width: 16, height: 16 }} />
+                                Win Themes
+                            </button>
                             {isProcessing && (
                                 <>
                                     <span style={{ fontSize: '18px', fontWeight: 600, color: '#ffffff' }}>
@@ -539,8 +569,8 @@ export default function ProposalProgressPage() {
                                 gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))', 
                                 gap: '24px' 
                             }}>
-                                {VOLUMES.map((volume) => {
-                                    const volumeKey = `volume${volume.id}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                                {volumes.map((volume) => {
+                                    const volumeKey = `volume${volume.id}`
                                     const status = job.volume_status?.[volumeKey] || 'pending'
                                     const genStatus = job.volume_generation_status?.[volumeKey] || 'pending'
                                     const score = job.volume_scores?.[volumeKey]
@@ -554,6 +584,9 @@ export default function ProposalProgressPage() {
                                     const isScoring = status === 'scoring' && iteration === 1 // First-time scoring
                                     const isGenerating = (isActive && !isComplete && !awaiting && !readyForScoring) || isIterating || isScoring || genStatus === 'generating'
                                     const VolumeIcon = volume.icon
+                                    const pageUsage = job.volume_progress?.[volumeOutlineKey(volume.id)]
+                                    const pageLimit = pageUsage?.page_limit ?? null
+                                    const overLimit = !!pageUsage && pageLimit !== null && pageUsage.pages > pageLimit
                                     
                                     // Calculate volume progress based on actual status
                                     // Only 100% when approved and ready for download
@@ -569,7 +602,7 @@ export default function ProposalProgressPage() {
                                         volumeProgress = score !== null && score !== undefined ? score : 0
                                     } else if (isGenerating) {
                                         // Volume is generating - calculate based on section progress
-                                        const volumeKey = `volume${volume.id}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                                        const volumeKey = `volume${volume.id}`
                                         const sectionData = job.volume_section_progress?.[volumeKey]?.sections || []
                                         if (sectionData.length > 0) {
                                             const completedSections = sectionData.filter(s => s.status === 'complete').length
@@ -766,6 +799,25 @@ export default function ProposalProgressPage() {
                                                 </div>
                                             )}
                                             
+                                            {pageUsage && pageUsage.pages > 0 && (isComplete || awaiting || readyForScoring) && (
+                                                <div style={{ marginTop: '12px' }}>
+                                                    <span style={{ fontSize: '12px', color: overLimit ? '#ef4444' : '#737373' }}>
+                                                        {pageUsage.rendered ? '' : '~'}{pageUsage.pages} pages{pageLimit !== null ? ` of ${pageLimit}` : ''}
+                                                        {overLimit && ` - ${pageUsage.pages - pageLimit} over the Section L limit`}
+                                                    </span>
+                                                    {overLimit && (pageUsage.section_pages || []).length > 0 && (
+                                                        <ul style={{ margin: '6px 0 0 0', paddingLeft: '16px', fontSize: '11px', color: '#a3a3a3' }}>
+                                                            {[...(pageUsage.section_pages || [])]
+                                                                .sort((a, b) => b.pages - a.pages)
+                                                                .slice(0, 3)
+                                                                .map(section => (
+                                                                    <li key={section.title}>{section.title}: {section.pages} pages</li>
+                                                                ))}
+                                                        </ul>
+                                                    )}
+                                                </div>
+                                            )}
+                                            
                                             {isGenerating && job.current_step && (
                                                 <p style={{ fontSize: '12px', color: '#737373', marginTop: '8px', margin: '8px 0 0 0' }}>
                                                     {job.current_step}
@@ -921,6 +973,78 @@ export default function ProposalProgressPage() {
                                         <Download style={{ width: 16, height: 16 }} />
                                         Download PDF
                                     </button>
+                                    <button
+                                        onClick={() => window.open(`/api/proposals/${jobId}/package`, '_blank')}
+                                        style={{
+                                            flex: 1,
+                                            backgroundColor: '#262626',
+                                            color: '#ffffff',
+                                            fontSize: '14px',
+                                            fontWeight: 500,
+                                            padding: '10px',
+                                            borderRadius: '8px',
+                                            border: 'none',
+                                            cursor: 'pointer',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            justifyContent: 'center',
+                                            gap: '8px',
+                                            transition: 'background-color 0.2s'
+                                        }}
+                                        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#404040'}
+                                        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#262626'}
+                                    >
+                                        <Archive style={{ width: 16, height: 16 }} />
+                                        Submission Package
+                                    </button>
+                                    <button
+                                        onClick={() => window.open(`/api/proposals/${jobId}/compliance-matrix`, '_blank')}
+                                        style={{
+                                            flex: 1,
+                                            backgroundColor: '#262626',
+                                            color: '#ffffff',
+                                            fontSize: '14px',
+                                            fontWeight: 500,
+                                            padding: '10px',
+                                            borderRadius: '8px',
+                                            border: 'none',
+                                            cursor: 'pointer',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            justifyContent: 'center',
+                                            gap: '8px',
+                                            transition: 'background-color 0.2s'
+                                        }}
+                                        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#404040'}
+                                        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#262626'}
+                                    >
+                                        <FileSpreadsheet style={{ width: 16, height: 16 }} />
+                                        Compliance Matrix
+                                    </button>
+                                    <button
+                                        onClick={() => window.open(`/api/proposals/${jobId}/cost-workbook`, '_blank')}
+                                        style={{
+                                            flex: 1,
+                                            backgroundColor: '#262626',
+                                            color: '#ffffff',
+                                            fontSize: '14px',
+                                            fontWeight: 500,
+                                            padding: '10px',
+                                            borderRadius: '8px',
+                                            border: 'none',
+                                            cursor: 'pointer',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            justifyContent: 'center',
+                                            gap: '8px',
+                                            transition: 'background-color 0.2s'
+                                        }}
+                                        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#404040'}
+                                        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#262626'}
+                                    >
+                                        <FileSpreadsheet style={{ width: 16, height: 16 }} />
+                                        Cost Workbook
+                                    </button>
                                 </div>
                                 <p style={{ fontSize: '12px', color: '#737373', marginTop: '8px', textAlign: 'center', margin: '8px 0 0 0' }}>
                                     Download will be available at 100% completion.
@@ -1155,7 +1279,7 @@ export default function ProposalProgressPage() {
                         <div style={{ padding: '24px' }}>
                             <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '24px' }}>
                                 <h2 style={{ fontSize: '20px', fontWeight: 600, color: '#ffffff', margin: 0 }}>
-                                    Volume {showSectionProgress}: {VOLUMES.find(v => v.id === showSectionProgress)?.name} - Section Progress
+                                    Volume {showSectionProgress}: {volumes.find(v => v.id === showSectionProgress)?.name} - Section Progress
                                 </h2>
                                 <button 
                                     onClick={() => setShowSectionProgress(null)}
@@ -1176,7 +1300,7 @@ export default function ProposalProgressPage() {
                             </div>
                             
                             {(() => {
-                                const volumeKey = `volume${showSectionProgress}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                                const volumeKey = `volume${showSectionProgress}`
                                 const sectionData = job.volume_section_progress?.[volumeKey]?.sections || []
                                 const completedSections = sectionData.filter(s => s.status === 'complete').length
                                 const totalSections = sectionData.length || 0
@@ -1273,7 +1397,7 @@ export default function ProposalProgressPage() {
                         <div style={{ padding: '24px' }}>
                             <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '24px' }}>
                                 <h2 style={{ fontSize: '20px', fontWeight: 600, color: '#ffffff', margin: 0 }}>
-                                    Volume {selectedVolume}: {VOLUMES.find(v => v.id === selectedVolume)?.name}
+                                    Volume {selectedVolume}: {volumes.find(v => v.id === selectedVolume)?.name}
                                 </h2>
                                 <button 
                                     onClick={() => setSelectedVolume(null)}
@@ -1316,7 +1440,7 @@ export default function ProposalProgressPage() {
                             
                             {/* Compliance Breakdown */}
                             {(() => {
-                                const volumeKey = `volume${selectedVolume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                                const volumeKey = `volume${selectedVolume}`
                                 const complianceDetails = job.volume_compliance_details?.[volumeKey]
                                 
                                 if (!complianceDetails) return null
@@ -1355,6 +1479,107 @@ export default function ProposalProgressPage() {
                                             </div>
                                         )}
                                         
+                                        {/* Price Realism */}
+                                        {complianceDetails.priceRealism && complianceDetails.priceRealism.findings.length > 0 && (
+                                            <div style={{ marginBottom: '16px', padding: '16px', backgroundColor: 'rgba(251, 146, 60, 0.1)', borderRadius: '8px', border: '1px solid rgba(251, 146, 60, 0.3)' }}>
+                                                <div style={{ fontSize: '14px', fontWeight: 600, color: '#fb923c', marginBottom: '8px' }}>
+                                                    Price Realism{complianceDetails.priceRealism.benchmark_source ? ` (vs. ${complianceDetails.priceRealism.benchmark_source})` : ''}
+                                                </div>
+                                                <ul style={{ margin: 0, paddingLeft: '20px', color: '#d4d4d4', fontSize: '13px' }}>
+                                                    {complianceDetails.priceRealism.findings.map((finding, idx) => (
+                                                        <li key={idx} style={{ marginBottom: '4px' }}>
+                                                            <span style={{ color: finding.severity === 'critical' || finding.severity === 'high' ? '#f87171' : finding.severity === 'medium' ? '#fb923c' : '#737373', fontWeight: 600 }}>
+                                                                {finding.severity.toUpperCase()}
+                                                            </span>{' '}
+                                                            {finding.message}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+                                        
+                                        {/* Price to Win */}
+                                        {complianceDetails.priceToWin && (() => {
+                                            const ptw = complianceDetails.priceToWin
+                                            const color = ptw.position === 'above' ? '#fb923c' : '#4ade80'
+                                            return (
+                                                <div style={{ marginBottom: '16px', padding: '16px', backgroundColor: 'rgba(38, 38, 38, 0.5)', borderRadius: '8px', border: '1px solid #404040' }}>
+                                                    <div style={{ fontSize: '14px', fontWeight: 600, color: '#ffffff', marginBottom: '8px' }}>
+                                                        Price to Win
+                                                    </div>
+                                                    <div style={{ fontSize: '13px', color: '#d4d4d4', marginBottom: ptw.competitors.length > 0 ? '8px' : 0 }}>
+                                                        {formatCurrency(ptw.proposed_price)} proposed vs. {formatCurrency(ptw.target)} target
+                                                        {ptw.target_basis === 'competitor_estimates' ? ' (lowest competitor estimate)' : ''}:{' '}
+                                                        <span style={{ color, fontWeight: 600 }}>
+                                                            {ptw.position === 'at' ? 'at target' : `${ptw.distance > 0 ? '+' : ''}${ptw.distance_percent}% ${ptw.position} target`}
+                                                        </span>
+                                                    </div>
+                                                    {ptw.competitors.length > 0 && (
+                                                        <ul style={{ margin: 0, paddingLeft: '20px', color: '#a3a3a3', fontSize: '12px' }}>
+                                                            {ptw.competitors.map((c, idx) => (
+                                                                <li key={idx} style={{ marginBottom: '2px' }}>
+                                                                    {c.name}{c.incumbent ? ' (incumbent)' : ''}:{' '}
+                                                                    {c.position === 'unknown'
+                                                                        ? 'no price estimate'
+                                                                        : `${formatCurrency(c.price_low ?? c.price_high ?? 0)} - ${formatCurrency(c.price_high ?? c.price_low ?? 0)}, we are ${c.position === 'within' ? 'within' : c.position} their range`}
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                </div>
+                                            )
+                                        })()}
+                                        
+                                        {/* Claim Verification */}
+                                        {complianceDetails.claimAudit && complianceDetails.claimAudit.findings.length > 0 && (
+                                            <div style={{ marginBottom: '16px', padding: '16px', backgroundColor: 'rgba(220, 38, 38, 0.1)', borderRadius: '8px', border: '1px solid rgba(220, 38, 38, 0.3)' }}>
+                                                <div style={{ fontSize: '14px', fontWeight: 600, color: '#f87171', marginBottom: '8px' }}>
+                                                    Unsupported Claims ({complianceDetails.claimAudit.claims_supported}/{complianceDetails.claimAudit.claims_checked} claims supported)
+                                                </div>
+                                                <ul style={{ margin: 0, paddingLeft: '20px', color: '#d4d4d4', fontSize: '13px' }}>
+                                                    {complianceDetails.claimAudit.findings.map((finding, idx) => (
+                                                        <li key={idx} style={{ marginBottom: '4px' }}>
+                                                            <span style={{ color: finding.severity === 'critical' || finding.severity === 'high' ? '#f87171' : finding.severity === 'medium' ? '#fb923c' : '#737373', fontWeight: 600 }}>
+                                                                {finding.severity.toUpperCase()}
+                                                            </span>{' '}
+                                                            <span style={{ color: '#a3a3a3' }}>{finding.section}:</span>{' '}
+                                                            {finding.message}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+                                        
+                                        {/* Win Theme Coverage */}
+                                        {complianceDetails.winThemes && complianceDetails.winThemes.themes.some(t => t.volumes.some(v => v.volume === selectedVolume)) && (() => {
+                                            const themes = complianceDetails.winThemes.themes
+                                                .map(t => ({ theme: t, coverage: t.volumes.find(v => v.volume === selectedVolume) }))
+                                                .filter(t => t.coverage)
+                                            return (
+                                                <div style={{ marginBottom: '16px', padding: '16px', backgroundColor: 'rgba(37, 99, 235, 0.1)', borderRadius: '8px', border: '1px solid rgba(37, 99, 235, 0.3)' }}>
+                                                    <div style={{ fontSize: '14px', fontWeight: 600, color: '#60a5fa', marginBottom: '8px' }}>
+                                                        Win Themes ({themes.filter(t => t.coverage?.present).length}/{themes.length} carried)
+                                                    </div>
+                                                    <ul style={{ margin: 0, paddingLeft: '20px', color: '#d4d4d4', fontSize: '13px' }}>
+                                                        {themes.map(({ theme, coverage }) => (
+                                                            <li key={theme.theme_id} style={{ marginBottom: '4px' }}>
+                                                                <span style={{ color: coverage?.present ? '#4ade80' : '#fb923c', fontWeight: 600 }}>
+                                                                    {coverage?.present ? 'CARRIED' : 'MISSING'}
+                                                                </span>{' '}
+                                                                <span style={{ color: '#a3a3a3' }}>{theme.theme_id}:</span>{' '}
+                                                                {theme.statement}
+                                                                {coverage?.present && (
+                                                                    <span style={{ color: '#737373' }}>
+                                                                        {' '}- {coverage.sections.join(', ')}{theme.proof_points > 0 ? ` (${coverage.proof_points_cited}/${theme.proof_points} proof points cited)` : ''}
+                                                                    </span>
+                                                                )}
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                </div>
+                                            )
+                                        })()}
+                                        
                                         {/* Requirement Scores */}
                                         {complianceDetails.requirementScores && complianceDetails.requirementScores.length > 0 && (
                                             <div style={{ marginBottom: '16px' }}>
@@ -1396,7 +1621,7 @@ export default function ProposalProgressPage() {
                             
                             {/* View/Download buttons - show when volume is ready for review OR approved */}
                             {(() => {
-                                const volumeKey = `volume${selectedVolume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                                const volumeKey = `volume${selectedVolume}`
                                 const status = job.volume_status?.[volumeKey]
                                 const isAwaitingApproval = status === 'awaiting_approval'
                                 const isApproved = status === 'approved' || status === 'complete'
@@ -1452,6 +1677,29 @@ export default function ProposalProgressPage() {
                                                     <Download style={{ width: 18, height: 18 }} />
                                                     Download
                                                 </button>
+                                                <button
+                                                    onClick={() => window.open(`/api/proposals/${jobId}/volume/${selectedVolume}/download?format=docx`, '_blank')}
+                                                    style={{
+                                                        flex: 1,
+                                                        backgroundColor: '#262626',
+                                                        color: '#ffffff',
+                                                        fontWeight: 500,
+                                                        padding: '12px',
+                                                        borderRadius: '8px',
+                                                        border: 'none',
+                                                        cursor: 'pointer',
+                                                        display: 'flex',
+                                                        alignItems: 'center',
+                                                        justifyContent: 'center',
+                                                        gap: '8px',
+                                                        transition: 'background-color 0.2s'
+                                                    }}
+                                                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#404040'}
+                                                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#262626'}
+                                                >
+                                                    <FileText style={{ width: 18, height: 18 }} />
+                                                    Word
+                                                </button>
                                             </div>
                                             {isAwaitingApproval && (
                                                 <div style={{ 
@@ -1474,7 +1722,7 @@ export default function ProposalProgressPage() {
                             
                             {/* Actions */}
                             {(() => {
-                                const volumeKey = `volume${selectedVolume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                                const volumeKey = `volume${selectedVolume}`
                                 const status = job.volume_status?.[volumeKey]
                                 const isApproved = status === 'approved' || status === 'complete'
                                 
@@ -1511,11 +1759,13 @@ export default function ProposalProgressPage() {
                                             Request Changes (Optional)
                                         </label>
                                         {(() => {
-                                            const volumeKey = `volume${selectedVolume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                                            const volumeKey = `volume${selectedVolume}`
                                             const complianceDetails = job.volume_compliance_details?.[volumeKey]
                                             const hasIssues = complianceDetails && (
                                                 complianceDetails.overallScore < 95 ||
                                                 (complianceDetails.criticalGaps && complianceDetails.criticalGaps.length > 0) ||
+                                                (complianceDetails.claimAudit && complianceDetails.claimAudit.findings.some(f => f.severity !== 'low')) ||
+                                                (complianceDetails.winThemes && complianceDetails.winThemes.themes.some(t => t.missing_volumes.includes(selectedVolume))) ||
                                                 (complianceDetails.requirementScores && complianceDetails.requirementScores.some(req => 
                                                     req.score < 95 || (req.gaps && req.gaps.length > 0)
                                                 ))
@@ -294,6 +294,23 @@ export default function ValidationPage() {
                     paddingTop: '24px',
                     borderTop: '1px solid #1a1a1a',
                 }}>
+                    {!hasBlockers && (
+                        <button
+                            onClick={() => router.push(`/proposals/${jobId}/win-themes`)}
+                            style={{
+                                padding: '14px 28px',
+                                backgroundColor: 'transparent',
+                                border: '1px solid #4b5563',
+                                borderRadius: '8px',
+                                fontSize: '14px',
+                                fontWeight: 600,
+                                color: '#e5e5e5',
+                                cursor: 'pointer',
+                            }}
+                        >
+                            Edit Win Themes
+                        </button>
+                    )}
                     {hasBlockers ? (
                         <button
                             onClick={() => router.push(`/intake/${jobData.company_id}`)}
@@ -0,0 +1,417 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { RfpEvaluationFactor, WinTheme } from '@/lib/database.types'
+
+interface EditableTheme {
+    id?: string
+    statement: string
+    discriminator: boolean
+    eval_factor: string
+    volumes: number[]
+    proof_points: Array<{ text: string; source: string }>
+    target_volumes?: number[]
+}
+
+interface WinThemeOptions {
+    eval_factors: RfpEvaluationFactor[]
+    volumes: Array<{ number: number; name: string; eval_factors: string[] }>
+    sources: Array<{ source: string; label: string }>
+}
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px 12px',
+    backgroundColor: '#0a0a0a',
+    border: '1px solid #262626',
+    borderRadius: '6px',
+    fontSize: '14px',
+    color: '#e5e5e5',
+    boxSizing: 'border-box',
+}
+
+const labelStyle: React.CSSProperties = {
+    fontSize: '12px',
+    color: '#6b7280',
+    margin: '0 0 6px 0',
+    display: 'block',
+}
+
+function toEditable(theme: WinTheme & { target_volumes?: number[] }): EditableTheme {
+    return {
+        id: theme.id,
+        statement: theme.statement,
+        discriminator: theme.discriminator,
+        eval_factor: theme.eval_factor || '',
+        volumes: theme.volumes,
+        proof_points: theme.proof_points.map(p => ({ text: p.text, source: p.source || '' })),
+        target_volumes: theme.target_volumes,
+    }
+}
+
+export default function WinThemesPage() {
+    const params = useParams()
+    const router = useRouter()
+    const jobId = params.jobId as string
+
+    const [themes, setThemes] = useState<EditableTheme[]>([])
+    const [options, setOptions] = useState<WinThemeOptions | null>(null)
+    const [writingStarted, setWritingStarted] = useState(false)
+    const [isLoading, setIsLoading] = useState(true)
+    const [isSaving, setIsSaving] = useState(false)
+    const [errors, setErrors] = useState<string[]>([])
+    const [savedAt, setSavedAt] = useState<string | null>(null)
+
+    const fetchThemes = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/proposals/${jobId}/win-themes`)
+            const data = await response.json()
+            if (!response.ok) {
+                setErrors([data.error || 'Failed to load win themes'])
+                return
+            }
+            setThemes((data.themes || []).map(toEditable))
+            setOptions(data.options)
+            setWritingStarted(Boolean(data.writing_started))
+        } catch (error) {
+            console.error('Failed to fetch win themes:', error)
+        } finally {
+            setIsLoading(false)
+        }
+    }, [jobId])
+
+    useEffect(() => {
+        fetchThemes()
+    }, [fetchThemes])
+
+    const updateTheme = (index: number, changes: Partial<EditableTheme>) => {
+        setThemes(prev => prev.map((t, i) => i === index ? { ...t, ...changes } : t))
+    }
+
+    const updateProofPoint = (index: number, proofIndex: number, changes: Partial<EditableTheme['proof_points'][number]>) => {
+        setThemes(prev => prev.map((t, i) => i === index
+            ? { ...t, proof_points: t.proof_points.map((p, j) => j === proofIndex ? { ...p, ...changes } : p) }
+            : t))
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        setErrors([])
+        try {
+            const response = await fetch(`/api/proposals/${jobId}/win-themes`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    themes: themes.map(t => ({
+                        id: t.id,
+                        statement: t.statement,
+                        discriminator: t.discriminator,
+                        eval_factor: t.eval_factor || null,
+                        volumes: t.volumes,
+                        proof_points: t.proof_points.map(p => ({ text: p.text, source: p.source || null })),
+                    })),
+                }),
+            })
+            const data = await response.json()
+            if (!response.ok) {
+                setErrors(data.details && Array.isArray(data.details) ? data.details : [data.error || 'Failed to save win themes'])
+                return
+            }
+            setSavedAt(new Date().toLocaleTimeString())
+            await fetchThemes()
+        } catch (error) {
+            console.error('Failed to save win themes:', error)
+            setErrors(['Failed to save win themes'])
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    if (isLoading) {
+        return (
+            <div style={{
+                minHeight: '100vh',
+                backgroundColor: '#0a0a0a',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                color: '#9ca3af',
+            }}>
+                Loading win themes...
+            </div>
+        )
+    }
+
+    const volumeName = (n: number) => options?.volumes.find(v => v.number === n)?.name || `Volume ${n}`
+
+    return (
+        <div style={{
+            minHeight: '100vh',
+            backgroundColor: '#0a0a0a',
+            color: 'white',
+            fontFamily: 'Inter, system-ui, sans-serif',
+        }}>
+            {/* Header */}
+            <div style={{
+                borderBottom: '1px solid #1a1a1a',
+                padding: '20px 32px',
+            }}>
+                <div style={{ maxWidth: '1000px', margin: '0 auto', display: 'flex', alignItems: 'center', gap: '12px' }}>
+                    <button
+                        onClick={() => router.back()}
+                        style={{
+                            padding: '8px',
+                            backgroundColor: 'transparent',
+                            border: 'none',
+                            cursor: 'pointer',
+                            color: '#6b7280',
+                        }}
+                    >
+                        <svg width="20" height="20" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                        </svg>
+                    </button>
+                    <div>
+                        <h1 style={{ fontSize: '20px', fontWeight: 600, margin: 0, color: '#e5e5e5' }}>
+                            Win Themes &amp; Discriminators
+                        </h1>
+                        <p style={{ fontSize: '13px', color: '#6b7280', margin: '4px 0 0 0' }}>
+                            The writers weave each theme into the volumes it targets; the compliance audit reports where it is missing
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Main content */}
+            <div style={{ maxWidth: '1000px', margin: '0 auto', padding: '32px' }}>
+                {writingStarted && (
+                    <div style={{
+                        padding: '12px 16px',
+                        backgroundColor: '#422006',
+                        border: '1px solid #854d0e',
+                        borderRadius: '8px',
+                        marginBottom: '24px',
+                        fontSize: '13px',
+                        color: '#fcd34d',
+                    }}>
+                        Volumes have already been written - changes apply to volumes written or iterated from now on.
+                    </div>
+                )}
+
+                {errors.length > 0 && (
+                    <div style={{
+                        padding: '12px 16px',
+                        backgroundColor: '#450a0a',
+                        border: '1px solid #991b1b',
+                        borderRadius: '8px',
+                        marginBottom: '24px',
+                    }}>
+                        {errors.map((error, idx) => (
+                            <p key={idx} style={{ fontSize: '13px', color: '#fca5a5', margin: idx > 0 ? '4px 0 0 0' : 0 }}>
+                                {error}
+                            </p>
+                        ))}
+                    </div>
+                )}
+
+                {themes.length === 0 && (
+                    <p style={{ fontSize: '14px', color: '#6b7280', margin: '0 0 24px 0' }}>
+                        No win themes yet. Add the few messages evaluators should remember - what the company offers
+                        that matters to this agency, and what competitors cannot claim.
+                    </p>
+                )}
+
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '16px', marginBottom: '24px' }}>
+                    {themes.map((theme, index) => (
+                        <div key={theme.id || `new-${index}`} style={{
+                            padding: '20px',
+                            backgroundColor: '#1c1917',
+                            border: `1px solid ${theme.discriminator ? '#1e40af' : '#262626'}`,
+                            borderRadius: '8px',
+                        }}>
+                            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '12px' }}>
+                                <span style={{ fontSize: '13px', fontWeight: 600, color: '#9ca3af' }}>
+                                    {theme.id || 'New theme'}
+                                </span>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+                                    <label style={{ fontSize: '13px', color: '#9ca3af', display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+                                        <input
+                                            type="checkbox"
+                                            checked={theme.discriminator}
+                                            onChange={e => updateTheme(index, { discriminator: e.target.checked })}
+                                        />
+                                        Discriminator
+                                    </label>
+                                    <button
+                                        onClick={() => setThemes(prev => prev.filter((_, i) => i !== index))}
+                                        style={{
+                                            padding: '4px 10px',
+                                            backgroundColor: 'transparent',
+                                            border: '1px solid #4b5563',
+                                            borderRadius: '6px',
+                                            fontSize: '12px',
+                                            color: '#9ca3af',
+                                            cursor: 'pointer',
+                                        }}
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            </div>
+
+                            <label style={labelStyle}>Theme statement</label>
+                            <textarea
+                                value={theme.statement}
+                                onChange={e => updateTheme(index, { statement: e.target.value })}
+                                rows={2}
+                                placeholder="e.g. Zero-downtime cutover: our phased migration kept 99.99% availability on three agency data centers"
+                                style={{ ...inputStyle, resize: 'vertical', marginBottom: '12px' }}
+                            />
+
+                            <div style={{ display: 'flex', gap: '16px', marginBottom: '12px' }}>
+                                <div style={{ flex: 1 }}>
+                                    <label style={labelStyle}>Section M factor</label>
+                                    <select
+                                        value={theme.eval_factor}
+                                        onChange={e => updateTheme(index, { eval_factor: e.target.value })}
+                                        style={inputStyle}
+                                    >
+                                        <option value="">Not tied to a factor</option>
+                                        {(options?.eval_factors || []).map(f => (
+                                            <option key={f.name} value={f.name}>{f.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div style={{ flex: 1 }}>
+                                    <label style={labelStyle}>Volumes (none checked = routed by factor)</label>
+                                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', paddingTop: '8px' }}>
+                                        {(options?.volumes || []).map(v => (
+                                            <label key={v.number} style={{ fontSize: '13px', color: '#d4d4d4', display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={theme.volumes.includes(v.number)}
+                                                    onChange={e => updateTheme(index, {
+                                                        volumes: e.target.checked
+                                                            ? [...theme.volumes, v.number].sort((a, b) => a - b)
+                                                            : theme.volumes.filter(n => n !== v.number),
+                                                    })}
+                                                />
+                                                {v.name}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+
+                            <label style={labelStyle}>Proof points</label>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                {theme.proof_points.map((proof, proofIndex) => (
+                                    <div key={proofIndex} style={{ display: 'flex', gap: '8px' }}>
+                                        <input
+                                            value={proof.text}
+                                            onChange={e => updateProofPoint(index, proofIndex, { text: e.target.value })}
+                                            placeholder="Evidence, e.g. 99.99% availability during the DHS data center migration"
+                                            style={{ ...inputStyle, flex: 3 }}
+                                        />
+                                        <select
+                                            value={proof.source}
+                                            onChange={e => updateProofPoint(index, proofIndex, { source: e.target.value })}
+                                            style={{ ...inputStyle, flex: 2 }}
+                                        >
+                                            <option value="">No company record</option>
+                                            {(options?.sources || []).map(s => (
+                                                <option key={s.source} value={s.source}>{s.label}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => updateTheme(index, { proof_points: theme.proof_points.filter((_, j) => j !== proofIndex) })}
+                                            style={{
+                                                padding: '0 12px',
+                                                backgroundColor: 'transparent',
+                                                border: '1px solid #4b5563',
+                                                borderRadius: '6px',
+                                                color: '#9ca3af',
+                                                cursor: 'pointer',
+                                            }}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => updateTheme(index, { proof_points: [...theme.proof_points, { text: '', source: '' }] })}
+                                    style={{
+                                        alignSelf: 'flex-start',
+                                        padding: '6px 12px',
+                                        backgroundColor: 'transparent',
+                                        border: '1px dashed #4b5563',
+                                        borderRadius: '6px',
+                                        fontSize: '12px',
+                                        color: '#9ca3af',
+                                        cursor: 'pointer',
+                                    }}
+                                >
+                                    + Add proof point
+                                </button>
+                            </div>
+
+                            {theme.target_volumes && theme.target_volumes.length > 0 && (
+                                <p style={{ fontSize: '12px', color: '#6b7280', margin: '12px 0 0 0' }}>
+                                    Woven into: {theme.target_volumes.map(volumeName).join(', ')}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {/* Action buttons */}
+                <div style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    gap: '16px',
+                    paddingTop: '24px',
+                    borderTop: '1px solid #1a1a1a',
+                }}>
+                    <button
+                        onClick={() => setThemes(prev => [...prev, { statement: '', discriminator: false, eval_factor: '', volumes: [], proof_points: [] }])}
+                        style={{
+                            padding: '12px 20px',
+                            backgroundColor: 'transparent',
+                            border: '1px solid #4b5563',
+                            borderRadius: '8px',
+                            fontSize: '14px',
+                            color: '#e5e5e5',
+                            cursor: 'pointer',
+                        }}
+                    >
+                        + Add Win Theme
+                    </button>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+                        {savedAt && (
+                            <span style={{ fontSize: '13px', color: '#86efac' }}>Saved at {savedAt}</span>
+                        )}
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            style={{
+                                padding: '12px 24px',
+                                backgroundColor: '#16a34a',
+                                border: 'none',
+                                borderRadius: '8px',
+                                fontSize: '14px',
+                                fontWeight: 600,
+                                color: 'white',
+                                cursor: isSaving ? 'not-allowed' : 'pointer',
+                                opacity: isSaving ? 0.6 : 1,
+                            }}
+                        >
+                            {isSaving ? 'Saving...' : 'Save Win Themes'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
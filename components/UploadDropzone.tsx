@@ -6,46 +6,38 @@ import * as pdfjsLib from 'pdfjs-dist'
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs'
 
-export interface PdfData {
-    text: string
+// Solicitation packages: base RFP plus PWS, attachments, pricing templates, or a ZIP of all of them
+const ACCEPTED_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.txt', '.zip']
+
+export interface RfpUploadData {
+    files: File[] // Original uploads - the server extracts and tags each document
     fileName: string
-    pageCount: number
+    pageCount: number | null // Known only when every file is a PDF
+    totalBytes: number
 }
 
 interface UploadDropzoneProps {
-    onPdfExtracted: (data: PdfData | null) => void
+    onFilesSelected: (data: RfpUploadData | null) => void
 }
 
-export default function UploadDropzone({ onPdfExtracted }: UploadDropzoneProps) {
+export default function UploadDropzone({ onFilesSelected }: UploadDropzoneProps) {
     const [isDragging, setIsDragging] = useState(false)
     const [isProcessing, setIsProcessing] = useState(false)
-    const [uploadedFile, setUploadedFile] = useState<PdfData | null>(null)
+    const [uploadedFile, setUploadedFile] = useState<RfpUploadData | null>(null)
     const [error, setError] = useState<string | null>(null)
 
-    const extractText = useCallback(async (file: File) => {
+    const countPdfPages = useCallback(async (file: File) => {
         const arrayBuffer = await file.arrayBuffer()
         const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-
-        let fullText = ''
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i)
-            const content = await page.getTextContent()
-            const pageText = content.items
-                .map((item: any) => item.str)
-                .join(' ')
-            fullText += pageText + '\n\n'
-        }
-
-        return {
-            text: fullText,
-            fileName: file.name,
-            pageCount: pdf.numPages,
-        }
+        const pageCount = pdf.numPages
+        await pdf.destroy()
+        return pageCount
     }, [])
 
-    const handleFile = useCallback(async (file: File) => {
-        if (file.type !== 'application/pdf') {
-            setError('Please upload a PDF file')
+    const handleFiles = useCallback(async (files: File[]) => {
+        const unsupported = files.filter(f => !ACCEPTED_EXTENSIONS.some(ext => f.name.toLowerCase().endsWith(ext)))
+        if (files.length === 0 || unsupported.length > 0) {
+            setError('Please upload PDF, DOCX, XLSX, TXT or ZIP files')
             return
         }
 
@@ -53,35 +45,41 @@ export default function UploadDropzone({ onPdfExtracted }: UploadDropzoneProps)
         setIsProcessing(true)
 
         try {
-            const data = await extractText(file)
+            const allPdf = files.every(f => f.name.toLowerCase().endsWith('.pdf'))
+            const pageCounts = allPdf ? await Promise.all(files.map(countPdfPages)) : null
+
+            const data: RfpUploadData = {
+                files,
+                fileName: files.length === 1 ? files[0].name : `${files.length} documents`,
+                pageCount: pageCounts ? pageCounts.reduce((sum, n) => sum + n, 0) : null,
+                totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+            }
             setUploadedFile(data)
-            onPdfExtracted(data)
+            onFilesSelected(data)
         } catch (err) {
-            console.error('Error processing PDF:', err)
-            setError('Failed to process PDF. Please try again.')
-            onPdfExtracted(null)
+            console.error('Error processing upload:', err)
+            setError('Failed to read file. Please try again.')
+            onFilesSelected(null)
         } finally {
             setIsProcessing(false)
         }
-    }, [extractText, onPdfExtracted])
+    }, [countPdfPages, onFilesSelected])
 
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault()
         setIsDragging(false)
-        const file = e.dataTransfer.files[0]
-        if (file) handleFile(file)
-    }, [handleFile])
+        handleFiles(Array.from(e.dataTransfer.files))
+    }, [handleFiles])
 
     const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0]
-        if (file) handleFile(file)
-    }, [handleFile])
+        handleFiles(Array.from(e.target.files || []))
+    }, [handleFiles])
 
     const handleRemove = useCallback((e: React.MouseEvent) => {
         e.stopPropagation()
         setUploadedFile(null)
-        onPdfExtracted(null)
-    }, [onPdfExtracted])
+        onFilesSelected(null)
+    }, [onFilesSelected])
 
     return (
         <div className="w-full max-w-[420px] aspect-square mx-auto">
@@ -101,7 +99,8 @@ export default function UploadDropzone({ onPdfExtracted }: UploadDropzoneProps)
                 <input
                     id="pdf-upload"
                     type="file"
-                    accept="application/pdf"
+                    accept={ACCEPTED_EXTENSIONS.join(',')}
+                    multiple
                     onChange={handleFileInput}
                     className="hidden"
                 />
@@ -109,7 +108,7 @@ export default function UploadDropzone({ onPdfExtracted }: UploadDropzoneProps)
                 {isProcessing ? (
                     <div className="flex flex-col items-center gap-4">
                         <div className="w-8 h-8 border-2 border-orange-500/30 border-t-orange-500 rounded-full animate-spin" />
-                        <p className="text-sm text-gray-500 font-mono">Scanning PDF...</p>
+                        <p className="text-sm text-gray-500 font-mono">Reading files...</p>
                     </div>
                 ) : uploadedFile ? (
                     <div className="flex flex-col items-center gap-4 p-8 w-full">
@@ -124,14 +123,16 @@ export default function UploadDropzone({ onPdfExtracted }: UploadDropzoneProps)
                                 {uploadedFile.fileName}
                             </h3>
                             <p className="text-xs text-gray-500 font-mono mb-4">
-                                {uploadedFile.pageCount} PAGES • {Math.round(uploadedFile.text.length / 1024)}KB
+                                {uploadedFile.pageCount !== null
+                                    ? `${uploadedFile.pageCount} PAGES`
+                                    : `${uploadedFile.files.length} FILE${uploadedFile.files.length === 1 ? '' : 'S'}`} • {Math.round(uploadedFile.totalBytes / 1024)}KB
                             </p>
                             
                             <button
                                 onClick={handleRemove}
                                 className="px-4 py-2 text-xs font-medium text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-md transition-colors"
                             >
-                                Remove File
+                                Remove {uploadedFile.files.length === 1 ? 'File' : 'Files'}
                             </button>
                         </div>
                         
@@ -155,7 +156,7 @@ export default function UploadDropzone({ onPdfExtracted }: UploadDropzoneProps)
                                 Click to upload <span className="text-gray-500 font-normal">or drag and drop</span>
                             </p>
                             <p className="text-xs text-gray-600 font-mono uppercase tracking-wide">
-                                PDF Files Only
+                                PDF, DOCX, XLSX, TXT or ZIP
                             </p>
                         </div>
                     </div>
@@ -1,12 +1,12 @@
 /**
  * Agent 0: Volume Structure Enforcer
  * 
- * PRIMARY MISSION: Prevent the #1 disqualifying error by ensuring 4 separate 
- * volumes exist from the start with enforced page limits.
+ * PRIMARY MISSION: Prevent the #1 disqualifying error by ensuring the volumes
+ * Section L asks for exist from the start with enforced page limits.
  * 
  * RESPONSIBILITIES:
- * 1. Create 4 separate document containers BEFORE any writing begins
- * 2. Set page limits per volume based on RFP requirements
+ * 1. Build the volume list (names, limits, required contents) from Section L
+ * 2. Create a separate document container per volume BEFORE any writing begins
  * 3. Initialize tracking for real-time page counting
  */
 
@@ -18,19 +18,12 @@ import {
     AgentContext,
     Agent0Output,
 } from './types'
-import { VolumePageLimits, VolumeProgress, AgentStatus } from '../database.types'
-
-// Default page limits if not specified in RFP
-const DEFAULT_PAGE_LIMITS: VolumePageLimits = {
-    volume_1_technical: 50,
-    volume_2_management: 30,
-    volume_3_past_performance: 25,
-    volume_4_price: null, // No limit
-}
+import { ProposalVolume, VolumeProgress, AgentStatus } from '../database.types'
+import { buildVolumeStructure, legacyPageLimits, volumeOutlineKey } from '../volume-structure'
 
 export class Agent0VolumeStructure implements Agent<AgentContext, Agent0Output> {
     name = 'agent_0' as const
-    description = 'Creates 4 volume containers and enforces page limits'
+    description = 'Creates the Section L volume containers and enforces page limits'
 
     async validatePrerequisites(context: AgentContext): Promise<{ valid: boolean; errors: string[] }> {
         const errors: string[] = []
@@ -68,24 +61,20 @@ export class Agent0VolumeStructure implements Agent<AgentContext, Agent0Output>
                 }
             }
 
-            // Determine page limits from RFP or use defaults
-            const volumePageLimits = this.extractPageLimits(context.rfpParsedData)
-            logger.agentStep('agent_0', context.jobId, 'Determined page limits', { volumePageLimits })
-
-            // Initialize volume progress tracking
-            const volumeProgress: VolumeProgress = {
-                volume_1: { pages: 0, status: 'pending' as AgentStatus },
-                volume_2: { pages: 0, status: 'pending' as AgentStatus },
-                volume_3: { pages: 0, status: 'pending' as AgentStatus },
-                volume_4: { pages: 0, status: 'pending' as AgentStatus },
-            }
+            // Build the volume list from Section L (classic four volumes if not enumerated)
+            const volumeStructure = buildVolumeStructure(context.rfpParsedData?.section_l)
+            const volumePageLimits = legacyPageLimits(volumeStructure)
+            logger.agentStep('agent_0', context.jobId, 'Determined volume structure', {
+                volumes: volumeStructure.map(v => `${v.number}. ${v.name} (${v.writer}, ${v.page_limit ?? 'no'} page limit)`),
+            })
 
             // Create placeholder URLs for volumes in Supabase Storage
-            const volumeUrls = {
-                volume1: `proposals/${context.jobId}/volume_1_technical.html`,
-                volume2: `proposals/${context.jobId}/volume_2_management.html`,
-                volume3: `proposals/${context.jobId}/volume_3_past_performance.html`,
-                volume4: `proposals/${context.jobId}/volume_4_price.html`,
+            const volumeUrls: Record<string, string> = {}
+            const volumeProgress: VolumeProgress = {}
+            for (const volume of volumeStructure) {
+                const url = `proposals/${context.jobId}/${volumeOutlineKey(volume.number)}_${this.slugify(volume.name)}.html`
+                volumeUrls[`volume${volume.number}`] = url
+                volumeProgress[volumeOutlineKey(volume.number)] = { pages: 0, status: 'pending' as AgentStatus, content_url: url }
             }
 
             // Update proposal_jobs with volume structure
@@ -93,12 +82,14 @@ export class Agent0VolumeStructure implements Agent<AgentContext, Agent0Output>
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const { error } = await (supabase.from('proposal_jobs') as any)
                 .update({
+                    volume_structure: volumeStructure,
                     volume_page_limits: volumePageLimits,
                     volume_progress: volumeProgress,
-                    volume_1_url: volumeUrls.volume1,
-                    volume_2_url: volumeUrls.volume2,
-                    volume_3_url: volumeUrls.volume3,
-                    volume_4_url: volumeUrls.volume4,
+                    // Legacy URL columns exist for the first four volumes only
+                    volume_1_url: volumeUrls.volume1 || null,
+                    volume_2_url: volumeUrls.volume2 || null,
+                    volume_3_url: volumeUrls.volume3 || null,
+                    volume_4_url: volumeUrls.volume4 || null,
                     // current_agent and agent_progress are managed by Inngest orchestrator
                 })
                 .eq('job_id', context.jobId)
@@ -107,26 +98,22 @@ export class Agent0VolumeStructure implements Agent<AgentContext, Agent0Output>
                 throw new Error(`Failed to update proposal job: ${error.message}`)
             }
 
-            logger.agentStep('agent_0', context.jobId, 'Volume structure created', {
-                volume_1: `${volumePageLimits.volume_1_technical} pages max`,
-                volume_2: `${volumePageLimits.volume_2_management} pages max`,
-                volume_3: `${volumePageLimits.volume_3_past_performance} pages max`,
-                volume_4: `${volumePageLimits.volume_4_price ?? 'No limit'} pages`,
-            })
+            logger.agentStep('agent_0', context.jobId, 'Volume structure created', Object.fromEntries(
+                volumeStructure.map(v => [`volume_${v.number}`, `${v.name}: ${v.page_limit ?? 'No limit'} pages`])
+            ))
 
             return {
                 status: 'success',
                 data: {
+                    volumeStructure,
                     volumePageLimits,
                     volumeProgress,
                     volumeUrls,
                 },
-                nextAgent: 'agent_1',
+                nextAgent: 'agent_2',
                 metadata: {
-                    totalVolumeLimit: 
-                        (volumePageLimits.volume_1_technical || 0) +
-                        (volumePageLimits.volume_2_management || 0) +
-                        (volumePageLimits.volume_3_past_performance || 0),
+                    volumeCount: volumeStructure.length,
+                    totalVolumeLimit: volumeStructure.reduce((sum, v) => sum + (v.page_limit || 0), 0),
                 },
             }
         } catch (error) {
@@ -142,16 +129,8 @@ export class Agent0VolumeStructure implements Agent<AgentContext, Agent0Output>
         }
     }
 
-    /**
-     * Extract page limits from parsed RFP data or use defaults
-     */
-    private extractPageLimits(rfpParsedData?: import('../database.types').RfpParsedData): VolumePageLimits {
-        if (rfpParsedData?.section_l?.page_limits) {
-            return rfpParsedData.section_l.page_limits
-        }
-
-        // Return defaults if RFP data not available yet
-        return DEFAULT_PAGE_LIMITS
+    private slugify(name: string): string {
+        return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'volume'
     }
 }
 
@@ -160,25 +139,17 @@ export const agent0 = new Agent0VolumeStructure()
 
 // Export helper for page limit validation
 export function validatePageCount(
-    volumeNumber: 1 | 2 | 3 | 4,
-    currentPages: number,
-    limits: VolumePageLimits
+    volume: ProposalVolume,
+    currentPages: number
 ): { withinLimit: boolean; warning: boolean; message: string } {
-    const limitKey = `volume_${volumeNumber}_${{
-        1: 'technical',
-        2: 'management',
-        3: 'past_performance',
-        4: 'price',
-    }[volumeNumber]}` as keyof VolumePageLimits
-
-    const limit = limits[limitKey]
+    const limit = volume.page_limit
 
-    // Volume 4 (Price) typically has no limit
+    // Price volumes typically have no limit
     if (limit === null) {
         return {
             withinLimit: true,
             warning: false,
-            message: `Volume ${volumeNumber}: ${currentPages} pages (no limit)`,
+            message: `Volume ${volume.number}: ${currentPages} pages (no limit)`,
         }
     }
 
@@ -188,14 +159,12 @@ export function validatePageCount(
 
     let message: string
     if (!withinLimit) {
-        message = `Volume ${volumeNumber}: ${currentPages}/${limit} pages - EXCEEDS LIMIT`
+        message = `Volume ${volume.number}: ${currentPages}/${limit} pages - EXCEEDS LIMIT`
     } else if (warning) {
-        message = `Volume ${volumeNumber}: ${currentPages}/${limit} pages - APPROACHING LIMIT`
+        message = `Volume ${volume.number}: ${currentPages}/${limit} pages - APPROACHING LIMIT`
     } else {
-        message = `Volume ${volumeNumber}: ${currentPages}/${limit} pages - OK`
+        message = `Volume ${volume.number}: ${currentPages}/${limit} pages - OK`
     }
 
     return { withinLimit, warning, message }
 }
-
-
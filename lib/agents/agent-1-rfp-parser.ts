@@ -8,8 +8,15 @@
  * 
  * STRATEGY: Multi-pass extraction to handle large RFPs without truncation:
  * Pass 1: Metadata + Section L (format) + Section M (evaluation)
- * Pass 2: Section C requirements (chunked if needed)
+ * Pass 2: Section C requirements (chunked if needed), reconciled against a
+ *         deterministic "shall/must/will" scan so dropped obligations survive
  * Pass 3: CLINs + Disqualifying requirements
+ * Pass 4: FAR/DFARS clauses and provisions (Sections I, K, L)
+ * Pass 5: Key personnel qualifications (Sections C, H, L, labor category attachments)
+ * Pass 6: Deliverables and CDRL schedule (Sections F, C, CDRL exhibits)
+ *
+ * When a page-anchored RfpDocument is available, every requirement is mapped
+ * back to its source page and character span in the original solicitation.
  */
 
 import { supabase } from '../supabase'
@@ -21,7 +28,39 @@ import {
     AgentContext,
     Agent1Output,
 } from './types'
-import { RfpParsedData, RfpRequirement, RfpEvaluationFactor } from '../database.types'
+import {
+    RfpParsedData,
+    RfpRequirement,
+    RfpEvaluationFactor,
+    RfpDocument,
+    RfpClarification,
+    SectionLVolume,
+    RequirementReconciliation,
+    RfpClause,
+    RfpSourceAnchor,
+    AwardBasis,
+    EvaluationMethodology,
+    RelativeImportance,
+    KeyPersonnelRequirement,
+    EducationLevel,
+    ClearanceLevel,
+    RfpDocumentSection,
+    RfpDeliverable,
+    SectionLFormat,
+    SubmissionNaming,
+} from '../database.types'
+import { locateText } from '../ingestion/anchors'
+import { scanObligations, ObligationStatement } from '../ingestion/obligation-scanner'
+import { pageForOffset, sectionForOffset } from '../ingestion/section-detector'
+import { KNOWN_CLAUSES, clauseKind, clauseRegulation, findClauseMentions } from '../far-clauses'
+import { detectAwardBasis, importanceDegree } from '../evaluation-methodology'
+import { buildVolumeStructure, legacyPageLimits } from '../volume-structure'
+import { EXCLUDED_PAGES, HEADER_FOOTER_ITEMS, PAGE_NUMBERING_STYLES } from '../format-profile'
+
+// Scanner hit counts as covered when an extracted requirement is this similar...
+const OBLIGATION_MATCH_SIMILARITY = 0.6
+// ...or contains this share of the hit's words (the LLM often merges sentences)
+const OBLIGATION_MATCH_COVERAGE = 0.8
 
 // =============================================================================
 // PROMPTS - Focused prompts for each extraction pass
@@ -36,11 +75,14 @@ Return ONLY valid JSON, no markdown:
     "solicitation_num": "Solicitation number",
     "title": "RFP title",
     "deadline": "Submission deadline with timezone",
-    "contract_type": "FFP/T&M/Cost-Plus/IDIQ etc",
+    "contract_type": "FFP | T&M | Labor-Hour | CPFF | CPIF | CPAF | IDIQ (with the task order pricing type, e.g. IDIQ FFP) etc",
     "set_aside": "Small business set-aside type or null"
   },
   "section_l": {
     "volumes_required": 4,
+    "volumes": [
+      {"name": "Volume name exactly as Section L calls it", "page_limit": 50, "required_contents": ["What Section L says this volume must contain"], "eval_factors": ["Section M factor(s) evaluated from this volume"]}
+    ],
     "page_limits": {
       "volume_1_technical": 50,
       "volume_2_management": 30,
@@ -51,17 +93,47 @@ Return ONLY valid JSON, no markdown:
       "font": "Font name",
       "font_size": "Size",
       "margins": "Margin size",
-      "spacing": "Line spacing"
+      "spacing": "Line spacing",
+      "page_size": "Letter | A4",
+      "header": ["solicitation_number | offeror_name | volume_title | proprietary_notice | date"],
+      "footer": ["solicitation_number | offeror_name | volume_title | proprietary_notice | date"],
+      "page_numbering": "page_x_of_y | page_x | volume_page | none",
+      "min_table_font_size": "Smallest font allowed in tables/graphics, e.g. 10pt",
+      "excluded_pages": ["cover | toc | acronyms | compliance_matrix | resumes | tabs"]
+    },
+    "submission_naming": {
+      "instruction": "Verbatim Section L electronic file naming instruction, or null",
+      "file_pattern": "Volume file name pattern, e.g. {offeror}_{solicitation}_Volume_{volume}_{volume_name}",
+      "package_pattern": "Submission archive name pattern if stated, else null"
     }
   },
   "section_m": {
     "factors": [
       {"name": "Factor name", "weight": "Percentage or points", "description": "Brief description"}
     ],
-    "total_points": 100
+    "total_points": 100,
+    "methodology": {
+      "award_basis": "lpta | best_value_tradeoff | highest_technically_rated | unknown",
+      "basis_statement": "Verbatim basis-for-award sentence from Section M",
+      "relative_importance": ["Verbatim statements such as: Technical is significantly more important than Price"],
+      "non_price_vs_price": "significantly_more_important | more_important | approximately_equal | less_important | null",
+      "rating_scheme": {
+        "kind": "adjectival | color | acceptable_unacceptable | numerical",
+        "ratings": [{"rating": "Outstanding", "description": "Definition from Section M"}]
+      }
+    }
   }
 }
 
+List "volumes" in the order Section L gives them - one entry per separately bound volume,
+however many there are (use null for page_limit when the volume has none).
+List "ratings" best first; use null for "rating_scheme" when Section M defines none.
+Omit format fields Section L does not address. "excluded_pages" lists the pages Section L
+says do not count against the page limit.
+Write naming patterns with the placeholders {offeror}, {solicitation}, {volume} (Roman numeral),
+{volume_number} and {volume_name}, without the file extension; use null for "submission_naming"
+when Section L gives no file naming instruction.
+
 RFP TEXT:`
 
 const REQUIREMENTS_PROMPT = `You are a federal RFP analyst. Extract ALL requirements from this RFP section.
@@ -103,6 +175,92 @@ Return ONLY valid JSON, no markdown:
 
 RFP TEXT:`
 
+const CLAUSES_PROMPT = `You are a federal contracts analyst. List EVERY FAR (52.xxx-xx) and DFARS (252.xxx-xxxx) clause
+and provision this RFP incorporates - both those incorporated by reference (clause lists, 52.252-2) and those in full text.
+Leave out numbers that are only mentioned: cross-references inside other clauses, tables of contents, and items on
+checklists such as 52.212-5 or 52.213-4 that are not checked or marked as applicable.
+
+Return ONLY valid JSON, no markdown:
+{
+  "clauses": [
+    {
+      "number": "52.219-14",
+      "title": "Limitations on Subcontracting",
+      "date": "OCT 2022",
+      "kind": "clause",
+      "incorporation": "reference",
+      "alternate": null,
+      "fill_in": "Values the RFP fills in for this clause (percentages, CMMC level, NAICS, ...) or null"
+    }
+  ]
+}
+
+"kind" is "provision" for solicitation provisions (e.g. 52.212-1, 52.215-1, Section K/L items) and "clause" otherwise.
+"incorporation" is "full_text" when the clause text is reproduced in the RFP, otherwise "reference".
+
+RFP TEXT:`
+
+const KEY_PERSONNEL_PROMPT = `You are a federal RFP analyst. Extract every key personnel position and labor category
+for which the RFP states minimum qualifications.
+
+Return ONLY a JSON array, no markdown:
+[
+  {
+    "position": "Program Manager",
+    "key": true,
+    "education": "Bachelor's degree in Computer Science, Engineering or related field",
+    "education_level": "high_school | associate | bachelor | master | doctorate | null",
+    "min_years_experience": 10,
+    "certifications": ["PMP"],
+    "clearance": "None | Secret | Top Secret | TS/SCI | null",
+    "other_qualifications": ["Experience managing DoD IT programs over $10M"]
+  }
+]
+
+"key" is true only for positions the RFP designates as Key Personnel. Return [] if the RFP states no qualifications.
+
+RFP TEXT:`
+
+const DELIVERABLES_PROMPT = `You are a federal RFP analyst. Extract every contract deliverable the RFP lists -
+Section F deliveries, SOW/PWS deliverable tables and CDRL items (DD Form 1423 exhibits).
+
+Return ONLY a JSON array, no markdown:
+[
+  {
+    "name": "Monthly Status Report",
+    "cdrl_number": "A001 | null",
+    "frequency": "Monthly | Weekly | Quarterly | One-time | As required | null",
+    "due_date": "10th business day of the following month | null",
+    "recipient": "COR | null",
+    "section": "F.4 | null"
+  }
+]
+
+Copy due dates and recipients as written. Return [] if the RFP lists no deliverables.
+
+RFP TEXT:`
+
+const QA_PROMPT = `You are a federal RFP analyst. Below are the government's published answers to offeror questions (Q&A) and the requirements extracted from the RFP.
+1. Split the Q&A text into question/answer pairs exactly as published - do NOT paraphrase.
+2. For each pair, list the requirement ids whose meaning the answer clarifies, changes or overrides. Use [] if none.
+3. For each linked requirement, state the requirement as it must now be interpreted (1-2 sentences). The answer wins over the original RFP language.
+
+Return ONLY a JSON array, no markdown:
+[
+  {
+    "question": "Full question text",
+    "answer": "Full answer text",
+    "affected_requirements": [
+      {"req_id": "REQ-012", "clarified_interpretation": "Monthly (not weekly) status reports are required"}
+    ]
+  }
+]
+
+REQUIREMENTS:
+{requirements}
+
+Q&A TEXT:`
+
 // =============================================================================
 // AGENT IMPLEMENTATION
 // =============================================================================
@@ -118,8 +276,8 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
             errors.push('Job ID is required')
         }
 
-        if (!context.rfpText && !context.rfpFileUrl) {
-            errors.push('RFP text or file URL is required')
+        if (!context.rfpText && !context.rfpFileUrl && !context.rfpDocument) {
+            errors.push('RFP text, document or file URL is required')
         }
 
         return {
@@ -143,60 +301,8 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
 
             await this.updateAgentStatus(context.jobId, 'running')
 
-            const rfpText = context.rfpText || ''
-            logger.agentStep('agent_1', context.jobId, 'RFP received', {
-                totalLength: rfpText.length,
-                estimatedPages: Math.ceil(rfpText.length / 3000),
-            })
-
-            // ================================================================
-            // PASS 1: Extract metadata, format rules, evaluation criteria
-            // ================================================================
-            logger.agentStep('agent_1', context.jobId, 'Pass 1: Extracting metadata and evaluation criteria')
-            
-            const metadataResult = await this.extractMetadata(rfpText, context.jobId)
-            
-            logger.agentStep('agent_1', context.jobId, 'Pass 1 complete', {
-                agency: metadataResult.metadata.agency,
-                solicitation: metadataResult.metadata.solicitation_num,
-                factors: metadataResult.section_m.factors.length,
-            })
-
-            // ================================================================
-            // PASS 2: Extract ALL requirements (chunked for large RFPs)
-            // ================================================================
-            logger.agentStep('agent_1', context.jobId, 'Pass 2: Extracting ALL requirements')
-            
-            const requirements = await this.extractAllRequirements(rfpText, context.jobId)
-            
-            logger.agentStep('agent_1', context.jobId, 'Pass 2 complete', {
-                totalRequirements: requirements.length,
-                mandatory: requirements.filter(r => r.mandatory).length,
-            })
-
-            // ================================================================
-            // PASS 3: Extract CLINs and disqualifying requirements
-            // ================================================================
-            logger.agentStep('agent_1', context.jobId, 'Pass 3: Extracting CLINs and disqualifiers')
-            
-            const disqualifiersResult = await this.extractDisqualifiers(rfpText, context.jobId)
-            
-            logger.agentStep('agent_1', context.jobId, 'Pass 3 complete', {
-                clins: disqualifiersResult.section_b?.clins?.length || 0,
-                disqualifiers: disqualifiersResult.disqualifying_requirements.length,
-            })
-
-            // ================================================================
-            // MERGE ALL RESULTS
-            // ================================================================
-            const rfpParsedData: RfpParsedData = {
-                metadata: metadataResult.metadata,
-                section_l: metadataResult.section_l,
-                section_m: metadataResult.section_m,
-                section_c: { requirements },
-                section_b: disqualifiersResult.section_b,
-                disqualifying_requirements: disqualifiersResult.disqualifying_requirements,
-            }
+            const rfpParsedData = await this.parse(context)
+            const requirements = rfpParsedData.section_c.requirements
 
             // Build compliance matrix
             const complianceMatrixSkeleton = requirements.map(req => ({
@@ -261,6 +367,134 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
         }
     }
 
+    /**
+     * Run every extraction pass and return the parsed RFP without writing to the
+     * job - amendments re-parse with this and persist only the stabilized result
+     */
+    async parse(context: AgentContext): Promise<RfpParsedData> {
+        const rfpDocument = context.rfpDocument
+        const rfpText = rfpDocument?.text || context.rfpText || ''
+        logger.agentStep('agent_1', context.jobId, 'RFP received', {
+            totalLength: rfpText.length,
+            pages: rfpDocument?.page_count ?? Math.ceil(rfpText.length / 3000),
+            documents: rfpDocument?.documents.map(d => `${d.file_name} (${d.role})`).join(', ') || 'pasted text',
+            sections: rfpDocument?.sections.map(s => s.key).join(', ') || 'not detected',
+        })
+
+        // ================================================================
+        // PASS 1: Extract metadata, format rules, evaluation criteria
+        // ================================================================
+        logger.agentStep('agent_1', context.jobId, 'Pass 1: Extracting metadata and evaluation criteria')
+        
+        const metadataResult = await this.extractMetadata(rfpText, context.jobId)
+        
+        logger.agentStep('agent_1', context.jobId, 'Pass 1 complete', {
+            agency: metadataResult.metadata.agency,
+            solicitation: metadataResult.metadata.solicitation_num,
+            factors: metadataResult.section_m.factors.length,
+            awardBasis: metadataResult.section_m.methodology?.award_basis,
+        })
+
+        // ================================================================
+        // PASS 2: Extract ALL requirements (chunked for large RFPs)
+        // ================================================================
+        logger.agentStep('agent_1', context.jobId, 'Pass 2: Extracting ALL requirements')
+
+        // Deterministic pre-pass - every obligation statement in the SOW/PWS with its paragraph number
+        const obligations = this.scanWorkStatementObligations(rfpText, rfpDocument)
+        logger.agentStep('agent_1', context.jobId, 'Obligation scan complete', {
+            statements: obligations.length,
+        })
+        
+        const extractedRequirements = await this.extractAllRequirements(rfpText, context.jobId)
+        const reconciled = this.reconcileObligations(extractedRequirements, obligations, rfpDocument)
+        const requirements = rfpDocument
+            ? this.anchorRequirements(reconciled.requirements, rfpDocument)
+            : reconciled.requirements
+        
+        logger.agentStep('agent_1', context.jobId, 'Pass 2 complete', {
+            totalRequirements: requirements.length,
+            mandatory: requirements.filter(r => r.mandatory).length,
+            anchored: requirements.filter(r => r.source).length,
+            scannerCovered: reconciled.reconciliation.covered,
+            lowConfidence: reconciled.reconciliation.unmatched.length,
+        })
+
+        if (reconciled.reconciliation.unmatched.length > 0) {
+            logger.warn(`[Agent 1] LLM extraction missed ${reconciled.reconciliation.unmatched.length} obligation statement(s) - added as low-confidence requirements`, {
+                jobId: context.jobId,
+                data: {
+                    paragraphs: reconciled.reconciliation.unmatched.map(u => u.paragraph || 'unnumbered').slice(0, 20),
+                },
+            })
+        }
+
+        // ================================================================
+        // PASS 3: Extract CLINs and disqualifying requirements
+        // ================================================================
+        logger.agentStep('agent_1', context.jobId, 'Pass 3: Extracting CLINs and disqualifiers')
+        
+        const disqualifiersResult = await this.extractDisqualifiers(rfpText, context.jobId)
+        
+        logger.agentStep('agent_1', context.jobId, 'Pass 3 complete', {
+            clins: disqualifiersResult.section_b?.clins?.length || 0,
+            disqualifiers: disqualifiersResult.disqualifying_requirements.length,
+        })
+
+        // ================================================================
+        // PASS 4: Extract FAR/DFARS clauses and provisions
+        // ================================================================
+        logger.agentStep('agent_1', context.jobId, 'Pass 4: Extracting FAR/DFARS clauses')
+
+        const clauses = await this.extractClauses(rfpText, rfpDocument, context.jobId)
+
+        logger.agentStep('agent_1', context.jobId, 'Pass 4 complete', {
+            clauses: clauses.length,
+            dfars: clauses.filter(c => c.regulation === 'DFARS').length,
+            fullText: clauses.filter(c => c.incorporation === 'full_text').length,
+        })
+
+        // ================================================================
+        // PASS 5: Extract key personnel qualifications
+        // ================================================================
+        logger.agentStep('agent_1', context.jobId, 'Pass 5: Extracting key personnel qualifications')
+
+        const keyPersonnel = await this.extractKeyPersonnel(rfpText, rfpDocument, context.jobId)
+
+        logger.agentStep('agent_1', context.jobId, 'Pass 5 complete', {
+            positions: keyPersonnel.length,
+            keyPositions: keyPersonnel.filter(p => p.key).length,
+        })
+
+        // ================================================================
+        // PASS 6: Extract deliverables and CDRL schedule
+        // ================================================================
+        logger.agentStep('agent_1', context.jobId, 'Pass 6: Extracting deliverables')
+
+        const deliverables = await this.extractDeliverables(rfpText, rfpDocument, context.jobId)
+
+        logger.agentStep('agent_1', context.jobId, 'Pass 6 complete', {
+            deliverables: deliverables.length,
+            cdrlItems: deliverables.filter(d => d.cdrl_number).length,
+        })
+
+        // ================================================================
+        // MERGE ALL RESULTS
+        // ================================================================
+        return {
+            metadata: metadataResult.metadata,
+            section_l: metadataResult.section_l,
+            section_m: metadataResult.section_m,
+            section_c: { requirements },
+            section_b: disqualifiersResult.section_b,
+            disqualifying_requirements: disqualifiersResult.disqualifying_requirements,
+            requirement_reconciliation: reconciled.reconciliation,
+            clauses,
+            key_personnel: keyPersonnel,
+            deliverables,
+        }
+    }
+
     // =========================================================================
     // PASS 1: Metadata Extraction
     // =========================================================================
@@ -292,25 +526,47 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
             }
             section_l?: {
                 volumes_required?: number
+                volumes?: Array<{
+                    name?: string
+                    page_limit?: number | null
+                    required_contents?: string[]
+                    eval_factors?: string[]
+                }>
                 page_limits?: {
                     volume_1_technical?: number
                     volume_2_management?: number
                     volume_3_past_performance?: number
                     volume_4_price?: number | null
                 }
-                format?: {
-                    font?: string
-                    font_size?: string
-                    margins?: string
-                    spacing?: string
-                }
+                format?: Record<string, unknown>
+                submission_naming?: Record<string, unknown> | null
             }
             section_m?: {
                 factors?: unknown[]
                 total_points?: number
+                methodology?: Record<string, unknown>
             }
         }
         
+        const volumes: SectionLVolume[] = (Array.isArray(parsed.section_l?.volumes) ? parsed.section_l.volumes : [])
+            .filter(v => typeof v?.name === 'string' && v.name.trim())
+            .map(v => ({
+                name: String(v.name).trim(),
+                page_limit: typeof v.page_limit === 'number' && v.page_limit > 0 ? v.page_limit : null,
+                required_contents: Array.isArray(v.required_contents) ? v.required_contents.map(String) : [],
+                eval_factors: Array.isArray(v.eval_factors) ? v.eval_factors.map(String) : [],
+            }))
+
+        // Keep the legacy four-volume limits consistent with the enumerated volumes
+        const pageLimits = volumes.length > 0
+            ? legacyPageLimits(buildVolumeStructure({ volumes } as RfpParsedData['section_l']))
+            : {
+                volume_1_technical: parsed.section_l?.page_limits?.volume_1_technical || 50,
+                volume_2_management: parsed.section_l?.page_limits?.volume_2_management || 30,
+                volume_3_past_performance: parsed.section_l?.page_limits?.volume_3_past_performance || 25,
+                volume_4_price: parsed.section_l?.page_limits?.volume_4_price ?? null as unknown as number,
+            }
+
         return {
             metadata: {
                 agency: parsed.metadata?.agency || 'Unknown Agency',
@@ -321,23 +577,16 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
                 set_aside: parsed.metadata?.set_aside,
             },
             section_l: {
-                volumes_required: parsed.section_l?.volumes_required || 4,
-                page_limits: {
-                    volume_1_technical: parsed.section_l?.page_limits?.volume_1_technical || 50,
-                    volume_2_management: parsed.section_l?.page_limits?.volume_2_management || 30,
-                    volume_3_past_performance: parsed.section_l?.page_limits?.volume_3_past_performance || 25,
-                    volume_4_price: parsed.section_l?.page_limits?.volume_4_price ?? null as unknown as number,
-                },
-                format: {
-                    font: parsed.section_l?.format?.font || 'Times New Roman',
-                    font_size: parsed.section_l?.format?.font_size || '12pt',
-                    margins: parsed.section_l?.format?.margins || '1 inch',
-                    spacing: parsed.section_l?.format?.spacing || 'Single',
-                },
+                volumes_required: volumes.length || parsed.section_l?.volumes_required || 4,
+                page_limits: pageLimits,
+                volumes: volumes.length > 0 ? volumes : undefined,
+                format: this.parseFormat(parsed.section_l?.format),
+                submission_naming: this.parseSubmissionNaming(parsed.section_l?.submission_naming),
             },
             section_m: {
                 factors: this.parseFactors(parsed.section_m?.factors),
                 total_points: parsed.section_m?.total_points,
+                methodology: this.parseMethodology(parsed.section_m?.methodology, rfpText),
             },
         }
     }
@@ -395,6 +644,203 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
         return allRequirements
     }
 
+    /**
+     * Reconcile the deterministic obligation scan with the LLM requirements.
+     * Scanner hits no requirement covers are added as low-confidence requirements
+     * instead of being lost.
+     */
+    private reconcileObligations(
+        requirements: RfpRequirement[],
+        obligations: ObligationStatement[],
+        document?: RfpDocument
+    ): { requirements: RfpRequirement[]; reconciliation: RequirementReconciliation } {
+        const requirementWords = requirements.map(r => this.wordSet(r.text))
+        const unmatched: ObligationStatement[] = []
+        let covered = 0
+
+        for (const obligation of obligations) {
+            const obligationWords = this.wordSet(obligation.text)
+            const isCovered = requirements.some((req, i) =>
+                this.wordCoverage(obligationWords, requirementWords[i]) >= OBLIGATION_MATCH_COVERAGE ||
+                this.textSimilarity(req.text, obligation.text) >= OBLIGATION_MATCH_SIMILARITY
+            )
+
+            if (isCovered) {
+                covered++
+                continue
+            }
+
+            // Same dedupe as the chunked LLM extraction
+            if (!unmatched.some(existing => this.textSimilarity(existing.text, obligation.text) > 0.9)) {
+                unmatched.push(obligation)
+            }
+        }
+
+        const added: RfpRequirement[] = unmatched.map((obligation, i) => ({
+            id: `REQ-${String(requirements.length + i + 1).padStart(3, '0')}`,
+            section: obligation.paragraph || 'Unknown',
+            text: obligation.text,
+            mandatory: obligation.mandatory,
+            confidence: 'low',
+        }))
+
+        return {
+            requirements: [
+                ...requirements.map(r => ({ ...r, confidence: r.confidence || 'high' as const })),
+                ...added,
+            ],
+            reconciliation: {
+                scanned: obligations.length,
+                covered,
+                unmatched: unmatched.map(obligation => ({
+                    text: obligation.text,
+                    paragraph: obligation.paragraph,
+                    keyword: obligation.keyword,
+                    page: document ? pageForOffset(document.pages, obligation.start) : undefined,
+                })),
+                reconciled_at: new Date().toISOString(),
+            },
+        }
+    }
+
+    /**
+     * Attach source page and character span to each requirement.
+     * Fills in the section from the detected heading when the LLM didn't give one.
+     */
+    private anchorRequirements(requirements: RfpRequirement[], document: RfpDocument): RfpRequirement[] {
+        return requirements.map(req => {
+            const source = locateText(document, req.text)
+            if (!source) return req
+
+            const section = req.section && req.section !== 'Unknown'
+                ? req.section
+                : source.section || req.section
+
+            return { ...req, section, source }
+        })
+    }
+
+    // =========================================================================
+    // GOVERNMENT Q&A: Clarifications linked to requirements
+    // =========================================================================
+
+    /**
+     * Parse a government Q&A document into question/answer pairs, link them to
+     * requirement ids and annotate those requirements with the clarified interpretation.
+     * Runs after the main extraction (Q&A is usually published weeks later).
+     */
+    async extractClarifications(
+        qaText: string,
+        rfpParsedData: RfpParsedData,
+        importId: string,
+        jobId: string
+    ): Promise<{ rfpParsedData: RfpParsedData; clarifications: RfpClarification[] }> {
+        const requirements = rfpParsedData.section_c?.requirements || []
+        const requirementList = requirements
+            .map(r => `${r.id} [${r.section}]: ${r.text.substring(0, 200)}`)
+            .join('\n')
+
+        const chunkSize = 40000
+        const chunks: string[] = []
+        for (let i = 0; i < qaText.length; i += chunkSize - 2000) {
+            chunks.push(qaText.substring(i, i + chunkSize))
+        }
+
+        logger.agentStep('agent_1', jobId, `Parsing government Q&A (${chunks.length} chunk(s))`, {
+            importId,
+            qaLength: qaText.length,
+            requirements: requirements.length,
+        })
+
+        const pairs: Array<{
+            question: string
+            answer: string
+            affected: Array<{ reqId: string; interpretation: string }>
+        }> = []
+
+        for (let i = 0; i < chunks.length; i++) {
+            const response = await callClaude({
+                system: 'Return ONLY a valid JSON array of question/answer pairs. No markdown, no explanation.',
+                userPrompt: QA_PROMPT.replace('{requirements}', requirementList || 'None extracted') + chunks[i],
+                maxTokens: 16000,
+                temperature: 0.1,
+                jobId,
+            })
+
+            for (const raw of this.parseObjectArray(response, 'Q&A')) {
+                const pair = {
+                    question: String(raw.question || ''),
+                    answer: String(raw.answer || ''),
+                    affected: (Array.isArray(raw.affected_requirements) ? raw.affected_requirements : [])
+                        .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object')
+                        .map(a => ({
+                            reqId: String(a.req_id || ''),
+                            interpretation: String(a.clarified_interpretation || ''),
+                        }))
+                        .filter(a => a.reqId && a.interpretation),
+                }
+                if (!pair.question || !pair.answer) continue
+
+                // Chunks overlap - skip pairs already captured from the previous chunk
+                const isDuplicate = pairs.some(existing => this.textSimilarity(existing.question, pair.question) > 0.9)
+                if (!isDuplicate) pairs.push(pair)
+            }
+        }
+
+        // ================================================================
+        // Annotate requirements with the clarified interpretation
+        // ================================================================
+        const existing = rfpParsedData.clarifications || []
+        const requirementIds = new Set(requirements.map(r => r.id))
+        const annotations = new Map<string, Array<{ id: string; interpretation: string }>>()
+
+        const clarifications: RfpClarification[] = pairs.map((pair, i) => {
+            const id = `QA-${String(existing.length + i + 1).padStart(3, '0')}`
+            const linked = pair.affected.filter(a => requirementIds.has(a.reqId))
+
+            linked.forEach(a => {
+                const list = annotations.get(a.reqId) || []
+                list.push({ id, interpretation: a.interpretation })
+                annotations.set(a.reqId, list)
+            })
+
+            return {
+                id,
+                question: pair.question,
+                answer: pair.answer,
+                req_ids: [...new Set(linked.map(a => a.reqId))],
+                import_id: importId,
+            }
+        })
+
+        const annotatedRequirements = requirements.map(req => {
+            const notes = annotations.get(req.id)
+            if (!notes) return req
+
+            return {
+                ...req,
+                clarification: [req.clarification, ...notes.map(n => `${n.interpretation} (${n.id})`)]
+                    .filter(Boolean)
+                    .join(' '),
+                clarification_ids: [...(req.clarification_ids || []), ...notes.map(n => n.id)],
+            }
+        })
+
+        logger.agentStep('agent_1', jobId, 'Q&A parsing complete', {
+            pairs: clarifications.length,
+            linkedRequirements: annotations.size,
+        })
+
+        return {
+            rfpParsedData: {
+                ...rfpParsedData,
+                section_c: { ...rfpParsedData.section_c, requirements: annotatedRequirements },
+                clarifications: [...existing, ...clarifications],
+            },
+            clarifications,
+        }
+    }
+
     // =========================================================================
     // PASS 3: Disqualifiers Extraction
     // =========================================================================
@@ -435,6 +881,240 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
         }
     }
 
+    // =========================================================================
+    // PASS 4: FAR/DFARS Clauses
+    // =========================================================================
+
+    /**
+     * Extract the clauses and provisions the RFP incorporates with the LLM, then
+     * anchor each one at its first mention found by the deterministic sweep
+     */
+    private async extractClauses(rfpText: string, document: RfpDocument | undefined, jobId: string): Promise<RfpClause[]> {
+        // Clauses live in Section I (contract clauses), K (representations) and L (provisions)
+        const clauseText = this.sectionText(rfpText, document, s => s.kind === 'section' && ['I', 'K', 'L'].includes(s.key))
+
+        const chunkSize = 100000
+        const clauses = new Map<string, RfpClause>()
+
+        for (let i = 0; i < clauseText.length; i += chunkSize) {
+            const response = await callClaude({
+                system: 'Return ONLY valid JSON. No markdown, no explanation.',
+                userPrompt: CLAUSES_PROMPT + clauseText.substring(i, i + chunkSize),
+                maxTokens: 8000,
+                temperature: 0.1,
+                jobId,
+            })
+
+            const parsed = this.parseJson(response, 'clauses') as { clauses?: Array<Record<string, unknown>> }
+            for (const raw of Array.isArray(parsed.clauses) ? parsed.clauses : []) {
+                const number = String(raw.number || '').match(/(?:52|252)\.\d{3}-\d{1,4}/)?.[0]
+                if (!number || clauses.has(number)) continue
+
+                const title = String(raw.title || KNOWN_CLAUSES[number]?.title || number)
+                clauses.set(number, {
+                    number,
+                    title,
+                    regulation: clauseRegulation(number),
+                    kind: raw.kind === 'provision' || raw.kind === 'clause' ? raw.kind : clauseKind(title),
+                    incorporation: raw.incorporation === 'full_text' ? 'full_text' : 'reference',
+                    date: raw.date ? String(raw.date) : undefined,
+                    alternate: raw.alternate ? String(raw.alternate) : undefined,
+                    fill_in: raw.fill_in ? String(raw.fill_in) : undefined,
+                })
+            }
+        }
+
+        // Deterministic sweep - anchors the clauses the LLM reported. Numbers only the sweep finds are
+        // mostly checklist entries (52.212-5), tables of contents and cross-references, so they are
+        // not added: set-aside, CMMC and subcontracting obligations come from incorporated clauses only
+        const mentions = findClauseMentions(rfpText)
+        let sweepOnly = 0
+        for (const mention of mentions) {
+            const existing = clauses.get(mention.number)
+            if (!existing) {
+                sweepOnly++
+                continue
+            }
+            if (document) {
+                existing.source = this.anchorOffset(document, mention.start, mention.start + mention.number.length)
+            }
+        }
+
+        if (sweepOnly > 0) {
+            logger.agentStep('agent_1', jobId, `Clause sweep skipped ${sweepOnly} number(s) the LLM did not report as incorporated`)
+        }
+
+        return [...clauses.values()]
+    }
+
+    // =========================================================================
+    // PASS 5: Key Personnel Qualifications
+    // =========================================================================
+
+    private async extractKeyPersonnel(
+        rfpText: string,
+        document: RfpDocument | undefined,
+        jobId: string
+    ): Promise<KeyPersonnelRequirement[]> {
+        // Qualifications sit in the SOW (C), special requirements (H), instructions (L)
+        // or a labor category attachment
+        const personnelText = this.sectionText(rfpText, document, s =>
+            (s.kind === 'section' && ['C', 'H', 'L'].includes(s.key)) ||
+            (s.kind === 'attachment' && /labor|personnel|categor|qualification/i.test(s.title))
+        )
+
+        const chunkSize = 100000
+        const positions: KeyPersonnelRequirement[] = []
+        const educationLevels: EducationLevel[] = ['high_school', 'associate', 'bachelor', 'master', 'doctorate']
+        const clearances: ClearanceLevel[] = ['None', 'Secret', 'Top Secret', 'TS/SCI']
+
+        for (let i = 0; i < personnelText.length; i += chunkSize) {
+            const response = await callClaude({
+                system: 'Return ONLY a valid JSON array. No markdown, no explanation.',
+                userPrompt: KEY_PERSONNEL_PROMPT + personnelText.substring(i, i + chunkSize),
+                maxTokens: 6000,
+                temperature: 0.1,
+                jobId,
+            })
+
+            for (const raw of this.parseObjectArray(response, 'key personnel')) {
+                const position = String(raw.position || '').trim()
+                // Chunks and repeated labor category tables list the same position twice
+                if (!position || positions.some(p => p.position.toLowerCase() === position.toLowerCase())) continue
+
+                const years = Number(raw.min_years_experience)
+                positions.push({
+                    position,
+                    key: raw.key === true,
+                    education: raw.education ? String(raw.education) : undefined,
+                    education_level: educationLevels.find(l => l === raw.education_level),
+                    min_years_experience: Number.isFinite(years) && years > 0 ? years : undefined,
+                    certifications: Array.isArray(raw.certifications) ? raw.certifications.map(String).filter(Boolean) : [],
+                    clearance: clearances.find(c => c === raw.clearance),
+                    other_qualifications: Array.isArray(raw.other_qualifications)
+                        ? raw.other_qualifications.map(String).filter(Boolean)
+                        : [],
+                })
+            }
+        }
+
+        return positions
+    }
+
+    // =========================================================================
+    // PASS 6: Deliverables and CDRL Schedule
+    // =========================================================================
+
+    private async extractDeliverables(
+        rfpText: string,
+        document: RfpDocument | undefined,
+        jobId: string
+    ): Promise<RfpDeliverable[]> {
+        // Deliverables are listed in Section F, the SOW/PWS (C) or a CDRL exhibit
+        const deliverableText = this.sectionText(rfpText, document, s =>
+            (s.kind === 'section' && ['C', 'F'].includes(s.key)) ||
+            (s.kind === 'attachment' && /cdrl|deliverable|1423|data requirement/i.test(s.title))
+        )
+
+        const chunkSize = 100000
+        const deliverables: RfpDeliverable[] = []
+        const optional = (value: unknown) => {
+            const text = value === null || value === undefined ? '' : String(value).trim()
+            return text && text.toLowerCase() !== 'null' ? text : undefined
+        }
+
+        for (let i = 0; i < deliverableText.length; i += chunkSize) {
+            const response = await callClaude({
+                system: 'Return ONLY a valid JSON array. No markdown, no explanation.',
+                userPrompt: DELIVERABLES_PROMPT + deliverableText.substring(i, i + chunkSize),
+                maxTokens: 6000,
+                temperature: 0.1,
+                jobId,
+            })
+
+            for (const raw of this.parseObjectArray(response, 'deliverables')) {
+                const name = String(raw.name || '').trim()
+                if (!name) continue
+
+                const cdrlNumber = optional(raw.cdrl_number)?.toUpperCase()
+                // Section F and the CDRL exhibit usually list the same item twice
+                const duplicate = deliverables.find(d =>
+                    (cdrlNumber && d.cdrl_number === cdrlNumber) || d.name.toLowerCase() === name.toLowerCase()
+                )
+                if (duplicate) {
+                    duplicate.cdrl_number = duplicate.cdrl_number || cdrlNumber
+                    duplicate.frequency = duplicate.frequency || optional(raw.frequency)
+                    duplicate.due_date = duplicate.due_date || optional(raw.due_date)
+                    duplicate.recipient = duplicate.recipient || optional(raw.recipient)
+                    continue
+                }
+
+                deliverables.push({
+                    id: `DEL-${String(deliverables.length + 1).padStart(3, '0')}`,
+                    name,
+                    cdrl_number: cdrlNumber,
+                    frequency: optional(raw.frequency),
+                    due_date: optional(raw.due_date),
+                    recipient: optional(raw.recipient),
+                    section: optional(raw.section),
+                })
+            }
+        }
+
+        return deliverables
+    }
+
+    /**
+     * Text of the detected sections that match, or the whole RFP when none were detected
+     */
+    private sectionText(
+        rfpText: string,
+        document: RfpDocument | undefined,
+        include: (section: RfpDocumentSection) => boolean
+    ): string {
+        const sections = (document?.sections || []).filter(include)
+        return sections.length > 0
+            ? sections.map(s => rfpText.substring(s.start, s.end)).join('\n\n')
+            : rfpText
+    }
+
+    /**
+     * Scan Section C and SOW/PWS attachments for obligation statements - Section L
+     * instructions, full-text clauses and H/K are not requirements to trace.
+     * Sections are scanned one by one so offsets stay relative to the whole text.
+     */
+    private scanWorkStatementObligations(rfpText: string, document: RfpDocument | undefined): ObligationStatement[] {
+        const sections = (document?.sections || []).filter(s => {
+            if (s.kind === 'section') return s.key === 'C'
+            const page = document?.pages[s.start_page - 1]
+            return /statement of (?:work|objectives)|performance work statement|\b(?:sow|pws|soo)\b/i.test(s.title) ||
+                (page !== undefined && document?.documents[page.document_index]?.role === 'sow')
+        })
+        if (sections.length === 0) return scanObligations(rfpText)
+
+        return sections.flatMap(section =>
+            scanObligations(rfpText.substring(section.start, section.end)).map(obligation => ({
+                ...obligation,
+                start: obligation.start + section.start,
+                end: obligation.end + section.start,
+            }))
+        )
+    }
+
+    private anchorOffset(document: RfpDocument, start: number, end: number): RfpSourceAnchor {
+        const page = pageForOffset(document.pages, start)
+        const sourcePage = document.pages[page - 1]
+
+        return {
+            page,
+            start,
+            end,
+            section: sectionForOffset(document.sections, start)?.key,
+            document: sourcePage ? document.documents[sourcePage.document_index]?.file_name : undefined,
+            document_page: sourcePage?.document_page,
+        }
+    }
+
     // =========================================================================
     // PARSING HELPERS
     // =========================================================================
@@ -510,6 +1190,37 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
         }
     }
 
+    private parseObjectArray(response: string, context: string): Array<Record<string, unknown>> {
+        let cleaned = response.trim()
+
+        if (cleaned.startsWith('```')) {
+            cleaned = cleaned.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
+        }
+
+        if (!cleaned.startsWith('[')) {
+            const arrayStart = cleaned.indexOf('[')
+            if (arrayStart !== -1) {
+                cleaned = cleaned.substring(arrayStart)
+            }
+        }
+
+        let parsed: unknown
+        try {
+            parsed = JSON.parse(cleaned)
+        } catch {
+            try {
+                parsed = JSON.parse(this.repairJson(cleaned))
+            } catch {
+                logger.warn(`Failed to parse ${context} array`)
+                return []
+            }
+        }
+
+        return Array.isArray(parsed)
+            ? parsed.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+            : []
+    }
+
     private repairJson(json: string): string {
         let repaired = json.trim()
         repaired = repaired.replace(/,\s*$/, '')
@@ -551,6 +1262,95 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
         }))
     }
 
+    /**
+     * Normalize the Section L format instructions - list fields keep only the
+     * values the format profile understands
+     */
+    private parseFormat(raw: Record<string, unknown> | undefined): SectionLFormat {
+        const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined
+        const list = <T extends string>(value: unknown, allowed: T[]): T[] | undefined =>
+            Array.isArray(value) ? allowed.filter(item => value.includes(item)) : undefined
+
+        return {
+            font: text(raw?.font) || 'Times New Roman',
+            font_size: text(raw?.font_size) || '12pt',
+            margins: text(raw?.margins) || '1 inch',
+            spacing: text(raw?.spacing) || 'Single',
+            page_size: text(raw?.page_size),
+            header: list(raw?.header, HEADER_FOOTER_ITEMS),
+            footer: list(raw?.footer, HEADER_FOOTER_ITEMS),
+            page_numbering: PAGE_NUMBERING_STYLES.find(s => s === raw?.page_numbering),
+            min_table_font_size: text(raw?.min_table_font_size),
+            excluded_pages: list(raw?.excluded_pages, EXCLUDED_PAGES),
+        }
+    }
+
+    /**
+     * Keep naming patterns only when they use the supported placeholders
+     */
+    private parseSubmissionNaming(raw: Record<string, unknown> | null | undefined): SubmissionNaming | undefined {
+        const pattern = (value: unknown) => {
+            if (typeof value !== 'string' || !value.trim()) return undefined
+            const placeholders = value.match(/\{(\w+)\}/g) || []
+            const supported = placeholders.every(p => /^\{(?:offeror|solicitation|volume|volume_number|volume_name)\}$/.test(p))
+            return supported ? value.trim().replace(/\.(?:pdf|docx|zip)$/i, '') : undefined
+        }
+
+        const naming: SubmissionNaming = {
+            instruction: typeof raw?.instruction === 'string' && raw.instruction.trim() ? raw.instruction.trim() : undefined,
+            file_pattern: pattern(raw?.file_pattern),
+            package_pattern: pattern(raw?.package_pattern),
+        }
+        return naming.instruction || naming.file_pattern || naming.package_pattern ? naming : undefined
+    }
+
+    /**
+     * Normalize the Section M methodology, detecting the award basis from the
+     * full text when the LLM (which only sees the opening of the RFP) missed it
+     */
+    private parseMethodology(raw: Record<string, unknown> | undefined, rfpText: string): EvaluationMethodology {
+        const bases: AwardBasis[] = ['lpta', 'best_value_tradeoff', 'highest_technically_rated']
+        const awardBasis = bases.find(b => b === raw?.award_basis) || detectAwardBasis(rfpText)
+
+        const statements = Array.isArray(raw?.relative_importance) ? raw.relative_importance.map(String).filter(Boolean) : []
+        const relativeImportance: RelativeImportance[] = statements.map(statement => {
+            // "A is (significantly) more important than B"
+            const match = statement.match(/^(?:the\s+)?(.+?)\s+(?:is|are)\s+.*?more important than\s+(?:the\s+)?(.+?)\.?$/i)
+            return {
+                statement,
+                more_important: match?.[1],
+                less_important: match?.[2],
+                degree: importanceDegree(statement),
+            }
+        })
+
+        const nonPrice = ['significantly_more_important', 'more_important', 'approximately_equal', 'less_important']
+        const scheme = raw?.rating_scheme as { kind?: string; ratings?: Array<Record<string, unknown>> } | null | undefined
+        const schemeKinds = ['adjectival', 'color', 'acceptable_unacceptable', 'numerical']
+        const ratings = Array.isArray(scheme?.ratings)
+            ? scheme.ratings
+                .map(r => ({ rating: String(r.rating || ''), description: String(r.description || '') }))
+                .filter(r => r.rating)
+            : []
+
+        return {
+            award_basis: awardBasis,
+            basis_statement: raw?.basis_statement ? String(raw.basis_statement) : undefined,
+            relative_importance: relativeImportance,
+            non_price_vs_price: nonPrice.includes(String(raw?.non_price_vs_price))
+                ? raw?.non_price_vs_price as EvaluationMethodology['non_price_vs_price']
+                : undefined,
+            rating_scheme: ratings.length > 0
+                ? {
+                    kind: schemeKinds.includes(String(scheme?.kind))
+                        ? scheme?.kind as NonNullable<EvaluationMethodology['rating_scheme']>['kind']
+                        : awardBasis === 'lpta' ? 'acceptable_unacceptable' : 'adjectival',
+                    ratings,
+                }
+                : undefined,
+        }
+    }
+
     /**
      * Simple text similarity check (Jaccard similarity on words)
      */
@@ -564,6 +1364,22 @@ export class Agent1RfpParser implements Agent<AgentContext, Agent1Output> {
         return intersection.size / union.size
     }
 
+    private wordSet(text: string): Set<string> {
+        return new Set(text.toLowerCase().replace(/[^\w\s]/g, ' ').split(/\s+/).filter(Boolean))
+    }
+
+    /**
+     * Share of `words` that also appear in `container`
+     */
+    private wordCoverage(words: Set<string>, container: Set<string>): number {
+        if (words.size === 0) return 1
+        let found = 0
+        for (const word of words) {
+            if (container.has(word)) found++
+        }
+        return found / words.size
+    }
+
     private async updateAgentStatus(
         jobId: string,
         status: 'running' | 'complete' | 'failed',
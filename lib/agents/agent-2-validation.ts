@@ -8,7 +8,9 @@
  * 1. Query Supabase for all required client data
  * 2. Validate data completeness against RFP requirements
  * 3. Flag placeholders, expired certs, unverifiable claims
- * 4. Generate validation report with BLOCKERS and WARNINGS
+ * 4. Check clause-driven obligations (CMMC, set-aside status, subcontracting limits)
+ * 5. Match personnel to the RFP's key positions (handed to the management writer)
+ * 6. Generate validation report with BLOCKERS and WARNINGS
  */
 
 import { supabase } from '../supabase'
@@ -25,7 +27,18 @@ import {
     ValidationReportItem,
     ValidationStatus,
     RfpParsedData,
+    KeyPersonnelAssignment,
 } from '../database.types'
+import { matchKeyPersonnel } from '../personnel-matcher'
+import {
+    SERVICES_SUBCONTRACTING_LIMIT,
+    clausesWithObligation,
+    cmmcRank,
+    holdsStatus,
+    isSimilarlySituated,
+    requiredCmmcLevel,
+    requiredSetAsides,
+} from '../far-clauses'
 
 // Placeholder patterns to detect
 const PLACEHOLDER_PATTERNS = [
@@ -110,6 +123,12 @@ export class Agent2Validation implements Agent<AgentContext, Agent2Output> {
             // Validate labor rates
             this.validateLaborRates(companyData, blockers, warnings)
 
+            // Validate clause-driven obligations (FAR/DFARS)
+            this.validateClauseObligations(companyData, context.rfpParsedData, blockers, warnings, recommendations)
+
+            // Propose the best person for each key position
+            const keyPersonnelAssignments = this.validateKeyPersonnel(companyData, context.rfpParsedData, blockers, warnings, recommendations)
+
             // Determine overall status
             let status: ValidationStatus = 'approved'
             if (blockers.length > 0) {
@@ -123,6 +142,7 @@ export class Agent2Validation implements Agent<AgentContext, Agent2Output> {
                 blockers,
                 warnings,
                 recommendations,
+                key_personnel_assignments: keyPersonnelAssignments,
                 generated_at: new Date().toISOString(),
             }
 
@@ -206,6 +226,14 @@ export class Agent2Validation implements Agent<AgentContext, Agent2Output> {
             (supabase.from('labor_rates') as any).select('*').eq('company_id', companyId),
         ])
 
+        // Latest intake carries certifications, CMMC level and subcontractors for clause checks
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const intakeResult = await (supabase.from('client_intake') as any)
+            .select('*')
+            .eq('company_id', companyId)
+            .order('created_at', { ascending: false })
+            .limit(1)
+
         if (companyResult.error || !companyResult.data) {
             throw new Error(`Company not found: ${companyResult.error?.message}`)
         }
@@ -215,6 +243,7 @@ export class Agent2Validation implements Agent<AgentContext, Agent2Output> {
             pastPerformance: ppResult.data || [],
             personnel: personnelResult.data || [],
             laborRates: ratesResult.data || [],
+            intake: intakeResult.data?.[0] || null,
         }
     }
 
@@ -367,8 +396,9 @@ export class Agent2Validation implements Agent<AgentContext, Agent2Output> {
                 fix_path: `/intake/${company.id}#section-4`,
             })
         } else {
-            // Check PM years of experience (often requires 10+)
-            if (pm.years_experience < 10) {
+            // Check PM years of experience (often requires 10+) - extracted key
+            // personnel qualifications are checked precisely by validateKeyPersonnel
+            if (pm.years_experience < 10 && !rfpData?.key_personnel?.length) {
                 const requiresPM10 = rfpData?.section_c.requirements.some(r =>
                     r.text.toLowerCase().includes('program manager') &&
                     (r.text.includes('10') || r.text.includes('ten'))
@@ -447,6 +477,167 @@ export class Agent2Validation implements Agent<AgentContext, Agent2Output> {
         })
     }
 
+    /**
+     * Match personnel to the RFP's key positions and report unmet qualifications.
+     * Unmet qualifications block key positions (resumes are evaluated against them);
+     * for other labor categories they are warnings.
+     */
+    private validateKeyPersonnel(
+        data: NormalizedCompanyData,
+        rfpData: RfpParsedData | undefined,
+        blockers: ValidationReportItem[],
+        warnings: ValidationReportItem[],
+        recommendations: ValidationReportItem[]
+    ): KeyPersonnelAssignment[] | undefined {
+        const positions = rfpData?.key_personnel || []
+        if (positions.length === 0) return undefined
+
+        const { company } = data
+        const assignments = matchKeyPersonnel(positions, data.personnel)
+
+        assignments.forEach((assignment, index) => {
+            const who = assignment.name ? `${assignment.name} (proposed ${assignment.position})` : assignment.position
+
+            if (assignment.unmet.length > 0) {
+                const item: ValidationReportItem = {
+                    type: assignment.key ? 'blocker' : 'warning',
+                    field: `key_personnel[${index}]`,
+                    message: `${who} does not meet: ${assignment.unmet.join('; ')}`,
+                    fix_path: `/intake/${company.id}#section-4`,
+                }
+                if (assignment.key) blockers.push(item)
+                else warnings.push(item)
+            }
+
+            if (assignment.unverified.length > 0) {
+                (assignment.key ? warnings : recommendations).push({
+                    type: assignment.key ? 'warning' : 'recommendation',
+                    field: `key_personnel[${index}]`,
+                    message: `Confirm ${who} meets: ${assignment.unverified.join('; ')}`,
+                    fix_path: `/intake/${company.id}#section-4`,
+                })
+            }
+        })
+
+        return assignments
+    }
+
+    /**
+     * Check company data against the obligations created by the RFP's FAR/DFARS clauses
+     */
+    private validateClauseObligations(
+        data: NormalizedCompanyData,
+        rfpData: RfpParsedData | undefined,
+        blockers: ValidationReportItem[],
+        warnings: ValidationReportItem[],
+        recommendations: ValidationReportItem[]
+    ): void {
+        const clauses = rfpData?.clauses || []
+        if (clauses.length === 0) return
+
+        const { company, intake } = data
+        const now = new Date()
+
+        // Set-aside status (52.219-6, 52.219-27, 52.219-18, ...)
+        const setAsides = requiredSetAsides(clauses)
+        for (const { status, clause } of setAsides) {
+            const certification = (intake?.set_aside_certifications || []).find(c => holdsStatus(c.type, status))
+            const claimed = certification ||
+                [...(company.certifications || []), ...(company.business_type || [])].some(c => holdsStatus(c, status))
+
+            if (!claimed) {
+                blockers.push({
+                    type: 'blocker',
+                    field: 'client_intake.set_aside_certifications',
+                    message: `FAR ${clause} restricts award to ${status} concerns - no ${status} status on file`,
+                    fix_path: `/intake/${company.id}#section-1`,
+                })
+            } else if (certification?.expiration_date && new Date(certification.expiration_date) < now) {
+                blockers.push({
+                    type: 'blocker',
+                    field: 'client_intake.set_aside_certifications',
+                    message: `${status} certification required by FAR ${clause} expired on ${certification.expiration_date}`,
+                    fix_path: `/intake/${company.id}#section-1`,
+                })
+            }
+        }
+
+        // CMMC level (DFARS 252.204-7021 / -7025, or a level stated in the RFP)
+        const requirementText = [
+            ...(rfpData?.section_c.requirements || []).map(r => r.text),
+            ...(rfpData?.disqualifying_requirements || []),
+        ].join('\n')
+        const cmmcRequired = clausesWithObligation(clauses, 'cmmc').length > 0
+            ? requiredCmmcLevel(clauses, requirementText)
+            : null
+
+        if (cmmcRequired) {
+            if (!intake) {
+                warnings.push({
+                    type: 'warning',
+                    field: 'client_intake.cmmc_level',
+                    message: `RFP requires CMMC ${cmmcRequired} - complete the intake security section to verify`,
+                    fix_path: `/intake/${company.id}#section-2`,
+                })
+            } else if (cmmcRank(intake.cmmc_level) < cmmcRank(cmmcRequired)) {
+                blockers.push({
+                    type: 'blocker',
+                    field: 'client_intake.cmmc_level',
+                    message: `RFP requires CMMC ${cmmcRequired} (DFARS 252.204-7021) - company holds ${intake.cmmc_level || 'no CMMC certification'}`,
+                    fix_path: `/intake/${company.id}#section-2`,
+                })
+            } else if (intake.cmmc_expiration && new Date(intake.cmmc_expiration) < now) {
+                blockers.push({
+                    type: 'blocker',
+                    field: 'client_intake.cmmc_expiration',
+                    message: `CMMC certification required by DFARS 252.204-7021 expired on ${intake.cmmc_expiration}`,
+                    fix_path: `/intake/${company.id}#section-2`,
+                })
+            }
+        } else if (clausesWithObligation(clauses, 'nist_800_171').length > 0 && cmmcRank(intake?.cmmc_level) < 2) {
+            // DFARS 252.204-7012 alone still requires NIST SP 800-171 safeguarding
+            warnings.push({
+                type: 'warning',
+                field: 'client_intake.cmmc_level',
+                message: 'DFARS 252.204-7012 requires NIST SP 800-171 safeguarding - no CMMC Level 2 posture on file',
+                fix_path: `/intake/${company.id}#section-2`,
+            })
+        }
+
+        if (clausesWithObligation(clauses, 'sprs_assessment').length > 0) {
+            recommendations.push({
+                type: 'recommendation',
+                field: 'client_intake.cmmc_level',
+                message: 'DFARS 252.204-7019/7020: confirm a current (within 3 years) NIST SP 800-171 assessment score is posted in SPRS',
+            })
+        }
+
+        // Limitations on Subcontracting (52.219-14) - share paid to non-similarly-situated subcontractors
+        if (clausesWithObligation(clauses, 'limitations_on_subcontracting').length > 0) {
+            const statuses = setAsides.map(s => s.status)
+            const subcontractors = intake?.subcontractors || []
+            const outsideShare = subcontractors
+                .filter(sub => !isSimilarlySituated(sub.small_business_status, statuses))
+                .reduce((sum, sub) => sum + (sub.percentage_of_value || 0), 0)
+
+            if (outsideShare > SERVICES_SUBCONTRACTING_LIMIT) {
+                blockers.push({
+                    type: 'blocker',
+                    field: 'client_intake.subcontractors',
+                    message: `${outsideShare}% of contract value goes to non-similarly-situated subcontractors (FAR 52.219-14 limit: ${SERVICES_SUBCONTRACTING_LIMIT}%)`,
+                    fix_path: `/intake/${company.id}#section-7`,
+                })
+            } else if (outsideShare > SERVICES_SUBCONTRACTING_LIMIT - 10) {
+                warnings.push({
+                    type: 'warning',
+                    field: 'client_intake.subcontractors',
+                    message: `${outsideShare}% of contract value goes to non-similarly-situated subcontractors - close to the FAR 52.219-14 limit of ${SERVICES_SUBCONTRACTING_LIMIT}%`,
+                    fix_path: `/intake/${company.id}#section-7`,
+                })
+            }
+        }
+    }
+
     private isPlaceholder(value: string | null | undefined): boolean {
         if (!value) return false
         return PLACEHOLDER_PATTERNS.some(pattern => pattern.test(value))
@@ -1,12 +1,13 @@
 /**
  * Agent 3: Content Architect & Mapper
  * 
- * PRIMARY MISSION: Generate compliance matrix and detailed outlines for all 4 
- * volumes, mapping every requirement to a proposal location.
+ * PRIMARY MISSION: Generate compliance matrix and detailed outlines for every
+ * volume Section L asks for, mapping every requirement to a proposal location.
  * 
  * STRATEGY: Multi-pass approach to avoid truncation:
  * Pass 1: Volume outlines (structure without full compliance matrix)
  * Pass 2: Compliance matrix mapping (chunked for many requirements)
+ * Pass 3: Deliverables / CDRL items mapped to the management volume
  */
 
 import { supabase } from '../supabase'
@@ -18,7 +19,18 @@ import {
     AgentContext,
     Agent3Output,
 } from './types'
-import { ContentOutlines, VolumeOutline, SectionOutline, RfpRequirement } from '../database.types'
+import {
+    ContentOutlines,
+    ProposalVolume,
+    RfpDeliverable,
+    RfpRequirement,
+    SectionOutline,
+    VolumeOutline,
+    VolumeWriterKind,
+} from '../database.types'
+import { DEFAULT_VOLUME_STRUCTURE, resolveVolumeStructure, toRoman, volumeOutlineKey } from '../volume-structure'
+
+type VolumeOutlines = Omit<ContentOutlines, 'compliance_matrix'>
 
 // =============================================================================
 // PROMPTS
@@ -26,21 +38,20 @@ import { ContentOutlines, VolumeOutline, SectionOutline, RfpRequirement } from '
 
 const VOLUME_OUTLINE_PROMPT = `You are an expert federal proposal architect. Create volume outlines for a government proposal.
 
-PAGE LIMITS:
-- Volume I (Technical): {vol1_limit} pages
-- Volume II (Management): {vol2_limit} pages  
-- Volume III (Past Performance): {vol3_limit} pages
-- Volume IV (Price): No limit
+VOLUMES REQUIRED BY SECTION L:
+{volumes}
 
 EVALUATION FACTORS:
 {eval_factors}
 
-Return ONLY valid JSON:
+Return ONLY valid JSON with one key per volume above ("volume_1", "volume_2", ...).
+Each volume's sections must cover everything Section L says the volume must contain.
+Use page_limit 0 for volumes without a page limit.
 {
   "volume_1": {
     "volume_number": 1,
     "volume_name": "Technical Approach",
-    "page_limit": {vol1_limit},
+    "page_limit": 50,
     "page_allocated": 45,
     "sections": [
       {"title": "Executive Summary", "page_allocation": 2, "requirements_addressed": []},
@@ -50,29 +61,16 @@ Return ONLY valid JSON:
       ]}
     ]
   },
-  "volume_2": {
-    "volume_number": 2,
-    "volume_name": "Management Approach",
-    "page_limit": {vol2_limit},
-    "page_allocated": 28,
-    "sections": [...]
-  },
-  "volume_3": {
-    "volume_number": 3,
-    "volume_name": "Past Performance",
-    "page_limit": {vol3_limit},
-    "page_allocated": 23,
-    "sections": [...]
-  },
-  "volume_4": {
-    "volume_number": 4,
-    "volume_name": "Price Proposal",
-    "page_limit": 0,
-    "page_allocated": 15,
-    "sections": [...]
-  }
+  "volume_2": {...}
 }`
 
+// Outline sections that can host the deliverables schedule, best fit first
+const DELIVERABLE_SECTIONS = [
+    /deliverable|cdrl|report/i,
+    /program management|project management|management approach|management plan/i,
+    /schedule|quality/i,
+]
+
 const COMPLIANCE_MAPPING_PROMPT = `Map these requirements to proposal sections. For each requirement, identify which volume and section will address it.
 
 VOLUME STRUCTURE:
@@ -123,7 +121,7 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
             await this.updateAgentStatus(context.jobId, 'running')
 
             const rfpData = context.rfpParsedData!
-            const pageLimits = context.volumePageLimits || rfpData.section_l.page_limits
+            const structure = resolveVolumeStructure(context.volumeStructure)
             const requirements = rfpData.section_c.requirements
 
             logger.agentStep('agent_3', context.jobId, 'RFP data received', {
@@ -136,14 +134,11 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
             // ================================================================
             logger.agentStep('agent_3', context.jobId, 'Pass 1: Generating volume outlines')
             
-            const volumeOutlines = await this.generateVolumeOutlines(rfpData, pageLimits, context.jobId)
+            const volumeOutlines = await this.generateVolumeOutlines(rfpData, structure, context.jobId)
             
-            logger.agentStep('agent_3', context.jobId, 'Volume outlines created', {
-                vol1Sections: volumeOutlines.volume_1.sections.length,
-                vol2Sections: volumeOutlines.volume_2.sections.length,
-                vol3Sections: volumeOutlines.volume_3.sections.length,
-                vol4Sections: volumeOutlines.volume_4.sections.length,
-            })
+            logger.agentStep('agent_3', context.jobId, 'Volume outlines created', Object.fromEntries(
+                structure.map(v => [`vol${v.number}Sections`, volumeOutlines[volumeOutlineKey(v.number)].sections.length])
+            ))
 
             // ================================================================
             // PASS 2: Map requirements to compliance matrix (chunked)
@@ -153,6 +148,7 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
             const complianceMatrix = await this.generateComplianceMatrix(
                 requirements, 
                 volumeOutlines, 
+                structure,
                 context.jobId
             )
             
@@ -161,6 +157,20 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
                 total: requirements.length,
             })
 
+            // ================================================================
+            // PASS 3: Map deliverables to the management volume
+            // ================================================================
+            const deliverables = rfpData.deliverables || []
+            if (deliverables.length > 0) {
+                const deliverableMappings = this.mapDeliverables(deliverables, volumeOutlines, structure)
+                complianceMatrix.push(...deliverableMappings)
+
+                logger.agentStep('agent_3', context.jobId, 'Deliverables mapped', {
+                    deliverables: deliverableMappings.length,
+                    section: deliverableMappings[0]?.section,
+                })
+            }
+
             // Combine into final structure
             const contentOutlines: ContentOutlines = {
                 ...volumeOutlines,
@@ -168,7 +178,7 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
             }
 
             // Calculate page allocations
-            const pageAllocations = this.calculatePageAllocations(contentOutlines, pageLimits)
+            const pageAllocations = this.calculatePageAllocations(contentOutlines, structure)
 
             // Find unmapped requirements
             const mappedIds = new Set(complianceMatrix.map(item => item.req_id))
@@ -204,10 +214,10 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
             if (error) throw new Error(`Failed to save content outlines: ${error.message}`)
 
             logger.agentStep('agent_3', context.jobId, 'Content mapping complete', {
-                vol1Pages: `${pageAllocations.volume1}/${pageLimits.volume_1_technical}`,
-                vol2Pages: `${pageAllocations.volume2}/${pageLimits.volume_2_management}`,
-                vol3Pages: `${pageAllocations.volume3}/${pageLimits.volume_3_past_performance}`,
-                vol4Pages: pageAllocations.volume4,
+                ...Object.fromEntries(structure.map(v => [
+                    `vol${v.number}Pages`,
+                    `${pageAllocations[`volume${v.number}`]}/${v.page_limit ?? 'no limit'}`,
+                ])),
                 matrixItems: complianceMatrix.length,
             })
 
@@ -231,35 +241,42 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
 
     private async generateVolumeOutlines(
         rfpData: import('../database.types').RfpParsedData,
-        pageLimits: import('../database.types').VolumePageLimits,
+        structure: ProposalVolume[],
         jobId: string
-    ): Promise<Omit<ContentOutlines, 'compliance_matrix'>> {
+    ): Promise<VolumeOutlines> {
         const evalFactors = rfpData.section_m.factors
             .map(f => `- ${f.name}: ${f.weight}`)
             .join('\n')
 
+        const volumes = structure
+            .map(v => {
+                const limit = v.page_limit !== null ? `${v.page_limit} pages` : 'No limit'
+                const contents = v.required_contents.length > 0 ? `\n  Must contain: ${v.required_contents.join('; ')}` : ''
+                const factors = v.eval_factors.length > 0 ? `\n  Evaluated under: ${v.eval_factors.join(', ')}` : ''
+                return `- ${volumeOutlineKey(v.number)}: Volume ${toRoman(v.number)} (${v.name}), ${limit}${contents}${factors}`
+            })
+            .join('\n')
+
         const prompt = VOLUME_OUTLINE_PROMPT
-            .replace(/{vol1_limit}/g, String(pageLimits.volume_1_technical))
-            .replace(/{vol2_limit}/g, String(pageLimits.volume_2_management))
-            .replace(/{vol3_limit}/g, String(pageLimits.volume_3_past_performance))
+            .replace('{volumes}', volumes)
             .replace('{eval_factors}', evalFactors)
 
         const response = await callClaude({
             system: 'Return ONLY valid JSON. No markdown, no explanation.',
             userPrompt: prompt,
-            maxTokens: 8000,
+            maxTokens: Math.min(16000, 2000 * structure.length + 2000),
             temperature: 0.2,
             jobId,
         })
 
         const parsed = this.parseJson(response)
-        
-        return {
-            volume_1: this.normalizeVolumeOutline(parsed.volume_1, 1, 'Technical Approach', pageLimits.volume_1_technical),
-            volume_2: this.normalizeVolumeOutline(parsed.volume_2, 2, 'Management Approach', pageLimits.volume_2_management),
-            volume_3: this.normalizeVolumeOutline(parsed.volume_3, 3, 'Past Performance', pageLimits.volume_3_past_performance),
-            volume_4: this.normalizeVolumeOutline(parsed.volume_4, 4, 'Price Proposal', 0),
+
+        const outlines: VolumeOutlines = {}
+        for (const volume of structure) {
+            const key = volumeOutlineKey(volume.number)
+            outlines[key] = this.normalizeVolumeOutline(parsed[key], volume)
         }
+        return outlines
     }
 
     // =========================================================================
@@ -268,14 +285,15 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
 
     private async generateComplianceMatrix(
         requirements: RfpRequirement[],
-        volumeOutlines: Omit<ContentOutlines, 'compliance_matrix'>,
+        volumeOutlines: VolumeOutlines,
+        structure: ProposalVolume[],
         jobId: string
     ): Promise<ContentOutlines['compliance_matrix']> {
         const allMappings: ContentOutlines['compliance_matrix'] = []
         const chunkSize = 30 // Requirements per chunk
         
         // Summarize volume structure for context
-        const volumeStructure = this.summarizeVolumeStructure(volumeOutlines)
+        const volumeStructure = this.summarizeVolumeStructure(volumeOutlines, structure)
         
         // Process in chunks
         for (let i = 0; i < requirements.length; i += chunkSize) {
@@ -301,13 +319,57 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
                 jobId,
             })
 
-            const chunkMappings = this.parseComplianceArray(response, chunk)
+            const chunkMappings = this.parseComplianceArray(response, chunk, structure)
             allMappings.push(...chunkMappings)
         }
 
         return allMappings
     }
 
+    // =========================================================================
+    // PASS 3: Deliverables
+    // =========================================================================
+
+    /**
+     * Map every deliverable to one management section - the outline section records the
+     * DEL ids so the writer addresses them, the matrix traces each one to its location
+     */
+    private mapDeliverables(
+        deliverables: RfpDeliverable[],
+        volumeOutlines: VolumeOutlines,
+        structure: ProposalVolume[]
+    ): ContentOutlines['compliance_matrix'] {
+        const volume = structure.find(v => v.writer === 'management') || structure[0] || DEFAULT_VOLUME_STRUCTURE[1]
+        const sections = volumeOutlines[volumeOutlineKey(volume.number)]?.sections || []
+
+        const section = DELIVERABLE_SECTIONS
+            .map(pattern => sections.find(s => pattern.test(s.title)))
+            .find(Boolean) || sections[0]
+
+        if (section) {
+            const addressed = new Set(section.requirements_addressed)
+            deliverables.forEach(d => addressed.add(d.id))
+            section.requirements_addressed = [...addressed]
+        }
+
+        return deliverables.map(d => ({
+            req_id: d.id,
+            requirement: [d.cdrl_number ? `CDRL ${d.cdrl_number}` : '', d.name].filter(Boolean).join(' ').substring(0, 200),
+            mandatory: true,
+            eval_factor: 'Management',
+            volume: volume.number,
+            section: section?.title || 'TBD',
+            page_range: 'TBD',
+            status: 'pending' as const,
+            evidence: [
+                d.frequency,
+                d.due_date ? `due ${d.due_date}` : '',
+                d.recipient ? `to ${d.recipient}` : '',
+                d.section ? `(${d.section})` : '',
+            ].filter(Boolean).join(', '),
+        }))
+    }
+
     // =========================================================================
     // PARSING HELPERS
     // =========================================================================
@@ -333,7 +395,8 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
 
     private parseComplianceArray(
         response: string, 
-        sourceRequirements: RfpRequirement[]
+        sourceRequirements: RfpRequirement[],
+        structure: ProposalVolume[]
     ): ContentOutlines['compliance_matrix'] {
         let cleaned = response.trim()
         if (cleaned.startsWith('```')) {
@@ -349,14 +412,14 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
         try {
             const parsed = JSON.parse(cleaned)
             if (!Array.isArray(parsed)) throw new Error('Not an array')
-            return this.normalizeComplianceItems(parsed)
+            return this.normalizeComplianceItems(parsed, structure)
         } catch {
             // Try repair
             const repaired = this.repairJson(cleaned)
             try {
                 const parsed = JSON.parse(repaired)
                 if (!Array.isArray(parsed)) throw new Error('Not an array')
-                return this.normalizeComplianceItems(parsed)
+                return this.normalizeComplianceItems(parsed, structure)
             } catch {
                 // Fall back: create basic mappings from source requirements
                 logger.warn('Compliance parsing failed, creating basic mappings')
@@ -365,7 +428,7 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
                     requirement: r.text.substring(0, 200),
                     mandatory: r.mandatory,
                     eval_factor: r.eval_factor || 'Technical',
-                    volume: this.guessVolume(r),
+                    volume: this.guessVolume(r, structure),
                     section: 'TBD',
                     page_range: 'TBD',
                     status: 'pending' as const,
@@ -375,15 +438,17 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
         }
     }
 
-    private normalizeComplianceItems(items: unknown[]): ContentOutlines['compliance_matrix'] {
+    private normalizeComplianceItems(items: unknown[], structure: ProposalVolume[]): ContentOutlines['compliance_matrix'] {
+        const volumeNumbers = new Set(structure.map(v => v.number))
         return items.map((item: unknown) => {
             const i = item as Record<string, unknown>
+            const volume = Number(i.volume)
             return {
                 req_id: String(i.req_id || 'UNKNOWN'),
                 requirement: String(i.requirement || ''),
                 mandatory: Boolean(i.mandatory),
                 eval_factor: String(i.eval_factor || ''),
-                volume: Number(i.volume) || 1,
+                volume: volumeNumbers.has(volume) ? volume : structure[0]?.number || 1,
                 section: String(i.section || 'TBD'),
                 page_range: String(i.page_range || 'TBD'),
                 status: 'pending' as const,
@@ -417,19 +482,14 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
         return repaired
     }
 
-    private normalizeVolumeOutline(
-        data: unknown,
-        volumeNumber: number,
-        defaultName: string,
-        pageLimit: number
-    ): VolumeOutline {
+    private normalizeVolumeOutline(data: unknown, volume: ProposalVolume): VolumeOutline {
         const d = data as Record<string, unknown> | undefined
         return {
-            volume_number: volumeNumber,
-            volume_name: String(d?.volume_name || defaultName),
-            page_limit: Number(d?.page_limit) || pageLimit,
+            volume_number: volume.number,
+            volume_name: String(d?.volume_name || volume.name),
+            page_limit: Number(d?.page_limit) || volume.page_limit || 0,
             page_allocated: Number(d?.page_allocated) || 0,
-            sections: this.normalizeSections(d?.sections),
+            sections: Array.isArray(d?.sections) ? this.normalizeSections(d.sections) : this.getDefaultSections(volume),
         }
     }
 
@@ -448,7 +508,13 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
         })
     }
 
-    private getDefaultSections(): SectionOutline[] {
+    private getDefaultSections(volume?: ProposalVolume): SectionOutline[] {
+        // Section L's required contents make a better skeleton than a generic one
+        if (volume && volume.required_contents.length > 0) {
+            const pages = volume.page_limit ? Math.max(1, Math.floor(volume.page_limit / volume.required_contents.length)) : 3
+            return volume.required_contents.map(title => ({ title, page_allocation: pages, requirements_addressed: [] }))
+        }
+
         return [
             { title: 'Executive Summary', page_allocation: 2, requirements_addressed: [] },
             { title: 'Technical Approach', page_allocation: 20, requirements_addressed: [] },
@@ -456,28 +522,43 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
         ]
     }
 
-    private summarizeVolumeStructure(outlines: Omit<ContentOutlines, 'compliance_matrix'>): string {
+    private summarizeVolumeStructure(outlines: VolumeOutlines, structure: ProposalVolume[]): string {
         const summarize = (vol: VolumeOutline): string => {
             const sections = vol.sections.map(s => `  - ${s.title} (${s.page_allocation} pages)`).join('\n')
             return `Volume ${vol.volume_number}: ${vol.volume_name}\n${sections}`
         }
-        return [outlines.volume_1, outlines.volume_2, outlines.volume_3, outlines.volume_4]
-            .map(summarize)
+        return structure
+            .map(v => summarize(outlines[volumeOutlineKey(v.number)]))
             .join('\n\n')
     }
 
-    private guessVolume(req: RfpRequirement): number {
+    /**
+     * Keyword-based volume placement (also used for requirements added by amendments)
+     */
+    guessVolume(req: RfpRequirement, structure: ProposalVolume[] = DEFAULT_VOLUME_STRUCTURE): number {
         const text = (req.text + ' ' + (req.eval_factor || '')).toLowerCase()
-        if (text.includes('past performance') || text.includes('reference')) return 3
-        if (text.includes('price') || text.includes('cost') || text.includes('rate')) return 4
-        if (text.includes('management') || text.includes('staffing') || text.includes('organization')) return 2
-        return 1 // Default to technical
+        const factor = (req.eval_factor || '').toLowerCase()
+
+        // Volumes Section L ties to the requirement's evaluation factor, or named in its text
+        const dedicated = structure.find(v =>
+            (factor && v.eval_factors.some(f => f.toLowerCase() === factor)) ||
+            (v.writer === 'narrative' && text.includes(v.name.toLowerCase().replace(/\bvolume\b/g, '').trim()))
+        )
+        if (dedicated) return dedicated.number
+
+        const byWriter = (writer: VolumeWriterKind) => structure.find(v => v.writer === writer)?.number
+        const fallback = byWriter('technical') ?? structure[0]?.number ?? 1
+
+        if (text.includes('past performance') || text.includes('reference')) return byWriter('past_performance') ?? fallback
+        if (text.includes('price') || text.includes('cost') || text.includes('rate')) return byWriter('price') ?? fallback
+        if (text.includes('management') || text.includes('staffing') || text.includes('organization')) return byWriter('management') ?? fallback
+        return fallback // Default to technical
     }
 
     private calculatePageAllocations(
         outlines: ContentOutlines,
-        limits: import('../database.types').VolumePageLimits
-    ): { volume1: number; volume2: number; volume3: number; volume4: number } {
+        structure: ProposalVolume[]
+    ): Record<string, number> {
         const calc = (sections: SectionOutline[]): number => {
             return sections.reduce((sum, s) => {
                 const sub = s.subsections ? calc(s.subsections) : 0
@@ -485,23 +566,18 @@ export class Agent3ContentMapper implements Agent<AgentContext, Agent3Output> {
             }, 0)
         }
 
-        const volume1 = calc(outlines.volume_1.sections)
-        const volume2 = calc(outlines.volume_2.sections)
-        const volume3 = calc(outlines.volume_3.sections)
-        const volume4 = calc(outlines.volume_4.sections)
+        const allocations: Record<string, number> = {}
+        for (const volume of structure) {
+            const allocated = calc(outlines[volumeOutlineKey(volume.number)].sections)
+            allocations[`volume${volume.number}`] = allocated
 
-        // Log warnings for over-limit
-        if (limits.volume_1_technical && volume1 > limits.volume_1_technical) {
-            logger.warn(`Volume I exceeds limit: ${volume1}/${limits.volume_1_technical}`)
-        }
-        if (limits.volume_2_management && volume2 > limits.volume_2_management) {
-            logger.warn(`Volume II exceeds limit: ${volume2}/${limits.volume_2_management}`)
-        }
-        if (limits.volume_3_past_performance && volume3 > limits.volume_3_past_performance) {
-            logger.warn(`Volume III exceeds limit: ${volume3}/${limits.volume_3_past_performance}`)
+            // Log warnings for over-limit
+            if (volume.page_limit && allocated > volume.page_limit) {
+                logger.warn(`Volume ${toRoman(volume.number)} exceeds limit: ${allocated}/${volume.page_limit}`)
+            }
         }
 
-        return { volume1, volume2, volume3, volume4 }
+        return allocations
     }
 
     private async updateAgentStatus(
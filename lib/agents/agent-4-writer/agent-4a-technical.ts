@@ -1,7 +1,9 @@
 /**
  * Agent 4A: Technical Volume Writer
  * 
- * Writes Volume I - Technical Approach (50 pages typical)
+ * Writes Volume I - Technical Approach (50 pages typical), plus any
+ * narrative volume Section L asks for (Small Business Participation,
+ * Security, ...) using that volume's name and required contents
  * 
  * STRATEGY: Write section-by-section to avoid truncation
  * Each section = 1 Claude call with appropriate token budget
@@ -10,8 +12,10 @@
 import { logger } from '../../logger'
 import { callClaude } from '../../claude-client'
 import { AgentContext, VolumeWriteResult } from '../types'
-import { SectionOutline } from '../../database.types'
-import { buildVolumeSharedContext, VolumeSharedContext } from './shared-context'
+import { ProposalVolume, SectionOutline } from '../../database.types'
+import { buildVolumeSharedContext, formatEvaluationMethodology, formatLibraryPassages, formatVolumeWinThemes, VolumeSharedContext } from './shared-context'
+import { resolveVolumeStructure, toRoman, volumeOutlineKey, writerVolume } from '../../volume-structure'
+import { PROVENANCE_INSTRUCTIONS } from '../../provenance'
 import { updateVolumeSectionProgress } from '@/lib/inngest/db-helpers'
 
 // Progress callback type for real-time section updates
@@ -41,6 +45,8 @@ WRITING RULES:
 - Include specific methodologies and approaches
 - Reference relevant certifications and qualifications
 
+${PROVENANCE_INSTRUCTIONS}
+
 OUTPUT: Return ONLY clean HTML content. No markdown, no code blocks, no explanations.
 Start directly with content - no preamble.`
 
@@ -49,13 +55,14 @@ export async function writeVolume1Technical(
     progressCallback?: ProgressCallback
 ): Promise<VolumeWriteResult> {
     const { rfpParsedData, companyData, contentOutlines, jobId } = context
-    const outline = contentOutlines?.volume_1
+    const volume = writerVolume(resolveVolumeStructure(context.volumeStructure), 'technical', context.targetVolume)
+    const outline = contentOutlines?.[volumeOutlineKey(volume.number)]
     
     if (!outline || !rfpParsedData || !companyData) {
-        throw new Error('Missing required context for technical volume')
+        throw new Error(`Missing required context for ${volume.name} volume`)
     }
 
-    logger.agentStep('agent_4a', jobId, 'Starting Technical Volume (Section-by-Section)')
+    logger.agentStep('agent_4a', jobId, `Starting ${volume.name} Volume (Section-by-Section)`)
 
     // BUILD SHARED CONTEXT ONCE (major optimization)
     const sharedContext = await buildVolumeSharedContext(context)
@@ -73,7 +80,7 @@ export async function writeVolume1Technical(
     
     // Initialize all sections as pending
     for (let i = 0; i < sections.length; i++) {
-        await updateVolumeSectionProgress(jobId, 1, sections[i].title, 'pending', 0)
+        await updateVolumeSectionProgress(jobId, volume.number, sections[i].title, 'pending', 0)
     }
     
     const createSectionProgressCallback = (sectionIndex: number, sectionTitle: string) => async (startTime: number) => {
@@ -81,7 +88,7 @@ export async function writeVolume1Technical(
         const timeSeconds = Math.round((endTime - startTime) / 1000)
         
         completedSections++
-        await updateVolumeSectionProgress(jobId, 1, sectionTitle, 'complete', 100, timeSeconds)
+        await updateVolumeSectionProgress(jobId, volume.number, sectionTitle, 'complete', 100, timeSeconds)
         
         if (progressCallback) {
             const sectionProgress = Math.round((completedSections / sections.length) * 100)
@@ -98,7 +105,7 @@ export async function writeVolume1Technical(
             sectionStartTimes.set(i, startTime)
             
             // Mark section as in-progress
-            updateVolumeSectionProgress(jobId, 1, section.title, 'in-progress', 0).catch(err => {
+            updateVolumeSectionProgress(jobId, volume.number, section.title, 'in-progress', 0).catch(err => {
                 logger.error(`[Agent 4A] Failed to update section progress: ${err.message}`, { jobId, data: { section: section.title } })
             })
             
@@ -107,6 +114,7 @@ export async function writeVolume1Technical(
                 sectionIndex: i,
                 totalSections: sections.length,
                 sharedContext,
+                volume,
                 pageLimit: section.page_allocation,
                 jobId,
             })
@@ -120,7 +128,7 @@ export async function writeVolume1Technical(
                     const timeSeconds = Math.round((endTime - startTime) / 1000)
                     
                     completedSections++
-                    await updateVolumeSectionProgress(jobId, 1, section.title, 'complete', 0, timeSeconds)
+                    await updateVolumeSectionProgress(jobId, volume.number, section.title, 'complete', 0, timeSeconds)
                     
                     logger.error(`[Agent 4A] Section ${i + 1} failed: ${error.message}`, {
                         jobId,
@@ -161,10 +169,10 @@ export async function writeVolume1Technical(
     }
 
     // Combine all sections with proper wrapping
-    const fullContent = wrapVolumeContent(allContent, 'Technical Approach', rfpParsedData)
+    const fullContent = wrapVolumeContent(allContent, volume, rfpParsedData)
 
     const successfulSections = sections.length - failedSections.length
-    logger.agentStep('agent_4a', jobId, 'Technical Volume complete', {
+    logger.agentStep('agent_4a', jobId, `${volume.name} Volume complete`, {
         sections: sections.length,
         successful: successfulSections,
         failed: failedSections.length,
@@ -180,7 +188,7 @@ export async function writeVolume1Technical(
     }
 
     return {
-        volumeNumber: 1,
+        volumeNumber: volume.number,
         content: fullContent,
         pageCount: totalPages,
         sectionsWritten: sections.map(s => s.title),
@@ -194,6 +202,7 @@ interface SectionWriteContext {
     sectionIndex: number
     totalSections: number
     sharedContext: VolumeSharedContext
+    volume: ProposalVolume
     pageLimit: number
 }
 
@@ -205,11 +214,15 @@ async function writeSingleSection(ctx: SectionWriteContext & { jobId: string }):
     const tokensNeeded = Math.min(12000, Math.max(3000, Math.ceil(pageLimit * 750 * 1.3)))
 
     // Use shared context data (already pre-processed)
-    const prompt = `Write the "${section.title}" section for a Technical Volume.
-
+    const prompt = `Write the "${section.title}" section for a ${ctx.volume.name} Volume.
+${ctx.volume.required_contents.length > 0 ? `
+SECTION L REQUIRES THIS VOLUME TO CONTAIN:
+${ctx.volume.required_contents.map(c => `- ${c}`).join('\n')}
+` : ''}
 COMPLIANCE REQUIREMENTS (Priority Order):
-${sharedContext.volumeRequirements.get(1)?.slice(0, 10).map(r => 
-    `- [${r.priority.toUpperCase()}] ${r.id}: ${r.text.substring(0, 200)}`
+${sharedContext.volumeRequirements.get(ctx.volume.number)?.slice(0, 10).map(r => 
+    `- [${r.priority.toUpperCase()}] ${r.id}: ${r.text.substring(0, 200)}` +
+    (r.clarification ? `\n  CLARIFIED BY GOVERNMENT Q&A: ${r.clarification.substring(0, 300)}` : '')
 ).join('\n') || 'General technical requirements'}
 
 EVALUATION FACTORS TO MAXIMIZE:
@@ -217,20 +230,23 @@ ${sharedContext.rfpSummary.evaluationFactors.map(f =>
     `- ${f.name} (Weight: ${f.weight}%)`
 ).join('\n')}
 
+HOW THE AGENCY WILL EVALUATE:
+${formatEvaluationMethodology(sharedContext)}
+
 COMPANY CAPABILITIES TO HIGHLIGHT:
-${sharedContext.companySummary.capabilities.slice(0, 10).join(', ')}
+${sharedContext.companySummary.capabilities.slice(0, 10).join(', ')} [source: ${sharedContext.companySummary.source}]
 
 KEY PERSONNEL TO REFERENCE BY NAME:
 ${sharedContext.companySummary.keyPersonnel.slice(0, 5).map(p => 
-    `- ${p.name} (${p.role}, ${p.experience} years, ${p.certs.join(', ')})`
+    `- ${p.name} (${p.role}, ${p.experience} years, ${p.certs.join(', ')}) [source: ${p.source}]`
 ).join('\n')}
 
 PAST PERFORMANCE TO CITE:
 ${sharedContext.companySummary.pastPerformance.slice(0, 3).map(pp => 
-    `- ${pp.project} (${pp.agency}): ${pp.relevance}`
+    `- ${pp.project} (${pp.agency}): ${pp.relevance} [source: ${pp.source}]`
 ).join('\n')}
 
-CONTEXT:
+${formatVolumeWinThemes(sharedContext, ctx.volume.number)}${sharedContext.ghosting}${formatLibraryPassages(sharedContext, ctx.volume.number, section.title)}CONTEXT:
 - Company: ${sharedContext.companySummary.name}
 - Solicitation: ${sharedContext.rfpSummary.solicitationNum}
 - Agency: ${sharedContext.rfpSummary.agency}
@@ -268,12 +284,12 @@ OUTPUT HTML ONLY - START DIRECTLY WITH <h2> TAG.`
 
 function wrapVolumeContent(
     sections: string[],
-    volumeTitle: string,
+    volume: ProposalVolume,
     rfpData: import('../../database.types').RfpParsedData
 ): string {
     const header = `
 <div class="volume-header">
-    <h1>Volume I: ${volumeTitle}</h1>
+    <h1>Volume ${toRoman(volume.number)}: ${volume.name}</h1>
     <p class="solicitation">Solicitation: ${rfpData.metadata.solicitation_num}</p>
     <p class="agency">${rfpData.metadata.agency}</p>
 </div>
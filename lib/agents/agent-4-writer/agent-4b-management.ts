@@ -9,8 +9,10 @@
 import { logger } from '../../logger'
 import { callClaude } from '../../claude-client'
 import { AgentContext, VolumeWriteResult } from '../types'
-import { SectionOutline } from '../../database.types'
-import { buildVolumeSharedContext, VolumeSharedContext } from './shared-context'
+import { KeyPersonnelAssignment, ProposalVolume, RfpDeliverable, SectionOutline } from '../../database.types'
+import { buildVolumeSharedContext, formatEvaluationMethodology, formatLibraryPassages, formatVolumeWinThemes, VolumeSharedContext } from './shared-context'
+import { resolveVolumeStructure, toRoman, volumeOutlineKey, writerVolume } from '../../volume-structure'
+import { PROVENANCE_INSTRUCTIONS, sourceTag } from '../../provenance'
 import { ProgressCallback } from './agent-4a-technical'
 import { updateVolumeSectionProgress } from '@/lib/inngest/db-helpers'
 
@@ -39,15 +41,21 @@ WRITING RULES:
 - Address transition planning with specific timelines
 - Include quality and risk management specifics with metrics
 
+${PROVENANCE_INSTRUCTIONS}
+
 OUTPUT: Return ONLY clean HTML content. No markdown, no code blocks.
 Start directly with content - no preamble.`
 
+// Sections that present the staffing plan / key personnel in detail
+const STAFFING_SECTION = /staff|personnel|key person|organi[sz]ation|team|program management/i
+
 export async function writeVolume2Management(
     context: AgentContext,
     progressCallback?: ProgressCallback
 ): Promise<VolumeWriteResult> {
     const { rfpParsedData, companyData, contentOutlines, jobId } = context
-    const outline = contentOutlines?.volume_2
+    const volume = writerVolume(resolveVolumeStructure(context.volumeStructure), 'management', context.targetVolume)
+    const outline = contentOutlines?.[volumeOutlineKey(volume.number)]
     
     if (!outline || !rfpParsedData || !companyData) {
         throw new Error('Missing required context for management volume')
@@ -59,6 +67,10 @@ export async function writeVolume2Management(
     const sharedContext = await buildVolumeSharedContext(context)
     logger.agentStep('agent_4b', jobId, 'Shared context built for optimization')
 
+    // Agent 2's position-by-position personnel match
+    const keyPersonnel = context.validationReport?.key_personnel_assignments || []
+    const deliverables = rfpParsedData.deliverables || []
+
     const sections = outline.sections
     const allContent: string[] = []
     let totalPages = 0
@@ -71,7 +83,7 @@ export async function writeVolume2Management(
     
     // Initialize all sections as pending
     for (let i = 0; i < sections.length; i++) {
-        await updateVolumeSectionProgress(jobId, 2, sections[i].title, 'pending', 0)
+        await updateVolumeSectionProgress(jobId, volume.number, sections[i].title, 'pending', 0)
     }
     
     const createSectionProgressCallback = (sectionIndex: number, sectionTitle: string) => async (startTime: number) => {
@@ -79,7 +91,7 @@ export async function writeVolume2Management(
         const timeSeconds = Math.round((endTime - startTime) / 1000)
         
         completedSections++
-        await updateVolumeSectionProgress(jobId, 2, sectionTitle, 'complete', 100, timeSeconds)
+        await updateVolumeSectionProgress(jobId, volume.number, sectionTitle, 'complete', 100, timeSeconds)
         
         if (progressCallback) {
             const sectionProgress = Math.round((completedSections / sections.length) * 100)
@@ -96,7 +108,7 @@ export async function writeVolume2Management(
             sectionStartTimes.set(i, startTime)
             
             // Mark section as in-progress
-            updateVolumeSectionProgress(jobId, 2, section.title, 'in-progress', 0).catch(err => {
+            updateVolumeSectionProgress(jobId, volume.number, section.title, 'in-progress', 0).catch(err => {
                 logger.error(`[Agent 4B] Failed to update section progress: ${err.message}`, { jobId, data: { section: section.title } })
             })
             
@@ -105,7 +117,10 @@ export async function writeVolume2Management(
                 sectionIndex: i,
                 totalSections: sections.length,
                 sharedContext,
+                volume,
                 pageLimit: section.page_allocation,
+                keyPersonnel,
+                deliverables: deliverables.filter(d => section.requirements_addressed.includes(d.id)),
                 jobId,
             })
                 .then(async result => {
@@ -118,7 +133,7 @@ export async function writeVolume2Management(
                     const timeSeconds = Math.round((endTime - startTime) / 1000)
                     
                     completedSections++
-                    await updateVolumeSectionProgress(jobId, 2, section.title, 'complete', 0, timeSeconds)
+                    await updateVolumeSectionProgress(jobId, volume.number, section.title, 'complete', 0, timeSeconds)
                     
                     logger.error(`[Agent 4B] Section ${i + 1} failed: ${error.message}`, {
                         jobId,
@@ -156,7 +171,7 @@ export async function writeVolume2Management(
         })
     }
 
-    const fullContent = wrapVolumeContent(allContent, 'Management Approach', rfpParsedData)
+    const fullContent = wrapVolumeContent(allContent, volume, rfpParsedData)
 
     const successfulSections = sections.length - failedSections.length
     logger.agentStep('agent_4b', jobId, 'Management Volume complete', {
@@ -174,7 +189,7 @@ export async function writeVolume2Management(
     }
 
     return {
-        volumeNumber: 2,
+        volumeNumber: volume.number,
         content: fullContent,
         pageCount: totalPages,
         sectionsWritten: sections.map(s => s.title),
@@ -188,10 +203,44 @@ interface SectionWriteContext {
     sectionIndex: number
     totalSections: number
     sharedContext: VolumeSharedContext
+    volume: ProposalVolume
     pageLimit: number
+    keyPersonnel: KeyPersonnelAssignment[]
+    deliverables: RfpDeliverable[] // Deliverables Agent 3 mapped to this section
     jobId: string
 }
 
+/**
+ * Key personnel assignment for the prompt - full qualification detail for staffing sections
+ */
+function formatKeyPersonnel(assignments: KeyPersonnelAssignment[], detailed: boolean): string {
+    return assignments
+        .filter(a => a.name)
+        .map(a => {
+            const line = `- ${a.position}${a.key ? ' (KEY)' : ''}: ${a.name}` +
+                (a.personnel_id ? ` [source: ${sourceTag('personnel', a.personnel_id)}]` : '')
+            if (!detailed) return line
+            return line +
+                (a.met.length > 0 ? `\n  Meets: ${a.met.join('; ')}` : '') +
+                (a.unmet.length > 0 ? `\n  Gaps (do NOT claim these): ${a.unmet.join('; ')}` : '')
+        })
+        .join('\n')
+}
+
+/**
+ * Deliverables schedule for the prompt - one line per deliverable with its traceability id
+ */
+function formatDeliverables(deliverables: RfpDeliverable[]): string {
+    return deliverables
+        .map(d => {
+            const schedule = [d.frequency, d.due_date && `due ${d.due_date}`, d.recipient && `to ${d.recipient}`]
+                .filter(Boolean)
+                .join(', ')
+            return `- ${d.id}${d.cdrl_number ? ` (CDRL ${d.cdrl_number})` : ''}: ${d.name}${schedule ? ` - ${schedule}` : ''}`
+        })
+        .join('\n')
+}
+
 async function writeSingleSection(ctx: SectionWriteContext): Promise<string> {
     const { section, sharedContext, pageLimit, jobId } = ctx
 
@@ -200,8 +249,9 @@ async function writeSingleSection(ctx: SectionWriteContext): Promise<string> {
     const prompt = `Write the "${section.title}" section for a Management Volume.
 
 COMPLIANCE REQUIREMENTS (Priority Order):
-${sharedContext.volumeRequirements.get(2)?.slice(0, 10).map(r => 
-    `- [${r.priority.toUpperCase()}] ${r.id}: ${r.text.substring(0, 200)}`
+${sharedContext.volumeRequirements.get(ctx.volume.number)?.slice(0, 10).map(r => 
+    `- [${r.priority.toUpperCase()}] ${r.id}: ${r.text.substring(0, 200)}` +
+    (r.clarification ? `\n  CLARIFIED BY GOVERNMENT Q&A: ${r.clarification.substring(0, 300)}` : '')
 ).join('\n') || 'General management requirements'}
 
 EVALUATION FACTORS TO MAXIMIZE:
@@ -209,20 +259,30 @@ ${sharedContext.rfpSummary.evaluationFactors.map(f =>
     `- ${f.name} (Weight: ${f.weight}%)`
 ).join('\n')}
 
+HOW THE AGENCY WILL EVALUATE:
+${formatEvaluationMethodology(sharedContext)}
+
 COMPANY CAPABILITIES TO HIGHLIGHT:
-${sharedContext.companySummary.capabilities.slice(0, 10).join(', ')}
+${sharedContext.companySummary.capabilities.slice(0, 10).join(', ')} [source: ${sharedContext.companySummary.source}]
 
 KEY PERSONNEL TO REFERENCE BY NAME:
 ${sharedContext.companySummary.keyPersonnel.slice(0, 5).map(p => 
-    `- ${p.name} (${p.role}, ${p.experience} years, ${p.certs.join(', ')})`
+    `- ${p.name} (${p.role}, ${p.experience} years, ${p.certs.join(', ')}) [source: ${p.source}]`
 ).join('\n')}
-
+${ctx.keyPersonnel.some(a => a.name) ? `
+KEY POSITION ASSIGNMENTS (use exactly these people in these RFP positions):
+${formatKeyPersonnel(ctx.keyPersonnel, STAFFING_SECTION.test(section.title))}
+` : ''}${ctx.deliverables.length > 0 ? `
+CONTRACT DELIVERABLES TO ADDRESS (describe how each is produced, reviewed and delivered on schedule;
+cite each by CDRL number or ID and include a deliverables schedule table):
+${formatDeliverables(ctx.deliverables)}
+` : ''}
 PAST PERFORMANCE TO CITE:
 ${sharedContext.companySummary.pastPerformance.slice(0, 3).map(pp => 
-    `- ${pp.project} (${pp.agency}): ${pp.relevance}`
+    `- ${pp.project} (${pp.agency}): ${pp.relevance} [source: ${pp.source}]`
 ).join('\n')}
 
-CONTEXT:
+${formatVolumeWinThemes(sharedContext, ctx.volume.number)}${sharedContext.ghosting}${formatLibraryPassages(sharedContext, ctx.volume.number, section.title)}CONTEXT:
 - Company: ${sharedContext.companySummary.name}
 - Solicitation: ${sharedContext.rfpSummary.solicitationNum}
 - Agency: ${sharedContext.rfpSummary.agency}
@@ -249,7 +309,8 @@ Write professional content covering appropriate topics for "${section.title}":
 - If Program Management: org structure with names, leadership approach, governance processes
 - If Transition: phase-in/out plans with timelines, knowledge transfer specifics, risk mitigation
 - If Quality: QA processes with metrics, continuous improvement methodologies
-- If Staffing: recruitment strategies, retention programs, training approach with specifics
+- If Staffing: recruitment strategies, retention programs, training approach with specifics; a staffing
+  matrix mapping each RFP key position to the assigned person and the qualifications they meet
 - If Risk: identification methods, mitigation strategies, contingency planning
 
 OUTPUT HTML ONLY - START DIRECTLY WITH <h2> TAG.`
@@ -267,12 +328,12 @@ OUTPUT HTML ONLY - START DIRECTLY WITH <h2> TAG.`
 
 function wrapVolumeContent(
     sections: string[],
-    volumeTitle: string,
+    volume: ProposalVolume,
     rfpData: import('../../database.types').RfpParsedData
 ): string {
     const header = `
 <div class="volume-header">
-    <h1>Volume II: ${volumeTitle}</h1>
+    <h1>Volume ${toRoman(volume.number)}: ${volume.name}</h1>
     <p class="solicitation">Solicitation: ${rfpData.metadata.solicitation_num}</p>
     <p class="agency">${rfpData.metadata.agency}</p>
 </div>
@@ -10,7 +10,10 @@
 import { logger } from '../../logger'
 import { callClaude } from '../../claude-client'
 import { AgentContext, VolumeWriteResult } from '../types'
-import { buildVolumeSharedContext, VolumeSharedContext } from './shared-context'
+import { ProposalVolume } from '../../database.types'
+import { buildVolumeSharedContext, formatClarifications, formatEvaluationMethodology, formatVolumeWinThemes, VolumeSharedContext } from './shared-context'
+import { resolveVolumeStructure, toRoman, volumeOutlineKey, writerVolume } from '../../volume-structure'
+import { PROVENANCE_INSTRUCTIONS, sourceTag } from '../../provenance'
 import { ProgressCallback } from './agent-4a-technical'
 import { updateVolumeSectionProgress } from '@/lib/inngest/db-helpers'
 
@@ -38,6 +41,8 @@ CRITICAL RULES:
 - Follow CPARS-style formatting with clear sections
 - Include lessons learned where appropriate
 
+${PROVENANCE_INSTRUCTIONS}
+
 OUTPUT: Return ONLY clean HTML content. No markdown, no code blocks.
 Start directly with content - no preamble.`
 
@@ -46,7 +51,8 @@ export async function writeVolume3PastPerformance(
     progressCallback?: ProgressCallback
 ): Promise<VolumeWriteResult> {
     const { rfpParsedData, companyData, contentOutlines, jobId } = context
-    const outline = contentOutlines?.volume_3
+    const volume = writerVolume(resolveVolumeStructure(context.volumeStructure), 'past_performance', context.targetVolume)
+    const outline = contentOutlines?.[volumeOutlineKey(volume.number)]
     
     if (!outline || !rfpParsedData || !companyData) {
         throw new Error('Missing required context for past performance volume')
@@ -68,32 +74,32 @@ export async function writeVolume3PastPerformance(
     const totalSections = 2 + contractsToWrite.length // summary + contracts + matrix
 
     // Initialize sections as pending
-    await updateVolumeSectionProgress(jobId, 3, 'Summary', 'pending', 0)
+    await updateVolumeSectionProgress(jobId, volume.number, 'Summary', 'pending', 0)
     for (let i = 0; i < contractsToWrite.length; i++) {
-        await updateVolumeSectionProgress(jobId, 3, contractsToWrite[i].project_name, 'pending', 0)
+        await updateVolumeSectionProgress(jobId, volume.number, contractsToWrite[i].project_name, 'pending', 0)
     }
-    await updateVolumeSectionProgress(jobId, 3, 'Relevance Matrix', 'pending', 0)
+    await updateVolumeSectionProgress(jobId, volume.number, 'Relevance Matrix', 'pending', 0)
 
     // 1. Write summary/overview section
     logger.agentStep('agent_4c', jobId, 'Writing Past Performance Summary')
     const summaryStartTime = Date.now()
-    await updateVolumeSectionProgress(jobId, 3, 'Summary', 'in-progress', 0)
+    await updateVolumeSectionProgress(jobId, volume.number, 'Summary', 'in-progress', 0)
     
     try {
-        const summaryContent = await writeSummarySection(pastPerformance, rfpParsedData, companyData.company, sharedContext, jobId)
+        const summaryContent = await writeSummarySection(pastPerformance, rfpParsedData, companyData.company, sharedContext, volume.number, jobId)
         allContent.push(summaryContent)
         totalPages += Math.ceil(summaryContent.length / 3000)
         completedSections++
         
         const summaryTimeSeconds = Math.round((Date.now() - summaryStartTime) / 1000)
-        await updateVolumeSectionProgress(jobId, 3, 'Summary', 'complete', 100, summaryTimeSeconds)
+        await updateVolumeSectionProgress(jobId, volume.number, 'Summary', 'complete', 100, summaryTimeSeconds)
         
         if (progressCallback) {
             await progressCallback(Math.round((completedSections / totalSections) * 100), 'Summary complete')
         }
     } catch (error) {
         const summaryTimeSeconds = Math.round((Date.now() - summaryStartTime) / 1000)
-        await updateVolumeSectionProgress(jobId, 3, 'Summary', 'complete', 0, summaryTimeSeconds)
+        await updateVolumeSectionProgress(jobId, volume.number, 'Summary', 'complete', 0, summaryTimeSeconds)
         
         logger.error(`[Agent 4C] Summary section failed: ${error instanceof Error ? error.message : String(error)}`, { jobId })
         failedSections.push('Summary')
@@ -111,7 +117,7 @@ export async function writeVolume3PastPerformance(
         contractsToWrite.map((contract, i) => {
             const startTime = Date.now()
             contractStartTimes.set(i, startTime)
-            updateVolumeSectionProgress(jobId, 3, contract.project_name, 'in-progress', 0).catch(err => {
+            updateVolumeSectionProgress(jobId, volume.number, contract.project_name, 'in-progress', 0).catch(err => {
                 logger.error(`[Agent 4C] Failed to update section progress: ${err.message}`, { jobId, data: { section: contract.project_name } })
             })
             
@@ -120,7 +126,7 @@ export async function writeVolume3PastPerformance(
                     const endTime = Date.now()
                     const timeSeconds = Math.round((endTime - startTime) / 1000)
                     completedSections++
-                    await updateVolumeSectionProgress(jobId, 3, contract.project_name, 'complete', 100, timeSeconds)
+                    await updateVolumeSectionProgress(jobId, volume.number, contract.project_name, 'complete', 100, timeSeconds)
                     
                     if (progressCallback) {
                         await progressCallback(
@@ -135,7 +141,7 @@ export async function writeVolume3PastPerformance(
                     const startTime = contractStartTimes.get(i) || endTime
                     const timeSeconds = Math.round((endTime - startTime) / 1000)
                     completedSections++
-                    await updateVolumeSectionProgress(jobId, 3, contract.project_name, 'complete', 0, timeSeconds)
+                    await updateVolumeSectionProgress(jobId, volume.number, contract.project_name, 'complete', 0, timeSeconds)
                     
                     const errorMessage = error instanceof Error ? error.message : String(error)
                     logger.error(`[Agent 4C] Contract "${contract.project_name}" failed: ${errorMessage}`, { jobId })
@@ -168,23 +174,23 @@ export async function writeVolume3PastPerformance(
     // 3. Write relevance matrix
     logger.agentStep('agent_4c', jobId, 'Writing Relevance Matrix')
     const matrixStartTime = Date.now()
-    await updateVolumeSectionProgress(jobId, 3, 'Relevance Matrix', 'in-progress', 0)
+    await updateVolumeSectionProgress(jobId, volume.number, 'Relevance Matrix', 'in-progress', 0)
     
     try {
-        const matrixContent = await writeRelevanceMatrix(pastPerformance, rfpParsedData, sharedContext, jobId)
+        const matrixContent = await writeRelevanceMatrix(pastPerformance, rfpParsedData, sharedContext, volume.number, jobId)
         allContent.push(matrixContent)
         totalPages += Math.ceil(matrixContent.length / 3000)
         completedSections++
         
         const matrixTimeSeconds = Math.round((Date.now() - matrixStartTime) / 1000)
-        await updateVolumeSectionProgress(jobId, 3, 'Relevance Matrix', 'complete', 100, matrixTimeSeconds)
+        await updateVolumeSectionProgress(jobId, volume.number, 'Relevance Matrix', 'complete', 100, matrixTimeSeconds)
         
         if (progressCallback) {
             await progressCallback(100, 'Relevance Matrix complete')
         }
     } catch (error) {
         const matrixTimeSeconds = Math.round((Date.now() - matrixStartTime) / 1000)
-        await updateVolumeSectionProgress(jobId, 3, 'Relevance Matrix', 'complete', 0, matrixTimeSeconds)
+        await updateVolumeSectionProgress(jobId, volume.number, 'Relevance Matrix', 'complete', 0, matrixTimeSeconds)
         
         logger.error(`[Agent 4C] Relevance Matrix failed: ${error instanceof Error ? error.message : String(error)}`, { jobId })
         failedSections.push('Relevance Matrix')
@@ -192,7 +198,7 @@ export async function writeVolume3PastPerformance(
         completedSections++
     }
 
-    const fullContent = wrapVolumeContent(allContent, 'Past Performance', rfpParsedData)
+    const fullContent = wrapVolumeContent(allContent, volume, rfpParsedData)
 
     const successfulSections = totalSections - failedSections.length
     logger.agentStep('agent_4c', jobId, 'Past Performance Volume complete', {
@@ -210,7 +216,7 @@ export async function writeVolume3PastPerformance(
     }
 
     return {
-        volumeNumber: 3,
+        volumeNumber: volume.number,
         content: fullContent,
         pageCount: totalPages,
         sectionsWritten: ['Summary', ...pastPerformance.slice(0, 5).map(p => p.project_name), 'Relevance Matrix'],
@@ -224,10 +230,12 @@ async function writeSummarySection(
     rfpData: import('../../database.types').RfpParsedData,
     company: import('../../database.types').Company,
     sharedContext: VolumeSharedContext,
+    volumeNumber: number,
     jobId: string
 ): Promise<string> {
     const contractSummary = contracts.slice(0, 5).map(c => 
-        `- ${c.project_name}: ${c.agency}, $${(c.contract_value || 0).toLocaleString()}, ${c.contract_type || 'N/A'}`
+        `- ${c.project_name}: ${c.agency}, $${(c.contract_value || 0).toLocaleString()}, ${c.contract_type || 'N/A'}` +
+        ` [source: ${sourceTag('past_performance', c.id)}]`
     ).join('\n')
 
     const prompt = `Write a Past Performance Summary section (2 pages).
@@ -237,6 +245,9 @@ ${sharedContext.rfpSummary.evaluationFactors.map(f =>
     `- ${f.name} (Weight: ${f.weight}%)`
 ).join('\n')}
 
+HOW THE AGENCY WILL EVALUATE:
+${formatEvaluationMethodology(sharedContext)}
+
 COMPANY: ${company.name}
 SOLICITATION: ${rfpData.metadata.solicitation_num}
 AGENCY: ${rfpData.metadata.agency}
@@ -244,7 +255,7 @@ AGENCY: ${rfpData.metadata.agency}
 CONTRACTS TO SUMMARIZE:
 ${contractSummary}
 
-Include:
+${formatClarifications(sharedContext, 'past_performance')}${formatVolumeWinThemes(sharedContext, volumeNumber)}Include:
 1. Opening statement about ${company.name}'s relevant experience aligned with RFP requirements
 2. Summary table with columns: Contract Name, Customer, Value, Type, Period, CPARS Rating
 3. Brief overview of each contract's relevance to this RFP with specific requirement mappings
@@ -273,12 +284,15 @@ async function writeContractSection(
     const tokensNeeded = Math.max(2500, Math.ceil(targetPages * 750 * 1.3))
 
     const quantifiedOutcomes = contract.quantified_outcomes
-        ?.map((o: { metric: string; value: string }) => `- ${o.metric}: ${o.value}`)
+        ?.map((o: { metric: string; value: string }, i: number) =>
+            `- ${o.metric}: ${o.value} [source: ${sourceTag('past_performance', contract.id, `quantified_outcomes.${i}`)}]`
+        )
         .join('\n') || 'Outcomes documented in performance summary'
 
     const prompt = `Write a detailed Past Performance contract writeup (~${targetPages} pages).
 
-CONTRACT: ${contract.project_name}
+CONTRACT: ${contract.project_name} [source: ${sourceTag('past_performance', contract.id)}]
+(tag a sentence using one field below with that field's name, e.g. #contract_value, #cpars_rating, #performance_summary)
 - Contract Number: ${contract.contract_number}
 - Customer: ${contract.agency}${contract.customer_office ? ` / ${contract.customer_office}` : ''}
 - Contract Type: ${contract.contract_type || 'Not specified'}
@@ -326,17 +340,20 @@ async function writeRelevanceMatrix(
     contracts: import('../../database.types').PastPerformance[],
     rfpData: import('../../database.types').RfpParsedData,
     sharedContext: VolumeSharedContext,
+    volumeNumber: number,
     jobId: string
 ): Promise<string> {
     const factors = rfpData.section_m.factors.map(f => f.name).join(', ')
-    const contractNames = contracts.slice(0, 5).map(c => c.project_name).join(', ')
+    const contractNames = contracts.slice(0, 5)
+        .map(c => `${c.project_name} [source: ${sourceTag('past_performance', c.id)}]`)
+        .join(', ')
 
     const prompt = `Write a Past Performance Relevance Matrix section (1-2 pages).
 
 EVALUATION FACTORS: ${factors}
 CONTRACTS: ${contractNames}
 
-Create a table showing how each contract demonstrates capability in each evaluation factor:
+${formatVolumeWinThemes(sharedContext, volumeNumber)}Create a table showing how each contract demonstrates capability in each evaluation factor:
 - Rows: Each contract
 - Columns: Each evaluation factor
 - Cells: Specific evidence of capability
@@ -361,12 +378,12 @@ OUTPUT HTML - START WITH <h2>Relevance Matrix</h2>`
 
 function wrapVolumeContent(
     sections: string[],
-    volumeTitle: string,
+    volume: ProposalVolume,
     rfpData: import('../../database.types').RfpParsedData
 ): string {
     const header = `
 <div class="volume-header">
-    <h1>Volume III: ${volumeTitle}</h1>
+    <h1>Volume ${toRoman(volume.number)}: ${volume.name}</h1>
     <p class="solicitation">Solicitation: ${rfpData.metadata.solicitation_num}</p>
     <p class="agency">${rfpData.metadata.agency}</p>
 </div>
@@ -5,14 +5,43 @@
  * 
  * STRATEGY: Write section-by-section for clarity
  * CRITICAL: Use client's actual labor rates - NO invention
+ *
+ * Every figure comes from the pricing engine (lib/pricing): Claude estimates
+ * hours per labor category and CLIN, the engine prices them to the cent, the
+ * price tables are rendered from the model, and Claude only narrates.
+ * The contract type (Agent 1 metadata.contract_type) picks the structure:
+ * firm prices per CLIN (FFP), ceilings (T&M) or estimated cost plus fee (Cost-Plus).
  */
 
 import { logger } from '../../logger'
 import { callClaude } from '../../claude-client'
 import { AgentContext, VolumeWriteResult } from '../types'
-import { buildVolumeSharedContext, VolumeSharedContext } from './shared-context'
+import { PriceModel, PricingContractType, PricingInputs, ProposalVolume } from '../../database.types'
+import { supabase } from '../../supabase'
+import { buildVolumeSharedContext, formatClarifications, formatVolumeWinThemes, VolumeSharedContext } from './shared-context'
+import { resolveVolumeStructure, toRoman, volumeOutlineKey, writerVolume } from '../../volume-structure'
+import { PROVENANCE_INSTRUCTIONS, sourceTag } from '../../provenance'
 import { ProgressCallback } from './agent-4a-technical'
 import { updateVolumeSectionProgress } from '@/lib/inngest/db-helpers'
+import {
+    buildPriceModel,
+    buildPricingInputs,
+    clinEstimateTable,
+    contractTypeLabel,
+    costBuildUpTable,
+    defaultLaborHours,
+    feeStructureTable,
+    inferPricingStructure,
+    laborHoursTable,
+    laborRateTable,
+    normalizeLaborHours,
+    odcTable,
+    priceSummaryTable,
+    pricingFacts,
+    pricingStructure,
+    removeUnbackedDollarFigures,
+    tmCeilingTable,
+} from '../../pricing'
 
 const PRICING_SYSTEM_PROMPT = `You are an expert federal proposal writer with 20+ years of experience winning multi-million dollar government contracts.
 
@@ -21,7 +50,7 @@ APPLY THESE COMPLIANCE FRAMEWORKS:
 • Section L/M Alignment: Directly address each evaluation factor from Section M
 • Requirement Traceability: Every requirement must be explicitly addressed with clear location references
 • Win Theme Integration: Weave competitive differentiators throughout while maintaining compliance
-• Pricing Depth: Provide specific labor rates, BOE calculations, and transparent cost breakdowns
+• Pricing Depth: Explain the labor mix, BOE rationale, and cost build-up the price tables show
 
 CONTENT STRUCTURE REQUIREMENTS:
 • Requirement-Level Addressing: Each RFP requirement gets dedicated coverage with ID references
@@ -31,30 +60,40 @@ CONTENT STRUCTURE REQUIREMENTS:
 • Evidence-Based Claims: Support all statements with verified labor rates, past performance data, and detailed calculations
 
 CRITICAL RULES:
-- Use ONLY the labor rates provided - do NOT invent rates
-- All calculations must be mathematically correct and verifiable
-- Include Basis of Estimate (BOE) for each CLIN with detailed assumptions
-- Follow government pricing format requirements (SF-1449, SF-18, etc.)
+- NEVER calculate, round differently, or invent any price, rate, hour or total
+- Cite ONLY figures listed under PRICING FACTS, written exactly as listed
+- DO NOT create pricing tables - the system inserts the computed tables where you place the [[TABLE:...]] markers
 - Explain assumptions clearly with rationale
+- Follow government pricing format requirements (SF-1449, SF-18, etc.)
 
-TABLE FORMATTING RULES (IMPORTANT):
-- Keep tables SIMPLE with short column headers
-- DO NOT put long paragraphs inside table cells
-- Table cells should contain only: numbers, short labels, or brief phrases
-- Put narrative explanations OUTSIDE tables in regular paragraphs
-- Use separate tables for different data (don't combine Labor Hours + Costs + BOE in one table)
-- Maximum 6-7 columns per table for readability
-- Use <thead> and <tbody> tags for proper table structure
+${PROVENANCE_INSTRUCTIONS}
 
-OUTPUT: Return ONLY clean HTML content with properly formatted tables. No markdown.
+OUTPUT: Return ONLY clean HTML content (headings, paragraphs, lists, table markers). No markdown.
 Start directly with content - no preamble.`
 
+// Every figure under PRICING FACTS comes from the computed price model
+const PRICING_FACTS_SOURCE = sourceTag('price_model', 'pricing_facts')
+
+// What the Price volume has to show and explain for each contract type
+const CONTRACT_TYPE_GUIDANCE: Record<PricingContractType, string> = {
+    'FFP': 'Firm-fixed-price: each CLIN total is a firm price the offeror is bound to regardless of actual cost. Show how the firm price was built and how the offeror carries the performance risk.',
+    'T&M': 'Time-and-materials: labor is billed at fixed, fully burdened hourly rates up to the ceiling hours; materials are reimbursed at cost plus material handling with no fee. Explain how hours are tracked against the ceilings and that the ceiling price is not exceeded without a modification.',
+    'Cost-Plus': 'Cost-reimbursement: present the estimated cost by cost element (direct labor, fringe, overhead, ODCs, G&A) with the fee shown separately, DCAA style. Explain the cost accounting system, the basis of the indirect rates, and how the fee is earned.',
+}
+
+// Claude estimates staffing (a judgment call); the engine does all arithmetic
+const HOURS_ESTIMATE_SYSTEM_PROMPT = `You are a federal cost estimator building a bottom-up basis of estimate.
+Estimate labor HOURS only - never rates or dollars. Base the staffing on the work the solicitation requires,
+using 1,880 productive hours per full-time equivalent per 12-month period.
+Return ONLY valid JSON. No markdown, no commentary.`
+
 export async function writeVolume4Pricing(
     context: AgentContext,
     progressCallback?: ProgressCallback
 ): Promise<VolumeWriteResult> {
     const { rfpParsedData, companyData, contentOutlines, jobId } = context
-    const outline = contentOutlines?.volume_4
+    const volume = writerVolume(resolveVolumeStructure(context.volumeStructure), 'price', context.targetVolume)
+    const outline = contentOutlines?.[volumeOutlineKey(volume.number)]
     
     if (!outline || !rfpParsedData || !companyData) {
         throw new Error('Missing required context for pricing volume')
@@ -66,8 +105,16 @@ export async function writeVolume4Pricing(
     const sharedContext = await buildVolumeSharedContext(context)
     logger.agentStep('agent_4d', jobId, 'Shared context built for optimization')
 
+    // Price the volume first - every section narrates this model
+    const priceModel = await buildVolumePriceModel(context, sharedContext)
+    await savePriceModel(jobId, priceModel)
+    logger.agentStep('agent_4d', jobId, 'Price model computed', {
+        totalPrice: priceModel.total.price,
+        hours: priceModel.total.hours,
+        hoursSource: priceModel.inputs.hours_source,
+    })
+
     const laborRates = companyData.laborRates
-    const clins = rfpParsedData.section_b?.clins || []
     const allContent: string[] = []
     let totalPages = 0
     let completedSections = 0
@@ -78,7 +125,7 @@ export async function writeVolume4Pricing(
     // Initialize all sections as pending
     const sectionNames = ['Price Summary', 'Labor Rate Matrix', 'Basis of Estimate', 'Cost Narrative']
     for (const sectionName of sectionNames) {
-        await updateVolumeSectionProgress(jobId, 4, sectionName, 'pending', 0)
+        await updateVolumeSectionProgress(jobId, volume.number, sectionName, 'pending', 0)
     }
 
     // Write all 4 sections in PARALLEL with Promise.allSettled for graceful failures
@@ -88,18 +135,18 @@ export async function writeVolume4Pricing(
         (async () => {
             const startTime = Date.now()
             sectionStartTimes.set(0, startTime)
-            await updateVolumeSectionProgress(jobId, 4, 'Price Summary', 'in-progress', 0)
+            await updateVolumeSectionProgress(jobId, volume.number, 'Price Summary', 'in-progress', 0)
             try {
-                const result = await writePriceSummary(laborRates, clins, rfpParsedData, companyData.company, sharedContext, jobId)
+                const result = await writePriceSummary(priceModel, rfpParsedData, companyData.company, sharedContext, volume.number, jobId)
                 const timeSeconds = Math.round((Date.now() - startTime) / 1000)
                 completedSections++
-                await updateVolumeSectionProgress(jobId, 4, 'Price Summary', 'complete', 100, timeSeconds)
+                await updateVolumeSectionProgress(jobId, volume.number, 'Price Summary', 'complete', 100, timeSeconds)
                 if (progressCallback) await progressCallback(25, 'Price Summary complete')
                 return result
             } catch (error) {
                 const timeSeconds = Math.round((Date.now() - startTime) / 1000)
                 completedSections++
-                await updateVolumeSectionProgress(jobId, 4, 'Price Summary', 'complete', 0, timeSeconds)
+                await updateVolumeSectionProgress(jobId, volume.number, 'Price Summary', 'complete', 0, timeSeconds)
                 failedSections.push('Price Summary')
                 throw error
             }
@@ -107,18 +154,18 @@ export async function writeVolume4Pricing(
         (async () => {
             const startTime = Date.now()
             sectionStartTimes.set(1, startTime)
-            await updateVolumeSectionProgress(jobId, 4, 'Labor Rate Matrix', 'in-progress', 0)
+            await updateVolumeSectionProgress(jobId, volume.number, 'Labor Rate Matrix', 'in-progress', 0)
             try {
-                const result = await writeLaborMatrix(laborRates, rfpParsedData, sharedContext, jobId)
+                const result = await writeLaborMatrix(priceModel, laborRates, sharedContext, jobId)
                 const timeSeconds = Math.round((Date.now() - startTime) / 1000)
                 completedSections++
-                await updateVolumeSectionProgress(jobId, 4, 'Labor Rate Matrix', 'complete', 100, timeSeconds)
+                await updateVolumeSectionProgress(jobId, volume.number, 'Labor Rate Matrix', 'complete', 100, timeSeconds)
                 if (progressCallback) await progressCallback(50, 'Labor Rate Matrix complete')
                 return result
             } catch (error) {
                 const timeSeconds = Math.round((Date.now() - startTime) / 1000)
                 completedSections++
-                await updateVolumeSectionProgress(jobId, 4, 'Labor Rate Matrix', 'complete', 0, timeSeconds)
+                await updateVolumeSectionProgress(jobId, volume.number, 'Labor Rate Matrix', 'complete', 0, timeSeconds)
                 failedSections.push('Labor Rate Matrix')
                 throw error
             }
@@ -126,18 +173,18 @@ export async function writeVolume4Pricing(
         (async () => {
             const startTime = Date.now()
             sectionStartTimes.set(2, startTime)
-            await updateVolumeSectionProgress(jobId, 4, 'Basis of Estimate', 'in-progress', 0)
+            await updateVolumeSectionProgress(jobId, volume.number, 'Basis of Estimate', 'in-progress', 0)
             try {
-                const result = await writeBasisOfEstimate(clins, laborRates, companyData.pastPerformance, rfpParsedData, sharedContext, jobId)
+                const result = await writeBasisOfEstimate(priceModel, companyData.pastPerformance, sharedContext, jobId)
                 const timeSeconds = Math.round((Date.now() - startTime) / 1000)
                 completedSections++
-                await updateVolumeSectionProgress(jobId, 4, 'Basis of Estimate', 'complete', 100, timeSeconds)
+                await updateVolumeSectionProgress(jobId, volume.number, 'Basis of Estimate', 'complete', 100, timeSeconds)
                 if (progressCallback) await progressCallback(75, 'Basis of Estimate complete')
                 return result
             } catch (error) {
                 const timeSeconds = Math.round((Date.now() - startTime) / 1000)
                 completedSections++
-                await updateVolumeSectionProgress(jobId, 4, 'Basis of Estimate', 'complete', 0, timeSeconds)
+                await updateVolumeSectionProgress(jobId, volume.number, 'Basis of Estimate', 'complete', 0, timeSeconds)
                 failedSections.push('Basis of Estimate')
                 throw error
             }
@@ -145,18 +192,18 @@ export async function writeVolume4Pricing(
         (async () => {
             const startTime = Date.now()
             sectionStartTimes.set(3, startTime)
-            await updateVolumeSectionProgress(jobId, 4, 'Cost Narrative', 'in-progress', 0)
+            await updateVolumeSectionProgress(jobId, volume.number, 'Cost Narrative', 'in-progress', 0)
             try {
-                const result = await writeCostNarrative(laborRates, rfpParsedData, companyData.company, sharedContext, jobId)
+                const result = await writeCostNarrative(priceModel, rfpParsedData, companyData.company, sharedContext, volume.number, jobId)
                 const timeSeconds = Math.round((Date.now() - startTime) / 1000)
                 completedSections++
-                await updateVolumeSectionProgress(jobId, 4, 'Cost Narrative', 'complete', 100, timeSeconds)
+                await updateVolumeSectionProgress(jobId, volume.number, 'Cost Narrative', 'complete', 100, timeSeconds)
                 if (progressCallback) await progressCallback(100, 'Cost Narrative complete')
                 return result
             } catch (error) {
                 const timeSeconds = Math.round((Date.now() - startTime) / 1000)
                 completedSections++
-                await updateVolumeSectionProgress(jobId, 4, 'Cost Narrative', 'complete', 0, timeSeconds)
+                await updateVolumeSectionProgress(jobId, volume.number, 'Cost Narrative', 'complete', 0, timeSeconds)
                 failedSections.push('Cost Narrative')
                 throw error
             }
@@ -183,8 +230,17 @@ export async function writeVolume4Pricing(
         }
     }
     
-    // Wrap volume content
-    const fullContent = wrapVolumeContent(allContent, 'Price Proposal', rfpParsedData)
+    // Wrap volume content - statements citing figures the model does not contain are cut
+    const { html: fullContent, removed } = removeUnbackedDollarFigures(
+        wrapVolumeContent(allContent, volume, rfpParsedData),
+        priceModel
+    )
+    if (removed.length > 0) {
+        logger.warn(`[Agent 4D] Removed ${removed.length} statement(s) citing figures not in the price model`, {
+            jobId,
+            data: { statements: removed.slice(0, 20) }
+        })
+    }
 
     const successfulSections = totalSections - failedSections.length
     logger.agentStep('agent_4d', jobId, 'Price Volume complete', {
@@ -193,6 +249,7 @@ export async function writeVolume4Pricing(
         failed: failedSections.length,
         totalPages,
         laborCategories: laborRates.length,
+        totalPrice: priceModel.total.price,
     })
 
     if (failedSections.length > 0) {
@@ -203,64 +260,213 @@ export async function writeVolume4Pricing(
     }
 
     return {
-        volumeNumber: 4,
+        volumeNumber: volume.number,
         content: fullContent,
         pageCount: totalPages,
         sectionsWritten: ['Price Summary', 'Labor Rate Matrix', 'Basis of Estimate', 'Cost Narrative'],
         failedSections,
         requirementsAddressed: ['Pricing Requirements'],
+        priceModel,
+    }
+}
+
+// ============================================================================
+// PRICE MODEL
+// ============================================================================
+
+/**
+ * Pricing inputs pinned on the job (user-edited or a promoted scenario) are
+ * priced as-is; otherwise Claude estimates hours and the engine prices them.
+ * Pinned inputs an amendment has since changed the CLINs or contract type
+ * under are estimated afresh.
+ */
+async function buildVolumePriceModel(context: AgentContext, sharedContext: VolumeSharedContext): Promise<PriceModel> {
+    const { companyData, rfpParsedData, jobId } = context
+    const saved = context.pricingInputs
+    if (saved?.superseded_by) {
+        logger.warn(`[Agent 4D] Saved pricing inputs superseded by ${saved.superseded_by}, estimating afresh`, { jobId })
+    } else if (saved?.origin && saved.labor?.length) {
+        logger.agentStep('agent_4d', jobId, `Using saved pricing inputs (${saved.origin})`)
+        return buildPriceModel(saved.structure ? saved : {
+            ...saved,
+            structure: inferPricingStructure(rfpParsedData?.metadata?.contract_type, companyData?.intake, saved.rate_basis),
+        })
+    }
+
+    const inputs = buildPricingInputs(companyData?.laborRates || [], companyData?.intake, rfpParsedData)
+    if (inputs.labor_categories.length === 0) {
+        throw new Error('No labor rates on file - the price volume cannot be priced')
+    }
+
+    let labor = normalizeLaborHours(await estimateLaborHours(inputs, sharedContext, jobId), inputs)
+    let hoursSource: PricingInputs['hours_source'] = 'estimate'
+    if (labor.length === 0) {
+        logger.warn('[Agent 4D] No usable hours estimate, staffing one FTE per labor category', { jobId })
+        labor = defaultLaborHours(inputs)
+        hoursSource = 'default'
+        inputs.assumptions.push('Staffing estimate unavailable; priced at one FTE per labor category per period pending a basis of estimate review.')
+    }
+
+    return buildPriceModel({ ...inputs, labor, hours_source: hoursSource })
+}
+
+async function estimateLaborHours(inputs: PricingInputs, sharedContext: VolumeSharedContext, jobId: string): Promise<unknown> {
+    const requirements = sharedContext.rfpSummary.mandatoryRequirements
+        .slice(0, 40)
+        .map(r => `- ${r.id}: ${r.text}`)
+        .join('\n')
+
+    const prompt = `Estimate the labor hours needed to perform this contract.
+
+LABOR CATEGORIES (use these names exactly):
+${inputs.labor_categories.map(c => `- ${c.category}`).join('\n')}
+
+CLINs:
+${inputs.clins.map(c => `- ${c.clin}: ${c.description}`).join('\n')}
+
+PERIODS (hours arrays follow this order):
+${inputs.periods.map((p, i) => `${i + 1}. ${p.name} (${p.months} months)`).join('\n')}
+
+KEY REQUIREMENTS:
+${requirements || '- See solicitation'}
+
+Return JSON:
+{
+  "labor": [
+    { "clin": "0001", "category": "Program Manager", "hours": [1880, 1880, 1880, 1880, 1880], "basis": "1.0 FTE for contract-wide management" }
+  ]
+}
+
+Only staff categories the work needs; put hours only on CLINs that cover that labor.`
+
+    try {
+        const response = await callClaude({
+            system: HOURS_ESTIMATE_SYSTEM_PROMPT,
+            userPrompt: prompt,
+            maxTokens: 4000,
+            temperature: 0.2,
+            jobId,
+        })
+        const cleaned = response.trim().replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
+        const parsed = JSON.parse(cleaned.slice(cleaned.indexOf('{'), cleaned.lastIndexOf('}') + 1))
+        return parsed?.labor
+    } catch (error) {
+        logger.warn(`[Agent 4D] Hours estimate failed: ${error instanceof Error ? error.message : String(error)}`, { jobId })
+        return []
+    }
+}
+
+/**
+ * Store the price model. Its inputs are not pinned as pricing_inputs - an
+ * estimate is redone on the next run; only users and promoted scenarios pin inputs.
+ */
+async function savePriceModel(jobId: string, model: PriceModel): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase.from('proposal_jobs') as any)
+        .update({
+            price_model: model,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('job_id', jobId)
+
+    if (error) {
+        logger.warn(`[Agent 4D] Failed to save price model: ${error.message}`, { jobId })
     }
 }
 
+/**
+ * Swap the [[TABLE:name]] markers for the computed tables. Any table Claude
+ * wrote itself is dropped; tables whose marker is missing go at the end.
+ */
+function insertTables(content: string, tables: Record<string, string>): string {
+    let html = content.replace(/<table[\s\S]*?<\/table>/gi, '')
+    for (const [name, table] of Object.entries(tables)) {
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        const marker = new RegExp(`(?:<p>\\s*)?\\[\\[TABLE:${escaped}\\]\\](?:\\s*</p>)?`, 'g')
+        html = html.search(marker) !== -1 ? html.replace(marker, () => table) : `${html}\n${table}`
+    }
+    return html.replace(/(?:<p>\s*)?\[\[TABLE:[^\]]*\]\](?:\s*<\/p>)?/g, '')
+}
+
+// ============================================================================
+// SECTIONS
+// ============================================================================
+
 async function writePriceSummary(
-    laborRates: import('../../database.types').LaborRate[],
-    clins: Array<{ clin: string; description: string; quantity: string; unit: string }>,
+    model: PriceModel,
     rfpData: import('../../database.types').RfpParsedData,
     company: import('../../database.types').Company,
     sharedContext: VolumeSharedContext,
+    volumeNumber: number,
     jobId: string
 ): Promise<string> {
-    const ratesSummary = laborRates.map(r => 
-        `- ${r.category}: $${r.hourly_rate}/hr`
-    ).join('\n')
-
-    const clinsSummary = clins.length > 0
-        ? clins.map(c => `- ${c.clin}: ${c.description}`).join('\n')
-        : 'CLINs to be priced per RFP requirements'
+    const structure = pricingStructure(model.inputs)
+    const tables: Record<string, string> = {
+        clin_summary: priceSummaryTable(model),
+        cost_build_up: costBuildUpTable(model),
+    }
+    let pricingTables: string
+    if (structure.contract_type === 'T&M') {
+        tables.tm_ceiling = tmCeilingTable(model)
+        pricingTables = `<h3>Ceiling Price by CLIN</h3>
+<p>One sentence introducing the table</p>
+[[TABLE:clin_summary]]
+
+<h3>Labor Hour Ceilings and Fixed Hourly Rates</h3>
+<p>One sentence introducing the table</p>
+[[TABLE:tm_ceiling]]
+${model.odc_lines.length > 0 ? '\n<h3>Materials</h3>\n<p>How materials are reimbursed at cost plus material handling, with no fee</p>\n' : ''}
+<h3>Rate Build-Up</h3>
+<p>One sentence introducing the table</p>
+[[TABLE:cost_build_up]]`
+    } else if (structure.contract_type === 'Cost-Plus') {
+        tables.fee_structure = feeStructureTable(model)
+        pricingTables = `<h3>Estimated Cost and Fee by CLIN</h3>
+<p>One sentence introducing the table</p>
+[[TABLE:clin_summary]]
+
+<h3>Cost Element Summary</h3>
+<p>One sentence introducing the table</p>
+[[TABLE:cost_build_up]]
+
+<h3>Fee</h3>
+<p>How the ${structure.fee_type || 'CPFF'} fee is earned</p>
+[[TABLE:fee_structure]]`
+    } else {
+        pricingTables = `<h3>Firm-Fixed Price by CLIN</h3>
+<p>One sentence introducing the table</p>
+[[TABLE:clin_summary]]
+
+<h3>Cost Build-Up</h3>
+<p>One sentence introducing the table</p>
+[[TABLE:cost_build_up]]`
+    }
 
     const prompt = `Write a Price Summary section (2-3 pages) for a federal proposal.
 
 COMPANY: ${company.name}
-CONTRACT TYPE: ${rfpData.metadata.contract_type || 'Per RFP'}
+CONTRACT TYPE: ${contractTypeLabel(structure)}${rfpData.metadata.contract_type ? ` (solicitation: ${rfpData.metadata.contract_type})` : ''}
+${CONTRACT_TYPE_GUIDANCE[structure.contract_type]}
 SOLICITATION: ${rfpData.metadata.solicitation_num}
 
-LABOR RATES TO USE:
-${ratesSummary}
+PRICING FACTS [source: ${PRICING_FACTS_SOURCE}]:
+${pricingFacts(model)}
 
-CLINs:
-${clinsSummary}
-
-STRUCTURE:
+${formatClarifications(sharedContext, 'price')}${formatVolumeWinThemes(sharedContext, volumeNumber)}STRUCTURE:
 
 <h2>Price Summary</h2>
 
 <h3>Executive Summary</h3>
-<p>Brief paragraph with total proposed price and key highlights</p>
+<p>Brief paragraph with the total proposed price and key highlights</p>
 
-<h3>Price Summary by CLIN</h3>
-Create a SIMPLE table with these exact columns:
-| CLIN | Description | Base Year | Option Y1 | Option Y2 | Option Y3 | Option Y4 | Total |
-
-Use proper <thead> and <tbody> tags. Format all dollar amounts with commas.
-Keep Description column to 3-4 words max.
+${pricingTables}
 
 <h3>Pricing Methodology</h3>
-<p>Narrative paragraph explaining methodology</p>
+<p>Narrative paragraph explaining the bottom-up methodology</p>
 
 <h3>Compliance Statement</h3>
 <p>Paragraph confirming compliance with RFP pricing instructions</p>
 
-IMPORTANT: Table cells must be SHORT. Descriptions should be brief (e.g., "Base Year Support", not long sentences).
 OUTPUT HTML - START WITH <h2>Price Summary</h2>`
 
     const content = await callClaude({
@@ -271,36 +477,49 @@ OUTPUT HTML - START WITH <h2>Price Summary</h2>`
         jobId,
     })
 
-    return sanitizeContent(content)
+    return insertTables(sanitizeContent(content), tables)
 }
 
 async function writeLaborMatrix(
+    model: PriceModel,
     laborRates: import('../../database.types').LaborRate[],
-    rfpData: import('../../database.types').RfpParsedData,
     sharedContext: VolumeSharedContext,
     jobId: string
 ): Promise<string> {
-    const ratesDetail = laborRates.map(r => 
-        `- ${r.category}: Base $${r.hourly_rate}/hr, Y1: $${r.year_1_rate || r.hourly_rate}, Y2: $${r.year_2_rate || Math.round(r.hourly_rate * 1.03)}, Y3: $${r.year_3_rate || Math.round(r.hourly_rate * 1.06)}`
-    ).join('\n')
+    const rateBasis = laborRates
+        .filter(r => r.basis_of_rates || r.rate_justification)
+        .map(r => `- ${r.category}: ${[r.basis_of_rates, r.rate_justification].filter(Boolean).join('; ')} [source: ${sourceTag('labor_rate', r.id)}]`)
+        .join('\n')
+
+    const contractType = pricingStructure(model.inputs).contract_type
+    const burdenedHeading = contractType === 'T&M'
+        ? 'Fixed Hourly Rates'
+        : contractType === 'Cost-Plus' ? 'Fully Burdened Labor Rates (Estimated)' : 'Fully Burdened Labor Rates'
 
     const prompt = `Write a Labor Rate Matrix section (2-3 pages).
 
-LABOR CATEGORIES AND RATES:
-${ratesDetail}
+PRICING FACTS [source: ${PRICING_FACTS_SOURCE}]:
+${pricingFacts(model)}
+
+RATE BASIS FROM THE COMPANY:
+${rateBasis || '- Company labor rate schedule'}
+
+STRUCTURE:
 
-Create content with SEPARATE simple tables:
+<h2>Labor Rate Matrix</h2>
+<p>Intro paragraph</p>
+${model.inputs.rate_basis === 'direct' ? '<h3>Direct Labor Rates</h3>\n[[TABLE:direct_rates]]\n' : ''}<h3>${burdenedHeading}</h3>
+[[TABLE:burdened_rates]]
 
-TABLE 1 - Labor Categories (columns: Category | Base Rate | Y1 Rate | Y2 Rate | Y3 Rate | Y4 Rate)
-TABLE 2 - Hours Distribution (columns: Category | Base Hours | Y1 Hours | Y2 Hours | Y3 Hours | Y4 Hours | FTE)
+<h3>${contractType === 'T&M' ? 'Ceiling Hours' : 'Labor Hours'}</h3>
+[[TABLE:hours]]
 
 After the tables, write narrative paragraphs explaining:
 - Minimum qualifications for each category (as a bulleted list, NOT in a table)
 - Rate competitiveness statement
 - Basis for rates (GSA Schedule, market rates, etc.)
 - Escalation methodology
-
-IMPORTANT: Keep table cells SHORT (numbers and brief labels only). Put explanations in paragraphs outside tables.
+${contractType === 'T&M' ? '- The hourly rates are fixed for each period and billed only for hours worked, up to the ceiling hours\n' : ''}${contractType === 'Cost-Plus' ? '- Rates are estimates: actual allowable costs are billed, and the indirect rates are provisional billing rates subject to DCAA audit\n' : ''}
 OUTPUT HTML - START WITH <h2>Labor Rate Matrix</h2>`
 
     const content = await callClaude({
@@ -311,31 +530,37 @@ OUTPUT HTML - START WITH <h2>Labor Rate Matrix</h2>`
         jobId,
     })
 
-    return sanitizeContent(content)
+    const tables: Record<string, string> = {}
+    if (model.inputs.rate_basis === 'direct') tables.direct_rates = laborRateTable(model, 'direct')
+    tables.burdened_rates = laborRateTable(model, 'burdened')
+    tables.hours = laborHoursTable(model)
+    return insertTables(sanitizeContent(content), tables)
 }
 
 async function writeBasisOfEstimate(
-    clins: Array<{ clin: string; description: string; quantity: string; unit: string }>,
-    laborRates: import('../../database.types').LaborRate[],
+    model: PriceModel,
     pastPerformance: import('../../database.types').PastPerformance[],
-    rfpData: import('../../database.types').RfpParsedData,
     sharedContext: VolumeSharedContext,
     jobId: string
 ): Promise<string> {
-    const clinList = clins.length > 0
-        ? clins.map(c => `- ${c.clin}: ${c.description}`).join('\n')
-        : 'Base Year Services, Option Year 1-4 Services'
-
-    const relevantContracts = pastPerformance.slice(0, 2).map(p => 
-        `- ${p.project_name} ($${(p.contract_value || 0).toLocaleString()})`
+    const pricedClins = model.clin_totals.filter(c => c.total > 0)
+    const staffingBasis = model.inputs.labor
+        .filter(l => l.basis)
+        .map(l => `- CLIN ${l.clin}, ${l.category}: ${l.basis}`)
+        .join('\n')
+
+    // No contract values - a dollar figure the price model does not contain is cut from the volume
+    const relevantContracts = pastPerformance.slice(0, 2).map(p =>
+        `- ${p.project_name} (${p.agency}) [source: ${sourceTag('past_performance', p.id)}]`
     ).join('\n')
 
     const prompt = `Write a Basis of Estimate (BOE) section (3-4 pages).
 
-CLINs TO ESTIMATE:
-${clinList}
+PRICING FACTS [source: ${PRICING_FACTS_SOURCE}]:
+${pricingFacts(model)}
 
-LABOR CATEGORIES: ${laborRates.map(r => r.category).join(', ')}
+STAFFING BASIS PER CLIN AND LABOR CATEGORY:
+${staffingBasis || '- One FTE per labor category per period'}
 
 SIMILAR PAST CONTRACTS FOR REFERENCE:
 ${relevantContracts}
@@ -348,16 +573,14 @@ STRUCTURE YOUR OUTPUT AS:
 <p>Narrative paragraphs explaining bottom-up approach, historical data, SME input...</p>
 
 <h3>2. CLIN-by-CLIN Breakdown</h3>
-For each CLIN, use a SIMPLE table with columns: Task | Labor Category | Hours | Basis
-Then add a brief paragraph explaining the estimate rationale.
+${pricedClins.map(c => `<h4>CLIN ${c.clin}: ${c.description}</h4>\n[[TABLE:clin_${c.clin}]]\n<p>Brief paragraph explaining the staffing rationale for this CLIN</p>`).join('\n')}
 
 <h3>3. Assumptions and Exclusions</h3>
 <p>Use bulleted lists for assumptions and exclusions - NOT tables</p>
 
 <h3>4. Historical Basis</h3>
-<p>Narrative explaining past performance reference</p>
+<p>Narrative explaining past performance reference (do not cite contract values)</p>
 
-IMPORTANT: Tables should have SHORT cell content (numbers, brief labels). All explanations go in paragraphs.
 OUTPUT HTML - START WITH <h2>Basis of Estimate</h2>`
 
     const content = await callClaude({
@@ -368,28 +591,42 @@ OUTPUT HTML - START WITH <h2>Basis of Estimate</h2>`
         jobId,
     })
 
-    return sanitizeContent(content)
+    return insertTables(
+        sanitizeContent(content),
+        Object.fromEntries(pricedClins.map(c => [`clin_${c.clin}`, clinEstimateTable(model, c.clin)]))
+    )
 }
 
 async function writeCostNarrative(
-    laborRates: import('../../database.types').LaborRate[],
+    model: PriceModel,
     rfpData: import('../../database.types').RfpParsedData,
     company: import('../../database.types').Company,
     sharedContext: VolumeSharedContext,
+    volumeNumber: number,
     jobId: string
 ): Promise<string> {
+    const hasOdcs = model.odc_lines.length > 0
+    const structure = pricingStructure(model.inputs)
+    const firstTopic: Record<PricingContractType, string> = {
+        'FFP': '<h3>1. Price Realism</h3>\n<p>Paragraphs explaining how the firm price reflects actual costs, competitive positioning, no "buying in", and how performance risk is carried...</p>',
+        'T&M': '<h3>1. Ceiling Management</h3>\n<p>Paragraphs explaining how hours are tracked against the ceiling hours per labor category, early warning before a ceiling is reached, and billing only for hours worked at the fixed rates...</p>',
+        'Cost-Plus': '<h3>1. Cost Accounting System and Indirect Rates</h3>\n<p>Paragraphs explaining the cost accounting system\'s adequacy for cost-reimbursement work (DCAA), the basis of the fringe, overhead and G&A rates, and cost allowability (FAR Part 31)...</p>',
+    }
+
     const prompt = `Write a Cost Narrative section (2-3 pages).
 
 COMPANY: ${company.name}
-CONTRACT TYPE: ${rfpData.metadata.contract_type || 'FFP'}
-LABOR CATEGORIES: ${laborRates.length}
+CONTRACT TYPE: ${contractTypeLabel(structure)}${rfpData.metadata.contract_type ? ` (solicitation: ${rfpData.metadata.contract_type})` : ''}
+${CONTRACT_TYPE_GUIDANCE[structure.contract_type]}
+
+PRICING FACTS [source: ${PRICING_FACTS_SOURCE}]:
+${pricingFacts(model)}
 
-Create NARRATIVE content (primarily paragraphs and bulleted lists, minimal tables) covering:
+${formatClarifications(sharedContext, 'price')}${formatVolumeWinThemes(sharedContext, volumeNumber)}Create NARRATIVE content (paragraphs and bulleted lists) covering:
 
 <h2>Cost Narrative</h2>
 
-<h3>1. Price Realism</h3>
-<p>Paragraphs explaining how price reflects actual costs, competitive positioning, no "buying in"...</p>
+${firstTopic[structure.contract_type]}
 
 <h3>2. Cost Control Measures</h3>
 <p>Program management controls, EVM approach, cost monitoring...</p>
@@ -397,15 +634,12 @@ Create NARRATIVE content (primarily paragraphs and bulleted lists, minimal table
 <h3>3. Value Proposition</h3>
 <p>Best value, efficiency improvements, quality investment...</p>
 
-<h3>4. Other Direct Costs (ODCs)</h3>
-Use a SIMPLE table if needed: Category | Monthly Est | Annual Est | Basis
-Then narrative explaining travel, materials, other costs.
+<h3>4. ${structure.contract_type === 'T&M' ? 'Materials' : 'Other Direct Costs (ODCs)'}</h3>
+${hasOdcs ? `[[TABLE:odcs]]\n<p>Narrative explaining the travel, materials and other costs shown${structure.contract_type === 'T&M' ? ', reimbursed at cost plus material handling with no fee' : ''}</p>` : '<p>State that no ODCs are proposed beyond labor</p>'}
 
 <h3>5. Small Business Participation</h3>
 <p>Subcontracting goals, mentor-protégé relationships...</p>
-If showing percentages, use a simple 3-column table: Category | Goal | Commitment
 
-IMPORTANT: This section should be mostly NARRATIVE. Keep any tables simple with short cell content.
 OUTPUT HTML - START WITH <h2>Cost Narrative</h2>`
 
     const content = await callClaude({
@@ -416,17 +650,17 @@ OUTPUT HTML - START WITH <h2>Cost Narrative</h2>`
         jobId,
     })
 
-    return sanitizeContent(content)
+    return insertTables(sanitizeContent(content), hasOdcs ? { odcs: odcTable(model) } : {})
 }
 
 function wrapVolumeContent(
     sections: string[],
-    volumeTitle: string,
+    volume: ProposalVolume,
     rfpData: import('../../database.types').RfpParsedData
 ): string {
     const header = `
 <div class="volume-header">
-    <h1>Volume IV: ${volumeTitle}</h1>
+    <h1>Volume ${toRoman(volume.number)}: ${volume.name}</h1>
     <p class="solicitation">Solicitation: ${rfpData.metadata.solicitation_num}</p>
     <p class="agency">${rfpData.metadata.agency}</p>
 </div>
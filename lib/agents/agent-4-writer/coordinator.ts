@@ -5,9 +5,10 @@
  * ensuring consistency and quality.
  * 
  * RESPONSIBILITIES:
- * 1. Coordinate sub-agents 4A, 4B, 4C, 4D (one per volume)
+ * 1. Coordinate sub-agents 4A, 4B, 4C, 4D (one per volume kind - narrative
+ *    volumes such as Small Business Participation go to 4A)
  * 2. Ensure consistent voice across volumes
- * 3. Monitor page counts in real-time
+ * 3. Monitor page counts (rendered with the Section L format) against page limits
  * 4. Prevent hallucinations and generic content
  */
 
@@ -19,11 +20,32 @@ import {
     Agent4Output,
     VolumeWriteResult,
 } from '../types'
+import { ProposalVolume, VolumeProgress, VolumeWriterKind } from '../../database.types'
+import { batchSaveVolumes } from '../../inngest/db-helpers'
+import { countVolumePages, estimatePages } from '../../page-count'
+import {
+    legacyContentColumn,
+    resolveVolumeStructure,
+    toRoman,
+    volumeContentKey,
+    volumeOutlineKey,
+} from '../../volume-structure'
 import { writeVolume1Technical, ProgressCallback } from './agent-4a-technical'
 import { writeVolume2Management } from './agent-4b-management'
 import { writeVolume3PastPerformance } from './agent-4c-past-performance'
 import { writeVolume4Pricing } from './agent-4d-pricing'
 
+type VolumeWriter = (context: AgentContext, callback?: ProgressCallback) => Promise<VolumeWriteResult>
+
+// Sub-agent per volume kind
+const WRITERS: Record<VolumeWriterKind, { agent: string; write: VolumeWriter }> = {
+    technical: { agent: '4A', write: writeVolume1Technical },
+    management: { agent: '4B', write: writeVolume2Management },
+    past_performance: { agent: '4C', write: writeVolume3PastPerformance },
+    price: { agent: '4D', write: writeVolume4Pricing },
+    narrative: { agent: '4A', write: writeVolume1Technical },
+}
+
 export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
     name = 'agent_4' as const
     description = 'Coordinates parallel volume writing'
@@ -76,58 +98,63 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
             // Update status
             await this.updateAgentStatus(context.jobId, 'running')
 
+            const structure = resolveVolumeStructure(context.volumeStructure)
+
             // Check for existing checkpoints from previous attempts
-            const checkpoints = await this.loadCheckpoints(context.jobId)
+            const checkpoints = await this.loadCheckpoints(context.jobId, structure)
             console.log(`[Agent 4] Checkpoint status: ${Object.keys(checkpoints).join(', ') || 'none'}`)
             
             // NEW: Per-volume mode - generate only the specified volume
             if (targetVolume) {
-                if (![1, 2, 3, 4].includes(targetVolume)) {
+                const volume = structure.find(v => v.number === targetVolume)
+                if (!volume) {
                     return {
                         status: 'error',
                         data: null as unknown as Agent4Output,
-                        errors: [`Invalid volume number: ${targetVolume}. Must be 1, 2, 3, or 4.`],
+                        errors: [`Invalid volume number: ${targetVolume}. Must be one of ${structure.map(v => v.number).join(', ')}.`],
                     }
                 }
-                return await this.executeSingleVolume(context, targetVolume as 1 | 2 | 3 | 4, checkpoints, startTime, progressCallback)
+                return await this.executeSingleVolume(context, volume, checkpoints, startTime, progressCallback)
             }
             
-            // LEGACY: Run all 4 volume writers in parallel, using checkpoints if available
+            // LEGACY: Run all volume writers in parallel, using checkpoints if available
             console.log(`[Agent 4] Starting parallel volume generation...`)
             
-            const [volume1, volume2, volume3, volume4] = await Promise.all([
-                checkpoints.volume1 ? Promise.resolve(checkpoints.volume1) : this.writeWithProgress(context, 1, writeVolume1Technical),
-                checkpoints.volume2 ? Promise.resolve(checkpoints.volume2) : this.writeWithProgress(context, 2, writeVolume2Management),
-                checkpoints.volume3 ? Promise.resolve(checkpoints.volume3) : this.writeWithProgress(context, 3, writeVolume3PastPerformance),
-                checkpoints.volume4 ? Promise.resolve(checkpoints.volume4) : this.writeWithProgress(context, 4, writeVolume4Pricing),
-            ])
+            const results = await Promise.all(structure.map(volume =>
+                checkpoints[volumeContentKey(volume.number)]
+                    ? Promise.resolve(checkpoints[volumeContentKey(volume.number)])
+                    : this.writeWithProgress(context, volume)
+            ))
 
             // Calculate totals
-            const totalPages = volume1.pageCount + volume2.pageCount + volume3.pageCount + volume4.pageCount
+            const totalPages = results.reduce((sum, r) => sum + r.pageCount, 0)
 
             const elapsed = ((Date.now() - startTime) / 1000 / 60).toFixed(1)
             console.log(`[Agent 4] ✓ All volumes complete in ${elapsed} minutes`)
-            console.log(`[Agent 4] Volume I: ${volume1.pageCount} pages`)
-            console.log(`[Agent 4] Volume II: ${volume2.pageCount} pages`)
-            console.log(`[Agent 4] Volume III: ${volume3.pageCount} pages`)
-            console.log(`[Agent 4] Volume IV: ${volume4.pageCount} pages`)
+            structure.forEach((volume, i) => {
+                console.log(`[Agent 4] Volume ${toRoman(volume.number)} (${volume.name}): ${results[i].pageCount} pages`)
+            })
             console.log(`[Agent 4] Total: ${totalPages} pages`)
 
+            const volumes: Agent4Output['volumes'] = {}
+            const volumeProgress: VolumeProgress = {}
+            const legacyColumns: Record<string, string> = {}
+            structure.forEach((volume, i) => {
+                volumes[volumeContentKey(volume.number)] = results[i]
+                volumeProgress[volumeOutlineKey(volume.number)] = this.progressEntry(volume, results[i])
+                const column = legacyContentColumn(structure, volume.number)
+                if (column) legacyColumns[column] = results[i].content
+            })
+            const firstTechnical = structure.find(v => v.writer === 'technical')
+
             // Save volumes to database
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const { error } = await (supabase.from('proposal_jobs') as any)
                 .update({
-                    executive_summary: volume1.content.substring(0, 50000), // First part
-                    technical_approach: volume1.content,
-                    management_approach: volume2.content,
-                    past_performance_volume: volume3.content,
-                    pricing: volume4.content,
-                    volume_progress: {
-                        volume_1: { pages: volume1.pageCount, status: 'complete' },
-                        volume_2: { pages: volume2.pageCount, status: 'complete' },
-                        volume_3: { pages: volume3.pageCount, status: 'complete' },
-                        volume_4: { pages: volume4.pageCount, status: 'complete' },
-                    },
+                    ...(firstTechnical && { executive_summary: volumes[volumeContentKey(firstTechnical.number)]?.content.substring(0, 50000) }), // First part
+                    ...legacyColumns,
+                    volumes: Object.fromEntries(Object.entries(volumes).map(([key, v]) => [key, v?.content])),
+                    volume_progress: volumeProgress,
                     current_agent: 'agent_4',
                     agent_progress: {
                         agent_0: { status: 'complete' },
@@ -150,19 +177,13 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
             return {
                 status: 'success',
                 data: {
-                    volumes: {
-                        volume1,
-                        volume2,
-                        volume3,
-                        volume4,
-                    },
+                    volumes,
                     totalPages,
                 },
                 nextAgent: 'agent_5',
                 metadata: {
                     durationMinutes: parseFloat(elapsed),
-                    totalCharacters: volume1.content.length + volume2.content.length + 
-                                    volume3.content.length + volume4.content.length,
+                    totalCharacters: results.reduce((sum, r) => sum + r.content.length, 0),
                 },
             }
         } catch (error) {
@@ -182,54 +203,32 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
      */
     private async executeSingleVolume(
         context: AgentContext,
-        volumeNumber: 1 | 2 | 3 | 4,
-        checkpoints: {
-            volume1?: VolumeWriteResult
-            volume2?: VolumeWriteResult
-            volume3?: VolumeWriteResult
-            volume4?: VolumeWriteResult
-        },
+        volume: ProposalVolume,
+        checkpoints: Record<string, VolumeWriteResult>,
         startTime: number,
         progressCallback?: ProgressCallback
     ): Promise<AgentResult<Agent4Output>> {
-        console.log(`[Agent 4] Single-volume mode: generating Volume ${volumeNumber} only`)
+        const volumeNumber = volume.number
+        console.log(`[Agent 4] Single-volume mode: generating Volume ${volumeNumber} (${volume.name}) only`)
         
         // Get the checkpoint for this volume if available
-        const checkpointKey = `volume${volumeNumber}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
-        const checkpoint = checkpoints[checkpointKey]
-        
-        // Map volume number to writer function
-        const writerMap = {
-            1: (ctx: AgentContext, callback?: ProgressCallback) => writeVolume1Technical(ctx, callback),
-            2: (ctx: AgentContext, callback?: ProgressCallback) => writeVolume2Management(ctx, callback),
-            3: (ctx: AgentContext, callback?: ProgressCallback) => writeVolume3PastPerformance(ctx, callback),
-            4: (ctx: AgentContext, callback?: ProgressCallback) => writeVolume4Pricing(ctx, callback),
-        }
+        const volumeKey = volumeContentKey(volumeNumber)
+        const checkpoint = checkpoints[volumeKey]
         
         // Generate the volume with progress callback
         const volumeResult = checkpoint 
             ? await Promise.resolve(checkpoint)
-            : await this.writeWithProgress(context, volumeNumber, writerMap[volumeNumber], progressCallback)
+            : await this.writeWithProgress(context, volume, progressCallback)
         
         const elapsed = ((Date.now() - startTime) / 1000 / 60).toFixed(1)
         console.log(`[Agent 4] ✓ Volume ${volumeNumber} complete in ${elapsed} minutes (${volumeResult.pageCount} pages)`)
         
-        // Save to database (single volume)
-        const volumeFieldMap = {
-            1: 'technical_approach',
-            2: 'management_approach',
-            3: 'past_performance_volume',
-            4: 'pricing',
-        }
+        // Save to database (single volume) - content goes through the volumes JSONB
+        await batchSaveVolumes(context.jobId, { [volumeKey]: volumeResult.content }, 1)
         
+        await this.updateVolumeProgress(context.jobId, volumeNumber, this.progressEntry(volume, volumeResult))
+
         const updates: Record<string, unknown> = {
-            [volumeFieldMap[volumeNumber]]: volumeResult.content,
-            volume_progress: {
-                [`volume_${volumeNumber}`]: { 
-                    pages: volumeResult.pageCount, 
-                    status: 'complete' 
-                },
-            },
             current_agent: 'agent_4',
             agent_progress: {
                 agent_4: {
@@ -240,8 +239,8 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
             },
         }
         
-        // Also save executive summary for volume 1
-        if (volumeNumber === 1) {
+        // Also save executive summary for the technical volume
+        if (legacyContentColumn(resolveVolumeStructure(context.volumeStructure), volumeNumber) === 'technical_approach') {
             updates.executive_summary = volumeResult.content.substring(0, 50000)
         }
         
@@ -254,18 +253,11 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
             throw new Error(`Failed to save volume ${volumeNumber}: ${error.message}`)
         }
         
-        // Return result with only this volume
-        const volumes = {
-            volume1: volumeNumber === 1 ? volumeResult : undefined,
-            volume2: volumeNumber === 2 ? volumeResult : undefined,
-            volume3: volumeNumber === 3 ? volumeResult : undefined,
-            volume4: volumeNumber === 4 ? volumeResult : undefined,
-        }
-        
         return {
             status: 'success',
             data: {
-                volumes: volumes as Agent4Output['volumes'],
+                // Return result with only this volume
+                volumes: { [volumeKey]: volumeResult },
                 totalPages: volumeResult.pageCount,
             },
             nextAgent: 'agent_5', // Still goes to agent 5 for scoring
@@ -280,29 +272,40 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
 
     private async writeWithProgress(
         context: AgentContext,
-        volumeNumber: number,
-        writeFn: (context: AgentContext, callback?: ProgressCallback) => Promise<VolumeWriteResult>,
+        volume: ProposalVolume,
         progressCallback?: ProgressCallback
     ): Promise<VolumeWriteResult> {
-        console.log(`[Agent 4${String.fromCharCode(64 + volumeNumber)}] Starting Volume ${volumeNumber}...`)
+        const volumeNumber = volume.number
+        const writer = WRITERS[volume.writer]
+        console.log(`[Agent ${writer.agent}] Starting Volume ${volumeNumber} (${volume.name})...`)
         
         try {
             // Mark as running
-            await this.updateVolumeProgress(context.jobId, volumeNumber, 0, 'running')
+            await this.updateVolumeProgress(context.jobId, volumeNumber, { pages: 0, status: 'running' })
             
-            const result = await writeFn(context, progressCallback)
-            console.log(`[Agent 4${String.fromCharCode(64 + volumeNumber)}] ✓ Volume ${volumeNumber} complete (${result.pageCount} pages)`)
+            // Writers pick their volume (outline, requirements, heading) from targetVolume
+            const written = await writer.write({ ...context, targetVolume: volumeNumber }, progressCallback)
+
+            // Writers estimate pages from length - the page limit is enforced on the rendered count
+            const count = await countVolumePages(written.content, context.rfpParsedData?.section_l.format, context.jobId)
+            const result: VolumeWriteResult = {
+                ...written,
+                pageCount: count.pages,
+                pagesRendered: count.rendered,
+                sectionPages: count.sections,
+            }
+            console.log(`[Agent ${writer.agent}] ✓ Volume ${volumeNumber} complete (${result.pageCount} pages${count.rendered ? '' : ', estimated'}, limit ${volume.page_limit ?? 'none'})`)
             
             // CHECKPOINT: Save completed volume content immediately
-            await this.saveVolumeCheckpoint(context.jobId, volumeNumber, result)
+            await this.saveVolumeCheckpoint(context, volume, result)
             
             // Update progress in database
-            await this.updateVolumeProgress(context.jobId, volumeNumber, result.pageCount, 'complete')
+            await this.updateVolumeProgress(context.jobId, volumeNumber, this.progressEntry(volume, result))
             
             return result
         } catch (error) {
-            console.error(`[Agent 4${String.fromCharCode(64 + volumeNumber)}] ✗ Volume ${volumeNumber} failed:`, error)
-            await this.updateVolumeProgress(context.jobId, volumeNumber, 0, 'failed')
+            console.error(`[Agent ${writer.agent}] ✗ Volume ${volumeNumber} failed:`, error)
+            await this.updateVolumeProgress(context.jobId, volumeNumber, { pages: 0, status: 'failed' })
             throw error
         }
     }
@@ -311,46 +314,32 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
      * Save volume content as a checkpoint so progress isn't lost if the job fails
      */
     private async saveVolumeCheckpoint(
-        jobId: string,
-        volumeNumber: number,
+        context: AgentContext,
+        volume: ProposalVolume,
         result: VolumeWriteResult
     ): Promise<void> {
-        const volumeField = volumeNumber === 1 ? 'technical_approach' :
-                           volumeNumber === 2 ? 'management_approach' :
-                           volumeNumber === 3 ? 'past_performance_volume' :
-                           'pricing'
+        await batchSaveVolumes(context.jobId, { [volumeContentKey(volume.number)]: result.content }, 1)
         
-        // Also save executive summary from volume 1
-        const updates: Record<string, unknown> = {
-            [volumeField]: result.content,
-        }
-        
-        if (volumeNumber === 1) {
-            updates.executive_summary = result.content.substring(0, 50000)
+        // Also save executive summary from the technical volume
+        if (legacyContentColumn(resolveVolumeStructure(context.volumeStructure), volume.number) === 'technical_approach') {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            await (supabase.from('proposal_jobs') as any)
+                .update({ executive_summary: result.content.substring(0, 50000) })
+                .eq('job_id', context.jobId)
         }
-        
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (supabase.from('proposal_jobs') as any)
-            .update(updates)
-            .eq('job_id', jobId)
             
-        console.log(`[Agent 4${String.fromCharCode(64 + volumeNumber)}] ✓ Volume ${volumeNumber} checkpoint saved`)
+        console.log(`[Agent ${WRITERS[volume.writer].agent}] ✓ Volume ${volume.number} checkpoint saved`)
     }
     
     /**
      * Load existing volume checkpoints from a previous (failed) attempt
      * Returns volumes that were already completed so they don't need to be regenerated
      */
-    private async loadCheckpoints(jobId: string): Promise<{
-        volume1?: VolumeWriteResult
-        volume2?: VolumeWriteResult
-        volume3?: VolumeWriteResult
-        volume4?: VolumeWriteResult
-    }> {
+    private async loadCheckpoints(jobId: string, structure: ProposalVolume[]): Promise<Record<string, VolumeWriteResult>> {
         try {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const { data } = await (supabase.from('proposal_jobs') as any)
-                .select('technical_approach, management_approach, past_performance_volume, pricing, volume_progress')
+                .select('volumes, technical_approach, management_approach, past_performance_volume, pricing, volume_progress')
                 .eq('job_id', jobId)
                 .single()
             
@@ -361,52 +350,25 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
             // Check if each volume has content and was marked complete
             const volumeProgress = data.volume_progress || {}
             
-            if (data.technical_approach && volumeProgress.volume_1?.status === 'complete') {
-                const pages = volumeProgress.volume_1.pages || Math.ceil(data.technical_approach.length / 3000)
-                checkpoints.volume1 = {
-                    volumeNumber: 1,
-                    content: data.technical_approach,
-                    pageCount: pages,
-                    sectionsWritten: [],
-                    requirementsAddressed: [],
-                }
-                console.log(`[Agent 4A] ✓ Volume 1 loaded from checkpoint (${pages} pages)`)
-            }
-            
-            if (data.management_approach && volumeProgress.volume_2?.status === 'complete') {
-                const pages = volumeProgress.volume_2.pages || Math.ceil(data.management_approach.length / 3000)
-                checkpoints.volume2 = {
-                    volumeNumber: 2,
-                    content: data.management_approach,
-                    pageCount: pages,
-                    sectionsWritten: [],
-                    requirementsAddressed: [],
-                }
-                console.log(`[Agent 4B] ✓ Volume 2 loaded from checkpoint (${pages} pages)`)
-            }
-            
-            if (data.past_performance_volume && volumeProgress.volume_3?.status === 'complete') {
-                const pages = volumeProgress.volume_3.pages || Math.ceil(data.past_performance_volume.length / 3000)
-                checkpoints.volume3 = {
-                    volumeNumber: 3,
-                    content: data.past_performance_volume,
+            for (const volume of structure) {
+                // Checkpoints from before the volumes JSONB only exist in the legacy columns
+                const column = legacyContentColumn(structure, volume.number)
+                const content: string | undefined = data.volumes?.[volumeContentKey(volume.number)] || (column ? data[column] : undefined)
+                const progress = volumeProgress[volumeOutlineKey(volume.number)]
+                
+                if (!content || progress?.status !== 'complete') continue
+                
+                const pages = progress.pages || estimatePages(content)
+                checkpoints[volumeContentKey(volume.number)] = {
+                    volumeNumber: volume.number,
+                    content,
                     pageCount: pages,
                     sectionsWritten: [],
                     requirementsAddressed: [],
+                    pagesRendered: progress.rendered,
+                    sectionPages: progress.section_pages,
                 }
-                console.log(`[Agent 4C] ✓ Volume 3 loaded from checkpoint (${pages} pages)`)
-            }
-            
-            if (data.pricing && volumeProgress.volume_4?.status === 'complete') {
-                const pages = volumeProgress.volume_4.pages || Math.ceil(data.pricing.length / 3000)
-                checkpoints.volume4 = {
-                    volumeNumber: 4,
-                    content: data.pricing,
-                    pageCount: pages,
-                    sectionsWritten: [],
-                    requirementsAddressed: [],
-                }
-                console.log(`[Agent 4D] ✓ Volume 4 loaded from checkpoint (${pages} pages)`)
+                console.log(`[Agent ${WRITERS[volume.writer].agent}] ✓ Volume ${volume.number} loaded from checkpoint (${pages} pages)`)
             }
             
             return checkpoints
@@ -416,19 +378,37 @@ export class Agent4Coordinator implements Agent<AgentContext, Agent4Output> {
         }
     }
 
+    /**
+     * volume_progress entry for a written volume, with its page count and per-section usage
+     */
+    private progressEntry(volume: ProposalVolume, result: VolumeWriteResult): VolumeProgress[string] {
+        return {
+            pages: result.pageCount,
+            status: 'complete',
+            page_limit: volume.page_limit,
+            rendered: result.pagesRendered ?? false,
+            section_pages: result.sectionPages || [],
+        }
+    }
+
     private async updateVolumeProgress(
         jobId: string,
         volumeNumber: number,
-        pages: number,
-        status: 'running' | 'complete' | 'failed'
+        progress: VolumeProgress[string]
     ): Promise<void> {
-        const volumeKey = `volume_${volumeNumber}`
-        
+        // Merge - the other volumes' entries stay as they are
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data } = await (supabase.from('proposal_jobs') as any)
+            .select('volume_progress')
+            .eq('job_id', jobId)
+            .single()
+
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         await (supabase.from('proposal_jobs') as any)
             .update({
                 volume_progress: {
-                    [volumeKey]: { pages, status },
+                    ...data?.volume_progress,
+                    [volumeOutlineKey(volumeNumber)]: progress,
                 },
             })
             .eq('job_id', jobId)
@@ -8,8 +8,14 @@
  */
 
 import { AgentContext } from '../types'
-import { RfpRequirement, RfpEvaluationFactor } from '../../database.types'
+import { AwardBasis, ContentOutlines, LibraryPassage, ProposalVolume, RfpRequirement, SectionOutline, VolumeWriterKind, WinTheme } from '../../database.types'
 import { logger } from '../../logger'
+import { resolveVolumeStructure, toRoman, volumeOutlineKey } from '../../volume-structure'
+import { describeMethodology, writingEmphasis } from '../../evaluation-methodology'
+import { sourceTag } from '../../provenance'
+import { LIBRARY_WRITERS, buildLibraryIndex, loadContentLibrary, searchLibrary } from '../../content-library'
+import { formatWinThemes, themesForVolume } from '../../win-themes'
+import { formatGhosting } from '../../competition'
 
 // ============================================================================
 // TYPES
@@ -22,13 +28,20 @@ export interface VolumeSharedContext {
         solicitationNum: string
         deadline: string
         evaluationFactors: Array<{ name: string; weight: number }>
+        evaluationMethodology: {
+            awardBasis: AwardBasis
+            description: string // Basis for award, relative importance, rating scheme
+            emphasis: string[] // How to write for this methodology
+        }
         disqualifiers: string[]
-        mandatoryRequirements: Array<{ id: string; text: string }>
+        mandatoryRequirements: Array<{ id: string; text: string; clarification?: string }>
+        clarifications: Array<{ id: string; question: string; answer: string }> // Government Q&A, linked to a requirement or not
     }
     
     // Pre-processed company data (computed once)
     companySummary: {
         name: string
+        source: string // Source tag for the company record
         capabilities: string[]
         certifications: string[]
         keyPersonnel: Array<{ 
@@ -36,11 +49,13 @@ export interface VolumeSharedContext {
             role: string
             experience: number
             certs: string[]
+            source: string
         }>
         pastPerformance: Array<{ 
             project: string
             agency: string
             relevance: string
+            source: string
         }>
     }
     
@@ -51,6 +66,7 @@ export interface VolumeSharedContext {
         evalFactor: string
         mandatory: boolean
         priority: 'critical' | 'high' | 'medium'
+        clarification?: string // Government Q&A interpretation
     }>
     
     // Volume-specific requirements (filtered once per volume)
@@ -58,7 +74,17 @@ export interface VolumeSharedContext {
         id: string
         text: string
         priority: 'critical' | 'high' | 'medium'
+        clarification?: string // Government Q&A interpretation
     }>>
+
+    // Approved passages from the company's content library, keyed by libraryKey()
+    libraryPassages: Map<string, LibraryPassage[]>
+
+    // Win themes each volume carries (routed once per volume)
+    winThemes: Map<number, WinTheme[]>
+
+    // Competitor weaknesses / strengths to ghost, with every competitor name removed ('' when none)
+    ghosting: string
 }
 
 // ============================================================================
@@ -143,26 +169,36 @@ function determineRequirementPriority(req: RfpRequirement): 'critical' | 'high'
     return 'medium'
 }
 
+// Eval factor keywords per writer kind (narrative volumes use their own name and factors)
+const WRITER_KEYWORDS: Record<VolumeWriterKind, string[]> = {
+    technical: ['technical', 'technology', 'solution', 'architecture', 'implementation'],
+    management: ['management', 'program', 'project', 'staffing', 'transition', 'quality'],
+    past_performance: ['past performance', 'experience', 'similar', 'relevant'],
+    price: ['pricing', 'cost', 'price', 'financial', 'labor'],
+    narrative: [],
+}
+
 /**
  * Filter requirements by volume
  */
 function filterRequirementsByVolume(
     requirements: RfpRequirement[],
-    volumeNumber: number
+    volume: ProposalVolume,
+    complianceMatrix: ContentOutlines['compliance_matrix'] = []
 ): RfpRequirement[] {
-    const volumeKeywords = {
-        1: ['technical', 'technology', 'solution', 'architecture', 'implementation'],
-        2: ['management', 'program', 'project', 'staffing', 'transition', 'quality'],
-        3: ['past performance', 'experience', 'similar', 'relevant'],
-        4: ['pricing', 'cost', 'price', 'financial', 'labor']
-    }
-    
-    const keywords = volumeKeywords[volumeNumber as keyof typeof volumeKeywords] || []
-    
+    const keywords = volume.writer === 'narrative'
+        ? [volume.name, ...volume.eval_factors].map(k => k.toLowerCase().replace(/\bvolume\b/g, '').trim()).filter(Boolean)
+        : [...WRITER_KEYWORDS[volume.writer], ...volume.eval_factors.map(f => f.toLowerCase())]
+
+    // Agent 3's mapping wins over keyword guessing
+    const mapped = new Set(complianceMatrix.filter(item => item.volume === volume.number).map(item => item.req_id))
+
     return requirements.filter(req => {
+        if (mapped.has(req.id)) return true
+
         // Check if explicitly assigned to volume
         if (req.volume) {
-            return req.volume.includes(`${volumeNumber}`) || req.volume.includes(['I', 'II', 'III', 'IV'][volumeNumber - 1])
+            return req.volume.includes(`${volume.number}`) || req.volume.includes(toRoman(volume.number))
         }
         
         // Check eval_factor matches volume
@@ -175,6 +211,128 @@ function filterRequirementsByVolume(
 // MAIN BUILDER
 // ============================================================================
 
+/**
+ * Prompt block telling the writer how the agency will evaluate
+ */
+export function formatEvaluationMethodology(sharedContext: VolumeSharedContext): string {
+    const { description, emphasis } = sharedContext.rfpSummary.evaluationMethodology
+    return [description, ...emphasis.map(e => `• ${e}`)].join('\n')
+}
+
+/**
+ * Key of an outline section in VolumeSharedContext.libraryPassages
+ */
+export function libraryKey(volumeNumber: number, sectionTitle: string): string {
+    return `${volumeNumber}:${sectionTitle}`
+}
+
+/**
+ * Prompt block with the library passages retrieved for an outline section
+ * (empty when the library has nothing relevant)
+ */
+export function formatLibraryPassages(sharedContext: VolumeSharedContext, volumeNumber: number, sectionTitle: string): string {
+    const passages = sharedContext.libraryPassages.get(libraryKey(volumeNumber, sectionTitle)) || []
+    if (passages.length === 0) return ''
+
+    return `APPROVED CONTENT FROM THE COMPANY LIBRARY (reuse the approach, structure and phrasing where it fits this RFP;
+rewrite it for this agency and these requirements - do not copy names, numbers or claims the company data above does not support):
+${passages.map((p, i) => {
+        const origin = p.kind === 'boilerplate'
+            ? 'company boilerplate'
+            : `approved in a past proposal${p.source_score !== null ? `, volume scored ${p.source_score}%` : ''}`
+        return `[${i + 1}] "${p.title}" (${origin}):\n${p.text}`
+    }).join('\n\n')}
+
+`
+}
+
+/**
+ * Prompt block with the win themes a volume carries (empty when it carries none)
+ */
+export function formatVolumeWinThemes(sharedContext: VolumeSharedContext, volumeNumber: number): string {
+    return formatWinThemes(sharedContext.winThemes.get(volumeNumber) || [])
+}
+
+// Q&A topics per writer without requirement-by-requirement sections (their Q&A rarely links to Section C)
+const CLARIFICATION_TOPICS: Partial<Record<VolumeWriterKind, RegExp>> = {
+    past_performance: /past performance|reference|cpars|ppq|questionnaire|similar (?:contract|effort|work)|relevan/i,
+    price: /pric|cost|rate|clin|labor (?:categor|hour)|hours|fee|odc|travel|escalat|contract type|ceiling/i,
+}
+
+// Q&A pairs handed to a writer
+const MAX_CLARIFICATIONS = 10
+
+/**
+ * Prompt block with the government Q&A on a writer's topic (empty when none)
+ */
+export function formatClarifications(sharedContext: VolumeSharedContext, writer: VolumeWriterKind): string {
+    const topic = CLARIFICATION_TOPICS[writer]
+    const pairs = sharedContext.rfpSummary.clarifications
+        .filter(c => !topic || topic.test(`${c.question} ${c.answer}`))
+        .slice(0, MAX_CLARIFICATIONS)
+    if (pairs.length === 0) return ''
+
+    return `GOVERNMENT Q&A (the answers clarify or override the solicitation - follow them):
+${pairs.map(c => `- ${c.id}: Q: ${c.question}\n  A: ${c.answer}`).join('\n')}
+
+`
+}
+
+// Library passages handed to the writer per outline section
+const LIBRARY_PASSAGES_PER_SECTION = 3
+
+/**
+ * Library passages for every outline section of the volumes that reuse library content
+ */
+async function retrieveLibraryPassages(
+    context: AgentContext,
+    complianceMatrix: VolumeSharedContext['complianceMatrix']
+): Promise<Map<string, LibraryPassage[]>> {
+    const passages = new Map<string, LibraryPassage[]>()
+
+    let entries
+    try {
+        entries = await loadContentLibrary(context.companyId)
+    } catch (error) {
+        logger.warn('[Shared Context] Content library unavailable - writing without it', {
+            jobId: context.jobId,
+            data: { error: error instanceof Error ? error.message : String(error) }
+        })
+        return passages
+    }
+    if (entries.length === 0) return passages
+
+    const index = buildLibraryIndex(entries)
+    for (const volume of resolveVolumeStructure(context.volumeStructure)) {
+        if (!LIBRARY_WRITERS.includes(volume.writer)) continue
+        const sections = context.contentOutlines?.[volumeOutlineKey(volume.number)]?.sections || []
+        for (const section of sections) {
+            const found = searchLibrary(index, sectionQuery(volume, section, complianceMatrix), {
+                limit: LIBRARY_PASSAGES_PER_SECTION,
+                writer: volume.writer,
+                excludeJobId: context.jobId,
+            })
+            if (found.length > 0) passages.set(libraryKey(volume.number, section.title), found)
+        }
+    }
+
+    return passages
+}
+
+// What the section is about: its title, subsections and the requirements it answers
+function sectionQuery(
+    volume: ProposalVolume,
+    section: SectionOutline,
+    complianceMatrix: VolumeSharedContext['complianceMatrix']
+): string {
+    return [
+        volume.name,
+        section.title,
+        ...(section.subsections || []).map(s => s.title),
+        ...(section.requirements_addressed || []).map(id => complianceMatrix.get(id)?.requirementText || ''),
+    ].join(' ')
+}
+
 /**
  * Build comprehensive shared context for volume generation
  * 
@@ -216,10 +374,17 @@ export async function buildVolumeSharedContext(
             name: f.name || 'Unnamed Factor',
             weight: typeof f.weight === 'number' ? f.weight : parseFloat(f.weight as string) || 0
         })),
+        evaluationMethodology: {
+            awardBasis: rfpParsedData.section_m?.methodology?.award_basis || 'unknown' as AwardBasis,
+            description: describeMethodology(rfpParsedData.section_m?.methodology),
+            emphasis: writingEmphasis(rfpParsedData.section_m?.methodology),
+        },
         disqualifiers: [] as string[], // Not currently stored in schema
         mandatoryRequirements: (rfpParsedData.section_c?.requirements || [])
             .filter(r => r.mandatory)
-            .map(r => ({ id: r.id, text: r.text }))
+            .map(r => ({ id: r.id, text: r.text, clarification: r.clarification })),
+        clarifications: (rfpParsedData.clarifications || [])
+            .map(c => ({ id: c.id, question: c.question, answer: c.answer })),
     }
     
     // ========================================================================
@@ -228,6 +393,7 @@ export async function buildVolumeSharedContext(
     
     const companySummary = {
         name: companyData.company.name || 'Company Name',
+        source: sourceTag('company', companyData.company.id),
         capabilities: extractCapabilities(companyData),
         certifications: extractCertifications(companyData),
         keyPersonnel: (companyData.personnel || [])
@@ -235,7 +401,8 @@ export async function buildVolumeSharedContext(
                 name: p.name || 'Unknown',
                 role: p.role || 'Staff',
                 experience: p.years_experience || 0,
-                certs: p.certifications || []
+                certs: p.certifications || [],
+                source: sourceTag('personnel', p.id)
             }))
             .sort((a, b) => b.experience - a.experience)
             .slice(0, 10), // Top 10 most experienced
@@ -243,7 +410,8 @@ export async function buildVolumeSharedContext(
             .map(pp => ({
                 project: pp.project_name || 'Unnamed Project',
                 agency: pp.agency || 'Unknown Agency',
-                relevance: (pp.scope || '').substring(0, 200)
+                relevance: (pp.scope || '').substring(0, 200),
+                source: sourceTag('past_performance', pp.id)
             }))
             .slice(0, 5) // Top 5 projects
     }
@@ -258,6 +426,7 @@ export async function buildVolumeSharedContext(
         evalFactor: string
         mandatory: boolean
         priority: 'critical' | 'high' | 'medium'
+        clarification?: string // Government Q&A interpretation
     }>()
     
     const allRequirements = rfpParsedData.section_c?.requirements || []
@@ -267,7 +436,8 @@ export async function buildVolumeSharedContext(
             requirementText: req.text,
             evalFactor: req.eval_factor || 'General',
             mandatory: req.mandatory || false,
-            priority: determineRequirementPriority(req)
+            priority: determineRequirementPriority(req),
+            clarification: req.clarification
         })
     })
     
@@ -279,14 +449,17 @@ export async function buildVolumeSharedContext(
         id: string
         text: string
         priority: 'critical' | 'high' | 'medium'
+        clarification?: string // Government Q&A interpretation
     }>>()
     
-    for (let vol = 1; vol <= 4; vol++) {
-        const volReqs = filterRequirementsByVolume(allRequirements, vol)
+    const structure = resolveVolumeStructure(context.volumeStructure)
+    for (const volume of structure) {
+        const volReqs = filterRequirementsByVolume(allRequirements, volume, context.contentOutlines?.compliance_matrix)
             .map(r => ({
                 id: r.id,
                 text: r.text,
-                priority: determineRequirementPriority(r)
+                priority: determineRequirementPriority(r),
+                clarification: r.clarification
             }))
             .sort((a, b) => {
                 // Sort by priority: critical > high > medium
@@ -294,7 +467,7 @@ export async function buildVolumeSharedContext(
                 return priorityOrder[a.priority] - priorityOrder[b.priority]
             })
         
-        volumeRequirements.set(vol, volReqs)
+        volumeRequirements.set(volume.number, volReqs)
     }
     
     // ========================================================================
@@ -305,7 +478,10 @@ export async function buildVolumeSharedContext(
         rfpSummary,
         companySummary,
         complianceMatrix,
-        volumeRequirements
+        volumeRequirements,
+        libraryPassages: await retrieveLibraryPassages(context, complianceMatrix),
+        winThemes: new Map(structure.map(v => [v.number, themesForVolume(context.winThemes || [], v.number, structure)])),
+        ghosting: formatGhosting(context.competitiveAssessment),
     }
     
     contextCache.set(cacheKey, sharedContext)
@@ -317,8 +493,12 @@ export async function buildVolumeSharedContext(
             buildTime: `${buildTime}ms`,
             requirements: allRequirements.length,
             evaluationFactors: rfpSummary.evaluationFactors.length,
+            awardBasis: rfpSummary.evaluationMethodology.awardBasis,
             keyPersonnel: companySummary.keyPersonnel.length,
-            capabilities: companySummary.capabilities.length
+            capabilities: companySummary.capabilities.length,
+            librarySections: sharedContext.libraryPassages.size,
+            winThemes: context.winThemes?.length || 0,
+            competitors: context.competitiveAssessment?.competitors.length || 0
         }
     })
     
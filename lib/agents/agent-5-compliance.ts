@@ -7,8 +7,16 @@
  * RESPONSIBILITIES:
  * 1. Format compliance check (4 volumes, page limits, fonts, margins)
  * 2. Content compliance check (all requirements addressed)
- * 3. Score proposal against Section M evaluation criteria
- * 4. Generate compliance audit report with fix priorities
+ * 3. Score proposal against Section M evaluation criteria, the way the agency
+ *    evaluates (LPTA acceptability vs. tradeoff strengths, rating scheme)
+ * 4. Review the price model for realism and reasonableness (market benchmarks,
+ *    the company's own rates, internal consistency, staffing vs. the technical
+ *    approach) and its distance from the price-to-win target
+ * 5. Verify factual claims (contract numbers, dollar values, personnel,
+ *    experience, certifications, CPARS ratings, metrics) against the company
+ *    data and client intake
+ * 6. Report which win themes appear in which volumes and where they are missing
+ * 7. Generate compliance audit report with fix priorities
  */
 
 import { supabase } from '../supabase'
@@ -20,6 +28,15 @@ import {
     Agent5Output,
     ComplianceCheckResult,
 } from './types'
+import { ClaimAuditReport, ClaimFinding, PriceRealismReport, PriceToWinReport, ProposalVolume, RfpRequirement, WinThemeReport } from '../database.types'
+import { resolveVolumeStructure, toRoman, volumeContentKey } from '../volume-structure'
+import { describeMethodology, scoringThresholds } from '../evaluation-methodology'
+import { countVolumePages } from '../page-count'
+import { buildFormatProfile, findFormatViolations } from '../format-profile'
+import { analyzePriceRealism, analyzePriceToWin, formatCurrency, loadRateBenchmarks } from '../pricing'
+import { auditClaims } from '../claims'
+import { analyzeWinThemeCoverage } from '../win-themes'
+import { competitorsNamedIn } from '../competition'
 
 const COMPLIANCE_AUDIT_SYSTEM_PROMPT = `You are an expert federal proposal compliance auditor. Your job is to:
 1. Verify all RFP requirements are addressed
@@ -73,7 +90,24 @@ export class Agent5Compliance implements Agent<AgentContext, Agent5Output> {
             console.log(`[Agent 5] Content: ${contentCompliance.filter(c => c.status === 'pass').length}/${contentCompliance.length} passed`)
 
             // Score against evaluation factors
-            const scoringCompliance = await this.scoreAgainstFactors(context)
+            const scoringCompliance = await this.scoreAgainstFactors(context, contentCompliance)
+
+            // Price realism of the priced volume
+            const priceReview = await this.checkPriceRealism(context)
+            if (priceReview) scoringCompliance.push(...priceReview.results)
+            const priceToWin = this.checkPriceToWin(context)
+            if (priceToWin) scoringCompliance.push(priceToWin.result)
+
+            // Factual claims in every volume against the company data
+            const claimReview = this.checkClaims(context, resolveVolumeStructure(context.volumeStructure))
+            if (claimReview) scoringCompliance.push(...claimReview.results)
+
+            // Win themes across every written volume
+            const themeReview = this.checkWinThemes(context, resolveVolumeStructure(context.volumeStructure))
+            if (themeReview) scoringCompliance.push(...themeReview.results)
+
+            // Competitors must be ghosted, never named
+            contentCompliance.push(...this.checkCompetitorNames(context, resolveVolumeStructure(context.volumeStructure)))
 
             // Calculate overall score
             const passedChecks = [...formatCompliance, ...contentCompliance, ...scoringCompliance]
@@ -101,6 +135,10 @@ export class Agent5Compliance implements Agent<AgentContext, Agent5Output> {
                 estimatedWinProbability,
                 criticalFixes,
                 highPriorityFixes,
+                priceRealism: priceReview?.report,
+                priceToWin: priceToWin?.report,
+                claimAudit: claimReview?.report,
+                winThemes: themeReview?.report,
             }
 
             // Save to database
@@ -148,44 +186,55 @@ export class Agent5Compliance implements Agent<AgentContext, Agent5Output> {
      */
     private async executeSingleVolumeAudit(
         context: AgentContext,
-        volumeNumber: 1 | 2 | 3 | 4
+        volumeNumber: number
     ): Promise<AgentResult<Agent5Output>> {
         console.log(`[Agent 5] Single-volume mode: auditing Volume ${volumeNumber} only`)
         
         // Get the specific volume content
-        const volumeKey = `volume${volumeNumber}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
-        const volumeContent = context.volumes?.[volumeKey]
+        const volumeContent = context.volumes?.[volumeContentKey(volumeNumber)]
         
         if (!volumeContent) {
             throw new Error(`Volume ${volumeNumber} content not found`)
         }
         
         const results: ComplianceCheckResult[] = []
-        const limits = context.volumePageLimits || context.rfpParsedData?.section_l.page_limits
+        const volume = resolveVolumeStructure(context.volumeStructure).find(v => v.number === volumeNumber)
         
-        // Check page limit for this volume
-        const volumePages = Math.ceil(volumeContent.length / 3000)
-        const limitMap = {
-            1: limits?.volume_1_technical || 50,
-            2: limits?.volume_2_management || 30,
-            3: limits?.volume_3_past_performance || 25,
-            4: limits?.volume_4_price || 20,
-        }
-        const pageLimit = limitMap[volumeNumber]
+        // Check page limit for this volume (Section L may set none, e.g. for price)
+        results.push(await this.checkPageLimit(context, volumeContent, `Volume ${volumeNumber}`, volume?.page_limit ?? null))
+        results.push(this.checkFormatProfile(context, volumeContent, `Volume ${volumeNumber}`))
         
-        results.push({
-            category: 'format',
-            item: `Volume ${volumeNumber} Page Limit`,
-            status: volumePages <= pageLimit ? 'pass' : 'fail',
-            details: `Volume ${volumeNumber} is ~${volumePages} pages (limit: ${pageLimit})`,
-            fixPriority: volumePages > pageLimit ? 'critical' : undefined,
-        })
+        // Price volume: realism and reasonableness of the price model behind it
+        const priceReview = volume?.writer === 'price' ? await this.checkPriceRealism(context) : null
+        if (priceReview) results.push(...priceReview.results)
+        const priceToWin = volume?.writer === 'price' ? this.checkPriceToWin(context) : null
+        if (priceToWin) results.push(priceToWin.result)
+        
+        // Factual claims in this volume against the company data
+        const claimReview = volume ? this.checkClaims(context, [volume]) : null
+        if (claimReview) results.push(...claimReview.results)
+        
+        // Win themes this volume should carry
+        const themeReview = volume ? this.checkWinThemes(context, [volume]) : null
+        if (themeReview) results.push(...themeReview.results)
+        
+        // Competitors named in this volume
+        if (volume) results.push(...this.checkCompetitorNames(context, [volume]))
         
         // Check content compliance for this volume using Claude with requirement-level scoring
         const requirements = context.rfpParsedData?.section_c.requirements || []
+        const methodology = context.rfpParsedData?.section_m.methodology
+        const thresholds = scoringThresholds(methodology)
+        const ratings = methodology?.rating_scheme?.ratings || []
         
         const prompt = `Score each requirement for Volume ${volumeNumber}. Return detailed requirement-level assessment.
 
+HOW THE AGENCY WILL EVALUATE:
+${describeMethodology(methodology)}
+${methodology?.award_basis === 'lpta'
+    ? 'Score ACCEPTABILITY only: 70 = fully meets the requirement, below 70 = unacceptable. Exceeding a requirement earns no extra credit - do not list extras as strengths.'
+    : 'Score higher for strengths an evaluator could cite (benefits to the Government beyond the minimum).'}
+
 TASK: For each requirement, assess:
 1. How well addressed (score 0-100)
 2. Quality of response
@@ -193,7 +242,7 @@ TASK: For each requirement, assess:
 4. Location in volume
 
 REQUIREMENTS:
-${requirements.slice(0, 20).map(r => `${r.id}: ${r.text}`).join('\n')}
+${requirements.slice(0, 20).map(r => this.formatRequirement(r)).join('\n')}
 
 VOLUME ${volumeNumber} CONTENT:
 ${volumeContent.substring(0, 30000)}
@@ -210,7 +259,8 @@ Return JSON:
     }
   ],
   "strengths": ["What's working well"],
-  "criticalGaps": ["Most important missing elements"]
+  "criticalGaps": ["Most important missing elements"],
+  "evaluationRating": ${ratings.length > 0 ? `"One of: ${ratings.map(r => r.rating).join(', ')}"` : 'null'}
 }
 
 Return ONLY JSON, no markdown.`
@@ -224,6 +274,7 @@ Return ONLY JSON, no markdown.`
         }> = []
         let strengths: string[] = []
         let criticalGaps: string[] = []
+        let evaluationRating: string | undefined
         
         try {
             const response = await callClaude({
@@ -243,15 +294,17 @@ Return ONLY JSON, no markdown.`
             requirementScores = parsed.requirementScores || []
             strengths = parsed.strengths || []
             criticalGaps = parsed.criticalGaps || []
+            evaluationRating = ratings.some(r => r.rating === parsed.evaluationRating) ? parsed.evaluationRating : undefined
             
             // Convert to compliance results format
             requirementScores.forEach(req => {
                 results.push({
                     category: 'content',
                     item: req.requirementId,
-                    status: req.score >= 70 ? 'pass' : 'fail',
+                    status: req.score >= thresholds.pass ? 'pass' : 'fail',
                     details: `${req.requirementId}: Score ${req.score}% - ${req.rationale}`,
-                    fixPriority: req.score < 50 ? 'critical' : req.score < 70 ? 'high' : undefined,
+                    // Under LPTA any unacceptable requirement makes the offer unacceptable
+                    fixPriority: req.score < thresholds.critical ? 'critical' : req.score < thresholds.pass ? 'high' : undefined,
                 })
             })
         } catch (error) {
@@ -298,7 +351,7 @@ Return ONLY JSON, no markdown.`
         const output: Agent5Output = {
             formatCompliance: results.filter(r => r.category === 'format'),
             contentCompliance: results.filter(r => r.category === 'content'),
-            scoringCompliance: [],
+            scoringCompliance: results.filter(r => r.category === 'price' || r.category === 'claims' || r.category === 'win_themes'),
             overallScore: volumeScore,
             estimatedWinProbability: this.estimateWinProbability(volumeScore, criticalFixes.length),
             criticalFixes,
@@ -307,6 +360,11 @@ Return ONLY JSON, no markdown.`
             requirementScores,
             strengths,
             criticalGaps,
+            evaluationRating,
+            priceRealism: priceReview?.report,
+            priceToWin: priceToWin?.report,
+            claimAudit: claimReview?.report,
+            winThemes: themeReview?.report,
         }
         
         // Save volume score to database
@@ -344,61 +402,316 @@ Return ONLY JSON, no markdown.`
         }
     }
 
-    private async checkFormatCompliance(context: AgentContext): Promise<ComplianceCheckResult[]> {
-        const results: ComplianceCheckResult[] = []
-        const limits = context.volumePageLimits || context.rfpParsedData?.section_l.page_limits
+    /**
+     * Price realism / reasonableness review: one check per finding (low-severity
+     * notes stay in the report only), or a single pass when nothing is flagged
+     */
+    private async checkPriceRealism(
+        context: AgentContext
+    ): Promise<{ report: PriceRealismReport; results: ComplianceCheckResult[] } | null> {
+        const structure = resolveVolumeStructure(context.volumeStructure)
+        const priceVolume = structure.find(v => v.writer === 'price')
+        if (!context.priceModel || !priceVolume) return null
+
+        let benchmarks = null
+        try {
+            benchmarks = await loadRateBenchmarks()
+        } catch (error) {
+            console.error(`[Agent 5] Failed to load rate benchmarks:`, error instanceof Error ? error.message : error)
+        }
 
-        // Check 4 separate volumes exist
-        results.push({
-            category: 'format',
-            item: '4 Separate Volumes',
-            status: context.volumes?.volume1 && context.volumes?.volume2 && 
-                    context.volumes?.volume3 && context.volumes?.volume4 ? 'pass' : 'fail',
-            details: 'Proposal must have 4 separate volumes',
-            fixPriority: 'critical',
+        const content = (volume: ProposalVolume) => context.volumes?.[volumeContentKey(volume.number)] || ''
+        const report = analyzePriceRealism({
+            model: context.priceModel,
+            laborRates: context.companyData?.laborRates || [],
+            benchmarks,
+            priceVolume: content(priceVolume),
+            staffingVolumes: structure.filter(v => v.writer === 'technical' || v.writer === 'management').map(content),
         })
 
-        // Check page limits (estimate based on content length)
-        const vol1Pages = Math.ceil((context.volumes?.volume1?.length || 0) / 3000)
-        const vol2Pages = Math.ceil((context.volumes?.volume2?.length || 0) / 3000)
-        const vol3Pages = Math.ceil((context.volumes?.volume3?.length || 0) / 3000)
+        const results: ComplianceCheckResult[] = report.findings
+            .filter(f => f.severity !== 'low')
+            .map(f => ({
+                category: 'price' as const,
+                item: f.category ? `Price realism: ${f.category}` : `Price ${f.check}`,
+                status: f.severity === 'critical' || f.severity === 'high' ? 'fail' as const : 'warning' as const,
+                details: f.message,
+                fixPriority: f.severity,
+            }))
 
-        results.push({
-            category: 'format',
-            item: 'Volume I Page Limit',
-            status: vol1Pages <= (limits?.volume_1_technical || 50) ? 'pass' : 'fail',
-            details: `Volume I is ~${vol1Pages} pages (limit: ${limits?.volume_1_technical || 50})`,
-            fixPriority: vol1Pages > (limits?.volume_1_technical || 50) ? 'critical' : undefined,
+        if (results.length === 0) {
+            results.push({
+                category: 'price',
+                item: 'Price realism',
+                status: 'pass',
+                details: `${report.categories.length} labor categories within realism bands${report.benchmark_source ? ` (${report.benchmark_source})` : ''}; price model totals consistent`,
+            })
+        }
+
+        console.log(`[Agent 5] Price realism: ${report.findings.length} finding(s)${report.benchmark_source ? '' : ' (no benchmark file loaded)'}`)
+        return { report, results }
+    }
+
+    /**
+     * Price-to-win: the total evaluated price against the competitive
+     * assessment's target (null without a price model or a target)
+     */
+    private checkPriceToWin(context: AgentContext): { report: PriceToWinReport; result: ComplianceCheckResult } | null {
+        if (!context.priceModel) return null
+        const report = analyzePriceToWin(context.priceModel.total.price, context.competitiveAssessment)
+        if (!report) return null
+
+        const target = `${formatCurrency(report.target)} price-to-win target${report.target_basis === 'competitor_estimates' ? ' (lowest competitor estimate)' : ''}`
+        const result: ComplianceCheckResult = report.position === 'above'
+            ? {
+                category: 'price',
+                item: 'Price to win',
+                status: 'warning',
+                details: `Total evaluated price ${formatCurrency(report.proposed_price)} is ${formatCurrency(report.distance)} (${report.distance_percent}%) above the ${target}`,
+                fixPriority: 'medium',
+            }
+            : {
+                category: 'price',
+                item: 'Price to win',
+                status: 'pass',
+                details: `Total evaluated price ${formatCurrency(report.proposed_price)} is ${report.position === 'at' ? 'at' : `${formatCurrency(-report.distance)} (${-report.distance_percent}%) below`} the ${target}`,
+            }
+
+        console.log(`[Agent 5] Price to win: ${report.distance_percent}% from target (${report.position})`)
+        return { report, result }
+    }
+
+    /**
+     * Claim verification: one check per section with unsupported or contradicted
+     * claims (low-severity findings stay in the report only), or a single pass
+     */
+    private checkClaims(
+        context: AgentContext,
+        volumes: ProposalVolume[]
+    ): { report: ClaimAuditReport; results: ComplianceCheckResult[] } | null {
+        if (!context.companyData) return null
+
+        const report = auditClaims(
+            volumes
+                .map(v => ({ number: v.number, writer: v.writer, content: context.volumes?.[volumeContentKey(v.number)] || '' }))
+                .filter(v => v.content),
+            {
+                companyData: context.companyData,
+                rfpText: context.rfpText,
+                solicitationNumber: context.rfpParsedData?.metadata.solicitation_num,
+                priceModel: context.priceModel,
+            }
+        )
+
+        const severities: ClaimFinding['severity'][] = ['critical', 'high', 'medium']
+        const sections = new Map<string, ClaimFinding[]>()
+        for (const finding of report.findings.filter(f => f.severity !== 'low')) {
+            const key = `${finding.volume}|${finding.section}`
+            sections.set(key, [...(sections.get(key) || []), finding])
+        }
+
+        const results: ComplianceCheckResult[] = Array.from(sections.values()).map(findings => {
+            const severity = severities.find(s => findings.some(f => f.severity === s)) || 'medium'
+            return {
+                category: 'claims' as const,
+                item: `Claims: ${volumes.length > 1 ? `Volume ${toRoman(findings[0].volume)} ` : ''}${findings[0].section}`,
+                status: severity === 'medium' ? 'warning' as const : 'fail' as const,
+                details: findings.slice(0, 5).map(f => f.message).join('; '),
+                fixPriority: severity,
+            }
         })
 
-        results.push({
-            category: 'format',
-            item: 'Volume II Page Limit',
-            status: vol2Pages <= (limits?.volume_2_management || 30) ? 'pass' : 'fail',
-            details: `Volume II is ~${vol2Pages} pages (limit: ${limits?.volume_2_management || 30})`,
-            fixPriority: vol2Pages > (limits?.volume_2_management || 30) ? 'critical' : undefined,
+        if (results.length === 0) {
+            results.push({
+                category: 'claims',
+                item: 'Claim verification',
+                status: 'pass',
+                details: `${report.claims_checked} factual claim(s) supported by the company data`,
+            })
+        }
+
+        console.log(`[Agent 5] Claims: ${report.claims_supported}/${report.claims_checked} supported, ${report.findings.length} finding(s)`)
+        return { report, results }
+    }
+
+    /**
+     * Win theme coverage: one check per theme a target volume does not carry
+     * or carries without its proof points, or a single pass (null without themes)
+     */
+    private checkWinThemes(
+        context: AgentContext,
+        volumes: ProposalVolume[]
+    ): { report: WinThemeReport; results: ComplianceCheckResult[] } | null {
+        const themes = context.winThemes || []
+        if (themes.length === 0) return null
+
+        const report = analyzeWinThemeCoverage(
+            themes,
+            volumes
+                .map(v => ({ number: v.number, name: v.name, content: context.volumes?.[volumeContentKey(v.number)] || '' }))
+                .filter(v => v.content),
+            resolveVolumeStructure(context.volumeStructure)
+        )
+
+        const targeted = report.themes.filter(t => t.volumes.length > 0)
+        if (targeted.length === 0) return { report, results: [] }
+
+        const results: ComplianceCheckResult[] = targeted.flatMap(theme => {
+            const missing = theme.volumes.filter(v => !v.present)
+            const unproven = theme.volumes.filter(v => v.present && theme.proof_points > 0 && v.proof_points_cited === 0)
+            return [
+                ...(missing.length > 0 ? [{
+                    category: 'win_themes' as const,
+                    item: `Win theme ${theme.theme_id}`,
+                    status: 'warning' as const,
+                    details: `"${theme.statement}" is missing from ${missing.map(v => `Volume ${toRoman(v.volume)} (${v.volume_name})`).join(', ')}`,
+                    fixPriority: 'medium' as const,
+                }] : []),
+                ...(unproven.length > 0 ? [{
+                    category: 'win_themes' as const,
+                    item: `Win theme ${theme.theme_id} proof`,
+                    status: 'warning' as const,
+                    details: `"${theme.statement}" is stated without its proof points in ${unproven.map(v => `Volume ${toRoman(v.volume)}`).join(', ')}`,
+                    fixPriority: 'low' as const,
+                }] : []),
+            ]
+        })
+
+        if (results.length === 0) {
+            results.push({
+                category: 'win_themes',
+                item: 'Win themes',
+                status: 'pass',
+                details: `${targeted.length} win theme(s) carried in every target volume`,
+            })
+        }
+
+        console.log(`[Agent 5] Win themes: ${targeted.filter(t => t.missing_volumes.length === 0).length}/${targeted.length} fully carried`)
+        return { report, results }
+    }
+
+    /**
+     * Competitor names in the written volumes: one failed check per volume that
+     * names a competitor, or a single pass (none without a competitive assessment)
+     */
+    private checkCompetitorNames(context: AgentContext, volumes: ProposalVolume[]): ComplianceCheckResult[] {
+        const competitors = context.competitiveAssessment?.competitors || []
+        if (competitors.length === 0) return []
+
+        const results: ComplianceCheckResult[] = volumes.flatMap(volume => {
+            const named = competitorsNamedIn(context.volumes?.[volumeContentKey(volume.number)] || '', competitors)
+            return named.length > 0 ? [{
+                category: 'content' as const,
+                item: `Competitor names: Volume ${toRoman(volume.number)}`,
+                status: 'fail' as const,
+                details: `Volume ${toRoman(volume.number)} (${volume.name}) names ${named.map(c => c.name).join(', ')} - ghost the competition without naming anyone`,
+                fixPriority: 'high' as const,
+            }] : []
         })
 
+        if (results.length === 0) {
+            results.push({
+                category: 'content',
+                item: 'Competitor names',
+                status: 'pass',
+                details: `None of the ${competitors.length} competitor(s) on file is named`,
+            })
+        }
+
+        console.log(`[Agent 5] Competitor names: ${results.filter(r => r.status === 'fail').length} volume(s) name a competitor`)
+        return results
+    }
+
+    private async checkFormatCompliance(context: AgentContext): Promise<ComplianceCheckResult[]> {
+        const results: ComplianceCheckResult[] = []
+        const structure = resolveVolumeStructure(context.volumeStructure)
+        const contentOf = (volumeNumber: number) => context.volumes?.[volumeContentKey(volumeNumber)] || ''
+
+        // Check every volume Section L asks for exists
         results.push({
             category: 'format',
-            item: 'Volume III Page Limit',
-            status: vol3Pages <= (limits?.volume_3_past_performance || 25) ? 'pass' : 'fail',
-            details: `Volume III is ~${vol3Pages} pages (limit: ${limits?.volume_3_past_performance || 25})`,
-            fixPriority: vol3Pages > (limits?.volume_3_past_performance || 25) ? 'critical' : undefined,
+            item: `${structure.length} Separate Volumes`,
+            status: structure.every(v => contentOf(v.number)) ? 'pass' : 'fail',
+            details: `Proposal must have ${structure.length} separate volumes (${structure.map(v => v.name).join(', ')})`,
+            fixPriority: 'critical',
         })
 
+        // Check page limits on the rendered volumes
+        for (const volume of structure) {
+            if (volume.page_limit === null) continue
+
+            const numeral = toRoman(volume.number)
+            results.push(await this.checkPageLimit(context, contentOf(volume.number), `Volume ${numeral}`, volume.page_limit, volume.name))
+        }
+
+        // Check fonts against the Section L format profile
+        for (const volume of structure) {
+            if (!contentOf(volume.number)) continue
+            results.push(this.checkFormatProfile(context, contentOf(volume.number), `Volume ${toRoman(volume.number)}`))
+        }
+
         return results
     }
 
+    /**
+     * Font check against the Section L format profile the PDFs are rendered with -
+     * inline styles in the content override the profile and can break Section L
+     */
+    private checkFormatProfile(context: AgentContext, content: string, label: string): ComplianceCheckResult {
+        const profile = buildFormatProfile(context.rfpParsedData?.section_l.format)
+        const violations = findFormatViolations(content, profile)
+
+        return {
+            category: 'format',
+            item: `${label} Font & Formatting`,
+            status: violations.length > 0 ? 'fail' : 'pass',
+            details: violations.length > 0
+                ? violations.slice(0, 5).join('; ')
+                : `${profile.font_family} ${profile.font_size}pt, tables ${profile.min_table_font_size}pt minimum, ${profile.margin_inches}in margins`,
+            fixPriority: violations.length > 0 ? 'high' : undefined,
+        }
+    }
+
+    /**
+     * Page limit check on the volume rendered with the Section L format
+     * Failures list the sections using the most pages.
+     */
+    private async checkPageLimit(
+        context: AgentContext,
+        content: string,
+        label: string,
+        pageLimit: ProposalVolume['page_limit'],
+        volumeName?: string
+    ): Promise<ComplianceCheckResult> {
+        const count = await countVolumePages(content, context.rfpParsedData?.section_l.format, context.jobId)
+        const over = pageLimit !== null && count.pages > pageLimit
+        const largest = [...count.sections]
+            .sort((a, b) => b.pages - a.pages)
+            .slice(0, 3)
+            .map(s => `${s.title} (${s.pages})`)
+            .join('; ')
+
+        return {
+            category: 'format',
+            item: `${label} Page Limit`,
+            status: over ? 'fail' : 'pass',
+            details: `${label}${volumeName ? ` (${volumeName})` : ''} is ${count.rendered ? '' : '~'}${count.pages} pages (limit: ${pageLimit ?? 'none'})` +
+                (over && largest ? ` - largest sections: ${largest}` : ''),
+            fixPriority: over ? 'critical' : undefined,
+        }
+    }
+
     private async checkContentCompliance(context: AgentContext): Promise<ComplianceCheckResult[]> {
         const requirements = context.rfpParsedData?.section_c.requirements || []
-        const allContent = `${context.volumes?.volume1 || ''} ${context.volumes?.volume2 || ''} ${context.volumes?.volume3 || ''} ${context.volumes?.volume4 || ''}`
+        const allContent = resolveVolumeStructure(context.volumeStructure)
+            .map(v => context.volumes?.[volumeContentKey(v.number)] || '')
+            .join(' ')
 
         // Use Claude to check if requirements are addressed
         const prompt = `Check if these requirements are addressed in the proposal content. Return JSON array.
 
 REQUIREMENTS:
-${requirements.slice(0, 20).map(r => `${r.id}: ${r.text}`).join('\n')}
+${requirements.slice(0, 20).map(r => this.formatRequirement(r)).join('\n')}
 
 PROPOSAL CONTENT (summary):
 ${allContent.substring(0, 30000)}
@@ -436,15 +749,73 @@ Return JSON: [{"req_id": "REQ-001", "addressed": true/false, "location": "Volume
         }
     }
 
-    private async scoreAgainstFactors(context: AgentContext): Promise<ComplianceCheckResult[]> {
+    /**
+     * Rate each Section M factor from the content checks of the requirements mapped to it.
+     * LPTA: one unmet requirement makes the factor Unacceptable. Tradeoff: the share of
+     * requirements met, with fixes prioritized by the factor's relative importance.
+     */
+    private async scoreAgainstFactors(
+        context: AgentContext,
+        contentCompliance: ComplianceCheckResult[]
+    ): Promise<ComplianceCheckResult[]> {
         const factors = context.rfpParsedData?.section_m.factors || []
-        
-        return factors.map(factor => ({
-            category: 'scoring' as const,
-            item: factor.name,
-            status: 'pass' as const, // Would need deeper analysis
-            details: `Factor: ${factor.name} (${factor.weight})`,
-        }))
+        const methodology = context.rfpParsedData?.section_m.methodology
+        const requirements = context.rfpParsedData?.section_c.requirements || []
+        const checks = new Map(contentCompliance.map(c => [c.item, c]))
+        const isLpta = methodology?.award_basis === 'lpta'
+
+        // Factors named as "more important" in Section M
+        const important = (methodology?.relative_importance || [])
+            .map(r => r.more_important?.toLowerCase())
+            .filter((f): f is string => !!f)
+
+        return factors.map(factor => {
+            const name = factor.name.toLowerCase()
+            const factorChecks = requirements
+                .filter(r => r.eval_factor && (r.eval_factor.toLowerCase().includes(name) || name.includes(r.eval_factor.toLowerCase())))
+                .map(r => checks.get(r.id))
+                .filter((c): c is ComplianceCheckResult => !!c)
+
+            if (factorChecks.length === 0) {
+                return {
+                    category: 'scoring' as const,
+                    item: factor.name,
+                    status: 'pass' as const,
+                    details: `Factor: ${factor.name} (${factor.weight}) - no checked requirements mapped`,
+                }
+            }
+
+            const failed = factorChecks.filter(c => c.status === 'fail').length
+            const metShare = (factorChecks.length - failed) / factorChecks.length
+            const isImportant = important.some(f => name.includes(f) || f.includes(name))
+
+            if (isLpta) {
+                return {
+                    category: 'scoring' as const,
+                    item: factor.name,
+                    status: failed === 0 ? 'pass' as const : 'fail' as const,
+                    details: `Factor: ${factor.name} - ${failed === 0 ? 'Acceptable' : `Unacceptable (${failed} requirement(s) not met)`}`,
+                    fixPriority: failed > 0 ? 'critical' as const : undefined,
+                }
+            }
+
+            return {
+                category: 'scoring' as const,
+                item: factor.name,
+                status: metShare >= 0.9 ? 'pass' as const : metShare >= 0.7 ? 'warning' as const : 'fail' as const,
+                details: `Factor: ${factor.name} (${factor.weight}${isImportant ? ', more important' : ''}) - ${Math.round(metShare * 100)}% of mapped requirements addressed`,
+                fixPriority: metShare < 0.7 ? (isImportant ? 'critical' as const : 'high' as const) : undefined,
+            }
+        })
+    }
+
+    /**
+     * Requirement line for prompts - Q&A clarifications are binding, so score against them too
+     */
+    private formatRequirement(req: RfpRequirement): string {
+        return req.clarification
+            ? `${req.id}: ${req.text}\n  CLARIFIED BY GOVERNMENT Q&A: ${req.clarification}`
+            : `${req.id}: ${req.text}`
     }
 
     private estimateWinProbability(score: number, criticalIssues: number): number {
@@ -7,9 +7,13 @@
  * RESPONSIBILITIES:
  * 1. Apply all formatting requirements (headers, footers, TOC)
  * 2. Generate professional cover pages
- * 3. Convert to submission-ready PDFs
- * 4. Package all deliverables
- * 5. Verify final checklist
+ * 3. Render submission-ready PDFs (and editable DOCX copies) and store them
+ *    (size + SHA-256 recorded)
+ * 4. Export the compliance matrix workbook (.xlsx) for the archive package
+ * 5. Export the priced cost workbook (.xlsx) - the solicitation's pricing
+ *    template filled in when it shipped one - for the submission package
+ * 6. Name files and the submission package per Section L
+ * 7. Verify final checklist
  */
 
 import { supabase } from '../supabase'
@@ -20,6 +24,22 @@ import {
     Agent8Output,
     PackagedFile,
 } from './types'
+import { FormatProfile, ProposalVolume, RfpSourceDocument, StoredPackageFile } from '../database.types'
+import { resolveVolumeStructure, toRoman, volumeContentKey, volumeOutlineKey } from '../volume-structure'
+import { buildFormatProfile, formatProfileCss } from '../format-profile'
+import { generateProposalPdf } from '../pdf-generator'
+import { stripProvenance } from '../provenance'
+import {
+    DOCX_CONTENT_TYPE,
+    XLSX_CONTENT_TYPE,
+    buildComplianceMatrixWorkbook,
+    documentFileName,
+    htmlToDocx,
+    packageFileName,
+    storePackageFile,
+    volumeFileName,
+} from '../packaging'
+import { buildPricedWorkbook } from '../pricing'
 
 export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
     name = 'agent_8' as const
@@ -52,49 +72,142 @@ export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
 
             const companyName = context.companyData?.company.name || 'Company'
             const solNum = context.rfpParsedData?.metadata.solicitation_num || 'RFP'
+            const profile = buildFormatProfile(context.rfpParsedData?.section_l.format)
 
-            // Generate formatted HTML for each volume
-            console.log(`[Agent 8] Applying professional formatting...`)
+            // Generate formatted HTML for each volume Section L asks for (source tags are review-only)
+            console.log(`[Agent 8] Applying Section L formatting (${profile.font_family} ${profile.font_size}pt, ${profile.margin_inches}in margins)...`)
             
-            const formattedVolumes = {
-                volume1: this.applyFormatting(context.volumes?.volume1 || '', 1, companyName, solNum),
-                volume2: this.applyFormatting(context.volumes?.volume2 || '', 2, companyName, solNum),
-                volume3: this.applyFormatting(context.volumes?.volume3 || '', 3, companyName, solNum),
-                volume4: this.applyFormatting(context.volumes?.volume4 || '', 4, companyName, solNum),
+            const structure = resolveVolumeStructure(context.volumeStructure)
+            const formattedVolumes = structure.map(volume => ({
+                volume,
+                html: this.applyFormatting(stripProvenance(context.volumes?.[volumeContentKey(volume.number)] || ''), volume, companyName, solNum, profile),
+            }))
+
+            // Render each volume to PDF and store it under its Section L file name
+            const naming = context.rfpParsedData?.section_l.submission_naming
+            const namingValues = { offeror: companyName, solicitation: solNum }
+            const volumePdfs: PackagedFile[] = []
+            const volumeDocxs: PackagedFile[] = []
+            const storedPdfs: Record<string, StoredPackageFile> = {}
+            const storedArchive: Record<string, StoredPackageFile> = {}
+            const renderFailures: string[] = []
+
+            for (const { volume, html } of formattedVolumes) {
+                const numeral = toRoman(volume.number)
+                try {
+                    const pdf = await generateProposalPdf(html, solNum, companyName, profile, {
+                        title: `Volume ${numeral}: ${volume.name}`,
+                        numeral,
+                    })
+                    const stored = await storePackageFile(
+                        context.jobId,
+                        volumeFileName(naming, volume, namingValues, 'pdf'),
+                        pdf,
+                        'application/pdf'
+                    )
+                    storedPdfs[volumeOutlineKey(volume.number)] = stored
+                    volumePdfs.push(this.toPackagedFile(stored, 'pdf'))
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error)
+                    console.error(`[Agent 8] Failed to render Volume ${numeral}:`, message)
+                    renderFailures.push(`Volume ${numeral}: ${message}`)
+                }
+
+                // Editable Word copy for the archive package
+                try {
+                    const docx = htmlToDocx(html, profile, {
+                        title: `Volume ${numeral}: ${volume.name}`,
+                        solicitationNum: solNum,
+                        companyName,
+                        volumeTitle: `Volume ${numeral}: ${volume.name}`,
+                        volumeNumeral: numeral,
+                    })
+                    const stored = await storePackageFile(
+                        context.jobId,
+                        volumeFileName(naming, volume, namingValues, 'docx'),
+                        docx,
+                        DOCX_CONTENT_TYPE
+                    )
+                    storedArchive[volumeOutlineKey(volume.number)] = stored
+                    volumeDocxs.push(this.toPackagedFile(stored, 'docx'))
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error)
+                    console.error(`[Agent 8] Failed to export Volume ${numeral} to DOCX:`, message)
+                    renderFailures.push(`Volume ${numeral} DOCX: ${message}`)
+                }
             }
 
-            // In production, we would convert HTML to PDF using puppeteer or similar
-            // For now, we'll store the formatted HTML and generate placeholder URLs
-            
-            const baseUrl = `proposals/${context.jobId}/final`
-            
-            const submissionPackage = {
-                volume1Pdf: this.createPackagedFile(`${baseUrl}/Volume_I_Technical.pdf`, formattedVolumes.volume1.length),
-                volume2Pdf: this.createPackagedFile(`${baseUrl}/Volume_II_Management.pdf`, formattedVolumes.volume2.length),
-                volume3Pdf: this.createPackagedFile(`${baseUrl}/Volume_III_PastPerformance.pdf`, formattedVolumes.volume3.length),
-                volume4Pdf: this.createPackagedFile(`${baseUrl}/Volume_IV_Price.pdf`, formattedVolumes.volume4.length),
-                costTemplate: this.createPackagedFile(`${baseUrl}/Cost_Template.xlsx`, 50000, 'xlsx'),
-                coverLetter: this.createPackagedFile(`${baseUrl}/Cover_Letter.pdf`, 5000),
+            // Compliance matrix workbook for the archive package
+            let complianceMatrix: PackagedFile | undefined
+            if (context.rfpParsedData) {
+                try {
+                    const workbook = buildComplianceMatrixWorkbook({
+                        rfpParsedData: context.rfpParsedData,
+                        contentOutlines: context.contentOutlines,
+                        volumeStructure: structure,
+                    })
+                    const stored = await storePackageFile(
+                        context.jobId,
+                        documentFileName(namingValues, 'Compliance_Matrix', 'xlsx'),
+                        workbook,
+                        XLSX_CONTENT_TYPE
+                    )
+                    storedArchive.compliance_matrix = stored
+                    complianceMatrix = this.toPackagedFile(stored, 'xlsx')
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error)
+                    console.error(`[Agent 8] Failed to export the compliance matrix:`, message)
+                    renderFailures.push(`Compliance matrix XLSX: ${message}`)
+                }
             }
 
-            const archivePackage = {
-                volume1Docx: this.createPackagedFile(`${baseUrl}/Volume_I_Technical.docx`, formattedVolumes.volume1.length, 'docx'),
-                volume2Docx: this.createPackagedFile(`${baseUrl}/Volume_II_Management.docx`, formattedVolumes.volume2.length, 'docx'),
-                volume3Docx: this.createPackagedFile(`${baseUrl}/Volume_III_PastPerformance.docx`, formattedVolumes.volume3.length, 'docx'),
-                volume4Docx: this.createPackagedFile(`${baseUrl}/Volume_IV_Price.docx`, formattedVolumes.volume4.length, 'docx'),
-                complianceMatrix: this.createPackagedFile(`${baseUrl}/Compliance_Matrix.xlsx`, 30000, 'xlsx'),
+            // Priced cost workbook for the submission package
+            let costTemplate: PackagedFile | undefined
+            if (context.priceModel) {
+                try {
+                    const priced = await buildPricedWorkbook(context.priceModel, await this.sourceDocuments(context))
+                    const stored = await storePackageFile(
+                        context.jobId,
+                        documentFileName(namingValues, priced.document, 'xlsx'),
+                        priced.workbook,
+                        XLSX_CONTENT_TYPE
+                    )
+                    storedPdfs.cost_workbook = stored
+                    costTemplate = this.toPackagedFile(stored, 'xlsx')
+                    console.log(`[Agent 8] Cost workbook: ${priced.template ? `filled pricing template ${priced.template}` : 'standard layout'}`)
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error)
+                    console.error(`[Agent 8] Failed to export the cost workbook:`, message)
+                    renderFailures.push(`Cost workbook XLSX: ${message}`)
+                }
             }
 
+            const submissionPackage = { volumePdfs, costTemplate }
+            const archivePackage = { volumeDocxs, complianceMatrix }
+
             // Generate final checklist
-            const finalChecklist = this.generateFinalChecklist(context, formattedVolumes)
+            const finalChecklist = [
+                ...this.generateFinalChecklist(context, formattedVolumes),
+                ...formattedVolumes.map(({ volume }) => ({
+                    item: `Volume ${toRoman(volume.number)} PDF rendered and stored`,
+                    status: (storedPdfs[volumeOutlineKey(volume.number)] ? 'pass' : 'fail') as 'pass' | 'fail',
+                })),
+                ...(context.priceModel ? [{
+                    item: 'Priced cost workbook stored',
+                    status: (costTemplate ? 'pass' : 'fail') as 'pass' | 'fail',
+                }] : []),
+            ]
 
             const allPassed = finalChecklist.every(item => item.status === 'pass')
             console.log(`[Agent 8] Final checklist: ${finalChecklist.filter(i => i.status === 'pass').length}/${finalChecklist.length} passed`)
 
+            const finalHtml = this.assembleFullDocument(formattedVolumes.map(v => v.html), companyName, solNum)
             const output: Agent8Output = {
                 submissionPackage,
                 archivePackage,
+                packageFileName: packageFileName(naming, namingValues),
                 finalChecklist,
+                finalHtml,
             }
 
             // Save to database
@@ -102,19 +215,9 @@ export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
             await (supabase.from('proposal_jobs') as any)
                 .update({
                     status: allPassed ? 'completed' : 'review',
-                    final_html: this.assembleFullDocument(formattedVolumes, companyName, solNum),
-                    final_pdf_urls: {
-                        volume_1: submissionPackage.volume1Pdf.fileUrl,
-                        volume_2: submissionPackage.volume2Pdf.fileUrl,
-                        volume_3: submissionPackage.volume3Pdf.fileUrl,
-                        volume_4: submissionPackage.volume4Pdf.fileUrl,
-                    },
-                    final_docx_urls: {
-                        volume_1: archivePackage.volume1Docx.fileUrl,
-                        volume_2: archivePackage.volume2Docx.fileUrl,
-                        volume_3: archivePackage.volume3Docx.fileUrl,
-                        volume_4: archivePackage.volume4Docx.fileUrl,
-                    },
+                    final_html: finalHtml,
+                    final_pdf_urls: storedPdfs,
+                    final_docx_urls: storedArchive,
                     current_agent: 'agent_8',
                     completed_at: new Date().toISOString(),
                     agent_progress: {
@@ -128,14 +231,15 @@ export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
                 .eq('job_id', context.jobId)
 
             console.log(`[Agent 8] ✓ Packaging complete!`)
-            console.log(`[Agent 8] Submission package: 6 files`)
-            console.log(`[Agent 8] Archive package: 5 files`)
+            console.log(`[Agent 8] Submission package: ${volumePdfs.length}/${formattedVolumes.length} volume PDFs${costTemplate ? ' + cost workbook' : ''} (${output.packageFileName})`)
+            console.log(`[Agent 8] Archive package: ${volumeDocxs.length}/${formattedVolumes.length} volume DOCX files${complianceMatrix ? ' + compliance matrix' : ''}`)
 
             return {
-                status: 'success',
+                status: renderFailures.length > 0 ? 'warning' : 'success',
                 data: output,
+                warnings: renderFailures.length > 0 ? renderFailures : undefined,
                 metadata: {
-                    totalFiles: 11,
+                    totalFiles: volumePdfs.length + volumeDocxs.length + (complianceMatrix ? 1 : 0) + (costTemplate ? 1 : 0),
                     readyForSubmission: allPassed,
                 },
             }
@@ -151,48 +255,37 @@ export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
         }
     }
 
-    private applyFormatting(content: string, volumeNum: number, company: string, solNum: string): string {
-        const volumeNames: Record<number, string> = {
-            1: 'Technical Approach',
-            2: 'Management Approach',
-            3: 'Past Performance',
-            4: 'Price Proposal',
-        }
-
+    /**
+     * Typography, margins and page size come from the Section L format profile;
+     * the running header/footer is added when the PDF is rendered
+     */
+    private applyFormatting(content: string, volume: ProposalVolume, company: string, solNum: string, profile: FormatProfile): string {
         return `
 <!DOCTYPE html>
 <html>
 <head>
-    <title>Volume ${volumeNum}: ${volumeNames[volumeNum]} - ${solNum}</title>
+    <title>Volume ${volume.number}: ${volume.name} - ${solNum}</title>
     <style>
         * {
             box-sizing: border-box;
         }
         body { 
-            font-family: "Times New Roman", serif; 
-            font-size: 12pt; 
-            line-height: 1.5;
             margin: 0;
-            padding: 20px;
         }
+        ${formatProfileCss(profile)}
         h1 { 
-            font-size: 18pt; 
             border-bottom: 2px solid #000; 
             page-break-before: always;
             margin-top: 0;
             padding-top: 10px;
         }
         h1:first-of-type { page-break-before: avoid; }
-        h2 { font-size: 14pt; color: #1a365d; margin-top: 20px; }
-        h3 { font-size: 13pt; color: #2d3748; margin-top: 16px; }
+        h2 { color: #1a365d; margin-top: 20px; }
+        h3 { color: #2d3748; margin-top: 16px; }
         
         /* TABLE FIXES - Prevent overflow and cutoff */
         table { 
-            border-collapse: collapse; 
-            width: 100%; 
             margin: 12pt 0;
-            table-layout: fixed; /* Critical: prevents table from overflowing */
-            font-size: 10pt;
         }
         th { 
             background: #2c5282; 
@@ -268,11 +361,9 @@ export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
             color: #1a365d;
         }
         .volume-header .solicitation {
-            font-size: 11pt;
             color: #555;
         }
         .volume-header .agency {
-            font-size: 10pt;
             color: #777;
         }
         
@@ -290,8 +381,8 @@ export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
 </head>
 <body>
     <div class="cover-page">
-        <h1>VOLUME ${volumeNum}</h1>
-        <h2>${volumeNames[volumeNum].toUpperCase()}</h2>
+        <h1>VOLUME ${toRoman(volume.number)}</h1>
+        <h2>${volume.name.toUpperCase()}</h2>
         <p style="margin-top: 100pt;">
             <strong>Solicitation:</strong> ${solNum}<br>
             <strong>Submitted by:</strong> ${company}<br>
@@ -303,22 +394,34 @@ export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
 </html>`
     }
 
-    private createPackagedFile(url: string, contentLength: number, type: 'pdf' | 'docx' | 'xlsx' = 'pdf'): PackagedFile {
-        const fileName = url.split('/').pop() || 'file'
-        // Estimate file size based on content (very rough)
-        const sizeMultiplier = type === 'pdf' ? 1.5 : type === 'docx' ? 1.2 : 0.3
-        const fileSize = Math.round(contentLength * sizeMultiplier / 1000) * 1000 // Round to KB
+    /**
+     * Solicitation package manifest (only the manifest is loaded when the
+     * context does not carry the ingested document)
+     */
+    private async sourceDocuments(context: AgentContext): Promise<RfpSourceDocument[]> {
+        if (context.rfpDocument) return context.rfpDocument.documents
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data } = await (supabase.from('proposal_jobs') as any)
+            .select('documents:rfp_document->documents')
+            .eq('job_id', context.jobId)
+            .single()
+
+        return data?.documents || []
+    }
 
+    private toPackagedFile(stored: StoredPackageFile, type: PackagedFile['fileType']): PackagedFile {
         return {
-            fileName,
+            fileName: stored.file_name,
             fileType: type,
-            fileUrl: url,
-            fileSize,
+            fileUrl: stored.path,
+            fileSize: stored.size,
+            sha256: stored.sha256,
         }
     }
 
     private assembleFullDocument(
-        volumes: { volume1: string; volume2: string; volume3: string; volume4: string },
+        volumes: string[],
         company: string,
         solNum: string
     ): string {
@@ -329,28 +432,32 @@ export class Agent8Packaging implements Agent<AgentContext, Agent8Output> {
     <title>Complete Proposal - ${solNum} - ${company}</title>
 </head>
 <body>
-    ${volumes.volume1}
-    ${volumes.volume2}
-    ${volumes.volume3}
-    ${volumes.volume4}
+    ${volumes.join('\n    ')}
 </body>
 </html>`
     }
 
     private generateFinalChecklist(
         context: AgentContext,
-        volumes: { volume1: string; volume2: string; volume3: string; volume4: string }
+        volumes: Array<{ volume: ProposalVolume; html: string }>
     ): { item: string; status: 'pass' | 'fail' }[] {
-        const limits = context.volumePageLimits || context.rfpParsedData?.section_l.page_limits
+        const first = volumes[0]?.html || ''
+        const rawContent = (volume: ProposalVolume) => context.volumes?.[volumeContentKey(volume.number)] || ''
 
         return [
-            { item: '4 separate volumes', status: volumes.volume1 && volumes.volume2 && volumes.volume3 && volumes.volume4 ? 'pass' : 'fail' },
-            { item: 'Volume I page limit', status: Math.ceil(volumes.volume1.length / 3000) <= (limits?.volume_1_technical || 50) ? 'pass' : 'fail' },
-            { item: 'Volume II page limit', status: Math.ceil(volumes.volume2.length / 3000) <= (limits?.volume_2_management || 30) ? 'pass' : 'fail' },
-            { item: 'Volume III page limit', status: Math.ceil(volumes.volume3.length / 3000) <= (limits?.volume_3_past_performance || 25) ? 'pass' : 'fail' },
-            { item: 'Headers include solicitation #', status: volumes.volume1.includes(context.rfpParsedData?.metadata.solicitation_num || '') ? 'pass' : 'fail' },
-            { item: 'Professional formatting applied', status: volumes.volume1.includes('font-family') ? 'pass' : 'fail' },
-            { item: 'Cover pages generated', status: volumes.volume1.includes('cover-page') ? 'pass' : 'fail' },
+            {
+                item: `${volumes.length} separate volumes`,
+                status: volumes.every(v => rawContent(v.volume)) ? 'pass' : 'fail',
+            },
+            ...volumes
+                .filter(v => v.volume.page_limit !== null)
+                .map(v => ({
+                    item: `Volume ${toRoman(v.volume.number)} page limit`,
+                    status: (Math.ceil(v.html.length / 3000) <= (v.volume.page_limit || 0) ? 'pass' : 'fail') as 'pass' | 'fail',
+                })),
+            { item: 'Headers include solicitation #', status: first.includes(context.rfpParsedData?.metadata.solicitation_num || '') ? 'pass' : 'fail' },
+            { item: 'Professional formatting applied', status: first.includes('font-family') ? 'pass' : 'fail' },
+            { item: 'Cover pages generated', status: first.includes('cover-page') ? 'pass' : 'fail' },
         ]
     }
 
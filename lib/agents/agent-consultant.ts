@@ -10,11 +10,17 @@
  * 3. Identify specific compliance gaps and missing elements
  * 4. Provide actionable, prioritized recommendations
  * 5. Consider previous iteration history to avoid repeated issues
+ * 6. Pass unsupported / contradicted factual claims (Agent 5 claim audit) to
+ *    the rewriter as compliance gaps
+ * 7. Turn win themes missing from the volume (or stated without their proof
+ *    points) into compliance gaps
  */
 
 import { callClaude } from '../claude-client'
 import { logger } from '../logger'
 import { AgentContext, AgentResult } from './types'
+import { resolveVolumeStructure, volumeName as resolveVolumeName } from '../volume-structure'
+import { ClaimAuditReport, WinTheme, WinThemeReport } from '../database.types'
 
 // ============================================================================
 // TYPES
@@ -36,7 +42,7 @@ export interface VolumeScoreResult {
 }
 
 export interface ConsultantInput {
-    volume: 1 | 2 | 3 | 4
+    volume: number
     volumeContent: string
     scoreResult: VolumeScoreResult
     rfpRequirements: string
@@ -46,6 +52,8 @@ export interface ConsultantInput {
         feedback: string
         issuesAddressed: string[]
     }>
+    claimAudit?: ClaimAuditReport // Agent 5 claim verification of this volume
+    winThemes?: WinThemeReport // Agent 5 win theme coverage of this volume
 }
 
 export interface ConsultantOutput {
@@ -80,6 +88,12 @@ export interface ConsultantOutput {
     }
 }
 
+// Score impact credited for fixing a claim finding, by severity
+const CLAIM_SCORE_IMPACT = { critical: 5, high: 3, medium: 1 } as const
+
+// Score impact credited for carrying a missing win theme / backing a stated one with its proof
+const WIN_THEME_SCORE_IMPACT = { missing: 3, unproven: 2 } as const
+
 // ============================================================================
 // PROMPT
 // ============================================================================
@@ -96,10 +110,7 @@ Focus on:
 
 Return ONLY valid JSON matching the specified schema. Be specific, not generic. Provide concrete examples and language suggestions.`
 
-function buildConsultantPrompt(input: ConsultantInput): string {
-    const volumeNames = ['Technical', 'Management', 'Past Performance', 'Pricing']
-    const volumeName = volumeNames[input.volume - 1]
-    
+function buildConsultantPrompt(input: ConsultantInput, volumeName: string): string {
     let iterationContext = ''
     if (input.iteration > 1 && input.previousIterationFeedback && input.previousIterationFeedback.length > 0) {
         iterationContext = `
@@ -200,6 +211,57 @@ CRITICAL RULES:
 6. If iteration > 1, identify any repeating issues as CRITICAL priority`
 }
 
+/**
+ * Unsupported or contradicted claims from the claim audit, as compliance gaps
+ * the rewriter must fix - listed ahead of the consultant's own gaps
+ */
+function claimComplianceGaps(report: ClaimAuditReport | undefined): ConsultantOutput['complianceGaps'] {
+    return (report?.findings || []).flatMap(f => f.severity === 'low' ? [] : [{
+        requirementId: `Claim: ${f.section}`,
+        requirement: 'Factual claims must be supported by the company data - no invented contract numbers, values, people, experience, certifications, ratings or metrics',
+        currentIssue: `${f.message} ("${f.excerpt}")`,
+        recommendedFix: f.status === 'contradicted' && f.evidence
+            ? `Correct "${f.claim}" to match the company data: ${f.evidence}`
+            : `Remove "${f.claim}" or replace it with a fact from the company data`,
+        priority: f.severity,
+        estimatedScoreImpact: CLAIM_SCORE_IMPACT[f.severity],
+    }])
+}
+
+/**
+ * Win themes this volume should carry but does not, or states without their
+ * proof points, as compliance gaps (themes come from the job for the proof text)
+ */
+function winThemeComplianceGaps(
+    report: WinThemeReport | undefined,
+    themes: WinTheme[],
+    volume: number
+): ConsultantOutput['complianceGaps'] {
+    return (report?.themes || []).flatMap(coverage => {
+        const inVolume = coverage.volumes.find(v => v.volume === volume)
+        const theme = themes.find(t => t.id === coverage.theme_id)
+        if (!inVolume || (inVolume.present && (coverage.proof_points === 0 || inVolume.proof_points_cited > 0))) return []
+
+        const proof = (theme?.proof_points || []).map(p => p.text).join('; ')
+        const requirement = `Win theme ${coverage.theme_id}${coverage.eval_factor ? ` (Section M: ${coverage.eval_factor})` : ''}: ${coverage.statement}`
+        return [inVolume.present ? {
+            requirementId: `Win theme: ${coverage.theme_id}`,
+            requirement,
+            currentIssue: `The theme is stated in ${inVolume.sections.join(', ')} without any of its proof points`,
+            recommendedFix: `Back the theme where it is stated with its proof points: ${proof}`,
+            priority: 'medium' as const,
+            estimatedScoreImpact: WIN_THEME_SCORE_IMPACT.unproven,
+        } : {
+            requirementId: `Win theme: ${coverage.theme_id}`,
+            requirement,
+            currentIssue: 'The theme does not appear anywhere in this volume',
+            recommendedFix: `Weave the theme into the section that answers ${coverage.eval_factor || 'the most closely related requirement'} as a benefit to the agency${proof ? `, backed by: ${proof}` : ''}; put data-win-theme="${coverage.theme_id}" on the paragraph that carries it`,
+            priority: 'medium' as const,
+            estimatedScoreImpact: WIN_THEME_SCORE_IMPACT.missing,
+        }]
+    })
+}
+
 // ============================================================================
 // AGENT CLASS
 // ============================================================================
@@ -212,8 +274,7 @@ export class AgentConsultant {
         context: AgentContext,
         input: ConsultantInput
     ): Promise<AgentResult<ConsultantOutput>> {
-        const volumeNames = ['Technical', 'Management', 'Past Performance', 'Pricing']
-        const volumeName = volumeNames[input.volume - 1]
+        const volumeName = resolveVolumeName(resolveVolumeStructure(context.volumeStructure), input.volume)
         
         logger.info(`[Consultant] Starting analysis for Volume ${input.volume} (${volumeName})`, {
             data: {
@@ -225,7 +286,7 @@ export class AgentConsultant {
         })
 
         try {
-            const prompt = buildConsultantPrompt(input)
+            const prompt = buildConsultantPrompt(input, volumeName)
             
             const response = await callClaude({
                 system: CONSULTANT_SYSTEM_PROMPT,
@@ -236,6 +297,11 @@ export class AgentConsultant {
 
             // Parse and validate response
             const insights = this.parseConsultantResponse(response)
+            insights.complianceGaps = [
+                ...claimComplianceGaps(input.claimAudit),
+                ...winThemeComplianceGaps(input.winThemes, context.winThemes || [], input.volume),
+                ...insights.complianceGaps,
+            ]
             
             logger.info(`[Consultant] Analysis complete`, {
                 data: {
@@ -262,7 +328,7 @@ export class AgentConsultant {
 
             return {
                 status: 'error',
-                data: this.getFallbackOutput(input),
+                data: this.getFallbackOutput(input, context),
                 errors: [error instanceof Error ? error.message : String(error)]
             }
         }
@@ -297,23 +363,27 @@ export class AgentConsultant {
         }
     }
 
-    private getFallbackOutput(input: ConsultantInput): ConsultantOutput {
+    private getFallbackOutput(input: ConsultantInput, context: AgentContext): ConsultantOutput {
         // Provide a basic fallback if AI fails
         return {
             volumeNumber: input.volume,
             currentScore: input.scoreResult.overallScore,
             targetScore: 85,
             estimatedScoreIncrease: 5,
-            complianceGaps: input.scoreResult.requirementScores
-                .filter(req => req.score < 70)
-                .map(req => ({
-                    requirementId: req.requirementId,
-                    requirement: req.requirementText,
-                    currentIssue: req.gaps.join('; '),
-                    recommendedFix: 'Address the identified gaps with specific, detailed content',
-                    priority: 'high' as const,
-                    estimatedScoreImpact: 5
-                })),
+            complianceGaps: [
+                ...claimComplianceGaps(input.claimAudit),
+                ...winThemeComplianceGaps(input.winThemes, context.winThemes || [], input.volume),
+                ...input.scoreResult.requirementScores
+                    .filter(req => req.score < 70)
+                    .map(req => ({
+                        requirementId: req.requirementId,
+                        requirement: req.requirementText,
+                        currentIssue: req.gaps.join('; '),
+                        recommendedFix: 'Address the identified gaps with specific, detailed content',
+                        priority: 'high' as const,
+                        estimatedScoreImpact: 5
+                    })),
+            ],
             recommendations: [
                 {
                     category: 'Compliance',
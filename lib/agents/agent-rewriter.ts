@@ -7,7 +7,7 @@
  * RESPONSIBILITIES:
  * 1. Pass 1: Fix compliance gaps identified by consultant
  * 2. Pass 2: Enhance quality, readability, and win themes
- * 3. Maintain page limits and required structure
+ * 3. Maintain page limits (trimming until the rendered volume fits) and required structure
  * 4. Incorporate iteration history to avoid repeated mistakes
  * 5. Preserve high-scoring sections from previous version
  */
@@ -17,21 +17,29 @@ import { callClaude } from '../claude-client'
 import { logger } from '../logger'
 import { AgentContext, AgentResult } from './types'
 import { ConsultantOutput } from './agent-consultant'
+import { resolveVolumeStructure, volumeName as resolveVolumeName } from '../volume-structure'
+import { SectionPageUsage } from '../database.types'
+import { countVolumePages, formatSectionUsage, VolumePageCount } from '../page-count'
+import { PROVENANCE_PRESERVE_RULE } from '../provenance'
+
+// Trim passes after the rewrite while the rendered volume is over its page limit
+const MAX_TRIM_PASSES = 2
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 export interface RewriterInput {
-    volume: 1 | 2 | 3 | 4
+    volume: number
     originalContent: string
     consultantInsights: ConsultantOutput
     userFeedback?: string
     rfpRequirements: string
     iteration: number
     pageLimits: {
-        maxPages: number
+        maxPages: number | null // null when Section L sets no limit
         currentPages: number
+        sectionPages?: SectionPageUsage[] // Rendered usage of the original content
     }
 }
 
@@ -45,6 +53,10 @@ export interface RewriterOutput {
     }>
     preservedSections: string[]
     iteration: number
+    pageCount?: number // Pages of the rewritten content
+    pagesRendered?: boolean
+    sectionPages?: SectionPageUsage[]
+    trimPasses?: number
 }
 
 // ============================================================================
@@ -61,6 +73,7 @@ This is PASS 1 of a two-pass rewriting process. Your ONLY job in this pass is to
 
 Do NOT focus on style, tone, or readability yet - that's Pass 2.
 Do NOT remove or significantly alter sections that are already scoring well.
+${PROVENANCE_PRESERVE_RULE}
 
 Return the complete rewritten volume content in HTML format, maintaining the original structure.`
 
@@ -77,13 +90,32 @@ Your job now is to:
 
 Do NOT change factual content or compliance elements from Pass 1.
 Do NOT add new substantive content - only refine what's there.
+${PROVENANCE_PRESERVE_RULE}
 
 Return the complete polished volume content in HTML format.`
 
-function buildPass1Prompt(input: RewriterInput): string {
-    const volumeNames = ['Technical', 'Management', 'Past Performance', 'Pricing']
-    const volumeName = volumeNames[input.volume - 1]
-    
+const TRIM_SYSTEM_PROMPT = `You are an expert federal proposal editor. The volume exceeds its Section L page limit -
+pages beyond the limit are removed by the evaluator unread.
+
+Cut the volume to fit:
+1. Take most of the cuts from the sections using the most pages
+2. Remove repetition, generic claims and filler before substance
+3. Keep every requirement reference, compliance statement, table and heading
+4. Do NOT change facts, names or numbers
+5. ${PROVENANCE_PRESERVE_RULE}
+
+Return the complete trimmed volume content in HTML format.`
+
+/**
+ * Page limit line for prompts
+ */
+function describePageLimit(pageLimits: RewriterInput['pageLimits']): string {
+    return pageLimits.maxPages !== null
+        ? `${pageLimits.maxPages} pages (currently ${pageLimits.currentPages} pages)`
+        : `none (currently ${pageLimits.currentPages} pages)`
+}
+
+function buildPass1Prompt(input: RewriterInput, volumeName: string): string {
     let userFeedbackSection = ''
     if (input.userFeedback) {
         userFeedbackSection = `
@@ -104,15 +136,29 @@ The user has reviewed this volume and provided specific feedback:
 ${input.consultantInsights.iterationContext.areasToPreserve.map(area => `- ${area}`).join('\n')}`
     }
     
+    let pageLimitSection = ''
+    const { maxPages, currentPages, sectionPages } = input.pageLimits
+    if (maxPages !== null && currentPages > maxPages) {
+        pageLimitSection = `
+
+## PAGE LIMIT EXCEEDED
+The rendered volume is ${currentPages} pages against a ${maxPages}-page limit. Any compliance content you add
+must be offset by cuts elsewhere.${sectionPages && sectionPages.length > 0 ? `
+
+Rendered pages per section:
+${formatSectionUsage(sectionPages)}` : ''}`
+    }
+    
     return `# TASK: Pass 1 Compliance Rewrite - Volume ${input.volume} (${volumeName})
 
 ## CONTEXT
 - Iteration: ${input.iteration} of 5 max
 - Current Score: ${input.consultantInsights.currentScore}%
 - Target Score: ${input.consultantInsights.targetScore}%
-- Page Limit: ${input.pageLimits.maxPages} pages (currently ${input.pageLimits.currentPages} pages)
+- Page Limit: ${describePageLimit(input.pageLimits)}
 ${userFeedbackSection}
 ${areasToPreserve}
+${pageLimitSection}
 
 ## COMPLIANCE GAPS TO FIX (Prioritized)
 ${input.consultantInsights.complianceGaps.map((gap, i) => `
@@ -149,16 +195,13 @@ REQUIREMENTS:
 3. Add missing required content per consultant recommendations
 4. Address each compliance gap systematically
 5. If user feedback was provided, prioritize it above all else
-6. Stay within ${input.pageLimits.maxPages} page limit
+6. ${input.pageLimits.maxPages !== null ? `Stay within the ${input.pageLimits.maxPages} page limit` : 'Keep the volume concise'}
 7. Return ONLY the complete rewritten HTML content
 
 Do NOT add explanations, comments, or markdown. Return ONLY the HTML content for the volume.`
 }
 
-function buildPass2Prompt(pass1Content: string, input: RewriterInput): string {
-    const volumeNames = ['Technical', 'Management', 'Past Performance', 'Pricing']
-    const volumeName = volumeNames[input.volume - 1]
-    
+function buildPass2Prompt(pass1Content: string, input: RewriterInput, volumeName: string): string {
     return `# TASK: Pass 2 Quality Enhancement - Volume ${input.volume} (${volumeName})
 
 ## CONTEXT
@@ -169,7 +212,7 @@ This volume has been rewritten in Pass 1 to fix compliance gaps. Now we need to
 2. **Persuasiveness**: Strengthen win themes and competitive differentiators
 3. **Professional Tone**: Ensure consistent, authoritative voice
 4. **Clarity**: Simplify complex ideas without losing technical accuracy
-5. **Page Optimization**: Use space efficiently (target ${input.pageLimits.maxPages} pages)
+5. **Page Optimization**: Use space efficiently${input.pageLimits.maxPages !== null ? ` (target ${input.pageLimits.maxPages} pages)` : ''}
 
 ## STRENGTHS TO AMPLIFY
 ${input.consultantInsights.recommendations
@@ -191,12 +234,30 @@ REQUIREMENTS:
 2. Do NOT add new substantive content
 3. Enhance readability, flow, and persuasiveness
 4. Ensure consistent professional tone
-5. Optimize for page limit (${input.pageLimits.maxPages} pages max)
+5. ${input.pageLimits.maxPages !== null ? `Optimize for page limit (${input.pageLimits.maxPages} pages max)` : 'Use space efficiently'}
 6. Return ONLY the complete polished HTML content
 
 Do NOT add explanations, comments, or markdown. Return ONLY the HTML content for the volume.`
 }
 
+function buildTrimPrompt(content: string, count: VolumePageCount, maxPages: number, volumeName: string): string {
+    const excess = count.pages - maxPages
+    return `# TASK: Trim Volume (${volumeName}) to ${maxPages} Pages
+
+The volume renders to ${count.pages} pages with the Section L format - cut at least ${excess} page${excess === 1 ? '' : 's'}
+(~${Math.ceil((excess / count.pages) * 100) + 5}% of the text).
+${count.sections.length > 0 ? `
+## RENDERED PAGES PER SECTION
+${formatSectionUsage(count.sections)}
+` : ''}
+## CURRENT VOLUME CONTENT
+${content}
+
+---
+
+Return ONLY the complete trimmed HTML content. No explanations, comments, or markdown.`
+}
+
 // ============================================================================
 // AGENT CLASS
 // ============================================================================
@@ -209,8 +270,7 @@ export class AgentRewriter {
         context: AgentContext,
         input: RewriterInput
     ): Promise<AgentResult<RewriterOutput>> {
-        const volumeNames = ['Technical', 'Management', 'Past Performance', 'Pricing']
-        const volumeName = volumeNames[input.volume - 1]
+        const volumeName = resolveVolumeName(resolveVolumeStructure(context.volumeStructure), input.volume)
         
         logger.info(`[Rewriter] Starting two-pass rewrite for Volume ${input.volume} (${volumeName})`, {
             data: {
@@ -228,7 +288,7 @@ export class AgentRewriter {
                 data: { jobId: context.jobId, volume: input.volume }
             })
             
-            const pass1Prompt = buildPass1Prompt(input)
+            const pass1Prompt = buildPass1Prompt(input, volumeName)
             const pass1Content = await callClaude({
                 system: PASS1_SYSTEM_PROMPT,
                 userPrompt: pass1Prompt,
@@ -241,26 +301,62 @@ export class AgentRewriter {
                 data: { jobId: context.jobId, volume: input.volume }
             })
             
-            const pass2Prompt = buildPass2Prompt(pass1Content, input)
-            const finalContent = await callClaude({
+            const pass2Prompt = buildPass2Prompt(pass1Content, input, volumeName)
+            let finalContent = await callClaude({
                 system: PASS2_SYSTEM_PROMPT,
                 userPrompt: pass2Prompt,
                 maxTokens: 16000,
                 jobId: context.jobId
             })
 
+            // Enforce the page limit on the rendered volume - prompts alone overshoot
+            const format = context.rfpParsedData?.section_l.format
+            let pageCount = await countVolumePages(finalContent, format, context.jobId)
+            let trimPasses = 0
+            const maxPages = input.pageLimits.maxPages
+            while (maxPages !== null && pageCount.pages > maxPages && trimPasses < MAX_TRIM_PASSES) {
+                trimPasses++
+                logger.info(`[Rewriter] Trim pass ${trimPasses}: ${pageCount.pages} pages over ${maxPages}-page limit`, {
+                    data: { jobId: context.jobId, volume: input.volume, rendered: pageCount.rendered }
+                })
+
+                finalContent = await callClaude({
+                    system: TRIM_SYSTEM_PROMPT,
+                    userPrompt: buildTrimPrompt(finalContent, pageCount, maxPages, volumeName),
+                    maxTokens: 16000,
+                    jobId: context.jobId
+                })
+                pageCount = await countVolumePages(finalContent, format, context.jobId)
+            }
+
+            if (maxPages !== null && pageCount.pages > maxPages) {
+                logger.warn(`[Rewriter] Volume ${input.volume} still ${pageCount.pages} pages after ${trimPasses} trim passes (limit ${maxPages})`, {
+                    jobId: context.jobId,
+                    data: { sections: pageCount.sections }
+                })
+            }
+
             // Save rewritten volume to database
             await this.saveRewrittenVolume(context.jobId, input.volume, finalContent, input.iteration)
 
             // Track changes applied
             const changesApplied = this.trackChangesApplied(input)
+            if (trimPasses > 0) {
+                changesApplied.push({
+                    section: 'Overall',
+                    changeType: 'quality_enhancement',
+                    description: `Trimmed to ${pageCount.pages} rendered pages (limit ${maxPages}) in ${trimPasses} pass${trimPasses === 1 ? '' : 'es'}`
+                })
+            }
             
             logger.info(`[Rewriter] Rewrite complete`, {
                 data: {
                     jobId: context.jobId,
                     volume: input.volume,
                     iteration: input.iteration,
-                    changesCount: changesApplied.length
+                    changesCount: changesApplied.length,
+                    pages: pageCount.pages,
+                    trimPasses
                 }
             })
 
@@ -271,7 +367,11 @@ export class AgentRewriter {
                     rewrittenContent: finalContent,
                     changesApplied,
                     preservedSections: input.consultantInsights.iterationContext?.areasToPreserve || [],
-                    iteration: input.iteration
+                    iteration: input.iteration,
+                    pageCount: pageCount.pages,
+                    pagesRendered: pageCount.rendered,
+                    sectionPages: pageCount.sections,
+                    trimPasses
                 }
             }
         } catch (error) {
@@ -304,7 +404,7 @@ export class AgentRewriter {
         content: string,
         iteration: number
     ): Promise<void> {
-        const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+        const volumeKey = `volume${volume}`
         
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const { error } = await (supabase.from('proposal_jobs') as any)
@@ -6,16 +6,28 @@
 
 import {
     RfpParsedData,
+    RfpDocument,
     ValidationReport,
     ContentOutlines,
     VolumePageLimits,
     VolumeProgress,
+    ProposalVolume,
     AgentName,
     AgentStatus,
     Company,
     PastPerformance,
     Personnel,
     LaborRate,
+    ClientIntake,
+    SectionPageUsage,
+    PricingInputs,
+    PriceModel,
+    PriceRealismReport,
+    ClaimAuditReport,
+    WinTheme,
+    WinThemeReport,
+    CompetitiveAssessment,
+    PriceToWinReport,
 } from '../database.types'
 
 // ============================================================================
@@ -43,6 +55,7 @@ export interface NormalizedCompanyData {
     pastPerformance: PastPerformance[]
     personnel: Personnel[]
     laborRates: LaborRate[]
+    intake?: ClientIntake | null // Latest client intake (certifications, CMMC, subcontractors)
 }
 
 export interface AgentContext {
@@ -53,25 +66,30 @@ export interface AgentContext {
     // RFP data
     rfpText?: string
     rfpFileUrl?: string
+    rfpDocument?: RfpDocument // Page-anchored text from server-side ingestion
     rfpParsedData?: RfpParsedData
     
     // Company data
     companyData?: NormalizedCompanyData
     
     // Content planning
+    volumeStructure?: ProposalVolume[] // Volumes Section L asks for (Agent 0)
     contentOutlines?: ContentOutlines
     volumePageLimits?: VolumePageLimits
     volumeProgress?: VolumeProgress
+    winThemes?: WinTheme[] // Edited on the job before writing; woven in by the writers, checked by Agent 5
+    competitiveAssessment?: CompetitiveAssessment // Ghosted by the writers; price-to-win target for the Price volume
+    
+    // Pricing engine inputs saved on the job (reused instead of re-estimating hours)
+    pricingInputs?: PricingInputs
+    priceModel?: PriceModel // Priced by the Price volume writer; Agent 8 exports it to the cost workbook
     
     // Validation
     validationReport?: ValidationReport
     
-    // Generated content
+    // Generated content, keyed "volume1", "volume2", ... per ProposalVolume
     volumes?: {
-        volume1?: string
-        volume2?: string
-        volume3?: string
-        volume4?: string
+        [volumeKey: string]: string | undefined
     }
     
     // Compliance
@@ -80,7 +98,7 @@ export interface AgentContext {
     humanizationReport?: object
     
     // Volume iteration mode (NEW)
-    targetVolume?: 1 | 2 | 3 | 4  // If set, agent should process only this volume
+    targetVolume?: number  // If set, agent should process only this volume
     userFeedback?: string // User feedback for iteration
 }
 
@@ -108,14 +126,10 @@ export interface Agent<TInput = AgentContext, TOutput = unknown> {
 // ============================================================================
 
 export interface Agent0Output {
+    volumeStructure: ProposalVolume[]
     volumePageLimits: VolumePageLimits
     volumeProgress: VolumeProgress
-    volumeUrls: {
-        volume1: string
-        volume2: string
-        volume3: string
-        volume4: string
-    }
+    volumeUrls: Record<string, string> // "volume1" -> storage path
 }
 
 // ============================================================================
@@ -147,12 +161,7 @@ export interface Agent2Output {
 
 export interface Agent3Output {
     contentOutlines: ContentOutlines
-    pageAllocations: {
-        volume1: number
-        volume2: number
-        volume3: number
-        volume4: number
-    }
+    pageAllocations: Record<string, number> // "volume1" -> allocated pages
 }
 
 // ============================================================================
@@ -166,14 +175,14 @@ export interface VolumeWriteResult {
     sectionsWritten: string[]
     failedSections?: string[] // NEW: Track failed sections for graceful error handling
     requirementsAddressed: string[]
+    pagesRendered?: boolean // pageCount comes from the PDF rendered with the Section L format
+    sectionPages?: SectionPageUsage[]
+    priceModel?: PriceModel // Price volume only: the figures the volume presents
 }
 
 export interface Agent4Output {
     volumes: {
-        volume1: VolumeWriteResult
-        volume2: VolumeWriteResult
-        volume3: VolumeWriteResult
-        volume4: VolumeWriteResult
+        [volumeKey: string]: VolumeWriteResult | undefined // "volume1", "volume2", ...
     }
     totalPages: number
 }
@@ -183,7 +192,7 @@ export interface Agent4Output {
 // ============================================================================
 
 export interface ComplianceCheckResult {
-    category: 'format' | 'content' | 'scoring'
+    category: 'format' | 'content' | 'scoring' | 'price' | 'claims' | 'win_themes'
     item: string
     status: 'pass' | 'fail' | 'warning'
     details: string
@@ -208,6 +217,11 @@ export interface Agent5Output {
     }>
     strengths?: string[]
     criticalGaps?: string[]
+    evaluationRating?: string // Likely rating under the Section M scheme (e.g. "Good", "Acceptable")
+    priceRealism?: PriceRealismReport // Price volume: realism / reasonableness review of the price model
+    priceToWin?: PriceToWinReport // Price volume: distance from the competitive assessment's price-to-win target
+    claimAudit?: ClaimAuditReport // Factual claims checked against the company data and intake
+    winThemes?: WinThemeReport // Which win themes appear in which volumes, and where they are missing
 }
 
 // ============================================================================
@@ -265,26 +279,23 @@ export interface Agent7Output {
 export interface PackagedFile {
     fileName: string
     fileType: 'pdf' | 'docx' | 'xlsx'
-    fileUrl: string
-    fileSize: number
+    fileUrl: string // Path in package storage
+    fileSize: number // Bytes
+    sha256: string
 }
 
 export interface Agent8Output {
     submissionPackage: {
-        volume1Pdf: PackagedFile
-        volume2Pdf: PackagedFile
-        volume3Pdf: PackagedFile
-        volume4Pdf: PackagedFile
-        costTemplate: PackagedFile
-        coverLetter: PackagedFile
+        volumePdfs: PackagedFile[] // One per rendered ProposalVolume, in volume order
+        costTemplate?: PackagedFile // Priced cost workbook: the solicitation's pricing template filled in, or the standard layout
+        coverLetter?: PackagedFile
     }
     archivePackage: {
-        volume1Docx: PackagedFile
-        volume2Docx: PackagedFile
-        volume3Docx: PackagedFile
-        volume4Docx: PackagedFile
-        complianceMatrix: PackagedFile
+        volumeDocxs: PackagedFile[]
+        complianceMatrix?: PackagedFile
     }
+    packageFileName: string // Submission ZIP name per Section L
+    finalHtml: string
     finalChecklist: {
         item: string
         status: 'pass' | 'fail'
@@ -0,0 +1,133 @@
+/**
+ * Amendment Impact Analysis
+ *
+ * Flags the compliance matrix entries, proposal sections and volumes touched
+ * by an amendment so only those are regenerated instead of the whole job.
+ */
+
+import {
+    AffectedSection,
+    ContentOutlines,
+    ProposalVolume,
+    RfpParsedData,
+    RfpParsedDataDiff,
+    VolumeInstructionChange,
+} from '../database.types'
+import { agent3 } from '../agents'
+import { resolveVolumeStructure, volumeForPageLimitKey } from '../volume-structure'
+
+export interface AmendmentImpact {
+    contentOutlines: ContentOutlines | null
+    affectedSections: AffectedSection[]
+    affectedVolumes: number[]
+}
+
+/**
+ * Job volume a Section L volume change applies to: the volume of that name
+ * (before a rename), else the volume at the same position. A volume the
+ * amendment adds has not been written, so only a name match counts for it.
+ */
+function volumeForInstruction(structure: ProposalVolume[], change: VolumeInstructionChange): number | undefined {
+    const key = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+    const names = [change.name, change.previous_name].filter((n): n is string => !!n).map(key)
+    const named = structure.find(v => names.includes(key(v.name)))
+    if (named || change.type === 'added') return named?.number
+    return structure.find(v => v.number === change.number)?.number
+}
+
+/**
+ * Apply an amendment diff to the compliance matrix and work out what must be regenerated
+ * @param parsedData - Amended RfpParsedData with stabilized requirement IDs
+ * @param volumeStructure - Volumes the job is being written to (default four when not stored)
+ */
+export function analyzeAmendmentImpact(
+    diff: RfpParsedDataDiff,
+    parsedData: RfpParsedData,
+    contentOutlines: ContentOutlines | null,
+    amendmentId: string,
+    volumeStructure?: ProposalVolume[] | null
+): AmendmentImpact {
+    const structure = resolveVolumeStructure(volumeStructure)
+    const fallbackVolume = structure[0].number
+    const volumes = new Set<number>()
+    let matrix = contentOutlines?.compliance_matrix ? [...contentOutlines.compliance_matrix] : null
+
+    if (matrix) {
+        for (const change of diff.requirements) {
+            if (change.type === 'added') {
+                const requirement = parsedData.section_c.requirements.find(r => r.id === change.req_id)
+                matrix.push({
+                    req_id: change.req_id,
+                    requirement: (change.text || '').substring(0, 200),
+                    mandatory: change.mandatory,
+                    eval_factor: requirement?.eval_factor || 'Technical',
+                    volume: requirement ? agent3.guessVolume(requirement, structure) : fallbackVolume,
+                    section: 'TBD',
+                    page_range: 'TBD',
+                    status: 'pending',
+                    evidence: '',
+                    amendment_status: 'added',
+                    amendment_id: amendmentId,
+                })
+                continue
+            }
+
+            matrix = matrix.map(entry => entry.req_id !== change.req_id ? entry : {
+                ...entry,
+                requirement: change.type === 'changed' ? (change.text || '').substring(0, 200) : entry.requirement,
+                mandatory: change.mandatory,
+                status: 'pending',
+                amendment_status: change.type,
+                amendment_id: amendmentId,
+            })
+        }
+    }
+
+    // ========================================================================
+    // Group flagged matrix entries into proposal sections
+    // ========================================================================
+    const sectionMap = new Map<string, AffectedSection>()
+    for (const entry of matrix || []) {
+        if (entry.amendment_id !== amendmentId) continue
+
+        const key = `${entry.volume}|${entry.section}`
+        const section = sectionMap.get(key) || { volume: entry.volume, section: entry.section, req_ids: [] }
+        section.req_ids.push(entry.req_id)
+        sectionMap.set(key, section)
+        volumes.add(entry.volume)
+    }
+
+    // Without a compliance matrix (job still in preparation) fall back to volume-level flags
+    if (!matrix && diff.requirements.length > 0) {
+        diff.requirements.forEach(change => {
+            const requirement = parsedData.section_c.requirements.find(r => r.id === change.req_id)
+            volumes.add(requirement ? agent3.guessVolume(requirement, structure) : fallbackVolume)
+        })
+    }
+
+    diff.page_limits.forEach(limit => {
+        const volume = volumeForPageLimitKey(structure, limit.volume)
+        if (volume) volumes.add(volume)
+    })
+
+    diff.volumes.forEach(change => {
+        const volume = volumeForInstruction(structure, change)
+        if (volume) volumes.add(volume)
+    })
+
+    // CLINs, periods and the contract type are what the Price volume is built on
+    if (diff.clins_changed || diff.contract_type) {
+        structure.filter(v => v.writer === 'price').forEach(v => volumes.add(v.number))
+    }
+
+    // Format rules and evaluation criteria apply to every volume
+    if (diff.format_changed || diff.evaluation_factors_changed) {
+        structure.forEach(v => volumes.add(v.number))
+    }
+
+    return {
+        contentOutlines: contentOutlines && matrix ? { ...contentOutlines, compliance_matrix: matrix } : contentOutlines,
+        affectedSections: [...sectionMap.values()].sort((a, b) => a.volume - b.volume || a.section.localeCompare(b.section)),
+        affectedVolumes: [...volumes].sort((a, b) => a - b),
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Solicitation Amendments
+ *
+ * Diff the parsed RFP before/after an SF-30 amendment and flag the
+ * proposal content it affects.
+ */
+
+export { diffRfpParsedData, isEmptyDiff } from './requirement-diff'
+export { analyzeAmendmentImpact } from './impact'
+export type { AmendmentImpact } from './impact'
@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ProposalVolume, RfpParsedData, SectionLVolume } from '../database.types'
+import { analyzeAmendmentImpact } from './impact'
+import { diffRfpParsedData, isEmptyDiff } from './requirement-diff'
+
+vi.mock('../agents', () => ({ agent3: { guessVolume: () => 1 } }))
+
+const SECTION_L_VOLUMES: SectionLVolume[] = [
+    { name: 'Technical Approach', page_limit: 30, required_contents: ['Technical approach'] },
+    { name: 'Management Approach', page_limit: 15, required_contents: ['Staffing plan'] },
+    { name: 'Price', page_limit: null, required_contents: ['Pricing workbook'] },
+]
+
+const STRUCTURE: ProposalVolume[] = [
+    { number: 1, name: 'Technical Approach', writer: 'technical', page_limit: 30, required_contents: [], eval_factors: [] },
+    { number: 2, name: 'Management Approach', writer: 'management', page_limit: 15, required_contents: [], eval_factors: [] },
+    { number: 3, name: 'Price', writer: 'price', page_limit: null, required_contents: [], eval_factors: [] },
+]
+
+function parsedRfp(overrides: Partial<RfpParsedData> = {}): RfpParsedData {
+    return {
+        metadata: { agency: 'GSA', solicitation_num: '47QTCA-25-R-0001', title: 'IT Support', deadline: '2025-06-30', contract_type: 'FFP' },
+        section_l: {
+            volumes_required: 3,
+            page_limits: { volume_1_technical: 30, volume_2_management: 15, volume_3_past_performance: 25, volume_4_price: null },
+            volumes: SECTION_L_VOLUMES,
+            format: { font: 'Times New Roman', font_size: '12', margins: '1 inch', spacing: 'single' },
+        },
+        section_m: { factors: [{ name: 'Technical', weight: 60 }, { name: 'Price', weight: 40 }] } as RfpParsedData['section_m'],
+        section_c: {
+            requirements: [
+                { id: 'REQ-001', section: 'C.3.1', text: 'The contractor shall operate a help desk from 0700 to 1900 Eastern time.', mandatory: true, volume: 'Technical Approach' },
+                { id: 'REQ-002', section: 'C.3.2', text: 'The contractor shall deliver a monthly status report to the COR.', mandatory: true },
+            ],
+        },
+        section_b: {
+            clins: [
+                { clin: '0001', description: 'Base Year Support', quantity: '12', unit: 'MO' },
+                { clin: '1001', description: 'Option Year 1 Support', quantity: '12', unit: 'MO' },
+            ],
+        },
+        disqualifying_requirements: [],
+        ...overrides,
+    }
+}
+
+describe('diffRfpParsedData', () => {
+    it('carries requirement IDs over when the parser renumbers them', () => {
+        const previous = parsedRfp()
+        const current = parsedRfp({
+            section_c: {
+                requirements: [
+                    { id: 'REQ-001', section: 'C.3.2', text: 'The contractor shall deliver a monthly status report to the COR.', mandatory: true },
+                    { id: 'REQ-002', section: 'C.3.1', text: 'The contractor shall operate a help desk from 0700 to 2100 Eastern time.', mandatory: true },
+                    { id: 'REQ-003', section: 'C.3.3', text: 'The contractor shall maintain a knowledge base of resolved tickets.', mandatory: false },
+                ],
+            },
+        })
+
+        const { diff, stabilized } = diffRfpParsedData(previous, current)
+
+        expect(stabilized.section_c.requirements.map(r => r.id)).toEqual(['REQ-002', 'REQ-001', 'REQ-003'])
+        expect(stabilized.section_c.requirements[1].volume).toBe('Technical Approach')
+        expect(diff.requirements).toEqual([
+            expect.objectContaining({ type: 'changed', req_id: 'REQ-001' }),
+            expect.objectContaining({ type: 'added', req_id: 'REQ-003' }),
+        ])
+    })
+
+    it('reports nothing for an amendment that changes nothing', () => {
+        const { diff } = diffRfpParsedData(parsedRfp(), parsedRfp())
+        expect(isEmptyDiff(diff)).toBe(true)
+    })
+
+    it('compares the Section L volumes one by one', () => {
+        const current = parsedRfp({
+            section_l: {
+                ...parsedRfp().section_l,
+                volumes: [
+                    { ...SECTION_L_VOLUMES[0], page_limit: 25 },
+                    { name: 'Management and Staffing', page_limit: 15, required_contents: ['Staffing plan'] },
+                    SECTION_L_VOLUMES[2],
+                    { name: 'Small Business Participation', page_limit: 5, required_contents: [] },
+                ],
+            },
+        })
+
+        const { diff } = diffRfpParsedData(parsedRfp(), current)
+
+        expect(diff.volumes).toEqual([
+            expect.objectContaining({ type: 'changed', name: 'Technical Approach', number: 1, previous_page_limit: 30, current_page_limit: 25 }),
+            expect.objectContaining({ type: 'changed', name: 'Management and Staffing', number: 2, previous_name: 'Management Approach' }),
+            expect.objectContaining({ type: 'added', name: 'Small Business Participation', number: 4 }),
+        ])
+        expect(isEmptyDiff(diff)).toBe(false)
+    })
+
+    it('reports Section B and contract type changes', () => {
+        const current = parsedRfp({
+            metadata: { ...parsedRfp().metadata, contract_type: 'T&M' },
+            section_b: {
+                clins: [
+                    ...parsedRfp().section_b!.clins,
+                    { clin: '2001', description: 'Option Year 2 Support', quantity: '12', unit: 'MO' },
+                ],
+            },
+        })
+
+        const { diff } = diffRfpParsedData(parsedRfp(), current)
+
+        expect(diff.clins_changed).toBe(true)
+        expect(diff.contract_type).toEqual({ previous: 'FFP', current: 'T&M' })
+    })
+})
+
+describe('analyzeAmendmentImpact', () => {
+    it('flags the Price volume when CLINs or the contract type change', () => {
+        const current = parsedRfp({ metadata: { ...parsedRfp().metadata, contract_type: 'Cost-Plus' } })
+        const { diff, stabilized } = diffRfpParsedData(parsedRfp(), current)
+
+        const impact = analyzeAmendmentImpact(diff, stabilized, null, 'AMD-001', STRUCTURE)
+
+        expect(impact.affectedVolumes).toEqual([3])
+    })
+
+    it('flags the volumes whose Section L instructions changed, renamed ones included', () => {
+        const current = parsedRfp({
+            section_l: {
+                ...parsedRfp().section_l,
+                volumes: [
+                    SECTION_L_VOLUMES[0],
+                    { name: 'Management and Staffing', page_limit: 10, required_contents: ['Staffing plan'] },
+                    SECTION_L_VOLUMES[2],
+                ],
+            },
+        })
+        const { diff, stabilized } = diffRfpParsedData(parsedRfp(), current)
+
+        const impact = analyzeAmendmentImpact(diff, stabilized, null, 'AMD-001', STRUCTURE)
+
+        expect(impact.affectedVolumes).toEqual([2])
+    })
+})
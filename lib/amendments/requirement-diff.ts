@@ -0,0 +1,275 @@
+/**
+ * RFP Parsed Data Diffing
+ *
+ * Compares the RfpParsedData extracted before and after an amendment.
+ * Agent 1 renumbers requirements on every run, so requirements are matched
+ * by text similarity and the previous IDs are carried over - compliance
+ * matrix entries and outlines keep pointing at the right requirement.
+ */
+
+import {
+    RfpParsedData,
+    RfpParsedDataDiff,
+    RfpRequirement,
+    RequirementChange,
+    SectionLVolume,
+    VolumeInstructionChange,
+    VolumePageLimits,
+} from '../database.types'
+
+// At or above: same requirement, reworded at most trivially
+const UNCHANGED_SIMILARITY = 0.95
+// At or above: same requirement, modified by the amendment
+const CHANGED_SIMILARITY = 0.6
+
+const PAGE_LIMIT_KEYS: Array<keyof VolumePageLimits> = [
+    'volume_1_technical',
+    'volume_2_management',
+    'volume_3_past_performance',
+    'volume_4_price',
+]
+
+function words(text: string): Set<string> {
+    return new Set(text.toLowerCase().replace(/[^\w\s]/g, ' ').split(/\s+/).filter(Boolean))
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1
+    let intersection = 0
+    for (const word of a) {
+        if (b.has(word)) intersection++
+    }
+    return intersection / (a.size + b.size - intersection)
+}
+
+function requirementNumber(id: string): number {
+    return parseInt(id.replace(/\D/g, ''), 10) || 0
+}
+
+function volumeKey(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function pageLimit(volume: SectionLVolume): number | null {
+    return typeof volume.page_limit === 'number' && volume.page_limit > 0 ? volume.page_limit : null
+}
+
+function sameInstructions(a: SectionLVolume, b: SectionLVolume): boolean {
+    const list = (values?: string[]) => JSON.stringify([...(values || [])].sort())
+    return pageLimit(a) === pageLimit(b) &&
+        list(a.required_contents) === list(b.required_contents) &&
+        list(a.eval_factors) === list(b.eval_factors)
+}
+
+/**
+ * Compare the Section L volume lists volume by volume. Volumes are matched by
+ * name; a volume left over on both sides at the same position was renamed.
+ */
+function diffVolumes(previous: SectionLVolume[], current: SectionLVolume[]): VolumeInstructionChange[] {
+    const changes: VolumeInstructionChange[] = []
+    const unmatchedOld = new Map(previous.map((v, i) => [i, v]))
+    const matches = new Map<number, number>() // current index -> previous index
+
+    current.forEach((volume, i) => {
+        const match = [...unmatchedOld.entries()].find(([, old]) => volumeKey(old.name) === volumeKey(volume.name))
+        if (!match) return
+        matches.set(i, match[0])
+        unmatchedOld.delete(match[0])
+    })
+    current.forEach((_, i) => {
+        if (matches.has(i) || !unmatchedOld.has(i)) return
+        matches.set(i, i)
+        unmatchedOld.delete(i)
+    })
+
+    current.forEach((volume, i) => {
+        const oldIndex = matches.get(i)
+        if (oldIndex === undefined) {
+            changes.push({ type: 'added', name: volume.name, number: i + 1, current_page_limit: pageLimit(volume) })
+            return
+        }
+
+        const old = previous[oldIndex]
+        const renamed = volumeKey(old.name) !== volumeKey(volume.name)
+        if (!renamed && sameInstructions(old, volume)) return
+        changes.push({
+            type: 'changed',
+            name: volume.name,
+            number: i + 1,
+            previous_name: renamed ? old.name : undefined,
+            previous_page_limit: pageLimit(old),
+            current_page_limit: pageLimit(volume),
+        })
+    })
+
+    unmatchedOld.forEach((old, i) => {
+        changes.push({ type: 'deleted', name: old.name, number: i + 1, previous_page_limit: pageLimit(old) })
+    })
+
+    return changes
+}
+
+function clinList(data: RfpParsedData): string {
+    return (data.section_b?.clins || [])
+        .map(c => [c.clin, c.description, c.quantity, c.unit].map(v => String(v || '').trim()).join('|'))
+        .join(';')
+}
+
+/**
+ * Diff two parsed RFPs
+ * @returns The diff plus `current` with requirement IDs stabilized against `previous`
+ */
+export function diffRfpParsedData(
+    previous: RfpParsedData,
+    current: RfpParsedData
+): { diff: RfpParsedDataDiff; stabilized: RfpParsedData } {
+    const oldReqs = previous.section_c?.requirements || []
+    const newReqs = current.section_c?.requirements || []
+
+    const oldWords = oldReqs.map(r => words(r.text))
+    const newWords = newReqs.map(r => words(r.text))
+
+    // ========================================================================
+    // Greedy best-first matching of new requirements to old ones
+    // ========================================================================
+    const candidates: Array<{ oldIndex: number; newIndex: number; similarity: number }> = []
+    newWords.forEach((nw, newIndex) => {
+        oldWords.forEach((ow, oldIndex) => {
+            const similarity = jaccard(ow, nw)
+            if (similarity >= CHANGED_SIMILARITY) {
+                candidates.push({ oldIndex, newIndex, similarity })
+            }
+        })
+    })
+    candidates.sort((a, b) => b.similarity - a.similarity)
+
+    const matchedOld = new Map<number, { newIndex: number; similarity: number }>()
+    const matchedNew = new Map<number, number>()
+    for (const candidate of candidates) {
+        if (matchedOld.has(candidate.oldIndex) || matchedNew.has(candidate.newIndex)) continue
+        matchedOld.set(candidate.oldIndex, { newIndex: candidate.newIndex, similarity: candidate.similarity })
+        matchedNew.set(candidate.newIndex, candidate.oldIndex)
+    }
+
+    // ========================================================================
+    // Carry IDs over and classify changes
+    // ========================================================================
+    let nextNumber = oldReqs.reduce((max, r) => Math.max(max, requirementNumber(r.id)), 0) + 1
+    const changes: RequirementChange[] = []
+
+    const stabilizedReqs: RfpRequirement[] = newReqs.map((req, newIndex) => {
+        const oldIndex = matchedNew.get(newIndex)
+
+        if (oldIndex === undefined) {
+            const id = `REQ-${String(nextNumber++).padStart(3, '0')}`
+            changes.push({ type: 'added', req_id: id, section: req.section, text: req.text, mandatory: req.mandatory })
+            return { ...req, id }
+        }
+
+        const old = oldReqs[oldIndex]
+        const similarity = matchedOld.get(oldIndex)?.similarity ?? 0
+        if (similarity < UNCHANGED_SIMILARITY || old.mandatory !== req.mandatory) {
+            changes.push({
+                type: 'changed',
+                req_id: old.id,
+                section: req.section,
+                text: req.text,
+                previous_text: old.text,
+                mandatory: req.mandatory,
+            })
+        }
+
+        // Keep Agent 3's volume/section mapping for requirements that survived
+        return {
+            ...req,
+            id: old.id,
+            volume: req.volume || old.volume,
+            proposal_section: req.proposal_section || old.proposal_section,
+            page_range: req.page_range || old.page_range,
+            // Q&A clarifications are imported separately and must survive re-parsing
+            clarification: req.clarification || old.clarification,
+            clarification_ids: req.clarification_ids || old.clarification_ids,
+        }
+    })
+
+    oldReqs.forEach((old, oldIndex) => {
+        if (!matchedOld.has(oldIndex)) {
+            changes.push({ type: 'deleted', req_id: old.id, section: old.section, previous_text: old.text, mandatory: old.mandatory })
+        }
+    })
+
+    // ========================================================================
+    // Section L / M / metadata changes
+    // ========================================================================
+    const pageLimits = PAGE_LIMIT_KEYS
+        .map(key => ({
+            volume: key,
+            previous: previous.section_l?.page_limits?.[key] ?? null,
+            current: current.section_l?.page_limits?.[key] ?? null,
+        }))
+        .filter(limit => limit.previous !== limit.current)
+
+    const volumes = diffVolumes(
+        (previous.section_l?.volumes || []).filter(v => v?.name?.trim()),
+        (current.section_l?.volumes || []).filter(v => v?.name?.trim())
+    )
+
+    const previousContractType = previous.metadata?.contract_type || ''
+    const currentContractType = current.metadata?.contract_type || ''
+
+    const previousDeadline = previous.metadata?.deadline || ''
+    const currentDeadline = current.metadata?.deadline || ''
+
+    const previousFactors = (previous.section_m?.factors || []).map(f => `${f.name}|${f.weight}`).sort().join(';')
+    const currentFactors = (current.section_m?.factors || []).map(f => `${f.name}|${f.weight}`).sort().join(';')
+    // A changed basis for award (e.g. tradeoff -> LPTA) changes how every volume should be written
+    const methodologyChanged = (previous.section_m?.methodology?.award_basis || 'unknown') !==
+        (current.section_m?.methodology?.award_basis || 'unknown')
+
+    const previousDisqualifiers = new Set(previous.disqualifying_requirements || [])
+    const currentDisqualifiers = new Set(current.disqualifying_requirements || [])
+
+    const diff: RfpParsedDataDiff = {
+        requirements: changes,
+        page_limits: pageLimits,
+        volumes,
+        clins_changed: clinList(previous) !== clinList(current),
+        contract_type: previousContractType !== currentContractType
+            ? { previous: previousContractType, current: currentContractType }
+            : undefined,
+        deadline: previousDeadline !== currentDeadline
+            ? { previous: previousDeadline, current: currentDeadline }
+            : undefined,
+        format_changed: JSON.stringify(previous.section_l?.format || {}) !== JSON.stringify(current.section_l?.format || {}),
+        evaluation_factors_changed: previousFactors !== currentFactors || methodologyChanged,
+        disqualifiers: {
+            added: [...currentDisqualifiers].filter(d => !previousDisqualifiers.has(d)),
+            removed: [...previousDisqualifiers].filter(d => !currentDisqualifiers.has(d)),
+        },
+    }
+
+    return {
+        diff,
+        stabilized: {
+            ...current,
+            section_c: { ...current.section_c, requirements: stabilizedReqs },
+            clarifications: current.clarifications || previous.clarifications,
+        },
+    }
+}
+
+/**
+ * True when the amendment changed nothing the proposal depends on
+ */
+export function isEmptyDiff(diff: RfpParsedDataDiff): boolean {
+    return diff.requirements.length === 0 &&
+        diff.page_limits.length === 0 &&
+        diff.volumes.length === 0 &&
+        !diff.clins_changed &&
+        !diff.contract_type &&
+        !diff.deadline &&
+        !diff.format_changed &&
+        !diff.evaluation_factors_changed &&
+        diff.disqualifiers.added.length === 0 &&
+        diff.disqualifiers.removed.length === 0
+}
@@ -0,0 +1,316 @@
+/**
+ * Claim Extraction
+ *
+ * Pulls the checkable facts out of volume HTML, section by section: contract
+ * numbers, dollar values, named personnel, years of experience,
+ * certifications, CPARS ratings and achievement metrics. Extraction is
+ * pattern based so the same volume always yields the same claims.
+ */
+
+import { ClaimKind } from '../database.types'
+
+export interface VolumeSection {
+    title: string // <h2>/<h3> heading text
+    sentences: string[]
+}
+
+export interface ExtractedClaim {
+    kind: ClaimKind
+    section: string
+    claim: string // As written
+    excerpt: string // Sentence the claim was found in
+    amount?: number // dollar_value: dollars; experience: years (or the founding year); metric: percent
+    tolerance?: number // dollar_value: half a unit of the last digit written
+    qualifier?: 'over' | 'about' // "over $5M", "more than 15 years", "approximately $2M"
+    founded?: boolean // experience: "founded in 2015" rather than a number of years
+    label?: string // certification: catalog label; personnel: the name without honorific
+    level?: string // certification: CMMC / CMMI level or FedRAMP baseline
+}
+
+export interface CertificationPattern {
+    label: string
+    pattern: RegExp // Claim in the volume (level in the first group when the certification has levels)
+    held?: RegExp // Match against the company / personnel records, when looser than the claim pattern
+    holder: 'company' | 'person'
+    status?: boolean // Socioeconomic status - claiming one the company does not hold is a misrepresentation
+}
+
+export const CERTIFICATIONS: CertificationPattern[] = [
+    { label: '8(a)', pattern: /\b8\s?\(a\)/i, holder: 'company', status: true },
+    { label: 'HUBZone', pattern: /\bHUBZone\b/i, holder: 'company', status: true },
+    { label: 'SDVOSB', pattern: /\bSDVOSB\b|\bservice[- ]disabled[,]? veteran[- ]owned\b/i, holder: 'company', status: true },
+    { label: 'VOSB', pattern: /\bVOSB\b|(?<!disabled[,]? )\bveteran[- ]owned small business\b/i, held: /\b(?:SD)?VOSB\b|veteran[- ]owned/i, holder: 'company', status: true },
+    { label: 'EDWOSB', pattern: /\bEDWOSB\b|\beconomically disadvantaged women[- ]owned\b/i, holder: 'company', status: true },
+    { label: 'WOSB', pattern: /\bWOSB\b|(?<!disadvantaged )\bwomen[- ]owned small business\b/i, held: /\b(?:ED)?WOSB\b|women[- ]owned/i, holder: 'company', status: true },
+    { label: 'ISO 9001', pattern: /\bISO[\s/-]*9001\b/i, holder: 'company' },
+    { label: 'ISO 27001', pattern: /\bISO(?:\/IEC)?[\s-]*27001\b/i, holder: 'company' },
+    { label: 'ISO 20000', pattern: /\bISO(?:\/IEC)?[\s-]*20000\b/i, holder: 'company' },
+    { label: 'CMMI', pattern: /\bCMMI(?:[\s-]+(?:DEV|SVC|for Development|for Services))?[\s-]+(?:Maturity\s+)?(?:Level|ML)[\s-]*(\d)\b/i, held: /\bCMMI\b/i, holder: 'company' },
+    { label: 'CMMC', pattern: /\bCMMC(?:\s+2\.0)?[\s-]+(?:Level|L)[\s-]*(\d)\b/i, held: /\bCMMC\b/i, holder: 'company' },
+    { label: 'FedRAMP', pattern: /\bFedRAMP[\s-]+(Low|Moderate|High)\b/i, held: /\bFedRAMP\b/i, holder: 'company' },
+    { label: 'SOC 2', pattern: /\bSOC\s?2\b/i, holder: 'company' },
+    { label: 'PMP', pattern: /\bPMP\b/, holder: 'person' },
+    { label: 'CISSP', pattern: /\bCISSP\b/, holder: 'person' },
+    { label: 'CISM', pattern: /\bCISM\b/, holder: 'person' },
+    { label: 'CCSP', pattern: /\bCCSP\b/, holder: 'person' },
+    { label: 'CEH', pattern: /\bCEH\b/, holder: 'person' },
+    { label: 'Security+', pattern: /\bSecurity\+/, holder: 'person' },
+    { label: 'ITIL', pattern: /\bITIL\b/, holder: 'person' },
+    { label: 'Certified ScrumMaster', pattern: /\bCSM\b|\bCertified Scrum\s?Master\b/i, holder: 'person' },
+    { label: 'CKA', pattern: /\bCKAD?\b/, held: /\bCKAD?\b|Kubernetes/i, holder: 'person' },
+    { label: 'AWS certification', pattern: /\bAWS[\s-]+Certified\b|\bAWS (?:Solutions Architect|DevOps Engineer|SysOps Administrator|Security Specialty)\b/i, held: /\bAWS\b/i, holder: 'person' },
+    { label: 'Azure certification', pattern: /\bAzure (?:Solutions Architect|Administrator|Security Engineer|DevOps Engineer)\b/i, held: /\bAzure\b/i, holder: 'person' },
+    { label: 'Terraform Associate', pattern: /\bTerraform (?:Associate|Certified)\b/i, held: /\bTerraform\b/i, holder: 'person' },
+]
+
+const CPARS_RATINGS = /\b(Exceptional|Very Good|Satisfactory|Marginal|Unsatisfactory)\b/g
+const CPARS_CUE = /\bCPARS\b|\bPPIRS\b|\bperformance (?:rating|assessment|evaluation)s?\b|\brated\b|\bratings?\b/i
+
+// Uppercase tokens with letters and digits: W52P1J-19-D-0023, GS-35F-0119Y, 47QTCA19D00AB
+const CONTRACT_NUMBER = /\b[A-Z0-9]{2,}(?:-[A-Z0-9]+){1,4}\b|\b[A-Z0-9]{11,17}\b/g
+const CONTRACT_CUE = /\bcontracts?\b|\btask orders?\b|\bdelivery orders?\b|\border\b|\bawards?\b|\bawarded\b|\bvehicle\b|\bschedule\b|\bBPA\b|\bIDIQ\b|\bGWAC\b|\bagreement\b|\bNo\.|\bnumber\b|#/i
+// Standards and regulation references that look like contract numbers
+const REFERENCE_PREFIX = /^(?:NIST|SP|ISO|IEC|FIPS|FAR|DFARS|CMMC|CMMI|RFC|IEEE|CVE|OMB|DODI?|DODM|AR|TLS|SHA|AES|HIPAA|MIL|STD)-/
+
+const DOLLAR = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s*(thousand|million|billion|mm|[kmb])\b)?(\+)?/gi
+const SCALES: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, b: 1e9, billion: 1e9 }
+// Dollar figures below this are unit prices and rates - the price realism review covers those
+const MIN_DOLLAR_CLAIM = 1000
+
+const PERCENT = /(\d+(?:\.\d+)?)\s?(?:%|percent\b)/gi
+// Achievements, not commitments: "reduced MTTR by 40%" rather than "we will achieve 95%"
+const ACHIEVEMENT_CUE = /\b(?:reduced|reducing|increased|improved|achieved|achieving|delivered|saved|saving|cut|decreased|maintained|realized|exceeded|resulted|boosted|accelerated|lowered|eliminated|sustained|averaged)\b/i
+// Pricing percentages belong to the price realism review
+const PRICE_TERMS = /\b(?:fee|G&A|overhead|fringe|escalat\w*|wrap rate|markup|discount|indirect|share ratio|subcontract\w*|set[- ]aside|small business participation)\b/i
+
+const YEARS = /\b(\d{1,2})\s?(\+)?\s*years?(?:\s+of)?(?:\s+[A-Za-z/-]+){0,4}?\s+(?:experience|expertise|service)\b|\b(\d{1,2})\s?(\+)?\s*years?\s+in\s+business\b/gi
+const FOUNDED = /\b(?:founded|established|incorporated)\s+(?:in\s+)?((?:19|20)\d{2})\b/gi
+
+const OVER = /(?:over|more than|in excess of|exceeding|greater than|above|at least)\s*$/i
+const ABOUT = /(?:approximately|about|nearly|almost|roughly|around|up to|~)\s*$/i
+
+// Ownership of a certification ("we are ISO 27001 certified", "Robert holds the PMP") vs. a requirement or a plan
+const OWNERSHIP_CUE = /\b(?:we|our|is|are|as an?|holds?|held|achieved|certified|credentialed|maintains?|accredited|appraised|registered|authorized)\b/i
+const INTENT_CUE = /\b(?:will|must|shall|requires?|required|requirements?|comply|compliance with|pursuing|in process|plans? to|seeking)\b/i
+// FedRAMP levels in a sentence about a cloud provider describe the provider's authorization
+const CLOUD_PROVIDER = /\b(?:AWS|Azure|GovCloud|Google Cloud|GCP|Oracle Cloud|cloud\.gov|Salesforce|ServiceNow)\b/i
+
+const HONORIFIC = '(?:(?:Dr|Mr|Mrs|Ms)\\.\\s+)?'
+const NAME = `${HONORIFIC}[A-Z][a-z][a-zA-Z'-]*(?:\\s+[A-Z]\\.)?\\s+[A-Z][a-z][a-zA-Z'-]*`
+const ROLE = '(?:(?:Senior|Lead|Principal|Deputy|Chief)\\s+)?(?:Program|Project|Technical|Task Order|Contract|Quality|Security|Transition|Engineering|Operations|Delivery|Cloud|DevSecOps|Cybersecurity|Solutions?|Enterprise|Data|Systems?|QA)\\s+(?:Manager|Lead|Director|Architect|Engineer|Officer|Analyst|Specialist|Scientist|Administrator)'
+const PERSON_PATTERNS = [
+    new RegExp(`\\b${ROLE},?\\s+(${NAME})`, 'g'),
+    new RegExp(`(${NAME}),\\s+(?:(?:our|the|who serves as|a|an)\\s+)?(?:(?:proposed|designated|key)\\s+)?${ROLE}`, 'g'),
+    new RegExp(`(${NAME})\\s+(?:brings|has|holds|will serve as|serves as|will lead)\\s`, 'g'),
+]
+
+// Capitalized words that end up next to role titles but are not names
+const NOT_NAME_WORDS = new Set([
+    'the', 'our', 'this', 'that', 'these', 'each', 'every', 'team', 'program', 'project', 'manager', 'management', 'lead',
+    'technical', 'security', 'cloud', 'support', 'services', 'service', 'office', 'plan', 'approach', 'agency', 'department',
+    'government', 'federal', 'contract', 'contractor', 'task', 'order', 'quality', 'control', 'assurance', 'operations',
+    'engineering', 'transition', 'key', 'personnel', 'staff', 'section', 'volume', 'table', 'figure', 'zero', 'trust',
+    'agile', 'devsecops', 'architect', 'engineer', 'director', 'officer', 'analyst', 'specialist', 'system', 'systems',
+    'data', 'enterprise', 'solutions', 'solution', 'delivery', 'deputy', 'senior', 'principal', 'chief', 'corporate',
+])
+
+const ABBREVIATION = /\b(?:Dr|Mr|Mrs|Ms|Col|Lt|Gen|Maj|Capt|Sgt|No|Inc|Corp|Co|Jr|Sr|St|vs|U\.S|e\.g|i\.e|approx|Fig)\.$/i
+const INITIAL = /\b[A-Z]\.$/
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&#36;|&dollar;/g, '$')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&#39;|&rsquo;|&lsquo;/g, "'")
+        .replace(/&quot;|&ldquo;|&rdquo;/g, '"')
+        .replace(/&amp;/g, '&')
+}
+
+function plainText(html: string): string {
+    return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Sentences of an HTML fragment - block elements (paragraphs, list items, table cells) end a sentence
+ */
+function sentencesOf(html: string): string[] {
+    const text = decodeEntities(html
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<br\s*\/?>|<\/(?:p|li|td|th|tr|div|caption|h[1-6])>/gi, '\n')
+        .replace(/<[^>]+>/g, ' '))
+
+    const sentences: string[] = []
+    for (const line of text.split('\n')) {
+        let current = ''
+        for (const piece of line.replace(/[ \t]+/g, ' ').trim().split(/(?<=[.!?])\s+/)) {
+            current = current ? `${current} ${piece}` : piece
+            if (!ABBREVIATION.test(current) && !INITIAL.test(current)) {
+                sentences.push(current)
+                current = ''
+            }
+        }
+        if (current) sentences.push(current)
+    }
+    return sentences.map(s => s.trim()).filter(s => s.length > 0)
+}
+
+/**
+ * Volume content split at its <h2>/<h3> headings
+ */
+export function volumeSections(html: string): VolumeSection[] {
+    const sections: VolumeSection[] = []
+    let title = '(Before first section)'
+    let last = 0
+
+    for (const heading of html.matchAll(/<h([23])[^>]*>([\s\S]*?)<\/h\1>/gi)) {
+        sections.push({ title, sentences: sentencesOf(html.slice(last, heading.index)) })
+        title = plainText(heading[2]) || title
+        last = (heading.index || 0) + heading[0].length
+    }
+    sections.push({ title, sentences: sentencesOf(html.slice(last)) })
+
+    return sections.filter(s => s.sentences.length > 0)
+}
+
+/**
+ * Clause around a match - the stretch of the sentence between commas, semicolons and colons
+ */
+function clauseAround(sentence: string, index: number, length: number): string {
+    const start = Math.max(...[',', ';', ':'].map(d => sentence.lastIndexOf(d, index))) + 1
+    const ends = [',', ';', ':'].map(d => sentence.indexOf(d, index + length)).filter(i => i >= 0)
+    return sentence.slice(start, ends.length > 0 ? Math.min(...ends) : sentence.length)
+}
+
+function qualifierBefore(sentence: string, index: number, trailingPlus?: string): ExtractedClaim['qualifier'] {
+    const before = sentence.slice(Math.max(0, index - 25), index)
+    if (trailingPlus || OVER.test(before)) return 'over'
+    if (ABOUT.test(before)) return 'about'
+    return undefined
+}
+
+/**
+ * Contract number tokens (letters and digits, nine or more characters) in a sentence about a contract
+ */
+export function contractNumberTokens(text: string): string[] {
+    return Array.from(text.matchAll(CONTRACT_NUMBER), m => m[0]).filter(token => {
+        const alnum = token.replace(/-/g, '')
+        return alnum.length >= 9 && /[A-Z]/.test(alnum) && (alnum.match(/\d/g) || []).length >= 4 && !REFERENCE_PREFIX.test(token)
+    })
+}
+
+/**
+ * Dollar figures written in text, with half a unit of the last digit written as tolerance
+ */
+export function dollarFigures(text: string): Array<{ written: string; index: number; amount: number; tolerance: number; plus?: string }> {
+    return Array.from(text.matchAll(DOLLAR), match => {
+        const decimals = match[2] || ''
+        const scale = match[3] ? SCALES[match[3].toLowerCase()] : 1
+        return {
+            written: match[0].trim(),
+            index: match.index || 0,
+            amount: parseFloat(`${match[1].replace(/,/g, '')}.${decimals || '0'}`) * scale,
+            tolerance: Math.max(0.5 * scale / Math.pow(10, decimals.length), 0.005),
+            plus: match[4],
+        }
+    })
+}
+
+/**
+ * Percentages written in text
+ */
+export function percentFigures(text: string): number[] {
+    return Array.from(text.matchAll(PERCENT), m => parseFloat(m[1]))
+}
+
+/**
+ * First CPARS adjectival rating in a text ("Very Good", "Exceptional")
+ */
+export function cparsRating(text: string | null | undefined): string | null {
+    return text ? Array.from(text.matchAll(CPARS_RATINGS), m => m[1])[0] || null : null
+}
+
+/**
+ * Candidate person name: two capitalized words (optionally an honorific and a middle initial),
+ * none of them a word that sits next to role titles without being a name
+ */
+function isNameCandidate(name: string): boolean {
+    return name.split(/\s+/).every(word => !NOT_NAME_WORDS.has(word.toLowerCase().replace(/[^a-z]/g, '')))
+}
+
+export function stripHonorific(name: string): string {
+    return name.replace(/^(?:Dr|Mr|Mrs|Ms|Col|Lt\.? Col|Lt|Gen|Maj|Capt)\.?\s+/i, '').trim()
+}
+
+function sentenceClaims(section: string, sentence: string): ExtractedClaim[] {
+    const claims: ExtractedClaim[] = []
+    const add = (claim: Omit<ExtractedClaim, 'section' | 'excerpt'>) => claims.push({ section, excerpt: sentence, ...claim })
+
+    if (CONTRACT_CUE.test(sentence)) {
+        for (const token of contractNumberTokens(sentence)) add({ kind: 'contract_number', claim: token })
+    }
+
+    for (const figure of dollarFigures(sentence)) {
+        if (figure.amount < MIN_DOLLAR_CLAIM) continue
+        add({
+            kind: 'dollar_value',
+            claim: figure.written,
+            amount: figure.amount,
+            tolerance: figure.tolerance,
+            qualifier: qualifierBefore(sentence, figure.index, figure.plus),
+        })
+    }
+
+    if (ACHIEVEMENT_CUE.test(sentence) && !PRICE_TERMS.test(sentence)) {
+        for (const match of sentence.matchAll(PERCENT)) {
+            add({ kind: 'metric', claim: match[0].trim(), amount: parseFloat(match[1]) })
+        }
+    }
+
+    for (const match of sentence.matchAll(YEARS)) {
+        const years = match[1] || match[3]
+        add({
+            kind: 'experience',
+            claim: match[0].trim(),
+            amount: parseInt(years, 10),
+            qualifier: qualifierBefore(sentence, match.index || 0, match[2] || match[4]),
+        })
+    }
+    for (const match of sentence.matchAll(FOUNDED)) {
+        add({ kind: 'experience', claim: match[0].trim(), amount: parseInt(match[1], 10), founded: true })
+    }
+
+    for (const cert of CERTIFICATIONS) {
+        const match = sentence.match(cert.pattern)
+        if (!match || match.index === undefined) continue
+        const clause = clauseAround(sentence, match.index, match[0].length)
+        if (!OWNERSHIP_CUE.test(clause) || INTENT_CUE.test(clause)) continue
+        if (cert.label === 'FedRAMP' && CLOUD_PROVIDER.test(sentence)) continue
+        add({ kind: 'certification', claim: match[0].trim(), label: cert.label, level: match[1] })
+    }
+
+    if (CPARS_CUE.test(sentence)) {
+        for (const match of sentence.matchAll(CPARS_RATINGS)) add({ kind: 'cpars', claim: match[1] })
+    }
+
+    const names = new Set<string>()
+    for (const pattern of PERSON_PATTERNS) {
+        for (const match of sentence.matchAll(pattern)) {
+            const name = match[1].trim()
+            if (isNameCandidate(stripHonorific(name))) names.add(name)
+        }
+    }
+    names.forEach(name => add({ kind: 'personnel', claim: name, label: stripHonorific(name) }))
+
+    return claims
+}
+
+/**
+ * Every checkable claim in a volume, in reading order
+ */
+export function extractClaims(html: string): ExtractedClaim[] {
+    return volumeSections(html).flatMap(section =>
+        section.sentences.flatMap(sentence => sentenceClaims(section.title, sentence))
+    )
+}
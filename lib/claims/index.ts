@@ -0,0 +1,14 @@
+/**
+ * Claim Verification
+ *
+ * The writers are told to use only the company's data; this audit checks they
+ * did. Factual claims in each volume are extracted per section and verified
+ * against the company record, past performance, personnel and the client
+ * intake. Agent 5 reports the findings and the consultant hands them to the
+ * rewriter as compliance gaps.
+ */
+
+export { extractClaims, volumeSections } from './extract'
+export { auditClaims } from './verify'
+export type { ExtractedClaim, VolumeSection } from './extract'
+export type { AuditedVolume, ClaimSources } from './verify'
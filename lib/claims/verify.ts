@@ -0,0 +1,504 @@
+/**
+ * Claim Verification
+ *
+ * Checks extracted claims against what the company actually has on file:
+ * past performance (contract numbers, values, CPARS ratings, outcomes),
+ * personnel (names, years of experience, certifications), the company record
+ * and the client intake. A claim nothing on file supports is "unsupported";
+ * one the records disagree with is "contradicted".
+ */
+
+import {
+    ClaimAuditReport,
+    ClaimFinding,
+    ClientIntake,
+    PastPerformance,
+    PriceModel,
+    VolumeWriterKind,
+} from '../database.types'
+import { NormalizedCompanyData } from '../agents/types'
+import { formatCurrency, modelFigures } from '../pricing/presentation'
+import {
+    CERTIFICATIONS,
+    ExtractedClaim,
+    contractNumberTokens,
+    cparsRating,
+    dollarFigures,
+    extractClaims,
+    percentFigures,
+    stripHonorific,
+} from './extract'
+
+// Years of experience may be rounded up by this much before a claim is contradicted
+const YEARS_TOLERANCE = 1
+
+// Share of the written figure an "approximately" claim may be off
+const ABOUT_TOLERANCE = 0.1
+
+const SEVERITY_ORDER: ClaimFinding['severity'][] = ['critical', 'high', 'medium', 'low']
+
+export interface ClaimSources {
+    companyData: NormalizedCompanyData
+    rfpText?: string // Figures and identifiers quoted from the solicitation are not company claims
+    solicitationNumber?: string
+    priceModel?: PriceModel // Figures from the price model are backed
+}
+
+export interface AuditedVolume {
+    number: number
+    content: string
+    writer?: VolumeWriterKind
+}
+
+interface KnownPerson {
+    name: string
+    first: string
+    last: string
+    years: number | null
+    certifications: string[]
+}
+
+interface CompanyFacts {
+    projects: PastPerformance[]
+    identifiers: Set<string> // Normalized contract numbers, UEI, CAGE, schedule numbers, solicitation tokens
+    dollars: number[]
+    percents: Set<number>
+    people: KnownPerson[] // Personnel records (with resumes)
+    contacts: KnownPerson[] // Past performance points of contact
+    organizationWords: Set<string> // Words of company, agency, project and subcontractor names
+    companyCertifications: string[]
+    cmmcLevel: string | null
+    fedrampLevel: string | null
+    foundedYear: number | null
+    yearsInBusiness: number | null
+}
+
+function normalizeId(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+function words(value: string): string[] {
+    return value.toLowerCase().split(/[^a-z]+/).filter(w => w.length > 1)
+}
+
+function person(name: string, years: number | null, certifications: string[]): KnownPerson {
+    const parts = stripHonorific(name).split(/\s+/).filter(p => !/^[A-Z]\.$/.test(p))
+    return {
+        name,
+        first: (parts[0] || '').toLowerCase(),
+        last: (parts[parts.length - 1] || '').toLowerCase(),
+        years,
+        certifications,
+    }
+}
+
+function intakeCertifications(intake: ClientIntake | null | undefined): string[] {
+    if (!intake) return []
+    return [
+        ...(intake.set_aside_certifications || []).map(c => c.type),
+        ...(intake.security_certifications || []).map(c => c.type),
+        ...(intake.cmmc_level && intake.cmmc_level !== 'None' ? [`CMMC ${intake.cmmc_level}`] : []),
+        ...(intake.fedramp_level && intake.fedramp_level !== 'None' ? [`FedRAMP ${intake.fedramp_level}`] : []),
+    ]
+}
+
+function levelOf(sources: string[], pattern: RegExp): string | null {
+    for (const source of sources) {
+        const match = source.match(pattern)
+        if (match?.[1]) return match[1].toLowerCase()
+    }
+    return null
+}
+
+/**
+ * Everything on file a claim can be checked against
+ */
+function companyFacts(sources: ClaimSources): CompanyFacts {
+    const { company, pastPerformance, personnel, laborRates, intake } = sources.companyData
+    const projects = pastPerformance || []
+    const subcontractors = intake?.subcontractors || []
+
+    const narrative = [
+        company?.capabilities_statement,
+        ...projects.flatMap(p => [p.scope, p.performance_summary, p.customer_testimonial, ...(p.quantified_outcomes || []).map(o => `${o.metric} ${o.value}`)]),
+        ...(personnel || []).map(p => p.resume_summary),
+        ...(intake?.proprietary_tools || []).map(t => `${t.description} ${t.benefits}`),
+        sources.rfpText,
+    ].filter((t): t is string => !!t).join('\n')
+
+    const identifiers = new Set([
+        ...projects.map(p => p.contract_number),
+        ...(laborRates || []).map(r => r.gsa_schedule_number),
+        company?.uei, company?.cage_code, company?.duns, company?.ein,
+        intake?.uei, intake?.cage_code, intake?.duns, intake?.ein, intake?.cmmc_cert_number,
+        ...[...(intake?.set_aside_certifications || []), ...(intake?.security_certifications || [])].map(c => c.cert_number),
+        ...subcontractors.flatMap(s => [s.uei, s.cage_code]),
+        sources.solicitationNumber,
+        ...contractNumberTokens(sources.rfpText || ''),
+    ].filter((v): v is string => !!v).map(normalizeId))
+
+    const dollars = [
+        ...projects.map(p => p.contract_value),
+        projects.reduce((sum, p) => sum + (p.contract_value || 0), 0),
+        company?.annual_revenue,
+        intake?.annual_revenue, intake?.travel_budget, intake?.license_costs, intake?.hardware_costs, intake?.cloud_costs,
+        ...(laborRates || []).map(r => r.hourly_rate),
+        ...dollarFigures(narrative).map(f => f.amount),
+        ...(sources.priceModel ? modelFigures(sources.priceModel).map(cents => cents / 100) : []),
+    ].filter((v): v is number => typeof v === 'number' && v > 0)
+
+    const percents = new Set([
+        ...percentFigures(narrative),
+        ...subcontractors.map(s => s.percentage_of_value),
+    ])
+
+    const companyCertifications = [
+        ...(company?.certifications || []),
+        ...(company?.business_type || []),
+        ...intakeCertifications(intake),
+    ]
+
+    const organizationWords = new Set([
+        company?.name, intake?.legal_name, intake?.dba_name,
+        ...projects.flatMap(p => [p.agency, p.customer_office, p.project_name]),
+        ...subcontractors.map(s => s.name),
+    ].filter((v): v is string => !!v).flatMap(words))
+
+    const currentYear = new Date().getFullYear()
+    const foundedYear = company?.founded_year || null
+
+    return {
+        projects,
+        identifiers,
+        dollars,
+        percents,
+        people: (personnel || []).map(p => person(p.name, p.years_experience ?? null, p.certifications || [])),
+        contacts: projects.filter(p => p.poc_name).map(p => person(p.poc_name, null, [])),
+        organizationWords,
+        companyCertifications,
+        cmmcLevel: levelOf(companyCertifications, /\bCMMC[\s-]+(?:Level|L)[\s-]*(\d)\b/i),
+        fedrampLevel: levelOf(companyCertifications, /\bFedRAMP[\s-]+(Low|Moderate|High)\b/i),
+        foundedYear,
+        yearsInBusiness: intake?.years_in_business ?? (foundedYear ? currentYear - foundedYear : null),
+    }
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function mentionsPerson(sentence: string, known: KnownPerson): boolean {
+    const first = known.first.replace(/[^a-z'-]/g, '')
+    const last = known.last.replace(/[^a-z'-]/g, '')
+    if (!last) return false
+    const text = sentence.toLowerCase()
+    return new RegExp(`\\b${last}\\b`).test(text) &&
+        ((!!first && new RegExp(`\\b${first}\\b`).test(text)) || new RegExp(`\\b(?:dr|mr|mrs|ms)\\.\\s+${last}\\b`).test(text))
+}
+
+/**
+ * Past performance projects a sentence names, by project name or contract number
+ */
+function mentionedProjects(sentence: string, facts: CompanyFacts): PastPerformance[] {
+    const text = sentence.toLowerCase()
+    const tokens = new Set(contractNumberTokens(sentence).map(normalizeId))
+    return facts.projects.filter(p =>
+        (p.project_name && p.project_name.length > 6 && text.includes(p.project_name.toLowerCase())) ||
+        (p.contract_number && tokens.has(normalizeId(p.contract_number)))
+    )
+}
+
+function matchesAmount(claim: ExtractedClaim, known: number): boolean {
+    const amount = claim.amount || 0
+    const tolerance = claim.tolerance || 0
+    if (claim.qualifier === 'over') return known >= amount - tolerance
+    if (claim.qualifier === 'about') return Math.abs(known - amount) <= Math.max(tolerance, amount * ABOUT_TOLERANCE)
+    return Math.abs(known - amount) <= tolerance
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+type Verdict = Pick<ClaimFinding, 'status' | 'severity' | 'message'> & { evidence?: string }
+
+function checkContractNumber(claim: ExtractedClaim, facts: CompanyFacts): Verdict | null {
+    const id = normalizeId(claim.claim)
+    const owner = facts.projects.find(p => normalizeId(p.contract_number || '') === id)
+
+    if (owner) {
+        const other = mentionedProjects(claim.excerpt, facts).find(p => p.id !== owner.id && p.contract_number && normalizeId(p.contract_number) !== id)
+        return other && !claim.excerpt.toLowerCase().includes(owner.project_name.toLowerCase())
+            ? {
+                status: 'contradicted',
+                severity: 'high',
+                message: `Contract number ${claim.claim} belongs to ${owner.project_name}, not ${other.project_name}`,
+                evidence: `${other.project_name}: ${other.contract_number}`,
+            }
+            : null
+    }
+    if (facts.identifiers.has(id)) return null
+
+    return {
+        status: 'unsupported',
+        severity: 'critical',
+        message: `Contract number ${claim.claim} is not in the company's past performance records`,
+    }
+}
+
+function checkDollarValue(claim: ExtractedClaim, facts: CompanyFacts): Verdict | null {
+    // A value stated for a named project must be that project's contract value
+    const projects = mentionedProjects(claim.excerpt, facts)
+    if (projects.length === 1 && /\b(?:valued?|worth|contract value|total value|ceiling|awarded)\b/i.test(claim.excerpt)) {
+        const project = projects[0]
+        if (matchesAmount(claim, project.contract_value)) return null
+        if (!facts.dollars.some(known => known !== project.contract_value && matchesAmount(claim, known))) {
+            return {
+                status: 'contradicted',
+                severity: 'high',
+                message: `${claim.claim} is cited for ${project.project_name} but its contract value on file is ${formatCurrency(project.contract_value)}`,
+                evidence: `${project.project_name}: ${formatCurrency(project.contract_value)}`,
+            }
+        }
+    }
+
+    if (facts.dollars.some(known => matchesAmount(claim, known))) return null
+    return {
+        status: 'unsupported',
+        severity: 'medium',
+        message: `${claim.claim} does not match any contract value, revenue or cost figure on file`,
+    }
+}
+
+function checkPersonnel(claim: ExtractedClaim, facts: CompanyFacts): Verdict | null | 'ignore' {
+    const candidate = person(claim.label || claim.claim, null, [])
+    const known = [...facts.people, ...facts.contacts]
+        .some(p => p.last === candidate.last && p.first === candidate.first)
+    if (known) return null
+
+    // Agency, company and project names that look like a person next to a role title
+    if (words(claim.label || claim.claim).some(w => facts.organizationWords.has(w))) return 'ignore'
+
+    return {
+        status: 'unsupported',
+        severity: 'high',
+        message: `${claim.label || claim.claim} is not in the company's personnel records`,
+    }
+}
+
+function checkExperience(claim: ExtractedClaim, facts: CompanyFacts): Verdict | null {
+    const claimed = claim.amount || 0
+
+    if (claim.founded) {
+        return facts.foundedYear && claimed !== facts.foundedYear
+            ? {
+                status: 'contradicted',
+                severity: 'high',
+                message: `"${claim.claim}" conflicts with the company record (founded ${facts.foundedYear})`,
+                evidence: `Founded ${facts.foundedYear}`,
+            }
+            : null
+    }
+
+    const named = facts.people.find(p => mentionsPerson(claim.excerpt, p))
+    if (named) {
+        if (named.years === null || claimed <= named.years + YEARS_TOLERANCE) return null
+        return {
+            status: 'contradicted',
+            severity: 'high',
+            message: `${claim.claim} is claimed for ${named.name} but the resume on file shows ${named.years} years`,
+            evidence: `${named.name}: ${named.years} years of experience`,
+        }
+    }
+
+    const years = facts.people.map(p => p.years || 0)
+    if (/\b(?:combined|collective|cumulative|total)\b/i.test(claim.excerpt)) {
+        const total = years.reduce((sum, y) => sum + y, 0)
+        return claimed <= total ? null : {
+            status: 'unsupported',
+            severity: 'medium',
+            message: `${claim.claim} exceeds the combined experience of the personnel on file (${total} years)`,
+        }
+    }
+
+    const company = /\b(?:in business|founded|established|our company|our firm|the company)\b/i.test(claim.excerpt)
+    if (company && facts.yearsInBusiness !== null) {
+        return claimed <= facts.yearsInBusiness + YEARS_TOLERANCE ? null : {
+            status: 'contradicted',
+            severity: 'high',
+            message: `${claim.claim} is claimed for the company but it has been in business ${facts.yearsInBusiness} years`,
+            evidence: `${facts.yearsInBusiness} years in business${facts.foundedYear ? ` (founded ${facts.foundedYear})` : ''}`,
+        }
+    }
+
+    if (Math.max(0, facts.yearsInBusiness || 0, ...years) + YEARS_TOLERANCE >= claimed) return null
+    return {
+        status: 'unsupported',
+        severity: 'medium',
+        message: `${claim.claim} is more than anyone on file has (most experienced: ${Math.max(0, ...years)} years)`,
+    }
+}
+
+function checkCertification(claim: ExtractedClaim, facts: CompanyFacts): Verdict | null {
+    const cert = CERTIFICATIONS.find(c => c.label === claim.label)
+    if (!cert) return null
+    const held = cert.held || cert.pattern
+    const holds = (sources: string[]) => sources.some(s => held.test(s))
+
+    if (cert.holder === 'person') {
+        const named = facts.people.find(p => mentionsPerson(claim.excerpt, p))
+        if (named) {
+            return holds(named.certifications) ? null : {
+                status: 'unsupported',
+                severity: 'high',
+                message: `${named.name} does not hold ${cert.label} per the personnel records`,
+                evidence: `${named.name}: ${named.certifications.join(', ') || 'no certifications on file'}`,
+            }
+        }
+        return holds([...facts.people.flatMap(p => p.certifications), ...facts.companyCertifications]) ? null : {
+            status: 'unsupported',
+            severity: 'medium',
+            message: `No one in the personnel records holds ${cert.label}`,
+        }
+    }
+
+    // Levelled certifications: claiming a higher level than held is a contradiction
+    const heldLevel = cert.label === 'CMMC' ? facts.cmmcLevel : cert.label === 'FedRAMP' ? facts.fedrampLevel : null
+    const claimedLevel = claim.level?.toLowerCase()
+    if (heldLevel && claimedLevel && heldLevel !== claimedLevel) {
+        const order = ['1', '2', '3', '4', '5', 'low', 'moderate', 'high']
+        if (order.indexOf(claimedLevel) > order.indexOf(heldLevel)) {
+            return {
+                status: 'contradicted',
+                severity: 'critical',
+                message: `${claim.claim} is claimed but the company holds ${cert.label} ${cert.label === 'CMMC' ? 'Level ' : ''}${heldLevel}`,
+                evidence: `${cert.label} ${cert.label === 'CMMC' ? 'Level ' : ''}${heldLevel}`,
+            }
+        }
+        return null
+    }
+
+    if (holds(facts.companyCertifications)) return null
+    return {
+        status: 'unsupported',
+        severity: cert.status ? 'critical' : 'high',
+        message: cert.status
+            ? `The company's records do not show ${cert.label} status - claiming it misrepresents the offeror`
+            : `${cert.label} is not among the company's certifications`,
+    }
+}
+
+function checkCpars(claim: ExtractedClaim, facts: CompanyFacts): Verdict | null {
+    const rated = facts.projects.filter(p => cparsRating(p.cpars_rating))
+    const rating = claim.claim.toLowerCase()
+    const ratingOf = (p: PastPerformance) => (cparsRating(p.cpars_rating) || '').toLowerCase()
+
+    const named = mentionedProjects(claim.excerpt, facts)
+    if (named.length === 1) {
+        const project = named[0]
+        const onFile = cparsRating(project.cpars_rating)
+        if (onFile && onFile.toLowerCase() === rating) return null
+        return onFile
+            ? {
+                status: 'contradicted',
+                severity: 'high',
+                message: `CPARS rating "${claim.claim}" is claimed for ${project.project_name} but the rating on file is ${onFile}`,
+                evidence: `${project.project_name}: ${onFile}`,
+            }
+            : {
+                status: 'unsupported',
+                severity: 'high',
+                message: `${project.project_name} has no CPARS rating on file`,
+            }
+    }
+
+    if (/\b(?:all|every|each|consistently|uniformly)\b/i.test(claim.excerpt)) {
+        const others = rated.filter(p => ratingOf(p) !== rating)
+        if (others.length > 0) {
+            return {
+                status: 'contradicted',
+                severity: 'high',
+                message: `Not every CPARS rating on file is ${claim.claim}`,
+                evidence: others.map(p => `${p.project_name}: ${cparsRating(p.cpars_rating)}`).join('; '),
+            }
+        }
+    }
+
+    return rated.some(p => ratingOf(p) === rating) ? null : {
+        status: 'unsupported',
+        severity: 'high',
+        message: `No past performance on file carries a CPARS rating of ${claim.claim}`,
+    }
+}
+
+function checkMetric(claim: ExtractedClaim, facts: CompanyFacts): Verdict | null {
+    return facts.percents.has(claim.amount ?? NaN) ? null : {
+        status: 'unsupported',
+        severity: 'medium',
+        message: `${claim.claim} is not among the quantified outcomes, performance summaries or resumes on file`,
+    }
+}
+
+function verifyClaim(claim: ExtractedClaim, facts: CompanyFacts): Verdict | null | 'ignore' {
+    switch (claim.kind) {
+        case 'contract_number': return checkContractNumber(claim, facts)
+        case 'dollar_value': return checkDollarValue(claim, facts)
+        case 'personnel': return checkPersonnel(claim, facts)
+        case 'experience': return checkExperience(claim, facts)
+        case 'certification': return checkCertification(claim, facts)
+        case 'cpars': return checkCpars(claim, facts)
+        case 'metric': return checkMetric(claim, facts)
+    }
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/**
+ * Check every factual claim in the volumes against the company data and intake.
+ * Dollar figures in the Price volume are left to the price realism review.
+ */
+export function auditClaims(volumes: AuditedVolume[], sources: ClaimSources): ClaimAuditReport {
+    const facts = companyFacts(sources)
+    const findings: ClaimFinding[] = []
+    const seen = new Set<string>()
+    let checked = 0
+    let failed = 0
+
+    for (const volume of volumes) {
+        for (const claim of extractClaims(volume.content)) {
+            if (claim.kind === 'dollar_value' && volume.writer === 'price') continue
+
+            const verdict = verifyClaim(claim, facts)
+            if (verdict === 'ignore') continue
+            checked++
+            if (!verdict) continue
+            failed++
+
+            // One finding per issue per section - a repeated claim says the same thing
+            const key = `${volume.number}|${claim.section}|${verdict.message}`
+            if (seen.has(key)) continue
+            seen.add(key)
+
+            findings.push({
+                kind: claim.kind,
+                volume: volume.number,
+                section: claim.section,
+                claim: claim.claim,
+                excerpt: claim.excerpt.length > 240 ? `${claim.excerpt.substring(0, 237)}...` : claim.excerpt,
+                ...verdict,
+            })
+        }
+    }
+
+    findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+
+    return {
+        findings,
+        claims_checked: checked,
+        claims_supported: checked - failed,
+        volumes: volumes.map(v => v.number),
+        generated_at: new Date().toISOString(),
+    }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { Competitor } from '../database.types'
+import { competitorsNamedIn, formatGhosting, nameForms } from './assessment'
+
+function competitor(name: string, overrides: Partial<Competitor> = {}): Competitor {
+    return { id: 'CMP-001', name, incumbent: false, strengths: [], weaknesses: [], price_low: null, price_high: null, ...overrides }
+}
+
+describe('nameForms', () => {
+    it('covers the full name, the name without suffix, the leading words and the initials', () => {
+        expect(nameForms('Booz Allen Hamilton Inc.').map(f => f.text)).toEqual([
+            'Booz Allen Hamilton Inc.',
+            'Booz Allen Hamilton',
+            'Booz Allen',
+            'BAH',
+        ])
+    })
+
+    it('does not use the first word on its own', () => {
+        const forms = nameForms('Summit Mission Partners LLC').map(f => f.text)
+
+        expect(forms).not.toContain('Summit')
+        expect(forms).toContain('Summit Mission')
+    })
+
+    it('skips leading words that would match ordinary prose', () => {
+        expect(nameForms('Federal Systems Integration Corp').map(f => f.text)).not.toContain('Federal Systems')
+    })
+
+    it('matches single-word names and initials only as capitalized', () => {
+        expect(nameForms('Acme Inc.')).toContainEqual({ text: 'Acme', caseSensitive: true })
+        expect(nameForms('Science Applications International Corporation')).toContainEqual({ text: 'SAI', caseSensitive: true })
+    })
+})
+
+describe('competitorsNamedIn', () => {
+    const competitors = [competitor('Summit Mission Partners LLC'), competitor('Acme Inc.')]
+
+    it('finds a competitor named in a volume by any of its forms', () => {
+        const html = '<p>Unlike <strong>Summit Mission</strong>, we retain incumbent staff.</p>'
+        expect(competitorsNamedIn(html, competitors).map(c => c.name)).toEqual(['Summit Mission Partners LLC'])
+    })
+
+    it('ignores ordinary words a name starts with', () => {
+        const html = '<p>We will hold a summit with the agency and deliver acme-grade service.</p>'
+        expect(competitorsNamedIn(html, competitors)).toEqual([])
+    })
+})
+
+describe('formatGhosting', () => {
+    it('keeps competitor names out of the writer prompt', () => {
+        const prompt = formatGhosting({
+            competitors: [competitor('Booz Allen Hamilton Inc.', {
+                incumbent: true,
+                weaknesses: ["Booz Allen's transition on the prior task order slipped 60 days"],
+            })],
+        } as Parameters<typeof formatGhosting>[0])
+
+        expect(prompt).toContain("the competitor's transition on the prior task order slipped 60 days (incumbent)")
+        expect(prompt).not.toMatch(/Booz/)
+    })
+})
@@ -0,0 +1,217 @@
+/**
+ * Competitive Assessment
+ *
+ * The capture team's view of the likely bidders: who they are, which one is
+ * the incumbent, their known strengths and weaknesses and an estimated price
+ * range. The technical and management writers ghost the weaknesses (without
+ * ever naming a competitor); the pricing engine measures price-to-win.
+ */
+
+import { CompetitiveAssessment, Competitor } from '../database.types'
+import { htmlBlocks } from '../utils/html-text'
+
+const MAX_COMPETITORS = 10
+const MAX_POINTS = 10 // Strengths / weaknesses per competitor
+
+// "Acme Group, Inc." -> "Acme"
+const LEGAL_SUFFIX = /[\s,]+(?:inc|incorporated|llc|l\.l\.c|llp|lp|ltd|limited|corp|corporation|co|company|plc|pllc|group)\.?$/i
+
+// Words too common for a pair of them to stand for a competitor
+const GENERIC_NAME_WORDS = new Set([
+    'the', 'advanced', 'allied', 'american', 'applied', 'associates', 'capital', 'cloud', 'computer', 'consulting',
+    'cyber', 'data', 'defense', 'digital', 'engineering', 'enterprise', 'federal', 'first', 'general', 'global',
+    'government', 'health', 'information', 'innovative', 'integrated', 'international', 'management', 'mission',
+    'national', 'network', 'partners', 'premier', 'professional', 'quality', 'research', 'science', 'secure',
+    'services', 'smart', 'solutions', 'strategic', 'systems', 'technologies', 'technology', 'united',
+])
+
+export interface CompetitiveAssessmentValidation {
+    assessment: CompetitiveAssessment
+    errors: string[]
+}
+
+function competitorId(n: number): string {
+    return `CMP-${String(n).padStart(3, '0')}`
+}
+
+// Strengths / weaknesses as a list, or one per line
+function textList(raw: unknown): string[] {
+    const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split('\n') : []
+    return items
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.replace(/^\s*[-*•]\s*/, '').replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+}
+
+function priceValue(raw: unknown, label: string, errors: string[]): number | null {
+    if (raw === undefined || raw === null || raw === '') return null
+    const value = Number(raw)
+    if (!Number.isFinite(value) || value <= 0) {
+        errors.push(`${label} must be a positive dollar amount`)
+        return null
+    }
+    return Math.round(value * 100) / 100
+}
+
+/**
+ * Validate an edited assessment; competitor ids are kept when valid and assigned otherwise
+ */
+export function normalizeCompetitiveAssessment(input: unknown): CompetitiveAssessmentValidation {
+    const errors: string[] = []
+    const raw = (input && typeof input === 'object' ? input : {}) as { competitors?: unknown; price_to_win?: unknown }
+    const list: Array<Record<string, unknown>> = Array.isArray(raw.competitors) ? raw.competitors : []
+
+    if (raw.competitors !== undefined && !Array.isArray(raw.competitors)) {
+        errors.push('competitors must be an array')
+    }
+    if (list.length > MAX_COMPETITORS) {
+        errors.push(`At most ${MAX_COMPETITORS} competitors are allowed`)
+    }
+
+    const usedIds = new Set<string>()
+    const keptIds = list.map(c => {
+        const id = typeof c?.id === 'string' ? c.id.trim() : ''
+        if (!/^CMP-\d{3}$/.test(id) || usedIds.has(id)) return null
+        usedIds.add(id)
+        return id
+    })
+
+    let next = 1
+    const competitors = list.slice(0, MAX_COMPETITORS).map((c, index): Competitor => {
+        const name = typeof c?.name === 'string' ? c.name.replace(/\s+/g, ' ').trim() : ''
+        const label = name || `Competitor ${index + 1}`
+        if (!name) errors.push(`Competitor ${index + 1}: name is required`)
+
+        const strengths = textList(c?.strengths)
+        const weaknesses = textList(c?.weaknesses)
+        if (strengths.length > MAX_POINTS || weaknesses.length > MAX_POINTS) {
+            errors.push(`${label}: at most ${MAX_POINTS} strengths and ${MAX_POINTS} weaknesses`)
+        }
+
+        const priceLow = priceValue(c?.price_low, `${label}: price_low`, errors)
+        const priceHigh = priceValue(c?.price_high, `${label}: price_high`, errors)
+        if (priceLow !== null && priceHigh !== null && priceLow > priceHigh) {
+            errors.push(`${label}: price_low is above price_high`)
+        }
+
+        let id = keptIds[index]
+        if (!id) {
+            while (usedIds.has(competitorId(next))) next++
+            id = competitorId(next)
+            usedIds.add(id)
+        }
+
+        return {
+            id,
+            name,
+            incumbent: c?.incumbent === true,
+            strengths: strengths.slice(0, MAX_POINTS),
+            weaknesses: weaknesses.slice(0, MAX_POINTS),
+            price_low: priceLow,
+            price_high: priceHigh,
+            ...(typeof c?.notes === 'string' && c.notes.trim() ? { notes: c.notes.trim() } : {}),
+        }
+    })
+
+    if (competitors.filter(c => c.incumbent).length > 1) {
+        errors.push('Only one competitor can be the incumbent')
+    }
+
+    return {
+        assessment: {
+            competitors,
+            price_to_win: priceValue(raw.price_to_win, 'price_to_win', errors),
+            updated_at: new Date().toISOString(),
+        },
+        errors,
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export interface NameForm {
+    text: string
+    caseSensitive: boolean // Single words and initials only count as written, capitalized
+}
+
+/**
+ * The ways a competitor is referred to: its full name, the name without the legal
+ * suffix, and the first two words and initials of a longer name ("Booz Allen", "BAH").
+ * A first word on its own is often an ordinary word ("Summit", "Apex"), so it does not count.
+ */
+export function nameForms(name: string): NameForm[] {
+    const full = name.replace(/\s+/g, ' ').trim()
+    let base = full
+    while (LEGAL_SUFFIX.test(base)) base = base.replace(LEGAL_SUFFIX, '')
+    const words = base.split(' ').filter((word, i) => !(i === 0 && word.toLowerCase() === 'the'))
+
+    const forms: NameForm[] = [
+        { text: full, caseSensitive: !full.includes(' ') },
+        { text: base, caseSensitive: !base.includes(' ') },
+    ]
+    if (words.length >= 3) {
+        // "Federal Systems" would match ordinary prose
+        const leading = words.slice(0, 2)
+        if (!leading.every(w => GENERIC_NAME_WORDS.has(w.toLowerCase()))) {
+            forms.push({ text: leading.join(' '), caseSensitive: false })
+        }
+        const initials = words.filter(w => /^[A-Za-z]/.test(w) && !/^(?:of|and)$/i.test(w)).map(w => w[0].toUpperCase()).join('')
+        if (initials.length >= 3) forms.push({ text: initials, caseSensitive: true })
+    }
+
+    const seen = new Set<string>()
+    return forms.filter(form => {
+        const key = form.text.toLowerCase()
+        if (form.text.length < 3 || seen.has(key)) return false
+        seen.add(key)
+        return true
+    })
+}
+
+// Lookarounds instead of \b so names ending in punctuation ("Acme Inc.") match
+function namePattern(form: NameForm, flags: string): RegExp {
+    return new RegExp(`(?<!\\w)${escapeRegExp(form.text)}(?!\\w)((?:'|\u2019)s)?`, form.caseSensitive ? flags : `${flags}i`)
+}
+
+/**
+ * A strength / weakness with every competitor's name replaced, so names never reach a prompt
+ */
+function withoutNames(text: string, competitors: Competitor[]): string {
+    // Longest first, so "Booz Allen Hamilton" goes before "Booz Allen"
+    const forms = competitors
+        .filter(c => c.name)
+        .flatMap(c => nameForms(c.name))
+        .sort((a, b) => b.text.length - a.text.length)
+
+    return forms.reduce((result, form) => result.replace(
+        namePattern(form, 'g'),
+        (_, possessive) => possessive ? "the competitor's" : 'the competitor'
+    ), text)
+}
+
+/**
+ * Competitors a written volume names (the writers are told to ghost, never to name)
+ */
+export function competitorsNamedIn(html: string, competitors: Competitor[]): Competitor[] {
+    const text = htmlBlocks(html).join('\n')
+    return competitors.filter(c => c.name && nameForms(c.name).some(form => namePattern(form, '').test(text)))
+}
+
+/**
+ * Writer prompt block for ghosting the competition ('' without weaknesses or strengths on file)
+ */
+export function formatGhosting(assessment: CompetitiveAssessment | null | undefined): string {
+    const competitors = assessment?.competitors || []
+    const weaknesses = competitors.flatMap(c => c.weaknesses.map(w => `- ${withoutNames(w, competitors)}${c.incumbent ? ' (incumbent)' : ''}`))
+    const strengths = competitors.flatMap(c => c.strengths.map(s => `- ${withoutNames(s, competitors)}${c.incumbent ? ' (incumbent)' : ''}`))
+    if (weaknesses.length === 0 && strengths.length === 0) return ''
+
+    const uniq = (lines: string[]) => [...new Set(lines)].join('\n')
+    return `COMPETITIVE GHOSTING (capture intelligence - NEVER name a competitor, the incumbent or any other bidder,
+and never disparage anyone; ghost each weakness by showing how this approach avoids that risk and why it matters
+to the agency, e.g. "Our approach eliminates transition risk because ..."):
+${weaknesses.length > 0 ? `Competitor weaknesses to ghost:\n${uniq(weaknesses)}\n` : ''}${strengths.length > 0 ? `Competitor strengths to neutralize (show equal or better capability, backed by company data):\n${uniq(strengths)}\n` : ''}
+`
+}
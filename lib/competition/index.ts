@@ -0,0 +1,12 @@
+/**
+ * Competition
+ *
+ * Per-job competitive assessment: likely competitors, the incumbent, their
+ * strengths and weaknesses and estimated price ranges. The writers ghost the
+ * weaknesses without naming anyone and Agent 5 flags any name that slips
+ * into a volume; price-to-win lives in the pricing engine
+ * (lib/pricing/price-to-win).
+ */
+
+export { competitorsNamedIn, formatGhosting, normalizeCompetitiveAssessment } from './assessment'
+export type { CompetitiveAssessmentValidation } from './assessment'
@@ -0,0 +1,20 @@
+/**
+ * Content Library
+ *
+ * Approved technical, management and narrative sections from past jobs plus
+ * uploaded boilerplate, scoped to the company. The shared writer context
+ * retrieves the most relevant passages for each outline section from a local
+ * BM25 index and hands them to the writers as reusable material.
+ */
+
+export {
+    LIBRARY_WRITERS,
+    addApprovedVolume,
+    addBoilerplate,
+    boilerplateHtml,
+    loadContentLibrary,
+    volumeLibrarySections,
+} from './library'
+export { buildLibraryIndex, searchLibrary, splitPassages, tokenize } from './retrieval'
+export type { ApprovedVolume, BoilerplateInput, LibrarySection } from './library'
+export type { LibraryIndex, LibrarySearchOptions } from './retrieval'
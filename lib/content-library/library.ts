@@ -0,0 +1,160 @@
+/**
+ * Content Library Store
+ *
+ * Library entries live in the content_library table, scoped to a company.
+ * Approved volumes are harvested one entry per <h2> section; re-approving a
+ * volume replaces that volume's entries.
+ */
+
+import { supabase } from '../supabase'
+import { logger } from '../logger'
+import { ContentLibraryEntry, ProposalVolume, VolumeWriterKind } from '../database.types'
+import { stripProvenance } from '../provenance'
+import { htmlBlocks } from '../utils/html-text'
+
+// Volumes whose sections the writers reuse (Past Performance and Price are record/model-specific)
+export const LIBRARY_WRITERS: VolumeWriterKind[] = ['technical', 'management', 'narrative']
+
+// Sections shorter than this (plain text) are not worth keeping
+const MIN_SECTION_CHARS = 300
+
+export interface LibrarySection {
+    title: string
+    content: string // HTML
+}
+
+export interface ApprovedVolume {
+    jobId: string
+    companyId: string
+    volume: ProposalVolume
+    content: string
+    score: number | null
+}
+
+export interface BoilerplateInput {
+    title: string
+    content: string // HTML, or plain text (paragraphs separated by blank lines)
+    tags?: string[]
+}
+
+/**
+ * Split volume HTML into its <h2> sections (the volume header before the first one is dropped)
+ */
+export function volumeLibrarySections(html: string): LibrarySection[] {
+    const parts = stripProvenance(html).split(/(?=<h2[\s>])/i).slice(1)
+    return parts
+        .map(part => {
+            const heading = part.match(/<h2[^>]*>([\s\S]*?)<\/h2>/i)
+            const title = heading ? htmlBlocks(heading[1]).join(' ') : ''
+            const content = part.replace(/<hr[^>]*>\s*$/i, '').trim()
+            return { title, content }
+        })
+        .filter(section => section.title && htmlBlocks(section.content).join(' ').length >= MIN_SECTION_CHARS)
+}
+
+/**
+ * Wrap plain-text boilerplate in paragraphs (HTML is kept as is)
+ */
+export function boilerplateHtml(content: string): string {
+    if (/<[a-z][^>]*>/i.test(content)) return content.trim()
+    return content
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .map(paragraph => `<p>${paragraph.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</p>`)
+        .join('\n')
+}
+
+/**
+ * All library entries of a company, newest first
+ */
+export async function loadContentLibrary(companyId: string): Promise<ContentLibraryEntry[]> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.from('content_library') as any)
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false })
+
+    if (error) {
+        throw new Error(`Failed to load content library: ${error.message}`)
+    }
+
+    return data || []
+}
+
+/**
+ * Store an approved volume's sections in the company library, replacing
+ * any entries from an earlier approval of the same volume
+ */
+export async function addApprovedVolume(approved: ApprovedVolume): Promise<number> {
+    const { jobId, companyId, volume, content, score } = approved
+    if (!LIBRARY_WRITERS.includes(volume.writer)) return 0
+
+    const sections = volumeLibrarySections(content)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: deleteError } = await (supabase.from('content_library') as any)
+        .delete()
+        .eq('source_job_id', jobId)
+        .eq('source_volume', volume.number)
+
+    if (deleteError) {
+        throw new Error(`Failed to replace library entries: ${deleteError.message}`)
+    }
+
+    if (sections.length === 0) return 0
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase.from('content_library') as any)
+        .insert(sections.map(section => ({
+            company_id: companyId,
+            kind: 'approved_section',
+            title: section.title,
+            content: section.content,
+            tags: [],
+            writer: volume.writer,
+            source_job_id: jobId,
+            source_volume: volume.number,
+            source_volume_name: volume.name,
+            source_score: score,
+        })))
+
+    if (error) {
+        throw new Error(`Failed to store library entries: ${error.message}`)
+    }
+
+    logger.info('[Content Library] Approved sections added', {
+        jobId,
+        data: { companyId, volume: volume.number, sections: sections.length, score }
+    })
+
+    return sections.length
+}
+
+/**
+ * Add uploaded boilerplate to a company's library
+ */
+export async function addBoilerplate(companyId: string, input: BoilerplateInput): Promise<ContentLibraryEntry> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.from('content_library') as any)
+        .insert({
+            company_id: companyId,
+            kind: 'boilerplate',
+            title: input.title,
+            content: boilerplateHtml(input.content),
+            tags: input.tags || [],
+            writer: null,
+            source_job_id: null,
+            source_volume: null,
+            source_volume_name: null,
+            source_score: null,
+        })
+        .select()
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to store boilerplate: ${error?.message || 'no row returned'}`)
+    }
+
+    return data
+}
@@ -0,0 +1,184 @@
+/**
+ * Content Library Retrieval
+ *
+ * Local BM25 index over library passages - no embeddings or external search
+ * service. Each entry is cut into passages of a few paragraphs; a query
+ * (outline section title, subsections and the requirements it answers)
+ * returns the best passage of the best-matching entries. Approved sections
+ * are weighted by the score their volume earned.
+ */
+
+import { ContentLibraryEntry, LibraryPassage, VolumeWriterKind } from '../database.types'
+import { htmlBlocks } from '../utils/html-text'
+
+// BM25 parameters (standard values)
+const K1 = 1.2
+const B = 0.75
+
+// Passages are built from whole blocks up to about this many characters
+const PASSAGE_TARGET_CHARS = 900
+const PASSAGE_MAX_CHARS = 1500
+
+// A passage must share at least this many distinct query terms to be returned
+const MIN_MATCHED_TERMS = 3
+
+// Boost for entries written for the same kind of volume
+const SAME_WRITER_BOOST = 1.2
+
+const STOPWORDS = new Set([
+    'a', 'about', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can',
+    'each', 'for', 'from', 'has', 'have', 'how', 'in', 'into', 'is', 'it', 'its', 'may', 'more', 'must',
+    'not', 'of', 'on', 'or', 'our', 'per', 'shall', 'such', 'that', 'the', 'their', 'these', 'this',
+    'those', 'through', 'to', 'under', 'we', 'will', 'with', 'within', 'would', 'you', 'your',
+    'contractor', 'offeror', 'government', 'section', 'volume', 'requirement', 'requirements',
+])
+
+interface IndexedPassage {
+    entry: ContentLibraryEntry
+    text: string
+    terms: Map<string, number>
+    length: number
+}
+
+export interface LibraryIndex {
+    passages: IndexedPassage[]
+    documentFrequency: Map<string, number>
+    averageLength: number
+}
+
+export interface LibrarySearchOptions {
+    limit?: number
+    writer?: VolumeWriterKind // Prefer entries from this kind of volume
+    excludeJobId?: string // Never return a job's own sections
+}
+
+/**
+ * Entry content cut into passages of whole blocks
+ */
+export function splitPassages(html: string): string[] {
+    const passages: string[] = []
+    let current = ''
+    for (const block of htmlBlocks(html)) {
+        const text = block.length > PASSAGE_MAX_CHARS ? `${block.substring(0, PASSAGE_MAX_CHARS - 3)}...` : block
+        if (current && current.length + text.length + 1 > PASSAGE_MAX_CHARS) {
+            passages.push(current)
+            current = ''
+        }
+        current = current ? `${current}\n${text}` : text
+        if (current.length >= PASSAGE_TARGET_CHARS) {
+            passages.push(current)
+            current = ''
+        }
+    }
+    if (current) passages.push(current)
+    return passages
+}
+
+/**
+ * Lower-cased, stemmed index terms
+ */
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+        .filter(token => token.length > 1 && !STOPWORDS.has(token))
+        .map(stem)
+}
+
+// Light suffix stripping so common inflections meet ("migrate", "migrated", "migrations")
+function stem(token: string): string {
+    if (token.length <= 4 || /^\d/.test(token)) return token
+    const stemmed = token
+        .replace(/ations?$/, 'at')
+        .replace(/(ing|ed|es|(?<!s)s)$/, '')
+        .replace(/e$/, '')
+    return stemmed.length >= 3 ? stemmed : token
+}
+
+function termCounts(tokens: string[]): Map<string, number> {
+    const counts = new Map<string, number>()
+    for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1)
+    return counts
+}
+
+/**
+ * Index every passage of the library (entry titles count toward each passage)
+ */
+export function buildLibraryIndex(entries: ContentLibraryEntry[]): LibraryIndex {
+    const passages: IndexedPassage[] = []
+    const documentFrequency = new Map<string, number>()
+
+    for (const entry of entries) {
+        const titleTokens = tokenize(`${entry.title} ${(entry.tags || []).join(' ')}`)
+        for (const text of splitPassages(entry.content)) {
+            const tokens = [...titleTokens, ...tokenize(text)]
+            const terms = termCounts(tokens)
+            passages.push({ entry, text, terms, length: tokens.length })
+            for (const term of terms.keys()) {
+                documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+            }
+        }
+    }
+
+    const totalLength = passages.reduce((sum, p) => sum + p.length, 0)
+    return {
+        passages,
+        documentFrequency,
+        averageLength: passages.length > 0 ? totalLength / passages.length : 0,
+    }
+}
+
+/**
+ * Best passage of each of the most relevant library entries for a query
+ */
+export function searchLibrary(index: LibraryIndex, query: string, options: LibrarySearchOptions = {}): LibraryPassage[] {
+    const { limit = 3, writer, excludeJobId } = options
+    const queryTerms = [...new Set(tokenize(query))]
+    if (queryTerms.length === 0 || index.passages.length === 0) return []
+
+    const total = index.passages.length
+    const bestPerEntry = new Map<string, LibraryPassage>()
+
+    for (const passage of index.passages) {
+        const { entry } = passage
+        if (excludeJobId && entry.source_job_id === excludeJobId) continue
+
+        let score = 0
+        let matched = 0
+        for (const term of queryTerms) {
+            const frequency = passage.terms.get(term)
+            if (!frequency) continue
+            matched++
+            const df = index.documentFrequency.get(term) || 0
+            const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5))
+            score += idf * (frequency * (K1 + 1)) /
+                (frequency + K1 * (1 - B + B * passage.length / (index.averageLength || 1)))
+        }
+        if (matched < Math.min(MIN_MATCHED_TERMS, queryTerms.length)) continue
+
+        score *= entryWeight(entry)
+        if (writer && entry.writer === writer) score *= SAME_WRITER_BOOST
+
+        const best = bestPerEntry.get(entry.id)
+        if (!best || score > best.score) {
+            bestPerEntry.set(entry.id, {
+                entry_id: entry.id,
+                title: entry.title,
+                kind: entry.kind,
+                text: passage.text,
+                score: Math.round(score * 100) / 100,
+                source_job_id: entry.source_job_id,
+                source_volume: entry.source_volume,
+                source_score: entry.source_score,
+            })
+        }
+    }
+
+    return [...bestPerEntry.values()]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+}
+
+// Approved sections count by the score their volume earned; curated boilerplate counts in full
+function entryWeight(entry: ContentLibraryEntry): number {
+    if (entry.kind === 'boilerplate' || entry.source_score === null) return 1
+    return 0.5 + 0.5 * Math.min(1, Math.max(0, entry.source_score / 100))
+}
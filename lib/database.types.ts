@@ -60,11 +60,44 @@ export interface VolumePageLimits {
     volume_4_price: number | null
 }
 
+// Keyed by volume ("volume_1", "volume_2", ...) - one entry per ProposalVolume
+// Rendered pages one volume section fills (fractional)
+export interface SectionPageUsage {
+    title: string
+    pages: number
+}
+
 export interface VolumeProgress {
-    volume_1: { pages: number; status: AgentStatus; content_url?: string }
-    volume_2: { pages: number; status: AgentStatus; content_url?: string }
-    volume_3: { pages: number; status: AgentStatus; content_url?: string }
-    volume_4: { pages: number; status: AgentStatus; content_url?: string }
+    [volumeKey: string]: {
+        pages: number
+        status: AgentStatus
+        content_url?: string
+        page_limit?: number | null
+        rendered?: boolean // Pages counted from the PDF rendered with the Section L format (vs estimated)
+        section_pages?: SectionPageUsage[]
+    }
+}
+
+// Agent 4 sub-writer that produces a volume. Volumes without a dedicated
+// writer (Small Business Participation, Security, factor-based volumes) are 'narrative'.
+export type VolumeWriterKind = 'technical' | 'management' | 'past_performance' | 'price' | 'narrative'
+
+// Volume as instructed by Section L
+export interface SectionLVolume {
+    name: string
+    page_limit: number | null
+    required_contents: string[]
+    eval_factors?: string[]
+}
+
+// Volume of the proposal as built by Agent 0 (Section L order)
+export interface ProposalVolume {
+    number: number // 1-based
+    name: string
+    writer: VolumeWriterKind
+    page_limit: number | null
+    required_contents: string[]
+    eval_factors: string[]
 }
 
 // ----------------------------------------------------------------------------
@@ -94,14 +127,85 @@ export interface ValidationReportItem {
     fix_path?: string
 }
 
+// Best personnel match for an RFP key position (Agent 2), handed to the management writer
+export interface KeyPersonnelAssignment {
+    position: string
+    key: boolean
+    personnel_id: string | null // null when nobody on file fits
+    name: string | null
+    met: string[] // Qualifications the person demonstrably meets
+    unmet: string[] // Qualifications they do not meet
+    unverified: string[] // Qualifications the company data cannot confirm (e.g. education)
+}
+
 export interface ValidationReport {
     status: ValidationStatus
     blockers: ValidationReportItem[]
     warnings: ValidationReportItem[]
     recommendations: ValidationReportItem[]
+    key_personnel_assignments?: KeyPersonnelAssignment[]
     generated_at: string
 }
 
+// ----------------------------------------------------------------------------
+// RFP Document Types (server-side ingestion)
+// ----------------------------------------------------------------------------
+
+export type RfpDocumentRole = 'rfp' | 'sow' | 'amendment' | 'attachment' | 'pricing_template'
+
+export interface RfpPage {
+    page_number: number
+    text: string
+    start: number // Character offset of this page within RfpDocument.text
+    end: number
+    document_index: number // Index into RfpDocument.documents
+    document_page: number // Page number within that source document
+}
+
+export interface RfpDocumentSection {
+    key: string // 'A'-'M' for UCF sections, 'J-1' etc. for attachments
+    kind: 'section' | 'attachment'
+    title: string
+    start_page: number
+    end_page: number
+    start: number
+    end: number
+}
+
+// One entry of the solicitation package manifest
+export interface RfpSourceDocument {
+    file_name: string
+    file_url: string | null // Storage path of the original file
+    mime_type: string
+    role: RfpDocumentRole
+    size_bytes: number
+    page_count: number
+    start_page: number // First page of this document within the combined RfpDocument
+    end_page: number
+    archive_name?: string // ZIP bundle the file was extracted from
+}
+
+export interface RfpDocument {
+    file_name: string // Base RFP document (first entry of documents)
+    file_url: string | null
+    mime_type: string
+    page_count: number
+    text: string // All pages of all documents joined with a blank line between them
+    pages: RfpPage[]
+    sections: RfpDocumentSection[]
+    documents: RfpSourceDocument[]
+    extracted_at: string
+}
+
+export interface RfpSourceAnchor {
+    page: number
+    start: number // Character span within RfpDocument.text
+    end: number
+    section?: string
+    document?: string // Source file name
+    document_page?: number
+}
+
 // ----------------------------------------------------------------------------
 // RFP Parsed Data Types
 // ----------------------------------------------------------------------------
@@ -116,6 +220,60 @@ export interface RfpRequirement {
     proposal_section?: string
     page_range?: string
     status?: 'pending' | 'addressed' | 'verified'
+    source?: RfpSourceAnchor // Where the requirement appears in the original solicitation
+    clarification?: string // Interpretation as clarified/overridden by government Q&A
+    clarification_ids?: string[] // RfpClarification ids that affect this requirement
+    confidence?: 'high' | 'low' // Low: found only by the deterministic obligation scanner, not by the LLM
+}
+
+// FAR/DFARS clause or provision incorporated into the solicitation
+export interface RfpClause {
+    number: string // '52.219-14', '252.204-7012'
+    title: string
+    regulation: 'FAR' | 'DFARS'
+    kind: 'clause' | 'provision'
+    incorporation: 'reference' | 'full_text'
+    date?: string // Clause date, e.g. 'OCT 2022'
+    alternate?: string // 'Alternate I'
+    fill_in?: string // Values the RFP fills in (percentages, CMMC level, ...)
+    source?: RfpSourceAnchor
+}
+
+// Obligation statement the scanner found but no extracted requirement covered
+export interface UnmatchedObligation {
+    text: string
+    paragraph?: string
+    keyword: string
+    page?: number
+}
+
+// Deterministic "shall/must/will" scan reconciled against the LLM-extracted requirements
+export interface RequirementReconciliation {
+    scanned: number // Obligation statements found by the scanner
+    covered: number // Statements matched by an LLM-extracted requirement
+    unmatched: UnmatchedObligation[] // Added as low-confidence requirements
+    reconciled_at: string
+}
+
+// Government Q&A pair linked to the requirements it clarifies
+export interface RfpClarification {
+    id: string // 'QA-001', ...
+    question: string
+    answer: string
+    req_ids: string[]
+    import_id: string // RfpQaImport the pair came from
+}
+
+export interface RfpQaImport {
+    id: string // 'QAI-001', ...
+    source: string // File name or 'pasted text'
+    status: 'processing' | 'complete' | 'failed'
+    received_at: string
+    processed_at?: string
+    text: string
+    pair_count?: number
+    linked_requirement_count?: number
+    error?: string
 }
 
 export interface RfpEvaluationFactor {
@@ -124,6 +282,111 @@ export interface RfpEvaluationFactor {
     description?: string
 }
 
+export type EducationLevel = 'high_school' | 'associate' | 'bachelor' | 'master' | 'doctorate'
+
+// Labor category / key position qualifications the RFP specifies
+export interface KeyPersonnelRequirement {
+    position: string
+    key: boolean // Designated key personnel (resume required, substitution restricted)
+    education?: string // As written, e.g. "Bachelor's degree in Computer Science or related field"
+    education_level?: EducationLevel
+    min_years_experience?: number
+    certifications: string[]
+    clearance?: ClearanceLevel
+    other_qualifications: string[]
+}
+
+// Running header/footer items Section L asks for
+export type HeaderFooterItem = 'solicitation_number' | 'offeror_name' | 'volume_title' | 'proprietary_notice' | 'date'
+
+export type PageNumberingStyle = 'page_x_of_y' | 'page_x' | 'volume_page' | 'none' // volume_page: "II-12"
+
+// Pages Section L excludes from page limits
+export type ExcludedPage = 'cover' | 'toc' | 'acronyms' | 'compliance_matrix' | 'resumes' | 'tabs'
+
+// Section L formatting instructions as written (Agent 1)
+export interface SectionLFormat {
+    font: string
+    font_size: string
+    margins: string
+    spacing: string
+    page_size?: string
+    header?: HeaderFooterItem[]
+    footer?: HeaderFooterItem[]
+    page_numbering?: PageNumberingStyle
+    min_table_font_size?: string
+    excluded_pages?: ExcludedPage[]
+}
+
+// Section L format resolved to the concrete values every renderer and check applies
+export interface FormatProfile {
+    font_family: string
+    font_size: number // Points
+    line_height: number
+    margin_inches: number
+    page_size: 'Letter' | 'A4'
+    header: HeaderFooterItem[]
+    footer: HeaderFooterItem[]
+    page_numbering: PageNumberingStyle
+    min_table_font_size: number // Points
+    excluded_pages: ExcludedPage[]
+}
+
+// Section L electronic submission file naming (Agent 1)
+// Patterns use {offeror}, {solicitation}, {volume} (Roman numeral), {volume_number}, {volume_name}
+export interface SubmissionNaming {
+    instruction?: string // Verbatim Section L text
+    file_pattern?: string // "{offeror}_{solicitation}_Vol_{volume}"
+    package_pattern?: string // Submission archive name, when Section L sets one
+}
+
+// Generated submission file kept in package storage (Agent 8)
+export interface StoredPackageFile {
+    path: string // Path within the storage backend
+    file_name: string // Name inside the submission package
+    content_type: string
+    size: number // Bytes
+    sha256: string
+    storage: 'supabase' | 'local'
+    created_at: string
+}
+
+// Contract deliverable from Section F or a CDRL exhibit (DD Form 1423)
+export interface RfpDeliverable {
+    id: string // 'DEL-001' - compliance matrix id
+    name: string
+    cdrl_number?: string // 'A001'
+    frequency?: string // 'Monthly', 'One-time', 'Quarterly'
+    due_date?: string // As written, e.g. '10th business day of the following month', '30 days after award'
+    recipient?: string // 'COR', 'Contracting Officer'
+    section?: string // Paragraph or exhibit the deliverable is listed in ('F.4', 'Exhibit A')
+}
+
+// Section M basis for award
+export type AwardBasis = 'lpta' | 'best_value_tradeoff' | 'highest_technically_rated' | 'unknown'
+
+// "Technical is significantly more important than Price"
+export interface RelativeImportance {
+    statement: string // Verbatim from Section M
+    more_important?: string
+    less_important?: string
+    degree: 'significantly_more' | 'more' | 'approximately_equal'
+}
+
+export interface EvaluationRatingScheme {
+    kind: 'adjectival' | 'color' | 'acceptable_unacceptable' | 'numerical'
+    ratings: Array<{ rating: string; description: string }> // Best rating first
+}
+
+// How the agency will actually evaluate - drives writing emphasis and scoring
+export interface EvaluationMethodology {
+    award_basis: AwardBasis
+    basis_statement?: string // Verbatim basis-for-award text
+    relative_importance: RelativeImportance[]
+    non_price_vs_price?: 'significantly_more_important' | 'more_important' | 'approximately_equal' | 'less_important'
+    rating_scheme?: EvaluationRatingScheme
+}
+
 export interface RfpParsedData {
     metadata: {
         agency: string
@@ -135,17 +398,15 @@ export interface RfpParsedData {
     }
     section_l: {
         volumes_required: number
-        page_limits: VolumePageLimits
-        format: {
-            font: string
-            font_size: string
-            margins: string
-            spacing: string
-        }
+        page_limits: VolumePageLimits // Legacy four-volume limits, derived from `volumes` when present
+        volumes?: SectionLVolume[]
+        format: SectionLFormat
+        submission_naming?: SubmissionNaming
     }
     section_m: {
         factors: RfpEvaluationFactor[]
         total_points?: number
+        methodology?: EvaluationMethodology
     }
     section_c: {
         requirements: RfpRequirement[]
@@ -159,6 +420,11 @@ export interface RfpParsedData {
         }>
     }
     disqualifying_requirements: string[]
+    clarifications?: RfpClarification[]
+    requirement_reconciliation?: RequirementReconciliation
+    clauses?: RfpClause[] // FAR/DFARS clauses and provisions, by reference and in full text
+    key_personnel?: KeyPersonnelRequirement[]
+    deliverables?: RfpDeliverable[] // Section F deliverables and CDRL items
 }
 
 // ----------------------------------------------------------------------------
@@ -181,10 +447,7 @@ export interface VolumeOutline {
 }
 
 export interface ContentOutlines {
-    volume_1: VolumeOutline
-    volume_2: VolumeOutline
-    volume_3: VolumeOutline
-    volume_4: VolumeOutline
+    [volumeKey: `volume_${number}`]: VolumeOutline // One outline per ProposalVolume
     compliance_matrix: Array<{
         req_id: string
         requirement: string
@@ -195,7 +458,399 @@ export interface ContentOutlines {
         page_range: string
         status: string
         evidence: string
+        amendment_status?: RequirementChangeType // Set when an amendment touched this requirement
+        amendment_id?: string
+    }>
+}
+
+// ----------------------------------------------------------------------------
+// Amendment Types
+// ----------------------------------------------------------------------------
+
+export type RequirementChangeType = 'added' | 'changed' | 'deleted'
+
+export interface RequirementChange {
+    type: RequirementChangeType
+    req_id: string
+    section: string
+    text?: string // Current text (added/changed)
+    previous_text?: string // Text before the amendment (changed/deleted)
+    mandatory: boolean
+}
+
+// One Section L volume an amendment added, removed or changed
+export interface VolumeInstructionChange {
+    name: string
+    number: number // 1-based position in the Section L list it appears in (the previous list for removed volumes)
+    type: RequirementChangeType
+    previous_name?: string // Renamed volumes
+    previous_page_limit?: number | null
+    current_page_limit?: number | null
+}
+
+export interface RfpParsedDataDiff {
+    requirements: RequirementChange[]
+    page_limits: Array<{
+        volume: keyof VolumePageLimits
+        previous: number | null
+        current: number | null
+    }>
+    volumes: VolumeInstructionChange[] // Section L volume list, compared volume by volume
+    clins_changed: boolean // Section B CLINs (and so the periods priced)
+    contract_type?: { previous: string; current: string }
+    deadline?: { previous: string; current: string }
+    format_changed: boolean
+    evaluation_factors_changed: boolean
+    disqualifiers: { added: string[]; removed: string[] }
+}
+
+export interface AffectedSection {
+    volume: number
+    section: string
+    req_ids: string[]
+}
+
+export interface RfpAmendment {
+    id: string // 'AMD-001', 'AMD-002', ...
+    file_names: string[]
+    status: 'processing' | 'complete' | 'failed'
+    received_at: string
+    processed_at?: string
+    diff?: RfpParsedDataDiff
+    affected_volumes?: number[]
+    affected_sections?: AffectedSection[]
+    error?: string
+}
+
+// ----------------------------------------------------------------------------
+// Pricing Types
+// ----------------------------------------------------------------------------
+
+// Period of performance priced separately (base year, option years)
+export interface PricingPeriod {
+    id: string // 'base', 'option_1', ...
+    name: string // 'Base Year', 'Option Year 1'
+    months: number
+}
+
+// Indirect rates and fee in percent (35 = 35%)
+export interface IndirectRates {
+    fringe: number // On direct labor
+    overhead: number // On direct labor + fringe
+    ga: number // On total cost input (labor + ODCs)
+    fee: number // On total cost
+}
+
+export interface PricingLaborCategory {
+    category: string // Matches labor_rates.category
+    base_rate: number // $/hr in the first period
+    period_rates?: Array<number | null> // Rates the company set per period (labor_rates.year_N_rate)
+    escalation_rate: number // Percent per period where no rate is set
+}
+
+// Basis of estimate: hours for one labor category on one CLIN
+export interface LaborHoursEstimate {
+    clin: string
+    category: string
+    hours: number[] // Per period, in period order
+    basis?: string
+}
+
+export interface OdcEstimate {
+    clin: string
+    description: string
+    amounts: number[] // $ per period
+}
+
+// Pricing structure the contract type calls for (Agent 1 metadata.contract_type)
+export type PricingContractType = Extract<ContractType, 'FFP' | 'T&M' | 'Cost-Plus'>
+export type CostPlusFeeType = 'CPFF' | 'CPIF' | 'CPAF'
+
+export interface PricingStructure {
+    contract_type: PricingContractType
+    stated: boolean // Taken from the solicitation (otherwise FFP is assumed)
+    materials_handling?: number // T&M: percent added to materials at cost (no fee on materials)
+    fee_type?: CostPlusFeeType // Cost-Plus
+    min_fee?: number // CPIF: percent of estimated cost
+    max_fee?: number // CPIF: percent of estimated cost
+    share_ratio?: string // CPIF: government/contractor share of cost over- and underruns, '80/20'
+    base_fee?: number // CPAF: percent of estimated cost; the rest of the fee rate is the award fee pool
+}
+
+// Everything the pricing engine needs - editable, so scenarios can change assumptions
+export interface PricingInputs {
+    periods: PricingPeriod[]
+    clins: Array<{ clin: string; description: string }>
+    labor_categories: PricingLaborCategory[]
+    rate_basis: 'direct' | 'fully_burdened' // fully_burdened: labor rates already include indirects and fee
+    indirect_rates: IndirectRates
+    labor: LaborHoursEstimate[]
+    odcs: OdcEstimate[]
+    hours_source: 'estimate' | 'default' | 'manual'
+    structure?: PricingStructure // FFP when absent (inputs saved before contract types were modeled)
+    assumptions: string[]
+    origin?: 'user' | 'scenario' // Who pinned the inputs on the job; the engine's own estimate has none and is redone every run
+    superseded_by?: string // Amendment that changed Section B or the contract type after the inputs were pinned
+}
+
+export interface CostBreakdown {
+    hours: number
+    direct_labor: number
+    fringe: number
+    overhead: number
+    odc: number
+    ga: number
+    fee: number
+    price: number
+}
+
+// One labor category on one CLIN in one period
+export interface PricedLaborLine {
+    clin: string
+    category: string
+    period: string // PricingPeriod id
+    hours: number
+    direct_rate: number
+    burdened_rate: number // Fully burdened $/hr, fee included
+    direct_labor: number
+    fringe: number
+    overhead: number
+    ga: number
+    fee: number
+    price: number // hours x burdened_rate
+}
+
+export interface PricedOdcLine {
+    clin: string
+    description: string
+    period: string
+    cost: number
+    ga: number // Material handling under T&M
+    fee: number
+    price: number
+}
+
+// Pricing engine output: every figure the price volume and cost workbook show
+export interface PriceModel {
+    inputs: PricingInputs
+    rates: Array<{ category: string; direct: number[]; burdened: number[] }> // Per period
+    labor_lines: PricedLaborLine[]
+    odc_lines: PricedOdcLine[]
+    clin_totals: Array<{ clin: string; description: string; periods: number[]; total: number }>
+    period_totals: Array<CostBreakdown & { period: string; name: string }>
+    total: CostBreakdown
+    wrap_rate: number // Burdened rate / direct rate
+    contract?: ContractPriceSummary // Absent on models priced before contract types were modeled (FFP)
+    generated_at: string
+}
+
+// Contract-type view of the totals: firm price, T&M ceilings, or estimated cost plus fee
+export interface ContractPriceSummary {
+    contract_type: PricingContractType
+    labor_price: number // Labor lines (fixed hourly rates under T&M)
+    materials_price: number // ODC lines
+    ceiling_hours?: number // T&M
+    estimated_cost: number // Total price less fee
+    fee: number // Fixed fee (CPFF), target fee (CPIF) or base fee plus award fee pool (CPAF)
+    fee_type?: CostPlusFeeType
+    min_fee?: number // CPIF
+    max_fee?: number // CPIF
+    share_ratio?: string // CPIF
+    base_fee?: number // CPAF
+    award_fee_pool?: number // CPAF
+}
+
+// "What if" assumption changes a pricing scenario applies to a copy of the pricing inputs
+export interface PricingScenarioChanges {
+    fee?: number // Percent, replaces the fee rate
+    escalation_rate?: number // Percent per period for every labor category (out-year rates on file are dropped)
+    labor_swaps?: Array<{ from: string; to: string; share?: number }> // Move hours between categories (share 0-1, default all)
+    drop_periods?: string[] // PricingPeriod ids left out, e.g. 'option_4'
+}
+
+export interface PricingScenario {
+    id: string // 'SCN-001'
+    name: string
+    based_on: string | null // Scenario the inputs were cloned from, null for the job's pricing inputs
+    changes: PricingScenarioChanges
+    inputs: PricingInputs // Cloned inputs with the changes applied
+    created_at: string
+    promoted_at?: string // When the inputs became the job's pricing inputs
+}
+
+// Price realism / reasonableness review of a price model (Agent 5)
+export interface PriceRealismFinding {
+    check: 'benchmark' | 'history' | 'escalation' | 'consistency' | 'staffing'
+    severity: 'critical' | 'high' | 'medium' | 'low'
+    category?: string // Labor category the finding is about
+    message: string
+}
+
+export interface PriceRealismReport {
+    findings: PriceRealismFinding[]
+    categories: Array<{
+        category: string
+        proposed_rate: number // First-period burdened rate
+        benchmark_median: number | null
+        benchmark_count: number
+        historical_rate: number | null // Company's own rate on file
+    }>
+    benchmark_source: string | null // Benchmark file compared against (null when none is loaded)
+    bands: PriceRealismBands
+    generated_at: string
+}
+
+// Share of the benchmark median (low/high) and allowed drift from the company's own rates (history)
+export interface PriceRealismBands {
+    low: number // 0.8 = flag rates below 80% of the benchmark median
+    high: number // 1.3 = flag rates above 130% of the benchmark median
+    history: number // 0.15 = flag rates more than 15% off the company's rate on file
+}
+
+// Factual claims in generated volumes checked against the company data and intake (Agent 5)
+export type ClaimKind = 'contract_number' | 'dollar_value' | 'personnel' | 'experience' | 'certification' | 'cpars' | 'metric'
+
+export interface ClaimFinding {
+    kind: ClaimKind
+    status: 'unsupported' | 'contradicted' // Contradicted: the company data says otherwise
+    severity: 'critical' | 'high' | 'medium' | 'low'
+    volume: number
+    section: string // Heading the claim appears under
+    claim: string // The value as written, e.g. "$4.2M" or "CMMC Level 3"
+    excerpt: string // Sentence the claim was found in
+    evidence?: string // What the company data says, when contradicted
+    message: string
+}
+
+export interface ClaimAuditReport {
+    findings: ClaimFinding[]
+    claims_checked: number
+    claims_supported: number
+    volumes: number[] // Volumes audited
+    generated_at: string
+}
+
+// ----------------------------------------------------------------------------
+// Content Provenance Types
+// ----------------------------------------------------------------------------
+
+// Record a generated claim was drawn from (data-source attribute in volume HTML)
+export type ProvenanceSourceType =
+    | 'past_performance'
+    | 'personnel'
+    | 'labor_rate'
+    | 'company'
+    | 'intake'
+    | 'requirement'
+    | 'price_model'
+
+export interface ProvenanceRef {
+    type: ProvenanceSourceType
+    id: string // Record id, RFP requirement id, or price model part
+    field?: string // 'cpars_rating', 'quantified_outcomes.0', ...
+}
+
+// ----------------------------------------------------------------------------
+// Win Theme Types
+// ----------------------------------------------------------------------------
+
+// Evidence behind a theme, tied to the company record it rests on
+export interface WinThemeProofPoint {
+    text: string
+    source: string | null // Source tag, e.g. 'past_performance:<id>' (see lib/provenance)
+}
+
+// Message the proposal repeats so evaluators score it as a strength
+export interface WinTheme {
+    id: string // 'WT-001'
+    statement: string
+    discriminator: boolean // Something competitors cannot claim
+    eval_factor: string | null // Section M factor the theme targets
+    volumes: number[] // Volumes to carry it; empty = volumes evaluated under eval_factor, else every volume
+    proof_points: WinThemeProofPoint[]
+    updated_at: string
+}
+
+export interface WinThemeVolumeCoverage {
+    volume: number
+    volume_name: string
+    present: boolean
+    sections: string[] // Sections that carry the theme
+    proof_points_cited: number
+}
+
+export interface WinThemeCoverage {
+    theme_id: string
+    statement: string
+    eval_factor: string | null
+    proof_points: number
+    volumes: WinThemeVolumeCoverage[] // Volumes the theme targets
+    missing_volumes: number[]
+}
+
+export interface WinThemeReport {
+    themes: WinThemeCoverage[]
+    volumes: number[] // Volumes checked
+    generated_at: string
+}
+
+// ----------------------------------------------------------------------------
+// Competitive Assessment Types
+// ----------------------------------------------------------------------------
+
+// Likely bidder, as the capture team sees it
+export interface Competitor {
+    id: string // 'CMP-001'
+    name: string
+    incumbent: boolean
+    strengths: string[]
+    weaknesses: string[]
+    price_low: number | null // Estimated total evaluated price range
+    price_high: number | null
+    notes?: string
+}
+
+export interface CompetitiveAssessment {
+    competitors: Competitor[]
+    price_to_win: number | null // Target total evaluated price; derived from the competitors' ranges when null
+    updated_at: string
+}
+
+// Where a price stands against the price-to-win target and each competitor's range
+export interface PriceToWinReport {
+    target: number
+    target_basis: 'set' | 'competitor_estimates'
+    proposed_price: number // Total evaluated price
+    distance: number // Proposed minus target (positive = above target)
+    distance_percent: number
+    position: 'below' | 'at' | 'above' // 'at' = within the tolerance of the target
+    competitors: Array<{
+        name: string
+        incumbent: boolean
+        price_low: number | null
+        price_high: number | null
+        position: 'below' | 'within' | 'above' | 'unknown' // Proposed price against this competitor's range
     }>
+    generated_at: string
+}
+
+// ----------------------------------------------------------------------------
+// Content Library Types
+// ----------------------------------------------------------------------------
+
+// Approved section harvested from a past job, or boilerplate the company uploaded
+export type ContentLibraryKind = 'approved_section' | 'boilerplate'
+
+// Library passage retrieved for an outline section
+export interface LibraryPassage {
+    entry_id: string
+    title: string
+    kind: ContentLibraryKind
+    text: string // Plain text of the passage
+    score: number // Retrieval score (higher is more relevant)
+    source_job_id: string | null
+    source_volume: number | null
+    source_score: number | null
 }
 
 // ----------------------------------------------------------------------------
@@ -409,7 +1064,11 @@ export interface Database {
                     // RFP data
                     rfp_file_url: string | null
                     rfp_text: string | null
+                    rfp_document: RfpDocument | null
+                    rfp_manifest: RfpSourceDocument[] | null
                     rfp_parsed_data: RfpParsedData | null
+                    rfp_amendments: RfpAmendment[] | null
+                    rfp_qa_imports: RfpQaImport[] | null
                     
                     // Validation
                     validation_status: ValidationStatus | null
@@ -418,8 +1077,20 @@ export interface Database {
                     // Content planning
                     content_outlines: ContentOutlines | null
                     volume_page_limits: VolumePageLimits | null
+                    volume_structure: ProposalVolume[] | null
                     volume_progress: VolumeProgress | null
                     
+                    // Pricing (Agent 4D pricing engine)
+                    pricing_inputs: PricingInputs | null
+                    price_model: PriceModel | null
+                    pricing_scenarios: PricingScenario[] | null
+
+                    // Win themes the writers weave in (edited before writing)
+                    win_themes: WinTheme[] | null
+
+                    // Competitors / incumbent the writers ghost and price-to-win is measured against
+                    competitive_assessment: CompetitiveAssessment | null
+                    
                     // Generated content - now stored as volume URLs
                     volume_1_url: string | null
                     volume_2_url: string | null
@@ -451,18 +1122,14 @@ export interface Database {
                     
                     // Final deliverables
                     final_pdf_urls: {
-                        volume_1?: string
-                        volume_2?: string
-                        volume_3?: string
-                        volume_4?: string
-                        compliance_matrix?: string
-                        cover_letter?: string
+                        [volumeKey: string]: StoredPackageFile | undefined // volume_1, volume_2, ...
+                        compliance_matrix?: StoredPackageFile
+                        cost_workbook?: StoredPackageFile // Priced cost workbook (.xlsx)
+                        cover_letter?: StoredPackageFile
                     } | null
                     final_docx_urls: {
-                        volume_1?: string
-                        volume_2?: string
-                        volume_3?: string
-                        volume_4?: string
+                        [volumeKey: string]: StoredPackageFile | undefined // volume_1, volume_2, ...
+                        compliance_matrix?: StoredPackageFile // Compliance matrix workbook (.xlsx)
                     } | null
                     
                     // Timestamps
@@ -491,6 +1158,26 @@ export interface Database {
                 Insert: Omit<Database['public']['Tables']['proposal_feedback']['Row'], 'id' | 'created_at'>
                 Update: Partial<Database['public']['Tables']['proposal_feedback']['Insert']>
             }
+
+            content_library: {
+                Row: {
+                    id: string
+                    company_id: string
+                    kind: ContentLibraryKind
+                    title: string
+                    content: string // Section HTML
+                    tags: string[]
+                    writer: VolumeWriterKind | null // Writer of the volume it came from
+                    source_job_id: string | null // null for boilerplate
+                    source_volume: number | null
+                    source_volume_name: string | null
+                    source_score: number | null // Volume compliance score at approval
+                    created_at: string
+                    updated_at: string | null
+                }
+                Insert: Omit<Database['public']['Tables']['content_library']['Row'], 'id' | 'created_at' | 'updated_at'>
+                Update: Partial<Database['public']['Tables']['content_library']['Insert']>
+            }
         }
     }
 }
@@ -506,6 +1193,7 @@ export type LaborRate = Database['public']['Tables']['labor_rates']['Row']
 export type ClientIntake = Database['public']['Tables']['client_intake']['Row']
 export type ProposalJob = Database['public']['Tables']['proposal_jobs']['Row']
 export type ProposalFeedback = Database['public']['Tables']['proposal_feedback']['Row']
+export type ContentLibraryEntry = Database['public']['Tables']['content_library']['Row']
 
 // ----------------------------------------------------------------------------
 // Legacy RfpMetadata (for backward compatibility)
@@ -0,0 +1,120 @@
+/**
+ * Evaluation Methodology
+ *
+ * Section M's basis for award changes how a proposal should be written and
+ * scored: an LPTA evaluation gives no credit for exceeding requirements, a
+ * best-value tradeoff rewards strengths in order of factor importance.
+ * Agent 1 extracts the methodology; these helpers turn it into writing
+ * emphasis (Agent 4) and scoring thresholds (Agent 5).
+ */
+
+import { AwardBasis, EvaluationMethodology, RelativeImportance } from './database.types'
+
+const AWARD_BASIS_PATTERNS: Array<[AwardBasis, RegExp]> = [
+    ['lpta', /lowest[\s-]+price(?:d)?[\s,]+technically[\s-]+acceptable|\bLPTA\b/i],
+    ['highest_technically_rated', /highest[\s-]+technically[\s-]+rated/i],
+    ['best_value_tradeoff', /best[\s-]+value[\s\S]{0,60}trade[\s-]?off|trade[\s-]?off\s+process/i],
+]
+
+export const AWARD_BASIS_LABELS: Record<AwardBasis, string> = {
+    lpta: 'Lowest Price Technically Acceptable (LPTA)',
+    best_value_tradeoff: 'Best-Value Tradeoff',
+    highest_technically_rated: 'Highest Technically Rated Offeror with a Fair and Reasonable Price',
+    unknown: 'Not stated',
+}
+
+/**
+ * Detect the basis for award from RFP text (fallback when the LLM did not report one)
+ */
+export function detectAwardBasis(text: string): AwardBasis {
+    for (const [basis, pattern] of AWARD_BASIS_PATTERNS) {
+        if (pattern.test(text)) return basis
+    }
+    return 'unknown'
+}
+
+/**
+ * Degree of a relative importance statement ("significantly more important than")
+ */
+export function importanceDegree(statement: string): RelativeImportance['degree'] {
+    if (/approximately equal|equal(?:ly)? important|equal in importance/i.test(statement)) return 'approximately_equal'
+    if (/significantly|substantially|considerably|much more/i.test(statement)) return 'significantly_more'
+    return 'more'
+}
+
+/**
+ * One-paragraph description of how the agency evaluates, for prompts
+ */
+export function describeMethodology(methodology: EvaluationMethodology | undefined): string {
+    if (!methodology || methodology.award_basis === 'unknown') {
+        return 'Basis for award not stated - write to earn the strongest rating on every factor.'
+    }
+
+    const lines = [`Basis for award: ${AWARD_BASIS_LABELS[methodology.award_basis]}`]
+    if (methodology.basis_statement) lines.push(`Section M: "${methodology.basis_statement}"`)
+    methodology.relative_importance.forEach(r => lines.push(`Relative importance: ${r.statement}`))
+
+    const scheme = methodology.rating_scheme
+    if (scheme && scheme.ratings.length > 0) {
+        lines.push(`Rating scheme (${scheme.kind.replace('_', '/')}): ${scheme.ratings.map(r => r.rating).join(' > ')}`)
+    }
+
+    return lines.join('\n')
+}
+
+/**
+ * Writing emphasis implied by the methodology
+ */
+export function writingEmphasis(methodology: EvaluationMethodology | undefined): string[] {
+    const emphasis: string[] = []
+
+    switch (methodology?.award_basis) {
+        case 'lpta':
+            emphasis.push(
+                'LPTA: non-price factors are rated acceptable/unacceptable only - exceeding requirements earns NO credit',
+                'Demonstrate complete, unambiguous compliance with every requirement, mirroring RFP language',
+                'Be concise - do not spend pages on innovations, extra features or benefits beyond the requirements',
+            )
+            break
+        case 'highest_technically_rated':
+            emphasis.push(
+                'Award goes to the highest technically rated offer - maximize technical strengths and exceed requirements where it benefits the Government',
+                'Price only needs to be fair and reasonable - do not trade technical quality for cost savings',
+            )
+            break
+        case 'best_value_tradeoff':
+            emphasis.push(
+                'Best-value tradeoff: evaluators weigh strengths against price - lead with discriminators they can cite as strengths',
+                'Quantify every benefit to the Government (cost avoided, time saved, risk reduced)',
+            )
+            if (methodology.non_price_vs_price === 'significantly_more_important' || methodology.non_price_vs_price === 'more_important') {
+                emphasis.push('Non-price factors outweigh price - invest page space in the most important factors first')
+            } else if (methodology.non_price_vs_price === 'less_important') {
+                emphasis.push('Price outweighs non-price factors - keep the approach efficient and show cost-consciousness')
+            }
+            break
+    }
+
+    const ranked = (methodology?.relative_importance || []).filter(r => r.more_important && r.degree !== 'approximately_equal')
+    if (ranked.length > 0) {
+        emphasis.push(`Allocate emphasis by factor importance: ${ranked.map(r => `${r.more_important} > ${r.less_important}`).join('; ')}`)
+    }
+
+    const top = methodology?.rating_scheme?.ratings[0]
+    if (top && methodology?.award_basis !== 'lpta') {
+        emphasis.push(`Write to earn "${top.rating}"${top.description ? `: ${top.description}` : ''}`)
+    }
+
+    return emphasis
+}
+
+/**
+ * Requirement score thresholds for Agent 5
+ * Under LPTA a single unacceptable requirement makes the whole offer unacceptable,
+ * so anything short of "fully meets" is critical.
+ */
+export function scoringThresholds(methodology: EvaluationMethodology | undefined): { pass: number; critical: number } {
+    return methodology?.award_basis === 'lpta'
+        ? { pass: 70, critical: 70 }
+        : { pass: 70, critical: 50 }
+}
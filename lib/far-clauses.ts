@@ -0,0 +1,177 @@
+/**
+ * FAR / DFARS Clause Catalog
+ *
+ * Clauses incorporated into a solicitation drive certifications, subcontracting
+ * limits and cyber requirements. This module finds clause numbers in RFP text
+ * (the sweep that anchors Agent 1's LLM-extracted clauses) and maps the clauses
+ * Agent 2 checks against company data to the obligation they create.
+ */
+
+import { CMMCLevel, RfpClause } from './database.types'
+
+export type ClauseObligation =
+    | 'nist_800_171' // Safeguard CUI per NIST SP 800-171
+    | 'sprs_assessment' // Current SPRS score required
+    | 'cmmc' // CMMC certification at the level the RFP states
+    | 'set_aside' // Offeror must hold the small-business status
+    | 'limitations_on_subcontracting'
+
+interface KnownClause {
+    title: string
+    obligation?: ClauseObligation
+    setAside?: string // Small-business status the clause restricts the award to
+}
+
+export const KNOWN_CLAUSES: Record<string, KnownClause> = {
+    '52.204-21': { title: 'Basic Safeguarding of Covered Contractor Information Systems' },
+    '52.219-3': { title: 'Notice of HUBZone Set-Aside or Sole-Source Award', obligation: 'set_aside', setAside: 'HUBZone' },
+    '52.219-6': { title: 'Notice of Total Small Business Set-Aside', obligation: 'set_aside', setAside: 'Small Business' },
+    '52.219-7': { title: 'Notice of Partial Small Business Set-Aside', obligation: 'set_aside', setAside: 'Small Business' },
+    '52.219-9': { title: 'Small Business Subcontracting Plan' },
+    '52.219-14': { title: 'Limitations on Subcontracting', obligation: 'limitations_on_subcontracting' },
+    '52.219-17': { title: 'Section 8(a) Award', obligation: 'set_aside', setAside: '8(a)' },
+    '52.219-18': { title: 'Notification of Competition Limited to Eligible 8(a) Participants', obligation: 'set_aside', setAside: '8(a)' },
+    '52.219-27': { title: 'Notice of Set-Aside for, or Sole-Source Award to, Service-Disabled Veteran-Owned Small Business Concerns', obligation: 'set_aside', setAside: 'SDVOSB' },
+    '52.219-29': { title: 'Notice of Set-Aside for, or Sole-Source Award to, Economically Disadvantaged Women-Owned Small Business Concerns', obligation: 'set_aside', setAside: 'EDWOSB' },
+    '52.219-30': { title: 'Notice of Set-Aside for, or Sole-Source Award to, Women-Owned Small Business Concerns', obligation: 'set_aside', setAside: 'WOSB' },
+    '52.222-46': { title: 'Evaluation of Compensation for Professional Employees' },
+    '52.232-33': { title: 'Payment by Electronic Funds Transfer - System for Award Management' },
+    '252.204-7008': { title: 'Compliance with Safeguarding Covered Defense Information Controls', obligation: 'nist_800_171' },
+    '252.204-7012': { title: 'Safeguarding Covered Defense Information and Cyber Incident Reporting', obligation: 'nist_800_171' },
+    '252.204-7019': { title: 'Notice of NIST SP 800-171 DoD Assessment Requirements', obligation: 'sprs_assessment' },
+    '252.204-7020': { title: 'NIST SP 800-171 DoD Assessment Requirements', obligation: 'sprs_assessment' },
+    '252.204-7021': { title: 'Contractor Compliance with the Cybersecurity Maturity Model Certification Level Requirements', obligation: 'cmmc' },
+    '252.204-7025': { title: 'Notice of Cybersecurity Maturity Model Certification Level Requirements', obligation: 'cmmc' },
+}
+
+// "52.219-14", "252.204-7012", "FAR 52.212-4", "DFARS 252.225-7048"
+const CLAUSE_NUMBER = /\b((?:52|252)\.\d{3}-\d{1,4})\b/g
+
+// "(OCT 2022)", "(DEC 2019)"
+const CLAUSE_DATE = /\(\s*([A-Z]{3,4}\.?\s+\d{4})\s*\)/
+
+// Socio-economic programs whose members are small businesses by definition
+const SOCIO_ECONOMIC_STATUSES = /8\(a\)|sdvosb|hubzone|wosb|edwosb|sdb/i
+
+// Share of the amount paid for services that may go to non-similarly-situated subcontractors
+export const SERVICES_SUBCONTRACTING_LIMIT = 50
+
+export interface ClauseMention {
+    number: string
+    title?: string // Text after the number on the same line
+    date?: string
+    start: number // Character offset of the first mention
+}
+
+export function clauseRegulation(number: string): RfpClause['regulation'] {
+    return number.startsWith('252.') ? 'DFARS' : 'FAR'
+}
+
+/**
+ * Provisions (solicitation-only, e.g. 52.212-1 Instructions to Offerors) vs clauses
+ * that carry into the contract - guessed from the title when the LLM did not say
+ */
+export function clauseKind(title: string): RfpClause['kind'] {
+    return /provision|instructions to offerors|representations|certifications|evaluation/i.test(title) ? 'provision' : 'clause'
+}
+
+/**
+ * Find every FAR/DFARS clause number in the text, first mention per number
+ */
+export function findClauseMentions(text: string): ClauseMention[] {
+    const mentions = new Map<string, ClauseMention>()
+
+    for (const match of text.matchAll(CLAUSE_NUMBER)) {
+        const number = match[1]
+        if (mentions.has(number) || match.index === undefined) continue
+
+        const lineEnd = text.indexOf('\n', match.index)
+        const rest = text.substring(match.index + number.length, lineEnd === -1 ? undefined : lineEnd)
+        const date = rest.match(CLAUSE_DATE)?.[1]
+        const title = rest
+            .replace(CLAUSE_DATE, '')
+            .replace(/^[\s,:;.–—-]+/, '')
+            .replace(/\.{3,}.*$/, '') // TOC leaders
+            .trim()
+
+        mentions.set(number, {
+            number,
+            // Cross-references ("see 52.219-14(b)") have no title on the line
+            title: title.length >= 6 && title.length <= 200 && /^[A-Z]/.test(title) ? title : undefined,
+            date,
+            start: match.index,
+        })
+    }
+
+    return [...mentions.values()]
+}
+
+// ----------------------------------------------------------------------------
+// Clause-driven obligations (Agent 2)
+// ----------------------------------------------------------------------------
+
+export function clausesWithObligation(clauses: RfpClause[], obligation: ClauseObligation): RfpClause[] {
+    return clauses.filter(c => KNOWN_CLAUSES[c.number]?.obligation === obligation)
+}
+
+/**
+ * Small-business statuses the clauses restrict the award to
+ */
+export function requiredSetAsides(clauses: RfpClause[]): Array<{ status: string; clause: string }> {
+    return clauses
+        .map(c => ({ status: KNOWN_CLAUSES[c.number]?.setAside, clause: c.number }))
+        .filter((s): s is { status: string; clause: string } => !!s.status)
+}
+
+const CMMC_RANK: Record<CMMCLevel, number> = {
+    'None': 0,
+    'Level 1': 1,
+    'Level 2': 2,
+    'Level 3': 3,
+}
+
+export function cmmcRank(level: CMMCLevel | null | undefined): number {
+    return level ? CMMC_RANK[level] ?? 0 : 0
+}
+
+/**
+ * CMMC level the solicitation states ("CMMC Level 2", "CMMC L2") - Level 2 when
+ * the CMMC clause is present without a stated level
+ */
+export function requiredCmmcLevel(clauses: RfpClause[], text: string): CMMCLevel | null {
+    const stated = [...text.matchAll(/\bCMMC(?:\s+2\.0)?\s+(?:Level|L)\s*([123])\b/gi)]
+        .map(m => parseInt(m[1], 10))
+    const fromClauses = clauses
+        .map(c => c.fill_in?.match(/\b(?:Level|L)\s*([123])\b/i)?.[1])
+        .filter((l): l is string => !!l)
+        .map(l => parseInt(l, 10))
+
+    const levels = [...stated, ...fromClauses]
+    if (levels.length > 0) return `Level ${Math.max(...levels)}` as CMMCLevel
+    return clausesWithObligation(clauses, 'cmmc').length > 0 ? 'Level 2' : null
+}
+
+/**
+ * True when a status string ("SDVOSB", "8(a) Small Business") satisfies a set-aside status
+ */
+export function holdsStatus(held: string, required: string): boolean {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+    const have = normalize(held)
+    if (/other than small|large/i.test(held)) return false
+
+    // Every socio-economic status is also a small business
+    if (required === 'Small Business') return have.includes('small') || SOCIO_ECONOMIC_STATUSES.test(held)
+    // EDWOSBs are also WOSBs
+    if (required === 'WOSB') return have.includes('wosb') || have.includes('womenowned')
+    return have.includes(normalize(required))
+}
+
+/**
+ * True when the subcontractor is similarly situated to the prime - its work then
+ * counts as the prime's under Limitations on Subcontracting
+ */
+export function isSimilarlySituated(smallBusinessStatus: string | null | undefined, setAsides: string[]): boolean {
+    if (!smallBusinessStatus) return false
+    if (setAsides.length === 0) return holdsStatus(smallBusinessStatus, 'Small Business')
+    return setAsides.some(status => holdsStatus(smallBusinessStatus, status))
+}
@@ -0,0 +1,220 @@
+/**
+ * Section L Format Profile
+ *
+ * Section L's formatting instructions (font, size, margins, spacing, running
+ * header/footer, page numbering, minimum table font, pages excluded from the
+ * page count) resolved into one profile. Every PDF, HTML preview and page
+ * count is produced from the profile, and Agent 5 checks content against it.
+ *
+ * Pure helpers - safe to import from client components.
+ */
+
+import { ExcludedPage, FormatProfile, HeaderFooterItem, PageNumberingStyle, SectionLFormat } from './database.types'
+
+export const HEADER_FOOTER_ITEMS: HeaderFooterItem[] = ['solicitation_number', 'offeror_name', 'volume_title', 'proprietary_notice', 'date']
+export const PAGE_NUMBERING_STYLES: PageNumberingStyle[] = ['page_x_of_y', 'page_x', 'volume_page', 'none']
+export const EXCLUDED_PAGES: ExcludedPage[] = ['cover', 'toc', 'acronyms', 'compliance_matrix', 'resumes', 'tabs']
+
+// Used when Section L is silent
+export const DEFAULT_FORMAT_PROFILE: FormatProfile = {
+    font_family: 'Times New Roman',
+    font_size: 12,
+    line_height: 1.15,
+    margin_inches: 1,
+    page_size: 'Letter',
+    header: ['volume_title', 'solicitation_number', 'offeror_name'],
+    footer: ['proprietary_notice'],
+    page_numbering: 'page_x_of_y',
+    min_table_font_size: 10,
+    excluded_pages: ['cover', 'toc'],
+}
+
+// Page dimensions in inches
+const PAGE_SIZES: Record<FormatProfile['page_size'], { width: number; height: number }> = {
+    Letter: { width: 8.5, height: 11 },
+    A4: { width: 8.27, height: 11.69 },
+}
+
+function parsePoints(value: string | undefined): number | undefined {
+    const points = parseFloat(value || '')
+    return points >= 6 && points <= 24 ? points : undefined
+}
+
+/**
+ * Resolve Section L format text ("Times New Roman", "12 point", "1 inch", "Single")
+ * into a profile - unparseable values fall back to the defaults
+ */
+export function buildFormatProfile(format?: SectionLFormat | null): FormatProfile {
+    const defaults = DEFAULT_FORMAT_PROFILE
+    const fontSize = parsePoints(format?.font_size) ?? defaults.font_size
+
+    const margin = (format?.margins || '').match(/(\d+(?:\.\d+)?)\s*(cm|mm|pt|in|inch|inches|")?/i)
+    let marginInches = margin ? parseFloat(margin[1]) : defaults.margin_inches
+    if (margin?.[2]?.toLowerCase() === 'cm') marginInches /= 2.54
+    if (margin?.[2]?.toLowerCase() === 'mm') marginInches /= 25.4
+    if (margin?.[2]?.toLowerCase() === 'pt') marginInches /= 72
+
+    const spacing = (format?.spacing || '').toLowerCase()
+    const numericSpacing = parseFloat(spacing)
+    // Word's "single" spacing is ~1.15x the font size
+    const lineHeight = /double/.test(spacing) ? 2
+        : /1\.5|one and a half/.test(spacing) ? 1.5
+        : numericSpacing >= 1 && numericSpacing <= 3 ? numericSpacing
+        : defaults.line_height
+
+    const items = (list: HeaderFooterItem[] | undefined, fallback: HeaderFooterItem[]) =>
+        Array.isArray(list) ? list.filter(i => HEADER_FOOTER_ITEMS.includes(i)) : fallback
+
+    return {
+        font_family: format?.font?.trim() || defaults.font_family,
+        font_size: fontSize,
+        line_height: lineHeight,
+        margin_inches: marginInches > 0 && marginInches < 3 ? marginInches : defaults.margin_inches,
+        page_size: /a4/i.test(format?.page_size || '') ? 'A4' : 'Letter',
+        header: items(format?.header, defaults.header),
+        footer: items(format?.footer, defaults.footer),
+        page_numbering: PAGE_NUMBERING_STYLES.find(s => s === format?.page_numbering) || defaults.page_numbering,
+        // Tables may not go below the stated minimum - and never above the body size
+        min_table_font_size: Math.min(parsePoints(format?.min_table_font_size) ?? defaults.min_table_font_size, fontSize),
+        excluded_pages: Array.isArray(format?.excluded_pages)
+            ? format.excluded_pages.filter(p => EXCLUDED_PAGES.includes(p))
+            : defaults.excluded_pages,
+    }
+}
+
+export function pageDimensions(profile: FormatProfile): { width: number; height: number } {
+    return PAGE_SIZES[profile.page_size]
+}
+
+/**
+ * Pages Agent 8 adds in front of the volume content that count against the limit
+ */
+export function countedFrontMatterPages(profile: FormatProfile): number {
+    return profile.excluded_pages.includes('cover') ? 0 : 1
+}
+
+/**
+ * Typography every rendering of a volume uses
+ */
+export function formatProfileCss(profile: FormatProfile): string {
+    return `
+        body {
+            font-family: "${profile.font_family.replace(/"/g, '')}", serif;
+            font-size: ${profile.font_size}pt;
+            line-height: ${profile.line_height};
+        }
+        h1 { font-size: ${profile.font_size + 6}pt; }
+        h2 { font-size: ${profile.font_size + 2}pt; }
+        h3 { font-size: ${profile.font_size + 1}pt; }
+        table {
+            border-collapse: collapse;
+            width: 100%;
+            table-layout: fixed;
+            font-size: ${profile.min_table_font_size}pt;
+        }
+        td, th { padding: 4pt 6pt; vertical-align: top; overflow-wrap: break-word; }
+        tr { page-break-inside: avoid; }
+        p { margin: 6pt 0; }`
+}
+
+/**
+ * Standalone HTML document for a volume fragment (previews and page counts)
+ */
+export function formatProfileDocument(contentHtml: string, profile: FormatProfile, title = 'Proposal Volume'): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        * { box-sizing: border-box; }
+        body { margin: 0; }
+        td, th { border: 1px solid #ccc; }
+        @media screen {
+            body { max-width: ${pageDimensions(profile).width - profile.margin_inches * 2}in; margin: 24px auto; }
+        }
+        ${formatProfileCss(profile)}
+    </style>
+</head>
+<body>${contentHtml}</body>
+</html>`
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export interface RunningHeadLabels {
+    solicitationNum: string
+    companyName: string
+    volumeTitle?: string // "Volume II: Management"
+    volumeNumeral?: string // "II" - for volume_page numbering
+}
+
+/**
+ * Plain text of each running header/footer item
+ */
+export function runningHeadText(labels: RunningHeadLabels): Record<HeaderFooterItem, string> {
+    return {
+        solicitation_number: labels.solicitationNum,
+        offeror_name: labels.companyName,
+        volume_title: labels.volumeTitle || 'Proposal',
+        proprietary_notice: `${labels.companyName} PROPRIETARY - Use or disclosure of data contained on this sheet is subject to the restriction on the title page of this proposal`,
+        date: new Date().toLocaleDateString(),
+    }
+}
+
+/**
+ * Puppeteer header/footer templates for the profile's running head, foot and page numbers
+ * (pageNumber / totalPages are filled in by Chrome)
+ */
+export function headerFooterTemplates(profile: FormatProfile, labels: RunningHeadLabels): { headerTemplate: string; footerTemplate: string } {
+    const plain = runningHeadText(labels)
+    const text = Object.fromEntries(
+        HEADER_FOOTER_ITEMS.map(item => [item, escapeHtml(plain[item])])
+    ) as Record<HeaderFooterItem, string>
+
+    const pageNumber: Record<PageNumberingStyle, string> = {
+        page_x_of_y: 'Page <span class="pageNumber"></span> of <span class="totalPages"></span>',
+        page_x: 'Page <span class="pageNumber"></span>',
+        volume_page: `${escapeHtml(labels.volumeNumeral || '')}${labels.volumeNumeral ? '-' : ''}<span class="pageNumber"></span>`,
+        none: '',
+    }
+
+    // Header/footer templates render in the margin at their own (tiny default) size
+    const style = `width: 100%; font-family: '${profile.font_family.replace(/'/g, '')}', serif; font-size: 8pt; color: #444; padding: 0 ${profile.margin_inches}in; display: flex; justify-content: space-between; align-items: center; gap: 12px;`
+    const span = (content: string) => `<span>${content}</span>`
+
+    return {
+        headerTemplate: `<div style="${style}">${profile.header.map(item => span(text[item])).join('')}</div>`,
+        footerTemplate: `<div style="${style}">${[...profile.footer.map(item => text[item]), pageNumber[profile.page_numbering]]
+            .filter(Boolean)
+            .map(span)
+            .join('')}</div>`,
+    }
+}
+
+/**
+ * Inline styles in the content that break the profile (writers and rewrites occasionally
+ * shrink fonts to squeeze under a page limit)
+ */
+export function findFormatViolations(html: string, profile: FormatProfile): string[] {
+    const violations = new Set<string>()
+    const wanted = profile.font_family.toLowerCase()
+
+    for (const match of html.matchAll(/font-size\s*:\s*(\d+(?:\.\d+)?)\s*(pt|px)/gi)) {
+        const points = match[2].toLowerCase() === 'px' ? parseFloat(match[1]) * 0.75 : parseFloat(match[1])
+        if (points < profile.min_table_font_size) {
+            violations.add(`Font size ${match[1]}${match[2]} is below the ${profile.min_table_font_size}pt minimum`)
+        }
+    }
+
+    for (const match of html.matchAll(/font-family\s*:\s*([^;"]+)/gi)) {
+        const family = match[1].split(',')[0].replace(/['"]/g, '').trim()
+        if (family && !family.toLowerCase().includes(wanted) && !/^(serif|sans-serif|inherit)$/i.test(family)) {
+            violations.add(`Font "${family}" does not match the required ${profile.font_family}`)
+        }
+    }
+
+    return [...violations]
+}
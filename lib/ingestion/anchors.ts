@@ -0,0 +1,98 @@
+/**
+ * Source Anchoring
+ *
+ * Maps text returned by the LLM (requirements, clauses, etc.) back to a page
+ * and character span in the original solicitation. The LLM normalizes
+ * whitespace and sometimes truncates, so matching is done on a whitespace-
+ * and case-insensitive view of the document with a few fallback windows.
+ */
+
+import { RfpDocument, RfpSourceAnchor } from '../database.types'
+import { pageForOffset, sectionForOffset } from './section-detector'
+
+interface NormalizedIndex {
+    text: string
+    offsets: number[] // offsets[i] = position in the original text of normalized char i
+}
+
+// Cache per document text - anchoring hundreds of requirements reuses the same index
+const indexCache = new WeakMap<RfpDocument, NormalizedIndex>()
+
+function normalize(input: string): string {
+    return input.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim()
+}
+
+function buildIndex(document: RfpDocument): NormalizedIndex {
+    const cached = indexCache.get(document)
+    if (cached) return cached
+
+    const chars: string[] = []
+    const offsets: number[] = []
+    let lastWasSpace = true
+
+    for (let i = 0; i < document.text.length; i++) {
+        const char = document.text[i]
+        if (/\s/.test(char)) {
+            if (!lastWasSpace) {
+                chars.push(' ')
+                offsets.push(i)
+                lastWasSpace = true
+            }
+            continue
+        }
+        chars.push(normalize(char))
+        offsets.push(i)
+        lastWasSpace = false
+    }
+
+    const index = { text: chars.join(''), offsets }
+    indexCache.set(document, index)
+    return index
+}
+
+/**
+ * Locate a passage in the document
+ * @returns Anchor with page and character span, or undefined if not found
+ */
+export function locateText(document: RfpDocument, passage: string): RfpSourceAnchor | undefined {
+    const needle = normalize(passage)
+    if (needle.length < 12 || !document.text) return undefined
+
+    const index = buildIndex(document)
+
+    // Try the full passage, then shrinking windows from the start and middle
+    const windows: Array<{ from: number; length: number }> = [
+        { from: 0, length: needle.length },
+        { from: 0, length: Math.min(needle.length, 120) },
+        { from: 0, length: Math.min(needle.length, 60) },
+        { from: Math.floor(needle.length / 2) - 20, length: 40 },
+    ]
+
+    for (const window of windows) {
+        if (window.from < 0 || window.from + window.length > needle.length) continue
+
+        const probe = needle.substring(window.from, window.from + window.length)
+        const found = index.text.indexOf(probe)
+        if (found === -1) continue
+
+        // Extend to cover the full passage length from the estimated start
+        const normStart = Math.max(0, found - window.from)
+        const normEnd = Math.min(index.text.length - 1, normStart + needle.length - 1)
+        const start = index.offsets[normStart]
+        const end = index.offsets[normEnd] + 1
+
+        const page = pageForOffset(document.pages, start)
+        const sourcePage = document.pages[page - 1]
+
+        return {
+            page,
+            start,
+            end,
+            section: sectionForOffset(document.sections, start)?.key,
+            document: sourcePage ? document.documents[sourcePage.document_index]?.file_name : undefined,
+            document_page: sourcePage?.document_page,
+        }
+    }
+
+    return undefined
+}
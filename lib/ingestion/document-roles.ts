@@ -0,0 +1,120 @@
+/**
+ * Solicitation Package Classification
+ *
+ * Detects the file type of each uploaded document and tags it with its role
+ * in the solicitation package (base RFP, SOW/PWS, amendment, attachment,
+ * pricing template) from its file name and opening text.
+ */
+
+import { RfpDocumentRole } from '../database.types'
+
+export type RfpFileKind = 'pdf' | 'docx' | 'xlsx' | 'txt' | 'zip'
+
+const EXTENSION_KINDS: Record<string, RfpFileKind> = {
+    pdf: 'pdf',
+    docx: 'docx',
+    xlsx: 'xlsx',
+    txt: 'txt',
+    zip: 'zip',
+}
+
+const MIME_KINDS: Record<string, RfpFileKind> = {
+    'application/pdf': 'pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'text/plain': 'txt',
+    'application/zip': 'zip',
+    'application/x-zip-compressed': 'zip',
+}
+
+export const KIND_MIME_TYPES: Record<RfpFileKind, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    txt: 'text/plain',
+    zip: 'application/zip',
+}
+
+export const ROLE_LABELS: Record<RfpDocumentRole, string> = {
+    rfp: 'RFP',
+    sow: 'SOW/PWS',
+    amendment: 'Amendment',
+    attachment: 'Attachment',
+    pricing_template: 'Pricing Template',
+}
+
+// Order documents appear in the combined corpus - amendments last so they read as superseding
+const ROLE_ORDER: RfpDocumentRole[] = ['rfp', 'sow', 'attachment', 'pricing_template', 'amendment']
+
+/**
+ * Determine the file type from the extension, falling back to the MIME type.
+ * Browsers report DOCX/ZIP inconsistently, so the extension wins.
+ */
+export function detectFileKind(fileName: string, mimeType: string): RfpFileKind | null {
+    const extension = fileName.split('.').pop()?.toLowerCase() || ''
+    return EXTENSION_KINDS[extension] || MIME_KINDS[mimeType] || null
+}
+
+/**
+ * Tag a document with its role in the solicitation package
+ * @param openingText - Text of the first pages, used when the file name is not descriptive
+ */
+export function classifyDocument(fileName: string, kind: RfpFileKind, openingText: string): RfpDocumentRole {
+    const name = fileName.toLowerCase().replace(/[_\-.]+/g, ' ')
+    const text = openingText.substring(0, 4000).toUpperCase()
+
+    if (/\bamend|\bmod(ification)?\s*\d|\bsf\s*30\b/.test(name) ||
+        text.includes('AMENDMENT OF SOLICITATION/MODIFICATION OF CONTRACT')) {
+        return 'amendment'
+    }
+
+    if (/pric(e|ing)|cost|\bclins?\b|\brates?\b|\bbid schedule/.test(name) &&
+        (kind === 'xlsx' || /template|schedule|sheet|workbook/.test(name))) {
+        return 'pricing_template'
+    }
+
+    if (/\b(sow|pws|soo)\b|statement of (work|objectives)|performance work statement/.test(name)) {
+        return 'sow'
+    }
+
+    if (/\b(rfp|rfq|rfi|solicitation)\b|\bsf\s*(33|1449)\b/.test(name) ||
+        text.includes('SOLICITATION, OFFER AND AWARD') ||
+        text.includes('SOLICITATION/CONTRACT/ORDER FOR COMMERCIAL')) {
+        return 'rfp'
+    }
+
+    if (/PERFORMANCE WORK STATEMENT|STATEMENT OF WORK|STATEMENT OF OBJECTIVES/.test(text.substring(0, 1500))) {
+        return 'sow'
+    }
+
+    if (kind === 'xlsx' && /UNIT PRICE|LABOR RATE|CLIN/.test(text)) {
+        return 'pricing_template'
+    }
+
+    return 'attachment'
+}
+
+/**
+ * Make sure exactly one base RFP leads the package.
+ * When nothing looks like a base RFP, the largest narrative document is promoted.
+ */
+export function ensureBaseRfp<T extends { role: RfpDocumentRole; pageCount: number }>(documents: T[]): void {
+    if (documents.some(d => d.role === 'rfp')) return
+
+    const candidates = documents.filter(d => d.role !== 'amendment' && d.role !== 'pricing_template')
+    const largest = (candidates.length > 0 ? candidates : documents)
+        .reduce<T | null>((best, d) => (!best || d.pageCount > best.pageCount ? d : best), null)
+
+    if (largest) largest.role = 'rfp'
+}
+
+/**
+ * Sort documents into corpus order: by role, then by file name (so amendments stay numbered)
+ */
+export function compareDocuments(
+    a: { role: RfpDocumentRole; fileName: string },
+    b: { role: RfpDocumentRole; fileName: string }
+): number {
+    const byRole = ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role)
+    return byRole !== 0 ? byRole : a.fileName.localeCompare(b.fileName, undefined, { numeric: true })
+}
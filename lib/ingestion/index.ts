@@ -0,0 +1,358 @@
+/**
+ * RFP Ingestion Pipeline
+ *
+ * Server-side replacement for the browser-only text extraction:
+ * 1. Expand ZIP bundles into their documents
+ * 2. Store each original file
+ * 3. Extract text per page (PDF, DOCX, XLSX, TXT)
+ * 4. Tag each document with its role (RFP, SOW/PWS, amendment, ...)
+ * 5. Detect Section A-M and attachment headings
+ * 6. Return one page-anchored RfpDocument covering the whole package
+ */
+
+import { logger } from '../logger'
+import { RfpDocument, RfpDocumentRole, RfpDocumentSection, RfpSourceDocument } from '../database.types'
+import { extractPdfPages, ExtractedPage } from './pdf-extractor'
+import { extractDocxPages, extractTextPages, extractXlsxPages } from './office-extractor'
+import {
+    RfpFileKind,
+    KIND_MIME_TYPES,
+    ROLE_LABELS,
+    classifyDocument,
+    compareDocuments,
+    detectFileKind,
+    ensureBaseRfp,
+} from './document-roles'
+import { buildPages, detectSections, SourcePageText } from './section-detector'
+import { storeRfpFile } from './storage'
+import { createZipBudget, readZip, ZipBudget, ZipEntry } from './zip-reader'
+
+export { locateText } from './anchors'
+export { pageForOffset, sectionForOffset } from './section-detector'
+export { getRfpFileSignedUrl, readRfpFile, removeRfpFiles, RFP_DOCUMENTS_BUCKET } from './storage'
+export { detectFileKind, ROLE_LABELS } from './document-roles'
+export { scanObligations } from './obligation-scanner'
+export type { ObligationStatement } from './obligation-scanner'
+
+export const SUPPORTED_RFP_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.txt', '.zip']
+
+// Nested bundles ("Attachments.zip" inside the package ZIP) are expanded this deep
+const MAX_ARCHIVE_DEPTH = 2
+
+/**
+ * The upload itself is unusable (corrupt or oversized archive, no supported
+ * documents) - routes answer 400 instead of 500
+ */
+export class IngestionError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'IngestionError'
+    }
+}
+
+export interface IngestRfpInput {
+    fileName: string
+    mimeType: string
+    data: Uint8Array
+}
+
+export interface IngestRfpOptions {
+    role?: RfpDocumentRole // Skip classification (e.g. files attached as amendments)
+    folder?: string // Storage sub-folder, keeps amendment files apart from the original package
+}
+
+interface PackageFile {
+    fileName: string
+    kind: Exclude<RfpFileKind, 'zip'>
+    data: Uint8Array
+    archiveName?: string
+}
+
+interface ExtractedDocument extends PackageFile {
+    role: RfpDocumentRole
+    pages: ExtractedPage[]
+    pageCount: number
+    fileUrl: string
+}
+
+/**
+ * Expand uploads into individual documents, unpacking ZIP bundles
+ * @param budget - Shared by every archive of the upload
+ */
+function expandUploads(uploads: IngestRfpInput[], budget: ZipBudget): PackageFile[] {
+    const files: PackageFile[] = []
+
+    const visit = (fileName: string, data: Uint8Array, kind: RfpFileKind | null, archiveName: string | undefined, depth: number) => {
+        if (!kind) {
+            logger.warn(`[Ingestion] Skipping unsupported file: ${fileName}`, { data: { archiveName } })
+            return
+        }
+
+        if (kind !== 'zip') {
+            files.push({ fileName, kind, data, archiveName })
+            return
+        }
+
+        if (depth >= MAX_ARCHIVE_DEPTH) {
+            logger.warn(`[Ingestion] Skipping nested archive: ${fileName}`, { data: { archiveName } })
+            return
+        }
+
+        let entries: ZipEntry[]
+        try {
+            entries = readZip(data, budget)
+        } catch (error) {
+            throw new IngestionError(`Cannot read ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+
+        for (const entry of entries) {
+            const baseName = entry.name.split('/').pop() || ''
+            // Skip macOS resource forks and hidden/temp files ("~$PWS.docx")
+            if (!baseName || entry.name.startsWith('__MACOSX/') || baseName.startsWith('.') || baseName.startsWith('~$')) continue
+
+            visit(`${fileName}/${entry.name}`, entry.data, detectFileKind(baseName, ''), archiveName || fileName, depth + 1)
+        }
+    }
+
+    for (const upload of uploads) {
+        visit(upload.fileName, upload.data, detectFileKind(upload.fileName, upload.mimeType), undefined, 0)
+    }
+
+    return files
+}
+
+async function extractPages(file: PackageFile, budget: ZipBudget): Promise<ExtractedPage[]> {
+    switch (file.kind) {
+        // pdfjs transfers (detaches) the buffer it is given, so hand it a copy
+        case 'pdf': return extractPdfPages(new Uint8Array(file.data))
+        case 'docx': return extractDocxPages(file.data, budget)
+        case 'xlsx': return extractXlsxPages(file.data, budget)
+        case 'txt': return extractTextPages(file.data)
+    }
+}
+
+/**
+ * Store and extract an uploaded solicitation package (one or more files, ZIPs expanded)
+ */
+export async function ingestRfpFiles(
+    jobId: string,
+    uploads: IngestRfpInput[],
+    options: IngestRfpOptions = {}
+): Promise<RfpDocument> {
+    const startTime = Date.now()
+    // One extraction budget for the whole request, however many archives it holds
+    const budget = createZipBudget()
+    const files = expandUploads(uploads, budget)
+
+    if (files.length === 0) {
+        throw new IngestionError('No supported RFP documents found (expected PDF, DOCX, XLSX, TXT or ZIP)')
+    }
+
+    // ========================================================================
+    // Store, extract and classify each document
+    // ========================================================================
+    const documents: ExtractedDocument[] = []
+    for (const file of files) {
+        const storageName = options.folder ? `${options.folder}/${file.fileName}` : file.fileName
+        const fileUrl = await storeRfpFile(jobId, storageName, file.data, KIND_MIME_TYPES[file.kind])
+
+        let pages: ExtractedPage[]
+        try {
+            pages = await extractPages(file, budget)
+        } catch (error) {
+            // One unreadable attachment should not sink the whole package
+            logger.warn(`[Ingestion] Failed to extract ${file.fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+                data: { jobId }
+            })
+            pages = []
+        }
+
+        const openingText = pages.slice(0, 2).map(p => p.text).join('\n')
+        documents.push({
+            ...file,
+            role: options.role || classifyDocument(file.fileName.split('/').pop() || file.fileName, file.kind, openingText),
+            pages,
+            pageCount: pages.length,
+            fileUrl,
+        })
+    }
+
+    if (!options.role) ensureBaseRfp(documents)
+    documents.sort(compareDocuments)
+
+    // ========================================================================
+    // Build the combined corpus - each document opens with a role banner
+    // ========================================================================
+    const pageTexts: SourcePageText[] = []
+    documents.forEach((doc, documentIndex) => {
+        const banner = `[DOCUMENT: ${doc.fileName} | ${ROLE_LABELS[doc.role]}]`
+        doc.pages.forEach((page, i) => {
+            pageTexts.push({
+                text: i === 0 ? `${banner}\n${page.text}` : page.text,
+                documentIndex,
+                documentPage: page.pageNumber,
+            })
+        })
+    })
+
+    const { text, pages } = buildPages(pageTexts)
+
+    const manifest: RfpSourceDocument[] = []
+    const sections: RfpDocumentSection[] = []
+    documents.forEach((doc, documentIndex) => {
+        const docPages = pages.filter(p => p.document_index === documentIndex)
+        const first = docPages[0]
+        const last = docPages[docPages.length - 1]
+
+        manifest.push({
+            file_name: doc.fileName,
+            file_url: doc.fileUrl,
+            mime_type: KIND_MIME_TYPES[doc.kind],
+            role: doc.role,
+            size_bytes: doc.data.length,
+            page_count: doc.pageCount,
+            start_page: first?.page_number ?? 0,
+            end_page: last?.page_number ?? 0,
+            archive_name: doc.archiveName,
+        })
+
+        if (!first || !last) return
+
+        // Detect per document so a section never runs on into the next file
+        const docSections = detectSections(text, pages, { start: first.start, end: last.end })
+
+        // Supporting documents without their own headings still get a traceable section
+        if (docSections.length === 0 && doc.role !== 'rfp') {
+            docSections.push({
+                key: doc.fileName.split('/').pop() || doc.fileName,
+                kind: 'attachment',
+                title: ROLE_LABELS[doc.role],
+                start_page: first.page_number,
+                end_page: last.page_number,
+                start: first.start,
+                end: last.end,
+            })
+        }
+
+        sections.push(...docSections)
+    })
+
+    const base = manifest[0]
+
+    logger.info('[Ingestion] RFP package extracted', {
+        data: {
+            jobId,
+            documents: manifest.map(d => `${d.file_name} (${d.role}, ${d.page_count}p)`),
+            pages: pages.length,
+            characters: text.length,
+            sections: sections.map(s => s.key),
+            durationMs: Date.now() - startTime,
+        }
+    })
+
+    return {
+        file_name: base.file_name,
+        file_url: base.file_url,
+        mime_type: base.mime_type,
+        page_count: pages.length,
+        text,
+        pages,
+        sections,
+        documents: manifest,
+        extracted_at: new Date().toISOString(),
+    }
+}
+
+/**
+ * Extract the plain text of a single document without storing it
+ * (supporting material such as government Q&A that is not part of the package)
+ */
+export async function extractDocumentText(input: IngestRfpInput): Promise<string> {
+    const kind = detectFileKind(input.fileName, input.mimeType)
+    if (!kind || kind === 'zip') {
+        throw new IngestionError(`Unsupported document type: ${input.fileName}`)
+    }
+
+    const pages = await extractPages({ fileName: input.fileName, kind, data: input.data }, createZipBudget())
+    return pages.map(p => p.text).join('\n\n')
+}
+
+/**
+ * Wrap pasted RFP text (jobs created without a file) in an RfpDocument
+ * so later documents such as amendments can be appended to it.
+ */
+export function rfpDocumentFromText(text: string, fileName: string = 'rfp.txt'): RfpDocument {
+    const extracted = extractTextPages(new TextEncoder().encode(text))
+    const { text: corpus, pages } = buildPages(extracted.map(p => ({
+        text: p.text,
+        documentIndex: 0,
+        documentPage: p.pageNumber,
+    })))
+
+    return {
+        file_name: fileName,
+        file_url: null,
+        mime_type: KIND_MIME_TYPES.txt,
+        page_count: pages.length,
+        text: corpus,
+        pages,
+        sections: detectSections(corpus, pages),
+        documents: [{
+            file_name: fileName,
+            file_url: null,
+            mime_type: KIND_MIME_TYPES.txt,
+            role: 'rfp',
+            size_bytes: text.length,
+            page_count: pages.length,
+            start_page: pages.length > 0 ? 1 : 0,
+            end_page: pages.length,
+        }],
+        extracted_at: new Date().toISOString(),
+    }
+}
+
+/**
+ * Append the documents of `addition` (e.g. an amendment) after those of `base`.
+ * Page numbers, character offsets and document indexes of the addition are shifted.
+ */
+export function appendRfpDocument(base: RfpDocument, addition: RfpDocument): RfpDocument {
+    const separator = base.text ? '\n\n' : ''
+    const offsetShift = base.text.length + separator.length
+    const pageShift = base.pages.length
+    const documentShift = base.documents.length
+
+    return {
+        ...base,
+        page_count: base.page_count + addition.page_count,
+        text: base.text + separator + addition.text,
+        pages: [
+            ...base.pages,
+            ...addition.pages.map(p => ({
+                ...p,
+                page_number: p.page_number + pageShift,
+                start: p.start + offsetShift,
+                end: p.end + offsetShift,
+                document_index: p.document_index + documentShift,
+            })),
+        ],
+        sections: [
+            ...base.sections,
+            ...addition.sections.map(s => ({
+                ...s,
+                start_page: s.start_page + pageShift,
+                end_page: s.end_page + pageShift,
+                start: s.start + offsetShift,
+                end: s.end + offsetShift,
+            })),
+        ],
+        documents: [
+            ...base.documents,
+            ...addition.documents.map(d => ({
+                ...d,
+                start_page: d.page_count > 0 ? d.start_page + pageShift : 0,
+                end_page: d.page_count > 0 ? d.end_page + pageShift : 0,
+            })),
+        ],
+        extracted_at: new Date().toISOString(),
+    }
+}
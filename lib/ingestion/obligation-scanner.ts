@@ -0,0 +1,176 @@
+/**
+ * Obligation Statement Scanner
+ *
+ * Deterministic sentence-level pass that finds every "shall" / "must" /
+ * "will" / "required to" statement together with the paragraph number it
+ * sits under. Agent 1 reconciles these hits against the LLM-extracted
+ * requirements so an obligation the LLM silently dropped is still tracked.
+ */
+
+export type ObligationKeyword = 'shall' | 'must' | 'will' | 'required'
+
+export interface ObligationStatement {
+    text: string // Whitespace-normalized sentence
+    paragraph?: string // Nearest paragraph number above the sentence ("C.3.2.1", "4.1(b)")
+    keyword: ObligationKeyword
+    mandatory: boolean
+    start: number // Character span within the scanned text
+    end: number
+}
+
+// "C.3.2.1 Network Operations", "3.2 The Contractor shall", "L.4. Volume I"
+const PARAGRAPH_NUMBER = /^\s*((?:[A-M]\.)?\d{1,3}(?:\.\d{1,3})*)\.?\s+(?=[A-Z(“"])/
+
+// "(a) The Contractor shall", "(iv) ...", "(2) ..."
+const SUBPARAGRAPH = /^\s*\(([a-z]{1,2}|[ivx]{1,5}|\d{1,2})\)\s+/
+
+const OBLIGATION = /\b(shall|must|will|(?:is|are|be)\s+required\s+to)\b/i
+
+// Government-side statements are not offeror/contractor obligations
+const GOVERNMENT_SUBJECT = /^(?:the\s+)?(?:government|contracting officer|co|cor|contracting officer'?s representative|agency|source selection authority|evaluators?)\b/i
+const EVALUATION_STATEMENT = /\bwill\s+be\s+(?:evaluated|considered|rated|assessed|scored)\b/i
+
+// Abbreviations whose period does not end a sentence
+const ABBREVIATION = /(?:\b[A-Z]|\be\.g|\bi\.e|\bU\.S|\bNo|\bNos|\bInc|\bCo|\bCorp|\betc|\bvs|\bapprox|\bSec|\bPara)$/
+
+// Table of contents lines ("C.3 Requirements ..... 12")
+const TOC_LINE = /(\.{3,}|\s{3,})\s*\d+\s*$/
+
+const MIN_SENTENCE_LENGTH = 20
+const MAX_SENTENCE_LENGTH = 1500
+const MAX_HEADING_LENGTH = 100
+
+interface Block {
+    start: number
+    end: number
+    paragraph?: string
+}
+
+function normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Split the text into paragraph blocks at blank lines and numbered headings,
+ * remembering the paragraph number each block falls under
+ */
+function splitBlocks(text: string): Block[] {
+    const blocks: Block[] = []
+    let paragraph: string | undefined
+    let baseParagraph: string | undefined
+    let current: Block | null = null
+    let offset = 0
+
+    const close = (end: number) => {
+        if (current && end > current.start) {
+            current.end = end
+            blocks.push(current)
+        }
+        current = null
+    }
+
+    for (const line of text.split('\n')) {
+        const lineStart = offset
+        offset += line.length + 1
+
+        if (!line.trim() || TOC_LINE.test(line.trim())) {
+            close(lineStart)
+            continue
+        }
+
+        const numbered = line.match(PARAGRAPH_NUMBER)
+        const sub = !numbered ? line.match(SUBPARAGRAPH) : null
+
+        if (numbered) {
+            baseParagraph = numbered[1]
+            paragraph = baseParagraph
+            close(lineStart)
+
+            // A bare heading ("C.3.1 Network Operations") is not part of the paragraph text
+            const title = line.substring(numbered[0].length).trim()
+            if (title.length < MAX_HEADING_LENGTH && !/[.:;]$/.test(title) && !OBLIGATION.test(title)) continue
+        } else if (sub) {
+            paragraph = baseParagraph ? `${baseParagraph}(${sub[1]})` : `(${sub[1]})`
+            close(lineStart)
+        }
+
+        if (!current) current = { start: lineStart, end: lineStart, paragraph }
+    }
+    close(text.length)
+
+    return blocks
+}
+
+/**
+ * Split a block into sentences with their character spans
+ */
+function splitSentences(text: string, block: Block): Array<{ start: number; end: number }> {
+    const raw = text.substring(block.start, block.end)
+    const spans: Array<{ start: number; end: number }> = []
+    const boundary = /[.!?;](?=\s+[A-Z(“"])/g
+    let from = 0
+    let match: RegExpExecArray | null
+
+    while ((match = boundary.exec(raw)) !== null) {
+        if (match[0] === '.' && ABBREVIATION.test(raw.substring(from, match.index))) continue
+        spans.push({ start: block.start + from, end: block.start + match.index + 1 })
+        from = match.index + 1
+    }
+    spans.push({ start: block.start + from, end: block.end })
+
+    // Trim leading/trailing whitespace from each span
+    return spans
+        .map(span => {
+            const slice = text.substring(span.start, span.end)
+            const lead = slice.length - slice.trimStart().length
+            const trail = slice.length - slice.trimEnd().length
+            return { start: span.start + lead, end: span.end - trail }
+        })
+        .filter(span => span.end > span.start)
+}
+
+function keywordOf(match: string): ObligationKeyword {
+    const lower = match.toLowerCase()
+    if (lower === 'shall' || lower === 'must' || lower === 'will') return lower
+    return 'required'
+}
+
+/**
+ * Find every obligation statement in the text
+ * Repeats of the same sentence (running headers, duplicated clauses) are reported once.
+ */
+export function scanObligations(text: string): ObligationStatement[] {
+    const statements: ObligationStatement[] = []
+    const seen = new Set<string>()
+
+    for (const block of splitBlocks(text)) {
+        for (const span of splitSentences(text, block)) {
+            const sentence = normalize(text.substring(span.start, span.end))
+                .replace(PARAGRAPH_NUMBER, '')
+                .replace(SUBPARAGRAPH, '')
+
+            if (sentence.length < MIN_SENTENCE_LENGTH || sentence.length > MAX_SENTENCE_LENGTH) continue
+
+            const obligation = sentence.match(OBLIGATION)
+            if (!obligation) continue
+            if (GOVERNMENT_SUBJECT.test(sentence) || EVALUATION_STATEMENT.test(sentence)) continue
+
+            const key = sentence.toLowerCase()
+            if (seen.has(key)) continue
+            seen.add(key)
+
+            const keyword = keywordOf(obligation[1])
+            statements.push({
+                text: sentence,
+                paragraph: block.paragraph,
+                keyword,
+                // "will" is a statement of intent unless the RFP says otherwise - the LLM decides those
+                mandatory: keyword !== 'will',
+                start: span.start,
+                end: span.end,
+            })
+        }
+    }
+
+    return statements
+}
@@ -0,0 +1,222 @@
+/**
+ * Office Document Text Extraction (DOCX / XLSX / TXT)
+ *
+ * Produces the same page-per-entry shape as the PDF extractor so every
+ * document in a solicitation package can be joined into one corpus.
+ * Word files have no fixed pagination: explicit and last-rendered page
+ * breaks are used when present, otherwise text is split into ~3000 character
+ * pages (the same estimate used for page limits everywhere else).
+ */
+
+import { ExtractedPage } from './pdf-extractor'
+import { readZip, readZipText, ZipBudget } from './zip-reader'
+
+const CHARS_PER_PAGE = 3000
+
+export function decodeXmlEntities(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&amp;/g, '&')
+}
+
+/**
+ * Split unpaginated text into estimated pages on paragraph boundaries
+ */
+function paginate(text: string): string[] {
+    const pages: string[] = []
+    let current = ''
+
+    for (const paragraph of text.split('\n')) {
+        if (current.length + paragraph.length > CHARS_PER_PAGE && current.trim()) {
+            pages.push(current.trim())
+            current = ''
+        }
+        current += paragraph + '\n'
+    }
+
+    if (current.trim()) pages.push(current.trim())
+    return pages
+}
+
+function toExtractedPages(pageTexts: string[]): ExtractedPage[] {
+    return pageTexts.map((text, index) => ({ pageNumber: index + 1, text }))
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+const PAGE_BREAK_MARKER = '\f'
+
+/**
+ * Convert WordprocessingML body XML to plain text.
+ * Paragraphs become lines, table cells are separated by " | ".
+ */
+function wordXmlToText(xml: string): string {
+    const body = xml.match(/<w:body[^>]*>([\s\S]*)<\/w:body>/)?.[1] ?? xml
+
+    const text = body
+        .replace(/<w:instrText\b[^>]*>[\s\S]*?<\/w:instrText>/g, '') // field codes (TOC, PAGE, ...)
+        .replace(/<w:br\b[^>]*w:type="page"[^>]*\/>/g, PAGE_BREAK_MARKER)
+        .replace(/<w:lastRenderedPageBreak\/>/g, PAGE_BREAK_MARKER)
+        .replace(/<w:tab\/>/g, '\t')
+        .replace(/<w:br\b[^>]*\/>/g, '\n')
+        .replace(/<\/w:p>\s*<\/w:tc>/g, ' | ')
+        .replace(/<\/w:tc>/g, ' | ')
+        .replace(/<\/w:tr>/g, '\n')
+        .replace(/<\/w:p>/g, '\n')
+        .replace(/<[^>]+>/g, '')
+
+    return decodeXmlEntities(text)
+        .split('\n')
+        // Only collapse spaces/tabs - trim() would also eat the page break markers
+        .map(line => line.replace(/[ \t]+/g, ' ').replace(/( ?\| ?)+$/, '').replace(/^ | $/g, ''))
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+}
+
+/**
+ * Extract text from a .docx file
+ * @param budget - Extraction budget of the upload the file came with
+ */
+export function extractDocxPages(data: Uint8Array, budget?: ZipBudget): ExtractedPage[] {
+    const entries = readZip(data, budget)
+    const documentXml = readZipText(entries, 'word/document.xml')
+
+    if (!documentXml) {
+        throw new Error('Invalid DOCX file (word/document.xml missing)')
+    }
+
+    const text = wordXmlToText(documentXml)
+    const breakPages = text.split(PAGE_BREAK_MARKER).map(p => p.trim()).filter(Boolean)
+
+    // Fall back to estimated pages when Word left no break information
+    const pageTexts = breakPages.length > 1
+        ? breakPages.flatMap(p => (p.length > CHARS_PER_PAGE * 2 ? paginate(p) : [p]))
+        : paginate(text.replace(new RegExp(PAGE_BREAK_MARKER, 'g'), ''))
+
+    return toExtractedPages(pageTexts)
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/**
+ * Convert a column reference ("AB12") to a zero-based column index
+ */
+export function columnIndex(cellRef: string): number {
+    const letters = cellRef.replace(/\d+/g, '')
+    let index = 0
+    for (const letter of letters) {
+        index = index * 26 + (letter.charCodeAt(0) - 64)
+    }
+    return index - 1
+}
+
+export function readSharedStrings(xml: string | null): string[] {
+    if (!xml) return []
+    const strings: string[] = []
+    for (const match of xml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+        const parts = [...match[1].matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map(m => m[1])
+        strings.push(decodeXmlEntities(parts.join('')))
+    }
+    return strings
+}
+
+/**
+ * Render one worksheet as tab-separated rows
+ */
+function sheetXmlToText(xml: string, sharedStrings: string[]): string {
+    const rows: string[] = []
+
+    for (const rowMatch of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+        const cells: string[] = []
+
+        for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attributes = cellMatch[1]
+            const content = cellMatch[2] || ''
+            const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1]
+            const type = attributes.match(/\bt="(\w+)"/)?.[1]
+
+            let value = ''
+            if (type === 's') {
+                const index = parseInt(content.match(/<v>([^<]*)<\/v>/)?.[1] || '', 10)
+                value = sharedStrings[index] ?? ''
+            } else if (type === 'inlineStr') {
+                value = decodeXmlEntities([...content.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map(m => m[1]).join(''))
+            } else {
+                value = decodeXmlEntities(content.match(/<v>([^<]*)<\/v>/)?.[1] || '')
+            }
+
+            const column = ref ? columnIndex(ref) : cells.length
+            while (cells.length < column) cells.push('')
+            cells[column] = value.trim()
+        }
+
+        const line = cells.join('\t').trimEnd()
+        if (line) rows.push(line)
+    }
+
+    return rows.join('\n')
+}
+
+/**
+ * Extract text from a .xlsx file - one page per worksheet, headed by the sheet name
+ * @param budget - Extraction budget of the upload the file came with
+ */
+export function extractXlsxPages(data: Uint8Array, budget?: ZipBudget): ExtractedPage[] {
+    const entries = readZip(data, budget)
+    const workbookXml = readZipText(entries, 'xl/workbook.xml')
+    const relsXml = readZipText(entries, 'xl/_rels/workbook.xml.rels') || ''
+
+    if (!workbookXml) {
+        throw new Error('Invalid XLSX file (xl/workbook.xml missing)')
+    }
+
+    const sharedStrings = readSharedStrings(readZipText(entries, 'xl/sharedStrings.xml'))
+
+    const targets = new Map<string, string>()
+    for (const match of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+        const id = match[0].match(/\bId="([^"]+)"/)?.[1]
+        const target = match[0].match(/\bTarget="([^"]+)"/)?.[1]
+        if (id && target) {
+            targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+        }
+    }
+
+    const pageTexts: string[] = []
+    for (const match of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+        const name = decodeXmlEntities(match[0].match(/\bname="([^"]+)"/)?.[1] || 'Sheet')
+        const relId = match[0].match(/\br:id="([^"]+)"/)?.[1]
+        const path = relId ? targets.get(relId) : undefined
+        const sheetXml = path ? readZipText(entries, path) : null
+        if (!sheetXml) continue
+
+        const text = sheetXmlToText(sheetXml, sharedStrings)
+        if (text) pageTexts.push(`Worksheet: ${name}\n${text}`)
+    }
+
+    return toExtractedPages(pageTexts)
+}
+
+// ============================================================================
+// TXT
+// ============================================================================
+
+/**
+ * Extract text from a plain text file - form feeds mark pages when present
+ */
+export function extractTextPages(data: Uint8Array): ExtractedPage[] {
+    const text = new TextDecoder().decode(data).replace(/\r\n?/g, '\n')
+    const pageTexts = text.includes('\f')
+        ? text.split('\f').map(p => p.trim()).filter(Boolean)
+        : paginate(text)
+
+    return toExtractedPages(pageTexts)
+}
@@ -0,0 +1,95 @@
+/**
+ * Server-side PDF Text Extraction
+ *
+ * Extracts text page-by-page with pdfjs, rebuilding line breaks from the
+ * text item positions so headings ("SECTION L - INSTRUCTIONS...") stay on
+ * their own line and can be detected afterwards.
+ *
+ * NOTE: Dynamic import required - the legacy build is the one that runs in Node
+ */
+
+export interface ExtractedPage {
+    pageNumber: number
+    text: string
+}
+
+interface PositionedTextItem {
+    str: string
+    hasEOL?: boolean
+    transform?: number[]
+}
+
+/**
+ * Rebuild the lines of a page from pdfjs text items.
+ * A new line starts on an explicit EOL or when the baseline (transform[5]) moves.
+ */
+function itemsToText(items: PositionedTextItem[]): string {
+    const lines: string[] = []
+    let currentLine = ''
+    let lastY: number | null = null
+
+    for (const item of items) {
+        const y = item.transform?.[5] ?? null
+
+        if (lastY !== null && y !== null && Math.abs(y - lastY) > 2 && currentLine.trim()) {
+            lines.push(currentLine.trim())
+            currentLine = ''
+        }
+
+        currentLine += (currentLine && !currentLine.endsWith(' ') && item.str && !item.str.startsWith(' ') ? ' ' : '') + item.str
+        if (y !== null) lastY = y
+
+        if (item.hasEOL) {
+            lines.push(currentLine.trim())
+            currentLine = ''
+        }
+    }
+
+    if (currentLine.trim()) {
+        lines.push(currentLine.trim())
+    }
+
+    return lines
+        .join('\n')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+}
+
+/**
+ * Extract text from every page of a PDF
+ * @param data - Raw PDF bytes
+ * @returns One entry per page, in page order
+ */
+export async function extractPdfPages(data: Uint8Array): Promise<ExtractedPage[]> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+
+    const pdf = await pdfjs.getDocument({
+        data,
+        useSystemFonts: true,
+        isEvalSupported: false,
+    }).promise
+
+    const pages: ExtractedPage[] = []
+
+    try {
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i)
+            const content = await page.getTextContent()
+            const items = content.items.filter(
+                (item): item is PositionedTextItem & typeof item => 'str' in item
+            )
+
+            pages.push({
+                pageNumber: i,
+                text: itemsToText(items),
+            })
+
+            page.cleanup()
+        }
+    } finally {
+        await pdf.destroy()
+    }
+
+    return pages
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { buildPages, detectSections } from './section-detector'
+
+const filler = (sentence: string) => Array(8).fill(sentence).join(' ')
+
+function sectionsOf(lines: string[]) {
+    const { text, pages } = buildPages([{ text: lines.join('\n'), documentIndex: 0, documentPage: 1 }])
+    return { text, sections: detectSections(text, pages) }
+}
+
+describe('detectSections', () => {
+    it('skips table of contents entries and keeps the section body', () => {
+        const { text, sections } = sectionsOf([
+            'TABLE OF CONTENTS',
+            'SECTION C - STATEMENT OF WORK',
+            'SECTION L - INSTRUCTIONS TO OFFERORS',
+            'SECTION C - STATEMENT OF WORK',
+            filler('The contractor shall provide help desk support to all agency users.'),
+            'SECTION L - INSTRUCTIONS TO OFFERORS',
+            filler('Offerors shall submit three volumes in searchable PDF format.'),
+        ])
+
+        expect(sections.map(s => s.key)).toEqual(['C', 'L'])
+        expect(text.substring(sections[0].start, sections[0].end)).toContain('help desk support')
+        expect(text.substring(sections[1].start, sections[1].end)).toContain('three volumes')
+    })
+
+    it('keeps the first heading when the section is repeated later in the text', () => {
+        const { text, sections } = sectionsOf([
+            'SECTION C - STATEMENT OF WORK',
+            filler('The contractor shall maintain the network operations center.'),
+            'SECTION M - EVALUATION FACTORS FOR AWARD',
+            filler('Technical approach is more important than price.'),
+            'SECTION C - STATEMENT OF WORK',
+            filler('Reprinted excerpt of the statement of work.'),
+        ])
+
+        const sectionC = sections.find(s => s.key === 'C')
+        expect(sectionC?.start).toBe(0)
+        expect(text.substring(sectionC!.start, sectionC!.end)).toContain('network operations center')
+    })
+
+    it('ignores sentences that mention a section', () => {
+        const { sections } = sectionsOf([
+            'SECTION L - INSTRUCTIONS TO OFFERORS',
+            filler('Offerors shall follow the page limits stated below.'),
+            'Section M of this solicitation describes how proposals will be evaluated.',
+            filler('Each volume must be separately bound.'),
+        ])
+
+        expect(sections.map(s => s.key)).toEqual(['L'])
+    })
+
+    it('finds title-case attachment headings', () => {
+        const { sections } = sectionsOf([
+            'Attachment J-1 Performance Work Statement',
+            filler('The contractor shall staff the service desk from 0700 to 1900.'),
+        ])
+
+        expect(sections).toMatchObject([{ key: 'J-1', kind: 'attachment', title: 'Performance Work Statement' }])
+    })
+})
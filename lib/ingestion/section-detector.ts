@@ -0,0 +1,179 @@
+/**
+ * Solicitation Section Detection
+ *
+ * Finds Uniform Contract Format headings (Section A-M) and attachment
+ * headings in the extracted text so each section can be traced back to the
+ * pages it spans.
+ */
+
+import { RfpDocumentSection, RfpPage } from '../database.types'
+
+// "SECTION C - DESCRIPTION/SPECIFICATIONS/STATEMENT OF WORK", "Section L: Instructions..."
+const SECTION_HEADING = /^SECTION\s+([A-M])\b\s*[-–—:.]?\s*(.*)$/i
+
+// "ATTACHMENT J-1 PERFORMANCE WORK STATEMENT", "Attachment 3 - Pricing Template"
+const ATTACHMENT_HEADING = /^(?:ATTACHMENT|EXHIBIT)\s+([A-Z]?-?\d+[A-Z]?|[A-Z])\b\s*[-–—:.]?\s*(.*)$/i
+
+// Table of contents lines end in page numbers ("SECTION L ..... 45") and must be skipped
+const TOC_LINE = /(\.{3,}|\s{3,})\s*\d+\s*$/
+
+// A heading followed by less text than this before the next heading is a table of contents entry
+const MIN_SECTION_CHARS = 200
+
+interface HeadingMatch {
+    key: string
+    kind: RfpDocumentSection['kind']
+    title: string
+    offset: number
+    page: number
+}
+
+export interface SourcePageText {
+    text: string
+    documentIndex: number
+    documentPage: number
+}
+
+/**
+ * Join extracted pages (of one or more documents) into a single text with stable page offsets
+ */
+export function buildPages(pageTexts: SourcePageText[]): { text: string; pages: RfpPage[] } {
+    const pages: RfpPage[] = []
+    let text = ''
+
+    pageTexts.forEach((pageText, index) => {
+        if (index > 0) text += '\n\n'
+        const start = text.length
+        text += pageText.text
+        pages.push({
+            page_number: index + 1,
+            text: pageText.text,
+            start,
+            end: text.length,
+            document_index: pageText.documentIndex,
+            document_page: pageText.documentPage,
+        })
+    })
+
+    return { text, pages }
+}
+
+/**
+ * Find the page a character offset falls on
+ */
+export function pageForOffset(pages: RfpPage[], offset: number): number {
+    for (const page of pages) {
+        // Offsets in the blank separator belong to the following page
+        if (offset < page.end) return page.page_number
+    }
+    return pages.length > 0 ? pages[pages.length - 1].page_number : 1
+}
+
+/**
+ * A heading line rather than a sentence that mentions a section ("Section L of
+ * this solicitation requires ..."): upper case, no title, or a title that is set
+ * off by a separator or in title case and does not end like a sentence
+ */
+function isHeadingShaped(line: string, title: string): boolean {
+    const trimmedTitle = title.trim()
+    if (!trimmedTitle || line === line.toUpperCase()) return true
+    if (/[.,;]$/.test(trimmedTitle)) return false
+
+    const separated = /[-–—:.]\s*$/.test(line.substring(0, line.length - title.length))
+    const titleCase = trimmedTitle.split(/\s+/).filter(w => w.length > 3).every(w => /^[^a-z]/.test(w))
+    return separated || titleCase
+}
+
+/**
+ * Detect section and attachment headings
+ *
+ * The same section heading usually appears several times (table of contents,
+ * running headers, cross-references, the section itself). Only heading-shaped
+ * lines count, and of those we keep the first that opens real content.
+ *
+ * @param range - Limit detection to one source document of a combined package
+ */
+export function detectSections(
+    text: string,
+    pages: RfpPage[],
+    range: { start: number; end: number } = { start: 0, end: text.length }
+): RfpDocumentSection[] {
+    const headings: HeadingMatch[] = []
+    let offset = range.start
+
+    for (const line of text.substring(range.start, range.end).split('\n')) {
+        const trimmed = line.trim()
+        const lineOffset = offset
+        offset += line.length + 1
+
+        if (!trimmed || trimmed.length > 160 || TOC_LINE.test(trimmed)) continue
+
+        const sectionMatch = trimmed.match(SECTION_HEADING)
+        if (sectionMatch && isHeadingShaped(trimmed, sectionMatch[2])) {
+            headings.push({
+                key: sectionMatch[1].toUpperCase(),
+                kind: 'section',
+                title: sectionMatch[2].trim() || `Section ${sectionMatch[1].toUpperCase()}`,
+                offset: lineOffset,
+                page: pageForOffset(pages, lineOffset),
+            })
+            continue
+        }
+
+        const attachmentMatch = trimmed.match(ATTACHMENT_HEADING)
+        if (attachmentMatch && isHeadingShaped(trimmed, attachmentMatch[2])) {
+            headings.push({
+                key: attachmentMatch[1].toUpperCase(),
+                kind: 'attachment',
+                title: attachmentMatch[2].trim() || `Attachment ${attachmentMatch[1].toUpperCase()}`,
+                offset: lineOffset,
+                page: pageForOffset(pages, lineOffset),
+            })
+        }
+    }
+
+    // Running headers repeat the key we are already inside, so they collapse away
+    const runs = headings.filter((heading, i) =>
+        i === 0 || headings[i - 1].key !== heading.key || headings[i - 1].kind !== heading.kind
+    )
+
+    // Keep the FIRST occurrence of each key that opens real content. A table of
+    // contents entry runs straight into the next heading, so it is passed over
+    // while the key occurs again later; the last occurrence is kept otherwise.
+    const deduped: HeadingMatch[] = []
+    runs.forEach((heading, i) => {
+        if (deduped.some(h => h.key === heading.key && h.kind === heading.kind)) return
+
+        const next = runs[i + 1]
+        const opensContent = !next || next.offset - heading.offset >= MIN_SECTION_CHARS
+        const occursLater = runs.slice(i + 1).some(h => h.key === heading.key && h.kind === heading.kind)
+        if (!opensContent && occursLater) return
+
+        deduped.push(heading)
+    })
+
+    deduped.sort((a, b) => a.offset - b.offset)
+
+    return deduped.map((heading, index) => {
+        const end = index + 1 < deduped.length ? deduped[index + 1].offset : range.end
+        return {
+            key: heading.key,
+            kind: heading.kind,
+            title: heading.title,
+            start_page: heading.page,
+            end_page: pageForOffset(pages, Math.max(heading.offset, end - 1)),
+            start: heading.offset,
+            end,
+        }
+    })
+}
+
+/**
+ * Find the section containing a character offset
+ */
+export function sectionForOffset(
+    sections: RfpDocumentSection[],
+    offset: number
+): RfpDocumentSection | undefined {
+    return sections.find(s => offset >= s.start && offset < s.end)
+}
@@ -0,0 +1,89 @@
+/**
+ * RFP Source File Storage
+ *
+ * Keeps the original solicitation files in Supabase Storage so reviewers
+ * can open the exact page a requirement was extracted from.
+ */
+
+import { supabase } from '../supabase'
+import { logger } from '../logger'
+
+export const RFP_DOCUMENTS_BUCKET = 'rfp-documents'
+
+/**
+ * Upload an original solicitation file
+ * @param fileName - May contain folders for files extracted from a ZIP bundle
+ * @returns Storage path of the uploaded file
+ */
+export async function storeRfpFile(
+    jobId: string,
+    fileName: string,
+    data: Uint8Array,
+    mimeType: string
+): Promise<string> {
+    const safeName = fileName
+        .split('/')
+        .filter(segment => segment && segment !== '..')
+        .map(segment => segment.replace(/[^a-zA-Z0-9._-]/g, '_'))
+        .join('/')
+    const path = `${jobId}/source/${safeName}`
+
+    const { error } = await supabase.storage
+        .from(RFP_DOCUMENTS_BUCKET)
+        .upload(path, data, { contentType: mimeType, upsert: true })
+
+    if (error) {
+        throw new Error(`Failed to store RFP file: ${error.message}`)
+    }
+
+    logger.info('[Ingestion] Stored original RFP file', {
+        data: { jobId, path, sizeKB: Math.round(data.length / 1024) }
+    })
+
+    return path
+}
+
+/**
+ * Create a short-lived URL for an original solicitation file
+ */
+export async function getRfpFileSignedUrl(path: string, expiresInSeconds: number = 3600): Promise<string> {
+    const { data, error } = await supabase.storage
+        .from(RFP_DOCUMENTS_BUCKET)
+        .createSignedUrl(path, expiresInSeconds)
+
+    if (error || !data) {
+        throw new Error(`Failed to sign RFP file URL: ${error?.message || 'no URL returned'}`)
+    }
+
+    return data.signedUrl
+}
+
+/**
+ * Download an original solicitation file (e.g. the pricing template to fill in)
+ */
+export async function readRfpFile(path: string): Promise<Uint8Array> {
+    const { data, error } = await supabase.storage
+        .from(RFP_DOCUMENTS_BUCKET)
+        .download(path)
+
+    if (error || !data) {
+        throw new Error(`Failed to read RFP file ${path}: ${error?.message || 'no data returned'}`)
+    }
+
+    return new Uint8Array(await data.arrayBuffer())
+}
+
+/**
+ * Delete stored solicitation files (an upload that was not attached to the job)
+ */
+export async function removeRfpFiles(paths: string[]): Promise<void> {
+    if (paths.length === 0) return
+
+    const { error } = await supabase.storage
+        .from(RFP_DOCUMENTS_BUCKET)
+        .remove(paths)
+
+    if (error) {
+        throw new Error(`Failed to remove RFP files: ${error.message}`)
+    }
+}
@@ -0,0 +1,104 @@
+import { deflateRawSync } from 'zlib'
+import { describe, expect, it } from 'vitest'
+import { createZipBudget, isZip, readZip, readZipText } from './zip-reader'
+
+interface TestEntry {
+    name: string
+    content: string | Uint8Array
+    deflate?: boolean
+}
+
+/**
+ * Build a ZIP archive (local headers, central directory, end record)
+ */
+function buildZip(entries: TestEntry[]): Uint8Array {
+    const locals: Buffer[] = []
+    const central: Buffer[] = []
+    let offset = 0
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name)
+        const content = Buffer.from(entry.content)
+        const data = entry.deflate ? deflateRawSync(content) : content
+
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(0x04034b50, 0)
+        local.writeUInt16LE(entry.deflate ? 8 : 0, 8)
+        local.writeUInt32LE(data.length, 18)
+        local.writeUInt32LE(content.length, 22)
+        local.writeUInt16LE(name.length, 26)
+        locals.push(local, name, data)
+
+        const header = Buffer.alloc(46)
+        header.writeUInt32LE(0x02014b50, 0)
+        header.writeUInt16LE(entry.deflate ? 8 : 0, 10)
+        header.writeUInt32LE(data.length, 20)
+        header.writeUInt32LE(content.length, 24)
+        header.writeUInt16LE(name.length, 28)
+        header.writeUInt32LE(offset, 42)
+        central.push(header, name)
+
+        offset += local.length + name.length + data.length
+    }
+
+    const centralSize = central.reduce((sum, b) => sum + b.length, 0)
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0)
+    end.writeUInt16LE(entries.length, 8)
+    end.writeUInt16LE(entries.length, 10)
+    end.writeUInt32LE(centralSize, 12)
+    end.writeUInt32LE(offset, 16)
+
+    return new Uint8Array(Buffer.concat([...locals, ...central, end]))
+}
+
+describe('readZip', () => {
+    it('reads stored and deflated entries and skips directories', () => {
+        const zip = buildZip([
+            { name: 'Attachments/', content: '' },
+            { name: 'Attachments/PWS.txt', content: 'Performance Work Statement', deflate: true },
+            { name: 'RFP.txt', content: 'Request for Proposal' },
+        ])
+
+        const entries = readZip(zip)
+
+        expect(isZip(zip)).toBe(true)
+        expect(entries.map(e => e.name)).toEqual(['Attachments/PWS.txt', 'RFP.txt'])
+        expect(readZipText(entries, 'Attachments/PWS.txt')).toBe('Performance Work Statement')
+    })
+
+    it('rejects headers that point outside the archive', () => {
+        const zip = buildZip([{ name: 'RFP.txt', content: 'Request for Proposal' }])
+        const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+        const centralDirectory = view.getUint32(zip.length - 22 + 16, true)
+        view.setUint32(centralDirectory + 42, zip.length + 100, true) // Local header offset
+
+        expect(() => readZip(zip)).toThrow(/Corrupt ZIP archive/)
+    })
+
+    it('stops a deflated entry that expands beyond the budget even when its declared size is small', () => {
+        const zip = buildZip([{ name: 'bomb.txt', content: 'A'.repeat(64 * 1024), deflate: true }])
+        const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+        const centralDirectory = view.getUint32(zip.length - 22 + 16, true)
+        view.setUint32(centralDirectory + 24, 10, true) // Declared uncompressed size
+
+        expect(() => readZip(zip, { bytes: 1024, entries: 10 })).toThrow(/cannot inflate/)
+    })
+
+    it('spends one byte budget across archives', () => {
+        const budget = { bytes: 3000, entries: 100 }
+        const archive = () => buildZip([{ name: 'Section-C.txt', content: 'x'.repeat(2000), deflate: true }])
+
+        expect(readZip(archive(), budget)).toHaveLength(1)
+        expect(budget.bytes).toBe(1000)
+        expect(() => readZip(archive(), budget)).toThrow(/expand beyond/)
+    })
+
+    it('spends one entry budget across archives', () => {
+        const budget = { bytes: createZipBudget().bytes, entries: 5 }
+        const archive = () => buildZip([1, 2, 3].map(n => ({ name: `Attachment-${n}.txt`, content: `Attachment ${n}` })))
+
+        expect(readZip(archive(), budget)).toHaveLength(3)
+        expect(() => readZip(archive(), budget)).toThrow(/more than 5000 entries/)
+    })
+})
@@ -0,0 +1,156 @@
+/**
+ * Minimal ZIP Reader
+ *
+ * Reads entries from ZIP archives (solicitation bundles) and from the ZIP
+ * containers behind DOCX/XLSX files. Only STORED and DEFLATE entries are
+ * supported, which covers everything Word, Excel and the usual archivers write.
+ * Uploads are untrusted, so every header offset is bounds-checked and the
+ * extracted size and entry count are capped (zip bombs).
+ */
+
+import { inflateRawSync } from 'zlib'
+
+export interface ZipEntry {
+    name: string
+    data: Uint8Array
+}
+
+/**
+ * What is left to extract. One budget is shared by every archive read for an
+ * upload - nested bundles and the DOCX/XLSX containers inside them included -
+ * so splitting a bomb over many archives does not get around the limits.
+ */
+export interface ZipBudget {
+    bytes: number
+    entries: number
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+// Limits across all archives read against one budget
+const MAX_ZIP_ENTRIES = 5000
+const MAX_EXTRACTED_BYTES = 512 * 1024 * 1024
+const MAX_EXTRACTED_MB = MAX_EXTRACTED_BYTES / 1024 / 1024
+
+/**
+ * Budget for one upload (or for a single archive read on its own)
+ */
+export function createZipBudget(): ZipBudget {
+    return { bytes: MAX_EXTRACTED_BYTES, entries: MAX_ZIP_ENTRIES }
+}
+
+/**
+ * Locate the end-of-central-directory record (it may be followed by a comment)
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+    const minOffset = Math.max(0, view.byteLength - 22 - 0xffff)
+    for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+            return offset
+        }
+    }
+    throw new Error('Not a ZIP archive (end of central directory not found)')
+}
+
+/**
+ * Check the ZIP magic bytes
+ */
+export function isZip(data: Uint8Array): boolean {
+    return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04
+}
+
+/**
+ * Read all file entries of a ZIP archive
+ * Sizes come from the central directory, so entries written with data descriptors work too.
+ * @param budget - Spent by this archive's entries and extracted bytes
+ */
+export function readZip(data: Uint8Array, budget: ZipBudget = createZipBudget()): ZipEntry[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    const eocd = findEndOfCentralDirectory(view)
+
+    const entryCount = view.getUint16(eocd + 10, true)
+    let offset = view.getUint32(eocd + 16, true)
+
+    if (offset === 0xffffffff || entryCount === 0xffff) {
+        throw new Error('ZIP64 archives are not supported')
+    }
+    if (entryCount > budget.entries) {
+        throw new Error(`ZIP archives hold more than ${MAX_ZIP_ENTRIES} entries`)
+    }
+    budget.entries -= entryCount
+
+    const decoder = new TextDecoder()
+    const entries: ZipEntry[] = []
+
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error('Corrupt ZIP archive (bad central directory header)')
+        }
+
+        const method = view.getUint16(offset + 10, true)
+        const compressedSize = view.getUint32(offset + 20, true)
+        const uncompressedSize = view.getUint32(offset + 24, true)
+        const nameLength = view.getUint16(offset + 28, true)
+        const extraLength = view.getUint16(offset + 30, true)
+        const commentLength = view.getUint16(offset + 32, true)
+        const localHeaderOffset = view.getUint32(offset + 42, true)
+
+        if (offset + 46 + nameLength > data.length) {
+            throw new Error('Corrupt ZIP archive (entry name out of bounds)')
+        }
+        const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength))
+
+        offset += 46 + nameLength + extraLength + commentLength
+
+        // Directories have no content
+        if (name.endsWith('/')) continue
+
+        if (localHeaderOffset + 30 > data.length || view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+            throw new Error(`Corrupt ZIP archive (bad local header for ${name})`)
+        }
+
+        const localNameLength = view.getUint16(localHeaderOffset + 26, true)
+        const localExtraLength = view.getUint16(localHeaderOffset + 28, true)
+        const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength
+        if (dataStart + compressedSize > data.length) {
+            throw new Error(`Corrupt ZIP archive (data for ${name} out of bounds)`)
+        }
+        const raw = data.subarray(dataStart, dataStart + compressedSize)
+
+        // The declared size can lie, so inflate is capped at the remaining budget as well
+        if (uncompressedSize > budget.bytes) {
+            throw new Error(`ZIP archives expand beyond ${MAX_EXTRACTED_MB} MB`)
+        }
+
+        let content: Uint8Array
+        if (method === 0) {
+            content = new Uint8Array(raw)
+        } else if (method === 8) {
+            try {
+                content = new Uint8Array(inflateRawSync(raw, { maxOutputLength: Math.max(budget.bytes, 1) }))
+            } catch {
+                throw new Error(`Corrupt ZIP archive (cannot inflate ${name} within the ${MAX_EXTRACTED_MB} MB limit)`)
+            }
+        } else {
+            throw new Error(`Unsupported ZIP compression method ${method} for ${name}`)
+        }
+
+        if (content.length > budget.bytes) {
+            throw new Error(`ZIP archives expand beyond ${MAX_EXTRACTED_MB} MB`)
+        }
+        budget.bytes -= content.length
+        entries.push({ name, data: content })
+    }
+
+    return entries
+}
+
+/**
+ * Read a single text entry (e.g. "word/document.xml") from a ZIP container
+ */
+export function readZipText(entries: ZipEntry[], name: string): string | null {
+    const entry = entries.find(e => e.name === name)
+    return entry ? new TextDecoder().decode(entry.data) : null
+}
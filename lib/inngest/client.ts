@@ -34,7 +34,7 @@ export interface VolumeDecisionEvent {
     name: 'proposal/volume.decision'
     data: {
         jobId: string
-        volume: number // 1-4
+        volume: number
         decision: 'approved' | 'iterate'
         finalScore?: number // Present when approved
         userFeedback?: string // Present when iterate
@@ -70,6 +70,7 @@ export interface PreparationCompleteEvent {
         companyId: string
         rfpText: string
         volumePageLimits: unknown
+        volumeStructure: unknown
         rfpParsedData: unknown
         validationReport: unknown
         contentOutlines: unknown
@@ -80,7 +81,7 @@ export interface VolumeGenerateEvent {
     name: 'proposal/volume.generate'
     data: {
         jobId: string
-        volume: number // 1-4
+        volume: number // Number in the job's volume_structure
         volumeName: string
         progressStart: number
         progressEnd: number
@@ -150,6 +151,22 @@ export interface ScoringCompleteEvent {
     }
 }
 
+export interface AmendmentReceivedEvent {
+    name: 'proposal/amendment.received'
+    data: {
+        jobId: string
+        amendmentId: string
+    }
+}
+
+export interface QaImportReceivedEvent {
+    name: 'proposal/qa.received'
+    data: {
+        jobId: string
+        importId: string
+    }
+}
+
 // Union type for all events
 export type ProposalEvents = 
     | ProposalGenerationEvent 
@@ -166,6 +183,8 @@ export type ProposalEvents =
     | AssemblyCompleteEvent
     | ScoringStartEvent
     | ScoringCompleteEvent
+    | AmendmentReceivedEvent
+    | QaImportReceivedEvent
 
 // ============================================================================
 // TIMEOUT CONFIGURATION
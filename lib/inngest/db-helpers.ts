@@ -10,6 +10,8 @@
 
 import { supabase } from '../supabase'
 import { logger } from '../logger'
+import { ClaimAuditReport, PriceRealismReport, PriceToWinReport, RfpAmendment, RfpQaImport, WinThemeReport } from '../database.types'
+import { legacyContentColumn, resolveVolumeStructure } from '../volume-structure'
 
 // ============================================================================
 // VOLUME STATUS HELPERS
@@ -17,7 +19,7 @@ import { logger } from '../logger'
 
 export async function updateVolumeScore(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     score: number
 ): Promise<void> {
     try {
@@ -61,8 +63,8 @@ export async function updateVolumeScore(
 
 export async function updateVolumeStatus(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
-    status: 'pending' | 'generating' | 'ready_for_scoring' | 'scoring' | 'awaiting_approval' | 'iterating' | 'approved' | 'blocked' | 'skipped'
+    volume: number,
+    status: 'pending' | 'generating' | 'ready_for_scoring' | 'scoring' | 'awaiting_approval' | 'iterating' | 'approved' | 'blocked' | 'skipped' | 'needs_regeneration'
 ): Promise<void> {
     try {
         // Fetch current volume_status
@@ -105,7 +107,7 @@ export async function updateVolumeStatus(
 
 export async function updateVolumeIteration(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     iteration: number
 ): Promise<void> {
     try {
@@ -149,7 +151,7 @@ export async function updateVolumeIteration(
 
 export async function updateVolumeInsights(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     insights: object
 ): Promise<void> {
     try {
@@ -183,7 +185,7 @@ export async function updateVolumeInsights(
 
 export async function updateVolumeSectionProgress(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     sectionName: string,
     status: 'pending' | 'in-progress' | 'complete',
     progress: number,
@@ -198,7 +200,7 @@ export async function updateVolumeSectionProgress(
             .single()
 
         const volumeSectionProgress = currentJob?.volume_section_progress || {}
-        const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+        const volumeKey = `volume${volume}`
         
         if (!volumeSectionProgress[volumeKey]) {
             volumeSectionProgress[volumeKey] = { sections: [] }
@@ -260,7 +262,7 @@ export async function updateVolumeSectionProgress(
 
 export async function storeVolumeComplianceDetails(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     complianceDetails: {
         requirementScores?: Array<{
             requirementId: string
@@ -271,6 +273,11 @@ export async function storeVolumeComplianceDetails(
         }>
         strengths?: string[]
         criticalGaps?: string[]
+        evaluationRating?: string
+        priceRealism?: PriceRealismReport
+        priceToWin?: PriceToWinReport
+        claimAudit?: ClaimAuditReport
+        winThemes?: WinThemeReport
         overallScore: number
     }
 ): Promise<void> {
@@ -283,7 +290,7 @@ export async function storeVolumeComplianceDetails(
             .single()
 
         const volumeComplianceDetails = currentJob?.volume_compliance_details || {}
-        const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+        const volumeKey = `volume${volume}`
         
         volumeComplianceDetails[volumeKey] = complianceDetails
 
@@ -320,7 +327,7 @@ export async function storeVolumeComplianceDetails(
 
 export async function storeUserFeedback(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     iteration: number,
     feedback: string
 ): Promise<void> {
@@ -370,7 +377,7 @@ export async function storeUserFeedback(
 
 export async function fetchUserFeedback(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     iteration?: number
 ): Promise<string | null> {
     try {
@@ -447,7 +454,7 @@ export async function updateJobStatus(
 
 export async function setAwaitingApproval(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     awaiting: boolean
 ): Promise<void> {
     try {
@@ -494,7 +501,7 @@ export async function setAwaitingApproval(
  * Pattern from marketing app's batchProcessingService.
  * 
  * @param jobId - Job ID
- * @param volumes - Volume content to save
+ * @param volumes - Volume content to save, keyed "volumeN" (merged into the volumes JSONB)
  * @param batchSize - Number of volumes per batch (default: 2)
  */
 export async function batchSaveVolumes(
@@ -508,6 +515,14 @@ export async function batchSaveVolumes(
             data: { jobId, totalVolumes: volumeEntries.length, batchSize }
         })
 
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: currentJob } = await (supabase.from('proposal_jobs') as any)
+            .select('volume_structure')
+            .eq('job_id', jobId)
+            .single()
+
+        const structure = resolveVolumeStructure(currentJob?.volume_structure)
+
         for (let i = 0; i < volumeEntries.length; i += batchSize) {
             const batch = volumeEntries.slice(i, i + batchSize)
             const batchNum = Math.floor(i / batchSize) + 1
@@ -517,39 +532,37 @@ export async function batchSaveVolumes(
                 data: { jobId, volumes: batch.map(([key]) => key) }
             })
 
-            // Build update object for this batch
-            const updateData: Record<string, unknown> = {
-                updated_at: new Date().toISOString()
-            }
+            // Merged in the database - a read-modify-write of volumes would drop a
+            // volume generated in parallel
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const { error } = await (supabase as any).rpc('merge_job_volumes', {
+                p_job_id: jobId,
+                p_volumes: Object.fromEntries(batch),
+            })
 
-            // Map volume keys to database fields
-            const volumeFieldMap: Record<string, string> = {
-                volume1: 'technical_approach',
-                volume2: 'management_approach',
-                volume3: 'past_performance_volume',
-                volume4: 'pricing'
+            if (error) {
+                throw new Error(`Failed to save batch ${batchNum}: ${error.message}`)
             }
 
+            // Mirror to the legacy content column for the first volume of each kind
+            // (one column per volume, so parallel saves never touch the same one)
+            const legacyColumns: Record<string, string> = {}
             batch.forEach(([key, content]) => {
-                const dbField = volumeFieldMap[key]
+                const dbField = legacyContentColumn(structure, parseInt(key.replace('volume', ''), 10))
                 if (dbField) {
-                    updateData[dbField] = content
-                    // Also save to volumes JSONB field for new system
-                    if (!updateData.volumes) {
-                        updateData.volumes = {}
-                    }
-                    (updateData.volumes as Record<string, string>)[key] = content
+                    legacyColumns[dbField] = content
                 }
             })
 
-            // Execute batch update
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const { error } = await (supabase.from('proposal_jobs') as any)
-                .update(updateData)
-                .eq('job_id', jobId)
+            if (Object.keys(legacyColumns).length > 0) {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const { error: legacyError } = await (supabase.from('proposal_jobs') as any)
+                    .update(legacyColumns)
+                    .eq('job_id', jobId)
 
-            if (error) {
-                throw new Error(`Failed to save batch ${batchNum}: ${error.message}`)
+                if (legacyError) {
+                    throw new Error(`Failed to save batch ${batchNum}: ${legacyError.message}`)
+                }
             }
 
             logger.info(`[DB] Batch ${batchNum}/${totalBatches} saved successfully`, {
@@ -652,6 +665,122 @@ export async function updateProgress(
     }
 }
 
+// ============================================================================
+// AMENDMENT HELPERS
+// ============================================================================
+
+/**
+ * Append a 'processing' amendment with the next AMD-NNN id in one statement
+ * @returns The claimed id, or null while another amendment or Q&A import is processing
+ */
+export async function claimAmendment(
+    jobId: string,
+    amendment: Omit<RfpAmendment, 'id' | 'status'>
+): Promise<string | null> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any).rpc('claim_rfp_amendment', {
+        p_job_id: jobId,
+        p_amendment: amendment,
+    })
+
+    if (error) {
+        throw new Error(`Failed to claim amendment: ${error.message}`)
+    }
+
+    logger.info('[DB] Claimed amendment', { data: { jobId, amendmentId: data } })
+
+    return (data as string | null) || null
+}
+
+export async function updateAmendment(
+    jobId: string,
+    amendmentId: string,
+    updates: Partial<RfpAmendment>
+): Promise<void> {
+    try {
+        // Merged in the database - a read-modify-write of the array would drop a record claimed meanwhile
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error } = await (supabase as any).rpc('update_rfp_amendment', {
+            p_job_id: jobId,
+            p_amendment_id: amendmentId,
+            p_updates: updates,
+        })
+
+        if (error) {
+            throw new Error(`Failed to update amendment: ${error.message}`)
+        }
+
+        logger.info('[DB] Updated amendment', {
+            data: { jobId, amendmentId, status: updates.status }
+        })
+    } catch (error) {
+        logger.error('[DB] Failed to update amendment', {
+            data: {
+                jobId,
+                amendmentId,
+                error: error instanceof Error ? error.message : String(error)
+            }
+        })
+        throw error
+    }
+}
+
+/**
+ * Append a 'processing' Q&A import with the next QAI-NNN id in one statement
+ * @returns The claimed id, or null while an amendment is processing
+ */
+export async function claimQaImport(
+    jobId: string,
+    qaImport: Omit<RfpQaImport, 'id' | 'status'>
+): Promise<string | null> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any).rpc('claim_rfp_qa_import', {
+        p_job_id: jobId,
+        p_import: qaImport,
+    })
+
+    if (error) {
+        throw new Error(`Failed to claim Q&A import: ${error.message}`)
+    }
+
+    logger.info('[DB] Claimed Q&A import', { data: { jobId, importId: data } })
+
+    return (data as string | null) || null
+}
+
+export async function updateQaImport(
+    jobId: string,
+    importId: string,
+    updates: Partial<RfpQaImport>
+): Promise<void> {
+    try {
+        // Merged in the database - a read-modify-write of the array would drop a record claimed meanwhile
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error } = await (supabase as any).rpc('update_rfp_qa_import', {
+            p_job_id: jobId,
+            p_import_id: importId,
+            p_updates: updates,
+        })
+
+        if (error) {
+            throw new Error(`Failed to update Q&A import: ${error.message}`)
+        }
+
+        logger.info('[DB] Updated Q&A import', {
+            data: { jobId, importId, status: updates.status }
+        })
+    } catch (error) {
+        logger.error('[DB] Failed to update Q&A import', {
+            data: {
+                jobId,
+                importId,
+                error: error instanceof Error ? error.message : String(error)
+            }
+        })
+        throw error
+    }
+}
+
 // ============================================================================
 // QUERY HELPERS
 // ============================================================================
@@ -0,0 +1,167 @@
+/**
+ * Amendment Handler - Dedicated Function
+ *
+ * Re-parses the RFP after an SF-30 amendment has been attached to a job,
+ * diffs the parsed data against the previous run and flags the compliance
+ * matrix entries, sections and volumes that need regeneration.
+ *
+ * Triggered by: proposal/amendment.received
+ */
+
+import { inngest } from '../client'
+import { supabase } from '../../supabase'
+import { logger } from '../../logger'
+import { agent1 } from '../../agents'
+import { analyzeAmendmentImpact, diffRfpParsedData, isEmptyDiff } from '../../amendments'
+import { PricingInputs, RfpParsedData } from '../../database.types'
+import { updateAmendment, updateVolumeStatus } from '../db-helpers'
+
+// Volumes in these states have content that an amendment can invalidate
+const GENERATED_VOLUME_STATUSES = ['ready_for_scoring', 'scoring', 'awaiting_approval', 'iterating', 'approved', 'needs_regeneration']
+
+export const handleAmendmentFunction = inngest.createFunction(
+    {
+        id: 'rfp-proposal-amendment',
+        name: 'Handle Solicitation Amendment',
+        retries: 1,
+        concurrency: {
+            limit: 1,
+            key: 'event.data.jobId', // Amendments to the same job apply in order
+        },
+    },
+    { event: 'proposal/amendment.received' },
+    async ({ event, step }) => {
+        const { jobId, amendmentId } = event.data
+
+        logger.info(`[Amendment] Processing ${amendmentId}`, { data: { jobId, amendmentId } })
+
+        try {
+            // ================================================================
+            // STEP 1: Snapshot the parsed data before the amendment
+            // ================================================================
+            const job = await step.run('load-job', async () => {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const { data, error } = await (supabase.from('proposal_jobs') as any)
+                    .select('company_id, rfp_text, rfp_parsed_data')
+                    .eq('job_id', jobId)
+                    .single()
+
+                if (error || !data) {
+                    throw new Error(`Job not found: ${jobId}`)
+                }
+
+                if (!data.rfp_parsed_data) {
+                    throw new Error('RFP has not been parsed yet - wait for the preparation phase to finish')
+                }
+
+                return {
+                    companyId: data.company_id as string,
+                    rfpText: data.rfp_text as string,
+                    previous: data.rfp_parsed_data as RfpParsedData,
+                }
+            })
+
+            // ================================================================
+            // STEP 2: Re-run Agent 1 on the amended package
+            // ================================================================
+            const current = await step.run('reparse-rfp', async () => {
+                // Loaded inside the step so the full document never becomes step output
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const { data } = await (supabase.from('proposal_jobs') as any)
+                    .select('rfp_document')
+                    .eq('job_id', jobId)
+                    .single()
+
+                // Parse only - the job keeps its current parse and agent progress until
+                // the diff step stores the result with stabilized requirement IDs
+                return agent1.parse({
+                    jobId,
+                    companyId: job.companyId,
+                    rfpText: data?.rfp_document?.text || job.rfpText,
+                    rfpDocument: data?.rfp_document || undefined,
+                })
+            })
+
+            // ================================================================
+            // STEP 3: Diff, flag affected content and store
+            // ================================================================
+            const summary = await step.run('diff-and-flag', async () => {
+                const { diff, stabilized } = diffRfpParsedData(job.previous, current)
+
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const { data } = await (supabase.from('proposal_jobs') as any)
+                    .select('content_outlines, volume_status, volume_structure, pricing_inputs')
+                    .eq('job_id', jobId)
+                    .single()
+
+                const impact = analyzeAmendmentImpact(
+                    diff,
+                    stabilized,
+                    data?.content_outlines || null,
+                    amendmentId,
+                    data?.volume_structure
+                )
+
+                // Pinned pricing inputs were built on the old CLINs / contract type - the
+                // Price volume is estimated afresh until the user pins new ones
+                const pricingInputs: PricingInputs | null = data?.pricing_inputs || null
+                const supersedesPricing = !!pricingInputs?.origin && !pricingInputs.superseded_by &&
+                    (diff.clins_changed || !!diff.contract_type)
+
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                await (supabase.from('proposal_jobs') as any)
+                    .update({
+                        rfp_parsed_data: stabilized,
+                        rfp_metadata: stabilized.metadata,
+                        content_outlines: impact.contentOutlines,
+                        ...(supersedesPricing ? { pricing_inputs: { ...pricingInputs, superseded_by: amendmentId } } : {}),
+                        updated_at: new Date().toISOString()
+                    })
+                    .eq('job_id', jobId)
+
+                // Only volumes that were already written need regenerating
+                const volumeStatus: Record<string, string> = data?.volume_status || {}
+                const flaggedVolumes = impact.affectedVolumes.filter(v =>
+                    GENERATED_VOLUME_STATUSES.includes(volumeStatus[`volume${v}`])
+                )
+                for (const volume of flaggedVolumes) {
+                    await updateVolumeStatus(jobId, volume, 'needs_regeneration')
+                }
+
+                await updateAmendment(jobId, amendmentId, {
+                    status: 'complete',
+                    processed_at: new Date().toISOString(),
+                    diff,
+                    affected_volumes: impact.affectedVolumes,
+                    affected_sections: impact.affectedSections,
+                })
+
+                return {
+                    noChanges: isEmptyDiff(diff),
+                    added: diff.requirements.filter(r => r.type === 'added').length,
+                    changed: diff.requirements.filter(r => r.type === 'changed').length,
+                    deleted: diff.requirements.filter(r => r.type === 'deleted').length,
+                    affectedVolumes: impact.affectedVolumes,
+                    flaggedVolumes,
+                    supersedesPricing,
+                }
+            })
+
+            logger.info(`[Amendment] ${amendmentId} applied`, { data: { jobId, ...summary } })
+
+            return { success: true, amendmentId, ...summary }
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            logger.error(`[Amendment] ${amendmentId} failed`, { data: { jobId, error: message } })
+
+            await updateAmendment(jobId, amendmentId, {
+                status: 'failed',
+                processed_at: new Date().toISOString(),
+                error: message,
+            })
+
+            throw error
+        }
+    }
+)
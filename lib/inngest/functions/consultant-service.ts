@@ -1,9 +1,11 @@
 /**
  * Consultant Service Function - Modular Inngest Function
  * 
- * Executes Agent 5 (Compliance Scorer) and Agent 6 (Consultant)
+ * Executes Agent 5 (Compliance Scorer) and Agent 6 (Consultant) - the consultant
+ * also runs on passing volumes with unsupported claims or missing win themes
  * Waits for user decision (approve/iterate)
  * Delegates iteration to handleVolumeIterationFunction
+ * Adds approved volumes' sections to the company content library
  * 
  * Triggered by: proposal/volume.consult
  * Emits: proposal/volume.consulted, proposal/volume.iterate (if needed)
@@ -15,6 +17,8 @@ import { supabase } from '../../supabase'
 import { logger } from '../../logger'
 import { agent5, AgentContext } from '../../agents'
 import { agentConsultant } from '../../agents/agent-consultant'
+import { addApprovedVolume } from '../../content-library'
+import { resolveVolumeStructure, volumeContentKey } from '../../volume-structure'
 import {
     updateJobStatus,
     updateVolumeStatus,
@@ -63,8 +67,12 @@ export const consultantServiceFunction = inngest.createFunction(
                     rfpParsedData: job.rfp_parsed_data,
                     companyData: job.company_data,
                     volumePageLimits: job.volume_page_limits,
+                    volumeStructure: job.volume_structure,
                     contentOutlines: job.content_outlines,
                     validationReport: job.validation_report,
+                    priceModel: job.price_model || undefined,
+                    winThemes: job.win_themes || [],
+                    competitiveAssessment: job.competitive_assessment || undefined,
                     volumes: job.volumes || {},
                     targetVolume: volume
                 }
@@ -110,6 +118,11 @@ export const consultantServiceFunction = inngest.createFunction(
                 requirementScores: scoreResult.requirementScores || [],
                 strengths: scoreResult.strengths || [],
                 criticalGaps: scoreResult.criticalGaps || [],
+                evaluationRating: scoreResult.evaluationRating,
+                priceRealism: scoreResult.priceRealism,
+                priceToWin: scoreResult.priceToWin,
+                claimAudit: scoreResult.claimAudit,
+                winThemes: scoreResult.winThemes,
                 overallScore: scoreResult.overallScore
             })
 
@@ -118,17 +131,22 @@ export const consultantServiceFunction = inngest.createFunction(
             })
 
             // ================================================================
-            // AGENT 6: Consultant (Only if score < 80%)
+            // AGENT 6: Consultant (score < 80%, unsupported claims or missing win themes to fix)
             // ================================================================
 
+            const claimFindings = (scoreResult.claimAudit?.findings || []).filter(f => f.severity !== 'low').length
+            const missingThemes = (scoreResult.winThemes?.themes || []).filter(t => t.missing_volumes.includes(volume)).length
             let consultantInsights = null
-            if (scoreResult.overallScore < 80) {
+            if (scoreResult.overallScore < 80 || claimFindings > 0 || missingThemes > 0) {
                 consultantInsights = await step.run('consult-volume', async () => {
-                    logger.info(`[Consultant ${volume}] Executing Agent 6 (Consultant) - score below 80%`, {
-                        data: { jobId, volume, score: scoreResult.overallScore }
+                    const reason = scoreResult.overallScore < 80
+                        ? 'score below 80%'
+                        : claimFindings > 0 ? `${claimFindings} unsupported claim(s)` : `${missingThemes} missing win theme(s)`
+                    logger.info(`[Consultant ${volume}] Executing Agent 6 (Consultant) - ${reason}`, {
+                        data: { jobId, volume, score: scoreResult.overallScore, claimFindings, missingThemes }
                     })
 
-                    const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                    const volumeKey = `volume${volume}`
                     const result = await agentConsultant.execute(context, {
                         volume,
                         volumeContent: context.volumes?.[volumeKey] || '',
@@ -139,7 +157,9 @@ export const consultantServiceFunction = inngest.createFunction(
                             criticalGaps: scoreResult.criticalGaps || []
                         },
                         rfpRequirements: JSON.stringify(context.rfpParsedData?.section_c.requirements || []).substring(0, 10000),
-                        iteration
+                        iteration,
+                        claimAudit: scoreResult.claimAudit,
+                        winThemes: scoreResult.winThemes
                     })
 
                     if (result.status === 'error') {
@@ -196,6 +216,33 @@ export const consultantServiceFunction = inngest.createFunction(
                     data: { jobId, volume, finalScore: scoreResult.overallScore }
                 })
 
+                // Approved sections become reusable content for the company's later proposals
+                await step.run(`add-volume-${volume}-to-content-library`, async () => {
+                    const approvedVolume = resolveVolumeStructure(context.volumeStructure).find(v => v.number === volume)
+                    if (!approvedVolume) return 0
+
+                    try {
+                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                        const { data: job } = await (supabase.from('proposal_jobs') as any)
+                            .select('volumes')
+                            .eq('job_id', jobId)
+                            .single()
+
+                        return await addApprovedVolume({
+                            jobId,
+                            companyId: context.companyId,
+                            volume: approvedVolume,
+                            content: job?.volumes?.[volumeContentKey(volume)] || '',
+                            score: scoreResult.overallScore,
+                        })
+                    } catch (error) {
+                        logger.warn(`[Consultant ${volume}] Could not add approved sections to the content library`, {
+                            data: { jobId, volume, error: error instanceof Error ? error.message : String(error) }
+                        })
+                        return 0
+                    }
+                })
+
                 // Emit approval confirmation
                 await step.sendEvent('emit-volume-approved', {
                     name: 'proposal/volume.consulted',
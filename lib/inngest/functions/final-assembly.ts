@@ -14,6 +14,8 @@ import { supabase } from '../../supabase'
 import { logger } from '../../logger'
 import { agent8, AgentContext } from '../../agents'
 import { updateJobStatus } from '../db-helpers'
+import { resolveVolumeStructure, volumeContentKey } from '../../volume-structure'
+import { countVolumePages } from '../../page-count'
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -118,28 +120,32 @@ async function performQualityChecks(
     const checks: QualityCheck[] = []
 
     // Check 1: All volumes present
-    const volumeKeys = ['volume1', 'volume2', 'volume3', 'volume4'] as const
+    const structure = resolveVolumeStructure(context.volumeStructure)
+    const volumeKeys = structure.map(v => volumeContentKey(v.number))
     const allVolumesPresent = volumeKeys.every(key => {
         const content = context.volumes?.[key]
         return content && content.length > 0
     })
     checks.push({
-        check: 'All 4 volumes present',
+        check: 'All volumes present',
         passed: allVolumesPresent,
         details: allVolumesPresent ? 'All volumes generated' : 'Missing one or more volumes'
     })
 
-    // Check 2: Page limits respected (estimate based on character count)
-    for (const volumeKey of volumeKeys) {
+    // Check 2: Page limits respected (rendered with the Section L format)
+    for (const volume of structure) {
+        // Volumes without a Section L limit (typically price) have nothing to check
+        if (volume.page_limit === null) continue
+
+        const volumeKey = volumeContentKey(volume.number)
         const content = context.volumes?.[volumeKey] || ''
-        const estimatedPages = Math.ceil(content.length / 3000) // ~3000 chars per page
-        const volumeNum = volumeKey.replace('volume', '')
-        const maxPages = context.volumePageLimits?.[`volume_${volumeNum}_technical` as keyof typeof context.volumePageLimits] || 50
+        const count = await countVolumePages(content, context.rfpParsedData?.section_l.format, jobId)
+        const maxPages = volume.page_limit
         
         checks.push({
             check: `${volumeKey} page limit`,
-            passed: estimatedPages <= maxPages,
-            details: `Estimated ${estimatedPages} pages (max: ${maxPages})`
+            passed: count.pages <= maxPages,
+            details: `${count.rendered ? 'Rendered' : 'Estimated'} ${count.pages} pages (max: ${maxPages})`
         })
     }
 
@@ -215,8 +221,10 @@ export const finalAssemblyFunction = inngest.createFunction(
                     rfpParsedData: job.rfp_parsed_data,
                     companyData: job.company_data,
                     volumePageLimits: job.volume_page_limits,
+                    volumeStructure: job.volume_structure,
                     contentOutlines: job.content_outlines,
                     validationReport: job.validation_report,
+                    priceModel: job.price_model || undefined,
                     volumes: job.volumes || {}
                 }
 
@@ -250,7 +258,7 @@ export const finalAssemblyFunction = inngest.createFunction(
                     .eq('job_id', jobId)
 
                 // Check if any critical checks failed
-                const criticalChecks = ['All 4 volumes present', 'All volumes approved']
+                const criticalChecks = ['All volumes present', 'All volumes approved']
                 const criticalFailures = checks.filter(c => criticalChecks.includes(c.check) && !c.passed)
 
                 if (criticalFailures.length > 0) {
@@ -282,8 +290,7 @@ export const finalAssemblyFunction = inngest.createFunction(
                     progress: { status: 'complete', completed_at: new Date().toISOString() }
                 })
 
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                return (result.data as any).finalHtml || result.data
+                return result.data.finalHtml
             })
 
             // Store final HTML in database
@@ -14,6 +14,7 @@ import { supabase } from '../../supabase'
 import { logger } from '../../logger'
 import { AgentContext } from '../../agents'
 import { updateJobStatus } from '../db-helpers'
+import { resolveVolumeStructure, volumeContentKey } from '../../volume-structure'
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -67,8 +68,8 @@ async function performCrossVolumeAnalysis(
 ): Promise<CrossVolumeAnalysis> {
     logger.info('[Scoring] Performing cross-volume analysis', { data: { jobId } })
 
-    const volumeKeys = ['volume1', 'volume2', 'volume3', 'volume4'] as const
-    const volumes = volumeKeys.map(key => context.volumes?.[key] || '')
+    const structure = resolveVolumeStructure(context.volumeStructure)
+    const volumes = structure.map(v => context.volumes?.[volumeContentKey(v.number)] || '')
 
     // ================================================================
     // DUPLICATE CONTENT CHECK
@@ -116,7 +117,7 @@ async function performCrossVolumeAnalysis(
                 // Look for misspellings or variations
                 const nameCount = (volume.match(new RegExp(companyName, 'gi')) || []).length
                 if (nameCount === 0 && volume.length > 1000) {
-                    inconsistencies.push(`Volume ${i + 1} may not reference company name`)
+                    inconsistencies.push(`Volume ${structure[i].number} may not reference company name`)
                 }
             }
         }
@@ -129,7 +130,7 @@ async function performCrossVolumeAnalysis(
             // Flag volumes with significantly different usage
             usageCounts.forEach((count, i) => {
                 if (volumes[i].length > 1000 && count < avg * 0.3) {
-                    inconsistencies.push(`Volume ${i + 1} has unusual "${term}" usage`)
+                    inconsistencies.push(`Volume ${structure[i].number} has unusual "${term}" usage`)
                 }
             })
         }
@@ -153,7 +154,7 @@ async function performCrossVolumeAnalysis(
         // Check each volume has substantial content
         volumes.forEach((volume, i) => {
             if (volume.length < 5000) {
-                missingElements.push(`Volume ${i + 1} may be incomplete (too short)`)
+                missingElements.push(`Volume ${structure[i].number} may be incomplete (too short)`)
             }
         })
 
@@ -194,12 +195,7 @@ async function performCrossVolumeAnalysis(
             .single()
 
         const volumeScores = job?.volume_scores || {}
-        const scores = [
-            volumeScores.volume1 || 0,
-            volumeScores.volume2 || 0,
-            volumeScores.volume3 || 0,
-            volumeScores.volume4 || 0
-        ]
+        const scores = structure.map(v => volumeScores[volumeContentKey(v.number)] || 0)
 
         const avgScore = scores.reduce((a, b) => a + b, 0) / scores.length
         const minScore = Math.min(...scores)
@@ -268,6 +264,7 @@ export const finalScoringFunction = inngest.createFunction(
                     rfpParsedData: job.rfp_parsed_data,
                     companyData: job.company_data,
                     volumePageLimits: job.volume_page_limits,
+                    volumeStructure: job.volume_structure,
                     contentOutlines: job.content_outlines,
                     validationReport: job.validation_report,
                     volumes: job.volumes || {}
@@ -301,19 +298,15 @@ export const finalScoringFunction = inngest.createFunction(
                 const volumeScores = job?.volume_scores || {}
                 const complianceDetails = job?.volume_compliance_details || {}
                 const qualityChecks = job?.quality_checks || []
+                const volumeKeys = resolveVolumeStructure(context.volumeStructure).map(v => volumeContentKey(v.number))
 
                 // Calculate overall compliance score
-                const scores = [
-                    volumeScores.volume1 || 0,
-                    volumeScores.volume2 || 0,
-                    volumeScores.volume3 || 0,
-                    volumeScores.volume4 || 0
-                ]
+                const scores = volumeKeys.map(key => volumeScores[key] || 0)
                 const overallScore = scores.reduce((a, b) => a + b, 0) / scores.length
 
                 // Aggregate all critical gaps across volumes
                 const allCriticalGaps: string[] = []
-                for (const volumeKey of ['volume1', 'volume2', 'volume3', 'volume4']) {
+                for (const volumeKey of volumeKeys) {
                     const details = complianceDetails[volumeKey]
                     if (details?.criticalGaps) {
                         allCriticalGaps.push(...details.criticalGaps.map((gap: string) => `${volumeKey}: ${gap}`))
@@ -329,12 +322,7 @@ export const finalScoringFunction = inngest.createFunction(
 
                 const report = {
                     overallComplianceScore: overallScore,
-                    volumeScores: {
-                        volume1: volumeScores.volume1 || 0,
-                        volume2: volumeScores.volume2 || 0,
-                        volume3: volumeScores.volume3 || 0,
-                        volume4: volumeScores.volume4 || 0
-                    },
+                    volumeScores: Object.fromEntries(volumeKeys.map(key => [key, volumeScores[key] || 0])),
                     crossVolumeAnalysis,
                     qualityChecks,
                     allCriticalGaps,
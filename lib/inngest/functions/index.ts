@@ -9,5 +9,7 @@ export { finalAssemblyFunction } from './final-assembly'
 export { finalScoringFunction } from './final-scoring'
 export { generateProposalOrchestratorFunction } from './orchestrator'
 export { handleVolumeIterationFunction } from './volume-iteration-handler'
+export { handleAmendmentFunction } from './amendment-handler'
+export { handleQaImportFunction } from './qa-import-handler'
 export { monitorStalledJobsFunction } from './monitor-stalled-jobs'
 
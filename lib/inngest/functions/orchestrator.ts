@@ -4,7 +4,7 @@
  * Simplified orchestrator that coordinates the modular pipeline:
  * 1. Trigger preparation phase
  * 2. Wait for preparation complete
- * 3. Trigger parallel volume generation (4 volumes)
+ * 3. Trigger parallel volume generation (one per Section L volume)
  * 4. Wait for all volumes generated
  * 5. Trigger consultant service for each volume (with iteration support)
  * 6. Wait for all volumes approved
@@ -21,6 +21,7 @@ import { supabase } from '../../supabase'
 import { logger } from '../../logger'
 import { clearContextCache } from '../../agents/agent-4-writer/shared-context'
 import { updateJobStatus, updateVolumeStatus } from '../db-helpers'
+import { resolveVolumeStructure } from '../../volume-structure'
 
 // ============================================================================
 // MAIN ORCHESTRATOR FUNCTION
@@ -119,12 +120,25 @@ export const generateProposalOrchestratorFunction = inngest.createFunction(
 
             logger.info('[Orchestrator] Phase 2: Triggering parallel volume generation', { data: { jobId } })
 
-            const volumes = [
-                { id: 1, name: 'Technical', progressStart: 30, progressEnd: 50 },
-                { id: 2, name: 'Management', progressStart: 50, progressEnd: 60 },
-                { id: 3, name: 'Past Performance', progressStart: 60, progressEnd: 70 },
-                { id: 4, name: 'Pricing', progressStart: 70, progressEnd: 80 }
-            ]
+            // Agent 0 stored the Section L volume list during preparation
+            const volumeStructure = await step.run('load-volume-structure', async () => {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const { data } = await (supabase.from('proposal_jobs') as any)
+                    .select('volume_structure')
+                    .eq('job_id', jobId)
+                    .single()
+
+                return resolveVolumeStructure(data?.volume_structure)
+            })
+
+            // Volume generation spans 30-80% of overall progress
+            const progressSpan = 50 / volumeStructure.length
+            const volumes = volumeStructure.map((v, i) => ({
+                id: v.number,
+                name: v.name,
+                progressStart: Math.round(30 + progressSpan * i),
+                progressEnd: Math.round(30 + progressSpan * (i + 1)),
+            }))
 
             // ================================================================
             // PHASE 2b & 3: PARALLEL GENERATION + SEQUENTIAL CONSULTATION
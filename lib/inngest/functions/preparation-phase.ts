@@ -2,8 +2,8 @@
  * Preparation Phase Function - Modular Inngest Function
  * 
  * Executes Agents 0-3 to prepare the proposal context:
- * - Agent 0: Volume Structure
  * - Agent 1: RFP Parser
+ * - Agent 0: Volume Structure (built from the parsed Section L)
  * - Agent 2: Data Validation
  * - Agent 3: Content Mapper
  * 
@@ -23,6 +23,7 @@ import {
     NormalizedCompanyData,
 } from '../../agents'
 import { updateJobStatus } from '../db-helpers'
+import { RfpDocument } from '../../database.types'
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -39,6 +40,14 @@ async function fetchCompanyData(companyId: string): Promise<NormalizedCompanyDat
         (supabase.from('labor_rates') as any).select('*').eq('company_id', companyId),
     ])
 
+    // Latest intake carries the indirect rates and ODC budgets the pricing engine applies
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const intakeResult = await (supabase.from('client_intake') as any)
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+
     if (companyResult.error || !companyResult.data) {
         throw new Error(`Company not found: ${companyResult.error?.message}`)
     }
@@ -59,6 +68,7 @@ async function fetchCompanyData(companyId: string): Promise<NormalizedCompanyDat
         pastPerformance: ppResult.data || [],
         personnel: personnelResult.data || [],
         laborRates: ratesResult.data || [],
+        intake: intakeResult.data?.[0] || null,
     }
 
     logger.info('Company data fetched successfully', { 
@@ -73,6 +83,25 @@ async function fetchCompanyData(companyId: string): Promise<NormalizedCompanyDat
     return data
 }
 
+/**
+ * Load the page-anchored RFP document stored by the ingestion pipeline.
+ * Jobs created from pasted text have none - Agent 1 falls back to rfpText.
+ */
+async function fetchRfpDocument(jobId: string): Promise<RfpDocument | undefined> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.from('proposal_jobs') as any)
+        .select('rfp_document')
+        .eq('job_id', jobId)
+        .single()
+
+    if (error) {
+        logger.warn(`[Prep Phase] Failed to load RFP document: ${error.message}`, { data: { jobId } })
+        return undefined
+    }
+
+    return data?.rfp_document || undefined
+}
+
 interface AgentProgressUpdate {
     status: 'pending' | 'running' | 'complete' | 'failed' | 'blocked'
     started_at?: string
@@ -193,42 +222,6 @@ export const preparationPhaseFunction = inngest.createFunction(
                 rfpText,
             }
 
-            // ================================================================
-            // AGENT 0: Volume Structure
-            // ================================================================
-
-            const agent0Result = await step.run('agent-0-volume-structure', async () => {
-                logger.agentStart('agent_0', jobId, 'Creating 4 volume containers')
-                await updateProgress(jobId, 0, 'Starting volume structure creation', 'agent_0', {
-                    agent: 'agent_0',
-                    progress: { status: 'running', started_at: new Date().toISOString() }
-                })
-
-                const result = await agent0.execute(context)
-
-                if (result.status === 'error') {
-                    throw new Error(`Agent 0 failed: ${result.errors?.join(', ')}`)
-                }
-
-                await updateProgress(jobId, 5, 'Volume structure created', 'agent_0', {
-                    agent: 'agent_0',
-                    progress: { status: 'complete', completed_at: new Date().toISOString() }
-                })
-
-                // Store volume structure in database
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                await (supabase.from('proposal_jobs') as any)
-                    .update({
-                        volume_page_limits: result.data.volumePageLimits,
-                        updated_at: new Date().toISOString()
-                    })
-                    .eq('job_id', jobId)
-
-                return result.data
-            })
-
-            context.volumePageLimits = agent0Result.volumePageLimits
-
             // ================================================================
             // Load Company Data
             // ================================================================
@@ -264,18 +257,20 @@ export const preparationPhaseFunction = inngest.createFunction(
 
             const agent1Result = await step.run('agent-1-rfp-parser', async () => {
                 logger.agentStart('agent_1', jobId, 'Parsing RFP requirements')
-                await updateProgress(jobId, 5, 'Starting RFP analysis', 'agent_1', {
+                await updateProgress(jobId, 0, 'Starting RFP analysis', 'agent_1', {
                     agent: 'agent_1',
                     progress: { status: 'running', started_at: new Date().toISOString() }
                 })
 
-                const result = await agent1.execute(context)
+                // Loaded inside the step so the full document never becomes step output
+                const rfpDocument = await fetchRfpDocument(jobId)
+                const result = await agent1.execute({ ...context, rfpDocument })
 
                 if (result.status === 'error') {
                     throw new Error(`Agent 1 failed: ${result.errors?.join(', ')}`)
                 }
 
-                await updateProgress(jobId, 15, 'RFP parsed', 'agent_1', {
+                await updateProgress(jobId, 12, 'RFP parsed', 'agent_1', {
                     agent: 'agent_1',
                     progress: { status: 'complete', completed_at: new Date().toISOString() }
                 })
@@ -294,6 +289,35 @@ export const preparationPhaseFunction = inngest.createFunction(
 
             context.rfpParsedData = agent1Result.rfpParsedData
 
+            // ================================================================
+            // AGENT 0: Volume Structure
+            // ================================================================
+
+            const agent0Result = await step.run('agent-0-volume-structure', async () => {
+                logger.agentStart('agent_0', jobId, 'Creating volume containers from Section L')
+                await updateProgress(jobId, 12, 'Starting volume structure creation', 'agent_0', {
+                    agent: 'agent_0',
+                    progress: { status: 'running', started_at: new Date().toISOString() }
+                })
+
+                // Agent 0 stores the volume structure, page limits and containers itself
+                const result = await agent0.execute(context)
+
+                if (result.status === 'error') {
+                    throw new Error(`Agent 0 failed: ${result.errors?.join(', ')}`)
+                }
+
+                await updateProgress(jobId, 15, `Volume structure created (${result.data.volumeStructure.length} volumes)`, 'agent_0', {
+                    agent: 'agent_0',
+                    progress: { status: 'complete', completed_at: new Date().toISOString() }
+                })
+
+                return result.data
+            })
+
+            context.volumeStructure = agent0Result.volumeStructure
+            context.volumePageLimits = agent0Result.volumePageLimits
+
             // ================================================================
             // AGENT 2: Data Validation
             // ================================================================
@@ -404,6 +428,7 @@ export const preparationPhaseFunction = inngest.createFunction(
                     rfpText,
                     success: true, // ✅ Explicitly mark as successful
                     volumePageLimits: agent0Result.volumePageLimits,
+                    volumeStructure: agent0Result.volumeStructure,
                     rfpParsedData: agent1Result.rfpParsedData,
                     validationReport: context.validationReport,
                     contentOutlines: agent3Result.contentOutlines,
@@ -0,0 +1,106 @@
+/**
+ * Q&A Import Handler - Dedicated Function
+ *
+ * Parses an imported government Q&A document into question/answer pairs
+ * (Agent 1), links them to requirement ids and stores the clarified
+ * interpretation on each affected requirement so the writers (Agent 4) and
+ * the compliance scorer (Agent 5) work from the clarified baseline.
+ *
+ * Triggered by: proposal/qa.received
+ */
+
+import { inngest } from '../client'
+import { supabase } from '../../supabase'
+import { logger } from '../../logger'
+import { agent1 } from '../../agents'
+import { clearContextCache } from '../../agents/agent-4-writer/shared-context'
+import { RfpQaImport } from '../../database.types'
+import { updateQaImport } from '../db-helpers'
+
+export const handleQaImportFunction = inngest.createFunction(
+    {
+        id: 'rfp-proposal-qa-import',
+        name: 'Handle Government Q&A Import',
+        retries: 1,
+        concurrency: {
+            limit: 1,
+            key: 'event.data.jobId', // Imports to the same job apply in order
+        },
+    },
+    { event: 'proposal/qa.received' },
+    async ({ event, step }) => {
+        const { jobId, importId } = event.data
+
+        logger.info(`[Q&A] Processing import ${importId}`, { data: { jobId, importId } })
+
+        try {
+            const summary = await step.run('parse-and-link-qa', async () => {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const { data: job, error } = await (supabase.from('proposal_jobs') as any)
+                    .select('rfp_parsed_data, rfp_qa_imports')
+                    .eq('job_id', jobId)
+                    .single()
+
+                if (error || !job) {
+                    throw new Error(`Job not found: ${jobId}`)
+                }
+
+                if (!job.rfp_parsed_data) {
+                    throw new Error('RFP has not been parsed yet - wait for the preparation phase to finish')
+                }
+
+                const qaImport = (job.rfp_qa_imports || []).find((i: RfpQaImport) => i.id === importId)
+                if (!qaImport) {
+                    throw new Error(`Q&A import ${importId} not found`)
+                }
+
+                const result = await agent1.extractClarifications(qaImport.text, job.rfp_parsed_data, importId, jobId)
+
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const { error: updateError } = await (supabase.from('proposal_jobs') as any)
+                    .update({
+                        rfp_parsed_data: result.rfpParsedData,
+                        updated_at: new Date().toISOString()
+                    })
+                    .eq('job_id', jobId)
+
+                if (updateError) {
+                    throw new Error(`Failed to save clarifications: ${updateError.message}`)
+                }
+
+                // Writers cache the requirement list per job - force a rebuild with the clarified text
+                clearContextCache()
+
+                const linkedRequirementCount = new Set(result.clarifications.flatMap(c => c.req_ids)).size
+
+                await updateQaImport(jobId, importId, {
+                    status: 'complete',
+                    processed_at: new Date().toISOString(),
+                    pair_count: result.clarifications.length,
+                    linked_requirement_count: linkedRequirementCount,
+                })
+
+                return {
+                    pairs: result.clarifications.length,
+                    linkedRequirements: linkedRequirementCount,
+                }
+            })
+
+            logger.info(`[Q&A] Import ${importId} applied`, { data: { jobId, ...summary } })
+
+            return { success: true, importId, ...summary }
+
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            logger.error(`[Q&A] Import ${importId} failed`, { data: { jobId, error: message } })
+
+            await updateQaImport(jobId, importId, {
+                status: 'failed',
+                processed_at: new Date().toISOString(),
+                error: message,
+            })
+
+            throw error
+        }
+    }
+)
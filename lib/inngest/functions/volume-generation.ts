@@ -2,7 +2,7 @@
  * Volume Generation Function - Modular Inngest Function
  * 
  * Executes Agent 4 (Writer) for a single volume
- * Designed to run in parallel (4 instances simultaneously)
+ * Designed to run in parallel (one instance per volume)
  * 
  * Triggered by: proposal/volume.generate
  * Emits: proposal/volume.generated
@@ -58,7 +58,7 @@ async function updateProgress(
 
 async function updateVolumeSectionProgress(
     jobId: string,
-    volume: 1 | 2 | 3 | 4,
+    volume: number,
     sectionProgress: Record<string, { status: string; progress: number }>
 ): Promise<void> {
     try {
@@ -96,7 +96,7 @@ export const volumeGenerationFunction = inngest.createFunction(
         name: 'Volume Generation (Agent 4)',
         retries: 2,
         concurrency: {
-            limit: 4, // Allow 4 volumes to generate in parallel
+            limit: 6, // Allow up to 6 volumes to generate in parallel
         }
     },
     { event: 'proposal/volume.generate' },
@@ -155,7 +155,11 @@ export const volumeGenerationFunction = inngest.createFunction(
                     rfpParsedData: job.rfp_parsed_data,
                     companyData: job.company_data,
                     volumePageLimits: job.volume_page_limits,
+                    volumeStructure: job.volume_structure,
                     contentOutlines: job.content_outlines,
+                    pricingInputs: job.pricing_inputs || undefined,
+                    winThemes: job.win_themes || [],
+                    competitiveAssessment: job.competitive_assessment || undefined,
                     validationReport: job.validation_report,
                     volumes: job.volumes || {},
                     targetVolume: volume
@@ -188,7 +192,7 @@ export const volumeGenerationFunction = inngest.createFunction(
                 }
 
                 // Validate that volume was actually generated
-                const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                const volumeKey = `volume${volume}`
                 if (!result.data?.volumes?.[volumeKey]?.content) {
                     throw new Error(`Volume ${volume} generation completed but no content was produced`)
                 }
@@ -198,7 +202,7 @@ export const volumeGenerationFunction = inngest.createFunction(
 
             // Save volume to database
             await step.run('save-volume', async () => {
-                const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                const volumeKey = `volume${volume}`
                 const volumeContent = volumeResult.volumes[volumeKey]?.content || ''
 
                 if (!volumeContent) {
@@ -22,6 +22,8 @@ import {
     storeVolumeComplianceDetails,
     batchSaveVolumes,
 } from '../db-helpers'
+import { resolveVolumeStructure, volumeOutlineKey } from '../../volume-structure'
+import { countVolumePages } from '../../page-count'
 
 // Helper to fetch company data
 async function fetchCompanyData(companyId: string): Promise<NormalizedCompanyData> {
@@ -35,6 +37,14 @@ async function fetchCompanyData(companyId: string): Promise<NormalizedCompanyDat
         (supabase.from('labor_rates') as any).select('*').eq('company_id', companyId),
     ])
 
+    // Latest intake carries the indirect rates and ODC budgets the pricing engine applies
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const intakeResult = await (supabase.from('client_intake') as any)
+        .select('*')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+
     if (companyResult.error || !companyResult.data) {
         throw new Error(`Company not found: ${companyResult.error?.message}`)
     }
@@ -44,6 +54,7 @@ async function fetchCompanyData(companyId: string): Promise<NormalizedCompanyDat
         pastPerformance: ppResult.data || [],
         personnel: personnelResult.data || [],
         laborRates: ratesResult.data || [],
+        intake: intakeResult.data?.[0] || null,
     }
 
     return data
@@ -96,6 +107,10 @@ export const handleVolumeIterationFunction = inngest.createFunction(
                     rfpParsedData: job.rfp_parsed_data,
                     companyData,
                     volumePageLimits: job.volume_page_limits,
+                    volumeStructure: job.volume_structure,
+                    priceModel: job.price_model || undefined,
+                    winThemes: job.win_themes || [],
+                    competitiveAssessment: job.competitive_assessment || undefined,
                     volumes: job.volumes || {}
                 }
 
@@ -122,7 +137,7 @@ export const handleVolumeIterationFunction = inngest.createFunction(
                     data: { jobId, volume, iteration: iteration + 1 }
                 })
 
-                const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                const volumeKey = `volume${volume}`
                 const originalContent = context.volumes?.[volumeKey] || ''
 
                 if (!originalContent) {
@@ -142,6 +157,10 @@ export const handleVolumeIterationFunction = inngest.createFunction(
                     throw new Error(`Missing consultant insights for Volume ${volume}`)
                 }
 
+                // Page limit enforcement works on the rendered page count
+                const pageLimit = resolveVolumeStructure(context.volumeStructure).find(v => v.number === volume)?.page_limit ?? null
+                const currentCount = await countVolumePages(originalContent, context.rfpParsedData?.section_l.format, jobId)
+
                 // Execute rewriter
                 const result = await agentRewriter.execute(context, {
                     volume,
@@ -151,8 +170,9 @@ export const handleVolumeIterationFunction = inngest.createFunction(
                     rfpRequirements: JSON.stringify(context.rfpParsedData?.section_c.requirements || []),
                     iteration: iteration + 1,
                     pageLimits: {
-                        maxPages: context.volumePageLimits?.[`volume_${volume}_technical` as keyof typeof context.volumePageLimits] || 50,
-                        currentPages: Math.ceil(originalContent.length / 3000)
+                        maxPages: pageLimit,
+                        currentPages: currentCount.pages,
+                        sectionPages: currentCount.sections
                     }
                 })
 
@@ -167,7 +187,7 @@ export const handleVolumeIterationFunction = inngest.createFunction(
             // STEP 4: Save rewritten content
             // ================================================================
             await step.run('save-rewritten-content', async () => {
-                const volumeKey = `volume${volume}` as 'volume1' | 'volume2' | 'volume3' | 'volume4'
+                const volumeKey = `volume${volume}`
                 const rewrittenContent = rewriteResult.rewrittenContent
 
                 if (!rewrittenContent) {
@@ -187,7 +207,7 @@ export const handleVolumeIterationFunction = inngest.createFunction(
                 // Update context in database
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 const { data: currentJob } = await (supabase.from('proposal_jobs') as any)
-                    .select('volumes')
+                    .select('volumes, volume_progress')
                     .eq('job_id', jobId)
                     .single()
 
@@ -196,10 +216,24 @@ export const handleVolumeIterationFunction = inngest.createFunction(
                     [volumeKey]: rewrittenContent
                 }
 
+                // Rendered page usage of the rewritten volume
+                const progressKey = volumeOutlineKey(volume)
+                const updatedProgress = {
+                    ...currentJob?.volume_progress,
+                    [progressKey]: {
+                        ...currentJob?.volume_progress?.[progressKey],
+                        status: 'complete',
+                        pages: rewriteResult.pageCount ?? currentJob?.volume_progress?.[progressKey]?.pages ?? 0,
+                        rendered: rewriteResult.pagesRendered ?? false,
+                        section_pages: rewriteResult.sectionPages || [],
+                    }
+                }
+
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 await (supabase.from('proposal_jobs') as any)
                     .update({
                         volumes: updatedVolumes,
+                        volume_progress: updatedProgress,
                         updated_at: new Date().toISOString()
                     })
                     .eq('job_id', jobId)
@@ -230,6 +264,11 @@ export const handleVolumeIterationFunction = inngest.createFunction(
                     requirementScores: result.data.requirementScores || [],
                     strengths: result.data.strengths || [],
                     criticalGaps: result.data.criticalGaps || [],
+                    evaluationRating: result.data.evaluationRating,
+                    priceRealism: result.data.priceRealism,
+                    priceToWin: result.data.priceToWin,
+                    claimAudit: result.data.claimAudit,
+                    winThemes: result.data.winThemes,
                     overallScore: result.data.overallScore
                 })
 
@@ -0,0 +1,178 @@
+/**
+ * Compliance Matrix Workbook
+ *
+ * Excel version of the compliance matrix for the capture team and the
+ * contracting officer: one filterable row per requirement, plus the Section L
+ * instructions and Section M factors it is traced against.
+ */
+
+import { ContentOutlines, ProposalVolume, RfpParsedData } from '../database.types'
+import { buildFormatProfile } from '../format-profile'
+import { buildVolumeStructure, toRoman } from '../volume-structure'
+import { createXlsx, Worksheet } from './xlsx-writer'
+
+export interface ComplianceMatrixSources {
+    rfpParsedData: RfpParsedData
+    contentOutlines?: ContentOutlines | null
+    volumeStructure?: ProposalVolume[] | null
+}
+
+const AMENDMENT_LABELS = { added: 'Added', changed: 'Changed', deleted: 'Deleted' } as const
+
+/**
+ * One row per requirement: the Agent 3 matrix when it exists, otherwise the
+ * Section C requirements as extracted (status pending)
+ */
+function requirementsSheet(rfp: RfpParsedData, outlines: ContentOutlines | null | undefined, structure: ProposalVolume[]): Worksheet {
+    const requirements = rfp.section_c?.requirements || []
+    const byId = new Map(requirements.map(r => [r.id, r]))
+    const volumeLabel = (n: number) => {
+        const volume = structure.find(v => v.number === n)
+        return volume ? `Volume ${toRoman(n)}: ${volume.name}` : `Volume ${toRoman(n)}`
+    }
+
+    const matrix = outlines?.compliance_matrix || []
+    const rows = matrix.length > 0
+        ? matrix.map(row => {
+            const source = byId.get(row.req_id)
+            return [
+                row.req_id,
+                source?.section || '',
+                source?.text || row.requirement,
+                row.mandatory,
+                row.eval_factor,
+                row.volume ? volumeLabel(row.volume) : '',
+                row.section,
+                row.page_range,
+                row.status,
+                row.evidence,
+                row.amendment_status ? `${AMENDMENT_LABELS[row.amendment_status]}${row.amendment_id ? ` (${row.amendment_id})` : ''}` : '',
+            ]
+        })
+        : requirements.map(r => [
+            r.id,
+            r.section,
+            r.text,
+            r.mandatory,
+            r.eval_factor || '',
+            r.volume || '',
+            r.proposal_section || '',
+            r.page_range || '',
+            r.status || 'pending',
+            '',
+            '',
+        ])
+
+    return {
+        name: 'Compliance Matrix',
+        columns: [
+            { header: 'Req ID', width: 12 },
+            { header: 'RFP Section', width: 12 },
+            { header: 'Requirement', width: 60, format: 'wrap' },
+            { header: 'Mandatory', width: 11 },
+            { header: 'Eval Factor', width: 22, format: 'wrap' },
+            { header: 'Volume', width: 24, format: 'wrap' },
+            { header: 'Proposal Section', width: 28, format: 'wrap' },
+            { header: 'Page Range', width: 12 },
+            { header: 'Status', width: 14 },
+            { header: 'Evidence', width: 50, format: 'wrap' },
+            { header: 'Amendment', width: 16 },
+        ],
+        rows,
+    }
+}
+
+function sectionLSheet(rfp: RfpParsedData, structure: ProposalVolume[]): Worksheet {
+    const sectionL = rfp.section_l
+    const format = sectionL?.format
+    const profile = buildFormatProfile(format)
+
+    const rows: Array<Array<string | number>> = structure.map(volume => [
+        `Volume ${toRoman(volume.number)}: ${volume.name}`,
+        volume.required_contents.join('\n') || 'No specific contents listed',
+        volume.page_limit ?? 'No limit',
+        volume.eval_factors.join('\n'),
+    ])
+
+    // Only what Section L actually states; renderer defaults are not instructions
+    const label = (items: string[]) => items.join(', ').replace(/_/g, ' ')
+    const formatRows: Array<[string, string]> = [
+        ['Font', format?.font && format?.font_size ? `${format.font}, ${format.font_size}` : `${profile.font_family}, ${profile.font_size} pt`],
+        ['Margins', format?.margins || `${profile.margin_inches} inch`],
+        ['Line spacing', format?.spacing || 'Single'],
+    ]
+    if (format?.page_size) formatRows.push(['Page size', format.page_size])
+    if (format?.header?.length) formatRows.push(['Header', label(format.header)])
+    if (format?.footer?.length) formatRows.push(['Footer', label(format.footer)])
+    if (format?.page_numbering) formatRows.push(['Page numbering', label([format.page_numbering])])
+    if (format?.min_table_font_size) formatRows.push(['Minimum table font', format.min_table_font_size])
+    if (format?.excluded_pages?.length) formatRows.push(['Excluded from page count', label(format.excluded_pages)])
+
+    rows.push(...formatRows.map(([item, value]) => [`Format: ${item}`, value, '', '']))
+
+    const naming = sectionL?.submission_naming
+    if (naming?.instruction || naming?.file_pattern) {
+        rows.push(['File naming', naming.instruction || naming.file_pattern || '', '', ''])
+    }
+    for (const requirement of rfp.disqualifying_requirements || []) {
+        rows.push(['Disqualifying', requirement, '', ''])
+    }
+
+    return {
+        name: 'Section L Instructions',
+        columns: [
+            { header: 'Area', width: 30, format: 'wrap' },
+            { header: 'Instruction', width: 70, format: 'wrap' },
+            { header: 'Page Limit', width: 12 },
+            { header: 'Evaluation Factors', width: 36, format: 'wrap' },
+        ],
+        rows,
+    }
+}
+
+function sectionMSheet(rfp: RfpParsedData): Worksheet {
+    const sectionM = rfp.section_m
+    const rows: Array<Array<string | number>> = (sectionM?.factors || []).map(factor => [
+        factor.name,
+        factor.weight ?? '',
+        factor.description || '',
+    ])
+
+    const methodology = sectionM?.methodology
+    if (methodology) {
+        rows.push(['Basis for award', methodology.award_basis.replace(/_/g, ' ').toUpperCase(), methodology.basis_statement || ''])
+        for (const importance of methodology.relative_importance || []) {
+            rows.push(['Relative importance', importance.degree.replace(/_/g, ' '), importance.statement])
+        }
+        for (const rating of methodology.rating_scheme?.ratings || []) {
+            rows.push([`Rating: ${rating.rating}`, methodology.rating_scheme?.kind.replace(/_/g, ' ') || '', rating.description])
+        }
+    }
+    if (sectionM?.total_points) rows.push(['Total points', sectionM.total_points, ''])
+
+    return {
+        name: 'Section M Factors',
+        columns: [
+            { header: 'Factor', width: 34, format: 'wrap' },
+            { header: 'Weight', width: 22, format: 'wrap' },
+            { header: 'Description', width: 80, format: 'wrap' },
+        ],
+        rows,
+    }
+}
+
+/**
+ * Build the compliance matrix workbook (.xlsx)
+ */
+export function buildComplianceMatrixWorkbook(sources: ComplianceMatrixSources): Uint8Array {
+    const rfp = sources.rfpParsedData
+    const structure = sources.volumeStructure && sources.volumeStructure.length > 0
+        ? sources.volumeStructure
+        : buildVolumeStructure(rfp.section_l)
+
+    return createXlsx([
+        requirementsSheet(rfp, sources.contentOutlines, structure),
+        sectionLSheet(rfp, structure),
+        sectionMSheet(rfp),
+    ])
+}
@@ -0,0 +1,593 @@
+/**
+ * DOCX Exporter
+ *
+ * Converts volume HTML (headings, paragraphs, lists, tables, page breaks) into
+ * a Word document so proposal managers can do the final edits in Word. Fonts,
+ * sizes, spacing, margins, page size and the running header/footer come from
+ * the Section L format profile.
+ *
+ * Heading numbers are kept as literal heading text - Word list numbering would
+ * renumber them on the first edit - and every numbered heading gets a bookmark
+ * ("Section_2_1"), so compliance matrix references such as "2.1 Technical
+ * Approach" still point at the same heading after the round trip.
+ */
+
+import { FormatProfile } from '../database.types'
+import { pageDimensions, runningHeadText, RunningHeadLabels } from '../format-profile'
+import { createZip } from './zip-writer'
+
+export const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const TWIPS_PER_INCH = 1440
+
+// ============================================================================
+// HTML PARSING
+// Writer output is simple, mostly well-formed HTML - a small tolerant parser
+// is enough and keeps DOM libraries out of the serverless bundle.
+// ============================================================================
+
+interface HtmlElement {
+    tag: string
+    attrs: Record<string, string>
+    children: HtmlNode[]
+}
+
+type HtmlNode = HtmlElement | string
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'col', 'wbr'])
+const SKIPPED_TAGS = new Set(['head', 'style', 'script', 'title'])
+const BLOCK_TAGS = new Set([
+    'html', 'body', 'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'blockquote',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'hr',
+])
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    hellip: '…', bull: '•', copy: '©', reg: '®', trade: '™', sect: '§',
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+    })
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attrs: Record<string, string> = {}
+    for (const match of source.matchAll(/([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+        attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+    }
+    return attrs
+}
+
+/**
+ * Parse an HTML fragment or document into a tree, closing implied end tags
+ * (<p>, <li>, <td>) the way browsers do
+ */
+function parseHtml(html: string): HtmlElement {
+    const root: HtmlElement = { tag: '#root', attrs: {}, children: [] }
+    const stack: HtmlElement[] = [root]
+    const top = () => stack[stack.length - 1]
+    const closeTo = (tag: string) => {
+        const index = stack.map(e => e.tag).lastIndexOf(tag)
+        if (index > 0) stack.length = index
+    }
+
+    const tokens = /<!--[\s\S]*?-->|<![^>]*>|<\/\s*([a-zA-Z0-9]+)\s*>|<([a-zA-Z][a-zA-Z0-9]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|[^<]+|</g
+    let match: RegExpExecArray | null
+
+    while ((match = tokens.exec(html)) !== null) {
+        const [token, closing, opening, attrSource, selfClosing] = match
+
+        if (closing) {
+            closeTo(closing.toLowerCase())
+        } else if (opening) {
+            const tag = opening.toLowerCase()
+
+            if (SKIPPED_TAGS.has(tag)) {
+                const end = html.toLowerCase().indexOf(`</${tag}`, tokens.lastIndex)
+                tokens.lastIndex = end === -1 ? html.length : html.indexOf('>', end) + 1
+                continue
+            }
+
+            // Implied end tags
+            if (top().tag === 'p' && BLOCK_TAGS.has(tag)) stack.pop()
+            if (tag === 'li') closeTo('li')
+            if (tag === 'td' || tag === 'th') { closeTo('td'); closeTo('th') }
+            if (tag === 'tr') closeTo('tr')
+
+            const element: HtmlElement = { tag, attrs: parseAttributes(attrSource || ''), children: [] }
+            top().children.push(element)
+            if (!VOID_TAGS.has(tag) && !selfClosing) stack.push(element)
+        } else if (!token.startsWith('<!')) {
+            top().children.push(decodeEntities(token))
+        }
+    }
+
+    return root
+}
+
+function hasClass(element: HtmlElement, name: string): boolean {
+    return (element.attrs.class || '').split(/\s+/).includes(name)
+}
+
+function textContent(node: HtmlNode): string {
+    return typeof node === 'string' ? node : node.children.map(textContent).join('')
+}
+
+// ============================================================================
+// WORDPROCESSINGML
+// ============================================================================
+
+function escapeXml(text: string): string {
+    return text
+        // Control characters are not allowed in XML
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+interface RunStyle {
+    bold?: boolean
+    italic?: boolean
+    underline?: boolean
+    vertAlign?: 'superscript' | 'subscript'
+}
+
+type InlineSegment = { text: string; style: RunStyle } | { lineBreak: true }
+
+const INLINE_STYLES: Record<string, RunStyle> = {
+    strong: { bold: true },
+    b: { bold: true },
+    em: { italic: true },
+    i: { italic: true },
+    u: { underline: true },
+    sup: { vertAlign: 'superscript' },
+    sub: { vertAlign: 'subscript' },
+}
+
+function collectInline(nodes: HtmlNode[], style: RunStyle, segments: InlineSegment[]): void {
+    for (const node of nodes) {
+        if (typeof node === 'string') {
+            segments.push({ text: node.replace(/\s+/g, ' '), style })
+        } else if (node.tag === 'br') {
+            segments.push({ lineBreak: true })
+        } else if (node.tag !== 'img') {
+            collectInline(node.children, { ...style, ...INLINE_STYLES[node.tag] }, segments)
+        }
+    }
+}
+
+/**
+ * Inline HTML to runs - whitespace collapsed the way a browser renders it
+ */
+function runsXml(nodes: HtmlNode[], baseStyle: RunStyle = {}): string {
+    const segments: InlineSegment[] = []
+    collectInline(nodes, baseStyle, segments)
+
+    let previousEndsWithSpace = true
+    const runs: string[] = []
+    segments.forEach((segment, i) => {
+        if ('lineBreak' in segment) {
+            runs.push('<w:r><w:br/></w:r>')
+            previousEndsWithSpace = true
+            return
+        }
+
+        let text = previousEndsWithSpace ? segment.text.replace(/^ /, '') : segment.text
+        if (i === segments.length - 1) text = text.replace(/ $/, '')
+        if (!text) return
+        previousEndsWithSpace = text.endsWith(' ')
+
+        const props = [
+            segment.style.bold ? '<w:b/>' : '',
+            segment.style.italic ? '<w:i/>' : '',
+            segment.style.underline ? '<w:u w:val="single"/>' : '',
+            segment.style.vertAlign ? `<w:vertAlign w:val="${segment.style.vertAlign}"/>` : '',
+        ].join('')
+        runs.push(`<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`)
+    })
+
+    return runs.join('')
+}
+
+interface ParagraphOptions {
+    style?: string
+    align?: 'center' | 'both'
+    numbering?: { numId: number; level: number }
+    keepNext?: boolean
+    border?: boolean
+}
+
+function paragraphXml(content: string, options: ParagraphOptions = {}): string {
+    const props = [
+        options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+        options.keepNext ? '<w:keepNext/>' : '',
+        options.numbering ? `<w:numPr><w:ilvl w:val="${options.numbering.level}"/><w:numId w:val="${options.numbering.numId}"/></w:numPr>` : '',
+        options.border ? '<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="CCCCCC"/></w:pBdr>' : '',
+        options.align ? `<w:jc w:val="${options.align}"/>` : '',
+    ].join('')
+    return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`
+}
+
+const PAGE_BREAK = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>'
+
+function breaksBefore(element: HtmlElement): boolean {
+    return /page-break-before\s*:\s*always|break-before\s*:\s*page/i.test(element.attrs.style || '') || hasClass(element, 'page-break')
+}
+
+function breaksAfter(element: HtmlElement): boolean {
+    return /page-break-after\s*:\s*always|break-after\s*:\s*page/i.test(element.attrs.style || '') || hasClass(element, 'cover-page')
+}
+
+function alignment(element: HtmlElement, inherited?: ParagraphOptions['align']): ParagraphOptions['align'] {
+    const textAlign = (element.attrs.style || '').match(/text-align\s*:\s*(\w+)/i)?.[1]?.toLowerCase()
+    if (textAlign === 'center') return 'center'
+    if (textAlign === 'justify') return 'both'
+    if (textAlign === 'left') return undefined
+    return hasClass(element, 'cover-page') || hasClass(element, 'volume-header') ? 'center' : inherited
+}
+
+interface BlockContext {
+    align?: ParagraphOptions['align']
+    paragraphStyle?: string // TableText inside tables
+    listLevel: number
+    numbering: NumberingRegistry
+    bookmarks: BookmarkRegistry
+    printableWidth: number // Twips
+}
+
+class NumberingRegistry {
+    static readonly BULLET_NUM_ID = 1
+    private orderedLists = 0
+
+    /** Each <ol> restarts at 1 - one numbering instance per list */
+    nextOrderedList(): number {
+        this.orderedLists++
+        return NumberingRegistry.BULLET_NUM_ID + this.orderedLists
+    }
+
+    get orderedListCount(): number {
+        return this.orderedLists
+    }
+}
+
+class BookmarkRegistry {
+    private names = new Set<string>()
+
+    /** Bookmark for a numbered heading ("2.1 Technical Approach" -> Section_2_1) */
+    wrap(headingText: string, runs: string): string {
+        const number = headingText.trim().match(/^(?:section\s+)?(\d+(?:\.\d+)*)\.?\s/i)?.[1]
+        if (!number) return runs
+
+        const name = `Section_${number.replace(/\./g, '_')}`
+        if (this.names.has(name)) return runs
+
+        this.names.add(name)
+        const id = this.names.size
+        return `<w:bookmarkStart w:id="${id}" w:name="${name}"/>${runs}<w:bookmarkEnd w:id="${id}"/>`
+    }
+}
+
+/**
+ * Block-level HTML to paragraphs and tables
+ */
+function blocksXml(nodes: HtmlNode[], context: BlockContext): string[] {
+    const blocks: string[] = []
+    let inline: HtmlNode[] = []
+
+    // Loose inline content between blocks becomes its own paragraph
+    const flushInline = () => {
+        if (inline.some(n => textContent(n).trim())) {
+            blocks.push(paragraphXml(runsXml(inline), { style: context.paragraphStyle, align: context.align }))
+        }
+        inline = []
+    }
+
+    for (const node of nodes) {
+        if (typeof node === 'string' || !BLOCK_TAGS.has(node.tag)) {
+            inline.push(node)
+            continue
+        }
+
+        flushInline()
+        if (breaksBefore(node)) blocks.push(PAGE_BREAK)
+        const align = alignment(node, context.align)
+
+        switch (node.tag) {
+            case 'h1':
+            case 'h2':
+            case 'h3':
+            case 'h4':
+            case 'h5':
+            case 'h6': {
+                const level = Math.min(parseInt(node.tag[1], 10), 4)
+                const runs = context.bookmarks.wrap(textContent(node), runsXml(node.children))
+                blocks.push(paragraphXml(runs, { style: `Heading${level}`, align }))
+                break
+            }
+            case 'p':
+                blocks.push(paragraphXml(runsXml(node.children), { style: context.paragraphStyle, align }))
+                break
+            case 'ul':
+            case 'ol':
+                blocks.push(...listXml(node, context))
+                break
+            case 'table':
+                blocks.push(tableXml(node, context))
+                break
+            case 'hr':
+                blocks.push(paragraphXml('', { border: true }))
+                break
+            default:
+                // Containers (div, section, stray li/tr/td outside their parents)
+                blocks.push(...blocksXml(node.children, { ...context, align }))
+        }
+
+        if (breaksAfter(node)) blocks.push(PAGE_BREAK)
+    }
+
+    flushInline()
+    return blocks
+}
+
+function listXml(list: HtmlElement, context: BlockContext): string[] {
+    const numId = list.tag === 'ol' ? context.numbering.nextOrderedList() : NumberingRegistry.BULLET_NUM_ID
+    const level = Math.min(context.listLevel, 2)
+    const blocks: string[] = []
+
+    for (const item of list.children) {
+        if (typeof item === 'string' || item.tag !== 'li') continue
+
+        const nested = item.children.filter((c): c is HtmlElement => typeof c !== 'string' && (c.tag === 'ul' || c.tag === 'ol'))
+        const content = item.children.filter(c => !nested.includes(c as HtmlElement))
+        blocks.push(paragraphXml(runsXml(content), {
+            style: context.paragraphStyle || 'ListParagraph',
+            numbering: { numId, level },
+        }))
+        for (const sublist of nested) {
+            blocks.push(...listXml(sublist, { ...context, listLevel: context.listLevel + 1 }))
+        }
+    }
+
+    return blocks
+}
+
+function tableRows(table: HtmlElement): HtmlElement[] {
+    return table.children.flatMap(child => {
+        if (typeof child === 'string') return []
+        if (child.tag === 'tr') return [child]
+        if (['thead', 'tbody', 'tfoot'].includes(child.tag)) {
+            return child.children.filter((r): r is HtmlElement => typeof r !== 'string' && r.tag === 'tr')
+        }
+        return []
+    })
+}
+
+function tableXml(table: HtmlElement, context: BlockContext): string {
+    const rows = tableRows(table).map(row =>
+        row.children.filter((c): c is HtmlElement => typeof c !== 'string' && (c.tag === 'td' || c.tag === 'th'))
+    )
+    const span = (cell: HtmlElement) => Math.max(1, parseInt(cell.attrs.colspan || '1', 10) || 1)
+    const columns = Math.max(1, ...rows.map(cells => cells.reduce((sum, c) => sum + span(c), 0)))
+    const columnWidth = Math.floor(context.printableWidth / columns)
+    const cellContext: BlockContext = { ...context, paragraphStyle: 'TableText', align: undefined, listLevel: 0 }
+
+    const rowsXml = rows.map(cells => {
+        const header = cells.length > 0 && cells.every(c => c.tag === 'th')
+        const cellsXml = cells.map(cell => {
+            const content = cell.tag === 'th'
+                ? [paragraphXml(runsXml(cell.children, { bold: true }), { style: 'TableText' })]
+                : blocksXml(cell.children, cellContext)
+            const props = [
+                `<w:tcW w:w="${columnWidth * span(cell)}" w:type="dxa"/>`,
+                span(cell) > 1 ? `<w:gridSpan w:val="${span(cell)}"/>` : '',
+                cell.tag === 'th' ? '<w:shd w:val="clear" w:color="auto" w:fill="D9E2F3"/>' : '',
+            ].join('')
+            // Every cell must end with a paragraph (and so needs at least one)
+            const last = content[content.length - 1] || ''
+            return `<w:tc><w:tcPr>${props}</w:tcPr>${content.join('')}${last.startsWith('<w:p') ? '' : '<w:p/>'}</w:tc>`
+        }).join('')
+        // Header rows repeat on every page, rows do not split across pages
+        return `<w:tr><w:trPr><w:cantSplit/>${header ? '<w:tblHeader/>' : ''}</w:trPr>${cellsXml}</w:tr>`
+    }).join('')
+
+    const grid = Array.from({ length: columns }, () => `<w:gridCol w:w="${columnWidth}"/>`).join('')
+    return `<w:tbl><w:tblPr><w:tblStyle w:val="ProposalTable"/><w:tblW w:w="${columnWidth * columns}" w:type="dxa"/><w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${rowsXml}</w:tbl>`
+}
+
+// ============================================================================
+// PACKAGE PARTS
+// ============================================================================
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+const W_NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+
+function stylesXml(profile: FormatProfile): string {
+    const font = escapeXml(profile.font_family)
+    const halfPoints = (points: number) => Math.round(points * 2)
+    const heading = (level: number, points: number) => `
+    <w:style w:type="paragraph" w:styleId="Heading${level}">
+        <w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+        <w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>
+        <w:rPr><w:b/><w:sz w:val="${halfPoints(points)}"/><w:szCs w:val="${halfPoints(points)}"/></w:rPr>
+    </w:style>`
+
+    return `${XML_HEADER}
+<w:styles ${W_NAMESPACES}>
+    <w:docDefaults>
+        <w:rPrDefault><w:rPr>
+            <w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>
+            <w:sz w:val="${halfPoints(profile.font_size)}"/><w:szCs w:val="${halfPoints(profile.font_size)}"/>
+        </w:rPr></w:rPrDefault>
+        <w:pPrDefault><w:pPr>
+            <w:spacing w:after="120" w:line="${Math.round(profile.line_height * 240)}" w:lineRule="auto"/>
+        </w:pPr></w:pPrDefault>
+    </w:docDefaults>
+    <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${
+        heading(1, profile.font_size + 6)}${
+        heading(2, profile.font_size + 2)}${
+        heading(3, profile.font_size + 1)}${
+        heading(4, profile.font_size)}
+    <w:style w:type="paragraph" w:styleId="ListParagraph">
+        <w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/>
+        <w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr>
+    </w:style>
+    <w:style w:type="paragraph" w:styleId="TableText">
+        <w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:qFormat/>
+        <w:pPr><w:spacing w:before="40" w:after="40" w:line="240" w:lineRule="auto"/></w:pPr>
+        <w:rPr><w:sz w:val="${halfPoints(profile.min_table_font_size)}"/><w:szCs w:val="${halfPoints(profile.min_table_font_size)}"/></w:rPr>
+    </w:style>
+    <w:style w:type="paragraph" w:styleId="Header">
+        <w:name w:val="header"/><w:basedOn w:val="Normal"/>
+        <w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:color w:val="444444"/><w:sz w:val="16"/><w:szCs w:val="16"/></w:rPr>
+    </w:style>
+    <w:style w:type="paragraph" w:styleId="Footer">
+        <w:name w:val="footer"/><w:basedOn w:val="Header"/>
+    </w:style>
+    <w:style w:type="table" w:styleId="ProposalTable">
+        <w:name w:val="Proposal Table"/>
+        <w:tblPr>
+            <w:tblBorders>
+                <w:top w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:left w:val="single" w:sz="4" w:space="0" w:color="999999"/>
+                <w:bottom w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:right w:val="single" w:sz="4" w:space="0" w:color="999999"/>
+                <w:insideH w:val="single" w:sz="4" w:space="0" w:color="999999"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="999999"/>
+            </w:tblBorders>
+            <w:tblCellMar><w:left w:w="100" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar>
+        </w:tblPr>
+    </w:style>
+</w:styles>`
+}
+
+function numberingXml(orderedLists: number): string {
+    const level = (ilvl: number, format: string, text: string) =>
+        `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+        `<w:pPr><w:ind w:left="${720 * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+
+    const orderedNums = Array.from({ length: orderedLists }, (_, i) =>
+        `<w:num w:numId="${NumberingRegistry.BULLET_NUM_ID + i + 1}"><w:abstractNumId w:val="1"/>` +
+        `<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`
+    ).join('')
+
+    return `${XML_HEADER}
+<w:numbering ${W_NAMESPACES}>
+    <w:abstractNum w:abstractNumId="0">${level(0, 'bullet', '•')}${level(1, 'bullet', 'o')}${level(2, 'bullet', '▪')}</w:abstractNum>
+    <w:abstractNum w:abstractNumId="1">${level(0, 'decimal', '%1.')}${level(1, 'lowerLetter', '%2.')}${level(2, 'lowerRoman', '%3.')}</w:abstractNum>
+    <w:num w:numId="${NumberingRegistry.BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>${orderedNums}
+</w:numbering>`
+}
+
+const PAGE_FIELDS: Record<FormatProfile['page_numbering'], (numeral?: string) => string> = {
+    page_x_of_y: () => 'Page <PAGE> of <NUMPAGES>',
+    page_x: () => 'Page <PAGE>',
+    volume_page: numeral => `${numeral ? `${numeral}-` : ''}<PAGE>`,
+    none: () => '',
+}
+
+function fieldRuns(template: string): string {
+    return template
+        .split(/(<PAGE>|<NUMPAGES>)/)
+        .filter(Boolean)
+        .map(part => part === '<PAGE>' || part === '<NUMPAGES>'
+            ? `<w:fldSimple w:instr=" ${part.slice(1, -1)} "><w:r><w:t>1</w:t></w:r></w:fldSimple>`
+            : `<w:r><w:t xml:space="preserve">${escapeXml(part)}</w:t></w:r>`)
+        .join('')
+}
+
+function headerFooterXml(kind: 'hdr' | 'ftr', text: string, pageNumber: string, printableWidth: number): string {
+    const style = kind === 'hdr' ? 'Header' : 'Footer'
+    // Running text on the left, page number right-aligned
+    const tab = pageNumber ? `<w:r><w:tab/></w:r>${fieldRuns(pageNumber)}` : ''
+    return `${XML_HEADER}
+<w:${kind} ${W_NAMESPACES}>
+    <w:p><w:pPr><w:pStyle w:val="${style}"/><w:tabs><w:tab w:val="right" w:pos="${printableWidth}"/></w:tabs></w:pPr>${fieldRuns(text)}${tab}</w:p>
+</w:${kind}>`
+}
+
+export interface DocxOptions extends RunningHeadLabels {
+    title: string
+}
+
+/**
+ * Convert volume HTML (fragment or full document) to a .docx file
+ */
+export function htmlToDocx(html: string, profile: FormatProfile, options: DocxOptions): Uint8Array {
+    const { width, height } = pageDimensions(profile)
+    const margin = Math.round(profile.margin_inches * TWIPS_PER_INCH)
+    const printableWidth = Math.round(width * TWIPS_PER_INCH) - margin * 2
+
+    const context: BlockContext = {
+        listLevel: 0,
+        numbering: new NumberingRegistry(),
+        bookmarks: new BookmarkRegistry(),
+        printableWidth,
+    }
+    const body = blocksXml(parseHtml(html).children, context).join('\n')
+
+    const running = runningHeadText(options)
+    const headerText = profile.header.map(item => running[item]).join('  |  ')
+    const footerText = profile.footer.map(item => running[item]).join('  |  ')
+    const pageNumber = PAGE_FIELDS[profile.page_numbering](options.volumeNumeral)
+    // Running head sits halfway into the margin
+    const headerDistance = Math.min(720, Math.round(margin / 2))
+
+    const documentXml = `${XML_HEADER}
+<w:document ${W_NAMESPACES}>
+<w:body>
+${body}
+<w:sectPr>
+    <w:headerReference w:type="default" r:id="rId3"/>
+    <w:footerReference w:type="default" r:id="rId4"/>
+    <w:pgSz w:w="${Math.round(width * TWIPS_PER_INCH)}" w:h="${Math.round(height * TWIPS_PER_INCH)}"/>
+    <w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="${headerDistance}" w:footer="${headerDistance}" w:gutter="0"/>
+</w:sectPr>
+</w:body>
+</w:document>`
+
+    const encoder = new TextEncoder()
+    const part = (name: string, xml: string) => ({ name, data: encoder.encode(xml) })
+
+    return createZip([
+        part('[Content_Types].xml', `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+    <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+    <Default Extension="xml" ContentType="application/xml"/>
+    <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+    <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+    <Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+    <Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+    <Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+    <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`),
+        part('_rels/.rels', `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+    <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+    <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`),
+        part('docProps/core.xml', `${XML_HEADER}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+    <dc:title>${escapeXml(options.title)}</dc:title>
+    <dc:creator>${escapeXml(options.companyName)}</dc:creator>
+    <dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>
+</cp:coreProperties>`),
+        part('word/_rels/document.xml.rels', `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+    <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+    <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+    <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+    <Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+</Relationships>`),
+        part('word/document.xml', documentXml),
+        part('word/styles.xml', stylesXml(profile)),
+        part('word/numbering.xml', numberingXml(context.numbering.orderedListCount)),
+        part('word/header1.xml', headerFooterXml('hdr', headerText, '', printableWidth)),
+        part('word/footer1.xml', headerFooterXml('ftr', footerText, pageNumber, printableWidth)),
+    ])
+}
@@ -0,0 +1,81 @@
+/**
+ * Submission File Naming
+ *
+ * Section L often dictates electronic file names ("[Offeror]_[Solicitation]_Volume
+ * I_Technical.pdf"); a misnamed file can be rejected by the contracting office.
+ * Agent 1 turns the instruction into patterns; these helpers fill them in.
+ */
+
+import { ProposalVolume, SubmissionNaming } from '../database.types'
+import { toRoman } from '../volume-structure'
+
+const DEFAULT_FILE_PATTERN = 'Volume_{volume}_{volume_name}'
+const DEFAULT_PACKAGE_PATTERN = '{solicitation}_{offeror}_Proposal'
+
+// Placeholders that tell one volume's file apart from another's
+const VOLUME_PLACEHOLDERS = /\{(?:volume|volume_number|volume_name)\}/
+
+export interface NamingValues {
+    offeror: string
+    solicitation: string
+}
+
+/**
+ * Strip characters Windows and agency portals reject from a file name. The
+ * result is plain ASCII so it can also go into a Content-Disposition header.
+ */
+export function safeFileName(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '') // "é" -> "e"
+        .replace(/[\u2018\u2019\u201b\u2032]/g, "'")
+        .replace(/[\u2010-\u2015]/g, '-')
+        .replace(/[^\x20-\x7e]+/g, '_')
+        .replace(/[\\/:*?"<>|]+/g, '_')
+        .replace(/\s+/g, '_')
+        .replace(/_+/g, '_')
+        .replace(/^[_.]+|[_.]+$/g, '')
+}
+
+function fillPattern(pattern: string, values: Record<string, string>): string {
+    return pattern.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? '')
+}
+
+/**
+ * File name for one volume, e.g. "Volume_II_Management.pdf"
+ */
+export function volumeFileName(
+    naming: SubmissionNaming | undefined,
+    volume: ProposalVolume,
+    values: NamingValues,
+    extension: string
+): string {
+    let pattern = naming?.file_pattern?.trim() || DEFAULT_FILE_PATTERN
+    // A pattern without a volume placeholder would give every volume the same name
+    if (!VOLUME_PLACEHOLDERS.test(pattern)) pattern += '_Volume_{volume}'
+
+    const name = fillPattern(pattern, {
+        offeror: values.offeror,
+        solicitation: values.solicitation,
+        volume: toRoman(volume.number),
+        volume_number: String(volume.number),
+        volume_name: volume.name,
+    })
+    return `${safeFileName(name)}.${extension}`
+}
+
+/**
+ * Name of the submission ZIP
+ */
+export function packageFileName(naming: SubmissionNaming | undefined, values: NamingValues): string {
+    const pattern = naming?.package_pattern?.trim() || DEFAULT_PACKAGE_PATTERN
+    const name = fillPattern(pattern, { offeror: values.offeror, solicitation: values.solicitation })
+    return `${safeFileName(name) || 'Proposal'}.zip`
+}
+
+/**
+ * Name of a package-level document, e.g. "W912DY-25-R-0001_Acme_Compliance_Matrix.xlsx"
+ */
+export function documentFileName(values: NamingValues, document: string, extension: string): string {
+    return `${safeFileName(`${values.solicitation}_${values.offeror}_${document}`) || safeFileName(document)}.${extension}`
+}
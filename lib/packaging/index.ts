@@ -0,0 +1,32 @@
+/**
+ * Submission Packaging
+ *
+ * Agent 8 renders each volume to a file (PDF for submission, DOCX for final
+ * edits in Word), exports the compliance matrix to Excel and stores them
+ * here; the package download endpoint reads the stored PDFs back
+ * (checksum-verified) and bundles them into one ZIP named per Section L.
+ */
+
+import { StoredPackageFile } from '../database.types'
+import { readPackageFile } from './storage'
+import { createZip } from './zip-writer'
+
+export { storePackageFile, readPackageFile, PROPOSAL_PACKAGES_BUCKET } from './storage'
+export { documentFileName, packageFileName, safeFileName, volumeFileName } from './file-naming'
+export { DOCX_CONTENT_TYPE, htmlToDocx } from './docx-exporter'
+export { XLSX_CONTENT_TYPE, createXlsx } from './xlsx-writer'
+export { buildComplianceMatrixWorkbook } from './compliance-matrix-workbook'
+export type { NamingValues } from './file-naming'
+export type { Worksheet, WorksheetColumn, CellInput } from './xlsx-writer'
+export type { ComplianceMatrixSources } from './compliance-matrix-workbook'
+
+/**
+ * Bundle stored submission files into one ZIP, in the order given
+ */
+export async function buildSubmissionZip(files: StoredPackageFile[]): Promise<Uint8Array> {
+    const entries = []
+    for (const file of files) {
+        entries.push({ name: file.file_name, data: await readPackageFile(file) })
+    }
+    return createZip(entries)
+}
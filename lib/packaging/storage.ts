@@ -0,0 +1,137 @@
+/**
+ * Submission Package Storage
+ *
+ * Generated submission files (volume PDFs, workbooks) are kept in Supabase
+ * Storage by default. Set PACKAGE_STORAGE_BACKEND=local to write them to the
+ * local filesystem instead (PACKAGE_STORAGE_DIR, default ./.proposal-packages),
+ * e.g. for self-hosted installs without a storage bucket.
+ *
+ * Every stored file records its size and SHA-256 so the package can be
+ * verified when it is downloaded.
+ */
+
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { supabase } from '../supabase'
+import { logger } from '../logger'
+import { StoredPackageFile } from '../database.types'
+
+export const PROPOSAL_PACKAGES_BUCKET = 'proposal-packages'
+
+interface PackageStorageBackend {
+    put(filePath: string, data: Uint8Array, contentType: string): Promise<void>
+    get(filePath: string): Promise<Uint8Array>
+}
+
+const supabaseBackend: PackageStorageBackend = {
+    async put(filePath, data, contentType) {
+        const { error } = await supabase.storage
+            .from(PROPOSAL_PACKAGES_BUCKET)
+            .upload(filePath, data, { contentType, upsert: true })
+
+        if (error) {
+            throw new Error(`Failed to store package file: ${error.message}`)
+        }
+    },
+
+    async get(filePath) {
+        const { data, error } = await supabase.storage
+            .from(PROPOSAL_PACKAGES_BUCKET)
+            .download(filePath)
+
+        if (error || !data) {
+            throw new Error(`Failed to read package file ${filePath}: ${error?.message || 'no data returned'}`)
+        }
+
+        return new Uint8Array(await data.arrayBuffer())
+    },
+}
+
+function localRoot(): string {
+    return path.resolve(process.env.PACKAGE_STORAGE_DIR || path.join(process.cwd(), '.proposal-packages'))
+}
+
+/**
+ * Resolve a storage path under the local root (never outside it)
+ */
+function localPath(filePath: string): string {
+    const root = localRoot()
+    const resolved = path.resolve(root, filePath)
+    if (!resolved.startsWith(root + path.sep)) {
+        throw new Error(`Invalid package file path: ${filePath}`)
+    }
+    return resolved
+}
+
+const localBackend: PackageStorageBackend = {
+    async put(filePath, data) {
+        const target = localPath(filePath)
+        await mkdir(path.dirname(target), { recursive: true })
+        await writeFile(target, data)
+    },
+
+    async get(filePath) {
+        return new Uint8Array(await readFile(localPath(filePath)))
+    },
+}
+
+const BACKENDS: Record<StoredPackageFile['storage'], PackageStorageBackend> = {
+    supabase: supabaseBackend,
+    local: localBackend,
+}
+
+function activeBackend(): StoredPackageFile['storage'] {
+    return process.env.PACKAGE_STORAGE_BACKEND === 'local' ? 'local' : 'supabase'
+}
+
+export function sha256(data: Uint8Array): string {
+    return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Store a generated submission file
+ * @param fileName - Name inside the submission package (Section L naming)
+ */
+export async function storePackageFile(
+    jobId: string,
+    fileName: string,
+    data: Uint8Array,
+    contentType: string
+): Promise<StoredPackageFile> {
+    const storage = activeBackend()
+    const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_')
+    const filePath = `${jobId}/final/${safeName}`
+
+    await BACKENDS[storage].put(filePath, data, contentType)
+
+    const stored: StoredPackageFile = {
+        path: filePath,
+        file_name: fileName,
+        content_type: contentType,
+        size: data.length,
+        sha256: sha256(data),
+        storage,
+        created_at: new Date().toISOString(),
+    }
+
+    logger.info('[Packaging] Stored submission file', {
+        jobId,
+        data: { path: filePath, storage, sizeKB: Math.round(data.length / 1024) },
+    })
+
+    return stored
+}
+
+/**
+ * Read a stored submission file back, verifying it against its recorded checksum
+ */
+export async function readPackageFile(file: StoredPackageFile): Promise<Uint8Array> {
+    const data = await BACKENDS[file.storage].get(file.path)
+
+    if (data.length !== file.size || sha256(data) !== file.sha256) {
+        throw new Error(`Package file ${file.file_name} does not match its recorded checksum`)
+    }
+
+    return data
+}
@@ -0,0 +1,198 @@
+/**
+ * Minimal XLSX Writer
+ *
+ * Builds Excel workbooks (compliance matrix, cost workbook) from plain sheet
+ * definitions: a header row with filters and a frozen pane, typed columns
+ * (wrapped text, currency, percent, number) and formulas that Excel
+ * recalculates when the workbook opens.
+ */
+
+import { createZip } from './zip-writer'
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+export type ColumnFormat = 'general' | 'wrap' | 'currency' | 'percent' | 'number'
+
+export interface WorksheetColumn {
+    header: string
+    width?: number // Characters
+    format?: ColumnFormat
+}
+
+export interface FormulaCell {
+    formula: string // Without the leading "=": "SUM(D2:D10)"
+    bold?: boolean
+}
+
+export interface ValueCell {
+    value: string | number | null
+    bold?: boolean
+}
+
+export type CellInput = string | number | boolean | null | undefined | FormulaCell | ValueCell
+
+export interface Worksheet {
+    name: string
+    columns: WorksheetColumn[]
+    rows: CellInput[][]
+    filter?: boolean // Auto-filter on the header row (default true)
+}
+
+const FORMATS: ColumnFormat[] = ['general', 'wrap', 'currency', 'percent', 'number']
+
+// Custom number formats (ids from 164 up are user-defined)
+const NUMBER_FORMATS: Partial<Record<ColumnFormat, number>> = {
+    currency: 164,
+    percent: 165,
+    number: 4, // Built-in #,##0.00
+}
+
+// Cell style index: 0 = default, then plain/bold per format, then the header style
+function styleIndex(format: ColumnFormat, bold: boolean): number {
+    return 1 + FORMATS.indexOf(format) * 2 + (bold ? 1 : 0)
+}
+const HEADER_STYLE = 1 + FORMATS.length * 2
+
+function escapeXml(text: string): string {
+    return text
+        // Control characters are not allowed in XML
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+/**
+ * Zero-based column index to its letters (0 -> A, 27 -> AB)
+ */
+export function columnLetter(index: number): string {
+    let letters = ''
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+    }
+    return letters
+}
+
+/**
+ * Excel sheet names: at most 31 characters, none of []:*?/\
+ */
+function sheetName(name: string): string {
+    return name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet'
+}
+
+function cellXml(ref: string, input: CellInput, format: ColumnFormat): string {
+    if (input === null || input === undefined || input === '') return ''
+
+    if (typeof input === 'object' && 'formula' in input) {
+        return `<c r="${ref}" s="${styleIndex(format, !!input.bold)}"><f>${escapeXml(input.formula)}</f></c>`
+    }
+
+    const value = typeof input === 'object' ? input.value : input
+    const bold = typeof input === 'object' && !!input.bold
+    if (value === null || value === '') return ''
+
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? `<c r="${ref}" s="${styleIndex(format, bold)}"><v>${value}</v></c>` : ''
+    }
+
+    const text = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value
+    // Excel caps a cell at 32,767 characters
+    return `<c r="${ref}" s="${styleIndex(format, bold)}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text.slice(0, 32767))}</t></is></c>`
+}
+
+function worksheetXml(sheet: Worksheet): string {
+    const lastColumn = columnLetter(Math.max(sheet.columns.length - 1, 0))
+    const lastRow = sheet.rows.length + 1
+
+    const cols = sheet.columns
+        .map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width ?? 14}" customWidth="1"/>`)
+        .join('')
+
+    const header = `<row r="1">${sheet.columns
+        .map((c, i) => `<c r="${columnLetter(i)}1" s="${HEADER_STYLE}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(c.header)}</t></is></c>`)
+        .join('')}</row>`
+
+    const rows = sheet.rows.map((row, r) => {
+        const cells = row.map((input, c) => cellXml(`${columnLetter(c)}${r + 2}`, input, sheet.columns[c]?.format || 'general')).join('')
+        return `<row r="${r + 2}">${cells}</row>`
+    }).join('')
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+    <sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+    <sheetFormatPr defaultRowHeight="15"/>
+    <cols>${cols}</cols>
+    <sheetData>${header}${rows}</sheetData>${sheet.filter === false ? '' : `
+    <autoFilter ref="A1:${lastColumn}${lastRow}"/>`}
+</worksheet>`
+}
+
+function stylesXml(): string {
+    const thin = '<left style="thin"><color rgb="FF999999"/></left><right style="thin"><color rgb="FF999999"/></right>' +
+        '<top style="thin"><color rgb="FF999999"/></top><bottom style="thin"><color rgb="FF999999"/></bottom><diagonal/>'
+
+    const formatXfs = FORMATS.flatMap(format => [false, true].map(bold => {
+        const numFmt = NUMBER_FORMATS[format] ?? 0
+        return `<xf numFmtId="${numFmt}" fontId="${bold ? 1 : 0}" fillId="0" borderId="1" xfId="0" applyBorder="1"${numFmt ? ' applyNumberFormat="1"' : ''}${bold ? ' applyFont="1"' : ''} applyAlignment="1">` +
+            `<alignment vertical="top"${format === 'wrap' ? ' wrapText="1"' : ''}/></xf>`
+    }))
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+    <numFmts count="2"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/><numFmt numFmtId="165" formatCode="0.0%"/></numFmts>
+    <fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+    <fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFD9E2F3"/><bgColor indexed="64"/></patternFill></fill></fills>
+    <borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border><border>${thin}</border></borders>
+    <cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+    <cellXfs count="${formatXfs.length + 2}">
+        <xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+        ${formatXfs.join('\n        ')}
+        <xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyFont="1" applyFill="1" applyBorder="1" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>
+    </cellXfs>
+    <cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`
+}
+
+/**
+ * Build an .xlsx workbook, one worksheet per sheet definition
+ */
+export function createXlsx(sheets: Worksheet[]): Uint8Array {
+    const names = sheets.map(s => sheetName(s.name))
+    const encoder = new TextEncoder()
+    const part = (name: string, xml: string) => ({ name, data: encoder.encode(xml) })
+
+    // Excel expects the filter range as a hidden defined name per sheet
+    const filterNames = sheets
+        .map((sheet, i) => sheet.filter === false ? '' :
+            `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">'${escapeXml(names[i].replace(/'/g, "''"))}'!$A$1:$${columnLetter(Math.max(sheet.columns.length - 1, 0))}$${sheet.rows.length + 1}</definedName>`)
+        .join('')
+
+    return createZip([
+        part('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+    <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+    <Default Extension="xml" ContentType="application/xml"/>
+    <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+    <Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+    ${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n    ')}
+</Types>`),
+        part('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+    <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`),
+        part('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+    <sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>${filterNames ? `
+    <definedNames>${filterNames}</definedNames>` : ''}
+    <calcPr calcId="191029" fullCalcOnLoad="1"/>
+</workbook>`),
+        part('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+    ${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n    ')}
+    <Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`),
+        part('xl/styles.xml', stylesXml()),
+        ...sheets.map((sheet, i) => part(`xl/worksheets/sheet${i + 1}.xml`, worksheetXml(sheet))),
+    ])
+}
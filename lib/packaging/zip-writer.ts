@@ -0,0 +1,118 @@
+/**
+ * Minimal ZIP Writer
+ *
+ * Counterpart of the ingestion ZIP reader: builds the submission package
+ * archive. Entries are DEFLATE-compressed unless compression does not help
+ * (PDFs are already compressed), in which case they are STORED.
+ */
+
+import { deflateRawSync } from 'zlib'
+import type { ZipEntry } from '../ingestion/zip-reader'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+// Bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+        }
+        table[n] = c >>> 0
+    }
+    return table
+})()
+
+export function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * MS-DOS date/time fields
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    }
+}
+
+/**
+ * Build a ZIP archive from file entries (names may contain folders: "Attachments/J-1.pdf")
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+    const encoder = new TextEncoder()
+    const stamp = dosDateTime(modified)
+    const localParts: Uint8Array[] = []
+    const centralParts: Uint8Array[] = []
+    let offset = 0
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name)
+        const deflated = new Uint8Array(deflateRawSync(entry.data))
+        const useDeflate = deflated.length < entry.data.length
+        const body = useDeflate ? deflated : entry.data
+        const crc = crc32(entry.data)
+
+        const local = new DataView(new ArrayBuffer(30))
+        local.setUint32(0, LOCAL_FILE_HEADER, true)
+        local.setUint16(4, 20, true) // Version needed: 2.0
+        local.setUint16(6, UTF8_FLAG, true)
+        local.setUint16(8, useDeflate ? 8 : 0, true)
+        local.setUint16(10, stamp.time, true)
+        local.setUint16(12, stamp.date, true)
+        local.setUint32(14, crc, true)
+        local.setUint32(18, body.length, true)
+        local.setUint32(22, entry.data.length, true)
+        local.setUint16(26, name.length, true)
+        local.setUint16(28, 0, true)
+
+        const central = new DataView(new ArrayBuffer(46))
+        central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+        central.setUint16(4, 20, true) // Version made by
+        central.setUint16(6, 20, true) // Version needed
+        central.setUint16(8, UTF8_FLAG, true)
+        central.setUint16(10, useDeflate ? 8 : 0, true)
+        central.setUint16(12, stamp.time, true)
+        central.setUint16(14, stamp.date, true)
+        central.setUint32(16, crc, true)
+        central.setUint32(20, body.length, true)
+        central.setUint32(24, entry.data.length, true)
+        central.setUint16(28, name.length, true)
+        central.setUint32(42, offset, true)
+
+        localParts.push(new Uint8Array(local.buffer), name, body)
+        centralParts.push(new Uint8Array(central.buffer), name)
+        offset += 30 + name.length + body.length
+    }
+
+    if (offset > 0xffffffff || entries.length > 0xffff) {
+        throw new Error('Package too large for a ZIP archive without ZIP64')
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+    end.setUint16(8, entries.length, true)
+    end.setUint16(10, entries.length, true)
+    end.setUint32(12, centralSize, true)
+    end.setUint32(16, offset, true)
+
+    const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+    const zip = new Uint8Array(offset + centralSize + 22)
+    let position = 0
+    for (const part of parts) {
+        zip.set(part, position)
+        position += part.length
+    }
+    return zip
+}
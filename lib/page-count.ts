@@ -0,0 +1,58 @@
+/**
+ * Volume Page Counts
+ *
+ * Evaluators throw out pages beyond a Section L page limit, so page counts come
+ * from rendering the volume through pdf-generator with the Section L format
+ * profile. The character estimate is only a fallback for environments
+ * without Chrome.
+ */
+
+import { logger } from './logger'
+import { SectionLFormat, SectionPageUsage } from './database.types'
+import { buildFormatProfile, countedFrontMatterPages } from './format-profile'
+import { measureRenderedPages } from './pdf-generator'
+
+// Characters of volume HTML per page when the volume cannot be rendered
+const ESTIMATED_CHARS_PER_PAGE = 3000
+
+export interface VolumePageCount {
+    pages: number
+    rendered: boolean
+    sections: SectionPageUsage[] // Empty when estimated
+}
+
+export function estimatePages(content: string): number {
+    return Math.ceil(content.length / ESTIMATED_CHARS_PER_PAGE)
+}
+
+/**
+ * Pages the volume counts against its limit when rendered with the Section L format
+ * (plus the cover page when Section L does not exclude it)
+ */
+export async function countVolumePages(
+    content: string,
+    format: SectionLFormat | null | undefined,
+    jobId?: string
+): Promise<VolumePageCount> {
+    const profile = buildFormatProfile(format)
+    try {
+        const { pages, sections } = await measureRenderedPages(content, profile)
+        return { pages: pages + countedFrontMatterPages(profile), rendered: true, sections }
+    } catch (error) {
+        logger.warn('Rendered page count unavailable, estimating from content length', {
+            jobId,
+            data: { error: error instanceof Error ? error.message : String(error) },
+        })
+        return { pages: estimatePages(content) + countedFrontMatterPages(profile), rendered: false, sections: [] }
+    }
+}
+
+/**
+ * Per-section page usage, largest first - tells the rewriter (and the team) what to cut
+ */
+export function formatSectionUsage(sections: SectionPageUsage[]): string {
+    return [...sections]
+        .sort((a, b) => b.pages - a.pages)
+        .map(s => `- ${s.title}: ${s.pages} pages`)
+        .join('\n')
+}
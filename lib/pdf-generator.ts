@@ -7,6 +7,8 @@
  */
 
 import type { Browser } from 'puppeteer-core'
+import type { FormatProfile, SectionPageUsage } from './database.types'
+import { DEFAULT_FORMAT_PROFILE, formatProfileDocument, headerFooterTemplates, pageDimensions } from './format-profile'
 
 export interface PdfOptions {
     format?: 'Letter' | 'A4'
@@ -148,7 +150,8 @@ export async function generatePdfFromHtml(
 }
 
 /**
- * Generate PDF with custom header showing solicitation number
+ * Generate a proposal PDF laid out per the Section L format profile
+ * (margins, page size, running header/footer and page numbering)
  * 
  * NOTE: Puppeteer header/footer templates have specific requirements:
  * - Must include full HTML styling inline
@@ -158,37 +161,104 @@ export async function generatePdfFromHtml(
 export async function generateProposalPdf(
     html: string,
     solicitationNum: string,
-    companyName: string
+    companyName: string,
+    profile: FormatProfile = DEFAULT_FORMAT_PROFILE,
+    volume?: { title: string; numeral: string }
 ): Promise<Buffer> {
-    // Escape special characters for HTML
-    const safeSolNum = solicitationNum.replace(/</g, '&lt;').replace(/>/g, '&gt;')
-    const safeCompany = companyName.replace(/</g, '&lt;').replace(/>/g, '&gt;')
-    
+    const margin = `${profile.margin_inches}in`
+    const { headerTemplate, footerTemplate } = headerFooterTemplates(profile, {
+        solicitationNum,
+        companyName,
+        volumeTitle: volume?.title,
+        volumeNumeral: volume?.numeral,
+    })
+
     return generatePdfFromHtml(html, {
-        format: 'Letter',
-        margin: {
-            top: '1in',      // Room for header
-            right: '0.75in',
-            bottom: '1in',   // Room for footer
-            left: '0.75in',
-        },
+        format: profile.page_size,
+        margin: { top: margin, right: margin, bottom: margin, left: margin },
         displayHeaderFooter: true,
-        headerTemplate: `
-            <div style="width: 100%; font-family: Arial, sans-serif; font-size: 9px; padding: 0 0.75in; margin-top: 0.35in;">
-                <div style="display: flex; justify-content: space-between; align-items: center; padding-bottom: 5px; border-bottom: 1px solid #ccc;">
-                    <span style="color: #333;">Proposal</span>
-                    <span style="color: #555;">${safeSolNum} | ${safeCompany}</span>
-                </div>
-            </div>
-        `,
-        footerTemplate: `
-            <div style="width: 100%; font-family: Arial, sans-serif; font-size: 9px; padding: 0 0.75in; margin-bottom: 0.35in;">
-                <div style="display: flex; justify-content: space-between; align-items: center; padding-top: 5px; border-top: 1px solid #ccc;">
-                    <span style="color: #666; font-size: 8px;">CONFIDENTIAL - FOR OFFICIAL USE ONLY</span>
-                    <span style="color: #333;">Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
-                    <span style="color: #666; font-size: 8px;">${safeCompany} PROPRIETARY</span>
-                </div>
-            </div>
-        `,
+        headerTemplate,
+        footerTemplate,
     })
 }
+
+// =============================================================================
+// RENDERED PAGE COUNTS
+// =============================================================================
+
+const CSS_PX_PER_INCH = 96
+
+export interface RenderedPageCount {
+    pages: number
+    sections: SectionPageUsage[]
+}
+
+/**
+ * Number of pages in a PDF produced by Chrome (one /Type /Page object per page)
+ */
+function countPdfPages(pdf: Uint8Array): number {
+    const matches = Buffer.from(pdf).toString('latin1').match(/\/Type\s*\/Page(?!s)/g)
+    return matches?.length || 0
+}
+
+/**
+ * Render volume content with the Section L format profile and count the pages it fills
+ * Per-section usage (fractional pages, one entry per <h2> section) shows where to cut.
+ */
+export async function measureRenderedPages(contentHtml: string, profile: FormatProfile): Promise<RenderedPageCount> {
+    const browser = await getBrowser()
+
+    try {
+        const page = await browser.newPage()
+        const { width, height: pageHeight } = pageDimensions(profile)
+        const printableWidth = (width - profile.margin_inches * 2) * CSS_PX_PER_INCH
+        const printableHeight = (pageHeight - profile.margin_inches * 2) * CSS_PX_PER_INCH
+
+        // Lay out at the printable width so section heights match the PDF
+        await page.setViewport({ width: Math.round(printableWidth), height: Math.round(printableHeight) })
+        await page.emulateMediaType('print')
+        await page.setContent(formatProfileDocument(contentHtml, profile), {
+            waitUntil: 'networkidle0',
+            timeout: 30000,
+        })
+
+        const { headings, height } = await page.evaluate(() => ({
+            headings: Array.from(document.querySelectorAll('h2')).map(h => ({
+                title: (h.textContent || '').trim(),
+                top: h.getBoundingClientRect().top + window.scrollY,
+            })),
+            height: document.body.scrollHeight,
+        }))
+
+        const margin = `${profile.margin_inches}in`
+        const pdf = await page.pdf({
+            format: profile.page_size,
+            margin: { top: margin, right: margin, bottom: margin, left: margin },
+            displayHeaderFooter: false,
+            printBackground: true,
+        })
+
+        const boundaries = [
+            ...(headings.length > 0 && headings[0].top > 0 ? [{ title: '(Before first section)', top: 0 }] : []),
+            ...headings,
+        ]
+        const sections = boundaries.map((heading, i) => {
+            const end = boundaries[i + 1]?.top ?? height
+            return {
+                title: heading.title,
+                pages: Math.round(((end - heading.top) / printableHeight) * 10) / 10,
+            }
+        })
+
+        // Page objects packed into compressed object streams are invisible to the scan -
+        // throwing lets the caller fall back to the estimate instead of reporting 0 pages
+        const pages = countPdfPages(pdf)
+        if (pages === 0) {
+            throw new Error('No page objects found in the rendered PDF')
+        }
+
+        return { pages, sections }
+    } finally {
+        await browser.close()
+    }
+}
@@ -0,0 +1,188 @@
+/**
+ * Key Personnel Matcher
+ *
+ * Matches the company's personnel against the qualifications the RFP sets for
+ * each key position (education, years of experience, certifications,
+ * clearance) and proposes the best person per position. Used by Agent 2,
+ * which reports unmet qualifications and hands the assignment to the
+ * management writer for the staffing section.
+ */
+
+import {
+    ClearanceLevel,
+    EducationLevel,
+    KeyPersonnelAssignment,
+    KeyPersonnelRequirement,
+    Personnel,
+} from './database.types'
+
+const CLEARANCE_RANK: Record<ClearanceLevel, number> = {
+    'None': 0,
+    'Secret': 1,
+    'Top Secret': 2,
+    'TS/SCI': 3,
+}
+
+const EDUCATION_RANK: Record<EducationLevel, number> = {
+    high_school: 0,
+    associate: 1,
+    bachelor: 2,
+    master: 3,
+    doctorate: 4,
+}
+
+// Highest degree first - resumes mention the highest degree alongside lower ones
+const DEGREE_PATTERNS: Array<[EducationLevel, RegExp]> = [
+    ['doctorate', /\b(?:ph\.?\s?d|doctorate|doctoral|d\.?sc)\b|\bdr\.\s/i],
+    ['master', /\b(?:master'?s?|m\.s\.|m\.a\.|mba|m\.eng|msc|ms in|ma in)\b/i],
+    ['bachelor', /\b(?:bachelor'?s?|b\.s\.|b\.a\.|bsc|bs in|ba in|undergraduate degree)\b/i],
+    ['associate', /\bassociate'?s? degree\b/i],
+]
+
+// Clearance statuses that no longer hold
+const LAPSED_CLEARANCE_STATUS = /expired|inactive|lapsed/i
+
+export function clearanceRank(level: string | null | undefined): number {
+    if (!level) return 0
+    const normalized = level.toLowerCase()
+    if (normalized.includes('sci')) return CLEARANCE_RANK['TS/SCI']
+    if (normalized.includes('top secret') || /\bts\b/.test(normalized)) return CLEARANCE_RANK['Top Secret']
+    if (normalized.includes('secret')) return CLEARANCE_RANK['Secret']
+    return CLEARANCE_RANK['None']
+}
+
+/**
+ * Highest degree a resume summary mentions, if any
+ */
+export function detectEducationLevel(text: string | null | undefined): EducationLevel | undefined {
+    if (!text) return undefined
+    return DEGREE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0]
+}
+
+function normalize(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9+]/g, '')
+}
+
+function hasCertification(person: Personnel, certification: string): boolean {
+    const wanted = normalize(certification)
+    return (person.certifications || []).some(c => {
+        const held = normalize(c)
+        return held.includes(wanted) || wanted.includes(held)
+    })
+}
+
+function words(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2))
+}
+
+/**
+ * Word overlap between the position and the person's title/role (0-1)
+ */
+function roleSimilarity(position: string, person: Personnel): number {
+    const wanted = words(position)
+    if (wanted.size === 0) return 0
+    const held = words(`${person.title || ''} ${person.role || ''}`)
+    let shared = 0
+    for (const word of wanted) {
+        if (held.has(word)) shared++
+    }
+    return shared / wanted.size
+}
+
+/**
+ * Check one person against one position's qualifications
+ */
+export function evaluateCandidate(
+    requirement: KeyPersonnelRequirement,
+    person: Personnel
+): Pick<KeyPersonnelAssignment, 'met' | 'unmet' | 'unverified'> & { score: number } {
+    const met: string[] = []
+    const unmet: string[] = []
+    const unverified: string[] = []
+
+    if (requirement.min_years_experience) {
+        const label = `${requirement.min_years_experience}+ years experience`
+        if ((person.years_experience || 0) >= requirement.min_years_experience) met.push(label)
+        else unmet.push(`${label} (has ${person.years_experience || 0})`)
+    }
+
+    if (requirement.clearance && requirement.clearance !== 'None') {
+        const label = `${requirement.clearance} clearance`
+        const lapsed = LAPSED_CLEARANCE_STATUS.test(person.clearance_status || '')
+        if (!lapsed && clearanceRank(person.clearance_level) >= CLEARANCE_RANK[requirement.clearance]) met.push(label)
+        else unmet.push(`${label} (has ${person.clearance_level || 'none'}${lapsed ? ', expired' : ''})`)
+    }
+
+    for (const certification of requirement.certifications) {
+        if (hasCertification(person, certification)) met.push(certification)
+        else unmet.push(certification)
+    }
+
+    if (requirement.education_level) {
+        const label = requirement.education || requirement.education_level
+        const degree = detectEducationLevel(person.resume_summary)
+        if (!degree) unverified.push(`${label} (not stated in resume summary)`)
+        else if (EDUCATION_RANK[degree] >= EDUCATION_RANK[requirement.education_level]) met.push(label)
+        else unmet.push(`${label} (has ${degree})`)
+    }
+
+    // Free-text qualifications can only be confirmed by a reviewer
+    unverified.push(...requirement.other_qualifications)
+
+    // Hard qualifications dominate; role similarity breaks ties between equally qualified people
+    const score = met.length * 10 - unmet.length * 10 + roleSimilarity(requirement.position, person) * 5
+    return { met, unmet, unverified, score }
+}
+
+/**
+ * Propose the best person for every position - each person fills at most one key position.
+ * Key positions are assigned first, the most demanding first.
+ */
+export function matchKeyPersonnel(
+    requirements: KeyPersonnelRequirement[],
+    personnel: Personnel[]
+): KeyPersonnelAssignment[] {
+    const demand = (r: KeyPersonnelRequirement) =>
+        (r.key ? 100 : 0) + r.certifications.length + (r.clearance ? 1 : 0) + (r.min_years_experience || 0) / 10
+
+    const order = requirements
+        .map((requirement, index) => ({ requirement, index }))
+        .sort((a, b) => demand(b.requirement) - demand(a.requirement))
+
+    const taken = new Set<string>()
+    const assignments: KeyPersonnelAssignment[] = new Array(requirements.length)
+
+    for (const { requirement, index } of order) {
+        const candidates = personnel
+            .filter(p => !taken.has(p.id))
+            .map(person => ({ person, ...evaluateCandidate(requirement, person) }))
+            .sort((a, b) => b.score - a.score)
+
+        const best = candidates[0]
+        if (!best) {
+            assignments[index] = {
+                position: requirement.position,
+                key: requirement.key,
+                personnel_id: null,
+                name: null,
+                met: [],
+                unmet: ['No available personnel on file'],
+                unverified: [],
+            }
+            continue
+        }
+
+        if (requirement.key) taken.add(best.person.id)
+        assignments[index] = {
+            position: requirement.position,
+            key: requirement.key,
+            personnel_id: best.person.id,
+            name: best.person.name,
+            met: best.met,
+            unmet: best.unmet,
+            unverified: best.unverified,
+        }
+    }
+
+    return assignments
+}
@@ -0,0 +1,193 @@
+/**
+ * Labor Rate Benchmarks
+ *
+ * Market rates loaded from a local CSV export (GSA CALC-style: one row per
+ * awarded rate with a labor category and a fully burdened hourly price).
+ * Set PRICE_BENCHMARK_CSV to the file's path (default
+ * ./data/rate-benchmarks.csv); without a file the benchmark checks are
+ * skipped. Rows are grouped by normalized labor category and matched to
+ * proposed categories by title words.
+ */
+
+import { readFile, stat } from 'fs/promises'
+import path from 'path'
+
+// Header names, most specific first (CALC exports "Current Year Labor Price")
+const CATEGORY_COLUMNS = [/^labor[\s_]*category$/, /labor[\s_]*category/, /^category$/, /title/]
+const RATE_COLUMNS = [/current[\s_]*(?:year[\s_]*)?(?:labor[\s_]*)?price/, /^current[\s_]*price$/, /hourly[\s_]*rate/, /price/, /rate/]
+
+// Words that say nothing about the kind of work
+const STOP_WORDS = new Set(['and', 'of', 'the', 'a', 'an', 'for', 'i', 'ii', 'iii', 'iv', 'v', 'level'])
+
+// Minimum title-word overlap for a benchmark category to count as the same job
+const MIN_MATCH = 0.5
+
+export interface RateBenchmark {
+    category: string // As written in the first benchmark row of the group
+    rates: number[] // Sorted ascending
+}
+
+export interface BenchmarkSet {
+    source: string
+    benchmarks: RateBenchmark[]
+}
+
+export interface BenchmarkMatch {
+    category: string
+    count: number
+    low: number // 25th percentile
+    median: number
+    high: number // 75th percentile
+}
+
+let cached: { path: string; modified: number; set: BenchmarkSet } | null = null
+
+/**
+ * Split CSV text into rows of fields (quoted fields may hold commas, quotes and newlines)
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                field += char
+            }
+        } else if (char === '"') {
+            quoted = true
+        } else if (char === ',') {
+            row.push(field)
+            field = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++
+            row.push(field)
+            if (row.some(f => f.trim())) rows.push(row)
+            row = []
+            field = ''
+        } else {
+            field += char
+        }
+    }
+
+    row.push(field)
+    if (row.some(f => f.trim())) rows.push(row)
+    return rows
+}
+
+function titleWords(category: string): string[] {
+    return category
+        .toLowerCase()
+        .replace(/\([^)]*\)/g, ' ')
+        .split(/[^a-z0-9]+/)
+        .filter(word => word && !STOP_WORDS.has(word))
+}
+
+function findColumn(headers: string[], patterns: RegExp[]): number {
+    for (const pattern of patterns) {
+        const index = headers.findIndex(h => pattern.test(h))
+        if (index >= 0) return index
+    }
+    return -1
+}
+
+/**
+ * Group benchmark CSV rows by labor category
+ */
+export function parseBenchmarks(csv: string, source: string): BenchmarkSet {
+    const [header, ...rows] = parseCsv(csv.replace(/^﻿/, ''))
+    const headers = (header || []).map(h => h.trim().toLowerCase())
+    const categoryColumn = findColumn(headers, CATEGORY_COLUMNS)
+    const rateColumn = findColumn(headers, RATE_COLUMNS)
+
+    if (categoryColumn < 0 || rateColumn < 0) {
+        throw new Error(`Benchmark file ${source} needs a labor category column and a rate/price column`)
+    }
+
+    const groups = new Map<string, RateBenchmark>()
+    for (const row of rows) {
+        const category = (row[categoryColumn] || '').trim()
+        const rate = parseFloat((row[rateColumn] || '').replace(/[$,\s]/g, ''))
+        if (!category || !Number.isFinite(rate) || rate <= 0) continue
+
+        const key = titleWords(category).join(' ')
+        const group = groups.get(key) || { category, rates: [] }
+        group.rates.push(rate)
+        groups.set(key, group)
+    }
+
+    const benchmarks = Array.from(groups.values())
+    benchmarks.forEach(b => b.rates.sort((a, c) => a - c))
+    return { source, benchmarks }
+}
+
+/**
+ * Load the benchmark CSV (cached until the file changes)
+ * @returns null when no benchmark file is present
+ */
+export async function loadRateBenchmarks(): Promise<BenchmarkSet | null> {
+    const file = path.resolve(process.env.PRICE_BENCHMARK_CSV || path.join(process.cwd(), 'data', 'rate-benchmarks.csv'))
+
+    let modified: number
+    try {
+        modified = (await stat(file)).mtimeMs
+    } catch {
+        return null
+    }
+
+    if (cached && cached.path === file && cached.modified === modified) return cached.set
+
+    const set = parseBenchmarks(await readFile(file, 'utf8'), path.basename(file))
+    cached = { path: file, modified, set }
+    return set
+}
+
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 1) return sorted[0]
+    const position = (sorted.length - 1) * p
+    const lower = Math.floor(position)
+    const upper = Math.ceil(position)
+    return Math.round((sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)) * 100) / 100
+}
+
+/**
+ * Market rate spread for a proposed labor category: the benchmark group(s)
+ * sharing the most title words with it
+ */
+export function matchBenchmark(set: BenchmarkSet, category: string): BenchmarkMatch | null {
+    const words = new Set(titleWords(category))
+    if (words.size === 0) return null
+
+    let best = 0
+    let matches: RateBenchmark[] = []
+    for (const benchmark of set.benchmarks) {
+        const candidate = new Set(titleWords(benchmark.category))
+        const shared = Array.from(words).filter(w => candidate.has(w)).length
+        const score = shared / new Set([...words, ...candidate]).size
+        if (score > best) {
+            best = score
+            matches = [benchmark]
+        } else if (score === best && score > 0) {
+            matches.push(benchmark)
+        }
+    }
+
+    if (best < MIN_MATCH) return null
+
+    const rates = matches.flatMap(m => m.rates).sort((a, b) => a - b)
+    return {
+        category: matches[0].category,
+        count: rates.length,
+        low: percentile(rates, 0.25),
+        median: percentile(rates, 0.5),
+        high: percentile(rates, 0.75),
+    }
+}
@@ -0,0 +1,369 @@
+/**
+ * Cost Workbook Export
+ *
+ * Writes the price model to an .xlsx the contracting officer can audit:
+ * indirect rates and the wrap rate, escalated and burdened labor rates,
+ * hours x rate extensions, ODC burdens and CLIN totals are live formulas
+ * that reproduce the engine's figures to the cent. T&M workbooks add the
+ * ceiling hours and amounts; Cost-Plus workbooks add the fee structure.
+ */
+
+import { PriceModel } from '../database.types'
+import { CellInput, columnLetter, createXlsx, Worksheet } from '../packaging/xlsx-writer'
+import { pricingStructure } from './engine'
+
+const RATES_SHEET = 'Indirect Rates'
+const LABOR_SHEET = 'Labor Detail'
+const ODC_SHEET = 'ODCs'
+const BUILD_UP_SHEET = 'Cost Build-Up'
+
+// Absolute references into the Indirect Rates sheet
+const WRAP_RATE = `'${RATES_SHEET}'!$B$6`
+const GA_RATE = `'${RATES_SHEET}'!$B$4`
+const FEE_RATE = `'${RATES_SHEET}'!$B$5`
+const MATERIAL_HANDLING_RATE = `'${RATES_SHEET}'!$B$7`
+
+function indirectRatesSheet(model: PriceModel): Worksheet {
+    const applyIndirects = model.inputs.rate_basis === 'direct'
+    const rate = (value: number) => applyIndirects ? value / 100 : 0
+    const { fringe, overhead, ga, fee } = model.inputs.indirect_rates
+    const structure = pricingStructure(model.inputs)
+    const timeAndMaterials = structure.contract_type === 'T&M'
+
+    return {
+        name: RATES_SHEET,
+        columns: [
+            { header: 'Element', width: 28 },
+            { header: 'Rate', width: 12, format: 'percent' },
+            { header: 'Applied To', width: 44, format: 'wrap' },
+        ],
+        rows: [
+            ['Fringe', rate(fringe), 'Direct labor'],
+            ['Overhead', rate(overhead), 'Direct labor + fringe'],
+            ['G&A', rate(ga), 'Total cost input (labor + ODCs)'],
+            ['Fee', rate(fee), 'Total cost'],
+            ['Wrap rate', { formula: '(1+B2)*(1+B3)*(1+B4)*(1+B5)' }, applyIndirects
+                ? 'Direct rate to fully burdened rate multiplier'
+                : 'Labor rates are fully burdened; no indirects applied'],
+            ['Material handling', timeAndMaterials ? (structure.materials_handling ?? 0) / 100 : 0, timeAndMaterials
+                ? 'T&M materials at cost (in place of G&A; no fee on materials)'
+                : 'Not applicable (T&M only)'],
+        ],
+        filter: false,
+    }
+}
+
+function laborRatesSheet(model: PriceModel): Worksheet {
+    const periods = model.inputs.periods
+    const rows: CellInput[][] = model.rates.map((r, i) => {
+        const row = i + 2
+        return [
+            r.category,
+            ...r.direct,
+            ...periods.map((_, p) => ({ formula: `ROUND(${columnLetter(1 + p)}${row}*${WRAP_RATE},2)` })),
+        ]
+    })
+
+    return {
+        name: 'Labor Rates',
+        columns: [
+            { header: 'Labor Category', width: 32 },
+            ...periods.map(p => ({ header: `${p.name} Direct`, width: 14, format: 'currency' as const })),
+            ...periods.map(p => ({ header: `${p.name} Burdened`, width: 14, format: 'currency' as const })),
+        ],
+        rows,
+    }
+}
+
+function laborDetailSheet(model: PriceModel): Worksheet {
+    const periods = model.inputs.periods
+    const periodNames = new Map(periods.map(p => [p.id, p.name]))
+    const rateRows = model.rates.length + 1
+
+    // Burdened rate looked up from the Labor Rates sheet, so rate changes flow through
+    const rateLookup = (row: number, periodId: string) => {
+        const column = columnLetter(1 + periods.length + periods.findIndex(p => p.id === periodId))
+        return `INDEX('Labor Rates'!$${column}$2:$${column}$${rateRows},MATCH(C${row},'Labor Rates'!$A$2:$A$${rateRows},0))`
+    }
+
+    return {
+        name: LABOR_SHEET,
+        columns: [
+            { header: 'CLIN', width: 10 },
+            { header: 'Period', width: 16 },
+            { header: 'Labor Category', width: 32 },
+            { header: 'Hours', width: 12, format: 'number' },
+            { header: 'Burdened Rate', width: 14, format: 'currency' },
+            { header: 'Extended Price', width: 16, format: 'currency' },
+        ],
+        rows: model.labor_lines.map((line, i) => [
+            line.clin,
+            periodNames.get(line.period) || line.period,
+            line.category,
+            line.hours,
+            { formula: rateLookup(i + 2, line.period) },
+            { formula: `ROUND(D${i + 2}*E${i + 2},2)` },
+        ]),
+    }
+}
+
+function odcSheet(model: PriceModel): Worksheet {
+    const periodNames = new Map(model.inputs.periods.map(p => [p.id, p.name]))
+    const timeAndMaterials = pricingStructure(model.inputs).contract_type === 'T&M'
+    return {
+        name: ODC_SHEET,
+        columns: [
+            { header: 'CLIN', width: 10 },
+            { header: 'Period', width: 16 },
+            { header: 'Description', width: 28 },
+            { header: 'Cost', width: 14, format: 'currency' },
+            { header: timeAndMaterials ? 'Material Handling' : 'G&A', width: 14, format: 'currency' },
+            { header: 'Fee', width: 14, format: 'currency' },
+            { header: 'Price', width: 16, format: 'currency' },
+        ],
+        rows: model.odc_lines.map((line, i) => {
+            const row = i + 2
+            return [
+                line.clin,
+                periodNames.get(line.period) || line.period,
+                line.description,
+                line.cost,
+                { formula: `ROUND(D${row}*${timeAndMaterials ? MATERIAL_HANDLING_RATE : GA_RATE},2)` },
+                timeAndMaterials ? 0 : { formula: `ROUND((D${row}+E${row})*${FEE_RATE},2)` },
+                { formula: `D${row}+E${row}+F${row}` },
+            ]
+        }),
+    }
+}
+
+function clinSummarySheet(model: PriceModel): Worksheet {
+    const periods = model.inputs.periods
+    const laborRows = model.labor_lines.length + 1
+    const odcRows = model.odc_lines.length + 1
+    const lastPeriod = columnLetter(1 + periods.length)
+    const totalColumn = columnLetter(2 + periods.length)
+
+    const rows: CellInput[][] = model.clin_totals.map((clin, i) => {
+        const row = i + 2
+        return [
+            clin.clin,
+            clin.description,
+            ...periods.map(p => {
+                const labor = `SUMIFS('${LABOR_SHEET}'!$F$2:$F$${laborRows},'${LABOR_SHEET}'!$A$2:$A$${laborRows},$A${row},'${LABOR_SHEET}'!$B$2:$B$${laborRows},"${p.name}")`
+                const odc = `SUMIFS('${ODC_SHEET}'!$G$2:$G$${odcRows},'${ODC_SHEET}'!$A$2:$A$${odcRows},$A${row},'${ODC_SHEET}'!$B$2:$B$${odcRows},"${p.name}")`
+                return { formula: model.odc_lines.length > 0 ? `${labor}+${odc}` : labor }
+            }),
+            { formula: `SUM(C${row}:${lastPeriod}${row})`, bold: true },
+        ]
+    })
+
+    const lastRow = model.clin_totals.length + 1
+    rows.push([
+        { value: 'Total', bold: true },
+        '',
+        ...periods.map((_, p) => ({ formula: `SUM(${columnLetter(2 + p)}2:${columnLetter(2 + p)}${lastRow})`, bold: true })),
+        { formula: `SUM(${totalColumn}2:${totalColumn}${lastRow})`, bold: true },
+    ])
+
+    return {
+        name: 'CLIN Summary',
+        columns: [
+            { header: 'CLIN', width: 10 },
+            { header: 'Description', width: 32, format: 'wrap' },
+            ...periods.map(p => ({ header: p.name, width: 16, format: 'currency' as const })),
+            { header: 'Total', width: 18, format: 'currency' },
+        ],
+        rows,
+        filter: false,
+    }
+}
+
+// Cost-Plus cost elements in DCAA order; subtotal rows sum the rows they name
+type BuildUpRow = [string, keyof PriceModel['total']] | [string, number[]]
+
+// Row of the estimated cost (before fee) on the Cost-Plus build-up sheet
+const ESTIMATED_COST_ROW = 8
+
+function costBuildUpSheet(model: PriceModel): Worksheet {
+    const periods = model.inputs.periods
+    const structure = pricingStructure(model.inputs)
+    const costPlus = structure.contract_type === 'Cost-Plus'
+    const feeLabel = !costPlus ? 'Fee'
+        : structure.fee_type === 'CPIF' ? 'Target Fee'
+            : structure.fee_type === 'CPAF' ? 'Base Fee and Award Fee Pool' : 'Fixed Fee'
+    const elements: BuildUpRow[] = costPlus
+        ? [
+            ['Direct Labor', 'direct_labor'],
+            ['Fringe', 'fringe'],
+            ['Overhead', 'overhead'],
+            ['Other Direct Costs', 'odc'],
+            ['Total Cost Input', [2, 3, 4, 5]],
+            ['G&A', 'ga'],
+            ['Total Estimated Cost', [6, 7]],
+            [feeLabel, 'fee'],
+        ]
+        : [
+            ['Direct Labor', 'direct_labor'],
+            ['Fringe', 'fringe'],
+            ['Overhead', 'overhead'],
+            [structure.contract_type === 'T&M' ? 'Materials (at cost)' : 'Other Direct Costs', 'odc'],
+            [structure.contract_type === 'T&M' ? 'G&A and Material Handling' : 'G&A', 'ga'],
+            [structure.contract_type === 'T&M' ? 'Fee on Labor' : 'Fee', 'fee'],
+        ]
+    const totalColumn = columnLetter(1 + periods.length)
+    const lastPeriod = columnLetter(periods.length)
+    // Subtotals are excluded from the grand total
+    const summed = elements.flatMap(([, key], i) => (Array.isArray(key) ? [] : [i + 2]))
+
+    const rows: CellInput[][] = elements.map(([label, key], i) => {
+        if (Array.isArray(key)) {
+            return [
+                { value: label, bold: true },
+                ...periods.map((_, p) => ({ formula: key.map(row => `${columnLetter(1 + p)}${row}`).join('+'), bold: true })),
+                { formula: `SUM(B${i + 2}:${lastPeriod}${i + 2})`, bold: true },
+            ]
+        }
+        return [
+            label,
+            ...model.period_totals.map(p => p[key]),
+            { formula: `SUM(B${i + 2}:${lastPeriod}${i + 2})` },
+        ]
+    })
+    const grandTotal = (column: string) => ({ formula: summed.map(row => `${column}${row}`).join('+'), bold: true })
+    rows.push([
+        { value: structure.contract_type === 'T&M' ? 'Total Ceiling Price' : costPlus ? 'Total Estimated Cost plus Fee' : 'Total Price', bold: true },
+        ...periods.map((_, p) => grandTotal(columnLetter(1 + p))),
+        grandTotal(totalColumn),
+    ])
+
+    return {
+        name: BUILD_UP_SHEET,
+        columns: [
+            { header: 'Cost Element', width: 24 },
+            ...periods.map(p => ({ header: p.name, width: 16, format: 'currency' as const })),
+            { header: 'Total', width: 18, format: 'currency' },
+        ],
+        rows,
+        filter: false,
+    }
+}
+
+/**
+ * T&M ceilings per labor category and period, summed from the labor detail
+ */
+function ceilingSheet(model: PriceModel): Worksheet {
+    const periods = model.inputs.periods
+    const laborRows = model.labor_lines.length + 1
+    const odcRows = model.odc_lines.length + 1
+    const rows: CellInput[][] = []
+
+    model.rates.forEach((rate, r) => {
+        periods.forEach((period, p) => {
+            if (!model.labor_lines.some(l => l.category === rate.category && l.period === period.id)) return
+            const row = rows.length + 2
+            const match = `'${LABOR_SHEET}'!$C$2:$C$${laborRows},$A${row},'${LABOR_SHEET}'!$B$2:$B$${laborRows},$B${row}`
+            rows.push([
+                rate.category,
+                period.name,
+                { formula: `'Labor Rates'!${columnLetter(1 + periods.length + p)}${r + 2}` },
+                { formula: `SUMIFS('${LABOR_SHEET}'!$D$2:$D$${laborRows},${match})` },
+                { formula: `SUMIFS('${LABOR_SHEET}'!$F$2:$F$${laborRows},${match})` },
+            ])
+        })
+    })
+    if (model.odc_lines.length > 0) {
+        rows.push(['Materials (at cost plus handling)', 'All periods', '', '', { formula: `SUM('${ODC_SHEET}'!$G$2:$G$${odcRows})` }])
+    }
+
+    const lastRow = rows.length + 1
+    rows.push([
+        { value: 'Total Ceiling', bold: true },
+        '',
+        '',
+        { formula: `SUM(D2:D${lastRow})`, bold: true },
+        { formula: `SUM(E2:E${lastRow})`, bold: true },
+    ])
+
+    return {
+        name: 'T&M Ceiling',
+        columns: [
+            { header: 'Labor Category', width: 32 },
+            { header: 'Period', width: 16 },
+            { header: 'Fixed Hourly Rate', width: 16, format: 'currency' },
+            { header: 'Ceiling Hours', width: 14, format: 'number' },
+            { header: 'Ceiling Amount', width: 18, format: 'currency' },
+        ],
+        rows,
+        filter: false,
+    }
+}
+
+/**
+ * Cost-Plus fee on the estimated cost: fixed fee, CPIF range or CPAF split
+ */
+function feeSheet(model: PriceModel): Worksheet {
+    const structure = pricingStructure(model.inputs)
+    const totalColumn = columnLetter(1 + model.inputs.periods.length)
+    const estimatedCost = `'${BUILD_UP_SHEET}'!${totalColumn}${ESTIMATED_COST_ROW}`
+    const fee = `'${BUILD_UP_SHEET}'!${totalColumn}${ESTIMATED_COST_ROW + 1}`
+    const percent = (value?: number) => (value ?? 0) / 100
+
+    const rows: CellInput[][] = [['Total Estimated Cost', '', { formula: estimatedCost }]]
+    if (structure.fee_type === 'CPIF') {
+        rows.push(
+            ['Target Fee', { formula: FEE_RATE }, { formula: fee }],
+            ['Minimum Fee', percent(structure.min_fee), { formula: 'ROUND(C2*B4,2)' }],
+            ['Maximum Fee', percent(structure.max_fee), { formula: 'ROUND(C2*B5,2)' }],
+            ['Share Ratio (Government/Contractor)', '', structure.share_ratio || ''],
+        )
+    } else if (structure.fee_type === 'CPAF') {
+        rows.push(
+            ['Base Fee', percent(structure.base_fee), { formula: `MIN(ROUND(C2*B3,2),${fee})` }],
+            ['Award Fee Pool', '', { formula: `${fee}-C3` }],
+        )
+    } else {
+        rows.push(['Fixed Fee', { formula: FEE_RATE }, { formula: fee }])
+    }
+    rows.push([{ value: 'Total Estimated Cost plus Fee', bold: true }, '', { formula: `C2+${fee}`, bold: true }])
+
+    return {
+        name: 'Fee',
+        columns: [
+            { header: `Fee (${structure.fee_type || 'CPFF'})`, width: 36 },
+            { header: 'Rate', width: 12, format: 'percent' },
+            { header: 'Amount', width: 18, format: 'currency' },
+        ],
+        rows,
+        filter: false,
+    }
+}
+
+function assumptionsSheet(model: PriceModel): Worksheet {
+    return {
+        name: 'Assumptions',
+        columns: [{ header: 'Assumption', width: 110, format: 'wrap' }],
+        rows: [
+            ...model.inputs.assumptions.map(a => [a]),
+            ...model.inputs.labor.filter(l => l.basis).map(l => [`${l.category} (CLIN ${l.clin}): ${l.basis}`]),
+        ],
+        filter: false,
+    }
+}
+
+/**
+ * Build the cost workbook (.xlsx) for a price model
+ */
+export function buildCostWorkbook(model: PriceModel): Uint8Array {
+    const { contract_type: contractType } = pricingStructure(model.inputs)
+    return createXlsx([
+        clinSummarySheet(model),
+        costBuildUpSheet(model),
+        ...(contractType === 'T&M' ? [ceilingSheet(model)] : []),
+        ...(contractType === 'Cost-Plus' ? [feeSheet(model)] : []),
+        laborRatesSheet(model),
+        laborDetailSheet(model),
+        odcSheet(model),
+        indirectRatesSheet(model),
+        assumptionsSheet(model),
+    ])
+}
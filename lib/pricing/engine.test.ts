@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { PricingInputs } from '../database.types'
+import { buildPriceModel } from './engine'
+
+function costPlusInputs(overrides: Partial<PricingInputs> = {}): PricingInputs {
+    return {
+        periods: [{ id: 'base', name: 'Base Year', months: 12 }],
+        clins: [{ clin: '0001', description: 'Engineering Support' }],
+        labor_categories: [{ category: 'Systems Engineer', base_rate: 50.01, escalation_rate: 3 }],
+        rate_basis: 'direct',
+        indirect_rates: { fringe: 30, overhead: 0, ga: 0, fee: 0 },
+        labor: [{ clin: '0001', category: 'Systems Engineer', hours: [1880] }],
+        odcs: [],
+        hours_source: 'manual',
+        structure: { contract_type: 'Cost-Plus', stated: true, fee_type: 'CPFF' },
+        assumptions: [],
+        ...overrides,
+    }
+}
+
+const cents = (dollars: number) => Math.round(dollars * 100)
+
+describe('buildPriceModel', () => {
+    it('never proposes a negative fee when the burdened rate rounds down', () => {
+        const model = buildPriceModel(costPlusInputs())
+        const [line] = model.labor_lines
+
+        expect(line.fee).toBe(0)
+        expect(line.price).toBe(122218.8) // 1880 h x $65.01
+        expect(model.contract!.fee).toBe(0)
+        expect(model.contract!.estimated_cost).toBeLessThanOrEqual(line.price)
+    })
+
+    it('computes fee on the line cost and extends hours x the burdened rate', () => {
+        const model = buildPriceModel(costPlusInputs({ indirect_rates: { fringe: 30, overhead: 12.5, ga: 8, fee: 7 } }))
+        const [line] = model.labor_lines
+        const cost = cents(line.direct_labor) + cents(line.fringe) + cents(line.overhead) + cents(line.ga)
+
+        expect(cents(line.price)).toBe(Math.round(line.hours * cents(line.burdened_rate)))
+        expect(cost + cents(line.fee)).toBe(cents(line.price))
+        // Fee is the fee rate on cost; only the burdened rate's rounding lands in G&A
+        expect(cents(line.fee) / cost).toBeCloseTo(0.07, 4)
+    })
+
+    it('rolls labor and ODC lines up to the totals exactly', () => {
+        const model = buildPriceModel(costPlusInputs({
+            indirect_rates: { fringe: 31.7, overhead: 18.3, ga: 9.1, fee: 8 },
+            odcs: [{ clin: '0001', description: 'Travel', amounts: [12345.67] }],
+        }))
+        const lines = [...model.labor_lines, ...model.odc_lines].reduce((sum, l) => sum + cents(l.price), 0)
+
+        expect(cents(model.total.price)).toBe(lines)
+        expect(cents(model.contract!.estimated_cost) + cents(model.contract!.fee)).toBe(cents(model.total.price))
+    })
+
+    it('lists hours for categories without a rate as an assumption', () => {
+        const model = buildPriceModel(costPlusInputs({
+            labor: [
+                { clin: '0001', category: 'Systems Engineer', hours: [1880] },
+                { clin: '0001', category: 'Data Scientist', hours: [960] },
+            ],
+        }))
+
+        expect(model.labor_lines).toHaveLength(1)
+        expect(model.inputs.assumptions).toContain('Labor hours not priced for Data Scientist - no labor rate on file for the category.')
+    })
+})
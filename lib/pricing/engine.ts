@@ -0,0 +1,294 @@
+/**
+ * Pricing Engine
+ *
+ * Deterministic cost build-up for the Price volume: escalated direct labor
+ * rates, fringe / overhead / G&A / fee, and extended prices per labor
+ * category, CLIN and period. All arithmetic is done in whole cents, so every
+ * total is exactly the sum of the lines under it and the writer only has to
+ * narrate the figures. The contract type decides how materials are burdened
+ * and how the totals are summarized (firm price, T&M ceiling, cost plus fee).
+ */
+
+import {
+    ContractPriceSummary,
+    CostBreakdown,
+    PriceModel,
+    PricedLaborLine,
+    PricedOdcLine,
+    PricingInputs,
+    PricingLaborCategory,
+    PricingStructure,
+} from '../database.types'
+
+// Opens the assumption listing labor hours left out for lack of a rate
+const UNPRICED_LABOR_ASSUMPTION = 'Labor hours not priced for'
+
+// ============================================================================
+// CENT ARITHMETIC
+// ============================================================================
+
+function toCents(dollars: number): number {
+    return Math.round((Number(dollars) || 0) * 100)
+}
+
+function toDollars(cents: number): number {
+    return cents / 100
+}
+
+/**
+ * Round to whole cents (half away from zero)
+ */
+export function roundCents(dollars: number): number {
+    return toDollars(toCents(dollars + (dollars >= 0 ? Number.EPSILON : -Number.EPSILON)))
+}
+
+function percent(rate: number): number {
+    return (Number(rate) || 0) / 100
+}
+
+// ============================================================================
+// RATES
+// ============================================================================
+
+/**
+ * Direct labor rate for a period: the rate the company set for that period,
+ * otherwise the base rate escalated once per period
+ */
+export function directRate(category: PricingLaborCategory, periodIndex: number): number {
+    const explicit = category.period_rates?.[periodIndex]
+    if (typeof explicit === 'number' && explicit > 0) return roundCents(explicit)
+    return roundCents(category.base_rate * Math.pow(1 + percent(category.escalation_rate), periodIndex))
+}
+
+/**
+ * Direct rate to fully burdened rate multiplier (1 when rates are already burdened)
+ */
+export function wrapRate(inputs: PricingInputs): number {
+    if (inputs.rate_basis === 'fully_burdened') return 1
+    const { fringe, overhead, ga, fee } = inputs.indirect_rates
+    return (1 + percent(fringe)) * (1 + percent(overhead)) * (1 + percent(ga)) * (1 + percent(fee))
+}
+
+/**
+ * The inputs' pricing structure (FFP for inputs saved before contract types were modeled)
+ */
+export function pricingStructure(inputs: PricingInputs): PricingStructure {
+    return inputs.structure || { contract_type: 'FFP', stated: false }
+}
+
+// ============================================================================
+// BUILD-UP
+// ============================================================================
+
+interface CentsBreakdown {
+    hours: number
+    direct_labor: number
+    fringe: number
+    overhead: number
+    odc: number
+    ga: number
+    fee: number
+    price: number
+}
+
+function emptyBreakdown(): CentsBreakdown {
+    return { hours: 0, direct_labor: 0, fringe: 0, overhead: 0, odc: 0, ga: 0, fee: 0, price: 0 }
+}
+
+function addBreakdown(target: CentsBreakdown, line: Partial<CentsBreakdown>): void {
+    for (const key of Object.keys(target) as Array<keyof CentsBreakdown>) {
+        target[key] += line[key] || 0
+    }
+}
+
+function breakdownToDollars(cents: CentsBreakdown): CostBreakdown {
+    return {
+        hours: Math.round(cents.hours * 100) / 100,
+        direct_labor: toDollars(cents.direct_labor),
+        fringe: toDollars(cents.fringe),
+        overhead: toDollars(cents.overhead),
+        odc: toDollars(cents.odc),
+        ga: toDollars(cents.ga),
+        fee: toDollars(cents.fee),
+        price: toDollars(cents.price),
+    }
+}
+
+/**
+ * Price one labor line. The extended price is hours x the burdened rate (what
+ * the government checks). Fee is the fee rate on the line's cost; the burdened
+ * rate is rounded to the cent before it is extended, so G&A takes up the
+ * difference between that price and the cost plus fee.
+ */
+function priceLaborLine(hours: number, rate: number, burdened: number, inputs: PricingInputs): Omit<CentsBreakdown, 'odc'> {
+    const price = Math.round(hours * toCents(burdened))
+    if (inputs.rate_basis === 'fully_burdened') {
+        return { hours, direct_labor: price, fringe: 0, overhead: 0, ga: 0, fee: 0, price }
+    }
+
+    const { fringe: fringeRate, overhead: overheadRate, ga: gaRate, fee: feeRate } = inputs.indirect_rates
+    const direct = Math.round(hours * toCents(rate))
+    const fringe = Math.round(direct * percent(fringeRate))
+    const overhead = Math.round((direct + fringe) * percent(overheadRate))
+    const ga = Math.round((direct + fringe + overhead) * percent(gaRate))
+    const fee = Math.round((direct + fringe + overhead + ga) * percent(feeRate))
+    return { hours, direct_labor: direct, fringe, overhead, ga: price - direct - fringe - overhead - fee, fee, price }
+}
+
+/**
+ * Totals the way the contract type presents them: T&M ceilings, or estimated
+ * cost plus fee with the CPIF range or CPAF base / award split
+ */
+function contractSummary(
+    structure: PricingStructure,
+    laborLines: PricedLaborLine[],
+    odcLines: PricedOdcLine[],
+    total: CentsBreakdown
+): ContractPriceSummary {
+    const cost = total.price - total.fee
+    const summary: ContractPriceSummary = {
+        contract_type: structure.contract_type,
+        labor_price: toDollars(laborLines.reduce((sum, l) => sum + toCents(l.price), 0)),
+        materials_price: toDollars(odcLines.reduce((sum, l) => sum + toCents(l.price), 0)),
+        estimated_cost: toDollars(cost),
+        fee: toDollars(total.fee),
+    }
+
+    if (structure.contract_type === 'T&M') {
+        summary.ceiling_hours = Math.round(total.hours * 100) / 100
+    } else if (structure.contract_type === 'Cost-Plus') {
+        summary.fee_type = structure.fee_type || 'CPFF'
+        if (summary.fee_type === 'CPIF') {
+            summary.min_fee = toDollars(Math.round(cost * percent(structure.min_fee ?? 0)))
+            summary.max_fee = toDollars(Math.round(cost * percent(structure.max_fee ?? 0)))
+            summary.share_ratio = structure.share_ratio
+        } else if (summary.fee_type === 'CPAF') {
+            const base = Math.min(Math.round(cost * percent(structure.base_fee ?? 0)), total.fee)
+            summary.base_fee = toDollars(base)
+            summary.award_fee_pool = toDollars(total.fee - base)
+        }
+    }
+
+    return summary
+}
+
+/**
+ * Compute the full price model from pricing inputs
+ */
+export function buildPriceModel(inputs: PricingInputs): PriceModel {
+    const periods = inputs.periods
+    const wrap = wrapRate(inputs)
+    const categories = new Map(inputs.labor_categories.map(c => [c.category.toLowerCase(), c]))
+
+    const rates = inputs.labor_categories.map(category => {
+        const direct = periods.map((_, p) => directRate(category, p))
+        return { category: category.category, direct, burdened: direct.map(rate => roundCents(rate * wrap)) }
+    })
+    const ratesByCategory = new Map(rates.map(r => [r.category.toLowerCase(), r]))
+
+    const periodCents = periods.map(() => emptyBreakdown())
+    const clinCents = new Map(inputs.clins.map(c => [c.clin, periods.map(() => 0)]))
+    const clinPeriods = (clin: string) => {
+        if (!clinCents.has(clin)) clinCents.set(clin, periods.map(() => 0))
+        return clinCents.get(clin) as number[]
+    }
+
+    const laborLines: PricedLaborLine[] = []
+    const unpriced = new Set<string>()
+    for (const estimate of inputs.labor) {
+        const category = categories.get(estimate.category.toLowerCase())
+        const categoryRates = ratesByCategory.get(estimate.category.toLowerCase())
+        if (!category || !categoryRates) {
+            if (estimate.hours.some(h => Number(h) > 0)) unpriced.add(estimate.category)
+            continue
+        }
+
+        periods.forEach((period, p) => {
+            const hours = Math.max(0, Math.round((Number(estimate.hours[p]) || 0) * 100) / 100)
+            if (hours === 0) return
+
+            const line = priceLaborLine(hours, categoryRates.direct[p], categoryRates.burdened[p], inputs)
+            addBreakdown(periodCents[p], line)
+            clinPeriods(estimate.clin)[p] += line.price
+
+            laborLines.push({
+                clin: estimate.clin,
+                category: category.category,
+                period: period.id,
+                hours,
+                direct_rate: categoryRates.direct[p],
+                burdened_rate: categoryRates.burdened[p],
+                direct_labor: toDollars(line.direct_labor),
+                fringe: toDollars(line.fringe),
+                overhead: toDollars(line.overhead),
+                ga: toDollars(line.ga),
+                fee: toDollars(line.fee),
+                price: toDollars(line.price),
+            })
+        })
+    }
+
+    // ODCs carry G&A and fee but no fringe or overhead; T&M materials carry
+    // material handling in place of G&A and no fee
+    const odcLines: PricedOdcLine[] = []
+    const structure = pricingStructure(inputs)
+    const { ga: gaRate, fee: feeRate } = structure.contract_type === 'T&M'
+        ? { ga: structure.materials_handling ?? 0, fee: 0 }
+        : inputs.rate_basis === 'fully_burdened' ? { ga: 0, fee: 0 } : inputs.indirect_rates
+    for (const odc of inputs.odcs) {
+        periods.forEach((period, p) => {
+            const cost = Math.max(0, toCents(odc.amounts[p] || 0))
+            if (cost === 0) return
+
+            const ga = Math.round(cost * percent(gaRate))
+            const fee = Math.round((cost + ga) * percent(feeRate))
+            const price = cost + ga + fee
+            addBreakdown(periodCents[p], { odc: cost, ga, fee, price })
+            clinPeriods(odc.clin)[p] += price
+
+            odcLines.push({
+                clin: odc.clin,
+                description: odc.description,
+                period: period.id,
+                cost: toDollars(cost),
+                ga: toDollars(ga),
+                fee: toDollars(fee),
+                price: toDollars(price),
+            })
+        })
+    }
+
+    const totalCents = emptyBreakdown()
+    periodCents.forEach(p => addBreakdown(totalCents, p))
+
+    const descriptions = new Map(inputs.clins.map(c => [c.clin, c.description]))
+    const clinTotals = Array.from(clinCents.entries()).map(([clin, cents]) => ({
+        clin,
+        description: descriptions.get(clin) || '',
+        periods: cents.map(toDollars),
+        total: toDollars(cents.reduce((sum, c) => sum + c, 0)),
+    }))
+
+    // Hours without a rate on file are left out of the price - say so instead of dropping them silently
+    const assumptions = inputs.assumptions.filter(a => !a.startsWith(UNPRICED_LABOR_ASSUMPTION))
+    if (unpriced.size > 0) {
+        assumptions.push(`${UNPRICED_LABOR_ASSUMPTION} ${[...unpriced].join(', ')} - no labor rate on file for the category.`)
+    }
+
+    return {
+        inputs: { ...inputs, assumptions },
+        rates,
+        labor_lines: laborLines,
+        odc_lines: odcLines,
+        clin_totals: clinTotals,
+        period_totals: periods.map((period, p) => ({
+            period: period.id,
+            name: period.name,
+            ...breakdownToDollars(periodCents[p]),
+        })),
+        total: breakdownToDollars(totalCents),
+        wrap_rate: Math.round(wrap * 10000) / 10000,
+        contract: contractSummary(structure, laborLines, odcLines, totalCents),
+        generated_at: new Date().toISOString(),
+    }
+}
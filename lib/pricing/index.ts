@@ -0,0 +1,88 @@
+/**
+ * Pricing
+ *
+ * Deterministic cost build-up for the Price volume: inputs from labor rates,
+ * the intake's indirect rates and Section B; an engine that prices them to the
+ * cent; tables and a cost workbook rendered from the result. When the
+ * solicitation ships a pricing template, the submitted workbook is that
+ * template filled in instead. Agent 5 reviews the result for price realism;
+ * scenarios price "what if" copies of the inputs side by side, and every total
+ * is measured against the competitive assessment's price-to-win target.
+ */
+
+import { PriceModel, RfpSourceDocument } from '../database.types'
+import { readRfpFile } from '../ingestion/storage'
+import { logger } from '../logger'
+import { buildCostWorkbook } from './cost-workbook'
+import { fillPricingTemplate, findPricingTemplate } from './pricing-template'
+
+export { buildPriceModel, directRate, pricingStructure, roundCents, wrapRate } from './engine'
+export {
+    buildPricingInputs,
+    defaultLaborHours,
+    inferPeriods,
+    inferPricingStructure,
+    normalizeLaborHours,
+    HOURS_PER_FTE_YEAR,
+} from './inputs'
+export {
+    clinEstimateTable,
+    contractTypeLabel,
+    costBuildUpTable,
+    feeStructureTable,
+    formatCurrency,
+    formatHours,
+    laborHoursTable,
+    laborRateTable,
+    odcTable,
+    priceSummaryTable,
+    pricingFacts,
+    removeUnbackedDollarFigures,
+    tmCeilingTable,
+    unbackedDollarFigures,
+} from './presentation'
+export { buildCostWorkbook } from './cost-workbook'
+export { fillPricingTemplate, findPricingTemplate } from './pricing-template'
+export { loadRateBenchmarks, matchBenchmark, parseBenchmarks, parseCsv } from './benchmarks'
+export { analyzePriceRealism, realismBands } from './realism'
+export { applyScenarioChanges, compareScenarios, parseScenarioChanges } from './scenarios'
+export { analyzePriceToWin, priceToWinTarget, PRICE_TO_WIN_TOLERANCE_PERCENT } from './price-to-win'
+export type { TemplateFillResult } from './pricing-template'
+export type { BenchmarkMatch, BenchmarkSet, RateBenchmark } from './benchmarks'
+export type { PriceRealismSources } from './realism'
+export type { ScenarioComparison, ScenarioComparisonRow } from './scenarios'
+
+export interface PricedWorkbook {
+    workbook: Uint8Array
+    document: string // File name stem: the template's own name, or "Cost_Workbook"
+    template?: string // Pricing template that was filled in
+}
+
+/**
+ * The priced workbook for the submission package: the solicitation's pricing
+ * template filled from the price model when one shipped and its rows could be
+ * matched, otherwise the standard cost workbook
+ */
+export async function buildPricedWorkbook(model: PriceModel, documents?: RfpSourceDocument[]): Promise<PricedWorkbook> {
+    const template = findPricingTemplate(documents)
+
+    if (template?.file_url) {
+        const templateName = template.file_name.split('/').pop() || template.file_name
+        try {
+            const filled = fillPricingTemplate(await readRfpFile(template.file_url), model)
+            if (filled) {
+                logger.info('[Pricing] Filled solicitation pricing template', {
+                    data: { template: templateName, cells: filled.filledCells, sheets: filled.sheets }
+                })
+                return { workbook: filled.workbook, document: templateName.replace(/\.xlsx$/i, ''), template: templateName }
+            }
+            logger.warn(`[Pricing] No priced labor category or CLIN rows found in ${templateName}; using the standard cost workbook`)
+        } catch (error) {
+            logger.warn(`[Pricing] Could not fill pricing template ${templateName}; using the standard cost workbook`, {
+                data: { error: error instanceof Error ? error.message : String(error) }
+            })
+        }
+    }
+
+    return { workbook: buildCostWorkbook(model), document: 'Cost_Workbook' }
+}
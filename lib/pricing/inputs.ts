@@ -0,0 +1,319 @@
+/**
+ * Pricing Inputs
+ *
+ * Assembles what the pricing engine needs from the company's labor rates,
+ * the client intake's indirect rates and ODC budgets, Section B, and the
+ * contract type (which selects FFP, T&M or Cost-Plus pricing). Hours
+ * come from the basis-of-estimate step (or the user) and are normalized here
+ * against the known labor categories, CLINs and periods.
+ */
+
+import {
+    ClientIntake,
+    LaborHoursEstimate,
+    LaborRate,
+    OdcEstimate,
+    PricingInputs,
+    PricingLaborCategory,
+    PricingPeriod,
+    PricingStructure,
+    RfpParsedData,
+} from '../database.types'
+
+export const HOURS_PER_FTE_YEAR = 1880
+const DEFAULT_OPTION_YEARS = 4
+const DEFAULT_ESCALATION = 3 // Percent per year
+const MAX_HOURS_PER_LINE = 100000
+
+// CPIF fee range around the target fee, and the CPAF base fee cap (DFARS 216.405-2), in percent
+const CPIF_FEE_SPREAD = 3
+const CPAF_MAX_BASE_FEE = 3
+const CPIF_SHARE_RATIO = '80/20'
+
+const TIME_AND_MATERIALS = /\bT\s*&\s*M\b|time[\s-]*(?:and|&)[\s-]*materials?|labor[\s-]*hours?\b|\bLH\b/i
+const COST_REIMBURSEMENT = /\bCP[FIA]F\b|cost[\s-]*plus|cost[\s-]*reimburse|\bCR\b/i
+const FIRM_FIXED = /\bFFP\b|firm[\s-]*fixed/i
+
+// Rates described this way already include indirects and fee
+const BURDENED_BASIS = /fully[\s-]*(?:burdened|loaded)|wrap(?:ped)?\s+rate|gsa|schedule\s+rate/i
+
+/**
+ * Base period plus option periods, from Section B when it shows them
+ */
+export function inferPeriods(rfp?: RfpParsedData | null): { periods: PricingPeriod[]; stated: boolean } {
+    const clins = rfp?.section_b?.clins || []
+    let options = 0
+
+    for (const clin of clins) {
+        for (const match of clin.description.matchAll(/option\s+(?:year|period)\s*(\d+)/gi)) {
+            options = Math.max(options, parseInt(match[1], 10))
+        }
+    }
+    // Period-numbered CLINs: 0001 base, 1001 option 1, 2001 option 2, ...
+    const leading = new Set(clins.map(c => clinPeriodDigit(c.clin)).filter((d): d is number => d !== null))
+    if (leading.size > 1) options = Math.max(options, ...leading)
+
+    const stated = options > 0
+    const count = stated ? options : DEFAULT_OPTION_YEARS
+    return {
+        periods: [
+            { id: 'base', name: 'Base Year', months: 12 },
+            ...Array.from({ length: count }, (_, i) => ({ id: `option_${i + 1}`, name: `Option Year ${i + 1}`, months: 12 })),
+        ],
+        stated,
+    }
+}
+
+function firstMatch(text: string, pattern: RegExp): number {
+    const index = text.search(pattern)
+    return index < 0 ? Infinity : index
+}
+
+/**
+ * Pricing structure for the contract type Agent 1 read from the solicitation.
+ * A hybrid ("FFP/T&M") is priced as the type named first; anything that is
+ * not T&M / labor-hour or cost-reimbursement is priced FFP.
+ */
+export function inferPricingStructure(
+    contractType: string | undefined,
+    intake?: ClientIntake | null,
+    rateBasis: PricingInputs['rate_basis'] = 'direct'
+): PricingStructure {
+    const text = contractType || ''
+    const fee = intake?.fee_margin ?? 0
+    const fixed = firstMatch(text, FIRM_FIXED)
+    const costPlus = firstMatch(text, COST_REIMBURSEMENT)
+    const timeAndMaterials = firstMatch(text, TIME_AND_MATERIALS)
+
+    if (costPlus < fixed && costPlus <= timeAndMaterials) {
+        if (/\bCPIF\b|incentive/i.test(text)) {
+            return {
+                contract_type: 'Cost-Plus',
+                stated: true,
+                fee_type: 'CPIF',
+                min_fee: Math.max(fee - CPIF_FEE_SPREAD, 0),
+                max_fee: fee + CPIF_FEE_SPREAD,
+                share_ratio: CPIF_SHARE_RATIO,
+            }
+        }
+        if (/\bCPAF\b|award[\s-]*fee/i.test(text)) {
+            return { contract_type: 'Cost-Plus', stated: true, fee_type: 'CPAF', base_fee: Math.min(fee, CPAF_MAX_BASE_FEE) }
+        }
+        return { contract_type: 'Cost-Plus', stated: true, fee_type: 'CPFF' }
+    }
+
+    if (timeAndMaterials < fixed) {
+        return {
+            contract_type: 'T&M',
+            stated: true,
+            materials_handling: rateBasis === 'direct' ? intake?.ga_rate ?? 0 : 0,
+        }
+    }
+
+    return { contract_type: 'FFP', stated: fixed < Infinity }
+}
+
+function clinPeriodDigit(clin: string): number | null {
+    const match = clin.trim().match(/^(?:CLIN\s*)?(\d)\d{3}[A-Z]{0,2}$/i)
+    return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * Period a CLIN is restricted to, when CLINs are numbered by period
+ */
+function clinPeriodIndex(clin: string, clins: PricingInputs['clins']): number | null {
+    const digits = new Set(clins.map(c => clinPeriodDigit(c.clin)))
+    if (digits.size < 2 || digits.has(null)) return null
+    return clinPeriodDigit(clin)
+}
+
+function pricingCategory(rate: LaborRate, defaultEscalation: number): PricingLaborCategory {
+    const periodRates = [rate.year_1_rate, rate.year_2_rate, rate.year_3_rate, rate.year_4_rate, rate.year_5_rate]
+    return {
+        category: rate.category,
+        base_rate: Number(rate.year_1_rate || rate.hourly_rate) || 0,
+        period_rates: periodRates.some(r => typeof r === 'number' && r > 0) ? periodRates : undefined,
+        escalation_rate: rate.escalation_rate ?? defaultEscalation,
+    }
+}
+
+/**
+ * CLIN for a period: among the CLINs that apply to it, the first one matching
+ * the pattern, otherwise the first one
+ */
+function periodClin(clins: PricingInputs['clins'], periodIndex: number, pattern?: RegExp): string {
+    const candidates = clins.filter(c => {
+        const restricted = clinPeriodIndex(c.clin, clins)
+        return restricted === null || restricted === periodIndex
+    })
+    const pool = candidates.length > 0 ? candidates : clins
+    return (pattern && pool.find(c => pattern.test(c.description))?.clin) || pool[0].clin
+}
+
+/**
+ * Spread per-period amounts over the CLIN each period falls under
+ */
+function byPeriodClin(
+    clins: PricingInputs['clins'],
+    perPeriod: number[],
+    pattern?: RegExp
+): Array<{ clin: string; amounts: number[] }> {
+    const lines = new Map<string, number[]>()
+    perPeriod.forEach((amount, p) => {
+        const clin = periodClin(clins, p, pattern)
+        const amounts = lines.get(clin) || perPeriod.map(() => 0)
+        amounts[p] = amount
+        lines.set(clin, amounts)
+    })
+    return Array.from(lines.entries()).map(([clin, amounts]) => ({ clin, amounts }))
+}
+
+/**
+ * Annual ODC budgets from the intake, prorated by period length
+ */
+function intakeOdcs(intake: ClientIntake | null | undefined, periods: PricingPeriod[], clins: PricingInputs['clins']): OdcEstimate[] {
+    if (!intake) return []
+
+    const budgets: Array<[string, number | null, RegExp]> = [
+        ['Travel', intake.travel_budget, /travel/i],
+        ['Software licenses', intake.license_costs, /licen[cs]e|software/i],
+        ['Hardware', intake.hardware_costs, /hardware|equipment/i],
+        ['Cloud hosting', intake.cloud_costs, /cloud|hosting/i],
+    ]
+
+    return budgets
+        .filter(([, amount]) => typeof amount === 'number' && amount > 0)
+        .flatMap(([description, amount, pattern]) => {
+            const perPeriod = periods.map(p => Math.round((amount as number) * p.months / 12 * 100) / 100)
+            const odcPattern = new RegExp(`${pattern.source}|odc|other\\s+direct|material`, 'i')
+            return byPeriodClin(clins, perPeriod, odcPattern).map(line => ({ ...line, description }))
+        })
+}
+
+/**
+ * Pricing inputs before hours are estimated (labor is empty)
+ */
+export function buildPricingInputs(
+    laborRates: LaborRate[],
+    intake: ClientIntake | null | undefined,
+    rfp?: RfpParsedData | null
+): PricingInputs {
+    const assumptions: string[] = []
+    const { periods, stated } = inferPeriods(rfp)
+    if (!stated) {
+        assumptions.push(`Period of performance not broken out in Section B; priced as a base year plus ${periods.length - 1} option years.`)
+    }
+
+    const clins = (rfp?.section_b?.clins || []).map(c => ({ clin: c.clin.trim(), description: c.description }))
+    if (clins.length === 0) {
+        clins.push({ clin: '0001', description: 'Labor' })
+        assumptions.push('No CLIN structure in the solicitation; all labor priced under a single CLIN 0001.')
+    }
+
+    const defaultEscalation = intake?.escalation_rate ?? DEFAULT_ESCALATION
+    const hasIndirects = [intake?.fringe_rate, intake?.overhead_rate, intake?.ga_rate].some(r => typeof r === 'number' && r > 0)
+    const burdenedBasis = laborRates.length > 0 && laborRates.every(r => BURDENED_BASIS.test(r.basis_of_rates || ''))
+    const rateBasis = hasIndirects && !burdenedBasis ? 'direct' : 'fully_burdened'
+
+    assumptions.push(rateBasis === 'direct'
+        ? 'Labor rates are direct (unburdened) rates; fringe, overhead, G&A and fee are applied per the company\'s disclosed indirect rates.'
+        : 'Labor rates are fully burdened (indirect costs and fee included); no additional indirects applied.')
+    assumptions.push(`Unpriced out-year rates escalate ${defaultEscalation}% per year unless the company set a rate for that year.`)
+
+    const structure = inferPricingStructure(rfp?.metadata?.contract_type, intake, rateBasis)
+    if (!structure.stated) {
+        assumptions.push('Contract type not identified in the solicitation; priced as firm-fixed-price.')
+    }
+    if (structure.contract_type === 'Cost-Plus' && rateBasis === 'fully_burdened') {
+        assumptions.push('Labor rates on file are fully burdened, so the cost-reimbursement proposal cannot break out direct labor and indirect costs until direct rates and indirect rates are provided.')
+    }
+
+    return {
+        periods,
+        clins,
+        labor_categories: laborRates.map(r => pricingCategory(r, defaultEscalation)),
+        rate_basis: rateBasis,
+        indirect_rates: {
+            fringe: intake?.fringe_rate ?? 0,
+            overhead: intake?.overhead_rate ?? 0,
+            ga: intake?.ga_rate ?? 0,
+            fee: intake?.fee_margin ?? 0,
+        },
+        labor: [],
+        odcs: intakeOdcs(intake, periods, clins),
+        hours_source: 'default',
+        structure,
+        assumptions,
+    }
+}
+
+function normalizeClin(clin: string): string {
+    return clin.replace(/^CLIN\s*/i, '').replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * Validate estimated hours against the inputs: unknown categories are dropped
+ * (and listed in the assumptions), hours on unknown CLINs (or outside a period-numbered CLIN's own period) go
+ * to the CLIN their period falls under, and duplicates are merged
+ */
+export function normalizeLaborHours(raw: unknown, inputs: PricingInputs): LaborHoursEstimate[] {
+    if (!Array.isArray(raw)) return []
+
+    const categories = new Map(inputs.labor_categories.map(c => [c.category.toLowerCase().trim(), c.category]))
+    const clins = new Map(inputs.clins.map(c => [normalizeClin(c.clin), c.clin]))
+    const merged = new Map<string, LaborHoursEstimate>()
+    const unknown = new Set<string>()
+
+    for (const item of raw) {
+        if (!item || typeof item !== 'object') continue
+        const entry = item as Record<string, unknown>
+
+        const category = categories.get(String(entry.category || '').toLowerCase().trim())
+        if (!category) {
+            if (entry.category) unknown.add(String(entry.category).trim())
+            continue
+        }
+        const knownClin = clins.get(normalizeClin(String(entry.clin || '')))
+        const restrictedTo = knownClin ? clinPeriodIndex(knownClin, inputs.clins) : null
+        const rawHours = Array.isArray(entry.hours) ? entry.hours : []
+
+        inputs.periods.forEach((_, p) => {
+            const value = Number(rawHours[p])
+            const hours = Number.isFinite(value) ? Math.min(Math.max(Math.round(value), 0), MAX_HOURS_PER_LINE) : 0
+            if (hours === 0) return
+
+            const clin = knownClin && (restrictedTo === null || restrictedTo === p) ? knownClin : periodClin(inputs.clins, p)
+            const key = `${clin}::${category}`
+            const line = merged.get(key) || {
+                clin,
+                category,
+                hours: inputs.periods.map(() => 0),
+                basis: typeof entry.basis === 'string' ? entry.basis : undefined,
+            }
+            line.hours[p] += hours
+            merged.set(key, line)
+        })
+    }
+
+    if (unknown.size > 0) {
+        inputs.assumptions.push(`Hours estimated for ${[...unknown].join(', ')} not priced - not a labor category on file.`)
+    }
+
+    return Array.from(merged.values())
+}
+
+/**
+ * Fallback staffing when no estimate is available: one FTE per labor category
+ * in every period, on the first CLIN that period falls under
+ */
+export function defaultLaborHours(inputs: PricingInputs): LaborHoursEstimate[] {
+    const perPeriod = inputs.periods.map(p => Math.round(HOURS_PER_FTE_YEAR * p.months / 12))
+    return inputs.labor_categories.flatMap(category =>
+        byPeriodClin(inputs.clins, perPeriod).map(line => ({
+            clin: line.clin,
+            category: category.category,
+            hours: line.amounts,
+            basis: `1.0 FTE (${HOURS_PER_FTE_YEAR} productive hours per year)`,
+        }))
+    )
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { PricingInputs } from '../database.types'
+import { buildPriceModel } from './engine'
+import { removeUnbackedDollarFigures, unbackedDollarFigures } from './presentation'
+
+// One category at $100.00/hr fully burdened for 1,000 hours: $100,000 total
+const model = buildPriceModel({
+    periods: [{ id: 'base', name: 'Base Year', months: 12 }],
+    clins: [{ clin: '0001', description: 'Help Desk Support' }],
+    labor_categories: [{ category: 'Help Desk Analyst', base_rate: 100, escalation_rate: 3 }],
+    rate_basis: 'fully_burdened',
+    indirect_rates: { fringe: 0, overhead: 0, ga: 0, fee: 0 },
+    labor: [{ clin: '0001', category: 'Help Desk Analyst', hours: [1000] }],
+    odcs: [],
+    hours_source: 'manual',
+    assumptions: [],
+} satisfies PricingInputs)
+
+describe('unbackedDollarFigures', () => {
+    it('accepts model figures, including rounded forms', () => {
+        const html = '<p>Our total price is $100,000, or about $0.1 million, at $100.00 per hour.</p>'
+        expect(unbackedDollarFigures(html, model)).toEqual([])
+    })
+
+    it('reports figures the model does not contain', () => {
+        const html = '<p>We delivered a $4.2 million program last year.</p><table><tr><td>$12</td></tr></table>'
+        expect(unbackedDollarFigures(html, model)).toEqual(['$4.2 million'])
+    })
+})
+
+describe('removeUnbackedDollarFigures', () => {
+    it('cuts only the sentences with an unbacked figure', () => {
+        const { html, removed } = removeUnbackedDollarFigures(
+            '<p class="lead">Our total price is $100,000. We saved the last customer $250,000. Staffing follows the PWS.</p>',
+            model
+        )
+
+        expect(html).toBe('<p class="lead">Our total price is $100,000. Staffing follows the PWS.</p>')
+        expect(removed).toEqual(['We saved the last customer $250,000.'])
+    })
+
+    it('keeps inline tags balanced', () => {
+        const { html } = removeUnbackedDollarFigures(
+            '<p>The price is <strong>firm. It includes $30,000 of travel.</strong> Rates are escalated 3% per year. A reserve of <em>$5,000</em> covers surge.</p>',
+            model
+        )
+
+        expect(html).toBe('<p>Rates are escalated 3% per year.</p>')
+        expect(html.match(/<strong>/g)?.length ?? 0).toBe(html.match(/<\/strong>/g)?.length ?? 0)
+    })
+
+    it('ends a sentence at a closing tag', () => {
+        const { html } = removeUnbackedDollarFigures(
+            '<p>Hours are <em>as estimated.</em> Travel adds $7,500.</p>',
+            model
+        )
+
+        expect(html).toBe('<p>Hours are <em>as estimated.</em></p>')
+    })
+
+    it('drops emptied blocks and leaves the computed tables alone', () => {
+        const { html } = removeUnbackedDollarFigures(
+            '<ul><li>Includes a $9,999 license.</li><li>Price: $100,000.</li></ul><table><tr><td>$9,999</td></tr></table>',
+            model
+        )
+
+        expect(html).toBe('<ul><li>Price: $100,000.</li></ul><table><tr><td>$9,999</td></tr></table>')
+    })
+})
@@ -0,0 +1,434 @@
+/**
+ * Price Volume Tables
+ *
+ * HTML tables and a plain-text fact sheet rendered straight from the price
+ * model. The Price volume embeds these tables as-is; the writer only gets the
+ * fact sheet to narrate, never the job of computing a figure.
+ */
+
+import { PriceModel, PricingStructure } from '../database.types'
+import { pricingStructure } from './engine'
+import { HOURS_PER_FTE_YEAR } from './inputs'
+
+const FEE_TYPE_NAMES = {
+    CPFF: 'Cost-Plus-Fixed-Fee',
+    CPIF: 'Cost-Plus-Incentive-Fee',
+    CPAF: 'Cost-Plus-Award-Fee',
+}
+
+export function formatCurrency(amount: number): string {
+    const sign = amount < 0 ? '-' : ''
+    return `${sign}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export function formatHours(hours: number): string {
+    return hours.toLocaleString('en-US', { maximumFractionDigits: 2 })
+}
+
+function formatPercent(rate: number): string {
+    return `${rate.toLocaleString('en-US', { maximumFractionDigits: 2 })}%`
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function table(headers: string[], rows: string[][], totalRow?: string[]): string {
+    const head = `<thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>`
+    const body = rows.map(r => `<tr>${r.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('\n')
+    const total = totalRow ? `\n<tr class="total-row">${totalRow.map(c => `<td><strong>${escapeHtml(c)}</strong></td>`).join('')}</tr>` : ''
+    return `<table class="price-table">\n${head}\n<tbody>\n${body}${total}\n</tbody>\n</table>`
+}
+
+function sum(values: number[]): number {
+    return Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100
+}
+
+/**
+ * Contract type as the Price volume names it ("Cost-Plus-Fixed-Fee (CPFF)")
+ */
+export function contractTypeLabel(structure: PricingStructure): string {
+    if (structure.contract_type === 'T&M') return 'Time-and-Materials (T&M)'
+    if (structure.contract_type === 'Cost-Plus') {
+        const feeType = structure.fee_type || 'CPFF'
+        return `${FEE_TYPE_NAMES[feeType]} (${feeType})`
+    }
+    return 'Firm-Fixed-Price (FFP)'
+}
+
+function feeLabel(model: PriceModel): string {
+    const rate = formatPercent(model.inputs.indirect_rates.fee)
+    if (model.contract?.contract_type !== 'Cost-Plus') return `Fee (${rate})`
+    if (model.contract.fee_type === 'CPIF') return `Target Fee (${rate})`
+    if (model.contract.fee_type === 'CPAF') return `Base Fee and Award Fee Pool (${rate})`
+    return `Fixed Fee (${rate})`
+}
+
+/**
+ * Total price by CLIN and period
+ */
+export function priceSummaryTable(model: PriceModel): string {
+    const periods = model.inputs.periods
+    return table(
+        ['CLIN', 'Description', ...periods.map(p => p.name), 'Total'],
+        model.clin_totals.map(c => [c.clin, c.description, ...c.periods.map(formatCurrency), formatCurrency(c.total)]),
+        ['Total', '', ...model.period_totals.map(p => formatCurrency(p.price)), formatCurrency(model.total.price)]
+    )
+}
+
+/**
+ * Hourly rates per labor category and period (direct or fully burdened)
+ */
+export function laborRateTable(model: PriceModel, kind: 'direct' | 'burdened'): string {
+    return table(
+        ['Labor Category', ...model.inputs.periods.map(p => p.name)],
+        model.rates.map(r => [r.category, ...r[kind].map(formatCurrency)])
+    )
+}
+
+/**
+ * Hours per labor category and period, with FTEs over the whole period of performance
+ */
+export function laborHoursTable(model: PriceModel): string {
+    const periods = model.inputs.periods
+    const totalMonths = periods.reduce((s, p) => s + p.months, 0) || 12
+    const byCategory = new Map<string, number[]>()
+    for (const line of model.labor_lines) {
+        const hours = byCategory.get(line.category) || periods.map(() => 0)
+        hours[periods.findIndex(p => p.id === line.period)] += line.hours
+        byCategory.set(line.category, hours)
+    }
+
+    const rows = Array.from(byCategory.entries()).map(([category, hours]) => {
+        const total = sum(hours)
+        return [category, ...hours.map(formatHours), formatHours(total), (total / (HOURS_PER_FTE_YEAR * totalMonths / 12)).toFixed(2)]
+    })
+    return table(
+        ['Labor Category', ...periods.map(p => p.name), 'Total Hours', 'Avg FTE'],
+        rows,
+        ['Total', ...model.period_totals.map(p => formatHours(p.hours)), formatHours(model.total.hours), (model.total.hours / (HOURS_PER_FTE_YEAR * totalMonths / 12)).toFixed(2)]
+    )
+}
+
+/**
+ * Basis of estimate for one CLIN: hours x burdened rate per category and period
+ */
+export function clinEstimateTable(model: PriceModel, clin: string): string {
+    const periodNames = new Map(model.inputs.periods.map(p => [p.id, p.name]))
+    const labor = model.labor_lines.filter(l => l.clin === clin)
+    const odcs = model.odc_lines.filter(l => l.clin === clin)
+    const total = model.clin_totals.find(c => c.clin === clin)?.total || 0
+
+    return table(
+        ['Period', 'Labor Category / ODC', 'Hours', 'Rate', 'Extended Price'],
+        [
+            ...labor.map(l => [periodNames.get(l.period) || l.period, l.category, formatHours(l.hours), formatCurrency(l.burdened_rate), formatCurrency(l.price)]),
+            ...odcs.map(o => [periodNames.get(o.period) || o.period, o.description, '', '', formatCurrency(o.price)]),
+        ],
+        [`CLIN ${clin} Total`, '', '', '', formatCurrency(total)]
+    )
+}
+
+type CostElementRow = [string, (totals: PriceModel['total']) => number]
+
+/**
+ * Cost element build-up (direct labor through fee) by period. Cost-Plus
+ * follows the DCAA cost element format with cost input and estimated cost
+ * subtotals; under T&M the G&A line also carries material handling.
+ */
+export function costBuildUpTable(model: PriceModel): string {
+    const { indirect_rates: rates, rate_basis: basis } = model.inputs
+    const structure = pricingStructure(model.inputs)
+    const element = (key: keyof PriceModel['total']) => (t: PriceModel['total']) => t[key]
+    const costInput = (t: PriceModel['total']) => sum([t.direct_labor, t.fringe, t.overhead, t.odc])
+
+    let elements: CostElementRow[]
+    if (basis !== 'direct') {
+        elements = [
+            ['Labor (fully burdened)', element('direct_labor')],
+            [structure.contract_type === 'T&M' ? 'Materials (at cost)' : 'Other Direct Costs', element('odc')],
+        ]
+        if (structure.contract_type === 'T&M' && structure.materials_handling) {
+            elements.push([`Material Handling (${formatPercent(structure.materials_handling)})`, element('ga')])
+        }
+    } else if (structure.contract_type === 'Cost-Plus') {
+        elements = [
+            ['Direct Labor', element('direct_labor')],
+            [`Fringe (${formatPercent(rates.fringe)})`, element('fringe')],
+            [`Overhead (${formatPercent(rates.overhead)})`, element('overhead')],
+            ['Other Direct Costs', element('odc')],
+            ['Total Cost Input', costInput],
+            [`G&A (${formatPercent(rates.ga)})`, element('ga')],
+            ['Total Estimated Cost', t => sum([costInput(t), t.ga])],
+            [feeLabel(model), element('fee')],
+        ]
+    } else {
+        elements = [
+            ['Direct Labor', element('direct_labor')],
+            [`Fringe (${formatPercent(rates.fringe)})`, element('fringe')],
+            [`Overhead (${formatPercent(rates.overhead)})`, element('overhead')],
+            [structure.contract_type === 'T&M' ? 'Materials (at cost)' : 'Other Direct Costs', element('odc')],
+            [structure.contract_type === 'T&M'
+                ? `G&A (${formatPercent(rates.ga)}) and Material Handling (${formatPercent(structure.materials_handling ?? 0)})`
+                : `G&A (${formatPercent(rates.ga)})`, element('ga')],
+            [structure.contract_type === 'T&M' ? `Fee on Labor (${formatPercent(rates.fee)})` : feeLabel(model), element('fee')],
+        ]
+    }
+
+    return table(
+        ['Cost Element', ...model.inputs.periods.map(p => p.name), 'Total'],
+        elements.map(([label, value]) => [label, ...model.period_totals.map(p => formatCurrency(value(p))), formatCurrency(value(model.total))]),
+        [totalLabel(structure), ...model.period_totals.map(p => formatCurrency(p.price)), formatCurrency(model.total.price)]
+    )
+}
+
+function totalLabel(structure: PricingStructure): string {
+    if (structure.contract_type === 'T&M') return 'Total Ceiling Price'
+    if (structure.contract_type === 'Cost-Plus') return 'Total Estimated Cost plus Fee'
+    return 'Total Firm-Fixed Price'
+}
+
+/**
+ * T&M ceilings: fixed hourly rate and ceiling hours per labor category and
+ * period, plus the materials ceiling
+ */
+export function tmCeilingTable(model: PriceModel): string {
+    const structure = pricingStructure(model.inputs)
+    const rows: string[][] = []
+
+    for (const rate of model.rates) {
+        model.inputs.periods.forEach(period => {
+            const lines = model.labor_lines.filter(l => l.category === rate.category && l.period === period.id)
+            if (lines.length === 0) return
+            rows.push([
+                rate.category,
+                period.name,
+                formatCurrency(lines[0].burdened_rate),
+                formatHours(sum(lines.map(l => l.hours))),
+                formatCurrency(sum(lines.map(l => l.price))),
+            ])
+        })
+    }
+    if (model.odc_lines.length > 0) {
+        rows.push([
+            `Materials (at cost plus ${formatPercent(structure.materials_handling ?? 0)} handling, no fee)`,
+            'All periods',
+            '',
+            '',
+            formatCurrency(sum(model.odc_lines.map(o => o.price))),
+        ])
+    }
+
+    return table(
+        ['Labor Category', 'Period', 'Fixed Hourly Rate', 'Ceiling Hours', 'Ceiling Amount'],
+        rows,
+        ['Total Ceiling Price', '', '', formatHours(model.total.hours), formatCurrency(model.total.price)]
+    )
+}
+
+/**
+ * Cost-Plus fee: estimated cost, the fee and how it is earned
+ */
+export function feeStructureTable(model: PriceModel): string {
+    const structure = pricingStructure(model.inputs)
+    const contract = model.contract
+    const rows: string[][] = [['Total Estimated Cost', formatCurrency(contract?.estimated_cost ?? model.total.price - model.total.fee)]]
+
+    if (contract?.fee_type === 'CPIF') {
+        rows.push(
+            [`Target Fee (${formatPercent(model.inputs.indirect_rates.fee)} of estimated cost)`, formatCurrency(contract.fee)],
+            [`Minimum Fee (${formatPercent(structure.min_fee ?? 0)})`, formatCurrency(contract.min_fee ?? 0)],
+            [`Maximum Fee (${formatPercent(structure.max_fee ?? 0)})`, formatCurrency(contract.max_fee ?? 0)],
+            ['Share Ratio (Government/Contractor)', contract.share_ratio || '']
+        )
+    } else if (contract?.fee_type === 'CPAF') {
+        rows.push(
+            [`Base Fee (${formatPercent(structure.base_fee ?? 0)} of estimated cost)`, formatCurrency(contract.base_fee ?? 0)],
+            ['Award Fee Pool', formatCurrency(contract.award_fee_pool ?? 0)]
+        )
+    } else {
+        rows.push([`Fixed Fee (${formatPercent(model.inputs.indirect_rates.fee)} of estimated cost)`, formatCurrency(model.total.fee)])
+    }
+
+    return table(['Element', 'Amount'], rows, ['Total Estimated Cost plus Fee', formatCurrency(model.total.price)])
+}
+
+/**
+ * One-line statement of the contract type and its key figures
+ */
+function contractFacts(model: PriceModel): string {
+    const structure = pricingStructure(model.inputs)
+    const contract = model.contract
+    const label = contractTypeLabel(structure)
+
+    if (structure.contract_type === 'T&M' && contract) {
+        return `Contract type: ${label} - labor at fixed hourly rates up to ${formatHours(contract.ceiling_hours ?? model.total.hours)} ceiling hours (labor ceiling ${formatCurrency(contract.labor_price)}); materials at cost plus ${formatPercent(structure.materials_handling ?? 0)} material handling with no fee (materials ceiling ${formatCurrency(contract.materials_price)}); total ceiling price ${formatCurrency(model.total.price)}`
+    }
+    if (structure.contract_type === 'Cost-Plus' && contract) {
+        const fee = contract.fee_type === 'CPIF'
+            ? `target fee ${formatCurrency(contract.fee)}, minimum fee ${formatCurrency(contract.min_fee ?? 0)}, maximum fee ${formatCurrency(contract.max_fee ?? 0)}, ${contract.share_ratio} government/contractor share ratio`
+            : contract.fee_type === 'CPAF'
+                ? `base fee ${formatCurrency(contract.base_fee ?? 0)} plus an award fee pool of ${formatCurrency(contract.award_fee_pool ?? 0)}`
+                : `fixed fee ${formatCurrency(contract.fee)}`
+        return `Contract type: ${label} - total estimated cost ${formatCurrency(contract.estimated_cost)}; ${fee}; total estimated cost plus fee ${formatCurrency(model.total.price)}`
+    }
+    return `Contract type: ${label} - each CLIN total is a firm fixed price`
+}
+
+/**
+ * Other direct costs by type and period
+ */
+export function odcTable(model: PriceModel): string {
+    const periods = model.inputs.periods
+    const byType = new Map<string, number[]>()
+    for (const line of model.odc_lines) {
+        const amounts = byType.get(line.description) || periods.map(() => 0)
+        amounts[periods.findIndex(p => p.id === line.period)] += line.cost
+        byType.set(line.description, amounts)
+    }
+    return table(
+        ['ODC', ...periods.map(p => p.name), 'Total'],
+        Array.from(byType.entries()).map(([type, amounts]) => [type, ...amounts.map(formatCurrency), formatCurrency(sum(amounts))]),
+        ['Total', ...model.period_totals.map(p => formatCurrency(p.odc)), formatCurrency(model.total.odc)]
+    )
+}
+
+/**
+ * The figures the writer may cite, as plain text for the prompt
+ */
+export function pricingFacts(model: PriceModel): string {
+    const { inputs, total } = model
+    const lines = [
+        contractFacts(model),
+        `Total evaluated price: ${formatCurrency(total.price)} over ${inputs.periods.length} periods (${inputs.periods.map(p => p.name).join(', ')})`,
+        ...model.period_totals.map(p => `- ${p.name}: ${formatCurrency(p.price)} (${formatHours(p.hours)} hours)`),
+        `Total labor hours: ${formatHours(total.hours)}`,
+        `CLIN totals: ${model.clin_totals.map(c => `${c.clin} ${formatCurrency(c.total)}`).join('; ')}`,
+        inputs.rate_basis === 'direct'
+            ? `Indirect rates: fringe ${formatPercent(inputs.indirect_rates.fringe)}, overhead ${formatPercent(inputs.indirect_rates.overhead)}, G&A ${formatPercent(inputs.indirect_rates.ga)}, fee ${formatPercent(inputs.indirect_rates.fee)} (wrap rate ${model.wrap_rate.toFixed(4)})`
+            : 'Labor rates are fully burdened; no separate indirect rates',
+        `Direct labor: ${formatCurrency(total.direct_labor)}; ODCs: ${formatCurrency(total.odc)}; fee: ${formatCurrency(total.fee)}`,
+        'Labor categories (first-period burdened rate):',
+        ...model.rates.map(r => `- ${r.category}: ${formatCurrency(r.burdened[0] ?? 0)}/hr`),
+        'Assumptions:',
+        ...inputs.assumptions.map(a => `- ${a}`),
+    ]
+    return lines.join('\n')
+}
+
+/**
+ * Every dollar figure the model produced, in cents
+ */
+export function modelFigures(model: PriceModel): number[] {
+    const figures: number[] = []
+    const add = (...values: number[]) => values.forEach(v => figures.push(Math.round(v * 100)))
+
+    model.rates.forEach(r => add(...r.direct, ...r.burdened))
+    model.labor_lines.forEach(l => add(l.direct_rate, l.burdened_rate, l.direct_labor, l.fringe, l.overhead, l.ga, l.fee, l.price))
+    model.odc_lines.forEach(o => add(o.cost, o.ga, o.fee, o.price))
+    model.clin_totals.forEach(c => add(...c.periods, c.total))
+    for (const p of [...model.period_totals, model.total]) {
+        add(p.direct_labor, p.fringe, p.overhead, p.odc, p.ga, p.fee, p.price, p.direct_labor + p.fringe + p.overhead + p.odc + p.ga)
+        add(p.direct_labor + p.fringe + p.overhead, p.direct_labor + p.fringe + p.overhead + p.odc)
+    }
+    if (model.contract) {
+        const c = model.contract
+        add(c.labor_price, c.materials_price, c.estimated_cost, c.fee, c.min_fee ?? 0, c.max_fee ?? 0, c.base_fee ?? 0, c.award_fee_pool ?? 0)
+    }
+    return figures
+}
+
+const SCALES: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, b: 1e9, billion: 1e9 }
+
+// "$4,200,000", "$4.2 million", "$48K"
+const DOLLAR_FIGURE = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s*(thousand|million|billion|mm|[kmb])\b)?/gi
+
+function unbackedIn(text: string, figures: number[]): string[] {
+    const unbacked: string[] = []
+    for (const match of text.matchAll(DOLLAR_FIGURE)) {
+        const whole = match[1].replace(/,/g, '')
+        const decimals = match[2] || ''
+        const scale = match[3] ? SCALES[match[3].toLowerCase()] : 1
+        const cents = Math.round(parseFloat(`${whole}.${decimals || '0'}`) * scale * 100)
+        // Half a unit of the last digit written, in cents
+        const tolerance = Math.max(0.5 * scale * 100 / Math.pow(10, decimals.length), 0.5)
+
+        if (!figures.some(f => Math.abs(f - cents) <= tolerance)) unbacked.push(match[0].trim())
+    }
+    return unbacked
+}
+
+/**
+ * Dollar figures in narrative text that the price model does not contain.
+ * Rounded forms ("$4.2 million", "$48,000") count as backed when they round
+ * from a model figure at the precision written.
+ */
+export function unbackedDollarFigures(html: string, model: PriceModel): string[] {
+    const text = html.replace(/<table[\s\S]*?<\/table>/gi, ' ').replace(/<[^>]+>/g, ' ')
+    return Array.from(new Set(unbackedIn(text, modelFigures(model))))
+}
+
+// Elements without a closing tag
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'input', 'wbr'])
+
+/**
+ * A block's inner HTML cut into sentences. Sentences only end outside inline
+ * elements, so every piece keeps its tags balanced - a sentence that ends inside
+ * <strong> runs on to the next boundary at the top level.
+ */
+function htmlSentences(inner: string): string[] {
+    const sentences: string[] = []
+    let depth = 0
+    let start = 0
+    const cut = (end: number) => {
+        sentences.push(inner.substring(start, end))
+        start = end
+    }
+
+    for (const match of inner.matchAll(/<(\/)?([a-z][\w-]*)[^>]*>|[.!?](?=\s)/gi)) {
+        const index = match.index ?? 0
+        const end = index + match[0].length
+        if (!match[2]) {
+            if (depth === 0) cut(end)
+            continue
+        }
+        if (VOID_ELEMENTS.has(match[2].toLowerCase()) || match[0].endsWith('/>')) continue
+
+        depth = Math.max(0, depth + (match[1] ? -1 : 1))
+        // "... <em>as priced.</em> Next" ends at the closing tag
+        if (match[1] && depth === 0 && /[.!?]$/.test(inner.substring(0, index)) && /^\s/.test(inner.substring(end))) cut(end)
+    }
+    cut(inner.length)
+
+    return sentences.map(sentence => sentence.trim()).filter(Boolean)
+}
+
+/**
+ * Cut the sentences that cite a dollar figure the price model does not contain
+ * (a paragraph or list item left empty goes too). The computed tables are
+ * left alone; items with nested lists are kept whole.
+ */
+export function removeUnbackedDollarFigures(html: string, model: PriceModel): { html: string; removed: string[] } {
+    const figures = modelFigures(model)
+    const removed: string[] = []
+    const plain = (fragment: string) => fragment.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+
+    const cleaned = html
+        .split(/(<table[\s\S]*?<\/table>)/i)
+        .map((part, i) => i % 2 === 1 ? part : part.replace(
+            /<(p|li)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi,
+            (block, tag: string, attributes: string | undefined, inner: string) => {
+                if (/<(?:ul|ol|li|p)[\s>]/i.test(inner) || unbackedIn(plain(inner), figures).length === 0) return block
+
+                const kept = htmlSentences(inner).filter(sentence => {
+                    if (unbackedIn(plain(sentence), figures).length === 0) return true
+                    removed.push(plain(sentence))
+                    return false
+                })
+                return kept.length > 0 ? `<${tag}${attributes || ''}>${kept.join(' ')}</${tag}>` : ''
+            }
+        ))
+        .join('')
+
+    return { html: cleaned, removed }
+}
@@ -0,0 +1,74 @@
+/**
+ * Price to Win
+ *
+ * Distance of a total evaluated price from the capture team's price-to-win
+ * target. The target is the one set on the competitive assessment, or - when
+ * none is set - the midpoint of the lowest competitor estimate on file.
+ */
+
+import { CompetitiveAssessment, PriceToWinReport } from '../database.types'
+import { roundCents } from './engine'
+
+// Within this share of the target a price counts as at the target
+export const PRICE_TO_WIN_TOLERANCE_PERCENT = 2
+
+/**
+ * Price-to-win target and where it came from (null without a target or any competitor estimate)
+ */
+export function priceToWinTarget(
+    assessment: CompetitiveAssessment | null | undefined
+): { target: number; basis: PriceToWinReport['target_basis'] } | null {
+    if (!assessment) return null
+    if (assessment.price_to_win && assessment.price_to_win > 0) {
+        return { target: assessment.price_to_win, basis: 'set' }
+    }
+
+    const midpoints = assessment.competitors
+        .map(c => {
+            const low = c.price_low ?? c.price_high
+            const high = c.price_high ?? c.price_low
+            return low !== null && high !== null ? (low + high) / 2 : null
+        })
+        .filter((m): m is number => m !== null && m > 0)
+    if (midpoints.length === 0) return null
+
+    return { target: roundCents(Math.min(...midpoints)), basis: 'competitor_estimates' }
+}
+
+/**
+ * Where a proposed total evaluated price stands against the price-to-win target
+ * and each competitor's estimated range (null without a target)
+ */
+export function analyzePriceToWin(
+    proposedPrice: number,
+    assessment: CompetitiveAssessment | null | undefined
+): PriceToWinReport | null {
+    const target = priceToWinTarget(assessment)
+    if (!target || !assessment) return null
+
+    const distance = roundCents(proposedPrice - target.target)
+    const distancePercent = Math.round(distance / target.target * 10000) / 100
+
+    return {
+        target: target.target,
+        target_basis: target.basis,
+        proposed_price: proposedPrice,
+        distance,
+        distance_percent: distancePercent,
+        position: Math.abs(distancePercent) <= PRICE_TO_WIN_TOLERANCE_PERCENT ? 'at' : distance < 0 ? 'below' : 'above',
+        competitors: assessment.competitors.map(c => {
+            const low = c.price_low ?? c.price_high
+            const high = c.price_high ?? c.price_low
+            return {
+                name: c.name,
+                incumbent: c.incumbent,
+                price_low: c.price_low,
+                price_high: c.price_high,
+                position: low === null || high === null
+                    ? 'unknown' as const
+                    : proposedPrice < low ? 'below' as const : proposedPrice > high ? 'above' as const : 'within' as const,
+            }
+        }),
+        generated_at: new Date().toISOString(),
+    }
+}
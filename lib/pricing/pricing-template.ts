@@ -0,0 +1,369 @@
+/**
+ * Solicitation Pricing Template
+ *
+ * When the solicitation ships its own pricing spreadsheet (tagged
+ * pricing_template at ingestion), the offeror is expected to fill that file
+ * rather than submit a layout of its own. Header rows are read to find the
+ * labor category / CLIN column and the rate, hours and price columns (per
+ * period where the header or the group header above it names one); rows
+ * naming a priced labor category or CLIN get the price model's figures.
+ * Formula cells and text are never overwritten, so the template's own
+ * extensions and totals recalculate when the workbook is opened.
+ */
+
+import { PriceModel, RfpSourceDocument } from '../database.types'
+import { readZip, readZipText, ZipEntry } from '../ingestion/zip-reader'
+import { columnIndex, decodeXmlEntities, readSharedStrings } from '../ingestion/office-extractor'
+import { columnLetter } from '../packaging/xlsx-writer'
+import { createZip } from '../packaging/zip-writer'
+
+const CATEGORY_HEADER = /labor\s*categor|^categor|position|job\s*title|^title$|^role$|^labor\s*(?:type)?$/
+const CLIN_HEADER = /^(?:clin|line\s*item|item)\s*(?:no\.?|number|#)?$/
+const HOURS_HEADER = /\bhours?\b|\bhrs\b|\bqty\b|quantity/
+const RATE_HEADER = /\brates?\b|unit\s*(?:price|cost)|price\s*per|per\s*hour|hourly/
+const AMOUNT_HEADER = /extended|amount|total|\bprice\b|\bcost\b/
+
+type ColumnRole = 'rate' | 'hours' | 'amount'
+
+interface TemplateColumn {
+    index: number
+    role: ColumnRole
+    period: number | null // Period index; null for whole-contract (total) columns
+    direct: boolean // Asks for unburdened rates
+}
+
+interface TemplateTable {
+    categoryColumn: number | null
+    clinColumn: number | null
+    columns: TemplateColumn[]
+}
+
+interface SheetCell {
+    ref: string
+    text: string
+    formula: boolean
+    numeric: boolean
+}
+
+type SheetRows = Map<number, Map<number, SheetCell>>
+
+export interface TemplateFillResult {
+    workbook: Uint8Array
+    filledCells: number
+    sheets: string[] // Worksheets that received figures
+}
+
+/**
+ * The solicitation's pricing spreadsheet, if the package included one
+ */
+export function findPricingTemplate(documents: RfpSourceDocument[] | undefined): RfpSourceDocument | null {
+    return documents?.find(d => d.role === 'pricing_template' && d.file_url && /\.xlsx$/i.test(d.file_name)) || null
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+function worksheets(entries: ZipEntry[], workbookXml: string): Array<{ name: string; path: string }> {
+    const relsXml = readZipText(entries, 'xl/_rels/workbook.xml.rels') || ''
+    const targets = new Map<string, string>()
+    for (const match of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+        const id = match[0].match(/\bId="([^"]+)"/)?.[1]
+        const target = match[0].match(/\bTarget="([^"]+)"/)?.[1]
+        if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+    }
+
+    const sheets: Array<{ name: string; path: string }> = []
+    for (const match of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+        const name = decodeXmlEntities(match[0].match(/\bname="([^"]+)"/)?.[1] || 'Sheet')
+        const path = targets.get(match[0].match(/\br:id="([^"]+)"/)?.[1] || '')
+        if (path) sheets.push({ name, path })
+    }
+    return sheets
+}
+
+function readCells(xml: string, sharedStrings: string[]): SheetRows {
+    const rows: SheetRows = new Map()
+
+    for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+        const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] || '', 10)
+        if (!rowNumber) continue
+
+        const cells = new Map<number, SheetCell>()
+        for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const ref = cellMatch[1].match(/\br="([A-Z]+\d+)"/)?.[1]
+            if (!ref) continue
+            const type = cellMatch[1].match(/\bt="(\w+)"/)?.[1]
+            const content = cellMatch[2] || ''
+            const raw = content.match(/<v>([^<]*)<\/v>/)?.[1]
+
+            let text = ''
+            if (type === 's') {
+                text = sharedStrings[parseInt(raw || '', 10)] ?? ''
+            } else if (type === 'inlineStr') {
+                text = decodeXmlEntities([...content.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map(m => m[1]).join(''))
+            } else {
+                text = decodeXmlEntities(raw || '')
+            }
+
+            cells.set(columnIndex(ref), {
+                ref,
+                text: text.trim(),
+                formula: /<f\b/.test(content),
+                numeric: (!type || type === 'n') && raw !== undefined,
+            })
+        }
+        rows.set(rowNumber, cells)
+    }
+    return rows
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Period index a header names ("Base Year", "Option Year 2", "OY3", "Year 4")
+ */
+function headerPeriod(label: string): number | null {
+    const text = label.toLowerCase()
+    if (/\bbase\b/.test(text)) return 0
+    const option = text.match(/option\s*(?:year|period)?\s*(\d+)|\bo\.?y\.?\s*(\d+)/)
+    if (option) return parseInt(option[1] || option[2], 10)
+    const year = text.match(/\b(?:year|yr|py|y)\s*(\d+)\b/)
+    if (year) return parseInt(year[1], 10) - 1
+    return null
+}
+
+function headerRole(text: string): ColumnRole | null {
+    if (/extended/.test(text)) return 'amount'
+    if (HOURS_HEADER.test(text)) return 'hours'
+    if (RATE_HEADER.test(text)) return 'rate'
+    if (AMOUNT_HEADER.test(text)) return 'amount'
+    return null
+}
+
+/**
+ * Recognize a table header row. Per-period columns may carry the period in
+ * their own label ("Base Year Rate") or sit under a group header row
+ * ("Base Year" spanning "Hours | Rate | Amount").
+ */
+function readHeader(cells: Map<number, SheetCell>, above: Map<number, SheetCell> | undefined, periodCount: number): TemplateTable | null {
+    const labels = (row: Map<number, SheetCell> | undefined) =>
+        Array.from(row?.entries() || [])
+            .filter(([, cell]) => cell.text && !cell.numeric && !cell.formula)
+            .sort(([a], [b]) => a - b)
+
+    const groups = labels(above)
+    const groupLabel = (index: number) => groups.filter(([column]) => column <= index).pop()?.[1].text.toLowerCase() || ''
+    const periodGroups = groups.filter(([, cell]) => headerPeriod(cell.text) !== null).length >= 2
+
+    const table: TemplateTable = { categoryColumn: null, clinColumn: null, columns: [] }
+    for (const [index, cell] of labels(cells)) {
+        const text = cell.text.toLowerCase()
+        if (CATEGORY_HEADER.test(text)) {
+            table.categoryColumn ??= index
+            continue
+        }
+        if (CLIN_HEADER.test(text)) {
+            table.clinColumn ??= index
+            continue
+        }
+
+        const ownPeriod = headerPeriod(text)
+        // A bare period label ("Option Year 1") under a role group header ("Hourly Rates")
+        const role = headerRole(text) || (ownPeriod !== null ? headerRole(groupLabel(index)) : null)
+        if (!role) continue
+
+        const period = ownPeriod !== null
+            ? ownPeriod
+            : periodGroups && !/total/.test(text) ? headerPeriod(groupLabel(index)) : null
+        if (period !== null && period >= periodCount) continue
+
+        table.columns.push({ index, role, period, direct: /\bdirect\b|unburdened/.test(text) && !/fully|loaded/.test(text) })
+    }
+
+    // Two-row headers often put the category / CLIN label in the group row
+    // (merged down, so the cell below it is empty)
+    if (table.categoryColumn === null && table.clinColumn === null) {
+        const groupKey = (pattern: RegExp) =>
+            groups.find(([column, cell]) => pattern.test(cell.text.toLowerCase()) && !cells.get(column)?.text)?.[0] ?? null
+        table.categoryColumn = groupKey(CATEGORY_HEADER)
+        table.clinColumn = groupKey(CLIN_HEADER)
+    }
+
+    return (table.categoryColumn !== null || table.clinColumn !== null) && table.columns.length > 0 ? table : null
+}
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+function labelKey(text: string): string {
+    return text.toLowerCase().replace(/\([^)]*\)/g, '').replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function clinKey(text: string): string {
+    const key = text.replace(/^CLIN\s*/i, '').replace(/\s+/g, '').toUpperCase()
+    return /^\d{1,3}$/.test(key) ? key.padStart(4, '0') : key
+}
+
+function roundTo(value: number, places: number): number {
+    const factor = Math.pow(10, places)
+    return Math.round(value * factor) / factor
+}
+
+/**
+ * Figure for one template cell, or null when the model has nothing to put there
+ */
+function cellValue(model: PriceModel, column: TemplateColumn, category: string | null, clin: string | null): number | null {
+    const periodIds = model.inputs.periods.map(p => p.id)
+
+    if (category) {
+        const lines = model.labor_lines.filter(l => l.category === category && (!clin || l.clin === clin))
+        const linePeriods = Array.from(new Set(lines.map(l => periodIds.indexOf(l.period))))
+
+        if (column.role === 'rate') {
+            const rates = model.rates.find(r => r.category === category)
+            // A single rate column takes the rate of the only period the row is priced in, else the base year's
+            const period = column.period ?? (linePeriods.length === 1 ? linePeriods[0] : 0)
+            return rates ? (column.direct ? rates.direct : rates.burdened)[period] ?? null : null
+        }
+
+        const inPeriod = lines.filter(l => column.period === null || l.period === periodIds[column.period])
+        const total = inPeriod.reduce((sum, l) => sum + (column.role === 'hours' ? l.hours : l.price), 0)
+        return roundTo(total, 2)
+    }
+
+    if (!clin || column.role === 'rate') return null
+
+    if (column.role === 'hours') {
+        const lines = model.labor_lines.filter(l => l.clin === clin && (column.period === null || l.period === periodIds[column.period]))
+        return roundTo(lines.reduce((sum, l) => sum + l.hours, 0), 2)
+    }
+
+    const totals = model.clin_totals.find(c => c.clin === clin)
+    if (!totals) return null
+    return column.period === null ? totals.total : totals.periods[column.period] ?? null
+}
+
+/**
+ * Cells to fill on one worksheet, keyed by cell reference
+ */
+function planSheet(rows: SheetRows, model: PriceModel): Map<string, number> {
+    const writes = new Map<string, number>()
+    const categories = new Map(model.rates.map(r => [labelKey(r.category), r.category]))
+    const clins = new Map(model.clin_totals.map(c => [clinKey(c.clin), c.clin]))
+    let table: TemplateTable | null = null
+
+    for (const rowNumber of Array.from(rows.keys()).sort((a, b) => a - b)) {
+        const cells = rows.get(rowNumber) as Map<number, SheetCell>
+        const categoryText = table && table.categoryColumn !== null ? cells.get(table.categoryColumn)?.text : undefined
+        const clinText = table && table.clinColumn !== null ? cells.get(table.clinColumn)?.text : undefined
+        const category = categoryText ? categories.get(labelKey(categoryText)) || null : null
+        const clin = clinText ? clins.get(clinKey(clinText)) || null : null
+
+        if (!table || (!category && !clin)) {
+            table = readHeader(cells, rows.get(rowNumber - 1), model.inputs.periods.length) || table
+            continue
+        }
+
+        for (const column of table.columns) {
+            const value = cellValue(model, column, category, clin)
+            if (value === null) continue
+
+            const cell = cells.get(column.index)
+            if (cell && (cell.formula || (!cell.numeric && cell.text))) continue
+            writes.set(cell?.ref || `${columnLetter(column.index)}${rowNumber}`, value)
+        }
+    }
+    return writes
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/**
+ * Set a numeric cell value, keeping the cell's style and the row's cell order
+ */
+function writeCell(xml: string, ref: string, value: number): string {
+    const rowNumber = ref.replace(/^[A-Z]+/, '')
+    const column = columnIndex(ref)
+    const rowPattern = new RegExp(`<row\\b([^>]*?\\br="${rowNumber}"[^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/row>)`)
+
+    return xml.replace(rowPattern, (_, attributes: string, content: string = '') => {
+        const cells = Array.from(content.matchAll(/<c\b([^>]*?)(?:\/>|>[\s\S]*?<\/c>)/g))
+        const cellRef = (match: RegExpMatchArray) => match[1].match(/\br="([A-Z]+\d+)"/)?.[1] || ''
+        const existing = cells.find(m => cellRef(m) === ref)
+        const style = existing?.[1].match(/\bs="\d+"/)?.[0]
+        const cell = `<c r="${ref}"${style ? ` ${style}` : ''}><v>${value}</v></c>`
+
+        if (existing && existing.index !== undefined) {
+            return `<row${attributes}>${content.slice(0, existing.index)}${cell}${content.slice(existing.index + existing[0].length)}</row>`
+        }
+
+        // New cells can fall outside the row's spans hint, so drop it
+        const rowAttributes = attributes.replace(/\s+spans="[^"]*"/, '')
+        const next = cells.find(m => cellRef(m) && columnIndex(cellRef(m)) > column)
+        return next && next.index !== undefined
+            ? `<row${rowAttributes}>${content.slice(0, next.index)}${cell}${content.slice(next.index)}</row>`
+            : `<row${rowAttributes}>${content}${cell}</row>`
+    })
+}
+
+/**
+ * Have Excel recalculate every formula on open (the cached results are stale)
+ */
+function forceRecalculation(workbookXml: string): string {
+    if (/<calcPr\b/.test(workbookXml)) {
+        return workbookXml.replace(/<calcPr\b([^>]*?)(\/?)>/, (_, attributes: string, close: string) =>
+            `<calcPr${attributes.replace(/\s+fullCalcOnLoad="[^"]*"/, '')} fullCalcOnLoad="1"${close}>`)
+    }
+    for (const tag of ['</definedNames>', '</externalReferences>', '</functionGroups>', '</sheets>']) {
+        if (workbookXml.includes(tag)) return workbookXml.replace(tag, () => `${tag}<calcPr fullCalcOnLoad="1"/>`)
+    }
+    return workbookXml
+}
+
+/**
+ * Fill a solicitation pricing template (.xlsx) from the price model
+ * @returns null when no labor category or CLIN rows could be matched
+ */
+export function fillPricingTemplate(template: Uint8Array, model: PriceModel): TemplateFillResult | null {
+    const entries = readZip(template)
+    const workbookXml = readZipText(entries, 'xl/workbook.xml')
+    if (!workbookXml) {
+        throw new Error('Invalid XLSX pricing template (xl/workbook.xml missing)')
+    }
+
+    const sharedStrings = readSharedStrings(readZipText(entries, 'xl/sharedStrings.xml'))
+    const updated = new Map<string, string>()
+    const sheets: string[] = []
+    let filledCells = 0
+
+    for (const { name, path } of worksheets(entries, workbookXml)) {
+        const xml = readZipText(entries, path)
+        if (!xml) continue
+
+        const writes = planSheet(readCells(xml, sharedStrings), model)
+        if (writes.size === 0) continue
+
+        let sheetXml = xml
+        for (const [ref, value] of writes) sheetXml = writeCell(sheetXml, ref, value)
+        updated.set(path, sheetXml)
+        sheets.push(name)
+        filledCells += writes.size
+    }
+
+    if (filledCells === 0) return null
+    updated.set('xl/workbook.xml', forceRecalculation(workbookXml))
+
+    const encoder = new TextEncoder()
+    const workbook = createZip(entries.map(entry => {
+        const xml = updated.get(entry.name)
+        return xml !== undefined ? { name: entry.name, data: encoder.encode(xml) } : entry
+    }))
+
+    return { workbook, filledCells, sheets }
+}
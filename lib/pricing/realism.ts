@@ -0,0 +1,268 @@
+/**
+ * Price Realism and Reasonableness
+ *
+ * Evaluators reject prices that are unrealistically low for the proposed
+ * staffing. This review compares each proposed labor rate with market
+ * benchmarks and the company's own rates on file, checks that out-year rates
+ * do not fall, that the price model adds up, that the Price volume cites only
+ * model figures, and that the priced staffing matches what the technical and
+ * management volumes promise.
+ *
+ * Bands come from PRICE_REALISM_LOW_BAND, PRICE_REALISM_HIGH_BAND and
+ * PRICE_REALISM_HISTORY_BAND (defaults 0.8, 1.3 and 0.15).
+ */
+
+import {
+    LaborRate,
+    PriceModel,
+    PriceRealismBands,
+    PriceRealismFinding,
+    PriceRealismReport,
+} from '../database.types'
+import { BenchmarkSet, matchBenchmark } from './benchmarks'
+import { HOURS_PER_FTE_YEAR } from './inputs'
+import { formatCurrency, unbackedDollarFigures } from './presentation'
+
+const DEFAULT_BANDS: PriceRealismBands = { low: 0.8, high: 1.3, history: 0.15 }
+
+// Stated team size may differ from the priced FTEs by this share before it is flagged
+const STAFFING_TOLERANCE = 0.1
+
+const FTE_PATTERN = /\b(\d+(?:\.\d+)?)\s*(?:\+\s*)?(?:FTEs?|full[-\s]time[-\s]equivalents?)\b/gi
+
+const SEVERITY_ORDER: PriceRealismFinding['severity'][] = ['critical', 'high', 'medium', 'low']
+
+export interface PriceRealismSources {
+    model: PriceModel
+    laborRates: LaborRate[] // The company's rates on file
+    benchmarks: BenchmarkSet | null
+    priceVolume?: string // Price volume HTML
+    staffingVolumes?: string[] // Technical / management volume HTML
+    bands?: PriceRealismBands
+}
+
+/**
+ * Realism bands from the environment, falling back to the defaults
+ */
+export function realismBands(): PriceRealismBands {
+    const band = (name: string, fallback: number) => {
+        const value = parseFloat(process.env[name] || '')
+        return Number.isFinite(value) && value > 0 ? value : fallback
+    }
+    return {
+        low: band('PRICE_REALISM_LOW_BAND', DEFAULT_BANDS.low),
+        high: band('PRICE_REALISM_HIGH_BAND', DEFAULT_BANDS.high),
+        history: band('PRICE_REALISM_HISTORY_BAND', DEFAULT_BANDS.history),
+    }
+}
+
+function percentText(ratio: number): string {
+    return `${Math.round(ratio * 100)}%`
+}
+
+function plainText(html: string): string {
+    return html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ')
+}
+
+function cents(dollars: number): number {
+    return Math.round(dollars * 100)
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * The model's lines must extend and roll up to its totals exactly
+ */
+function consistencyFindings(model: PriceModel): PriceRealismFinding[] {
+    const findings: PriceRealismFinding[] = []
+
+    const unextended = model.labor_lines.filter(l =>
+        cents(l.price) !== Math.round(l.hours * cents(l.burdened_rate)) ||
+        [l.direct_labor, l.fringe, l.overhead, l.ga, l.fee].reduce((sum, v) => sum + cents(v), 0) !== cents(l.price))
+    if (unextended.length > 0) {
+        findings.push({
+            check: 'consistency',
+            severity: 'critical',
+            message: `${unextended.length} labor line(s) do not extend (hours x burdened rate, or cost elements, differ from the line price)`,
+        })
+    }
+
+    model.period_totals.forEach(period => {
+        const lines = [
+            ...model.labor_lines.filter(l => l.period === period.period),
+            ...model.odc_lines.filter(l => l.period === period.period),
+        ].reduce((sum, l) => sum + cents(l.price), 0)
+        if (lines !== cents(period.price)) {
+            findings.push({
+                check: 'consistency',
+                severity: 'critical',
+                message: `${period.name} total ${formatCurrency(period.price)} does not equal the sum of its lines (${formatCurrency(lines / 100)})`,
+            })
+        }
+    })
+
+    const total = cents(model.total.price)
+    const byClin = model.clin_totals.reduce((sum, c) => sum + cents(c.total), 0)
+    const byPeriod = model.period_totals.reduce((sum, p) => sum + cents(p.price), 0)
+    if (byClin !== total || byPeriod !== total) {
+        findings.push({
+            check: 'consistency',
+            severity: 'critical',
+            message: `Total price ${formatCurrency(model.total.price)} does not match the CLIN totals (${formatCurrency(byClin / 100)}) and period totals (${formatCurrency(byPeriod / 100)})`,
+        })
+    }
+
+    return findings
+}
+
+/**
+ * Priced staffing against the team the technical and management volumes describe
+ */
+function staffingFindings(model: PriceModel, volumes: string[]): PriceRealismFinding[] {
+    const text = volumes.map(plainText).join(' ')
+    if (!text.trim()) return []
+
+    const findings: PriceRealismFinding[] = []
+    const stated = Array.from(text.matchAll(FTE_PATTERN)).map(m => parseFloat(m[1])).filter(n => n > 0)
+
+    if (stated.length > 0 && model.total.hours > 0) {
+        const team = Math.max(...stated)
+        const priced = Math.max(...model.period_totals.map((p, i) =>
+            p.hours / (HOURS_PER_FTE_YEAR * (model.inputs.periods[i]?.months || 12) / 12)))
+
+        if (team > priced * (1 + STAFFING_TOLERANCE)) {
+            findings.push({
+                check: 'staffing',
+                severity: 'high',
+                message: `The technical/management volumes describe ${team} FTEs but the price model staffs at most ${priced.toFixed(1)} FTEs in any period - the price looks unrealistically low for the proposed staffing`,
+            })
+        } else if (team < priced * (1 - STAFFING_TOLERANCE)) {
+            findings.push({
+                check: 'staffing',
+                severity: 'medium',
+                message: `The technical/management volumes describe ${team} FTEs but the price model staffs up to ${priced.toFixed(1)} FTEs - evaluators may question the priced hours`,
+            })
+        }
+    }
+
+    const pricedCategories = new Set(model.labor_lines.map(l => l.category.toLowerCase()))
+    const lowerText = text.toLowerCase()
+    for (const { category } of model.inputs.labor_categories) {
+        if (pricedCategories.has(category.toLowerCase()) || !lowerText.includes(category.toLowerCase())) continue
+        findings.push({
+            check: 'staffing',
+            severity: 'medium',
+            category,
+            message: `${category} is named in the technical/management approach but has no priced hours`,
+        })
+    }
+
+    return findings
+}
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+/**
+ * Review a price model for realism (too low for the work), reasonableness
+ * (above market) and internal consistency
+ */
+export function analyzePriceRealism(sources: PriceRealismSources): PriceRealismReport {
+    const { model, benchmarks } = sources
+    const bands = sources.bands || realismBands()
+    const periods = model.inputs.periods
+    const findings: PriceRealismFinding[] = []
+    const categories: PriceRealismReport['categories'] = []
+
+    for (const rate of model.rates) {
+        const proposed = rate.burdened[0] ?? 0
+        const benchmark = benchmarks ? matchBenchmark(benchmarks, rate.category) : null
+        const onFile = sources.laborRates.find(r => r.category.toLowerCase().trim() === rate.category.toLowerCase().trim())
+        const historical = Number(onFile?.year_1_rate || onFile?.hourly_rate) || null
+
+        categories.push({
+            category: rate.category,
+            proposed_rate: proposed,
+            benchmark_median: benchmark?.median ?? null,
+            benchmark_count: benchmark?.count ?? 0,
+            historical_rate: historical,
+        })
+
+        if (benchmark && benchmarks) {
+            const ratio = proposed / benchmark.median
+            const market = `market median ${formatCurrency(benchmark.median)}/hr (${benchmark.count} "${benchmark.category}" rates in ${benchmarks.source})`
+            if (ratio < bands.low) {
+                findings.push({
+                    check: 'benchmark',
+                    severity: 'high',
+                    category: rate.category,
+                    message: `${rate.category} at ${formatCurrency(proposed)}/hr is ${percentText(ratio)} of the ${market} - below the ${percentText(bands.low)} realism band`,
+                })
+            } else if (ratio > bands.high) {
+                findings.push({
+                    check: 'benchmark',
+                    severity: 'medium',
+                    category: rate.category,
+                    message: `${rate.category} at ${formatCurrency(proposed)}/hr is ${percentText(ratio)} of the ${market} - above the ${percentText(bands.high)} reasonableness band`,
+                })
+            }
+        } else if (benchmarks) {
+            findings.push({
+                check: 'benchmark',
+                severity: 'low',
+                category: rate.category,
+                message: `${rate.category}: no comparable labor category in ${benchmarks.source}`,
+            })
+        }
+
+        // The rate on file is on the same basis as the model's direct (input) rate
+        if (historical) {
+            const drift = (rate.direct[0] - historical) / historical
+            if (Math.abs(drift) > bands.history) {
+                findings.push({
+                    check: 'history',
+                    severity: drift < 0 ? 'high' : 'medium',
+                    category: rate.category,
+                    message: `${rate.category} is priced at ${formatCurrency(rate.direct[0])}/hr, ${percentText(Math.abs(drift))} ${drift < 0 ? 'below' : 'above'} the company's rate on file (${formatCurrency(historical)}/hr)`,
+                })
+            }
+        }
+
+        const drop = rate.direct.findIndex((value, p) => p > 0 && value < rate.direct[p - 1])
+        if (drop > 0) {
+            findings.push({
+                check: 'escalation',
+                severity: 'medium',
+                category: rate.category,
+                message: `${rate.category} falls from ${formatCurrency(rate.direct[drop - 1])}/hr (${periods[drop - 1]?.name}) to ${formatCurrency(rate.direct[drop])}/hr (${periods[drop]?.name}) - out-year rates below the prior year undercut realism`,
+            })
+        }
+    }
+
+    findings.push(...consistencyFindings(model))
+
+    if (sources.priceVolume) {
+        const unbacked = unbackedDollarFigures(sources.priceVolume, model)
+        if (unbacked.length > 0) {
+            findings.push({
+                check: 'consistency',
+                severity: 'high',
+                message: `The Price volume cites figures the price model does not contain: ${unbacked.slice(0, 8).join(', ')}${unbacked.length > 8 ? ` (+${unbacked.length - 8} more)` : ''}`,
+            })
+        }
+    }
+
+    findings.push(...staffingFindings(model, sources.staffingVolumes || []))
+    findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+
+    return {
+        findings,
+        categories,
+        benchmark_source: benchmarks?.source ?? null,
+        bands,
+        generated_at: new Date().toISOString(),
+    }
+}
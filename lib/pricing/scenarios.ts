@@ -0,0 +1,240 @@
+/**
+ * Pricing Scenarios
+ *
+ * "What if" copies of the pricing inputs: a different fee or escalation rate,
+ * hours moved from one labor category to another, or option years left out.
+ * Each scenario is priced by the same engine as the Price volume, so totals
+ * compare to the cent; promoting one makes its inputs the job's pricing inputs.
+ */
+
+import { CompetitiveAssessment, LaborHoursEstimate, PricingInputs, PricingScenario, PricingScenarioChanges, PriceToWinReport } from '../database.types'
+import { buildPriceModel, directRate, roundCents } from './engine'
+import { priceToWinTarget } from './price-to-win'
+
+const MAX_PERCENT = 100
+
+export interface ScenarioComparisonRow {
+    id: string // 'current' for the job's pricing inputs
+    name: string
+    changes: PricingScenarioChanges
+    total_evaluated_price: number // Base plus every priced option period
+    total_hours: number
+    wrap_rate: number
+    period_prices: Array<number | null> // In comparison period order, null where the period is not priced
+    delta: number // Against the current inputs
+    delta_percent: number | null
+    price_to_win_distance: number | null // Against the price-to-win target (positive = above), null without one
+    promoted_at?: string
+}
+
+export interface ScenarioComparison {
+    periods: Array<{ id: string; name: string }>
+    price_to_win: { target: number; basis: PriceToWinReport['target_basis'] } | null
+    rows: ScenarioComparisonRow[]
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value))
+}
+
+function percentValue(raw: unknown, label: string, errors: string[]): number | undefined {
+    if (raw === undefined || raw === null) return undefined
+    const value = Number(raw)
+    if (!Number.isFinite(value) || value < 0 || value > MAX_PERCENT) {
+        errors.push(`${label} must be a percentage between 0 and ${MAX_PERCENT}`)
+        return undefined
+    }
+    return value
+}
+
+/**
+ * Validate requested scenario changes against the inputs they will be applied to
+ */
+export function parseScenarioChanges(raw: unknown, inputs: PricingInputs): { changes: PricingScenarioChanges; errors: string[] } {
+    const errors: string[] = []
+    const changes: PricingScenarioChanges = {}
+    if (raw === undefined || raw === null) return { changes, errors }
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        return { changes, errors: ['changes must be an object'] }
+    }
+    const entry = raw as Record<string, unknown>
+
+    const fee = percentValue(entry.fee, 'fee', errors)
+    if (fee !== undefined) {
+        if (inputs.rate_basis === 'fully_burdened') {
+            errors.push('fee cannot change: the labor rates are fully burdened and already include fee')
+        } else {
+            changes.fee = fee
+        }
+    }
+
+    const escalation = percentValue(entry.escalation_rate, 'escalation_rate', errors)
+    if (escalation !== undefined) changes.escalation_rate = escalation
+
+    if (entry.labor_swaps !== undefined) {
+        const categories = new Map(inputs.labor_categories.map(c => [c.category.toLowerCase().trim(), c.category]))
+        const swaps = Array.isArray(entry.labor_swaps) ? entry.labor_swaps : []
+        if (!Array.isArray(entry.labor_swaps)) errors.push('labor_swaps must be an array')
+
+        changes.labor_swaps = []
+        for (const swap of swaps) {
+            const item = (swap && typeof swap === 'object' ? swap : {}) as Record<string, unknown>
+            const from = categories.get(String(item.from || '').toLowerCase().trim())
+            const to = categories.get(String(item.to || '').toLowerCase().trim())
+            const share = item.share === undefined ? 1 : Number(item.share)
+
+            if (!from || !to) {
+                errors.push(`labor_swaps: unknown labor category "${!from ? item.from : item.to}"`)
+            } else if (from === to) {
+                errors.push(`labor_swaps: ${from} cannot be swapped with itself`)
+            } else if (!Number.isFinite(share) || share <= 0 || share > 1) {
+                errors.push(`labor_swaps: share for ${from} must be greater than 0 and at most 1`)
+            } else if (!inputs.labor.some(l => l.category === from)) {
+                errors.push(`labor_swaps: ${from} has no priced hours to move`)
+            } else {
+                changes.labor_swaps.push(share === 1 ? { from, to } : { from, to, share })
+            }
+        }
+    }
+
+    if (entry.drop_periods !== undefined) {
+        const ids = Array.isArray(entry.drop_periods) ? entry.drop_periods.map(String) : []
+        if (!Array.isArray(entry.drop_periods)) errors.push('drop_periods must be an array of period ids')
+
+        const unknown = ids.filter(id => !inputs.periods.some(p => p.id === id))
+        if (unknown.length > 0) errors.push(`drop_periods: unknown period ${unknown.join(', ')}`)
+        if (ids.includes(inputs.periods[0]?.id)) errors.push(`drop_periods: the ${inputs.periods[0].name} cannot be dropped`)
+        changes.drop_periods = Array.from(new Set(ids))
+    }
+
+    return { changes, errors }
+}
+
+/**
+ * Move hours between labor categories on the same CLIN and period
+ */
+function swapLabor(labor: LaborHoursEstimate[], from: string, to: string, share: number): LaborHoursEstimate[] {
+    const result = labor.map(line => ({ ...line, hours: [...line.hours] }))
+
+    for (const line of result.filter(l => l.category === from)) {
+        let target = result.find(l => l.category === to && l.clin === line.clin)
+        if (!target) {
+            target = { clin: line.clin, category: to, hours: line.hours.map(() => 0), basis: `Hours reassigned from ${from}` }
+            result.push(target)
+        }
+        line.hours.forEach((hours, p) => {
+            const moved = Math.round(hours * share)
+            line.hours[p] = hours - moved
+            target.hours[p] += moved
+        })
+    }
+
+    return result.filter(line => line.hours.some(h => h > 0))
+}
+
+/**
+ * Copy of the inputs with the scenario changes applied. Escalation applies
+ * before periods are dropped, and dropped periods fix the remaining periods'
+ * rates so a later option year keeps its escalated rate.
+ */
+export function applyScenarioChanges(source: PricingInputs, changes: PricingScenarioChanges): PricingInputs {
+    const inputs = clone(source)
+
+    if (changes.escalation_rate !== undefined) {
+        const escalation = changes.escalation_rate
+        inputs.labor_categories = inputs.labor_categories.map(c => ({
+            ...c,
+            base_rate: directRate(c, 0),
+            period_rates: undefined,
+            escalation_rate: escalation,
+        }))
+        inputs.assumptions = inputs.assumptions.filter(a => !/^Unpriced out-year rates escalate/.test(a))
+        inputs.assumptions.push(`Labor rates escalate ${escalation}% per year from the ${inputs.periods[0]?.name || 'base period'}.`)
+    }
+
+    if (changes.fee !== undefined) {
+        inputs.indirect_rates.fee = changes.fee
+        inputs.assumptions.push(`Fee priced at ${changes.fee}% of total cost.`)
+    }
+
+    for (const swap of changes.labor_swaps || []) {
+        const share = swap.share ?? 1
+        inputs.labor = swapLabor(inputs.labor, swap.from, swap.to, share)
+        inputs.assumptions.push(share === 1
+            ? `${swap.from} hours are performed by ${swap.to}.`
+            : `${Math.round(share * 100)}% of the ${swap.from} hours are performed by ${swap.to}.`)
+    }
+
+    const dropped = new Set(changes.drop_periods || [])
+    if (dropped.size > 0) {
+        const keep = inputs.periods.map((p, i) => (dropped.has(p.id) ? -1 : i)).filter(i => i >= 0)
+        const pricedClins = new Set([...inputs.labor, ...inputs.odcs].map(l => l.clin))
+
+        inputs.labor_categories = inputs.labor_categories.map(c => {
+            const rates = keep.map(i => directRate(c, i))
+            return { ...c, base_rate: rates[0], period_rates: rates }
+        })
+        inputs.labor = inputs.labor
+            .map(line => ({ ...line, hours: keep.map(i => line.hours[i] || 0) }))
+            .filter(line => line.hours.some(h => h > 0))
+        inputs.odcs = inputs.odcs
+            .map(odc => ({ ...odc, amounts: keep.map(i => odc.amounts[i] || 0) }))
+            .filter(odc => odc.amounts.some(a => a > 0))
+        inputs.assumptions.push(`${inputs.periods.filter(p => dropped.has(p.id)).map(p => p.name).join(', ')} not priced.`)
+        inputs.periods = keep.map(i => inputs.periods[i])
+
+        // CLINs that only covered the dropped periods go with them
+        const stillPriced = new Set([...inputs.labor, ...inputs.odcs].map(l => l.clin))
+        inputs.clins = inputs.clins.filter(c => !pricedClins.has(c.clin) || stillPriced.has(c.clin))
+    }
+
+    return inputs
+}
+
+/**
+ * Price the current inputs and every scenario side by side, each measured
+ * against the price-to-win target when the job has a competitive assessment
+ */
+export function compareScenarios(
+    current: PricingInputs,
+    scenarios: PricingScenario[],
+    assessment?: CompetitiveAssessment | null
+): ScenarioComparison {
+    const baseline = buildPriceModel(current)
+    const priceToWin = priceToWinTarget(assessment)
+    const periods = current.periods.map(p => ({ id: p.id, name: p.name }))
+    for (const scenario of scenarios) {
+        for (const period of scenario.inputs.periods) {
+            if (!periods.some(p => p.id === period.id)) periods.push({ id: period.id, name: period.name })
+        }
+    }
+
+    const row = (id: string, name: string, changes: PricingScenarioChanges, inputs: PricingInputs): ScenarioComparisonRow => {
+        const model = id === 'current' ? baseline : buildPriceModel(inputs)
+        const delta = Math.round((model.total.price - baseline.total.price) * 100) / 100
+        return {
+            id,
+            name,
+            changes,
+            total_evaluated_price: model.total.price,
+            total_hours: model.total.hours,
+            wrap_rate: model.wrap_rate,
+            period_prices: periods.map(p => model.period_totals.find(t => t.period === p.id)?.price ?? null),
+            delta,
+            delta_percent: baseline.total.price > 0 ? Math.round(delta / baseline.total.price * 10000) / 100 : null,
+            price_to_win_distance: priceToWin ? roundCents(model.total.price - priceToWin.target) : null,
+        }
+    }
+
+    return {
+        periods,
+        price_to_win: priceToWin,
+        rows: [
+            row('current', 'Current pricing', {}, current),
+            ...scenarios.map(s => ({
+                ...row(s.id, s.name, s.changes, s.inputs),
+                ...(s.promoted_at ? { promoted_at: s.promoted_at } : {}),
+            })),
+        ],
+    }
+}
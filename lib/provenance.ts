@@ -0,0 +1,215 @@
+/**
+ * Content Provenance
+ *
+ * Writers tag each claim-bearing paragraph, list item or table row with the
+ * records it was drawn from:
+ *
+ *   <p data-source="past_performance:<id>#quantified_outcomes.0 requirement:C.3.2">
+ *
+ * Tags stay in the stored volume HTML so reviewers can trace a claim back to
+ * its record (the volume view shows them on hover) and are stripped from
+ * every export - downloads, PDFs and DOCX files never carry them. The same
+ * goes for the data-win-theme tags marking where a win theme is carried.
+ */
+
+import { NormalizedCompanyData } from './agents/types'
+import { ProvenanceRef, ProvenanceSourceType, RfpParsedData } from './database.types'
+
+const SOURCE_TYPES: ProvenanceSourceType[] = [
+    'past_performance',
+    'personnel',
+    'labor_rate',
+    'company',
+    'intake',
+    'requirement',
+    'price_model',
+]
+
+// data-source="..." on an element (also matches single-quoted values)
+const SOURCE_ATTRIBUTE = /\sdata-source\s*=\s*(?:"([^"]*)"|'([^']*)')/gi
+
+// Longest record value quoted in a hover label
+const LABEL_VALUE_LENGTH = 120
+
+/**
+ * Tag written into prompts next to the record it identifies
+ */
+export function sourceTag(type: ProvenanceSourceType, id: string, field?: string): string {
+    return `${type}:${id}${field ? `#${field}` : ''}`
+}
+
+/**
+ * Writer system prompt rules for emitting source tags
+ */
+export const PROVENANCE_INSTRUCTIONS = `SOURCE TAGS (machine-readable provenance):
+- Every <p>, <li> or <tr> that states a fact about the company (contract, dollar value, person, certification,
+  CPARS rating, metric) or answers an RFP requirement carries a data-source attribute naming where it came from,
+  e.g. <p data-source="personnel:1b2c... requirement:C.3.2">
+- Use only the [source: ...] tags listed in the prompt, plus requirement:<ID> for the requirement IDs listed in it
+- Append #<field> to a record tag when the sentence uses one field of it (e.g. #cpars_rating, #contract_value)
+- Separate multiple tags with spaces; never invent a tag - leave the attribute off content with no listed source`
+
+/**
+ * Rewriter rule: edits must carry the tags along with the claims they tag
+ */
+export const PROVENANCE_PRESERVE_RULE = 'Keep every data-source and data-win-theme attribute on the element holding the content it tags - when tagged content moves or is reworded, its tags go with it. Never invent data-source values.'
+
+/**
+ * Source tags in a data-source attribute value (unknown types are dropped)
+ */
+export function parseSourceTags(value: string): ProvenanceRef[] {
+    return value
+        .split(/\s+/)
+        .map(token => {
+            const match = token.match(/^([a-z_]+):([^#\s]+)(?:#(\S+))?$/)
+            if (!match || !SOURCE_TYPES.includes(match[1] as ProvenanceSourceType)) return null
+            const ref: ProvenanceRef = { type: match[1] as ProvenanceSourceType, id: match[2] }
+            if (match[3]) ref.field = match[3]
+            return ref
+        })
+        .filter((ref): ref is ProvenanceRef => ref !== null)
+}
+
+/**
+ * Volume HTML without review markup (source and win theme tags) - applied to everything exported
+ */
+export function stripProvenance(html: string): string {
+    return html.replace(/\sdata-(?:source|win-theme)\s*=\s*(?:"[^"]*"|'[^']*')/gi, '')
+}
+
+export interface ProvenanceSources {
+    companyData?: NormalizedCompanyData | null
+    rfpParsedData?: RfpParsedData | null
+}
+
+/**
+ * Adds a hover label (title attribute) resolving each element's source tags
+ * to the records they name. Use with PROVENANCE_CSS in the volume view.
+ */
+export function annotateProvenance(html: string, sources: ProvenanceSources): string {
+    return html.replace(SOURCE_ATTRIBUTE, (attribute, double?: string, single?: string) => {
+        const refs = parseSourceTags(double ?? single ?? '')
+        if (refs.length === 0) return attribute
+        const label = ['Source:', ...refs.map(ref => `- ${describeSource(ref, sources)}`)].join('\n')
+        return `${attribute} title="${escapeAttribute(label)}"`
+    })
+}
+
+/**
+ * Highlights tagged content on hover in the volume view (never printed)
+ */
+export const PROVENANCE_CSS = `
+        @media screen {
+            [data-source] { cursor: help; }
+            [data-source]:hover { background: #fefcbf; outline: 1px dashed #d69e2e; }
+        }`
+
+/**
+ * Whether a source tag names a record that is on file (requirement and price
+ * model tags are resolved against the RFP and pricing engine, not checked here)
+ */
+export function sourceOnFile(ref: ProvenanceRef, companyData: NormalizedCompanyData): boolean {
+    switch (ref.type) {
+        case 'past_performance': return companyData.pastPerformance.some(p => p.id === ref.id)
+        case 'personnel': return companyData.personnel.some(p => p.id === ref.id)
+        case 'labor_rate': return companyData.laborRates.some(r => r.id === ref.id)
+        case 'company': return companyData.company.id === ref.id
+        case 'intake': return companyData.intake?.id === ref.id
+        default: return true
+    }
+}
+
+/**
+ * Company records a proof point or claim can be tied to, as tag + label pairs
+ */
+export function companySourceOptions(companyData: NormalizedCompanyData): Array<{ source: string; label: string }> {
+    const sources: ProvenanceSources = { companyData }
+    const tags = [
+        sourceTag('company', companyData.company.id),
+        ...companyData.pastPerformance.flatMap(p => [
+            sourceTag('past_performance', p.id),
+            ...(p.cpars_rating ? [sourceTag('past_performance', p.id, 'cpars_rating')] : []),
+            ...(p.quantified_outcomes || []).map((_, i) => sourceTag('past_performance', p.id, `quantified_outcomes.${i}`)),
+        ]),
+        ...companyData.personnel.map(p => sourceTag('personnel', p.id)),
+        ...(companyData.intake ? [sourceTag('intake', companyData.intake.id)] : []),
+    ]
+    return tags.map(source => ({ source, label: describeSource(parseSourceTags(source)[0], sources) }))
+}
+
+/**
+ * Human-readable description of one source tag
+ */
+export function describeSource(ref: ProvenanceRef, sources: ProvenanceSources): string {
+    const companyData = sources.companyData
+    switch (ref.type) {
+        case 'past_performance': {
+            const contract = companyData?.pastPerformance.find(p => p.id === ref.id)
+            if (!contract) return unresolved(ref)
+            return `Past performance: ${contract.project_name} (${contract.contract_number})${describeField(contract, ref.field)}`
+        }
+        case 'personnel': {
+            const person = companyData?.personnel.find(p => p.id === ref.id)
+            if (!person) return unresolved(ref)
+            return `Personnel: ${person.name}, ${person.title}${describeField(person, ref.field)}`
+        }
+        case 'labor_rate': {
+            const rate = companyData?.laborRates.find(r => r.id === ref.id)
+            if (!rate) return unresolved(ref)
+            return `Labor rate on file: ${rate.category} ($${rate.hourly_rate}/hr)${describeField(rate, ref.field)}`
+        }
+        case 'company': {
+            const company = companyData?.company
+            if (!company || company.id !== ref.id) return unresolved(ref)
+            return `Company record: ${company.name}${describeField(company, ref.field)}`
+        }
+        case 'intake': {
+            const intake = companyData?.intake
+            if (!intake || intake.id !== ref.id) return unresolved(ref)
+            return `Client intake${describeField(intake, ref.field)}`
+        }
+        case 'requirement': {
+            const requirement = sources.rfpParsedData?.section_c.requirements.find(r => r.id === ref.id)
+            if (!requirement) return unresolved(ref)
+            return `RFP requirement ${requirement.id} (${requirement.section}): ${truncate(requirement.text)}`
+        }
+        case 'price_model':
+            return 'Computed price model (pricing engine figures)'
+    }
+}
+
+/**
+ * ": <value>" for a tagged field - quantified outcomes are addressed by index
+ */
+function describeField(record: object, field?: string): string {
+    if (!field) return ''
+    const [name, index] = field.split('.')
+    const value: unknown = (record as Record<string, unknown>)[name]
+    if (Array.isArray(value) && index !== undefined) {
+        const item: unknown = value[Number(index)]
+        if (item && typeof item === 'object' && 'metric' in item && 'value' in item) {
+            return ` - ${String(item.metric)}: ${String(item.value)}`
+        }
+        return item === undefined ? ` - ${field} (not on file)` : ` - ${name.replace(/_/g, ' ')}: ${truncate(String(item))}`
+    }
+    if (Array.isArray(value)) return ` - ${name.replace(/_/g, ' ')}: ${truncate(value.join(', '))}`
+    if (value === null || value === undefined || typeof value === 'object') return ` - ${field.replace(/_/g, ' ')}`
+    return ` - ${name.replace(/_/g, ' ')}: ${truncate(String(value))}`
+}
+
+function unresolved(ref: ProvenanceRef): string {
+    return `${sourceTag(ref.type, ref.id, ref.field)} (not on file)`
+}
+
+function truncate(text: string): string {
+    return text.length > LABEL_VALUE_LENGTH ? `${text.substring(0, LABEL_VALUE_LENGTH - 3)}...` : text
+}
+
+function escapeAttribute(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/\n/g, '&#10;')
+}
@@ -4,6 +4,9 @@
  * Focus: Consistency, Compliance, Quality over Speed
  */
 
+import { ProposalVolume } from './database.types'
+import { resolveVolumeStructure, volumeContentKey } from './volume-structure'
+
 export interface QualityCheckResult {
     passed: boolean
     score: number
@@ -100,24 +103,25 @@ export function validateSectionQuality(
 
 /**
  * Validate volume consistency - ensure volumes work together
+ * @param volumes - Volume content keyed "volume1", "volume2", ...
  */
-export function validateVolumeConsistency(volumes: {
-    volume1: string
-    volume2: string
-    volume3: string
-    volume4: string
-}): QualityCheckResult {
+export function validateVolumeConsistency(
+    volumes: Record<string, string | undefined>,
+    volumeStructure?: ProposalVolume[] | null
+): QualityCheckResult {
     const issues: string[] = []
     const warnings: string[] = []
     let score = 100
 
-    // Check for personnel name consistency across volumes
-    const vol1Personnel = extractPersonnelNames(volumes.volume1)
-    const vol2Personnel = extractPersonnelNames(volumes.volume2)
-    const vol3Personnel = extractPersonnelNames(volumes.volume3)
+    const structure = resolveVolumeStructure(volumeStructure)
+    const contents = structure.map(v => ({ volume: v, content: volumes[volumeContentKey(v.number)] || '' }))
+
+    // Check for personnel name consistency across volumes (price volumes name labor categories, not people)
+    const allNames = contents
+        .filter(c => c.volume.writer !== 'price')
+        .flatMap(c => extractPersonnelNames(c.content))
 
     // If same person appears with different names/titles, flag it
-    const allNames = [...vol1Personnel, ...vol2Personnel, ...vol3Personnel]
     const uniqueNames = new Set(allNames.map(n => n.toLowerCase()))
     
     if (uniqueNames.size < allNames.length * 0.8) {
@@ -126,23 +130,13 @@ export function validateVolumeConsistency(volumes: {
     }
 
     // Check for page count reasonableness
-    const vol1Pages = estimatePageCount(volumes.volume1)
-    const vol2Pages = estimatePageCount(volumes.volume2)
-    const vol3Pages = estimatePageCount(volumes.volume3)
-    const vol4Pages = estimatePageCount(volumes.volume4)
-
-    if (vol1Pages < 5 || vol2Pages < 5 || vol3Pages < 5 || vol4Pages < 5) {
+    if (contents.some(c => estimatePageCount(c.content) < 5)) {
         issues.push('One or more volumes appears too short')
         score -= 20
     }
 
     // Check for company name consistency
-    const companyNames = [
-        ...extractCompanyReferences(volumes.volume1),
-        ...extractCompanyReferences(volumes.volume2),
-        ...extractCompanyReferences(volumes.volume3),
-        ...extractCompanyReferences(volumes.volume4),
-    ]
+    const companyNames = contents.flatMap(c => extractCompanyReferences(c.content))
     
     const uniqueCompanyRefs = new Set(companyNames)
     if (uniqueCompanyRefs.size > 3) {
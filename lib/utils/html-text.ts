@@ -0,0 +1,26 @@
+/**
+ * HTML Text Helpers
+ *
+ * Plain text of the HTML fragments the writers produce, for matching and
+ * indexing (content library, win theme coverage, competitor names).
+ */
+
+/**
+ * Plain text of a fragment of HTML, one line per block element
+ */
+export function htmlBlocks(html: string): string[] {
+    return html
+        .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<\/(p|li|tr|h[1-6]|div)>|<br\s*\/?>/gi, '\n')
+        .replace(/<\/t[dh]>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(line => line.length > 0)
+}
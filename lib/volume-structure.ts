@@ -0,0 +1,169 @@
+/**
+ * Proposal Volume Structure
+ *
+ * Section L decides how many volumes a proposal has and what goes in each
+ * (2, 3, 5 or 6 volumes are common - e.g. a separate Small Business
+ * Participation or Security volume). Agent 0 builds the volume list from the
+ * parsed Section L; everything downstream iterates that list.
+ *
+ * Pure helpers - safe to import from client components.
+ */
+
+import { ProposalVolume, RfpParsedData, VolumePageLimits, VolumeWriterKind } from './database.types'
+
+// Used when Section L does not enumerate its volumes (and for jobs created
+// before the volume structure was stored)
+export const DEFAULT_VOLUME_STRUCTURE: ProposalVolume[] = [
+    { number: 1, name: 'Technical', writer: 'technical', page_limit: 50, required_contents: [], eval_factors: [] },
+    { number: 2, name: 'Management', writer: 'management', page_limit: 30, required_contents: [], eval_factors: [] },
+    { number: 3, name: 'Past Performance', writer: 'past_performance', page_limit: 25, required_contents: [], eval_factors: [] },
+    { number: 4, name: 'Price', writer: 'price', page_limit: null, required_contents: [], eval_factors: [] },
+]
+
+// Legacy VolumePageLimits key for each writer that has one
+const LEGACY_LIMIT_KEYS: Partial<Record<VolumeWriterKind, keyof VolumePageLimits>> = {
+    technical: 'volume_1_technical',
+    management: 'volume_2_management',
+    past_performance: 'volume_3_past_performance',
+    price: 'volume_4_price',
+}
+
+/**
+ * Pick the Agent 4 writer for a volume from its Section L name
+ */
+export function inferWriterKind(name: string): VolumeWriterKind {
+    const n = name.toLowerCase()
+
+    // Checked first - "Small Business Participation" is not a price volume
+    if (/small business|subcontract|security|cyber|oral|representations|certifications/.test(n)) return 'narrative'
+    if (/pric(e|ing)|cost/.test(n)) return 'price'
+    if (/past performance|experience|references/.test(n)) return 'past_performance'
+    if (/management|staffing|transition/.test(n)) return 'management'
+    if (/technical|approach|solution|capabilit/.test(n)) return 'technical'
+    return 'narrative'
+}
+
+/**
+ * Build the proposal's volume list from parsed Section L
+ * Falls back to the classic Technical / Management / Past Performance / Price split
+ */
+export function buildVolumeStructure(sectionL?: RfpParsedData['section_l'] | null): ProposalVolume[] {
+    const volumes = (sectionL?.volumes || []).filter(v => v?.name?.trim())
+
+    if (volumes.length > 0) {
+        return volumes.map((v, i) => ({
+            number: i + 1,
+            name: v.name.trim(),
+            writer: inferWriterKind(v.name),
+            page_limit: typeof v.page_limit === 'number' && v.page_limit > 0 ? v.page_limit : null,
+            required_contents: v.required_contents || [],
+            eval_factors: v.eval_factors || [],
+        }))
+    }
+
+    const limits = sectionL?.page_limits
+    return DEFAULT_VOLUME_STRUCTURE.map(v => {
+        const key = LEGACY_LIMIT_KEYS[v.writer]
+        if (!limits || !key) return { ...v }
+        return { ...v, page_limit: v.writer === 'price' ? limits[key] ?? null : limits[key] || v.page_limit }
+    })
+}
+
+/**
+ * Volume structure stored on a job, or the default four volumes for older jobs
+ */
+export function resolveVolumeStructure(structure?: ProposalVolume[] | null): ProposalVolume[] {
+    return structure && structure.length > 0 ? structure : DEFAULT_VOLUME_STRUCTURE
+}
+
+// Content columns that predate the volumes JSONB, kept for the first volume of each writer kind
+const LEGACY_CONTENT_COLUMNS: Partial<Record<VolumeWriterKind, string>> = {
+    technical: 'technical_approach',
+    management: 'management_approach',
+    past_performance: 'past_performance_volume',
+    price: 'pricing',
+}
+
+/**
+ * Derive the legacy four-volume page limits (first volume of each writer kind)
+ */
+export function legacyPageLimits(structure: ProposalVolume[]): VolumePageLimits {
+    const limitFor = (writer: VolumeWriterKind, fallback: number | null) => {
+        const volume = structure.find(v => v.writer === writer)
+        return volume ? volume.page_limit : fallback
+    }
+
+    return {
+        volume_1_technical: limitFor('technical', 50) || 50,
+        volume_2_management: limitFor('management', 30) || 30,
+        volume_3_past_performance: limitFor('past_performance', 25) || 25,
+        volume_4_price: limitFor('price', null),
+    }
+}
+
+/**
+ * Volume number a legacy page limit key applies to (e.g. after an amendment)
+ */
+export function volumeForPageLimitKey(structure: ProposalVolume[], key: keyof VolumePageLimits): number | undefined {
+    const writer = (Object.keys(LEGACY_LIMIT_KEYS) as VolumeWriterKind[]).find(w => LEGACY_LIMIT_KEYS[w] === key)
+    return structure.find(v => v.writer === writer)?.number
+}
+
+/**
+ * Display name of a volume number ("Volume 5" if the structure does not know it)
+ */
+export function volumeName(structure: ProposalVolume[], volumeNumber: number): string {
+    return structure.find(v => v.number === volumeNumber)?.name || `Volume ${volumeNumber}`
+}
+
+/**
+ * Legacy content column a volume is mirrored to, if any
+ */
+export function legacyContentColumn(structure: ProposalVolume[], volumeNumber: number): string | undefined {
+    const volume = structure.find(v => v.number === volumeNumber)
+    if (!volume) return undefined
+
+    const firstOfKind = structure.find(v => v.writer === volume.writer)
+    return firstOfKind?.number === volumeNumber ? LEGACY_CONTENT_COLUMNS[volume.writer] : undefined
+}
+
+/**
+ * Volume an Agent 4 writer works on: the targeted volume, else the first volume of its kind
+ */
+export function writerVolume(
+    structure: ProposalVolume[],
+    writer: VolumeWriterKind,
+    targetVolume?: number
+): ProposalVolume {
+    return structure.find(v => v.number === targetVolume) ||
+        structure.find(v => v.writer === writer) ||
+        DEFAULT_VOLUME_STRUCTURE.find(v => v.writer === writer) ||
+        DEFAULT_VOLUME_STRUCTURE[0]
+}
+
+/**
+ * Key of a volume in volumes / volume_status / volume_scores ("volume3")
+ */
+export function volumeContentKey(volumeNumber: number): string {
+    return `volume${volumeNumber}`
+}
+
+/**
+ * Key of a volume in content_outlines / volume_progress ("volume_3")
+ */
+export function volumeOutlineKey(volumeNumber: number): `volume_${number}` {
+    return `volume_${volumeNumber}`
+}
+
+export function toRoman(n: number): string {
+    const numerals: Array<[number, string]> = [[10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']]
+    let remaining = n
+    let roman = ''
+    for (const [value, numeral] of numerals) {
+        while (remaining >= value) {
+            roman += numeral
+            remaining -= value
+        }
+    }
+    return roman
+}
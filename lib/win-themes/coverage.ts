@@ -0,0 +1,112 @@
+/**
+ * Win Theme Coverage
+ *
+ * Finds which sections of each written volume carry each theme - by the
+ * data-win-theme tag the writers add, or by the statement's own terms when
+ * a rewrite dropped the tag - and which target volumes do not carry it.
+ */
+
+import { ProposalVolume, WinTheme, WinThemeCoverage, WinThemeReport } from '../database.types'
+import { tokenize } from '../content-library/retrieval'
+import { htmlBlocks } from '../utils/html-text'
+import { themeVolumes } from './themes'
+
+// Share of a statement's distinct terms a section must contain to count as carrying it untagged
+const THEME_TERM_SHARE = 0.6
+// Statements with fewer terms than this are only recognised by their tag
+const MIN_THEME_TERMS = 3
+
+const THEME_ATTRIBUTE = /\sdata-win-theme\s*=\s*(?:"([^"]*)"|'([^']*)')/gi
+const SOURCE_ATTRIBUTE = /\sdata-source\s*=\s*(?:"([^"]*)"|'([^']*)')/gi
+
+export interface ThemedVolume {
+    number: number
+    name: string
+    content: string // HTML
+}
+
+interface ThemeSection {
+    title: string
+    themeIds: Set<string>
+    sources: string[]
+    terms: Set<string>
+}
+
+function attributeValues(html: string, pattern: RegExp): string[] {
+    return [...html.matchAll(pattern)].flatMap(m => (m[1] ?? m[2] ?? '').split(/\s+/).filter(Boolean))
+}
+
+/**
+ * Volume HTML cut into its <h2>/<h3> sections (text before the first heading is 'Opening')
+ */
+function themeSections(html: string): ThemeSection[] {
+    return html
+        .split(/(?=<h[23][\s>])/i)
+        .map(part => {
+            const heading = part.match(/^<h[23][^>]*>([\s\S]*?)<\/h[23]>/i)
+            return {
+                title: heading ? htmlBlocks(heading[1]).join(' ') : 'Opening',
+                themeIds: new Set(attributeValues(part, THEME_ATTRIBUTE)),
+                sources: attributeValues(part, SOURCE_ATTRIBUTE),
+                terms: new Set(tokenize(htmlBlocks(part).join(' '))),
+            }
+        })
+        .filter(section => section.terms.size > 0 || section.themeIds.size > 0)
+}
+
+function termsPresent(text: string, terms: Set<string>): boolean {
+    const wanted = [...new Set(tokenize(text))]
+    if (wanted.length < MIN_THEME_TERMS) return false
+    return wanted.filter(t => terms.has(t)).length / wanted.length >= THEME_TERM_SHARE
+}
+
+// A proof point is cited when its record is tagged in the section or its wording is there
+function proofCited(proof: WinTheme['proof_points'][number], section: ThemeSection): boolean {
+    if (proof.source) {
+        const record = proof.source.split('#')[0]
+        if (section.sources.some(s => s === proof.source || s.split('#')[0] === record)) return true
+    }
+    return termsPresent(proof.text, section.terms)
+}
+
+/**
+ * Where each theme appears across the written volumes and which target volumes miss it
+ */
+export function analyzeWinThemeCoverage(
+    themes: WinTheme[],
+    volumes: ThemedVolume[],
+    structure: ProposalVolume[]
+): WinThemeReport {
+    const sectionsByVolume = new Map(volumes.map(v => [v.number, themeSections(v.content)]))
+
+    const coverage = themes.map((theme): WinThemeCoverage => {
+        const targets = themeVolumes(theme, structure).filter(v => sectionsByVolume.has(v.number))
+
+        const volumeCoverage = targets.map(target => {
+            const sections = sectionsByVolume.get(target.number) || []
+            const carrying = sections.filter(s => s.themeIds.has(theme.id) || termsPresent(theme.statement, s.terms))
+            return {
+                volume: target.number,
+                volume_name: target.name,
+                present: carrying.length > 0,
+                sections: [...new Set(carrying.map(s => s.title))],
+                proof_points_cited: theme.proof_points.filter(p => sections.some(s => proofCited(p, s))).length,
+            }
+        })
+
+        return {
+            theme_id: theme.id,
+            statement: theme.statement,
+            eval_factor: theme.eval_factor,
+            proof_points: theme.proof_points.length,
+            volumes: volumeCoverage,
+            missing_volumes: volumeCoverage.filter(v => !v.present).map(v => v.volume),
+        }
+    })
+
+    return {
+        themes: coverage,
+        volumes: volumes.map(v => v.number),
+        generated_at: new Date().toISOString(),
+    }
+}
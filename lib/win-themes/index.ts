@@ -0,0 +1,19 @@
+/**
+ * Win Themes
+ *
+ * Per-job win themes and discriminators: a statement, the Section M factor it
+ * targets and proof points tied to company records. The writers weave them
+ * into the volumes they target, Agent 5 reports where each theme appears and
+ * where it is missing, and the consultant turns the gaps into fixes.
+ */
+
+export {
+    WIN_THEME_ATTRIBUTE,
+    formatWinThemes,
+    normalizeWinThemes,
+    themeVolumes,
+    themesForVolume,
+} from './themes'
+export { analyzeWinThemeCoverage } from './coverage'
+export type { WinThemeOptions, WinThemeValidation } from './themes'
+export type { ThemedVolume } from './coverage'
@@ -0,0 +1,175 @@
+/**
+ * Win Theme Model
+ *
+ * Themes are edited per job before writing. Each names the Section M factor
+ * it targets and the company records behind its proof points, and is routed
+ * to the volumes that carry it.
+ */
+
+import { NormalizedCompanyData } from '../agents/types'
+import { ProposalVolume, RfpEvaluationFactor, WinTheme, WinThemeProofPoint } from '../database.types'
+import { parseSourceTags, sourceOnFile } from '../provenance'
+
+// Attribute the writers put on the element that carries a theme
+export const WIN_THEME_ATTRIBUTE = 'data-win-theme'
+
+const MAX_THEMES = 12
+const MAX_STATEMENT_CHARS = 400
+
+export interface WinThemeOptions {
+    factors: RfpEvaluationFactor[] // Section M
+    structure: ProposalVolume[]
+    companyData: NormalizedCompanyData | null
+}
+
+export interface WinThemeValidation {
+    themes: WinTheme[]
+    errors: string[]
+}
+
+function themeId(n: number): string {
+    return `WT-${String(n).padStart(3, '0')}`
+}
+
+function factorMatches(volume: ProposalVolume, factor: string): boolean {
+    const key = factor.toLowerCase()
+    return volume.eval_factors.some(f => f.toLowerCase() === key)
+}
+
+/**
+ * Volumes a theme is carried in: its own list, else the volumes evaluated
+ * under its factor (or named in it), else every volume
+ */
+export function themeVolumes(theme: WinTheme, structure: ProposalVolume[]): ProposalVolume[] {
+    if (theme.volumes.length > 0) {
+        return structure.filter(v => theme.volumes.includes(v.number))
+    }
+
+    if (theme.eval_factor) {
+        const factor = theme.eval_factor
+        const evaluated = structure.filter(v => factorMatches(v, factor))
+        if (evaluated.length > 0) return evaluated
+
+        const named = structure.filter(v => {
+            const name = v.name.toLowerCase().replace(/\bvolume\b/g, '').trim()
+            return name && factor.toLowerCase().includes(name)
+        })
+        if (named.length > 0) return named
+    }
+
+    return structure
+}
+
+/**
+ * Themes a volume should carry
+ */
+export function themesForVolume(themes: WinTheme[], volume: number, structure: ProposalVolume[]): WinTheme[] {
+    return themes.filter(theme => themeVolumes(theme, structure).some(v => v.number === volume))
+}
+
+/**
+ * Writer prompt block with a volume's themes and their proof points ('' when it carries none)
+ */
+export function formatWinThemes(themes: WinTheme[]): string {
+    if (themes.length === 0) return ''
+
+    const lines = themes.map(theme => {
+        const label = [
+            theme.discriminator ? 'discriminator' : null,
+            theme.eval_factor ? `Section M: ${theme.eval_factor}` : null,
+        ].filter(Boolean).join('; ')
+        const proof = theme.proof_points.map(p => `\n  Proof: ${p.text}${p.source ? ` [source: ${p.source}]` : ''}`).join('')
+        return `- ${theme.id}${label ? ` (${label})` : ''}: ${theme.statement}${proof}`
+    })
+
+    return `WIN THEMES (state each theme as a benefit to the agency where it fits this content, backed by its proof points;
+put ${WIN_THEME_ATTRIBUTE}="<ID>" on the <p> or <li> that carries it - separate several IDs with spaces; never force a theme
+into content it does not fit):
+${lines.join('\n')}
+
+`
+}
+
+/**
+ * Validate edited themes against Section M, the volume structure and the
+ * company records; ids are kept when valid and assigned otherwise
+ */
+export function normalizeWinThemes(input: unknown, options: WinThemeOptions): WinThemeValidation {
+    const errors: string[] = []
+    if (!Array.isArray(input)) {
+        return { themes: [], errors: ['themes must be an array'] }
+    }
+    if (input.length > MAX_THEMES) {
+        errors.push(`At most ${MAX_THEMES} win themes are allowed`)
+    }
+
+    const factorNames = new Map(options.factors.map(f => [f.name.toLowerCase(), f.name]))
+    const volumeNumbers = new Set(options.structure.map(v => v.number))
+    const usedIds = new Set<string>()
+    const now = new Date().toISOString()
+
+    // Keep ids the client sent back (first occurrence wins) so tags in written volumes still resolve
+    const keptIds = input.map(raw => {
+        const id = typeof raw?.id === 'string' ? raw.id.trim() : ''
+        if (!/^WT-\d{3}$/.test(id) || usedIds.has(id)) return null
+        usedIds.add(id)
+        return id
+    })
+
+    let next = 1
+    const themes = input.slice(0, MAX_THEMES).map((raw, index): WinTheme => {
+        const label = `Theme ${index + 1}`
+        const statement = typeof raw?.statement === 'string' ? raw.statement.replace(/\s+/g, ' ').trim() : ''
+        if (!statement) errors.push(`${label}: statement is required`)
+        if (statement.length > MAX_STATEMENT_CHARS) errors.push(`${label}: statement is longer than ${MAX_STATEMENT_CHARS} characters`)
+
+        let evalFactor: string | null = null
+        if (typeof raw?.eval_factor === 'string' && raw.eval_factor.trim()) {
+            evalFactor = factorNames.get(raw.eval_factor.trim().toLowerCase()) || null
+            if (!evalFactor) errors.push(`${label}: "${raw.eval_factor}" is not a Section M evaluation factor`)
+        }
+
+        const volumes: number[] = Array.isArray(raw?.volumes)
+            ? [...new Set<number>(raw.volumes.map(Number))].sort((a, b) => a - b)
+            : []
+        for (const v of volumes.filter(v => !volumeNumbers.has(v))) {
+            errors.push(`${label}: volume ${v} does not exist`)
+        }
+
+        const proofPoints: WinThemeProofPoint[] = (Array.isArray(raw?.proof_points) ? raw.proof_points : []).map(
+            (p: { text?: unknown; source?: unknown }, i: number) => {
+                const text = typeof p?.text === 'string' ? p.text.replace(/\s+/g, ' ').trim() : ''
+                const source = typeof p?.source === 'string' && p.source.trim() ? p.source.trim() : null
+                if (!text) errors.push(`${label}, proof point ${i + 1}: text is required`)
+                if (source) {
+                    const refs = parseSourceTags(source)
+                    if (refs.length !== 1) {
+                        errors.push(`${label}, proof point ${i + 1}: "${source}" is not a source tag`)
+                    } else if (options.companyData && !sourceOnFile(refs[0], options.companyData)) {
+                        errors.push(`${label}, proof point ${i + 1}: ${source} is not on file for this company`)
+                    }
+                }
+                return { text, source }
+            }
+        )
+
+        let id = keptIds[index]
+        if (!id) {
+            while (usedIds.has(themeId(next))) next++
+            id = themeId(next)
+            usedIds.add(id)
+        }
+
+        return {
+            id,
+            statement,
+            discriminator: raw?.discriminator === true,
+            eval_factor: evalFactor,
+            volumes: volumes.filter(v => volumeNumbers.has(v)),
+            proof_points: proofPoints,
+            updated_at: now,
+        }
+    })
+
+    return { themes, errors }
+}
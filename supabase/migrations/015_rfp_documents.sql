@@ -0,0 +1,23 @@
+-- Migration: Server-side RFP ingestion
+-- Purpose: Store original solicitation files and page-anchored extracted text
+-- Created: 2026-10-19
+
+-- Ensure rfp_text / rfp_file_url exist (older installs created jobs without them)
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS rfp_text TEXT DEFAULT NULL;
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS rfp_file_url TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN proposal_jobs.rfp_file_url IS 'Storage path of the original RFP file in the rfp-documents bucket';
+
+-- Page-anchored document produced by lib/ingestion
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS rfp_document JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN proposal_jobs.rfp_document IS 'Extracted RFP document: {file_name, file_url, mime_type, page_count, text, pages[], sections[], extracted_at}';
+
+-- Private bucket for original solicitation files (served via signed URLs)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('rfp-documents', 'rfp-documents', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,8 @@
+-- Migration: Solicitation package manifest
+-- Purpose: Track every source document of a multi-file RFP package (ZIP, DOCX, XLSX, TXT)
+-- Created: 2026-10-19
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS rfp_manifest JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN proposal_jobs.rfp_manifest IS 'Source documents of the RFP package: [{file_name, file_url, mime_type, role (rfp|sow|amendment|attachment|pricing_template), size_bytes, page_count, start_page, end_page, archive_name}]';
@@ -0,0 +1,11 @@
+-- Migration: Solicitation amendments
+-- Purpose: Track SF-30 amendments attached to a running job and the content they affect
+-- Created: 2026-10-19
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS rfp_amendments JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN proposal_jobs.rfp_amendments IS 'Amendments: [{id, file_names, status, received_at, processed_at, diff, affected_volumes, affected_sections, error}]';
+
+-- volume_status values now include "needs_regeneration" (volume invalidated by an amendment).
+-- The column is JSONB, so no constraint change is needed.
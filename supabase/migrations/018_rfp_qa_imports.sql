@@ -0,0 +1,11 @@
+-- Migration: Government Q&A imports
+-- Purpose: Track imported Q&A releases whose answers clarify RFP requirements
+-- Created: 2026-10-19
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS rfp_qa_imports JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN proposal_jobs.rfp_qa_imports IS 'Q&A imports: [{id, source, status, received_at, processed_at, text, pair_count, linked_requirement_count, error}]';
+
+-- Parsed Q&A pairs are stored in rfp_parsed_data.clarifications and linked
+-- requirements carry clarification / clarification_ids - no schema change needed.
@@ -0,0 +1,12 @@
+-- Migration: Section L volume structure
+-- Purpose: Store the volume list Agent 0 builds from Section L so proposals are
+--          not limited to the classic Technical / Management / Past Performance / Price split
+-- Created: 2026-10-19
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS volume_structure JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN proposal_jobs.volume_structure IS 'Volumes required by Section L: [{number, name, writer, page_limit, required_contents, eval_factors}]. NULL for jobs created before it existed (default four volumes).';
+
+-- Volume content, status, scores and progress stay in the existing JSONB maps
+-- (volumes, volume_status, volume_scores, ...) keyed "volumeN" for any N.
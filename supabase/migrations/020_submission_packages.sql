@@ -0,0 +1,11 @@
+-- Migration: Submission package files
+-- Purpose: Agent 8 renders and stores real volume PDFs; final_pdf_urls now records
+--          each stored file's path, size and checksum instead of a placeholder URL
+-- Created: 2026-10-19
+
+COMMENT ON COLUMN proposal_jobs.final_pdf_urls IS 'Stored submission files keyed volume_N (plus package-level documents): {path, file_name, content_type, size, sha256, storage, created_at}';
+
+-- Private bucket for generated submission files (served through the package download endpoint)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('proposal-packages', 'proposal-packages', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,5 @@
+-- Migration: DOCX exports
+-- Purpose: Agent 8 stores an editable Word copy of every volume in the archive package
+-- Created: 2026-10-19
+
+COMMENT ON COLUMN proposal_jobs.final_docx_urls IS 'Stored DOCX exports keyed volume_N: {path, file_name, content_type, size, sha256, storage, created_at}';
@@ -0,0 +1,5 @@
+-- Migration: Compliance matrix export
+-- Purpose: Agent 8 also stores the compliance matrix workbook (.xlsx) in the archive package
+-- Created: 2026-10-19
+
+COMMENT ON COLUMN proposal_jobs.final_docx_urls IS 'Stored archive files: DOCX exports keyed volume_N and the compliance matrix workbook keyed compliance_matrix: {path, file_name, content_type, size, sha256, storage, created_at}';
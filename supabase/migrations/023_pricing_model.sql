@@ -0,0 +1,11 @@
+-- Migration: Pricing engine
+-- Purpose: Store the pricing inputs (periods, CLINs, rates, hours, indirects) and the
+--          cost build-up the pricing engine computes, so the Price volume narrates exact figures
+-- Created: 2026-10-19
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS pricing_inputs JSONB DEFAULT NULL,
+    ADD COLUMN IF NOT EXISTS price_model JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN proposal_jobs.pricing_inputs IS 'Pricing engine inputs: {periods, clins, labor_categories, rate_basis, indirect_rates, labor, odcs, hours_source, assumptions}. Reused on regeneration when set.';
+COMMENT ON COLUMN proposal_jobs.price_model IS 'Pricing engine output: per-line, per-CLIN and per-period totals with the indirect rate build-up';
@@ -0,0 +1,9 @@
+-- Migration: Pricing scenarios
+-- Purpose: Keep "what if" copies of the pricing inputs (fee, escalation, labor mix, option years)
+--          so their prices can be compared before one is promoted to the Price volume
+-- Created: 2026-10-19
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS pricing_scenarios JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN proposal_jobs.pricing_scenarios IS 'Pricing scenarios: [{id, name, based_on, changes, inputs, created_at, promoted_at}]. Promoting one copies its inputs to pricing_inputs and regenerates the Price volume.';
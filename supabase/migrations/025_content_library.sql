@@ -0,0 +1,33 @@
+-- Migration: Content library
+-- Purpose: Company-scoped library of approved proposal sections (harvested when a volume is
+--          approved) and uploaded boilerplate; the writers retrieve relevant passages from it
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS content_library (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    kind text NOT NULL CHECK (kind IN ('approved_section', 'boilerplate')),
+    title text NOT NULL,
+    content text NOT NULL,
+    tags text[] DEFAULT '{}',
+    writer text,
+    source_job_id text,
+    source_volume integer,
+    source_volume_name text,
+    source_score numeric,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_library_company ON content_library(company_id);
+CREATE INDEX IF NOT EXISTS idx_content_library_source ON content_library(source_job_id, source_volume);
+
+CREATE TRIGGER update_content_library_updated_at BEFORE
+UPDATE ON content_library
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE content_library IS 'Reusable proposal content per company: approved volume sections and uploaded boilerplate';
+COMMENT ON COLUMN content_library.content IS 'Section HTML (source tags stripped)';
+COMMENT ON COLUMN content_library.writer IS 'Writer kind of the volume the section came from (technical, management, narrative, ...); null for boilerplate';
+COMMENT ON COLUMN content_library.source_job_id IS 'Proposal job the section was approved in; null for boilerplate';
+COMMENT ON COLUMN content_library.source_score IS 'Compliance score of the volume when it was approved';
@@ -0,0 +1,9 @@
+-- Migration: Win themes
+-- Purpose: Per-job win themes and discriminators (statement, proof points linked to company
+--          records, target Section M factor) that the writers weave in and Agent 5 checks
+-- Created: 2026-10-19
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS win_themes JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN proposal_jobs.win_themes IS 'Win themes: [{id, statement, discriminator, eval_factor, volumes, proof_points: [{text, source}], updated_at}]. Source is a provenance tag (past_performance:<id>, personnel:<id>, ...).';
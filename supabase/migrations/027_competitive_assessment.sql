@@ -0,0 +1,10 @@
+-- Migration: Competitive assessment
+-- Purpose: Per-job capture intelligence (likely competitors, incumbent, their strengths /
+--          weaknesses and estimated price ranges) that the writers ghost and the
+--          pricing engine measures price-to-win against
+-- Created: 2026-10-19
+
+ALTER TABLE proposal_jobs
+    ADD COLUMN IF NOT EXISTS competitive_assessment JSONB;
+
+COMMENT ON COLUMN proposal_jobs.competitive_assessment IS 'Competitive assessment: {competitors: [{id, name, incumbent, strengths, weaknesses, price_low, price_high, notes}], price_to_win, updated_at}. Competitor names never reach the volumes.';
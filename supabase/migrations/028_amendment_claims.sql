@@ -0,0 +1,59 @@
+-- Migration: Atomic amendment records
+-- Purpose: Claim the next amendment ID and update one amendment record inside a
+--          single statement. Whole-column rewrites of rfp_amendments lost records
+--          when two uploads raced, and a lock on updated_at conflicted with every
+--          progress write of a running job.
+-- Created: 2026-10-19
+
+-- Append a 'processing' amendment with the next AMD-NNN id. Returns NULL while
+-- another amendment or a Q&A import is still processing (both rewrite rfp_parsed_data).
+CREATE OR REPLACE FUNCTION claim_rfp_amendment(p_job_id proposal_jobs.job_id%TYPE, p_amendment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    amendments JSONB;
+    qa_imports JSONB;
+    next_number INTEGER;
+    amendment_id TEXT;
+BEGIN
+    SELECT COALESCE(rfp_amendments, '[]'::jsonb), COALESCE(rfp_qa_imports, '[]'::jsonb)
+        INTO amendments, qa_imports
+        FROM proposal_jobs
+        WHERE job_id = p_job_id
+        FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM jsonb_array_elements(amendments) a WHERE a->>'status' = 'processing')
+        OR EXISTS (SELECT 1 FROM jsonb_array_elements(qa_imports) q WHERE q->>'status' = 'processing') THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(MAX(NULLIF(regexp_replace(a->>'id', '\D', '', 'g'), '')::INTEGER), 0) + 1
+        INTO next_number
+        FROM jsonb_array_elements(amendments) a;
+    amendment_id := 'AMD-' || lpad(next_number::TEXT, GREATEST(3, length(next_number::TEXT)), '0');
+
+    UPDATE proposal_jobs
+        SET rfp_amendments = amendments || jsonb_build_array(
+            p_amendment || jsonb_build_object('id', amendment_id, 'status', 'processing')
+        )
+        WHERE job_id = p_job_id;
+
+    RETURN amendment_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge fields into one amendment record without rewriting the others
+CREATE OR REPLACE FUNCTION update_rfp_amendment(p_job_id proposal_jobs.job_id%TYPE, p_amendment_id TEXT, p_updates JSONB)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE proposal_jobs
+        SET rfp_amendments = (
+            SELECT COALESCE(jsonb_agg(CASE WHEN a->>'id' = p_amendment_id THEN a || p_updates ELSE a END ORDER BY position), '[]'::jsonb)
+            FROM jsonb_array_elements(COALESCE(rfp_amendments, '[]'::jsonb)) WITH ORDINALITY AS elements(a, position)
+        )
+        WHERE job_id = p_job_id;
+END;
+$$ LANGUAGE plpgsql;
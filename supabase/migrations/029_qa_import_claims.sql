@@ -0,0 +1,56 @@
+-- Migration: Atomic Q&A import records
+-- Purpose: Claim the next Q&A import ID and update one import record inside a
+--          single statement, like amendments (028)
+-- Created: 2026-10-19
+
+-- Append a 'processing' import with the next QAI-NNN id. Returns NULL while an
+-- amendment is processing (both rewrite rfp_parsed_data).
+CREATE OR REPLACE FUNCTION claim_rfp_qa_import(p_job_id proposal_jobs.job_id%TYPE, p_import JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    amendments JSONB;
+    qa_imports JSONB;
+    next_number INTEGER;
+    import_id TEXT;
+BEGIN
+    SELECT COALESCE(rfp_amendments, '[]'::jsonb), COALESCE(rfp_qa_imports, '[]'::jsonb)
+        INTO amendments, qa_imports
+        FROM proposal_jobs
+        WHERE job_id = p_job_id
+        FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM jsonb_array_elements(amendments) a WHERE a->>'status' = 'processing') THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(MAX(NULLIF(regexp_replace(q->>'id', '\D', '', 'g'), '')::INTEGER), 0) + 1
+        INTO next_number
+        FROM jsonb_array_elements(qa_imports) q;
+    import_id := 'QAI-' || lpad(next_number::TEXT, GREATEST(3, length(next_number::TEXT)), '0');
+
+    UPDATE proposal_jobs
+        SET rfp_qa_imports = qa_imports || jsonb_build_array(
+            p_import || jsonb_build_object('id', import_id, 'status', 'processing')
+        )
+        WHERE job_id = p_job_id;
+
+    RETURN import_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge fields into one Q&A import record without rewriting the others
+CREATE OR REPLACE FUNCTION update_rfp_qa_import(p_job_id proposal_jobs.job_id%TYPE, p_import_id TEXT, p_updates JSONB)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE proposal_jobs
+        SET rfp_qa_imports = (
+            SELECT COALESCE(jsonb_agg(CASE WHEN q->>'id' = p_import_id THEN q || p_updates ELSE q END ORDER BY position), '[]'::jsonb)
+            FROM jsonb_array_elements(COALESCE(rfp_qa_imports, '[]'::jsonb)) WITH ORDINALITY AS elements(q, position)
+        )
+        WHERE job_id = p_job_id;
+END;
+$$ LANGUAGE plpgsql;
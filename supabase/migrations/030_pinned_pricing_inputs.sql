@@ -0,0 +1,7 @@
+-- Migration: Pinned pricing inputs
+-- Purpose: pricing_inputs now only holds inputs a user or a promoted scenario pinned
+--          (tagged with origin). Inputs saved by earlier runs carry no origin and are
+--          re-estimated; the inputs a volume was priced from stay in price_model.inputs.
+-- Created: 2026-10-19
+
+COMMENT ON COLUMN proposal_jobs.pricing_inputs IS 'Pinned pricing engine inputs: {periods, clins, labor_categories, rate_basis, indirect_rates, labor, odcs, hours_source, structure, assumptions, origin, superseded_by}. Reused on regeneration when origin is set and no amendment superseded them.';
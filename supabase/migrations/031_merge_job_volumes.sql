@@ -0,0 +1,16 @@
+-- Migration: Atomic volume saves
+-- Purpose: Merge saved volume content into proposal_jobs.volumes inside one statement.
+--          The read-merge-write in batchSaveVolumes let volumes generated in parallel
+--          overwrite each other's content.
+-- Created: 2026-10-19
+
+-- Merge {"volumeN": content} keys into volumes, leaving the other volumes untouched
+CREATE OR REPLACE FUNCTION merge_job_volumes(p_job_id proposal_jobs.job_id%TYPE, p_volumes JSONB)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE proposal_jobs
+        SET volumes = COALESCE(volumes, '{}'::jsonb) || p_volumes,
+            updated_at = NOW()
+        WHERE job_id = p_job_id;
+END;
+$$ LANGUAGE plpgsql;